@@ -50,6 +50,7 @@ module.exports = class extends Generator {
     install() {
         const harpPackages = [
             "@here/harp-mapview",
+            "@here/harp-mapview-decoder",
             "@here/harp-datasource-protocol",
             "@here/harp-geoutils",
             "@here/harp-map-controls",
@@ -6,6 +6,7 @@
 
 self.importScripts("three.min.js");
 
+import { GlyphGeneratorService } from "@here/harp-mapview-decoder/index-worker";
 import {
     GeoJsonTilerService,
     VectorTileDecoderService
@@ -13,3 +14,4 @@ import {
 
 VectorTileDecoderService.start();
 GeoJsonTilerService.start();
+GlyphGeneratorService.register();
@@ -10,6 +10,7 @@ declare let self: Worker & {
 
 self.importScripts("three.min.js");
 
+import { GlyphGeneratorService } from "@here/harp-mapview-decoder/index-worker";
 import {
     GeoJsonTilerService,
     VectorTileDecoderService
@@ -17,3 +18,4 @@ import {
 
 VectorTileDecoderService.start();
 GeoJsonTilerService.start();
+GlyphGeneratorService.register();
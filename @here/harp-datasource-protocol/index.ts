@@ -29,6 +29,7 @@ export * from "./lib/InterpolatedPropertyDefs";
 export * from "./lib/WorkerServiceProtocol";
 export * from "./lib/WorkerTilerProtocol";
 export * from "./lib/WorkerDecoderProtocol";
+export * from "./lib/WorkerGlyphProtocol";
 export * from "./lib/ITileDecoder";
 export * from "./lib/ITiler";
 export * from "./lib/DecodedTile";
@@ -57,6 +57,12 @@ export class ExprDependencies {
      */
     featureState?: boolean;
 
+    /**
+     * The names of the feature state properties needed to evaluate the {@link Expr}, `undefined`
+     * if they are only known at evaluation time.
+     */
+    featureStateProperties?: Set<string> = new Set<string>();
+
     /**
      * `true` if this expression cannot be cached.
      */
@@ -114,11 +120,18 @@ class ComputeExprDependencies implements ExprVisitor<void, ExprDependencies> {
             case "dynamic-properties":
                 context.volatile = true;
                 break;
-            case "feature-state":
+            case "feature-state": {
                 context.featureState = true;
                 context.properties.add("$state");
                 context.properties.add("$id");
+                const name = expr.args[0];
+                if (name instanceof StringLiteralExpr) {
+                    context.featureStateProperties?.add(name.value);
+                } else {
+                    context.featureStateProperties = undefined;
+                }
                 break;
+            }
             case "id":
                 context.properties.add("$id");
                 break;
@@ -130,6 +143,9 @@ class ComputeExprDependencies implements ExprVisitor<void, ExprDependencies> {
             case "geometry-type":
                 context.properties.add("$geometryType");
                 break;
+            case "heatmap-density":
+                context.properties.add("$heatmapDensity");
+                break;
             default:
                 break;
         }
@@ -29,12 +29,16 @@ export interface ITileDecoder {
      * representation of tile's geometry.
      *
      * See [[DecodedTile]].
+     *
+     * @param time - Optional time of the tile data in milliseconds since the Unix epoch, available
+     * to the styles as `$time`.
      */
     decodeTile(
         data: ArrayBufferLike | {},
         tileKey: TileKey,
         projection: Projection,
-        requestController?: RequestController
+        requestController?: RequestController,
+        time?: number
     ): Promise<DecodedTile>;
 
     /**
@@ -6,7 +6,126 @@
 
 import { TileKey } from "@here/harp-geoutils";
 
-import { GeoJson } from "../lib/GeoJsonDataType";
+import { Feature, GeoJson } from "../lib/GeoJsonDataType";
+import { JsonExpr } from "./Expr";
+
+/**
+ * Reducers aggregating the values of the points of a cluster.
+ */
+export type ClusterPropertyReducer = "sum" | "min" | "max" | "mean";
+
+/**
+ * Definition of a property aggregated from the points of a cluster.
+ */
+export interface ClusterPropertyDefinition {
+    /**
+     * The reducer combining the values of the points.
+     */
+    reducer: ClusterPropertyReducer;
+
+    /**
+     * Expression evaluated with the properties of each point, e.g. `["get", "population"]`.
+     * Points for which it doesn't evaluate to a number are ignored.
+     */
+    value: JsonExpr;
+}
+
+/**
+ * Options for clustering the points of an index.
+ *
+ * @remarks
+ * Clusters are features with a `Point` geometry and following properties:
+ * - `cluster`: always `true`,
+ * - `cluster_id`: the id of the cluster, also used as feature id,
+ * - `point_count`: the number of points in the cluster,
+ * - `point_count_abbreviated`: `point_count` as short string, e.g. `"1.2k"`,
+ * - the aggregated properties defined in {@link ClusteringOptions.properties}.
+ */
+export interface ClusteringOptions {
+    /**
+     * Radius of the clusters in pixels, for tiles displayed with a size of 512 pixels.
+     * @defaultValue `50`
+     */
+    radius?: number;
+
+    /**
+     * Maximum tile level at which points are clustered. All points are shown separately at higher
+     * levels.
+     * @defaultValue `16`
+     */
+    maxZoom?: number;
+
+    /**
+     * Minimum number of points forming a cluster.
+     * @defaultValue `2`
+     */
+    minPoints?: number;
+
+    /**
+     * Properties aggregated from the points of each cluster, by name.
+     */
+    properties?: { [name: string]: ClusterPropertyDefinition };
+}
+
+/**
+ * Options of a tiler index.
+ */
+export interface TilerIndexOptions {
+    /**
+     * Clusters the `Point` and `MultiPoint` features of the index if defined.
+     */
+    clustering?: ClusteringOptions;
+
+    /**
+     * Simplification tolerance in tile coordinates, higher values give simpler geometries.
+     * @defaultValue `3`
+     */
+    tolerance?: number;
+
+    /**
+     * Extent of the tile coordinates.
+     * @defaultValue `4096`
+     */
+    extent?: number;
+
+    /**
+     * Size of the buffer around each tile in tile coordinates.
+     * @defaultValue 5% of {@link TilerIndexOptions.extent}
+     */
+    buffer?: number;
+
+    /**
+     * Maximum level of the tiles created when the index is registered, tiles of higher levels
+     * are created on demand.
+     * @defaultValue `5`
+     */
+    indexMaxZoom?: number;
+}
+
+/**
+ * Changes of the features of a tiler index created from a GeoJSON feature collection.
+ *
+ * @remarks
+ * Features are identified by their GeoJSON `id`, features without an id can't be updated or
+ * removed.
+ */
+export interface TilerFeatureChanges {
+    /**
+     * Features to add. A feature with the id of a feature of the index replaces it.
+     */
+    add?: Feature[];
+
+    /**
+     * Features replacing the features of the index with the same ids. Features with unknown ids
+     * are added.
+     */
+    update?: Feature[];
+
+    /**
+     * Ids of the features to remove.
+     */
+    remove?: Array<string | number>;
+}
 
 /**
  * General type tiler which can be used to provide tile untiled payloads.
@@ -26,8 +145,13 @@ export interface ITiler {
      *
      * @param indexId - Index identifier.
      * @param indexUrl - Url to the index payload, or direct GeoJson.
+     * @param options - Options of the index.
      */
-    registerIndex(indexId: string, indexUrl: URL | GeoJson): Promise<void>;
+    registerIndex(
+        indexId: string,
+        indexUrl: URL | GeoJson,
+        options?: TilerIndexOptions
+    ): Promise<void>;
 
     /**
      * Update index in the tiler. Indexes registered in the tiler can be later used to retrieved
@@ -35,8 +159,23 @@ export interface ITiler {
      *
      * @param indexId - Index identifier.
      * @param indexUrl - Url to the index payload, or direct GeoJson.
+     * @param options - Options of the index.
      */
-    updateIndex(indexId: string, indexUrl: URL | GeoJson): Promise<void>;
+    updateIndex(
+        indexId: string,
+        indexUrl: URL | GeoJson,
+        options?: TilerIndexOptions
+    ): Promise<void>;
+
+    /**
+     * Adds, updates and removes features of an index, only the changed features are tiled again.
+     *
+     * @param indexId - Index identifier.
+     * @param changes - The feature changes.
+     * @returns The keys of the tiles containing changes. Tiles with one of these keys, or with an
+     * ancestor or descendant key, must be requested again.
+     */
+    updateFeatures(indexId: string, changes: TilerFeatureChanges): Promise<TileKey[]>;
 
     /**
      * Retrieves a tile for a previously registered index.
@@ -46,6 +185,24 @@ export interface ITiler {
      */
     getTile(indexId: string, tileKey: TileKey): Promise<{}>;
 
+    /**
+     * Retrieves the children of a cluster of an index with clustering, i.e. the clusters and
+     * points it splits into at the next higher level.
+     *
+     * @param indexId - Index identifier.
+     * @param clusterId - The `cluster_id` of the cluster.
+     */
+    getClusterChildren(indexId: string, clusterId: number): Promise<Feature[]>;
+
+    /**
+     * Retrieves the level at which a cluster of an index with clustering splits into several
+     * children.
+     *
+     * @param indexId - Index identifier.
+     * @param clusterId - The `cluster_id` of the cluster.
+     */
+    getClusterExpansionZoom(indexId: string, clusterId: number): Promise<number>;
+
     /**
      * Free all resources associated with this tiler.
      *
@@ -41,6 +41,24 @@ const logger = LoggerManager.instance.create("StyleSetEvaluator");
 
 const DEFAULT_TECHNIQUE_ATTR_SCOPE = AttrScope.TechniqueGeometry;
 
+/**
+ * Rendering attributes that may depend on the feature state.
+ *
+ * @remarks
+ * These attributes are applied to materials, so they can be evaluated for each feature state on
+ * the main thread without decoding the tiles again.
+ */
+const FEATURE_STATE_ATTRIBUTES = [
+    "color",
+    "opacity",
+    "lineWidth",
+    "lineColor",
+    "outlineColor",
+    "outlineWidth",
+    "secondaryColor",
+    "heightScale"
+];
+
 /**
  * Get the attribute scope of the given style property.
  *
@@ -126,6 +144,11 @@ interface StyleInternalParams {
      * requires access to the feature's state.
      */
     _usesFeatureState?: boolean;
+
+    /**
+     * Names of the rendering attributes that depend on the feature's state.
+     */
+    _featureStateAttributes?: string[];
 }
 
 type InternalStyle = Style & StyleInternalParams;
@@ -775,10 +798,21 @@ export class StyleSetEvaluator {
                 const deps = attrValue.dependencies();
 
                 if (deps.featureState) {
-                    if (attrName !== "enabled") {
-                        logger.log("feature-state is not supported in this context");
-                    } else {
+                    if (attrName === "enabled") {
+                        style._usesFeatureState = true;
+                    } else if (
+                        FEATURE_STATE_ATTRIBUTES.includes(attrName) &&
+                        Array.from(deps.properties).every(prop => prop.startsWith("$"))
+                    ) {
+                        // Forward as is, the expression is evaluated for each feature state
+                        // by the material of the feature.
                         style._usesFeatureState = true;
+                        style._featureStateAttributes = style._featureStateAttributes ?? [];
+                        style._featureStateAttributes.push(attrName);
+                        dynamicForwardedAttributes.push([attrName, attrValue]);
+                        return;
+                    } else {
+                        logger.log("feature-state is not supported in this context");
                     }
                 }
 
@@ -912,6 +946,9 @@ export class StyleSetEvaluator {
         if (style._usesFeatureState !== undefined) {
             technique._usesFeatureState = style._usesFeatureState;
         }
+        if (style._featureStateAttributes !== undefined) {
+            technique._featureStateProperties = style._featureStateAttributes;
+        }
         this.m_techniques.push(technique as IndexedTechnique);
         return technique as IndexedTechnique;
     }
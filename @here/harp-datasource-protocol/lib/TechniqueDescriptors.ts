@@ -12,6 +12,7 @@ import {
     CirclesTechnique,
     ExtrudedPolygonTechnique,
     FillTechnique,
+    HeatmapTechnique,
     IndexedTechnique,
     LineMarkerTechnique,
     LineTechnique,
@@ -156,6 +157,19 @@ const circlesTechniquePropTypes = mergeTechniqueDescriptor<CirclesTechnique>(
     pointTechniquePropTypes
 );
 
+const heatmapTechniqueDescriptor = mergeTechniqueDescriptor<HeatmapTechnique>(
+    baseTechniqueParamsDescriptor,
+    {
+        attrDescriptors: {
+            weight: AttrScope.FeatureGeometry,
+            radius: { scope: AttrScope.TechniqueRendering, automatic: true },
+            intensity: { scope: AttrScope.TechniqueRendering, automatic: true },
+            colorRamp: AttrScope.TechniqueRendering,
+            opacity: AttrScope.TechniqueRendering
+        }
+    }
+);
+
 const lineMarkerTechniquePropTypes = mergeTechniqueDescriptor<LineMarkerTechnique>(
     baseTechniqueParamsDescriptor,
     {
@@ -208,7 +222,8 @@ const solidLineTechniqueDescriptor = mergeTechniqueDescriptor<SolidLineTechnique
             drawRangeStart: { scope: AttrScope.TechniqueRendering, automatic: true },
             drawRangeEnd: { scope: AttrScope.TechniqueRendering, automatic: true },
             dashes: { scope: AttrScope.TechniqueRendering, automatic: true },
-            dashColor: { scope: AttrScope.TechniqueRendering, automatic: true }
+            dashColor: { scope: AttrScope.TechniqueRendering, automatic: true },
+            linePattern: AttrScope.TechniqueRendering
         }
     }
 );
@@ -234,7 +249,10 @@ const fillTechniqueDescriptor = mergeTechniqueDescriptor<FillTechnique>(
             color: { scope: AttrScope.TechniqueRendering, automatic: true },
             opacity: { scope: AttrScope.TechniqueRendering, automatic: true },
             transparent: { scope: AttrScope.TechniqueRendering, automatic: true },
-            lineWidth: AttrScope.TechniqueRendering
+            lineWidth: AttrScope.TechniqueRendering,
+            fillPattern: AttrScope.TechniqueRendering,
+            fillPatternAnchor: AttrScope.TechniqueRendering,
+            fillPatternScale: AttrScope.TechniqueRendering
         }
     }
 );
@@ -275,6 +293,7 @@ const extrudedPolygonTechniqueDescriptor = mergeTechniqueDescriptor<ExtrudedPoly
             footprint: AttrScope.FeatureGeometry,
             maxSlope: AttrScope.FeatureGeometry,
             animateExtrusion: AttrScope.TechniqueRendering,
+            heightScale: AttrScope.TechniqueRendering,
             lineWidth: AttrScope.TechniqueRendering,
             lineFadeNear: AttrScope.TechniqueRendering,
             lineFadeFar: AttrScope.TechniqueRendering,
@@ -321,6 +340,7 @@ const techniqueDescriptors: TechniqueDescriptorRegistry = {
     standard: standardTechniqueDescriptor,
     squares: squaresTechniquePropTypes,
     circles: circlesTechniquePropTypes,
+    heatmap: heatmapTechniqueDescriptor,
     line: lineTechniqueDescriptor,
     segments: lineTechniqueDescriptor,
     fill: fillTechniqueDescriptor,
@@ -22,6 +22,12 @@ export type LineDashes = "Square" | "Round" | "Diamond";
  */
 export type MetricUnit = "Meter" | "Pixel";
 
+/**
+ * Defines what a fill pattern is anchored to. A `"world"` pattern moves and scales with the map,
+ * a `"screen"` pattern keeps its position and size in pixels.
+ */
+export type PatternAnchor = "world" | "screen";
+
 /**
  * Standard kinds of geometry.
  */
@@ -454,6 +460,44 @@ export interface PointTechniqueParams extends BaseTechniqueParams {
     enablePicking?: boolean;
 }
 
+/**
+ * Declares a technique rendering the density of point features as a heatmap.
+ *
+ * @remarks
+ * The weights of the points are accumulated with a gaussian kernel into an offscreen density
+ * buffer, which is then colorized with the color ramp. The heatmaps of each style are
+ * accumulated separately.
+ */
+export interface HeatmapTechniqueParams extends BaseTechniqueParams {
+    /**
+     * Contribution of a point to the density, typically an expression reading a feature
+     * property, for example: `["get", "magnitude"]`. Defaults to `1`.
+     */
+    weight?: DynamicProperty<number>;
+    /**
+     * Radius of the influence of a point in pixels. Defaults to `30`.
+     */
+    radius?: DynamicProperty<number>;
+    /**
+     * Factor the accumulated density is multiplied with, typically increased with the zoom
+     * level. Defaults to `1`.
+     */
+    intensity?: DynamicProperty<number>;
+    /**
+     * Expression evaluating to the color of each density in the range `[0, 1]`, which is
+     * available through `["heatmap-density"]`, for example:
+     * ```json
+     * ["interpolate", ["linear"], ["heatmap-density"], 0, "rgba(0, 0, 255, 0)", 1, "#f00"]
+     * ```
+     * Defaults to a ramp from transparent blue to red.
+     */
+    colorRamp?: JsonExpr;
+    /**
+     * Opacity of the heatmap between 0.0 for totally transparent and 1.0 for totally opaque.
+     */
+    opacity?: DynamicProperty<number>;
+}
+
 /**
  * Define the stacking option. Enum values for theme file are in "kebab-case".
  */
@@ -615,6 +659,23 @@ export interface MarkerTechniqueParams extends BaseTechniqueParams {
      * @defaultValue `true`
      */
     iconReserveSpace?: boolean;
+    /**
+     * Name of the collision group of the marker.
+     *
+     * @remarks
+     * Text and icons only collide with other labels of the same group, e.g. the markers of an
+     * overlay layer may be put in their own group so they never hide the labels of the base map
+     * and vice versa. Labels without a group are in the default group.
+     */
+    collisionGroup?: string;
+    /**
+     * Minimum distance in pixels between markers with the same text, technique and feature id.
+     *
+     * @remarks
+     * Used to avoid repeating the same marker too often, e.g. the shield of a road spanning
+     * several tiles. Markers are not filtered if not defined.
+     */
+    repeatDistance?: number;
     /**
      * If `false`, text will not be rendered during animations. Defaults to `true`.
      */
@@ -822,6 +883,11 @@ export interface MarkerTechniqueParams extends BaseTechniqueParams {
      * will be the same as `Left` aligned by deduction. On other side vertical placement is quite
      * similar to vertical alignment so `T` placement corresponds with `Above` alignment.
      *
+     * The placements are tried in the order given until one is found where the text fits. The
+     * placement found is kept in the following frames as long as the text fits there.
+     * Each token may be followed by the horizontal (to the right) and vertical (up) offsets in
+     * screen pixels applied to the text at this placement, for example: "TR 4 4, BL -4 -4, C".
+     *
      * @note This attribute may override [[hAlignment]] and [[vAlignment]] if defined.
      */
     placements?: string;
@@ -1113,6 +1179,11 @@ export interface SolidLineTechniqueParams extends BaseTechniqueParams, Polygonal
      * Size in world units how far to offset the line perpendicular to its direction.
      */
     offset?: DynamicProperty<number>;
+    /**
+     * Name of the [[ImageTexture]] or image repeated along the line. The image is scaled to the
+     * width of the line keeping its aspect ratio and multiplied with the line color.
+     */
+    linePattern?: string;
 }
 
 /**
@@ -1127,6 +1198,22 @@ export interface FillTechniqueParams extends BaseTechniqueParams, PolygonalTechn
      * Width of the lines. Currently limited to the [0, 1] range.
      */
     lineWidth?: DynamicProperty<number>;
+    /**
+     * Name of the [[ImageTexture]] or image repeated to fill the polygons, for example to hatch
+     * them. The pattern is multiplied with the fill color.
+     */
+    fillPattern?: string;
+    /**
+     * Defines what the fill pattern is anchored to.
+     * @defaultValue `"world"`
+     */
+    fillPatternAnchor?: PatternAnchor;
+    /**
+     * Scale of the fill pattern, `1` shows the image with its size in pixels at the zoom level of
+     * the tile (`"world"` anchor) or on the screen (`"screen"` anchor).
+     * @defaultValue `1`
+     */
+    fillPatternScale?: number;
 }
 
 /**
@@ -1215,6 +1302,16 @@ export interface ExtrudedPolygonTechniqueParams extends StandardTechniqueParams
      */
     boundaryWalls?: boolean;
 
+    /**
+     * Scale applied to the extruded height of the features on the main thread.
+     *
+     * @remarks
+     * Only evaluated for features with a feature state, relative to the (possibly animated)
+     * extrusion of the tile, so it can be used to raise hovered or selected buildings, e.g.
+     * `["case", ["==", ["feature-state", "selected"], true], 1.2, 1]`.
+     */
+    heightScale?: DynamicProperty<number>;
+
     /**
      * Animate the extrusion of the buildings if set to `true`.
      */
@@ -1327,6 +1424,21 @@ export interface TextTechniqueParams extends BaseTechniqueParams {
      * @deprecated Use proper expression with [`get`, `iso_code`] for this purpose.
      */
     useIsoCode?: boolean;
+    /**
+     * Placement of the labels of polygon features, e.g. lakes, parks or countries.
+     *
+     * @remarks
+     * Possible values are:
+     *  - `"pole"`: the label is placed at the pole of inaccessibility of the polygon, the point
+     *    inside the polygon farthest from its outline.
+     *  - `"medial-axis"`: the label follows a path along the medial axis of the polygon, so it
+     *    fits into long concave polygons like rivers or lakes. Falls back to `"pole"` if the path
+     *    is too short for the text.
+     *
+     * A polygon crossing tile borders is labeled only in the tile containing the label position
+     * (the middle of the path for `"medial-axis"`). If not defined, polygons are not labeled.
+     */
+    polygonLabelPlacement?: "pole" | "medial-axis";
     /**
      * Priority of text, defaults to `0`. Elements with highest priority get placed first.
      */
@@ -1354,6 +1466,22 @@ export interface TextTechniqueParams extends BaseTechniqueParams {
      * @defaultValue `true`
      */
     reserveSpace?: boolean;
+    /**
+     * Name of the collision group of the text.
+     *
+     * @remarks
+     * Text only collides with other labels of the same group. Labels without a group are in the
+     * default group.
+     */
+    collisionGroup?: string;
+    /**
+     * Minimum distance in pixels between labels with the same text, technique and feature id.
+     *
+     * @remarks
+     * Used to avoid repeating the same label too often, e.g. the name of a road spanning several
+     * tiles. Labels are not filtered if not defined.
+     */
+    repeatDistance?: number;
     /**
      * Fading time for labels in seconds.
      */
@@ -11,6 +11,7 @@ import {
     BasicExtrudedLineTechniqueParams,
     ExtrudedPolygonTechniqueParams,
     FillTechniqueParams,
+    HeatmapTechniqueParams,
     isTextureBuffer,
     LineTechniqueParams,
     MarkerTechniqueParams,
@@ -66,6 +67,7 @@ export type MakeTechniqueAttrs<T> = {
 export type Technique =
     | SquaresTechnique
     | CirclesTechnique
+    | HeatmapTechnique
     | PoiTechnique
     | LineMarkerTechnique
     | LineTechnique
@@ -97,6 +99,14 @@ export interface CirclesTechnique extends MakeTechniqueAttrs<PointTechniqueParam
     name: "circles";
 }
 
+/**
+ * Runtime representation of `HeatmapStyle` as parsed by `StyleSetEvaluator`.
+ * For technique parameters see `HeatmapTechniqueParams`.
+ */
+export interface HeatmapTechnique extends MakeTechniqueAttrs<HeatmapTechniqueParams> {
+    name: "heatmap";
+}
+
 /**
  * Runtime representation of `PoiStyle` as parsed by `StyleSetEvaluator`.
  * For technique parameters see `MarkerTechniqueParams`.
@@ -261,6 +271,14 @@ export interface IndexedTechniqueParams {
      */
     _usesFeatureState?: boolean;
 
+    /**
+     * Names of the rendering properties of this technique that depend on the feature's state,
+     * evaluated per feature state on the main thread.
+     *
+     * @hidden
+     */
+    _featureStateProperties?: string[];
+
     /**
      * Last computed state derived from [[Technique.kind]].
      */
@@ -287,6 +305,13 @@ export function isSquaresTechnique(technique: Technique): technique is SquaresTe
     return technique.name === "squares";
 }
 
+/**
+ * Type guard to check if an object is an instance of `HeatmapTechnique`.
+ */
+export function isHeatmapTechnique(technique: Technique): technique is HeatmapTechnique {
+    return technique.name === "heatmap";
+}
+
 /**
  * Type guard to check if an object is an instance of `PoiTechnique`.
  */
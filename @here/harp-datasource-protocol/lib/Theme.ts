@@ -13,6 +13,7 @@ import {
     BasicExtrudedLineTechniqueParams,
     ExtrudedPolygonTechniqueParams,
     FillTechniqueParams,
+    HeatmapTechniqueParams,
     LineTechniqueParams,
     MarkerTechniqueParams,
     PointTechniqueParams,
@@ -368,6 +369,7 @@ export interface StyleAttributes<Technique, Params> {
 export type Style =
     | SquaresStyle
     | CirclesStyle
+    | HeatmapStyle
     | PoiStyle
     | LineMarkerStyle
     | LineStyle
@@ -435,6 +437,13 @@ export type SquaresStyle = BaseStyle<"squares", PointTechniqueParams>;
  */
 export type CirclesStyle = BaseStyle<"circles", PointTechniqueParams>;
 
+/**
+ * Render the density of point features as a heatmap.
+ *
+ * @see {@link HeatmapTechniqueParams}.
+ */
+export type HeatmapStyle = BaseStyle<"heatmap", HeatmapTechniqueParams>;
+
 /**
  * Render feature as POIs (icons and text) rendered in screen space.
  *
@@ -591,7 +600,7 @@ export interface TextStyleDefinition {
     hAlignment?: "Left" | "Center" | "Right";
     vAlignment?: "Above" | "Center" | "Below";
     /**
-     * @format comma separated list of placement tokens, i.e. "TR, TL, C"
+     * @format comma separated list of placement tokens with optional offsets, i.e. "TR 4 4, TL, C"
      * @see [[PlacementToken]]
      */
     placements?: string;
@@ -764,6 +773,16 @@ export interface PoiTableEntryDef {
  * Fonts used for all text related rendering.
  */
 export interface FontCatalogConfig {
-    url: string;
+    /**
+     * URL of the font catalog assets with pre-generated glyphs.
+     */
+    url?: string;
+
     name: string;
+
+    /**
+     * URLs of TrueType or OpenType fonts, used instead of [[url]]. Glyphs are generated at
+     * runtime, each one from the first font in the list supporting it.
+     */
+    fonts?: string[];
 }
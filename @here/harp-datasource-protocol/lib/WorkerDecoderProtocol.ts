@@ -108,6 +108,7 @@ export namespace WorkerDecoderProtocol {
         tileKey: number;
         data: ArrayBufferLike;
         projection: string;
+        time?: number;
     }
 
     /**
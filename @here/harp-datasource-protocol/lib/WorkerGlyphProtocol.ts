@@ -0,0 +1,47 @@
+/*
+ * Copyright (C) 2017-2020 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { WorkerServiceProtocol } from "./WorkerServiceProtocol";
+
+/**
+ * Communication protocol with glyph generator services, which generate SDF glyph bitmaps of
+ * TrueType and OpenType fonts in web workers.
+ */
+export namespace WorkerGlyphProtocol {
+    /**
+     * Service type of glyph generator services registered in worker scripts.
+     */
+    export const GLYPH_GENERATOR_SERVICE_TYPE = "glyph-generator";
+
+    /**
+     * Define possible names of requests called on glyph generator services within `WebWorker`.
+     */
+    export enum Requests {
+        GenerateGlyphs = "generate-glyphs"
+    }
+
+    /**
+     * This object is sent to the glyph generator to generate the SDF bitmaps of glyphs. The
+     * expected response type is a `SdfGlyphResponse` of `@here/harp-text-canvas`.
+     */
+    export interface GenerateGlyphsRequest extends WorkerServiceProtocol.ServiceRequest {
+        type: Requests.GenerateGlyphs;
+        fonts: string[];
+        codePoints: number[];
+        size: number;
+        distanceRange: number;
+        maxGlyphSize: number;
+    }
+
+    /**
+     * Type guard to check if an object is a glyph generation request sent to a worker.
+     */
+    export function isGenerateGlyphsRequest(message: any): message is GenerateGlyphsRequest {
+        return (
+            message && typeof message.type === "string" && message.type === Requests.GenerateGlyphs
+        );
+    }
+}
@@ -5,6 +5,7 @@
  */
 
 import { GeoJson } from "../lib/GeoJsonDataType";
+import { TilerFeatureChanges, TilerIndexOptions } from "./ITiler";
 import { WorkerServiceProtocol } from "./WorkerServiceProtocol";
 
 /**
@@ -17,7 +18,10 @@ export namespace WorkerTilerProtocol {
     export enum Requests {
         RegisterIndex = "register-index",
         UpdateIndex = "update-index",
-        TileRequest = "tile-request"
+        UpdateFeatures = "update-features",
+        TileRequest = "tile-request",
+        ClusterChildrenRequest = "cluster-children-request",
+        ClusterExpansionZoomRequest = "cluster-expansion-zoom-request"
     }
 
     /**
@@ -27,6 +31,7 @@ export namespace WorkerTilerProtocol {
         type: Requests.RegisterIndex;
         id: string;
         input: string | GeoJson;
+        options?: TilerIndexOptions;
     }
 
     /**
@@ -45,6 +50,7 @@ export namespace WorkerTilerProtocol {
         type: Requests.UpdateIndex;
         id: string;
         input: string | GeoJson;
+        options?: TilerIndexOptions;
     }
 
     /**
@@ -54,6 +60,25 @@ export namespace WorkerTilerProtocol {
         return message && typeof message.type === "string" && message.type === Requests.UpdateIndex;
     }
 
+    /**
+     * This object is sent to the tiler to change features of a tile index in the worker. The
+     * expected response type is an array with the morton codes of the changed tiles.
+     */
+    export interface UpdateFeaturesRequest extends WorkerServiceProtocol.ServiceRequest {
+        type: Requests.UpdateFeatures;
+        id: string;
+        changes: TilerFeatureChanges;
+    }
+
+    /**
+     * Type guard to check if an object is a feature update request sent to a worker.
+     */
+    export function isUpdateFeaturesRequest(message: any): message is UpdateFeaturesRequest {
+        return (
+            message && typeof message.type === "string" && message.type === Requests.UpdateFeatures
+        );
+    }
+
     /**
      * This object is sent to the tiler asking to retrieve a specific tile. The expected response
      * type is an object containing a tiled payload.
@@ -70,4 +95,48 @@ export namespace WorkerTilerProtocol {
     export function isTileRequest(message: any): message is TileRequest {
         return message && typeof message.type === "string" && message.type === Requests.TileRequest;
     }
+
+    /**
+     * This object is sent to the tiler asking for the children of a cluster. The expected
+     * response type is an array of GeoJSON features.
+     */
+    export interface ClusterChildrenRequest extends WorkerServiceProtocol.ServiceRequest {
+        type: Requests.ClusterChildrenRequest;
+        index: string;
+        clusterId: number;
+    }
+
+    /**
+     * Type guard to check if an object is a cluster children request sent to a worker.
+     */
+    export function isClusterChildrenRequest(message: any): message is ClusterChildrenRequest {
+        return (
+            message &&
+            typeof message.type === "string" &&
+            message.type === Requests.ClusterChildrenRequest
+        );
+    }
+
+    /**
+     * This object is sent to the tiler asking for the expansion zoom of a cluster. The expected
+     * response type is a number.
+     */
+    export interface ClusterExpansionZoomRequest extends WorkerServiceProtocol.ServiceRequest {
+        type: Requests.ClusterExpansionZoomRequest;
+        index: string;
+        clusterId: number;
+    }
+
+    /**
+     * Type guard to check if an object is a cluster expansion zoom request sent to a worker.
+     */
+    export function isClusterExpansionZoomRequest(
+        message: any
+    ): message is ClusterExpansionZoomRequest {
+        return (
+            message &&
+            typeof message.type === "string" &&
+            message.type === Requests.ClusterExpansionZoomRequest
+        );
+    }
 }
@@ -60,6 +60,17 @@ const operators = {
             }
             return context.env.lookup("$zoom") ?? null;
         }
+    },
+    "heatmap-density": {
+        isDynamicOperator: (): boolean => {
+            return true;
+        },
+        call: (context: ExprEvaluatorContext, call: CallExpr): Value => {
+            if (context.scope === ExprScope.Value) {
+                return call;
+            }
+            return context.env.lookup("$heatmapDensity") ?? null;
+        }
     }
 };
 
@@ -1144,6 +1144,39 @@ describe("ExprEvaluator", function() {
         });
     });
 
+    describe("Operator 'heatmap-density'", function() {
+        it("is kept in a static scope", function() {
+            assert.strictEqual(
+                JSON.stringify(evaluate(["*", ["heatmap-density"], 2])),
+                JSON.stringify(["*", ["heatmap-density"], 2])
+            );
+            assert.deepStrictEqual(dependencies(["heatmap-density"]), {
+                properties: ["$heatmapDensity"],
+                dynamic: true
+            });
+        });
+
+        it("evaluates to the density in a dynamic scope", function() {
+            const colorRamp = evaluate([
+                "interpolate",
+                ["linear"],
+                ["heatmap-density"],
+                0,
+                0,
+                1,
+                100
+            ]);
+            assert.strictEqual(
+                getPropertyValue(colorRamp, new MapEnv({ $heatmapDensity: 0.25 })),
+                25
+            );
+            assert.strictEqual(
+                evaluate(["heatmap-density"], { $heatmapDensity: 0.5 }, ExprScope.Dynamic),
+                0.5
+            );
+        });
+    });
+
     describe("Operator 'step'", function() {
         it("parse", function() {
             assert.throws(() => evaluate(["step"]), "expected the input of the 'step' operator");
@@ -1862,6 +1895,26 @@ describe("ExprEvaluator", function() {
             });
         });
 
+        it("Dependencies on feature state properties", () => {
+            const propertiesOf = (json: JsonValue) => {
+                const featureStateProperties = Expr.fromJSON(json).dependencies()
+                    .featureStateProperties;
+                return featureStateProperties && Array.from(featureStateProperties).sort();
+            };
+
+            assert.deepStrictEqual(
+                propertiesOf([
+                    "case",
+                    ["feature-state", "selected"],
+                    1,
+                    ["feature-state", "hovered"]
+                ]),
+                ["hovered", "selected"]
+            );
+            assert.deepStrictEqual(propertiesOf(["get", "x"]), []);
+            assert.isUndefined(propertiesOf(["feature-state", ["get", "state"]]));
+        });
+
         it("feature state (without state)", () => {
             assert.strictEqual(
                 evaluate(["feature-state", "enabled"], defaultEnv, ExprScope.Dynamic),
@@ -218,6 +218,51 @@ describe("StyleSetEvaluator", function() {
             assert.deepEqual(techniquesTileA[0], techniquesTileC[1]);
         });
     });
+    describe("feature-state support", function() {
+        it("forwards rendering attributes depending on feature-state", function() {
+            const ev = new StyleSetEvaluator([
+                {
+                    technique: "solid-line",
+                    when: ["==", ["get", "kind"], "road"],
+                    attr: {
+                        lineWidth: ["case", ["==", ["feature-state", "selected"], true], 4, 2],
+                        color: ["case", ["==", ["feature-state", "hovered"], true], "#f00", "#00f"]
+                    }
+                }
+            ]);
+
+            const techniques = ev.getMatchingTechniques(new MapEnv({ kind: "road" }));
+
+            assert.equal(techniques.length, 1);
+            const technique = techniques[0];
+            assert.isTrue(isSolidLineTechnique(technique));
+            assert.isTrue(Expr.isExpr((technique as SolidLineTechnique).lineWidth));
+            assert.isTrue(Expr.isExpr((technique as SolidLineTechnique).color));
+            assert.isTrue(technique._usesFeatureState);
+            assert.sameMembers(technique._featureStateProperties!, ["lineWidth", "color"]);
+        });
+
+        it("does not style by feature-state attributes not applied to materials", function() {
+            const ev = new StyleSetEvaluator([
+                {
+                    technique: "solid-line",
+                    when: ["==", ["get", "kind"], "road"],
+                    attr: {
+                        enabled: ["!=", ["feature-state", "hidden"], true],
+                        lineWidth: 2,
+                        clipping: ["==", ["feature-state", "clipped"], true]
+                    }
+                }
+            ]);
+
+            const techniques = ev.getMatchingTechniques(new MapEnv({ kind: "road" }));
+
+            assert.equal(techniques.length, 1);
+            assert.isTrue(techniques[0]._usesFeatureState);
+            assert.isUndefined(techniques[0]._featureStateProperties);
+        });
+    });
+
     describe('definitions / "ref" operator support', function() {
         const sampleStyleDeclaration: Style = {
             technique: "fill",
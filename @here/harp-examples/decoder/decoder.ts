@@ -10,6 +10,7 @@ declare let self: Worker & {
 
 self.importScripts("three.min.js");
 
+import { GlyphGeneratorService } from "@here/harp-mapview-decoder/index-worker";
 import {
     GeoJsonTilerService,
     VectorTileDecoderService
@@ -19,6 +20,7 @@ import { CustomDecoderService } from "./custom_decoder";
 
 VectorTileDecoderService.start();
 GeoJsonTilerService.start();
+GlyphGeneratorService.register();
 
 //Following code is only needed for datasource_custom example.
 // snippet:custom_datasource_example_custom_decoder_service_start.ts
@@ -12,5 +12,6 @@
  * @packageDocumentation
  */
 
+export * from "./lib/FeatureEditor";
 export * from "./lib/Features";
 export * from "./lib/FeaturesDataSource";
@@ -0,0 +1,706 @@
+/*
+ * Copyright (C) 2017-2020 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { Feature, FeatureGeometry, GeometryCollection } from "@here/harp-datasource-protocol";
+import { GeoCoordinates, Projection } from "@here/harp-geoutils";
+import { GeoCoordLike } from "@here/harp-geoutils/lib/coordinates/GeoCoordLike";
+import { EventDispatcher, MapAnchor, MapView, MapViewEventNames } from "@here/harp-mapview";
+import * as THREE from "three";
+
+import { MapViewFeature } from "./Features";
+import { FeaturesDataSource } from "./FeaturesDataSource";
+
+/**
+ * Maximal length in degrees of the straight pieces an edited segment is drawn with, so that long
+ * segments follow the surface of the globe.
+ */
+const MAX_SEGMENT_ANGLE = 1;
+
+/**
+ * Events dispatched by a {@link FeatureEditor}.
+ */
+export enum FeatureEditorEventNames {
+    /**
+     * Dispatched with a {@link FeatureEditorChangeEvent} after each edit, undo and redo.
+     */
+    Change = "change"
+}
+
+/**
+ * Event dispatched when the geometry of the edited feature changed.
+ */
+export interface FeatureEditorChangeEvent extends THREE.Event {
+    type: FeatureEditorEventNames.Change;
+
+    /**
+     * The edited feature, its coordinates are already updated.
+     */
+    feature: MapViewFeature;
+
+    /**
+     * The edited feature as GeoJSON.
+     */
+    geojson: Feature;
+}
+
+/**
+ * Options of a {@link FeatureEditor}.
+ */
+export interface FeatureEditorOptions {
+    /**
+     * Maximal distance in pixels between the pointer and a handle to grab it.
+     * @defaultValue `8`
+     */
+    pickRadius?: number;
+
+    /**
+     * Maximal distance in pixels at which dragged vertices snap to the vertices and segments of
+     * the other features of the data source, `0` disables snapping.
+     * @defaultValue `10`
+     */
+    snapDistance?: number;
+
+    /**
+     * Maximal number of edits that can be undone.
+     * @defaultValue `100`
+     */
+    maxUndoSteps?: number;
+
+    /**
+     * Color of the drawn outline and handles.
+     * @defaultValue `"#3388ff"`
+     */
+    color?: string | number;
+}
+
+/**
+ * A line or polygon ring of the edited feature. Rings repeat their first vertex at the end, as
+ * required by GeoJSON.
+ */
+interface EditedPath {
+    points: number[][];
+    closed: boolean;
+}
+
+/**
+ * A vertex handle, or a midpoint handle inserting a vertex at `index` when grabbed.
+ */
+interface Handle {
+    path: number;
+    index: number;
+    midpoint: boolean;
+}
+
+interface DragState {
+    path: number;
+    index: number;
+    previousCoordinates: MapViewFeature["coordinates"];
+    changed: boolean;
+}
+
+function getPaths(feature: MapViewFeature): EditedPath[] {
+    const coordinates = feature.coordinates as any;
+    switch (feature.type) {
+        case "LineString":
+            return [{ points: coordinates, closed: false }];
+        case "MultiLineString":
+            return coordinates.map((points: number[][]) => ({ points, closed: false }));
+        case "Polygon":
+            return coordinates.map((points: number[][]) => ({ points, closed: true }));
+        case "MultiPolygon":
+            return ([] as number[][][])
+                .concat(...coordinates)
+                .map(points => ({ points, closed: true }));
+        default:
+            return [];
+    }
+}
+
+function getVertexCount(path: EditedPath): number {
+    return path.closed ? path.points.length - 1 : path.points.length;
+}
+
+/**
+ * Makes the last vertex of a ring equal to the first one again after an edit.
+ */
+function closeRing(path: EditedPath) {
+    if (path.closed) {
+        path.points[path.points.length - 1] = path.points[0].slice();
+    }
+}
+
+/**
+ * Returns the lines of a GeoJSON geometry as lists of `[longitude, latitude]` pairs.
+ */
+function getGeometryLines(geometry: FeatureGeometry | GeometryCollection): number[][][] {
+    switch (geometry.type) {
+        case "Point":
+            return [[geometry.coordinates]];
+        case "MultiPoint":
+            return geometry.coordinates.map(point => [point]);
+        case "LineString":
+            return [geometry.coordinates];
+        case "MultiLineString":
+        case "Polygon":
+            return geometry.coordinates;
+        case "MultiPolygon":
+            return ([] as number[][][]).concat(...geometry.coordinates);
+        case "GeometryCollection":
+            return ([] as number[][][]).concat(...geometry.geometries.map(getGeometryLines));
+    }
+}
+
+function cloneCoordinates<T>(coordinates: T): T {
+    return Array.isArray(coordinates) ? (coordinates.map(cloneCoordinates) as any) : coordinates;
+}
+
+/**
+ * Interactive editor for the line and polygon features of a {@link FeaturesDataSource}.
+ *
+ * @remarks
+ * While a feature is edited, its vertices and the midpoints of its segments are drawn as handles
+ * with {@link @here/harp-mapview#MapAnchors}, so editing works with both planar and spherical
+ * projections:
+ *
+ * - Dragging a vertex moves it, snapping to the vertices and segments of the other features of
+ *   the data source.
+ * - Dragging a midpoint inserts a new vertex.
+ * - Right clicking a vertex removes it, as long as lines keep two vertices and rings three.
+ *
+ * Grabbing a handle stops the event from reaching the map controls, so the map doesn't pan.
+ * After each edit the data source is refreshed and a {@link FeatureEditorChangeEvent} is
+ * dispatched. Edits can be reverted with {@link FeatureEditor.undo}.
+ *
+ * ```typescript
+ * const editor = new FeatureEditor(mapView, dataSource);
+ * editor.addEventListener(FeatureEditorEventNames.Change, event => save(event.geojson));
+ * editor.edit(parcel);
+ * ```
+ */
+export class FeatureEditor extends EventDispatcher {
+    private readonly m_outline: MapAnchor<THREE.LineSegments>;
+    private readonly m_vertices: MapAnchor<THREE.Points>;
+    private readonly m_midpoints: MapAnchor<THREE.Points>;
+    private m_feature?: MapViewFeature;
+    private m_dragState?: DragState;
+    private m_undoStack: Array<MapViewFeature["coordinates"]> = [];
+    private m_redoStack: Array<MapViewFeature["coordinates"]> = [];
+    private m_projection?: Projection;
+
+    /**
+     * Creates a new `FeatureEditor`, call {@link FeatureEditor.edit} to start editing a feature.
+     *
+     * @param mapView - The {@link @here/harp-mapview#MapView} showing the data source.
+     * @param dataSource - The data source containing the edited features.
+     * @param m_options - The editor options.
+     */
+    constructor(
+        readonly mapView: MapView,
+        readonly dataSource: FeaturesDataSource,
+        private readonly m_options: FeatureEditorOptions = {}
+    ) {
+        super();
+        const color = m_options.color ?? "#3388ff";
+        this.m_outline = new THREE.LineSegments(
+            new THREE.BufferGeometry(),
+            new THREE.LineBasicMaterial({ color, depthTest: false, transparent: true })
+        );
+        this.m_vertices = new THREE.Points(
+            new THREE.BufferGeometry(),
+            new THREE.PointsMaterial({
+                color,
+                size: 10,
+                sizeAttenuation: false,
+                depthTest: false,
+                transparent: true
+            })
+        );
+        this.m_midpoints = new THREE.Points(
+            new THREE.BufferGeometry(),
+            new THREE.PointsMaterial({
+                color,
+                size: 7,
+                sizeAttenuation: false,
+                depthTest: false,
+                transparent: true,
+                opacity: 0.5
+            })
+        );
+        for (const object of [this.m_outline, this.m_midpoints, this.m_vertices]) {
+            object.renderOrder = Number.MAX_SAFE_INTEGER;
+            object.frustumCulled = false;
+            object.pickable = false;
+        }
+
+        this.onMouseDown = this.onMouseDown.bind(this);
+        this.onMouseMove = this.onMouseMove.bind(this);
+        this.onMouseUp = this.onMouseUp.bind(this);
+        this.onContextMenu = this.onContextMenu.bind(this);
+        this.onRender = this.onRender.bind(this);
+    }
+
+    /**
+     * The edited feature, `undefined` if not editing.
+     */
+    get feature(): MapViewFeature | undefined {
+        return this.m_feature;
+    }
+
+    /**
+     * `true` if there are edits to undo.
+     */
+    get canUndo(): boolean {
+        return this.m_undoStack.length > 0;
+    }
+
+    /**
+     * `true` if there are undone edits to redo.
+     */
+    get canRedo(): boolean {
+        return this.m_redoStack.length > 0;
+    }
+
+    /**
+     * Starts editing a feature, stopping the edition of the previous one and clearing the undo
+     * history.
+     *
+     * @param feature - A line or polygon feature of the data source.
+     */
+    edit(feature: MapViewFeature) {
+        if (getPaths(feature).length === 0) {
+            throw new Error(`Features of type ${feature.type} can't be edited.`);
+        }
+        this.stopEditing();
+        this.m_feature = feature;
+        const canvas = this.mapView.canvas;
+        // Capture grabs before the map controls, which listen on the canvas too.
+        canvas.addEventListener("mousedown", this.onMouseDown, true);
+        canvas.addEventListener("mousemove", this.onMouseMove);
+        canvas.addEventListener("mouseup", this.onMouseUp);
+        canvas.addEventListener("contextmenu", this.onContextMenu, true);
+        this.mapView.addEventListener(MapViewEventNames.Render, this.onRender);
+        this.updateObjects();
+    }
+
+    /**
+     * Stops editing and removes the handles, the edits are kept.
+     */
+    stopEditing() {
+        if (this.m_feature === undefined) {
+            return;
+        }
+        this.m_feature = undefined;
+        this.m_dragState = undefined;
+        this.m_undoStack = [];
+        this.m_redoStack = [];
+        const canvas = this.mapView.canvas;
+        canvas.removeEventListener("mousedown", this.onMouseDown, true);
+        canvas.removeEventListener("mousemove", this.onMouseMove);
+        canvas.removeEventListener("mouseup", this.onMouseUp);
+        canvas.removeEventListener("contextmenu", this.onContextMenu, true);
+        this.mapView.removeEventListener(MapViewEventNames.Render, this.onRender);
+        this.removeObjects();
+        this.mapView.update();
+    }
+
+    /**
+     * Moves a vertex of the edited feature.
+     *
+     * @param path - Index of the line or ring, counting the rings of all polygons of
+     * multi-polygons.
+     * @param index - Index of the vertex in the line or ring.
+     * @param position - The new position.
+     */
+    moveVertex(path: number, index: number, position: GeoCoordLike) {
+        const previousCoordinates = this.getCoordinates();
+        this.setVertex(path, index, position);
+        this.commit(previousCoordinates);
+    }
+
+    /**
+     * Inserts a vertex in the edited feature.
+     *
+     * @param path - Index of the line or ring, see {@link FeatureEditor.moveVertex}.
+     * @param index - Index of the new vertex in the line or ring.
+     * @param position - The position of the new vertex.
+     */
+    insertVertex(path: number, index: number, position: GeoCoordLike) {
+        const previousCoordinates = this.getCoordinates();
+        const { latitude, longitude } = GeoCoordinates.fromObject(position);
+        const editedPath = this.getPath(path);
+        editedPath.points.splice(index, 0, [longitude, latitude]);
+        closeRing(editedPath);
+        this.commit(previousCoordinates);
+    }
+
+    /**
+     * Removes a vertex of the edited feature, unless it would leave a line with less than two
+     * vertices or a ring with less than three.
+     *
+     * @param path - Index of the line or ring, see {@link FeatureEditor.moveVertex}.
+     * @param index - Index of the vertex in the line or ring.
+     * @returns `true` if the vertex was removed.
+     */
+    removeVertex(path: number, index: number): boolean {
+        const editedPath = this.getPath(path);
+        if (getVertexCount(editedPath) <= (editedPath.closed ? 3 : 2)) {
+            return false;
+        }
+        const previousCoordinates = this.getCoordinates();
+        editedPath.points.splice(index, 1);
+        closeRing(editedPath);
+        this.commit(previousCoordinates);
+        return true;
+    }
+
+    /**
+     * Reverts the last edit.
+     *
+     * @returns `true` if an edit was reverted.
+     */
+    undo(): boolean {
+        const coordinates = this.m_undoStack.pop();
+        if (coordinates === undefined) {
+            return false;
+        }
+        this.m_redoStack.push(this.getCoordinates());
+        this.apply(coordinates);
+        return true;
+    }
+
+    /**
+     * Applies the last reverted edit again.
+     *
+     * @returns `true` if an edit was applied.
+     */
+    redo(): boolean {
+        const coordinates = this.m_redoStack.pop();
+        if (coordinates === undefined) {
+            return false;
+        }
+        this.m_undoStack.push(this.getCoordinates());
+        this.apply(coordinates);
+        return true;
+    }
+
+    /**
+     * Stops editing and frees the resources of the editor.
+     */
+    dispose() {
+        this.stopEditing();
+        for (const object of [this.m_outline, this.m_midpoints, this.m_vertices]) {
+            object.geometry.dispose();
+            (object.material as THREE.Material).dispose();
+        }
+        super.dispose();
+    }
+
+    private getEditedFeature(): MapViewFeature {
+        if (this.m_feature === undefined) {
+            throw new Error("No feature is edited.");
+        }
+        return this.m_feature;
+    }
+
+    private getCoordinates(): MapViewFeature["coordinates"] {
+        return cloneCoordinates(this.getEditedFeature().coordinates);
+    }
+
+    private getPath(index: number): EditedPath {
+        const path = getPaths(this.getEditedFeature())[index];
+        if (path === undefined) {
+            throw new RangeError(`The edited feature has no line or ring ${index}.`);
+        }
+        return path;
+    }
+
+    private setVertex(path: number, index: number, position: GeoCoordLike) {
+        const { latitude, longitude } = GeoCoordinates.fromObject(position);
+        const editedPath = this.getPath(path);
+        const points = editedPath.points;
+        // Keep the altitude, if any.
+        points[index] = [longitude, latitude, ...points[index].slice(2)];
+        closeRing(editedPath);
+    }
+
+    /**
+     * Records an edit in the undo history and publishes it.
+     */
+    private commit(previousCoordinates: MapViewFeature["coordinates"]) {
+        this.m_undoStack.push(previousCoordinates);
+        const maxUndoSteps = this.m_options.maxUndoSteps ?? 100;
+        if (this.m_undoStack.length > maxUndoSteps) {
+            this.m_undoStack.splice(0, this.m_undoStack.length - maxUndoSteps);
+        }
+        this.m_redoStack = [];
+        this.publish();
+    }
+
+    private apply(coordinates: MapViewFeature["coordinates"]) {
+        this.getEditedFeature().coordinates = coordinates;
+        this.publish();
+    }
+
+    private publish() {
+        const feature = this.getEditedFeature();
+        this.updateObjects();
+        this.dataSource.refresh(feature);
+        const event: FeatureEditorChangeEvent = {
+            type: FeatureEditorEventNames.Change,
+            feature,
+            geojson: {
+                type: "Feature",
+                geometry: {
+                    type: feature.type,
+                    coordinates: cloneCoordinates(feature.coordinates)
+                } as FeatureGeometry,
+                properties: { ...feature.properties }
+            }
+        };
+        this.dispatchEvent(event);
+    }
+
+    private removeObjects() {
+        const mapAnchors = this.mapView.mapAnchors;
+        for (const object of [this.m_outline, this.m_midpoints, this.m_vertices]) {
+            mapAnchors.remove(object);
+        }
+    }
+
+    private updateObjects() {
+        this.removeObjects();
+        const paths = getPaths(this.getEditedFeature());
+        const [longitude, latitude] = paths[0].points[0];
+        const anchor = new GeoCoordinates(latitude, longitude);
+        const projection = this.mapView.projection;
+        const origin = projection.projectPoint(anchor, new THREE.Vector3());
+        this.m_projection = projection;
+
+        const outlinePositions: number[] = [];
+        const vertexPositions: number[] = [];
+        const midpointPositions: number[] = [];
+        const addPosition = (positions: number[], point: number[]) => {
+            const position = projection
+                .projectPoint(new GeoCoordinates(point[1], point[0]), new THREE.Vector3())
+                .sub(origin);
+            positions.push(position.x, position.y, position.z);
+        };
+        for (const path of paths) {
+            const points = path.points;
+            for (let i = 0; i < points.length; i++) {
+                if (i < getVertexCount(path)) {
+                    addPosition(vertexPositions, points[i]);
+                }
+                const next = points[i + 1];
+                if (next === undefined) {
+                    continue;
+                }
+                addPosition(midpointPositions, interpolate(points[i], next, 0.5));
+                const angle = Math.max(
+                    Math.abs(next[0] - points[i][0]),
+                    Math.abs(next[1] - points[i][1])
+                );
+                const numSegments = Math.max(1, Math.ceil(angle / MAX_SEGMENT_ANGLE));
+                for (let j = 0; j < numSegments; j++) {
+                    addPosition(outlinePositions, interpolate(points[i], next, j / numSegments));
+                    addPosition(
+                        outlinePositions,
+                        interpolate(points[i], next, (j + 1) / numSegments)
+                    );
+                }
+            }
+        }
+
+        const mapAnchors = this.mapView.mapAnchors;
+        for (const [object, positions] of [
+            [this.m_outline, outlinePositions],
+            [this.m_midpoints, midpointPositions],
+            [this.m_vertices, vertexPositions]
+        ] as Array<[MapAnchor<THREE.LineSegments | THREE.Points>, number[]]>) {
+            const geometry = object.geometry as THREE.BufferGeometry;
+            geometry.setAttribute("position", new THREE.Float32BufferAttribute(positions, 3));
+            geometry.computeBoundingSphere();
+            object.anchor = anchor;
+            mapAnchors.add(object);
+        }
+        this.mapView.update();
+    }
+
+    /**
+     * Finds the handle closest to a screen position, vertices taking precedence over midpoints.
+     */
+    private pickHandle(position: THREE.Vector2): Handle | undefined {
+        const paths = getPaths(this.getEditedFeature());
+        let closest: Handle | undefined;
+        let closestDistance = this.m_options.pickRadius ?? 8;
+        for (const midpoint of [false, true]) {
+            paths.forEach((editedPath, path) => {
+                const points = editedPath.points;
+                const count = midpoint ? points.length - 1 : getVertexCount(editedPath);
+                for (let index = 0; index < count; index++) {
+                    const point = midpoint
+                        ? interpolate(points[index], points[index + 1], 0.5)
+                        : points[index];
+                    const screenPos = this.mapView.getScreenPosition({
+                        latitude: point[1],
+                        longitude: point[0]
+                    });
+                    const distance = screenPos?.distanceTo(position) ?? Infinity;
+                    if (distance <= closestDistance) {
+                        // Midpoints insert a vertex after the start of their segment.
+                        closest = { path, index: midpoint ? index + 1 : index, midpoint };
+                        closestDistance = distance;
+                    }
+                }
+            });
+            if (closest !== undefined) {
+                break;
+            }
+        }
+        return closest;
+    }
+
+    /**
+     * Snaps a dragged vertex to the closest vertex of the other features of the data source
+     * within the snap distance, or else to the closest segment.
+     */
+    private snap(position: THREE.Vector2): GeoCoordinates | null {
+        const snapDistance = this.m_options.snapDistance ?? 10;
+        let vertex: number[] | undefined;
+        let vertexDistance = snapDistance;
+        let segmentPoint: number[] | undefined;
+        let segmentDistance = snapDistance;
+        const editedUuid = this.getEditedFeature().uuid;
+        const features = snapDistance > 0 ? this.dataSource.getFeatureCollection().features : [];
+        for (const feature of features) {
+            if (feature.properties?.__mapViewUuid === editedUuid) {
+                continue;
+            }
+            for (const line of getGeometryLines(feature.geometry)) {
+                const screenLine = line.map(([longitude, latitude]) =>
+                    this.mapView.getScreenPosition({ latitude, longitude })
+                );
+                for (let i = 0; i < screenLine.length; i++) {
+                    const start = screenLine[i];
+                    if (start === undefined) {
+                        continue;
+                    }
+                    const distance = start.distanceTo(position);
+                    if (distance <= vertexDistance) {
+                        vertex = line[i];
+                        vertexDistance = distance;
+                    }
+                    const end = screenLine[i + 1];
+                    if (end === undefined || vertex !== undefined) {
+                        continue;
+                    }
+                    const direction = end.clone().sub(start);
+                    const lengthSq = direction.lengthSq();
+                    const t =
+                        lengthSq > 0
+                            ? THREE.MathUtils.clamp(
+                                  position
+                                      .clone()
+                                      .sub(start)
+                                      .dot(direction) / lengthSq,
+                                  0,
+                                  1
+                              )
+                            : 0;
+                    const closest = start.clone().addScaledVector(direction, t);
+                    const closestDistance = closest.distanceTo(position);
+                    if (closestDistance <= segmentDistance) {
+                        segmentPoint = interpolate(line[i], line[i + 1], t);
+                        segmentDistance = closestDistance;
+                    }
+                }
+            }
+        }
+        const snapped = vertex ?? segmentPoint;
+        return snapped !== undefined
+            ? new GeoCoordinates(snapped[1], snapped[0])
+            : this.mapView.getGeoCoordinatesAt(position.x, position.y);
+    }
+
+    private onRender() {
+        // The handles depend on the projection, which may change at any time.
+        if (this.m_feature !== undefined && this.m_projection !== this.mapView.projection) {
+            this.updateObjects();
+        }
+    }
+
+    private onMouseDown(event: MouseEvent) {
+        if (event.button !== 0) {
+            return;
+        }
+        const handle = this.pickHandle(this.getPointerPosition(event));
+        if (handle === undefined) {
+            return;
+        }
+        event.preventDefault();
+        event.stopImmediatePropagation();
+        this.m_dragState = {
+            path: handle.path,
+            index: handle.index,
+            previousCoordinates: this.getCoordinates(),
+            changed: handle.midpoint
+        };
+        if (handle.midpoint) {
+            const points = this.getPath(handle.path).points;
+            points.splice(
+                handle.index,
+                0,
+                interpolate(points[handle.index - 1], points[handle.index], 0.5)
+            );
+            this.updateObjects();
+        }
+    }
+
+    private onMouseMove(event: MouseEvent) {
+        const dragState = this.m_dragState;
+        if (dragState === undefined) {
+            return;
+        }
+        const position = this.snap(this.getPointerPosition(event));
+        if (position !== null) {
+            this.setVertex(dragState.path, dragState.index, position);
+            dragState.changed = true;
+            this.updateObjects();
+        }
+    }
+
+    private onMouseUp() {
+        const dragState = this.m_dragState;
+        if (dragState === undefined) {
+            return;
+        }
+        this.m_dragState = undefined;
+        if (dragState.changed) {
+            this.commit(dragState.previousCoordinates);
+        }
+    }
+
+    private onContextMenu(event: MouseEvent) {
+        const handle = this.pickHandle(this.getPointerPosition(event));
+        if (handle === undefined || handle.midpoint) {
+            return;
+        }
+        event.preventDefault();
+        event.stopImmediatePropagation();
+        this.removeVertex(handle.path, handle.index);
+    }
+
+    private getPointerPosition(event: MouseEvent): THREE.Vector2 {
+        const rect = this.mapView.canvas.getBoundingClientRect();
+        return new THREE.Vector2(
+            event.clientX - Math.floor(rect.left),
+            event.clientY - Math.floor(rect.top)
+        );
+    }
+}
+
+function interpolate(a: number[], b: number[], t: number): number[] {
+    return [a[0] + (b[0] - a[0]) * t, a[1] + (b[1] - a[1]) * t];
+}
@@ -8,9 +8,10 @@ import {
     Feature,
     FeatureCollection,
     FeatureGeometry,
-    GeometryCollection
+    GeometryCollection,
+    TilerFeatureChanges
 } from "@here/harp-datasource-protocol";
-import { GeoBox, GeoCoordinates } from "@here/harp-geoutils";
+import { GeoBox, GeoCoordinates, TileKeyUtils } from "@here/harp-geoutils";
 import { MapView } from "@here/harp-mapview";
 import { LoggerManager } from "@here/harp-utils";
 import {
@@ -113,10 +114,14 @@ export class FeaturesDataSource extends VectorTileDataSource {
      * @param features - The features to add in the datasource.
      */
     add(...features: MapViewFeature[]): this {
+        const addedFeatures: Feature[] = [];
         for (const feature of features) {
-            this.addFeature(feature);
+            const geojsonFeature = this.addFeature(feature);
+            if (geojsonFeature !== undefined) {
+                addedFeatures.push(geojsonFeature);
+            }
         }
-        this.update();
+        this.updateFeatures({ add: addedFeatures });
         return this;
     }
 
@@ -129,10 +134,43 @@ export class FeaturesDataSource extends VectorTileDataSource {
         for (const feature of features) {
             this.removeFeature(feature);
         }
-        this.update();
+        this.updateFeatures({ remove: features.map(feature => feature.uuid) });
         return this;
     }
 
+    /**
+     * Updates custom features of the datasource after their coordinates or properties changed.
+     *
+     * @param features - The changed features, features not in the datasource are ignored.
+     */
+    refresh(...features: MapViewFeature[]): this {
+        const updatedFeatures: Feature[] = [];
+        for (const feature of features) {
+            const index = this.m_featureCollection.features.findIndex(
+                _feature => _feature.properties?.__mapViewUuid === feature.uuid
+            );
+            if (index !== -1) {
+                const geojsonFeature = this.createGeojsonFeature(feature);
+                this.m_featureCollection.features[index] = geojsonFeature;
+                updatedFeatures.push(geojsonFeature);
+            }
+        }
+        this.updateFeatures({ update: updatedFeatures });
+        return this;
+    }
+
+    /**
+     * Gets the GeoJSON of all the features in this `FeaturesDataSource`. Features added as
+     * [[MapViewFeature]]s have their `uuid` in the `__mapViewUuid` property.
+     *
+     * @remarks
+     * The returned object must not be modified, use [[FeaturesDataSource.add]],
+     * [[FeaturesDataSource.remove]] or [[FeaturesDataSource.refresh]] instead.
+     */
+    getFeatureCollection(): FeatureCollection {
+        return this.m_featureCollection;
+    }
+
     /**
      * Removes all the custom features in this `FeaturesDataSource`.
      */
@@ -208,29 +246,67 @@ export class FeaturesDataSource extends VectorTileDataSource {
         return result;
     }
 
-    private addFeature(feature: MapViewFeature) {
+    /**
+     * Gets the points and clusters a cluster splits into when zooming in, if
+     * [[FeatureDataSourceOptions.clustering]] is enabled.
+     *
+     * @param clusterId - The `cluster_id` property of the cluster.
+     * @returns The children as GeoJSON features.
+     */
+    async getClusterChildren(clusterId: number): Promise<Feature[]> {
+        const dataProvider = this.dataProvider() as GeoJsonDataProvider;
+        return await dataProvider.getClusterChildren(clusterId);
+    }
+
+    /**
+     * Gets the zoom level at which a cluster splits into its children, if
+     * [[FeatureDataSourceOptions.clustering]] is enabled.
+     *
+     * @example
+     * ```typescript
+     * const zoomLevel = await dataSource.getClusterExpansionZoom(properties.cluster_id);
+     * mapView.lookAt({ target: clusterCoordinates, zoomLevel });
+     * ```
+     *
+     * @param clusterId - The `cluster_id` property of the cluster.
+     */
+    async getClusterExpansionZoom(clusterId: number): Promise<number> {
+        const dataProvider = this.dataProvider() as GeoJsonDataProvider;
+        const level = await dataProvider.getClusterExpansionZoom(clusterId);
+        return level - this.storageLevelOffset;
+    }
+
+    private addFeature(feature: MapViewFeature): Feature | undefined {
         // Check if the feature is not already in there.
         const hasFeature = this.m_featureCollection.features.some(
             _feature => _feature.properties.__mapViewUuid === feature.uuid
         );
         if (hasFeature) {
-            return;
+            return undefined;
         }
 
-        // Create a GeoJson feature from the feature coordinates and push it.
+        const geojsonFeature = this.createGeojsonFeature(feature);
+        this.m_featureCollection.features.push(geojsonFeature);
+        return geojsonFeature;
+    }
+
+    /**
+     * Creates a GeoJson feature from the feature coordinates.
+     */
+    private createGeojsonFeature(feature: MapViewFeature): Feature {
         const geometry: FeatureGeometry = {
             type: feature.type,
             coordinates: feature.coordinates
         } as any;
-        const geojsonFeature: Feature = {
+        return {
             type: "Feature",
+            id: feature.uuid,
             geometry,
             properties: {
                 ...feature.properties,
                 __mapViewUuid: feature.uuid
             }
         };
-        this.m_featureCollection.features.push(geojsonFeature);
     }
 
     private removeFeature(feature: MapViewFeature) {
@@ -262,6 +338,27 @@ export class FeaturesDataSource extends VectorTileDataSource {
         }
     }
 
+    /**
+     * Tiles again only the changed features, unlike [[FeaturesDataSource.update]].
+     */
+    private async updateFeatures(changes: TilerFeatureChanges) {
+        const dataProvider = this.dataProvider() as GeoJsonDataProvider;
+        if (!this.m_isAttached || !dataProvider.ready()) {
+            return;
+        }
+
+        try {
+            const tileKeys = await dataProvider.updateFeatures(changes);
+            if (this.m_isAttached) {
+                this.mapView.markTilesDirty(this, tile =>
+                    TileKeyUtils.overlapsAny(tile.tileKey, tileKeys)
+                );
+            }
+        } catch (error) {
+            logger.error(`[${this.name}]: failed to update features in tile index`, error);
+        }
+    }
+
     private emptyGeojson(): FeatureCollection {
         return {
             features: [],
@@ -0,0 +1,292 @@
+/*
+ * Copyright (C) 2017-2020 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+//    Mocha discourages using arrow functions, see https://mochajs.org/#arrow-functions
+
+import { FeatureCollection } from "@here/harp-datasource-protocol";
+import { GeoCoordinates, mercatorProjection, sphereProjection } from "@here/harp-geoutils";
+import { MapAnchor, MapAnchors, MapView, MapViewEventNames } from "@here/harp-mapview";
+import { expect } from "chai";
+import * as sinon from "sinon";
+import * as THREE from "three";
+
+import { FeatureEditor, FeatureEditorEventNames } from "../lib/FeatureEditor";
+import { MapViewLineFeature, MapViewPointFeature, MapViewPolygonFeature } from "../lib/Features";
+import { FeaturesDataSource } from "../lib/FeaturesDataSource";
+
+describe("FeatureEditor", function() {
+    const eventMap: Map<string, (event: any) => void> = new Map();
+    let featureCollection: FeatureCollection;
+    let dataSource: FeaturesDataSource;
+    let mapView: MapView;
+    let parcel: MapViewPolygonFeature;
+    let onChange: sinon.SinonSpy;
+    let editor: FeatureEditor;
+
+    // Screen positions are 10 pixels per degree, y pointing south.
+    function toScreen(x: number, y: number) {
+        return { clientX: x * 10, clientY: -y * 10 };
+    }
+
+    function mouseEvent(name: string, x: number, y: number, button = 0) {
+        const event = {
+            ...toScreen(x, y),
+            button,
+            preventDefault: sinon.stub(),
+            stopImmediatePropagation: sinon.stub()
+        };
+        eventMap.get(name)!(event);
+        return event;
+    }
+
+    function drag(fromX: number, fromY: number, toX: number, toY: number) {
+        const event = mouseEvent("mousedown", fromX, fromY);
+        mouseEvent("mousemove", toX, toY);
+        mouseEvent("mouseup", toX, toY);
+        return event;
+    }
+
+    beforeEach(function() {
+        eventMap.clear();
+        featureCollection = { type: "FeatureCollection", features: [] };
+        dataSource = ({
+            refresh: sinon.stub(),
+            getFeatureCollection: () => featureCollection
+        } as any) as FeaturesDataSource;
+        const canvas = {
+            addEventListener: (name: string, listener: any) => eventMap.set(name, listener),
+            removeEventListener: (name: string) => eventMap.delete(name),
+            getBoundingClientRect: () => ({ left: 0, top: 0, width: 800, height: 600 })
+        };
+        mapView = ({
+            canvas,
+            projection: mercatorProjection,
+            mapAnchors: new MapAnchors(),
+            getScreenPosition: (geoPos: GeoCoordinates) =>
+                new THREE.Vector2(geoPos.longitude * 10, -geoPos.latitude * 10),
+            getGeoCoordinatesAt: (x: number, y: number) => new GeoCoordinates(-y / 10, x / 10),
+            update: sinon.stub(),
+            addEventListener: (name: string, listener: any) => eventMap.set(name, listener),
+            removeEventListener: (name: string) => eventMap.delete(name)
+        } as any) as MapView;
+        parcel = new MapViewPolygonFeature(
+            [
+                [
+                    [0, 0],
+                    [10, 0],
+                    [10, 10],
+                    [0, 10],
+                    [0, 0]
+                ]
+            ],
+            { name: "parcel" }
+        );
+        onChange = sinon.spy();
+        editor = new FeatureEditor(mapView, dataSource, { snapDistance: 0 });
+        editor.addEventListener(FeatureEditorEventNames.Change, onChange);
+        editor.edit(parcel);
+    });
+
+    afterEach(function() {
+        editor.dispose();
+    });
+
+    it("draws handles for vertices and midpoints", function() {
+        const [outline, midpoints, vertices] = mapView.mapAnchors.children as Array<
+            MapAnchor<THREE.Points>
+        >;
+        const count = (object: THREE.Points) =>
+            (object.geometry as THREE.BufferGeometry).getAttribute("position").count;
+
+        expect(count(vertices)).to.equal(4);
+        expect(count(midpoints)).to.equal(4);
+        expect(count(outline)).to.be.greaterThan(8);
+        expect(vertices.anchor).to.deep.equal(new GeoCoordinates(0, 0));
+    });
+
+    it("moves vertices by dragging them", function() {
+        const event = drag(10, 10, 12, 11);
+
+        expect(event.stopImmediatePropagation.called).to.be.true;
+        expect(parcel.coordinates[0]).to.deep.equal([
+            [0, 0],
+            [10, 0],
+            [12, 11],
+            [0, 10],
+            [0, 0]
+        ]);
+        expect((dataSource.refresh as sinon.SinonStub).calledOnceWith(parcel)).to.be.true;
+        expect(onChange.calledOnce).to.be.true;
+        const changeEvent = onChange.firstCall.args[0];
+        expect(changeEvent.feature).to.equal(parcel);
+        expect(changeEvent.geojson).to.deep.equal({
+            type: "Feature",
+            geometry: { type: "Polygon", coordinates: parcel.coordinates },
+            properties: { name: "parcel" }
+        });
+    });
+
+    it("keeps rings closed when moving their first vertex", function() {
+        drag(0, 0, -1, -1);
+
+        const ring = parcel.coordinates[0];
+        expect(ring[0]).to.deep.equal([-1, -1]);
+        expect(ring[4]).to.deep.equal([-1, -1]);
+    });
+
+    it("lets the map pan when no handle is grabbed", function() {
+        const event = drag(5, 5, 6, 6);
+
+        expect(event.stopImmediatePropagation.called).to.be.false;
+        expect(onChange.called).to.be.false;
+    });
+
+    it("inserts vertices by dragging midpoints", function() {
+        drag(5, 0, 5, -2);
+
+        expect(parcel.coordinates[0]).to.deep.equal([
+            [0, 0],
+            [5, -2],
+            [10, 0],
+            [10, 10],
+            [0, 10],
+            [0, 0]
+        ]);
+        expect(onChange.calledOnce).to.be.true;
+    });
+
+    it("removes vertices on right click", function() {
+        const event = mouseEvent("contextmenu", 10, 0, 2);
+
+        expect(event.preventDefault.called).to.be.true;
+        expect(parcel.coordinates[0]).to.deep.equal([
+            [0, 0],
+            [10, 10],
+            [0, 10],
+            [0, 0]
+        ]);
+
+        // Rings keep at least three vertices.
+        mouseEvent("contextmenu", 10, 10, 2);
+        expect(parcel.coordinates[0]).to.have.length(4);
+        expect(editor.removeVertex(0, 1)).to.be.false;
+        expect(onChange.calledOnce).to.be.true;
+    });
+
+    it("undoes and redoes edits", function() {
+        const original = JSON.parse(JSON.stringify(parcel.coordinates));
+        drag(10, 10, 12, 11);
+        const moved = JSON.parse(JSON.stringify(parcel.coordinates));
+        editor.removeVertex(0, 0);
+        expect(editor.canUndo).to.be.true;
+        expect(editor.canRedo).to.be.false;
+
+        expect(editor.undo()).to.be.true;
+        expect(parcel.coordinates).to.deep.equal(moved);
+        expect(editor.undo()).to.be.true;
+        expect(parcel.coordinates).to.deep.equal(original);
+        expect(editor.undo()).to.be.false;
+
+        expect(editor.redo()).to.be.true;
+        expect(parcel.coordinates).to.deep.equal(moved);
+        expect(editor.canRedo).to.be.true;
+        expect(onChange.callCount).to.equal(5);
+
+        // New edits clear the redo history.
+        editor.moveVertex(0, 1, new GeoCoordinates(1, 11));
+        expect(editor.canRedo).to.be.false;
+    });
+
+    it("snaps dragged vertices to other features", function() {
+        editor.dispose();
+        editor = new FeatureEditor(mapView, dataSource);
+        editor.edit(parcel);
+        featureCollection.features.push(
+            {
+                type: "Feature",
+                geometry: { type: "Point", coordinates: [20, 20] },
+                properties: {}
+            },
+            {
+                type: "Feature",
+                geometry: {
+                    type: "LineString",
+                    coordinates: [
+                        [20, -10],
+                        [20, 30]
+                    ]
+                },
+                properties: {}
+            },
+            // The edited feature itself is ignored.
+            {
+                type: "Feature",
+                geometry: { type: "Polygon", coordinates: parcel.coordinates },
+                properties: { __mapViewUuid: parcel.uuid }
+            }
+        );
+
+        drag(10, 10, 19.5, 20.5);
+        expect(parcel.coordinates[0][2]).to.deep.equal([20, 20]);
+
+        drag(10, 0, 19.5, 5);
+        expect(parcel.coordinates[0][1]).to.deep.equal([20, 5]);
+
+        drag(0, 10, 0.5, 10.5);
+        expect(parcel.coordinates[0][3]).to.deep.equal([0.5, 10.5]);
+    });
+
+    it("redraws handles when the projection changes", function() {
+        const vertices = mapView.mapAnchors.children[2] as THREE.Points;
+        const geometry = vertices.geometry as THREE.BufferGeometry;
+        const planarPosition = new THREE.Vector3().fromBufferAttribute(
+            geometry.getAttribute("position") as THREE.BufferAttribute,
+            1
+        );
+
+        (mapView as any).projection = sphereProjection;
+        eventMap.get(MapViewEventNames.Render)!({});
+
+        const spherePosition = new THREE.Vector3().fromBufferAttribute(
+            geometry.getAttribute("position") as THREE.BufferAttribute,
+            1
+        );
+        expect(spherePosition.equals(planarPosition)).to.be.false;
+        const origin = sphereProjection.projectPoint(new GeoCoordinates(0, 0), new THREE.Vector3());
+        expect(sphereProjection.unprojectPoint(spherePosition.add(origin)).longitude).to.be.closeTo(
+            10,
+            1e-6
+        );
+    });
+
+    it("stops editing", function() {
+        editor.stopEditing();
+
+        expect(editor.feature).to.be.undefined;
+        expect(mapView.mapAnchors.children).to.be.empty;
+        expect(eventMap.has("mousedown")).to.be.false;
+        expect(eventMap.has(MapViewEventNames.Render)).to.be.false;
+    });
+
+    it("edits lines", function() {
+        const road = new MapViewLineFeature([
+            [0, 0],
+            [10, 0]
+        ]);
+        editor.edit(road);
+
+        drag(0, 0, 1, 1);
+        expect(road.coordinates).to.deep.equal([
+            [1, 1],
+            [10, 0]
+        ]);
+        expect(editor.removeVertex(0, 0)).to.be.false;
+    });
+
+    it("rejects points", function() {
+        expect(() => editor.edit(new MapViewPointFeature([0, 0]))).to.throw();
+    });
+});
@@ -0,0 +1,375 @@
+/*
+ * Copyright (C) 2017-2020 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Vector2 } from "three";
+
+/**
+ * Result of {@link computePoleOfInaccessibility}.
+ */
+export interface PoleOfInaccessibility {
+    /**
+     * The point inside the polygon with the largest distance to its outline.
+     */
+    point: Vector2;
+
+    /**
+     * The distance of `point` to the outline of the polygon.
+     */
+    distance: number;
+}
+
+/**
+ * Computes the signed distance of a point to the outline of a polygon, positive if the point is
+ * inside the polygon and negative if it's outside.
+ *
+ * @param x - The x coordinate of the point.
+ * @param y - The y coordinate of the point.
+ * @param rings - The rings of the polygon, the first one is the outer ring, the others are holes.
+ */
+function signedDistanceToPolygon(x: number, y: number, rings: Vector2[][]): number {
+    let inside = false;
+    let minDistanceSqr = Infinity;
+
+    for (const ring of rings) {
+        for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+            const a = ring[i];
+            const b = ring[j];
+
+            const crossesY = a.y > y ? b.y <= y : b.y > y;
+            if (crossesY && x < ((b.x - a.x) * (y - a.y)) / (b.y - a.y) + a.x) {
+                inside = !inside;
+            }
+            minDistanceSqr = Math.min(minDistanceSqr, segmentDistanceSqr(x, y, a, b));
+        }
+    }
+    return (inside ? 1 : -1) * Math.sqrt(minDistanceSqr);
+}
+
+function segmentDistanceSqr(x: number, y: number, a: Vector2, b: Vector2): number {
+    let px = a.x;
+    let py = a.y;
+    const dx = b.x - px;
+    const dy = b.y - py;
+
+    if (dx !== 0 || dy !== 0) {
+        const t = ((x - px) * dx + (y - py) * dy) / (dx * dx + dy * dy);
+        if (t > 1) {
+            px = b.x;
+            py = b.y;
+        } else if (t > 0) {
+            px += dx * t;
+            py += dy * t;
+        }
+    }
+    return (x - px) * (x - px) + (y - py) * (y - py);
+}
+
+/**
+ * Square cell of the grid searched for the pole of inaccessibility.
+ */
+class Cell {
+    /** Distance of the cell center to the polygon outline. */
+    readonly distance: number;
+
+    /** Maximum distance to the polygon outline of any point in the cell. */
+    readonly maxDistance: number;
+
+    constructor(
+        readonly x: number,
+        readonly y: number,
+        readonly halfSize: number,
+        rings: Vector2[][]
+    ) {
+        this.distance = signedDistanceToPolygon(x, y, rings);
+        this.maxDistance = this.distance + halfSize * Math.SQRT2;
+    }
+}
+
+/**
+ * Binary heap of [[Cell]]s, with the cell of largest `maxDistance` on top.
+ */
+class CellQueue {
+    private readonly m_cells: Cell[] = [];
+
+    push(cell: Cell) {
+        const cells = this.m_cells;
+        let index = cells.push(cell) - 1;
+        while (index > 0) {
+            const parent = (index - 1) >> 1;
+            if (cells[parent].maxDistance >= cell.maxDistance) {
+                break;
+            }
+            cells[index] = cells[parent];
+            index = parent;
+        }
+        cells[index] = cell;
+    }
+
+    pop(): Cell | undefined {
+        const cells = this.m_cells;
+        const top = cells[0];
+        const last = cells.pop();
+        if (last === undefined || cells.length === 0) {
+            return top;
+        }
+        let index = 0;
+        for (;;) {
+            const left = 2 * index + 1;
+            if (left >= cells.length) {
+                break;
+            }
+            const right = left + 1;
+            const child =
+                right < cells.length && cells[right].maxDistance > cells[left].maxDistance
+                    ? right
+                    : left;
+            if (cells[child].maxDistance <= last.maxDistance) {
+                break;
+            }
+            cells[index] = cells[child];
+            index = child;
+        }
+        cells[index] = last;
+        return top;
+    }
+}
+
+/**
+ * Computes the cell at the centroid of the outer ring of a polygon.
+ */
+function centroidCell(rings: Vector2[][]): Cell {
+    const ring = rings[0];
+    let area = 0;
+    let x = 0;
+    let y = 0;
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+        const a = ring[i];
+        const b = ring[j];
+        const f = a.x * b.y - b.x * a.y;
+        x += (a.x + b.x) * f;
+        y += (a.y + b.y) * f;
+        area += f * 3;
+    }
+    return area === 0
+        ? new Cell(ring[0].x, ring[0].y, 0, rings)
+        : new Cell(x / area, y / area, 0, rings);
+}
+
+/**
+ * Computes the pole of inaccessibility of a polygon, the point inside the polygon farthest from
+ * its outline, which is the best position to place a label of the polygon.
+ *
+ * @remarks
+ * Implements the {@link https://github.com/mapbox/polylabel | polylabel} algorithm, which
+ * searches the point on a grid of cells that are recursively subdivided until the distance of
+ * the best point found is within `precision` of the actual pole.
+ *
+ * @param rings - The rings of the polygon, the first one is the outer ring, the others are holes.
+ * @param precision - The precision of the result, in the units of the polygon coordinates.
+ */
+export function computePoleOfInaccessibility(
+    rings: Vector2[][],
+    precision: number
+): PoleOfInaccessibility {
+    const outer = rings[0];
+    let minX = Infinity;
+    let minY = Infinity;
+    let maxX = -Infinity;
+    let maxY = -Infinity;
+    for (const p of outer) {
+        minX = Math.min(minX, p.x);
+        minY = Math.min(minY, p.y);
+        maxX = Math.max(maxX, p.x);
+        maxY = Math.max(maxY, p.y);
+    }
+
+    const width = maxX - minX;
+    const height = maxY - minY;
+    const cellSize = Math.min(width, height);
+    if (cellSize === 0) {
+        return { point: new Vector2(minX, minY), distance: 0 };
+    }
+
+    // Cover the polygon with the initial cells.
+    const queue = new CellQueue();
+    const halfSize = cellSize / 2;
+    for (let x = minX; x < maxX; x += cellSize) {
+        for (let y = minY; y < maxY; y += cellSize) {
+            queue.push(new Cell(x + halfSize, y + halfSize, halfSize, rings));
+        }
+    }
+
+    // The centroid and the bounding box center are good first guesses for convex polygons.
+    let bestCell = centroidCell(rings);
+    const boxCell = new Cell(minX + width / 2, minY + height / 2, 0, rings);
+    if (boxCell.distance > bestCell.distance) {
+        bestCell = boxCell;
+    }
+
+    let cell: Cell | undefined;
+    while ((cell = queue.pop()) !== undefined) {
+        if (cell.distance > bestCell.distance) {
+            bestCell = cell;
+        }
+        // Skip the cell if it can't contain a point significantly better than the best one.
+        if (cell.maxDistance - bestCell.distance <= precision) {
+            continue;
+        }
+        const h = cell.halfSize / 2;
+        queue.push(new Cell(cell.x - h, cell.y - h, h, rings));
+        queue.push(new Cell(cell.x + h, cell.y - h, h, rings));
+        queue.push(new Cell(cell.x - h, cell.y + h, h, rings));
+        queue.push(new Cell(cell.x + h, cell.y + h, h, rings));
+    }
+
+    return { point: new Vector2(bestCell.x, bestCell.y), distance: bestCell.distance };
+}
+
+/**
+ * Widest inside interval of a polygon on a line sampling it in [[computeMedialAxisPath]].
+ */
+interface AxisSample {
+    u: number;
+    vMin: number;
+    vMax: number;
+}
+
+/**
+ * Computes a path approximating the medial axis of a polygon, along which a label can be placed
+ * in elongated or concave polygons like rivers and lakes.
+ *
+ * @remarks
+ * The polygon is sampled with `sampleCount` lines perpendicular to its principal axis. The path
+ * goes through the centers of the widest inside interval of each sample line, as long as the
+ * intervals of successive lines overlap, so the path doesn't cross the outline. The path is
+ * oriented from left to right (increasing x).
+ *
+ * @param rings - The rings of the polygon, the first one is the outer ring, the others are holes.
+ * @param sampleCount - The number of lines sampling the polygon.
+ * @returns The path, or `undefined` if no path with at least two points is found.
+ */
+export function computeMedialAxisPath(
+    rings: Vector2[][],
+    sampleCount: number = 16
+): Vector2[] | undefined {
+    // Compute the principal axis from the edges of the outer ring, weighted by their length.
+    const outer = rings[0];
+    let totalLength = 0;
+    const mean = new Vector2();
+    for (let i = 0, j = outer.length - 1; i < outer.length; j = i++) {
+        const length = outer[i].distanceTo(outer[j]);
+        mean.x += ((outer[i].x + outer[j].x) / 2) * length;
+        mean.y += ((outer[i].y + outer[j].y) / 2) * length;
+        totalLength += length;
+    }
+    if (totalLength === 0) {
+        return undefined;
+    }
+    mean.divideScalar(totalLength);
+
+    let cxx = 0;
+    let cyy = 0;
+    let cxy = 0;
+    for (let i = 0, j = outer.length - 1; i < outer.length; j = i++) {
+        const length = outer[i].distanceTo(outer[j]);
+        const dx = (outer[i].x + outer[j].x) / 2 - mean.x;
+        const dy = (outer[i].y + outer[j].y) / 2 - mean.y;
+        cxx += dx * dx * length;
+        cyy += dy * dy * length;
+        cxy += dx * dy * length;
+    }
+    const angle = Math.atan2(2 * cxy, cxx - cyy) / 2;
+    const axis = new Vector2(Math.cos(angle), Math.sin(angle));
+    const normal = new Vector2(-axis.y, axis.x);
+
+    // Polygon rings in the (axis, normal) coordinate system.
+    const axisRings = rings.map(ring =>
+        ring.map(p => {
+            const dx = p.x - mean.x;
+            const dy = p.y - mean.y;
+            return new Vector2(dx * axis.x + dy * axis.y, dx * normal.x + dy * normal.y);
+        })
+    );
+    let minU = Infinity;
+    let maxU = -Infinity;
+    for (const p of axisRings[0]) {
+        minU = Math.min(minU, p.x);
+        maxU = Math.max(maxU, p.x);
+    }
+
+    // Find the widest inside interval on each sample line.
+    const step = (maxU - minU) / sampleCount;
+    const samples: Array<AxisSample | undefined> = [];
+    const crossings: number[] = [];
+    for (let s = 0; s < sampleCount; ++s) {
+        const u = minU + (s + 0.5) * step;
+        crossings.length = 0;
+        for (const ring of axisRings) {
+            for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+                const a = ring[i];
+                const b = ring[j];
+                if (a.x > u ? b.x <= u : b.x > u) {
+                    crossings.push(a.y + ((u - a.x) * (b.y - a.y)) / (b.x - a.x));
+                }
+            }
+        }
+        crossings.sort((a, b) => a - b);
+
+        let sample: AxisSample | undefined;
+        for (let i = 0; i + 1 < crossings.length; i += 2) {
+            if (
+                sample === undefined ||
+                crossings[i + 1] - crossings[i] > sample.vMax - sample.vMin
+            ) {
+                sample = { u, vMin: crossings[i], vMax: crossings[i + 1] };
+            }
+        }
+        samples.push(sample);
+    }
+
+    // Take the longest run of samples with overlapping intervals.
+    let bestStart = 0;
+    let bestCount = 0;
+    let runStart = 0;
+    for (let s = 0; s <= sampleCount; ++s) {
+        const sample = samples[s];
+        const previous = samples[s - 1];
+        const continues =
+            sample !== undefined &&
+            previous !== undefined &&
+            sample.vMin <= previous.vMax &&
+            sample.vMax >= previous.vMin;
+        if (!continues) {
+            if (s - runStart > bestCount) {
+                bestStart = runStart;
+                bestCount = s - runStart;
+            }
+            runStart = sample !== undefined ? s : s + 1;
+        }
+    }
+    if (bestCount < 2) {
+        return undefined;
+    }
+
+    const run = samples.slice(bestStart, bestStart + bestCount) as AxisSample[];
+    const centers = run.map(sample => (sample.vMin + sample.vMax) / 2);
+    const path = run.map((sample, i) => {
+        // Smooth the inner points of the path to avoid sharp corners.
+        const v =
+            i > 0 && i < run.length - 1
+                ? (centers[i - 1] + 2 * centers[i] + centers[i + 1]) / 4
+                : centers[i];
+        return new Vector2(
+            mean.x + sample.u * axis.x + v * normal.x,
+            mean.y + sample.u * axis.y + v * normal.y
+        );
+    });
+
+    if (path[0].x > path[path.length - 1].x) {
+        path.reverse();
+    }
+    return path;
+}
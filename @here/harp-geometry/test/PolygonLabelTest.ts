@@ -0,0 +1,130 @@
+/*
+ * Copyright (C) 2017-2020 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { assert } from "chai";
+import { Vector2 } from "three";
+
+import { computeMedialAxisPath, computePoleOfInaccessibility } from "../lib/PolygonLabel";
+
+function ring(coordinates: number[][]): Vector2[] {
+    return coordinates.map(([x, y]) => new Vector2(x, y));
+}
+
+function isInsideRing(point: Vector2, polygon: Vector2[]): boolean {
+    let inside = false;
+    for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+        const a = polygon[i];
+        const b = polygon[j];
+        const crossesY = a.y > point.y ? b.y <= point.y : b.y > point.y;
+        if (crossesY && point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x) {
+            inside = !inside;
+        }
+    }
+    return inside;
+}
+
+describe("PolygonLabel", () => {
+    // U shaped polygon, its centroid lies in the notch outside of the polygon.
+    const uShape = ring([
+        [0, 0],
+        [100, 0],
+        [100, 100],
+        [70, 100],
+        [70, 30],
+        [30, 30],
+        [30, 100],
+        [0, 100]
+    ]);
+
+    describe("computePoleOfInaccessibility", () => {
+        it("finds center of square", () => {
+            const square = ring([
+                [0, 0],
+                [100, 0],
+                [100, 100],
+                [0, 100]
+            ]);
+
+            const pole = computePoleOfInaccessibility([square], 1);
+
+            assert.closeTo(pole.point.x, 50, 1);
+            assert.closeTo(pole.point.y, 50, 1);
+            assert.closeTo(pole.distance, 50, 1);
+        });
+
+        it("finds point inside concave polygon", () => {
+            const pole = computePoleOfInaccessibility([uShape], 1);
+
+            assert.isTrue(isInsideRing(pole.point, uShape));
+            assert.closeTo(pole.distance, 17.2, 1);
+        });
+
+        it("avoids holes", () => {
+            const square = ring([
+                [0, 0],
+                [100, 0],
+                [100, 100],
+                [0, 100]
+            ]);
+            const hole = ring([
+                [20, 20],
+                [80, 20],
+                [80, 80],
+                [20, 80]
+            ]);
+
+            const pole = computePoleOfInaccessibility([square, hole], 1);
+
+            assert.isFalse(isInsideRing(pole.point, hole));
+            assert.closeTo(pole.distance, 11.7, 1);
+        });
+
+        it("handles degenerate polygons", () => {
+            const line = ring([
+                [10, 10],
+                [50, 10]
+            ]);
+
+            const pole = computePoleOfInaccessibility([line], 1);
+
+            assert.deepEqual(pole.point.toArray(), [10, 10]);
+            assert.equal(pole.distance, 0);
+        });
+    });
+
+    describe("computeMedialAxisPath", () => {
+        it("follows elongated polygon from left to right", () => {
+            const band = ring([
+                [100, 10],
+                [100, 30],
+                [0, 30],
+                [0, 10]
+            ]);
+
+            const path = computeMedialAxisPath([band], 10);
+
+            assert.isDefined(path);
+            assert.lengthOf(path!, 10);
+            assert.isBelow(path![0].x, path![path!.length - 1].x);
+            for (const point of path!) {
+                assert.closeTo(point.y, 20, 1e-6);
+            }
+        });
+
+        it("stays inside concave polygon", () => {
+            const path = computeMedialAxisPath([uShape]);
+
+            assert.isDefined(path);
+            for (const point of path!) {
+                assert.isTrue(isInsideRing(point, uShape));
+            }
+        });
+
+        it("returns undefined for degenerate polygons", () => {
+            assert.isUndefined(computeMedialAxisPath([ring([[10, 10]])]));
+        });
+    });
+});
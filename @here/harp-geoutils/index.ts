@@ -19,6 +19,7 @@ export * from "./lib/coordinates/GeoCoordinates";
 export * from "./lib/coordinates/GeoPointLike";
 export * from "./lib/coordinates/GeoPolygonLike";
 export * from "./lib/coordinates/GeoPolygon";
+export * from "./lib/coordinates/GeodesicUtils";
 export * from "./lib/coordinates/LatLngLike";
 export * from "./lib/projection/EarthConstants";
 export * from "./lib/projection/EquirectangularProjection";
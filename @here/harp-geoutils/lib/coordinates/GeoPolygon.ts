@@ -9,6 +9,7 @@ import { GeoBox } from "./GeoBox";
 import { GeoCoordinates, MAX_LATITUDE, MIN_LATITUDE } from "./GeoCoordinates";
 import { GeoCoordinatesLike } from "./GeoCoordinatesLike";
 import { GeoCoordLike, geoCoordLikeToGeoCoordinatesLike } from "./GeoCoordLike";
+import { GeodesicUtils } from "./GeodesicUtils";
 import { GeoPolygonLike } from "./GeoPolygonLike";
 
 function computeLonSpanAcrossGreewich(lonA: number, lonB: number) {
@@ -133,6 +134,24 @@ export class GeoPolygon implements GeoPolygonLike {
         );
     }
 
+    /**
+     * Gets the area of the Polygon on the earth's surface, in square meters.
+     *
+     * The edges are great-circle segments, see {@link GeodesicUtils.polygonArea}.
+     */
+    getGeodesicArea(): number {
+        return GeodesicUtils.polygonArea(this.m_coordinates);
+    }
+
+    /**
+     * Gets the perimeter of the Polygon on the earth's surface, in meters.
+     *
+     * The edges are great-circle segments, see {@link GeodesicUtils.polygonPerimeter}.
+     */
+    getGeodesicPerimeter(): number {
+        return GeodesicUtils.polygonPerimeter(this.m_coordinates);
+    }
+
     private sortCCW() {
         const polyCenter = this.getPolyAverageCenter();
         if (!polyCenter) {
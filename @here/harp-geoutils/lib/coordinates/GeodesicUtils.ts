@@ -0,0 +1,183 @@
+/*
+ * Copyright (C) 2017-2020 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as THREE from "three";
+
+import { EarthConstants } from "../projection/EarthConstants";
+import { GeoCoordinates } from "./GeoCoordinates";
+import { GeoCoordinatesLike } from "./GeoCoordinatesLike";
+
+/**
+ * Geodesic computations on a spherical earth model.
+ *
+ * @remarks
+ * All computations use a sphere with radius {@link EarthConstants.EQUATORIAL_RADIUS}, so the
+ * results are independent of the projection the coordinates are displayed with. Distances are
+ * given in meters, angles in degrees. Altitudes are ignored.
+ */
+export namespace GeodesicUtils {
+    const RADIUS = EarthConstants.EQUATORIAL_RADIUS;
+
+    /**
+     * Computes the great-circle distance between two coordinates using the haversine formula.
+     *
+     * @param from - The start coordinates.
+     * @param to - The end coordinates.
+     * @returns The distance in meters.
+     */
+    export function distance(from: GeoCoordinatesLike, to: GeoCoordinatesLike): number {
+        return centralAngle(from, to) * RADIUS;
+    }
+
+    /**
+     * Computes the initial bearing of the great-circle path between two coordinates.
+     *
+     * @param from - The start coordinates.
+     * @param to - The end coordinates.
+     * @returns The bearing in degrees clockwise from north, in the range [0, 360).
+     */
+    export function initialBearing(from: GeoCoordinatesLike, to: GeoCoordinatesLike): number {
+        const lat1 = THREE.MathUtils.degToRad(from.latitude);
+        const lat2 = THREE.MathUtils.degToRad(to.latitude);
+        const deltaLon = THREE.MathUtils.degToRad(to.longitude - from.longitude);
+
+        const y = Math.sin(deltaLon) * Math.cos(lat2);
+        const x =
+            Math.cos(lat1) * Math.sin(lat2) - Math.sin(lat1) * Math.cos(lat2) * Math.cos(deltaLon);
+        const bearing = THREE.MathUtils.radToDeg(Math.atan2(y, x));
+        return (bearing + 360) % 360;
+    }
+
+    /**
+     * Computes the point reached when following a great circle from a start point.
+     *
+     * @param from - The start coordinates.
+     * @param bearing - The initial bearing in degrees clockwise from north.
+     * @param dist - The distance to travel in meters.
+     * @returns The destination coordinates, with normalized longitude.
+     */
+    export function destination(
+        from: GeoCoordinatesLike,
+        bearing: number,
+        dist: number
+    ): GeoCoordinates {
+        const lat1 = THREE.MathUtils.degToRad(from.latitude);
+        const lon1 = THREE.MathUtils.degToRad(from.longitude);
+        const theta = THREE.MathUtils.degToRad(bearing);
+        const delta = dist / RADIUS;
+
+        const sinLat2 =
+            Math.sin(lat1) * Math.cos(delta) + Math.cos(lat1) * Math.sin(delta) * Math.cos(theta);
+        const lat2 = Math.asin(THREE.MathUtils.clamp(sinLat2, -1, 1));
+        const lon2 =
+            lon1 +
+            Math.atan2(
+                Math.sin(theta) * Math.sin(delta) * Math.cos(lat1),
+                Math.cos(delta) - Math.sin(lat1) * sinLat2
+            );
+        return GeoCoordinates.fromRadians(lat2, lon2).normalized();
+    }
+
+    /**
+     * Computes the point at a given fraction of the great-circle path between two coordinates.
+     *
+     * @param from - The start coordinates.
+     * @param to - The end coordinates.
+     * @param fraction - Fraction of the path, `0` returns `from` and `1` returns `to`.
+     * @returns The intermediate coordinates, with normalized longitude.
+     */
+    export function interpolate(
+        from: GeoCoordinatesLike,
+        to: GeoCoordinatesLike,
+        fraction: number
+    ): GeoCoordinates {
+        const delta = centralAngle(from, to);
+        if (delta === 0) {
+            return new GeoCoordinates(from.latitude, from.longitude).normalized();
+        }
+        const lat1 = THREE.MathUtils.degToRad(from.latitude);
+        const lon1 = THREE.MathUtils.degToRad(from.longitude);
+        const lat2 = THREE.MathUtils.degToRad(to.latitude);
+        const lon2 = THREE.MathUtils.degToRad(to.longitude);
+
+        const a = Math.sin((1 - fraction) * delta) / Math.sin(delta);
+        const b = Math.sin(fraction * delta) / Math.sin(delta);
+        const x = a * Math.cos(lat1) * Math.cos(lon1) + b * Math.cos(lat2) * Math.cos(lon2);
+        const y = a * Math.cos(lat1) * Math.sin(lon1) + b * Math.cos(lat2) * Math.sin(lon2);
+        const z = a * Math.sin(lat1) + b * Math.sin(lat2);
+        return GeoCoordinates.fromRadians(
+            Math.atan2(z, Math.sqrt(x * x + y * y)),
+            Math.atan2(y, x)
+        );
+    }
+
+    /**
+     * Computes the length of the great-circle path through a list of coordinates.
+     *
+     * @param points - The coordinates of the path.
+     * @returns The length in meters, `0` for less than two points.
+     */
+    export function pathLength(points: GeoCoordinatesLike[]): number {
+        let length = 0;
+        for (let i = 1; i < points.length; i++) {
+            length += distance(points[i - 1], points[i]);
+        }
+        return length;
+    }
+
+    /**
+     * Computes the perimeter of a polygon whose edges are great-circle segments.
+     *
+     * @param coordinates - The vertices of the polygon, the polygon is closed implicitly.
+     * @returns The perimeter in meters.
+     */
+    export function polygonPerimeter(coordinates: GeoCoordinatesLike[]): number {
+        if (coordinates.length < 2) {
+            return 0;
+        }
+        return (
+            pathLength(coordinates) + distance(coordinates[coordinates.length - 1], coordinates[0])
+        );
+    }
+
+    /**
+     * Computes the area of a polygon whose edges are great-circle segments, using its spherical
+     * excess.
+     *
+     * @param coordinates - The vertices of the polygon in any winding order, the polygon is
+     * closed implicitly.
+     * @returns The area in square meters, `0` for less than three vertices.
+     */
+    export function polygonArea(coordinates: GeoCoordinatesLike[]): number {
+        if (coordinates.length < 3) {
+            return 0;
+        }
+        let excess = 0;
+        let previous = coordinates[coordinates.length - 1];
+        for (const current of coordinates) {
+            const tanLat1 = Math.tan(THREE.MathUtils.degToRad(previous.latitude) / 2);
+            const tanLat2 = Math.tan(THREE.MathUtils.degToRad(current.latitude) / 2);
+            const deltaLon = THREE.MathUtils.degToRad(current.longitude - previous.longitude);
+            excess +=
+                2 * Math.atan2(Math.tan(deltaLon / 2) * (tanLat1 + tanLat2), 1 + tanLat1 * tanLat2);
+            previous = current;
+        }
+        return Math.abs(excess) * RADIUS * RADIUS;
+    }
+
+    function centralAngle(from: GeoCoordinatesLike, to: GeoCoordinatesLike): number {
+        const lat1 = THREE.MathUtils.degToRad(from.latitude);
+        const lat2 = THREE.MathUtils.degToRad(to.latitude);
+        const sinHalfDeltaLat = Math.sin((lat2 - lat1) / 2);
+        const sinHalfDeltaLon = Math.sin(
+            THREE.MathUtils.degToRad(to.longitude - from.longitude) / 2
+        );
+        const h =
+            sinHalfDeltaLat * sinHalfDeltaLat +
+            Math.cos(lat1) * Math.cos(lat2) * sinHalfDeltaLon * sinHalfDeltaLon;
+        return 2 * Math.asin(Math.min(1, Math.sqrt(h)));
+    }
+}
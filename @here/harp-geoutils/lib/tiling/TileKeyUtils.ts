@@ -124,4 +124,18 @@ export class TileKeyUtils {
 
         return keys;
     }
+
+    /**
+     * Checks if a tile overlaps any of the given tiles, i.e. if it is one of them, or an ancestor
+     * or a descendant of one of them.
+     *
+     * @param tileKey - The key of the tile to check.
+     * @param tileKeys - The keys of the other tiles.
+     */
+    static overlapsAny(tileKey: TileKey, tileKeys: TileKey[]): boolean {
+        return tileKeys.some(other => {
+            const level = Math.min(tileKey.level, other.level);
+            return tileKey.changedLevelTo(level).equals(other.changedLevelTo(level));
+        });
+    }
 }
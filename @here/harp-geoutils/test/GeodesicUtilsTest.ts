@@ -0,0 +1,205 @@
+/*
+ * Copyright (C) 2017-2020 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { assert } from "chai";
+
+import { GeoCoordinates } from "../lib/coordinates/GeoCoordinates";
+import { GeodesicUtils } from "../lib/coordinates/GeodesicUtils";
+import { GeoPolygon } from "../lib/coordinates/GeoPolygon";
+import { EarthConstants } from "../lib/projection/EarthConstants";
+
+// tslint:disable:only-arrow-functions
+//    Mocha discourages using arrow functions, see https://mochajs.org/#arrow-functions
+
+const RADIUS = EarthConstants.EQUATORIAL_RADIUS;
+const EPSILON = 1e-6;
+
+describe("GeodesicUtils", function() {
+    const paris = new GeoCoordinates(48.8566, 2.3522);
+    const berlin = new GeoCoordinates(52.52, 13.405);
+
+    describe("distance", function() {
+        it("computes the great-circle distance", function() {
+            assert.closeTo(
+                GeodesicUtils.distance(new GeoCoordinates(0, 0), new GeoCoordinates(0, 90)),
+                (Math.PI / 2) * RADIUS,
+                EPSILON
+            );
+            assert.closeTo(GeodesicUtils.distance(paris, berlin), 878500, 1000);
+        });
+
+        it("computes the shortest distance across the antimeridian", function() {
+            assert.closeTo(
+                GeodesicUtils.distance(new GeoCoordinates(0, 179), new GeoCoordinates(0, -179)),
+                (Math.PI / 90) * RADIUS,
+                EPSILON
+            );
+        });
+
+        it("returns zero for equal coordinates", function() {
+            assert.equal(GeodesicUtils.distance(paris, paris), 0);
+        });
+    });
+
+    describe("initialBearing", function() {
+        it("computes bearings in the range [0, 360)", function() {
+            const origin = new GeoCoordinates(0, 0);
+            assert.closeTo(
+                GeodesicUtils.initialBearing(origin, new GeoCoordinates(10, 0)),
+                0,
+                EPSILON
+            );
+            assert.closeTo(
+                GeodesicUtils.initialBearing(origin, new GeoCoordinates(0, 10)),
+                90,
+                EPSILON
+            );
+            assert.closeTo(
+                GeodesicUtils.initialBearing(origin, new GeoCoordinates(-10, 0)),
+                180,
+                EPSILON
+            );
+            assert.closeTo(
+                GeodesicUtils.initialBearing(origin, new GeoCoordinates(0, -10)),
+                270,
+                EPSILON
+            );
+        });
+    });
+
+    describe("destination", function() {
+        it("is the inverse of distance and initialBearing", function() {
+            const bearing = GeodesicUtils.initialBearing(paris, berlin);
+            const distance = GeodesicUtils.distance(paris, berlin);
+            const result = GeodesicUtils.destination(paris, bearing, distance);
+
+            assert.closeTo(result.latitude, berlin.latitude, EPSILON);
+            assert.closeTo(result.longitude, berlin.longitude, EPSILON);
+        });
+
+        it("normalizes the longitude", function() {
+            const result = GeodesicUtils.destination(
+                new GeoCoordinates(0, 179),
+                90,
+                (Math.PI / 90) * RADIUS
+            );
+
+            assert.closeTo(result.latitude, 0, EPSILON);
+            assert.closeTo(result.longitude, -179, EPSILON);
+        });
+    });
+
+    describe("interpolate", function() {
+        it("returns points on the great circle", function() {
+            assert.closeTo(
+                GeodesicUtils.interpolate(paris, berlin, 0).latitude,
+                paris.latitude,
+                EPSILON
+            );
+            assert.closeTo(
+                GeodesicUtils.interpolate(paris, berlin, 1).longitude,
+                berlin.longitude,
+                EPSILON
+            );
+
+            const midpoint = GeodesicUtils.interpolate(paris, berlin, 0.5);
+            const halfDistance = GeodesicUtils.distance(paris, berlin) / 2;
+            assert.closeTo(GeodesicUtils.distance(paris, midpoint), halfDistance, EPSILON);
+            assert.closeTo(GeodesicUtils.distance(midpoint, berlin), halfDistance, EPSILON);
+        });
+    });
+
+    describe("pathLength", function() {
+        it("sums the segment distances", function() {
+            const points = [new GeoCoordinates(0, 0), new GeoCoordinates(0, 90), paris];
+
+            assert.equal(GeodesicUtils.pathLength([]), 0);
+            assert.equal(GeodesicUtils.pathLength([paris]), 0);
+            assert.closeTo(
+                GeodesicUtils.pathLength(points),
+                GeodesicUtils.distance(points[0], points[1]) +
+                    GeodesicUtils.distance(points[1], points[2]),
+                EPSILON
+            );
+        });
+    });
+
+    describe("polygonArea", function() {
+        it("computes the area of a spherical triangle", function() {
+            // One eighth of the sphere.
+            const octant = [
+                new GeoCoordinates(0, 0),
+                new GeoCoordinates(0, 90),
+                new GeoCoordinates(90, 0)
+            ];
+
+            assert.closeTo(
+                GeodesicUtils.polygonArea(octant) / ((Math.PI / 2) * RADIUS * RADIUS),
+                1,
+                EPSILON
+            );
+            assert.closeTo(
+                GeodesicUtils.polygonArea(octant.reverse()) / ((Math.PI / 2) * RADIUS * RADIUS),
+                1,
+                EPSILON
+            );
+        });
+
+        it("computes the area of polygons crossing the antimeridian", function() {
+            const box = [
+                new GeoCoordinates(-1, 179.5),
+                new GeoCoordinates(-1, -179.5),
+                new GeoCoordinates(1, -179.5),
+                new GeoCoordinates(1, 179.5)
+            ];
+            const reference = [
+                new GeoCoordinates(-1, -0.5),
+                new GeoCoordinates(-1, 0.5),
+                new GeoCoordinates(1, 0.5),
+                new GeoCoordinates(1, -0.5)
+            ];
+
+            assert.closeTo(
+                GeodesicUtils.polygonArea(box) / GeodesicUtils.polygonArea(reference),
+                1,
+                EPSILON
+            );
+        });
+
+        it("returns zero for degenerate polygons", function() {
+            assert.equal(GeodesicUtils.polygonArea([paris, berlin]), 0);
+        });
+    });
+
+    describe("polygonPerimeter", function() {
+        it("includes the closing edge", function() {
+            const octant = [
+                new GeoCoordinates(0, 0),
+                new GeoCoordinates(0, 90),
+                new GeoCoordinates(90, 0)
+            ];
+
+            assert.closeTo(
+                GeodesicUtils.polygonPerimeter(octant),
+                3 * (Math.PI / 2) * RADIUS,
+                EPSILON
+            );
+        });
+    });
+
+    describe("GeoPolygon", function() {
+        it("computes geodesic area and perimeter", function() {
+            const coordinates = [paris, berlin, new GeoCoordinates(50.0755, 14.4378)];
+            const polygon = new GeoPolygon([coordinates[0], coordinates[1], coordinates[2]]);
+
+            assert.equal(polygon.getGeodesicArea(), GeodesicUtils.polygonArea(coordinates));
+            assert.equal(
+                polygon.getGeodesicPerimeter(),
+                GeodesicUtils.polygonPerimeter(coordinates)
+            );
+        });
+    });
+});
@@ -143,4 +143,15 @@ describe("TileKeyUtils", function() {
             expectedResult
         );
     });
+
+    it("overlapsAny", function() {
+        const tileKey = new TileKey(5, 6, 4);
+        const otherKeys = [new TileKey(0, 0, 3), new TileKey(22, 24, 6)];
+
+        assert.isTrue(TileKeyUtils.overlapsAny(tileKey, otherKeys), "descendant");
+        assert.isTrue(TileKeyUtils.overlapsAny(tileKey.parent(), otherKeys), "ancestor");
+        assert.isTrue(TileKeyUtils.overlapsAny(new TileKey(0, 0, 3), otherKeys), "same key");
+        assert.isFalse(TileKeyUtils.overlapsAny(new TileKey(5, 7, 4), otherKeys));
+        assert.isFalse(TileKeyUtils.overlapsAny(tileKey, []));
+    });
 });
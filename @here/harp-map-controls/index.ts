@@ -19,3 +19,5 @@ export * from "./lib/Utils";
 export * from "./lib/MapAnimations";
 export * from "./lib/CameraKeyTrackAnimation";
 export * from "./lib/CameraAnimationBuilder";
+export * from "./lib/MeasureTool";
+export * from "./lib/Selection";
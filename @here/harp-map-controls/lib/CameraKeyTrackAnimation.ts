@@ -125,6 +125,7 @@ export class CameraKeyTrackAnimation {
     private m_running: boolean = false;
     private m_onFinished: (() => void) | undefined;
     private readonly m_name?: string;
+    private m_destination?: ControlPoint;
 
     private m_lastFrameTime: number = 0;
     private readonly m_animateCb: (event: RenderEvent) => void;
@@ -247,6 +248,7 @@ export class CameraKeyTrackAnimation {
         this.m_mapView.addEventListener(MapViewEventNames.Render, this.m_animateCb);
         this.m_mapView.beginAnimation();
         this.m_running = true;
+        this.updatePrefetchDestination();
     }
 
     /**
@@ -255,6 +257,10 @@ export class CameraKeyTrackAnimation {
     stop(): void {
         this.m_mapView.removeEventListener(MapViewEventNames.Render, this.m_animateCb);
         this.m_mapView.endAnimation();
+        if (this.m_destination !== undefined) {
+            this.m_mapView.tilePrefetcher?.removeDestination(this.m_destination);
+            this.m_destination = undefined;
+        }
         if (this.m_onFinished !== undefined) {
             // called asynchronously, as the last animate event still will get dispatched
             // and should run before the onFinished callback
@@ -300,5 +306,31 @@ export class CameraKeyTrackAnimation {
         this.m_animationMixer.update(deltaTime);
         this.m_lastFrameTime = Date.now();
         this.updateCameraFromDummy();
+        if (this.m_running) {
+            this.updatePrefetchDestination();
+        }
+    }
+
+    /**
+     * Prefetches the tiles of the next control point, see
+     * {@link @here/harp-mapview#TilePrefetcher}.
+     */
+    private updatePrefetchDestination() {
+        const tilePrefetcher = this.m_mapView.tilePrefetcher;
+        const controlPoints = this.m_options.controlPoints;
+        if (tilePrefetcher === undefined || controlPoints.length === 0) {
+            return;
+        }
+        const time = this.m_animationAction.time;
+        const destination =
+            controlPoints.find(point => point.timestamp > time) ??
+            controlPoints[controlPoints.length - 1];
+        if (destination !== this.m_destination) {
+            if (this.m_destination !== undefined) {
+                tilePrefetcher.removeDestination(this.m_destination);
+            }
+            tilePrefetcher.addDestination(destination);
+            this.m_destination = destination;
+        }
     }
 }
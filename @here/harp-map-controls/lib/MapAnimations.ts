@@ -5,7 +5,7 @@
  */
 
 import { GeoCoordinates, GeoCoordinatesLike } from "@here/harp-geoutils";
-import { MapView } from "@here/harp-mapview";
+import { CameraDestination, MapView } from "@here/harp-mapview";
 import { PerformanceTimer } from "@here/harp-utils";
 import * as TWEEN from "@tweenjs/tween.js";
 import * as THREE from "three";
@@ -367,6 +367,7 @@ export class CameraPanAnimation extends CameraAnimation {
     readonly interpolation = TWEEN.Interpolation.CatmullRom;
 
     private readonly m_geoCoordinates: GeoCoordinatesLike[];
+    private m_destination?: CameraDestination;
 
     /**
      * Creates a new `CameraPanAnimation` object.
@@ -461,6 +462,15 @@ export class CameraPanAnimation extends CameraAnimation {
         this.tween.start(time);
 
         this.mapView.beginAnimation();
+
+        // Prefetch the tiles at the last position, see [[TilePrefetcher]].
+        const lastPosition = this.m_geoCoordinates[this.m_geoCoordinates.length - 1];
+        if (this.mapView.tilePrefetcher !== undefined && lastPosition !== undefined) {
+            this.m_destination = {
+                target: new GeoCoordinates(lastPosition.latitude, lastPosition.longitude)
+            };
+            this.mapView.tilePrefetcher.addDestination(this.m_destination);
+        }
     }
 
     /**
@@ -476,6 +486,11 @@ export class CameraPanAnimation extends CameraAnimation {
 
         this.mapView.endAnimation();
 
+        if (this.m_destination !== undefined) {
+            this.mapView.tilePrefetcher?.removeDestination(this.m_destination);
+            this.m_destination = undefined;
+        }
+
         if (this.tween) {
             this.tween.stop();
         }
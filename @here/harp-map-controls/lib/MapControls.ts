@@ -8,6 +8,7 @@ import * as geoUtils from "@here/harp-geoutils";
 import { EventDispatcher, MapView, MapViewEventNames, MapViewUtils } from "@here/harp-mapview";
 import * as THREE from "three";
 
+import { selectInScreenPolygon, Selection, SelectionMode, SelectionOverlay } from "./Selection";
 import * as utils from "./Utils";
 
 enum State {
@@ -15,7 +16,8 @@ enum State {
     PAN,
     ROTATE,
     ORBIT,
-    TOUCH
+    TOUCH,
+    SELECT
 }
 
 export enum TiltState {
@@ -36,7 +38,16 @@ interface TouchState {
 export enum EventNames {
     Update = "update",
     BeginInteraction = "begin-interaction",
-    EndInteraction = "end-interaction"
+    EndInteraction = "end-interaction",
+    Select = "select"
+}
+
+/**
+ * Event dispatched by {@link MapControls} when a selection is made, see
+ * {@link MapControls.selectionMode}.
+ */
+export interface SelectionEvent extends THREE.Event, Selection {
+    type: EventNames.Select;
 }
 
 // cast needed to workaround wrong three.js typings.
@@ -68,6 +79,11 @@ const EPSILON = 0.01;
  */
 const MAX_TAP_DURATION = 120;
 
+/**
+ * Minimum pointer movement in pixels to add a point to a lasso selection.
+ */
+const MIN_LASSO_POINT_DISTANCE = 3;
+
 /**
  * This map control provides basic map-related building blocks to interact with the map. It also
  * provides a default way of handling user input. Currently we support basic mouse interaction and
@@ -79,6 +95,8 @@ const MAX_TAP_DURATION = 120;
  *  - Middle mouse button + move = Rotating the view. Up down movement changes the pitch. Left/right
  *    movement changes the yaw.
  *  - Mouse wheel = Zooms up and down by one zoom level, zooms on target.
+ *  - Shift + left mouse button + move = Selects features and anchors with a rectangle or lasso,
+ *    if enabled with {@link MapControls.selectionMode}.
  *
  * Touch interaction:
  *  - One finger = Panning the map.
@@ -219,6 +237,12 @@ export class MapControls extends EventDispatcher {
      */
     doubleTapTime = 0.3;
 
+    /**
+     * Shape drawn with shift + drag to select features and anchors. When the mouse button is
+     * released, a {@link SelectionEvent} is dispatched. Disabled by default.
+     */
+    selectionMode = SelectionMode.None;
+
     /**
      * Three.js camera that this controller affects.
      */
@@ -305,6 +329,9 @@ export class MapControls extends EventDispatcher {
 
     private m_cleanupMouseEventListeners?: () => void;
 
+    private readonly m_selectionPolygon: THREE.Vector2[] = [];
+    private m_selectionOverlay?: SelectionOverlay;
+
     private m_touchState: {
         touches: TouchState[];
         currentRotation: number;
@@ -874,7 +901,8 @@ export class MapControls extends EventDispatcher {
             return;
         }
 
-        if (event.shiftKey) {
+        const select = event.shiftKey && this.selectionMode !== SelectionMode.None;
+        if (event.shiftKey && !select) {
             return;
         }
 
@@ -884,18 +912,26 @@ export class MapControls extends EventDispatcher {
             return;
         }
 
-        // Support mac users who press ctrl key when wanting to right click
-        if (event.button === 0 && !event.ctrlKey && this.panEnabled) {
-            this.m_state = State.PAN;
-        } else if (event.button === 1) {
-            this.m_state = State.ROTATE;
-        } else if ((event.button === 2 || event.ctrlKey) && this.tiltEnabled) {
-            this.m_state = State.ORBIT;
+        if (select) {
+            if (event.button !== 0) {
+                return;
+            }
+            this.m_state = State.SELECT;
+            this.startSelection(this.getPointerPosition(event));
         } else {
-            return;
-        }
+            // Support mac users who press ctrl key when wanting to right click
+            if (event.button === 0 && !event.ctrlKey && this.panEnabled) {
+                this.m_state = State.PAN;
+            } else if (event.button === 1) {
+                this.m_state = State.ROTATE;
+            } else if ((event.button === 2 || event.ctrlKey) && this.tiltEnabled) {
+                this.m_state = State.ORBIT;
+            } else {
+                return;
+            }
 
-        this.dispatchEvent(MAPCONTROL_EVENT_BEGIN_INTERACTION);
+            this.dispatchEvent(MAPCONTROL_EVENT_BEGIN_INTERACTION);
+        }
 
         const mousePos = this.getPointerPosition(event);
         this.m_lastMousePosition.copy(mousePos);
@@ -926,6 +962,13 @@ export class MapControls extends EventDispatcher {
         }
 
         const mousePos = this.getPointerPosition(event);
+        if (this.m_state === State.SELECT) {
+            this.updateSelection(mousePos);
+            event.preventDefault();
+            event.stopPropagation();
+            return;
+        }
+
         this.m_mouseDelta.set(
             mousePos.x - this.m_lastMousePosition.x,
             mousePos.y - this.m_lastMousePosition.y
@@ -977,20 +1020,66 @@ export class MapControls extends EventDispatcher {
             return;
         }
 
-        this.updateMapView();
-
         event.preventDefault();
         event.stopPropagation();
 
-        this.m_state = State.NONE;
-
         if (this.m_cleanupMouseEventListeners) {
             this.m_cleanupMouseEventListeners();
         }
 
+        if (this.m_state === State.SELECT) {
+            this.m_state = State.NONE;
+            this.updateSelection(this.getPointerPosition(event));
+            this.finishSelection();
+            return;
+        }
+
+        this.updateMapView();
+
+        this.m_state = State.NONE;
+
         this.dispatchEvent(MAPCONTROL_EVENT_END_INTERACTION);
     }
 
+    private startSelection(mousePos: THREE.Vector2) {
+        this.m_selectionPolygon.length = 0;
+        this.m_selectionPolygon.push(mousePos);
+        this.m_selectionOverlay = new SelectionOverlay(this.domElement);
+    }
+
+    private updateSelection(mousePos: THREE.Vector2) {
+        const polygon = this.m_selectionPolygon;
+        if (this.selectionMode === SelectionMode.Rectangle) {
+            const start = polygon[0];
+            polygon.length = 0;
+            polygon.push(
+                start.clone(),
+                new THREE.Vector2(mousePos.x, start.y),
+                mousePos.clone(),
+                new THREE.Vector2(start.x, mousePos.y)
+            );
+        } else if (polygon[polygon.length - 1].distanceTo(mousePos) >= MIN_LASSO_POINT_DISTANCE) {
+            polygon.push(mousePos.clone());
+        }
+        this.m_selectionOverlay?.update(polygon);
+    }
+
+    private finishSelection() {
+        this.m_selectionOverlay?.dispose();
+        this.m_selectionOverlay = undefined;
+
+        const polygon = this.m_selectionPolygon.slice();
+        const size = new THREE.Box2().setFromPoints(polygon).getSize(new THREE.Vector2());
+        if (polygon.length < 3 || size.x === 0 || size.y === 0) {
+            return;
+        }
+        const event: SelectionEvent = {
+            type: EventNames.Select,
+            ...selectInScreenPolygon(this.mapView, polygon)
+        };
+        this.dispatchEvent(event);
+    }
+
     private mouseWheel(event: WheelEvent) {
         if (!this.enabled || !this.zoomEnabled) {
             return;
@@ -0,0 +1,412 @@
+/*
+ * Copyright (C) 2017-2020 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { GeoCoordinates, GeodesicUtils, Projection } from "@here/harp-geoutils";
+import { GeoCoordLike } from "@here/harp-geoutils/lib/coordinates/GeoCoordLike";
+import { MapAnchor, MapView, MapViewEventNames } from "@here/harp-mapview";
+import * as THREE from "three";
+
+import * as utils from "./Utils";
+
+/**
+ * Maximal length in meters of the straight segments a great-circle path is drawn with.
+ */
+const MAX_SEGMENT_LENGTH = 50000;
+
+/**
+ * Maximal pointer movement in pixels for a click to add a point, larger movements are pans.
+ */
+const CLICK_THRESHOLD = 4;
+
+/**
+ * What a {@link MeasureTool} measures.
+ */
+export enum MeasureMode {
+    /**
+     * Length of the path through the points.
+     */
+    Distance = "distance",
+    /**
+     * Area and perimeter of the polygon formed by the points.
+     */
+    Area = "area"
+}
+
+/**
+ * Measurement computed by a {@link MeasureTool}. Distances are in meters, areas in square
+ * meters, computed along great circles on the earth's surface.
+ */
+export interface MeasureResult {
+    /**
+     * The measured points.
+     */
+    points: GeoCoordinates[];
+
+    /**
+     * Lengths of the segments between consecutive points.
+     */
+    segmentDistances: number[];
+
+    /**
+     * Length of the path through all points.
+     */
+    distance: number;
+
+    /**
+     * Initial bearing of the last segment in degrees clockwise from north, `undefined` for less
+     * than two points.
+     */
+    bearing?: number;
+
+    /**
+     * Area of the polygon formed by the points, only computed in {@link MeasureMode.Area} with
+     * at least three points.
+     */
+    area?: number;
+
+    /**
+     * Perimeter of the polygon formed by the points, only computed in {@link MeasureMode.Area}
+     * with at least three points.
+     */
+    perimeter?: number;
+}
+
+/**
+ * Options of a {@link MeasureTool}.
+ */
+export interface MeasureToolOptions {
+    /**
+     * What is measured.
+     * @defaultValue {@link MeasureMode.Distance}
+     */
+    mode?: MeasureMode;
+
+    /**
+     * Color of the drawn path and points.
+     * @defaultValue `"#ff3333"`
+     */
+    color?: string | number;
+
+    /**
+     * Called with the new measurement whenever the points or the mode change.
+     */
+    onUpdate?: (result: MeasureResult) => void;
+}
+
+/**
+ * Interactive tool measuring distances, areas and bearings on a {@link @here/harp-mapview#MapView}.
+ *
+ * @remarks
+ * When enabled, each click on the map adds a point and a right click removes the last one. The
+ * path is drawn along great circles with {@link @here/harp-mapview#MapAnchors}, so it works with
+ * both planar and spherical projections.
+ *
+ * ```typescript
+ * const measureTool = new MeasureTool(mapView, {
+ *     onUpdate: result => console.log(`${result.distance} m`)
+ * });
+ * measureTool.enable();
+ * ```
+ */
+export class MeasureTool {
+    private readonly m_points: GeoCoordinates[] = [];
+    private readonly m_path: MapAnchor<THREE.Line>;
+    private readonly m_markers: MapAnchor<THREE.Points>;
+    private m_mode: MeasureMode;
+    private m_enabled = false;
+    private m_projection?: Projection;
+    private readonly m_mouseDownPosition = new THREE.Vector2();
+
+    /**
+     * Creates a new `MeasureTool`, call {@link MeasureTool.enable} to add points by clicking.
+     *
+     * @param mapView - The {@link @here/harp-mapview#MapView} to measure on.
+     * @param m_options - The measure tool options.
+     */
+    constructor(readonly mapView: MapView, private readonly m_options: MeasureToolOptions = {}) {
+        this.m_mode = m_options.mode ?? MeasureMode.Distance;
+
+        const color = m_options.color ?? "#ff3333";
+        this.m_path = new THREE.Line(
+            new THREE.BufferGeometry(),
+            new THREE.LineBasicMaterial({ color, depthTest: false, transparent: true })
+        );
+        this.m_markers = new THREE.Points(
+            new THREE.BufferGeometry(),
+            new THREE.PointsMaterial({
+                color,
+                size: 8,
+                sizeAttenuation: false,
+                depthTest: false,
+                transparent: true
+            })
+        );
+        for (const object of [this.m_path, this.m_markers]) {
+            object.renderOrder = Number.MAX_SAFE_INTEGER;
+            object.frustumCulled = false;
+            object.pickable = false;
+        }
+
+        this.onMouseDown = this.onMouseDown.bind(this);
+        this.onClick = this.onClick.bind(this);
+        this.onContextMenu = this.onContextMenu.bind(this);
+        this.onRender = this.onRender.bind(this);
+    }
+
+    /**
+     * What is measured.
+     */
+    get mode(): MeasureMode {
+        return this.m_mode;
+    }
+
+    set mode(mode: MeasureMode) {
+        if (mode !== this.m_mode) {
+            this.m_mode = mode;
+            this.update();
+        }
+    }
+
+    /**
+     * The measured points.
+     */
+    get points(): GeoCoordinates[] {
+        return this.m_points.slice();
+    }
+
+    /**
+     * `true` if points are added by clicking on the map.
+     */
+    get enabled(): boolean {
+        return this.m_enabled;
+    }
+
+    /**
+     * The current measurement.
+     */
+    get result(): MeasureResult {
+        const points = this.points;
+        const segmentDistances: number[] = [];
+        for (let i = 1; i < points.length; i++) {
+            segmentDistances.push(GeodesicUtils.distance(points[i - 1], points[i]));
+        }
+        const result: MeasureResult = {
+            points,
+            segmentDistances,
+            distance: segmentDistances.reduce((sum, distance) => sum + distance, 0)
+        };
+        if (points.length >= 2) {
+            result.bearing = GeodesicUtils.initialBearing(
+                points[points.length - 2],
+                points[points.length - 1]
+            );
+        }
+        if (this.m_mode === MeasureMode.Area && points.length >= 3) {
+            result.area = GeodesicUtils.polygonArea(points);
+            result.perimeter = GeodesicUtils.polygonPerimeter(points);
+        }
+        return result;
+    }
+
+    /**
+     * Starts adding points on clicks and shows the measured path.
+     */
+    enable() {
+        if (this.m_enabled) {
+            return;
+        }
+        this.m_enabled = true;
+        const canvas = this.mapView.canvas;
+        canvas.addEventListener("mousedown", this.onMouseDown);
+        canvas.addEventListener("click", this.onClick);
+        canvas.addEventListener("contextmenu", this.onContextMenu);
+        this.mapView.addEventListener(MapViewEventNames.Render, this.onRender);
+        this.update();
+    }
+
+    /**
+     * Stops adding points on clicks and hides the measured path. The points are kept.
+     */
+    disable() {
+        if (!this.m_enabled) {
+            return;
+        }
+        this.m_enabled = false;
+        const canvas = this.mapView.canvas;
+        canvas.removeEventListener("mousedown", this.onMouseDown);
+        canvas.removeEventListener("click", this.onClick);
+        canvas.removeEventListener("contextmenu", this.onContextMenu);
+        this.mapView.removeEventListener(MapViewEventNames.Render, this.onRender);
+        this.mapView.mapAnchors.remove(this.m_path);
+        this.mapView.mapAnchors.remove(this.m_markers);
+        this.mapView.update();
+    }
+
+    /**
+     * Adds a point to the measurement.
+     *
+     * @param point - The coordinates of the point.
+     */
+    addPoint(point: GeoCoordLike) {
+        this.m_points.push(GeoCoordinates.fromObject(point));
+        this.update();
+    }
+
+    /**
+     * Removes the last point of the measurement.
+     */
+    removeLastPoint() {
+        if (this.m_points.pop() !== undefined) {
+            this.update();
+        }
+    }
+
+    /**
+     * Removes all points of the measurement.
+     */
+    clear() {
+        if (this.m_points.length > 0) {
+            this.m_points.length = 0;
+            this.update();
+        }
+    }
+
+    /**
+     * Disables the tool and frees its resources.
+     */
+    dispose() {
+        this.disable();
+        for (const object of [this.m_path, this.m_markers]) {
+            object.geometry.dispose();
+            (object.material as THREE.Material).dispose();
+        }
+    }
+
+    private update() {
+        this.updateObjects();
+        if (this.m_options.onUpdate !== undefined) {
+            this.m_options.onUpdate(this.result);
+        }
+    }
+
+    private updateObjects() {
+        if (!this.m_enabled) {
+            return;
+        }
+        const mapAnchors = this.mapView.mapAnchors;
+        mapAnchors.remove(this.m_path);
+        mapAnchors.remove(this.m_markers);
+
+        const points = this.m_points;
+        if (points.length > 0) {
+            const projection = this.mapView.projection;
+            this.m_projection = projection;
+            const origin = projection.projectPoint(points[0], new THREE.Vector3());
+
+            const path =
+                this.m_mode === MeasureMode.Area && points.length >= 3
+                    ? [...points, points[0]]
+                    : points;
+            const pathPositions: number[] = [];
+            const markerPositions: number[] = [];
+            let previous = points[0];
+            addPosition(pathPositions, previous, origin, projection);
+            addPosition(markerPositions, previous, origin, projection);
+            for (let i = 1; i < path.length; i++) {
+                const distance = GeodesicUtils.distance(path[i - 1], path[i]);
+                const numSegments = Math.max(1, Math.ceil(distance / MAX_SEGMENT_LENGTH));
+                for (let j = 1; j <= numSegments; j++) {
+                    const point = unwrapLongitude(
+                        GeodesicUtils.interpolate(path[i - 1], path[i], j / numSegments),
+                        previous
+                    );
+                    addPosition(pathPositions, point, origin, projection);
+                    previous = point;
+                }
+                if (i < points.length) {
+                    addPosition(markerPositions, previous, origin, projection);
+                }
+            }
+
+            setPositions(this.m_path.geometry as THREE.BufferGeometry, pathPositions);
+            setPositions(this.m_markers.geometry as THREE.BufferGeometry, markerPositions);
+            this.m_path.anchor = points[0];
+            this.m_markers.anchor = points[0];
+            mapAnchors.add(this.m_path);
+            mapAnchors.add(this.m_markers);
+        }
+        this.mapView.update();
+    }
+
+    private onRender() {
+        // The drawn path depends on the projection, which may change at any time.
+        if (this.m_points.length > 0 && this.m_projection !== this.mapView.projection) {
+            this.updateObjects();
+        }
+    }
+
+    private onMouseDown(event: MouseEvent) {
+        this.m_mouseDownPosition.copy(this.getPointerPosition(event));
+    }
+
+    private onClick(event: MouseEvent) {
+        if (event.button !== 0) {
+            return;
+        }
+        const position = this.getPointerPosition(event);
+        if (position.distanceTo(this.m_mouseDownPosition) > CLICK_THRESHOLD) {
+            return;
+        }
+        const geoPosition = this.mapView.getGeoCoordinatesAt(position.x, position.y);
+        if (geoPosition !== null) {
+            this.addPoint(geoPosition);
+        }
+    }
+
+    private onContextMenu(event: MouseEvent) {
+        event.preventDefault();
+        this.removeLastPoint();
+    }
+
+    private getPointerPosition(event: MouseEvent): THREE.Vector2 {
+        const canvas = this.mapView.canvas;
+        const canvasSize = utils.getWidthAndHeightFromCanvas(canvas);
+        const rect = canvas.getBoundingClientRect();
+        const scaleX = Math.round(rect.width) / canvasSize.width;
+        const scaleY = Math.round(rect.height) / canvasSize.height;
+
+        return new THREE.Vector2(
+            (event.clientX - Math.floor(rect.left)) * scaleX,
+            (event.clientY - Math.floor(rect.top)) * scaleY
+        );
+    }
+}
+
+/**
+ * Shifts the longitude of `point` by full turns to be the closest to the one of `previous`, so
+ * that paths crossing the antimeridian stay continuous in planar projections.
+ */
+function unwrapLongitude(point: GeoCoordinates, previous: GeoCoordinates): GeoCoordinates {
+    const turns = Math.round((previous.longitude - point.longitude) / 360);
+    if (turns !== 0) {
+        point.longitude += turns * 360;
+    }
+    return point;
+}
+
+function addPosition(
+    positions: number[],
+    point: GeoCoordinates,
+    origin: THREE.Vector3,
+    projection: Projection
+) {
+    const position = projection.projectPoint(point, new THREE.Vector3()).sub(origin);
+    positions.push(position.x, position.y, position.z);
+}
+
+function setPositions(geometry: THREE.BufferGeometry, positions: number[]) {
+    geometry.setAttribute("position", new THREE.Float32BufferAttribute(positions, 3));
+    geometry.computeBoundingSphere();
+}
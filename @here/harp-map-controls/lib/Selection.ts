@@ -0,0 +1,275 @@
+/*
+ * Copyright (C) 2017-2020 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { GeoCoordinates, GeoPolygon, GeoPolygonCoordinates } from "@here/harp-geoutils";
+import { MapAnchor, MapView, QueriedFeature } from "@here/harp-mapview";
+import * as THREE from "three";
+
+const SVG_NAMESPACE = "http://www.w3.org/2000/svg";
+
+/**
+ * Shape drawn to select features and anchors on the map with {@link MapControls}.
+ */
+export enum SelectionMode {
+    /**
+     * Selection is disabled.
+     */
+    None = "none",
+    /**
+     * Shift + drag draws a rectangle between the pointer down and up positions.
+     */
+    Rectangle = "rectangle",
+    /**
+     * Shift + drag draws a freeform polygon following the pointer.
+     */
+    Lasso = "lasso"
+}
+
+/**
+ * Result of a selection made with {@link MapControls}.
+ */
+export interface Selection {
+    /**
+     * The selection shape in screen coordinates.
+     */
+    screenPolygon: THREE.Vector2[];
+
+    /**
+     * The selection shape on the map, `undefined` if less than three of its points hit the map,
+     * e.g. when selecting the sky of a tilted map.
+     */
+    geoPolygon?: GeoPolygon;
+
+    /**
+     * The rendered features inside or crossing the selection shape.
+     */
+    features: QueriedFeature[];
+
+    /**
+     * The {@link @here/harp-mapview#MapAnchors} whose anchor is inside the selection shape.
+     */
+    anchors: MapAnchor[];
+}
+
+function polygonContainsPoint(polygon: THREE.Vector2[], point: THREE.Vector2): boolean {
+    let inside = false;
+    for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+        const a = polygon[i];
+        const b = polygon[j];
+        const aboveA = a.y > point.y;
+        const aboveB = b.y > point.y;
+        if (aboveA !== aboveB && point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x) {
+            inside = !inside;
+        }
+    }
+    return inside;
+}
+
+function segmentsIntersect(
+    a: THREE.Vector2,
+    b: THREE.Vector2,
+    c: THREE.Vector2,
+    d: THREE.Vector2
+): boolean {
+    const cross = (o: THREE.Vector2, p: THREE.Vector2, q: THREE.Vector2) =>
+        (p.x - o.x) * (q.y - o.y) - (p.y - o.y) * (q.x - o.x);
+    const d1 = cross(c, d, a);
+    const d2 = cross(c, d, b);
+    const d3 = cross(a, b, c);
+    const d4 = cross(a, b, d);
+    return d1 * d2 < 0 && d3 * d4 < 0;
+}
+
+function isRectangle(polygon: THREE.Vector2[]): boolean {
+    return (
+        polygon.length === 4 &&
+        polygon[0].y === polygon[1].y &&
+        polygon[1].x === polygon[2].x &&
+        polygon[2].y === polygon[3].y &&
+        polygon[3].x === polygon[0].x
+    );
+}
+
+/**
+ * Returns the lines of a feature geometry as lists of `[longitude, latitude]` pairs.
+ */
+function getFeatureLines(feature: QueriedFeature): number[][][] {
+    const geometry = feature.geometry;
+    switch (geometry.type) {
+        case "Point":
+            return [[geometry.coordinates]];
+        case "MultiPoint":
+            return geometry.coordinates.map(point => [point]);
+        case "LineString":
+            return [geometry.coordinates];
+        case "MultiLineString":
+        case "Polygon":
+            return geometry.coordinates;
+        case "MultiPolygon":
+            return ([] as number[][][]).concat(...geometry.coordinates);
+    }
+}
+
+/**
+ * Checks if a feature is inside or crosses a screen polygon.
+ */
+function featureIntersectsPolygon(
+    mapView: MapView,
+    feature: QueriedFeature,
+    polygon: THREE.Vector2[]
+): boolean {
+    for (const line of getFeatureLines(feature)) {
+        const screenLine = line.map(([longitude, latitude]) =>
+            mapView.getScreenPosition({ latitude, longitude })
+        );
+        for (let i = 0; i < screenLine.length; i++) {
+            const point = screenLine[i];
+            if (point === undefined) {
+                continue;
+            }
+            if (polygonContainsPoint(polygon, point)) {
+                return true;
+            }
+            const next = screenLine[i + 1];
+            if (next === undefined) {
+                continue;
+            }
+            for (let j = 0, k = polygon.length - 1; j < polygon.length; k = j++) {
+                if (segmentsIntersect(point, next, polygon[k], polygon[j])) {
+                    return true;
+                }
+            }
+        }
+    }
+    // The selection may also be completely inside of an area.
+    if (feature.geometry.type === "Polygon" || feature.geometry.type === "MultiPolygon") {
+        const polygons =
+            feature.geometry.type === "Polygon"
+                ? [feature.geometry.coordinates]
+                : feature.geometry.coordinates;
+        return polygons.some(([outerRing]) => {
+            const screenRing = outerRing.map(([longitude, latitude]) =>
+                mapView.getScreenPosition({ latitude, longitude })
+            );
+            return (
+                screenRing.every(point => point !== undefined) &&
+                polygonContainsPoint(screenRing as THREE.Vector2[], polygon[0])
+            );
+        });
+    }
+    return false;
+}
+
+/**
+ * Computes the features and anchors of a {@link @here/harp-mapview#MapView} inside a screen
+ * polygon.
+ *
+ * @param mapView - The map view to select from.
+ * @param screenPolygon - The selection shape in screen coordinates.
+ * @returns The selection.
+ */
+export function selectInScreenPolygon(mapView: MapView, screenPolygon: THREE.Vector2[]): Selection {
+    const screenBox = new THREE.Box2().setFromPoints(screenPolygon);
+    let features = mapView.queryRenderedFeatures(screenBox);
+    // Query results intersect the bounding box, so only lassos need further checks.
+    if (!isRectangle(screenPolygon)) {
+        features = features.filter(feature =>
+            featureIntersectsPolygon(mapView, feature, screenPolygon)
+        );
+    }
+
+    const anchors = mapView.mapAnchors.children.filter(mapAnchor => {
+        const anchor = mapAnchor.anchor ?? mapAnchor.geoPosition;
+        if (anchor === undefined) {
+            return false;
+        }
+        const screenPos = mapView.getScreenPosition(anchor as THREE.Vector3 | GeoCoordinates);
+        return screenPos !== undefined && polygonContainsPoint(screenPolygon, screenPos);
+    });
+
+    const geoCoordinates: GeoCoordinates[] = [];
+    for (const point of screenPolygon) {
+        const geoPos = mapView.getGeoCoordinatesAt(point.x, point.y);
+        if (geoPos !== null) {
+            geoCoordinates.push(geoPos);
+        }
+    }
+    let geoPolygon: GeoPolygon | undefined;
+    if (geoCoordinates.length >= 3) {
+        // Geo polygons are expected in counter-clockwise order.
+        let area = 0;
+        for (let i = 0, j = geoCoordinates.length - 1; i < geoCoordinates.length; j = i++) {
+            area +=
+                geoCoordinates[j].longitude * geoCoordinates[i].latitude -
+                geoCoordinates[i].longitude * geoCoordinates[j].latitude;
+        }
+        if (area < 0) {
+            geoCoordinates.reverse();
+        }
+        geoPolygon = new GeoPolygon(geoCoordinates as GeoPolygonCoordinates);
+    }
+
+    return { screenPolygon, geoPolygon, features, anchors };
+}
+
+/**
+ * Draws the selection shape in an SVG element on top of the map canvas.
+ *
+ * @remarks
+ * The shape has the class `harp-gl_selection` to customize its style with CSS.
+ *
+ * @internal
+ */
+export class SelectionOverlay {
+    private readonly m_svgElement?: SVGSVGElement;
+    private readonly m_polygonElement?: SVGPolygonElement;
+
+    /**
+     * Creates the overlay, nothing is drawn if the canvas isn't part of a document.
+     *
+     * @param canvas - The map canvas.
+     */
+    constructor(readonly canvas: HTMLCanvasElement) {
+        const parent = canvas.parentElement;
+        if (typeof document === "undefined" || !parent) {
+            return;
+        }
+        this.m_svgElement = document.createElementNS(SVG_NAMESPACE, "svg");
+        const style = this.m_svgElement.style;
+        style.position = "absolute";
+        style.left = `${canvas.offsetLeft}px`;
+        style.top = `${canvas.offsetTop}px`;
+        style.width = `${canvas.clientWidth}px`;
+        style.height = `${canvas.clientHeight}px`;
+        style.pointerEvents = "none";
+
+        this.m_polygonElement = document.createElementNS(SVG_NAMESPACE, "polygon");
+        this.m_polygonElement.setAttribute("class", "harp-gl_selection");
+        this.m_polygonElement.setAttribute("fill", "rgba(51, 136, 255, 0.2)");
+        this.m_polygonElement.setAttribute("stroke", "#3388ff");
+        this.m_polygonElement.setAttribute("stroke-dasharray", "4 2");
+        this.m_svgElement.appendChild(this.m_polygonElement);
+        parent.appendChild(this.m_svgElement);
+    }
+
+    /**
+     * Draws the selection shape.
+     *
+     * @param polygon - The shape in screen coordinates.
+     */
+    update(polygon: THREE.Vector2[]) {
+        this.m_polygonElement?.setAttribute(
+            "points",
+            polygon.map(point => `${point.x},${point.y}`).join(" ")
+        );
+    }
+
+    /**
+     * Removes the overlay from the document.
+     */
+    dispose() {
+        this.m_svgElement?.parentElement?.removeChild(this.m_svgElement);
+    }
+}
@@ -12,7 +12,8 @@ import { expect } from "chai";
 import * as sinon from "sinon";
 import * as THREE from "three";
 
-import { MapControls } from "../lib/MapControls";
+import { EventNames, MapControls, SelectionEvent } from "../lib/MapControls";
+import { SelectionMode } from "../lib/Selection";
 
 declare const global: any;
 
@@ -530,4 +531,88 @@ describe("MapControls", function() {
             });
         }
     });
+
+    describe("selection", function() {
+        let selectListener: sinon.SinonSpy;
+
+        function shiftDrag(...points: Array<[number, number]>) {
+            const [first, ...rest] = points;
+            const event = (x: number, y: number) =>
+                ({
+                    clientX: x,
+                    clientY: y,
+                    button: 0,
+                    shiftKey: true,
+                    preventDefault: sandbox.stub(),
+                    stopPropagation: sandbox.stub()
+                } as any);
+            (mapControls as any).mouseDown(event(...first));
+            for (const point of rest.slice(0, -1)) {
+                (mapControls as any).mouseMove(event(...point));
+            }
+            (mapControls as any).mouseUp(event(...rest[rest.length - 1]));
+        }
+
+        beforeEach(function() {
+            (mapView.queryRenderedFeatures as sinon.SinonStub).returns([]);
+            (mapView.getGeoCoordinatesAt as sinon.SinonStub).callsFake(
+                (x: number, y: number) => new GeoCoordinates(-y, x)
+            );
+            sandbox.stub(mapView, "mapAnchors").get(() => ({ children: [] }));
+            mapControls = new MapControls(mapView);
+            selectListener = sinon.spy();
+            mapControls.addEventListener(EventNames.Select, selectListener);
+        });
+
+        it("ignores shift + drag if selection is disabled", function() {
+            shiftDrag([10, 20], [100, 80]);
+
+            expect(selectListener.called).to.be.false;
+            expect((mapView.queryRenderedFeatures as sinon.SinonStub).called).to.be.false;
+        });
+
+        it("selects with a rectangle", function() {
+            mapControls.selectionMode = SelectionMode.Rectangle;
+            shiftDrag([10, 20], [50, 60], [100, 80]);
+
+            expect(selectListener.calledOnce).to.be.true;
+            const event: SelectionEvent = selectListener.firstCall.args[0];
+            expect(event.screenPolygon.map(p => p.toArray())).to.deep.equal([
+                [10, 20],
+                [100, 20],
+                [100, 80],
+                [10, 80]
+            ]);
+            expect(event.geoPolygon).to.not.be.undefined;
+            expect(event.features).to.be.empty;
+            expect(event.anchors).to.be.empty;
+            expect(
+                (mapView.queryRenderedFeatures as sinon.SinonStub).firstCall.args[0]
+            ).to.deep.equal(new THREE.Box2(new THREE.Vector2(10, 20), new THREE.Vector2(100, 80)));
+            // The camera is not moved while selecting.
+            expect(updateStub.called).to.be.false;
+        });
+
+        it("selects with a lasso", function() {
+            mapControls.selectionMode = SelectionMode.Lasso;
+            shiftDrag([10, 10], [11, 11], [100, 10], [100, 100], [10, 100]);
+
+            expect(selectListener.calledOnce).to.be.true;
+            const event: SelectionEvent = selectListener.firstCall.args[0];
+            // Points closer than a few pixels are skipped.
+            expect(event.screenPolygon.map(p => p.toArray())).to.deep.equal([
+                [10, 10],
+                [100, 10],
+                [100, 100],
+                [10, 100]
+            ]);
+        });
+
+        it("does not select with an empty shape", function() {
+            mapControls.selectionMode = SelectionMode.Rectangle;
+            shiftDrag([10, 20], [10, 80]);
+
+            expect(selectListener.called).to.be.false;
+        });
+    });
 });
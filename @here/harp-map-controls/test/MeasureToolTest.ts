@@ -0,0 +1,191 @@
+/*
+ * Copyright (C) 2017-2020 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+//    Mocha discourages using arrow functions, see https://mochajs.org/#arrow-functions
+
+import {
+    EarthConstants,
+    GeoCoordinates,
+    GeodesicUtils,
+    mercatorProjection,
+    sphereProjection
+} from "@here/harp-geoutils";
+import { MapAnchors, MapView, MapViewEventNames } from "@here/harp-mapview";
+import { expect } from "chai";
+import * as sinon from "sinon";
+import * as THREE from "three";
+
+import { MeasureMode, MeasureTool } from "../lib/MeasureTool";
+
+describe("MeasureTool", function() {
+    const paris = new GeoCoordinates(48.8566, 2.3522);
+    const berlin = new GeoCoordinates(52.52, 13.405);
+    const prague = new GeoCoordinates(50.0755, 14.4378);
+
+    const eventMap: Map<string, (event: any) => void> = new Map();
+    let mapView: MapView;
+    let getGeoCoordinatesAt: sinon.SinonStub;
+    let onUpdate: sinon.SinonSpy;
+    let measureTool: MeasureTool;
+
+    function click(x: number, y: number, moveX: number = 0, moveY: number = 0) {
+        eventMap.get("mousedown")!({ clientX: x, clientY: y, button: 0 });
+        eventMap.get("click")!({ clientX: x + moveX, clientY: y + moveY, button: 0 });
+    }
+
+    function pathPositions(anchor: GeoCoordinates = paris): THREE.Vector3[] {
+        const path = mapView.mapAnchors.children[0] as THREE.Line;
+        const attribute = (path.geometry as THREE.BufferGeometry).getAttribute(
+            "position"
+        ) as THREE.BufferAttribute;
+        const origin = mapView.projection.projectPoint(anchor, new THREE.Vector3());
+        const positions: THREE.Vector3[] = [];
+        for (let i = 0; i < attribute.count; i++) {
+            positions.push(new THREE.Vector3().fromBufferAttribute(attribute, i).add(origin));
+        }
+        return positions;
+    }
+
+    beforeEach(function() {
+        eventMap.clear();
+        getGeoCoordinatesAt = sinon.stub().returns(paris);
+        const canvas = {
+            clientWidth: 800,
+            clientHeight: 600,
+            style: {},
+            addEventListener: (name: string, listener: any) => eventMap.set(name, listener),
+            removeEventListener: (name: string) => eventMap.delete(name),
+            getBoundingClientRect: () => ({ left: 0, top: 0, width: 800, height: 600 })
+        };
+        mapView = ({
+            canvas,
+            projection: mercatorProjection,
+            mapAnchors: new MapAnchors(),
+            getGeoCoordinatesAt,
+            update: sinon.stub(),
+            addEventListener: (name: string, listener: any) => eventMap.set(name, listener),
+            removeEventListener: (name: string) => eventMap.delete(name)
+        } as any) as MapView;
+        onUpdate = sinon.spy();
+        measureTool = new MeasureTool(mapView, { onUpdate });
+    });
+
+    afterEach(function() {
+        measureTool.dispose();
+    });
+
+    it("measures distances and bearings", function() {
+        measureTool.addPoint(paris);
+        measureTool.addPoint(berlin);
+        measureTool.addPoint(prague);
+
+        const result = measureTool.result;
+        expect(result.points).to.have.length(3);
+        expect(result.segmentDistances).to.deep.equal([
+            GeodesicUtils.distance(paris, berlin),
+            GeodesicUtils.distance(berlin, prague)
+        ]);
+        expect(result.distance).to.equal(result.segmentDistances[0] + result.segmentDistances[1]);
+        expect(result.bearing).to.equal(GeodesicUtils.initialBearing(berlin, prague));
+        expect(result.area).to.be.undefined;
+        expect(onUpdate.callCount).to.equal(3);
+        expect(onUpdate.lastCall.args[0]).to.deep.equal(result);
+    });
+
+    it("measures areas and perimeters", function() {
+        measureTool.mode = MeasureMode.Area;
+        measureTool.addPoint(paris);
+        measureTool.addPoint(berlin);
+        expect(measureTool.result.area).to.be.undefined;
+
+        measureTool.addPoint(prague);
+        const result = measureTool.result;
+        expect(result.area).to.equal(GeodesicUtils.polygonArea([paris, berlin, prague]));
+        expect(result.perimeter).to.equal(GeodesicUtils.polygonPerimeter([paris, berlin, prague]));
+    });
+
+    it("removes points", function() {
+        measureTool.addPoint(paris);
+        measureTool.addPoint(berlin);
+
+        measureTool.removeLastPoint();
+        expect(measureTool.points).to.have.length(1);
+        expect(measureTool.result.distance).to.equal(0);
+        expect(measureTool.result.bearing).to.be.undefined;
+
+        measureTool.clear();
+        expect(measureTool.points).to.be.empty;
+    });
+
+    it("adds points on clicks while enabled", function() {
+        measureTool.enable();
+        click(100, 200);
+
+        expect(getGeoCoordinatesAt.calledOnceWith(100, 200)).to.be.true;
+        expect(measureTool.points).to.have.length(1);
+
+        // Pans don't add points.
+        click(100, 200, 20, 0);
+        expect(measureTool.points).to.have.length(1);
+
+        eventMap.get("contextmenu")!({ preventDefault: sinon.stub() });
+        expect(measureTool.points).to.be.empty;
+
+        measureTool.disable();
+        expect(eventMap.has("click")).to.be.false;
+        expect(eventMap.has(MapViewEventNames.Render)).to.be.false;
+    });
+
+    it("draws the path with map anchors only while enabled", function() {
+        measureTool.addPoint(paris);
+        measureTool.addPoint(berlin);
+        expect(mapView.mapAnchors.children).to.be.empty;
+
+        measureTool.enable();
+        expect(mapView.mapAnchors.children).to.have.length(2);
+        expect(mapView.mapAnchors.children[0].anchor).to.equal(measureTool.points[0]);
+
+        measureTool.disable();
+        expect(mapView.mapAnchors.children).to.be.empty;
+    });
+
+    it("draws great-circle paths in mercator projection", function() {
+        measureTool.enable();
+        measureTool.addPoint(paris);
+        measureTool.addPoint(berlin);
+
+        const positions = pathPositions();
+        expect(positions.length).to.be.greaterThan(2);
+        const start = mercatorProjection.unprojectPoint(positions[0]);
+        const end = mercatorProjection.unprojectPoint(positions[positions.length - 1]);
+        expect(start.latitude).to.be.closeTo(paris.latitude, 1e-4);
+        expect(end.longitude).to.be.closeTo(berlin.longitude, 1e-4);
+    });
+
+    it("draws continuous paths across the antimeridian", function() {
+        const start = new GeoCoordinates(0, 179);
+        measureTool.enable();
+        measureTool.addPoint(start);
+        measureTool.addPoint(new GeoCoordinates(0, -179));
+
+        const positions = pathPositions(start);
+        const last = mercatorProjection.unprojectPoint(positions[positions.length - 1]);
+        expect(last.longitude).to.be.closeTo(181, 1e-4);
+    });
+
+    it("redraws the path on the globe when the projection changes", function() {
+        measureTool.enable();
+        measureTool.addPoint(paris);
+        measureTool.addPoint(berlin);
+
+        mapView.projection = sphereProjection;
+        eventMap.get(MapViewEventNames.Render)!({ type: MapViewEventNames.Render });
+
+        for (const position of pathPositions()) {
+            expect(position.length()).to.be.closeTo(EarthConstants.EQUATORIAL_RADIUS, 1);
+        }
+    });
+});
@@ -0,0 +1,133 @@
+/*
+ * Copyright (C) 2017-2020 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+//    Mocha discourages using arrow functions, see https://mochajs.org/#arrow-functions
+
+import { GeoCoordinates } from "@here/harp-geoutils";
+import { MapAnchor, MapView, QueriedFeature } from "@here/harp-mapview";
+import { expect } from "chai";
+import * as THREE from "three";
+
+import { selectInScreenPolygon } from "../lib/Selection";
+
+function createFeature(id: string, geometry: QueriedFeature["geometry"]): QueriedFeature {
+    return { type: "Feature", id, geometry, properties: {} } as QueriedFeature;
+}
+
+describe("selectInScreenPolygon", function() {
+    // Screen positions are 10 pixels per degree, y pointing south.
+    const toScreen = (pos: any) =>
+        pos.latitude === undefined
+            ? undefined
+            : new THREE.Vector2(pos.longitude * 10, -pos.latitude * 10);
+    // A triangular lasso.
+    const lasso = [new THREE.Vector2(0, 0), new THREE.Vector2(100, 0), new THREE.Vector2(0, 100)];
+    let features: QueriedFeature[];
+    let anchors: MapAnchor[];
+    let mapView: MapView;
+
+    beforeEach(function() {
+        features = [];
+        anchors = [];
+        mapView = ({
+            queryRenderedFeatures: () => features,
+            getScreenPosition: toScreen,
+            getGeoCoordinatesAt: (x: number, y: number) =>
+                y > 50 ? null : new GeoCoordinates(-y / 10, x / 10),
+            mapAnchors: { children: anchors }
+        } as any) as MapView;
+    });
+
+    it("keeps features inside or crossing the lasso", function() {
+        features.push(
+            createFeature("inside", { type: "Point", coordinates: [2, -2] }),
+            createFeature("outside", { type: "Point", coordinates: [8, -8] }),
+            createFeature("crossing", {
+                type: "LineString",
+                coordinates: [
+                    [-2, -2],
+                    [2, -12]
+                ]
+            }),
+            createFeature("around", {
+                type: "Polygon",
+                coordinates: [
+                    [
+                        [-5, 5],
+                        [20, 5],
+                        [-5, -20],
+                        [-5, 5]
+                    ]
+                ]
+            })
+        );
+
+        const selection = selectInScreenPolygon(mapView, lasso);
+
+        expect(selection.features.map(feature => feature.id)).to.deep.equal([
+            "inside",
+            "crossing",
+            "around"
+        ]);
+    });
+
+    it("keeps all features queried with a rectangle", function() {
+        features.push(createFeature("corner", { type: "Point", coordinates: [9, -9] }));
+
+        const selection = selectInScreenPolygon(mapView, [
+            new THREE.Vector2(0, 0),
+            new THREE.Vector2(100, 0),
+            new THREE.Vector2(100, 100),
+            new THREE.Vector2(0, 100)
+        ]);
+
+        expect(selection.features).to.have.length(1);
+    });
+
+    it("selects anchors inside the lasso", function() {
+        const inside = new THREE.Object3D() as MapAnchor;
+        inside.anchor = new GeoCoordinates(-1, 1);
+        const outside = new THREE.Object3D() as MapAnchor;
+        outside.anchor = new GeoCoordinates(-9, 9);
+        const notAnchored = new THREE.Object3D() as MapAnchor;
+        anchors.push(inside, outside, notAnchored);
+
+        const selection = selectInScreenPolygon(mapView, lasso);
+
+        expect(selection.anchors).to.deep.equal([inside]);
+    });
+
+    it("converts the lasso to a counter-clockwise geo polygon", function() {
+        const selection = selectInScreenPolygon(mapView, [
+            new THREE.Vector2(0, 0),
+            new THREE.Vector2(50, 0),
+            new THREE.Vector2(0, 50),
+            // Not on the map.
+            new THREE.Vector2(0, 80)
+        ]);
+
+        expect(selection.screenPolygon).to.have.length(4);
+        const coordinates = selection.geoPolygon!.coordinates;
+        expect(coordinates).to.have.length(3);
+        let area = 0;
+        for (let i = 0, j = coordinates.length - 1; i < coordinates.length; j = i++) {
+            area +=
+                coordinates[j].longitude * coordinates[i].latitude -
+                coordinates[i].longitude * coordinates[j].latitude;
+        }
+        expect(area).to.be.greaterThan(0);
+    });
+
+    it("has no geo polygon if the selection is not on the map", function() {
+        const selection = selectInScreenPolygon(mapView, [
+            new THREE.Vector2(0, 60),
+            new THREE.Vector2(50, 60),
+            new THREE.Vector2(0, 90)
+        ]);
+
+        expect(selection.geoPolygon).to.be.undefined;
+    });
+});
@@ -7,6 +7,7 @@
 export * from "./lib/ThemedTileDecoder";
 export * from "./lib/TileDecoderService";
 export * from "./lib/TilerService";
+export * from "./lib/GlyphGeneratorService";
 export * from "./lib/WorkerService";
 export * from "./lib/WorkerServiceManager";
 export * from "./lib/GeoJsonTiler";
@@ -7,6 +7,7 @@
 import "@here/harp-fetch";
 
 import { TileKey } from "@here/harp-geoutils";
+import { TileSourceMetadata } from "@here/harp-mapview";
 import { EventDispatcher } from "three";
 
 /**
@@ -53,14 +54,31 @@ export abstract class DataProvider extends EventDispatcher {
      *
      * @param tileKey - Address of a tile.
      * @param abortSignal - Optional AbortSignal to cancel the request.
+     * @param time - Optional time of the data in milliseconds since the Unix epoch, for providers
+     * of data with a time dimension, see {@link @here/harp-mapview#DataSource.time}.
      * @returns A promise delivering the data as an [[ArrayBufferLike]], or any object.
      */
-    abstract getTile(tileKey: TileKey, abortSignal?: AbortSignal): Promise<ArrayBufferLike | {}>;
+    abstract getTile(
+        tileKey: TileKey,
+        abortSignal?: AbortSignal,
+        time?: number
+    ): Promise<ArrayBufferLike | {}>;
+
+    /**
+     * Gets the metadata of the provided tiles, like their zoom range and copyrights.
+     *
+     * @remarks
+     * Called by the [[TileDataSource]] after the provider has been connected, to apply the
+     * metadata to the data source.
+     */
+    getMetadata?(): TileSourceMetadata | undefined;
 
     /**
      * An event which fires when this `DataProvider` is invalidated.
      *
-     * @param listener - A function to call when this `DataProvider` is invalidated.
+     * @param listener - A function to call when this `DataProvider` is invalidated, with the
+     * keys of the changed tiles if only some of them changed. Tiles with one of these keys, or with
+     * an ancestor or descendant key, must be requested again.
      * @returns The function to call to unregister the listener from this event.
      *
      * @example
@@ -70,7 +88,7 @@ export abstract class DataProvider extends EventDispatcher {
      * });
      * ```
      */
-    onDidInvalidate?(listener: () => void): () => void;
+    onDidInvalidate?(listener: (tileKeys?: TileKey[]) => void): () => void;
 
     /**
      * Connect to the data source. Returns a promise to wait for successful (or failed) connection.
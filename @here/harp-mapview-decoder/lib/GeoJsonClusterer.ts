@@ -0,0 +1,454 @@
+/*
+ * Copyright (C) 2017-2020 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+    ClusteringOptions,
+    ClusterPropertyReducer,
+    Expr,
+    Feature,
+    FeatureGeometry,
+    GeometryCollection,
+    MapEnv
+} from "@here/harp-datasource-protocol";
+
+const DEFAULT_RADIUS = 50;
+const DEFAULT_MAX_ZOOM = 16;
+const DEFAULT_MIN_POINTS = 2;
+
+/**
+ * Size of the tiles in pixels the cluster radius refers to.
+ */
+const TILE_SIZE = 512;
+
+/**
+ * Geometry type of points in the VT-json tile format.
+ */
+const VT_JSON_POINT = 1;
+
+/**
+ * Accumulated value of an aggregated cluster property.
+ */
+interface Accumulator {
+    value: number;
+    count: number;
+}
+
+/**
+ * A point or a cluster at a level.
+ */
+interface ClusterItem {
+    /**
+     * Web Mercator coordinates normalized to [0, 1], y pointing south.
+     */
+    x: number;
+    y: number;
+
+    /**
+     * Index of the feature of `Point` features, unique point id of `MultiPoint` positions and
+     * cluster id of clusters.
+     */
+    id: number;
+
+    numPoints: number;
+    accumulators: { [name: string]: Accumulator };
+
+    /**
+     * Index of the feature of points.
+     */
+    featureIndex?: number;
+
+    /**
+     * Index of the position of points of `MultiPoint` features.
+     */
+    pointIndex?: number;
+}
+
+/**
+ * A cluster with the items of the next level it consists of.
+ */
+interface Cluster {
+    item: ClusterItem;
+    level: number;
+    children: ClusterItem[];
+}
+
+/**
+ * Clusters the points of a GeoJSON feature collection for each tile level.
+ *
+ * @remarks
+ * At each level, starting from the maximum clustering level, the points and clusters of the next
+ * level within the cluster radius of each other are merged into a cluster placed at their center
+ * of mass. The points and clusters of a level are returned as features in the VT-json format
+ * created by `geojson-vt`.
+ */
+export class GeoJsonClusterer {
+    private readonly m_radius: number;
+    private readonly m_maxZoom: number;
+    private readonly m_minPoints: number;
+    private readonly m_reducers: Array<{
+        name: string;
+        reducer: ClusterPropertyReducer;
+        value: Expr;
+    }> = [];
+
+    /**
+     * Items of each level, sorted by x coordinate.
+     */
+    private readonly m_levels: ClusterItem[][] = [];
+    private readonly m_clusters = new Map<number, Cluster>();
+
+    /**
+     * Next id of `MultiPoint` positions and clusters, following the feature indices.
+     */
+    private m_nextId: number;
+
+    /**
+     * Clusters the point features of a feature collection.
+     *
+     * @param m_features - The features of the collection. Only `Point` and `MultiPoint` features
+     * are clustered, all other features are ignored.
+     * @param options - Clustering options.
+     */
+    constructor(private readonly m_features: Feature[], options: ClusteringOptions) {
+        this.m_nextId = m_features.length;
+        this.m_radius = options.radius ?? DEFAULT_RADIUS;
+        this.m_maxZoom = options.maxZoom ?? DEFAULT_MAX_ZOOM;
+        this.m_minPoints = options.minPoints ?? DEFAULT_MIN_POINTS;
+        for (const name in options.properties) {
+            if (!options.properties.hasOwnProperty(name)) {
+                continue;
+            }
+            const { reducer, value } = options.properties[name];
+            this.m_reducers.push({ name, reducer, value: Expr.fromJSON(value) });
+        }
+
+        let items = this.createPointItems();
+        this.m_levels[this.m_maxZoom + 1] = sortByX(items);
+        for (let level = this.m_maxZoom; level >= 0; level--) {
+            items = this.cluster(items, level);
+            this.m_levels[level] = sortByX(items);
+        }
+    }
+
+    /**
+     * Checks if a point feature is clustered.
+     *
+     * @param feature - A feature of the collection.
+     */
+    static isClusteredFeature(feature: Feature): boolean {
+        return feature.geometry?.type === "Point" || feature.geometry?.type === "MultiPoint";
+    }
+
+    /**
+     * Gets the points and clusters in a tile.
+     *
+     * @param level - Level of the tile.
+     * @param column - Column of the tile.
+     * @param row - Row of the tile, counted from the north.
+     * @param extent - The extent of the tile coordinates.
+     * @param buffer - The buffer around the tile in tile coordinates.
+     * @returns The points and clusters as VT-json features.
+     */
+    getTileFeatures(
+        level: number,
+        column: number,
+        row: number,
+        extent: number,
+        buffer: number
+    ): any[] {
+        const items = this.m_levels[Math.min(level, this.m_maxZoom + 1)];
+        const scale = Math.pow(2, level);
+        const margin = buffer / extent;
+        const minX = (column - margin) / scale;
+        const maxX = (column + 1 + margin) / scale;
+        const minY = (row - margin) / scale;
+        const maxY = (row + 1 + margin) / scale;
+
+        const features: any[] = [];
+        for (let i = lowerBoundX(items, minX); i < items.length && items[i].x <= maxX; i++) {
+            const item = items[i];
+            if (item.y < minY || item.y > maxY) {
+                continue;
+            }
+            features.push({
+                type: VT_JSON_POINT,
+                id: this.getFeatureId(item),
+                geometry: [
+                    [
+                        Math.round((item.x * scale - column) * extent),
+                        Math.round((item.y * scale - row) * extent)
+                    ]
+                ],
+                tags: this.getProperties(item),
+                originalGeometry: this.getGeometry(item)
+            });
+        }
+        return features;
+    }
+
+    /**
+     * Gets the points and clusters a cluster consists of at the next level.
+     *
+     * @param clusterId - The id of the cluster.
+     * @returns The children as GeoJSON features.
+     */
+    getChildren(clusterId: number): Feature[] {
+        const cluster = this.getCluster(clusterId);
+        return cluster.children.map(item => ({
+            type: "Feature",
+            id: String(this.getFeatureId(item)),
+            geometry: this.getGeometry(item),
+            properties: this.getProperties(item)
+        }));
+    }
+
+    /**
+     * Gets the level at which a cluster splits into its children.
+     *
+     * @param clusterId - The id of the cluster.
+     */
+    getExpansionZoom(clusterId: number): number {
+        return this.getCluster(clusterId).level + 1;
+    }
+
+    private getCluster(clusterId: number): Cluster {
+        const cluster = this.m_clusters.get(clusterId);
+        if (cluster === undefined) {
+            throw new Error(`No cluster with the id ${clusterId}`);
+        }
+        return cluster;
+    }
+
+    private createPointItems(): ClusterItem[] {
+        const items: ClusterItem[] = [];
+        this.m_features.forEach((feature, featureIndex) => {
+            if (!GeoJsonClusterer.isClusteredFeature(feature)) {
+                return;
+            }
+            const geometry = feature.geometry as FeatureGeometry;
+            const accumulators = this.createAccumulators(feature);
+            if (geometry.type === "Point") {
+                const [longitude, latitude] = geometry.coordinates;
+                items.push({
+                    x: longitude / 360 + 0.5,
+                    y: projectLatitude(latitude),
+                    id: featureIndex,
+                    numPoints: 1,
+                    accumulators,
+                    featureIndex
+                });
+                return;
+            }
+            // Each position of a MultiPoint is a separate point with its own id.
+            (geometry.coordinates as number[][]).forEach(([longitude, latitude], pointIndex) => {
+                items.push({
+                    x: longitude / 360 + 0.5,
+                    y: projectLatitude(latitude),
+                    id: this.m_nextId++,
+                    numPoints: 1,
+                    accumulators,
+                    featureIndex,
+                    pointIndex
+                });
+            });
+        });
+        return items;
+    }
+
+    private createAccumulators(feature: Feature): { [name: string]: Accumulator } {
+        const accumulators: { [name: string]: Accumulator } = {};
+        if (this.m_reducers.length === 0) {
+            return accumulators;
+        }
+        const env = new MapEnv(feature.properties ?? {});
+        for (const { name, value } of this.m_reducers) {
+            const result = value.evaluate(env);
+            accumulators[name] =
+                typeof result === "number" ? { value: result, count: 1 } : { value: 0, count: 0 };
+        }
+        return accumulators;
+    }
+
+    private cluster(items: ClusterItem[], level: number): ClusterItem[] {
+        const radius = this.m_radius / (TILE_SIZE * Math.pow(2, level));
+        const grid = new Map<string, ClusterItem[]>();
+        const cellKey = (x: number, y: number) =>
+            `${Math.floor(x / radius)},${Math.floor(y / radius)}`;
+        for (const item of items) {
+            const key = cellKey(item.x, item.y);
+            const cell = grid.get(key);
+            if (cell === undefined) {
+                grid.set(key, [item]);
+            } else {
+                cell.push(item);
+            }
+        }
+
+        const processed = new Set<ClusterItem>();
+        const result: ClusterItem[] = [];
+        for (const item of items) {
+            if (processed.has(item)) {
+                continue;
+            }
+            processed.add(item);
+
+            const neighbors: ClusterItem[] = [];
+            const cellX = Math.floor(item.x / radius);
+            const cellY = Math.floor(item.y / radius);
+            for (let dx = -1; dx <= 1; dx++) {
+                for (let dy = -1; dy <= 1; dy++) {
+                    for (const other of grid.get(`${cellX + dx},${cellY + dy}`) ?? []) {
+                        const distanceX = other.x - item.x;
+                        const distanceY = other.y - item.y;
+                        if (
+                            !processed.has(other) &&
+                            distanceX * distanceX + distanceY * distanceY <= radius * radius
+                        ) {
+                            neighbors.push(other);
+                        }
+                    }
+                }
+            }
+            neighbors.forEach(neighbor => processed.add(neighbor));
+
+            const children = [item, ...neighbors];
+            const numPoints = children.reduce((sum, child) => sum + child.numPoints, 0);
+            if (neighbors.length === 0 || numPoints < this.m_minPoints) {
+                result.push(...children);
+                continue;
+            }
+
+            let x = 0;
+            let y = 0;
+            for (const child of children) {
+                x += child.x * child.numPoints;
+                y += child.y * child.numPoints;
+            }
+            const cluster: ClusterItem = {
+                x: x / numPoints,
+                y: y / numPoints,
+                id: this.m_nextId++,
+                numPoints,
+                accumulators: this.reduce(children)
+            };
+            this.m_clusters.set(cluster.id, { item: cluster, level, children });
+            result.push(cluster);
+        }
+        return result;
+    }
+
+    private reduce(children: ClusterItem[]): { [name: string]: Accumulator } {
+        const accumulators: { [name: string]: Accumulator } = {};
+        for (const { name, reducer } of this.m_reducers) {
+            let value: number | undefined;
+            let count = 0;
+            for (const child of children) {
+                const accumulator = child.accumulators[name];
+                if (accumulator.count === 0) {
+                    continue;
+                }
+                count += accumulator.count;
+                if (value === undefined) {
+                    value = accumulator.value;
+                } else if (reducer === "min") {
+                    value = Math.min(value, accumulator.value);
+                } else if (reducer === "max") {
+                    value = Math.max(value, accumulator.value);
+                } else {
+                    // The sum of the values is accumulated for the mean as well.
+                    value += accumulator.value;
+                }
+            }
+            accumulators[name] = { value: value ?? 0, count };
+        }
+        return accumulators;
+    }
+
+    private getProperties(item: ClusterItem): { [name: string]: any } {
+        if (item.featureIndex !== undefined) {
+            return this.m_features[item.featureIndex].properties ?? {};
+        }
+        const properties: { [name: string]: any } = {
+            cluster: true,
+            cluster_id: item.id,
+            point_count: item.numPoints,
+            point_count_abbreviated: abbreviate(item.numPoints)
+        };
+        for (const { name, reducer } of this.m_reducers) {
+            const { value, count } = item.accumulators[name];
+            if (count > 0) {
+                properties[name] = reducer === "mean" ? value / count : value;
+            }
+        }
+        return properties;
+    }
+
+    /**
+     * Gets the id of the feature of an item, the id of the source feature for `Point` features
+     * that have one, the internal id of the item otherwise.
+     */
+    private getFeatureId(item: ClusterItem): number | string {
+        if (item.featureIndex !== undefined && item.pointIndex === undefined) {
+            return this.m_features[item.featureIndex].id ?? item.id;
+        }
+        return item.id;
+    }
+
+    private getGeometry(item: ClusterItem): FeatureGeometry | GeometryCollection {
+        if (item.featureIndex !== undefined) {
+            const geometry = this.m_features[item.featureIndex].geometry;
+            if (item.pointIndex !== undefined && geometry.type === "MultiPoint") {
+                return { type: "Point", coordinates: geometry.coordinates[item.pointIndex] };
+            }
+            return geometry;
+        }
+        return { type: "Point", coordinates: [(item.x - 0.5) * 360, unprojectLatitude(item.y)] };
+    }
+}
+
+function sortByX(items: ClusterItem[]): ClusterItem[] {
+    return items.slice().sort((a, b) => a.x - b.x);
+}
+
+/**
+ * Index of the first item with an x coordinate not less than the given one.
+ */
+function lowerBoundX(items: ClusterItem[], x: number): number {
+    let low = 0;
+    let high = items.length;
+    while (low < high) {
+        const middle = (low + high) >> 1;
+        if (items[middle].x < x) {
+            low = middle + 1;
+        } else {
+            high = middle;
+        }
+    }
+    return low;
+}
+
+function projectLatitude(latitude: number): number {
+    const sin = Math.sin((latitude * Math.PI) / 180);
+    const y = 0.5 - (0.25 * Math.log((1 + sin) / (1 - sin))) / Math.PI;
+    return Math.min(Math.max(y, 0), 1);
+}
+
+function unprojectLatitude(y: number): number {
+    return (Math.atan(Math.sinh((0.5 - y) * 2 * Math.PI)) * 180) / Math.PI;
+}
+
+function abbreviate(count: number): string {
+    if (count >= 1000000) {
+        return `${Math.round(count / 100000) / 10}M`;
+    }
+    if (count >= 10000) {
+        return `${Math.round(count / 1000)}k`;
+    }
+    if (count >= 1000) {
+        return `${Math.round(count / 100) / 10}k`;
+    }
+    return String(count);
+}
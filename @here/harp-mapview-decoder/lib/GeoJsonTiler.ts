@@ -4,25 +4,78 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import { GeoJson, ITiler } from "@here/harp-datasource-protocol";
-import { TileKey } from "@here/harp-geoutils";
+import {
+    Feature,
+    FeatureCollection,
+    FeatureGeometry,
+    GeoJson,
+    GeometryCollection,
+    ITiler,
+    TilerFeatureChanges,
+    TilerIndexOptions
+} from "@here/harp-datasource-protocol";
+import {
+    GeoBox,
+    GeoCoordinates,
+    TileKey,
+    TileKeyUtils,
+    webMercatorTilingScheme
+} from "@here/harp-geoutils";
 // @ts-ignore
 import * as geojsonvtExport from "geojson-vt";
 
+import { GeoJsonClusterer } from "./GeoJsonClusterer";
+
 // to be able to run tests on nodejs
 const geojsonvt = geojsonvtExport.default ?? geojsonvtExport;
 
-const EXTENT = 4096;
+const DEFAULT_EXTENT = 4096;
 
 // the factor used to compute the size of the buffer.
 const BUFFER_FACTOR = 0.05;
 
-// align the buffer to the next integer multiple of 2.
-const BUFFER = -(-Math.ceil(EXTENT * BUFFER_FACTOR) & -2);
+// max zoom to preserve detail on.
+const MAX_ZOOM = 20;
+
+/**
+ * Maximal ratio of changed features to all features of an index, above which all features are
+ * tiled again instead of only the changed ones.
+ */
+const MAX_CHANGED_FEATURES_RATIO = 0.25;
 
 interface GeoJsonVtIndex {
     geojson: GeoJson;
-    getTile(level: number, column: number, row: number): any;
+    options: TilerIndexOptions;
+    extent: number;
+    buffer: number;
+
+    /**
+     * The geojson-vt index of all features, except the ones changed since its creation.
+     */
+    tileIndex: any;
+
+    /**
+     * The geojson-vt index of the features changed since the creation of `tileIndex`.
+     */
+    changesIndex?: any;
+
+    /**
+     * The features of a feature collection, indexed by the ids of their tiled features. Removed
+     * features leave holes.
+     */
+    features?: Feature[];
+
+    /**
+     * The ids of the tiled features by GeoJSON feature id.
+     */
+    featureIds?: Map<string | number, number>;
+
+    /**
+     * The ids of the tiled features changed since the creation of `tileIndex`.
+     */
+    changedIds: Set<number>;
+
+    clusterer?: GeoJsonClusterer;
 }
 
 export class GeoJsonTiler implements ITiler {
@@ -40,14 +93,22 @@ export class GeoJsonTiler implements ITiler {
         return await Promise.resolve();
     }
 
-    async registerIndex(indexId: string, input: URL | GeoJson): Promise<void> {
+    async registerIndex(
+        indexId: string,
+        input: URL | GeoJson,
+        options?: TilerIndexOptions
+    ): Promise<void> {
         if (this.indexes.has(indexId)) {
             return;
         }
-        return await this.updateIndex(indexId, input);
+        return await this.updateIndex(indexId, input, options);
     }
 
-    async updateIndex(indexId: string, input: URL | GeoJson): Promise<void> {
+    async updateIndex(
+        indexId: string,
+        input: URL | GeoJson,
+        options: TilerIndexOptions = {}
+    ): Promise<void> {
         if (input instanceof URL) {
             const response = await fetch(input.href);
             if (!response.ok) {
@@ -60,39 +121,269 @@ export class GeoJsonTiler implements ITiler {
             input = input as GeoJson;
         }
 
-        const index = geojsonvt(input, {
-            maxZoom: 20, // max zoom to preserve detail on
-            indexMaxZoom: 5, // max zoom in the tile index
-            indexMaxPoints: 100000, // max number of points per tile in the tile index
-            tolerance: 3, // simplification tolerance (higher means simpler)
-            extent: EXTENT, // tile extent
-            buffer: BUFFER, // tile buffer on each side
-            lineMetrics: false, // whether to calculate line metrics
-            promoteId: null, // name of a feature property to be promoted to feature.id
-            generateId: true, // whether to generate feature ids. Cannot be used with promoteId
-            debug: 0 // logging level (0, 1 or 2)
-        });
-        index.geojson = input;
+        const geojson = input as GeoJson;
+        const extent = options.extent ?? DEFAULT_EXTENT;
+        const index: GeoJsonVtIndex = {
+            geojson,
+            options,
+            extent,
+            // align the buffer to the next integer multiple of 2.
+            buffer: options.buffer ?? -(-Math.ceil(extent * BUFFER_FACTOR) & -2),
+            tileIndex: undefined,
+            changedIds: new Set()
+        };
+        if (geojson.type === "FeatureCollection") {
+            index.features = geojson.features.slice();
+            index.featureIds = new Map();
+            index.features.forEach((feature, id) => {
+                if (feature.id !== undefined) {
+                    index.featureIds!.set(feature.id, id);
+                }
+            });
+        }
+        this.tileAllFeatures(index);
 
         this.indexes.set(indexId, index);
     }
 
+    async updateFeatures(indexId: string, changes: TilerFeatureChanges): Promise<TileKey[]> {
+        const index = this.getIndex(indexId);
+        const { features, featureIds, changedIds } = index;
+        if (features === undefined || featureIds === undefined) {
+            throw new Error(`GeoJsonTiler: Index ${indexId} is not a feature collection`);
+        }
+
+        const changedGeometries: Array<FeatureGeometry | GeometryCollection> = [];
+        const removeFeature = (id: number) => {
+            const feature = features[id];
+            if (feature !== undefined) {
+                changedGeometries.push(feature.geometry);
+                delete features[id];
+                changedIds.add(id);
+            }
+        };
+        for (const featureId of changes.remove ?? []) {
+            const id = featureIds.get(featureId);
+            if (id !== undefined) {
+                removeFeature(id);
+                featureIds.delete(featureId);
+            }
+        }
+        for (const feature of [...(changes.add ?? []), ...(changes.update ?? [])]) {
+            let id = feature.id !== undefined ? featureIds.get(feature.id) : undefined;
+            if (id !== undefined) {
+                removeFeature(id);
+            } else {
+                id = features.length;
+                if (feature.id !== undefined) {
+                    featureIds.set(feature.id, id);
+                }
+            }
+            features[id] = feature;
+            changedGeometries.push(feature.geometry);
+            changedIds.add(id);
+        }
+
+        // Clusters may change anywhere, all tiles are invalidated if clustered points change.
+        const clustersChanged =
+            index.options.clustering !== undefined &&
+            changedGeometries.some(geometry =>
+                GeoJsonClusterer.isClusteredFeature({ type: "Feature", geometry })
+            );
+        if (changedIds.size > features.length * MAX_CHANGED_FEATURES_RATIO) {
+            this.tileAllFeatures(index);
+        } else {
+            index.changesIndex = this.createTileIndex(index, this.getTiledFeatures(index, true));
+            if (clustersChanged) {
+                index.clusterer = new GeoJsonClusterer(features, index.options.clustering!);
+            }
+        }
+
+        return clustersChanged
+            ? [TileKey.fromRowColumnLevel(0, 0, 0)]
+            : this.getChangedTileKeys(index, changedGeometries);
+    }
+
     async getTile(indexId: string, tileKey: TileKey): Promise<{}> {
         const index = this.indexes.get(indexId);
         if (index === undefined) {
             throw new Error("Tile not found");
         }
-        const tile = index.getTile(tileKey.level, tileKey.column, tileKey.row);
+        let tile = index.tileIndex.getTile(tileKey.level, tileKey.column, tileKey.row);
+        if (index.changedIds.size > 0) {
+            // Tiles are cached by geojson-vt, so they are copied instead of modified.
+            const changesTile =
+                index.changesIndex?.getTile(tileKey.level, tileKey.column, tileKey.row) ?? null;
+            if (tile !== null || changesTile !== null) {
+                tile = {
+                    ...(tile ?? changesTile),
+                    features: [
+                        ...(tile?.features.filter(
+                            (feature: any) => !index.changedIds.has(feature.id)
+                        ) ?? []),
+                        ...(changesTile?.features ?? [])
+                    ]
+                };
+            }
+        }
         if (tile !== null) {
             tile.layer = indexId;
+            tile.extent = index.extent;
             for (const feature of tile.features) {
-                feature.originalGeometry = this.getOriginalGeometry(feature, index.geojson);
+                feature.originalGeometry = this.getOriginalGeometry(feature, index);
+            }
+        }
+        if (index.clusterer !== undefined) {
+            const clusterFeatures = index.clusterer.getTileFeatures(
+                tileKey.level,
+                tileKey.column,
+                tileKey.row,
+                index.extent,
+                index.buffer
+            );
+            if (clusterFeatures.length > 0) {
+                tile = {
+                    ...(tile ?? {
+                        source: [],
+                        x: tileKey.column,
+                        y: tileKey.row,
+                        z: tileKey.level
+                    }),
+                    layer: indexId,
+                    extent: index.extent,
+                    features: [...(tile?.features ?? []), ...clusterFeatures]
+                };
             }
         }
         return tile || {};
     }
 
-    private getOriginalGeometry(feature: any, geojson: GeoJson): any {
+    async getClusterChildren(indexId: string, clusterId: number): Promise<Feature[]> {
+        return this.getClusterer(indexId).getChildren(clusterId);
+    }
+
+    async getClusterExpansionZoom(indexId: string, clusterId: number): Promise<number> {
+        return this.getClusterer(indexId).getExpansionZoom(clusterId);
+    }
+
+    private getIndex(indexId: string): GeoJsonVtIndex {
+        const index = this.indexes.get(indexId);
+        if (index === undefined) {
+            throw new Error(`GeoJsonTiler: Index ${indexId} not found`);
+        }
+        return index;
+    }
+
+    private getClusterer(indexId: string): GeoJsonClusterer {
+        const clusterer = this.indexes.get(indexId)?.clusterer;
+        if (clusterer === undefined) {
+            throw new Error(`GeoJsonTiler: Index ${indexId} is not clustered`);
+        }
+        return clusterer;
+    }
+
+    /**
+     * Tiles all features of an index from scratch.
+     */
+    private tileAllFeatures(index: GeoJsonVtIndex) {
+        index.changedIds.clear();
+        index.changesIndex = undefined;
+        const { features, options } = index;
+        if (features === undefined) {
+            index.tileIndex = this.createTileIndex(index, index.geojson);
+            return;
+        }
+        // Clustered points are tiled by the clusterer.
+        index.clusterer =
+            options.clustering !== undefined
+                ? new GeoJsonClusterer(features, options.clustering)
+                : undefined;
+        index.tileIndex = this.createTileIndex(index, this.getTiledFeatures(index, false));
+    }
+
+    /**
+     * Gets the input of geojson-vt for the features of a feature collection, using their indices
+     * in `index.features` as ids.
+     *
+     * @param index - The index of the feature collection.
+     * @param changed - `true` to get only the features changed since `index.tileIndex` was
+     * created.
+     */
+    private getTiledFeatures(index: GeoJsonVtIndex, changed: boolean): FeatureCollection {
+        const features = index.features!;
+        const tiledFeatures: Feature[] = [];
+        const addFeature = (feature: Feature, id: number) => {
+            if (index.clusterer === undefined || !GeoJsonClusterer.isClusteredFeature(feature)) {
+                tiledFeatures.push({ ...feature, id: id as any });
+            }
+        };
+        if (changed) {
+            for (const id of index.changedIds) {
+                if (features[id] !== undefined) {
+                    addFeature(features[id], id);
+                }
+            }
+        } else {
+            features.forEach(addFeature);
+        }
+        return { type: "FeatureCollection", features: tiledFeatures };
+    }
+
+    private createTileIndex(index: GeoJsonVtIndex, input: GeoJson): any {
+        const { options } = index;
+        return geojsonvt(input, {
+            maxZoom: MAX_ZOOM, // max zoom to preserve detail on
+            indexMaxZoom: options.indexMaxZoom ?? 5, // max zoom in the tile index
+            indexMaxPoints: 100000, // max number of points per tile in the tile index
+            tolerance: options.tolerance ?? 3, // simplification tolerance (higher means simpler)
+            extent: index.extent, // tile extent
+            buffer: index.buffer, // tile buffer on each side
+            lineMetrics: false, // whether to calculate line metrics
+            promoteId: null, // name of a feature property to be promoted to feature.id
+            // whether to generate feature ids, feature collections have ids set from their indices.
+            generateId: index.features === undefined,
+            debug: 0 // logging level (0, 1 or 2)
+        });
+    }
+
+    /**
+     * Gets the keys of the tiles containing changed geometries, at the levels at which each
+     * geometry covers a few tiles.
+     */
+    private getChangedTileKeys(
+        index: GeoJsonVtIndex,
+        geometries: Array<FeatureGeometry | GeometryCollection>
+    ): TileKey[] {
+        const tileKeys = new Map<number, TileKey>();
+        for (const geometry of geometries) {
+            const geoBox = getGeoBox(geometry);
+            if (geoBox === undefined) {
+                continue;
+            }
+            const size = Math.max(geoBox.longitudeSpan, geoBox.latitudeSpan);
+            const level =
+                size > 0
+                    ? Math.max(0, Math.min(MAX_ZOOM, Math.floor(Math.log2(360 / size))))
+                    : MAX_ZOOM;
+            // Tiles also contain the geometries in the buffer around them.
+            const margin = (360 / Math.pow(2, level)) * (index.buffer / index.extent);
+            const bufferedGeoBox = new GeoBox(
+                new GeoCoordinates(geoBox.south - margin, geoBox.west - margin),
+                new GeoCoordinates(geoBox.north + margin, geoBox.east + margin)
+            );
+            for (const tileKey of TileKeyUtils.geoRectangleToTileKeys(
+                webMercatorTilingScheme,
+                bufferedGeoBox,
+                level
+            )) {
+                tileKeys.set(tileKey.mortonCode(), tileKey);
+            }
+        }
+        return Array.from(tileKeys.values());
+    }
+
+    private getOriginalGeometry(feature: any, index: GeoJsonVtIndex): any {
+        const geojson = index.geojson;
         switch (geojson.type) {
             case "Point":
             case "MultiPoint":
@@ -105,7 +396,34 @@ export class GeoJsonTiler implements ITiler {
             case "Feature":
                 return geojson.geometry;
             case "FeatureCollection":
-                return geojson.features[feature.id].geometry;
+                return index.features![feature.id].geometry;
+        }
+    }
+}
+
+/**
+ * Computes the bounding box of a GeoJSON geometry, `undefined` if it has no coordinates.
+ */
+function getGeoBox(geometry: FeatureGeometry | GeometryCollection | null): GeoBox | undefined {
+    let geoBox: GeoBox | undefined;
+    const addCoordinates = (coordinates: any) => {
+        if (typeof coordinates[0] === "number") {
+            const point = new GeoCoordinates(coordinates[1], coordinates[0]);
+            if (geoBox === undefined) {
+                geoBox = new GeoBox(point, point.clone());
+            } else {
+                geoBox.growToContain(point);
+            }
+        } else {
+            coordinates.forEach(addCoordinates);
         }
+    };
+    if (geometry === null) {
+        return undefined;
+    } else if (geometry.type === "GeometryCollection") {
+        geometry.geometries.forEach(child => addCoordinates(child.coordinates));
+    } else {
+        addCoordinates(geometry.coordinates);
     }
+    return geoBox;
 }
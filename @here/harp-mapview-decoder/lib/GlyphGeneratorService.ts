@@ -0,0 +1,94 @@
+/*
+ * Copyright (C) 2017-2020 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { WorkerGlyphProtocol } from "@here/harp-datasource-protocol";
+import { SdfGlyphGenerator } from "@here/harp-text-canvas";
+
+import { WorkerService, WorkerServiceResponse } from "./WorkerService";
+import { WorkerServiceManager } from "./WorkerServiceManager";
+
+/**
+ * An extension to {@link WorkerService}, the `GlyphGeneratorService` implements an asynchronous
+ * (message based) service to generate SDF glyph bitmaps of TrueType and OpenType fonts in web
+ * workers.
+ *
+ * @remarks
+ * The `GlyphGeneratorService` lives in the web worker and serves the glyph requests of
+ * `FontCatalog`s created from font files. Fonts are fetched and parsed by each worker on first
+ * use, the glyph bitmaps are transferred back in a {@link WorkerServiceResponse}.
+ *
+ * @example
+ * ```typescript
+ * // decoder.ts
+ * GlyphGeneratorService.register();
+ * ```
+ */
+export class GlyphGeneratorService extends WorkerService {
+    /**
+     * Start a `GlyphGeneratorService`.
+     *
+     * @param serviceId - Service id. Must be unique.
+     */
+    static start(serviceId: string) {
+        return new GlyphGeneratorService(serviceId);
+    }
+
+    /**
+     * Register the `GlyphGeneratorService` with {@link WorkerServiceManager}.
+     *
+     * @remarks
+     * Has to be called during initialization of decoder bundle.
+     */
+    static register() {
+        WorkerServiceManager.getInstance().register({
+            serviceType: WorkerGlyphProtocol.GLYPH_GENERATOR_SERVICE_TYPE,
+            factory: (serviceId: string) => GlyphGeneratorService.start(serviceId)
+        });
+    }
+
+    generator = new SdfGlyphGenerator();
+
+    /**
+     * Set up the `GlyphGeneratorService`. The name of the service must be unique
+     *
+     * @param serviceId - Service id. Must be unique.
+     */
+    constructor(readonly serviceId: string) {
+        super(serviceId);
+    }
+
+    /**
+     * Handle incoming request messages. Identifies message type and processes the request.
+     *
+     * @param request - {@link WorkerGlyphProtocol} request.
+     * @returns A promise which resolves to a {@link WorkerServiceResponse}.
+     * @override
+     */
+    protected handleRequest(request: any): Promise<WorkerServiceResponse> {
+        if (WorkerGlyphProtocol.isGenerateGlyphsRequest(request)) {
+            return this.handleGenerateGlyphsRequest(request);
+        } else {
+            return super.handleRequest(request);
+        }
+    }
+
+    /** @override */
+    destroy() {
+        this.generator.clear();
+        super.destroy();
+    }
+
+    private async handleGenerateGlyphsRequest(
+        request: WorkerGlyphProtocol.GenerateGlyphsRequest
+    ): Promise<WorkerServiceResponse> {
+        const response = await this.generator.generateGlyphs(request);
+
+        return {
+            response,
+            transferList: response.glyphs.map(glyph => glyph.data.buffer as ArrayBuffer)
+        };
+    }
+}
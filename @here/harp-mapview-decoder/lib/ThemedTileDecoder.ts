@@ -9,6 +9,7 @@ import {
     Definitions,
     ITileDecoder,
     OptionsMap,
+    RequestController,
     StyleSet,
     TileInfo
 } from "@here/harp-datasource-protocol";
@@ -36,13 +37,15 @@ export abstract class ThemedTileDecoder implements ITileDecoder {
     decodeTile(
         data: ArrayBufferLike,
         tileKey: TileKey,
-        projection: Projection
+        projection: Projection,
+        _requestController?: RequestController,
+        time?: number
     ): Promise<DecodedTile> {
         if (this.m_styleSetEvaluator === undefined) {
             return Promise.reject(new Error("No style is defined"));
         }
 
-        return this.decodeThemedTile(data, tileKey, this.m_styleSetEvaluator, projection);
+        return this.decodeThemedTile(data, tileKey, this.m_styleSetEvaluator, projection, time);
     }
 
     getTileInfo(
@@ -79,11 +82,13 @@ export abstract class ThemedTileDecoder implements ITileDecoder {
      * @param styleSetEvaluator - Processor of [[Theme]], identifies styling techniques applicable
      *                            to individual objects.
      * @param projection - Projection used by the individual data sources.
+     * @param time - Optional time of the tile data in milliseconds since the Unix epoch.
      */
     abstract decodeThemedTile(
         data: ArrayBufferLike | {},
         tileKey: TileKey,
         styleSetEvaluator: StyleSetEvaluator,
-        projection: Projection
+        projection: Projection,
+        time?: number
     ): Promise<DecodedTile>;
 }
@@ -11,7 +11,7 @@ import {
     Theme,
     TileInfo
 } from "@here/harp-datasource-protocol";
-import { TileKey, TilingScheme } from "@here/harp-geoutils";
+import { TileKey, TileKeyUtils, TilingScheme } from "@here/harp-geoutils";
 import {
     ConcurrentDecoderFacade,
     CopyrightInfo,
@@ -19,7 +19,8 @@ import {
     DataSource,
     DataSourceOptions,
     Tile,
-    TileLoaderState
+    TileLoaderState,
+    TileSourceMetadata
 } from "@here/harp-mapview";
 import { ILogger, LoggerManager } from "@here/harp-utils";
 
@@ -113,6 +114,7 @@ export class TileDataSource<TileType extends Tile = Tile> extends DataSource {
     protected readonly logger: ILogger = LoggerManager.instance.create("TileDataSource");
     protected readonly m_decoder: ITileDecoder;
     private m_isReady: boolean = false;
+    private m_copyrightInfo?: CopyrightInfo[];
     private readonly m_unregisterClearTileCache?: () => void;
 
     /**
@@ -155,9 +157,15 @@ export class TileDataSource<TileType extends Tile = Tile> extends DataSource {
         }
         this.useGeometryLoader = true;
         this.cacheable = true;
+        this.m_copyrightInfo = m_options.copyrightInfo;
 
-        this.m_unregisterClearTileCache = this.dataProvider().onDidInvalidate?.(() =>
-            this.mapView.clearTileCache(this.name)
+        this.m_unregisterClearTileCache = this.dataProvider().onDidInvalidate?.(tileKeys =>
+            this.mapView.clearTileCache(
+                this.name,
+                tileKeys !== undefined
+                    ? tile => TileKeyUtils.overlapsAny(tile.tileKey, tileKeys)
+                    : undefined
+            )
         );
     }
 
@@ -186,6 +194,11 @@ export class TileDataSource<TileType extends Tile = Tile> extends DataSource {
         await Promise.all([this.m_options.dataProvider.register(this), this.m_decoder.connect()]);
         this.m_isReady = true;
 
+        const metadata = this.m_options.dataProvider.getMetadata?.();
+        if (metadata !== undefined) {
+            this.applyTileSourceMetadata(metadata);
+        }
+
         this.m_decoder.configure(undefined, undefined, undefined, {
             storageLevelOffset: this.m_options.storageLevelOffset
         });
@@ -239,7 +252,7 @@ export class TileDataSource<TileType extends Tile = Tile> extends DataSource {
     getTile(tileKey: TileKey, delayLoad: boolean = false): TileType | undefined {
         const tile = this.m_tileFactory.create(this, tileKey);
         tile.tileLoader = new TileLoader(this, tileKey, this.m_options.dataProvider, this.decoder);
-        tile.copyrightInfo = this.m_options.copyrightInfo;
+        tile.copyrightInfo = this.m_copyrightInfo;
         if (this.m_options.copyrightProvider !== undefined) {
             this.m_options.copyrightProvider
                 .getCopyrights(tile.geoBox, tileKey.level)
@@ -258,6 +271,22 @@ export class TileDataSource<TileType extends Tile = Tile> extends DataSource {
         return tile;
     }
 
+    /**
+     * Applies the metadata of the [[DataProvider]], adding its copyrights to the default
+     * copyrights of the tiles.
+     *
+     * @override
+     */
+    protected applyTileSourceMetadata(metadata: TileSourceMetadata) {
+        super.applyTileSourceMetadata(metadata);
+        if (metadata.copyrightInfo !== undefined) {
+            this.m_copyrightInfo = CopyrightInfo.mergeArrays(
+                this.m_options.copyrightInfo ?? [],
+                metadata.copyrightInfo
+            );
+        }
+    }
+
     /**
      * Get [[TileInfo]] of a tile.
      *
@@ -88,7 +88,13 @@ export class TileDecoderService extends WorkerService {
         const tileKey = TileKey.fromMortonCode(request.tileKey);
         const projection = getProjection(request.projection);
 
-        const decodedTile = await this.m_decoder.decodeTile(request.data, tileKey, projection);
+        const decodedTile = await this.m_decoder.decodeTile(
+            request.data,
+            tileKey,
+            projection,
+            undefined,
+            request.time
+        );
 
         const transferList: ArrayBufferLike[] = [];
 
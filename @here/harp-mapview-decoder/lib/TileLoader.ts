@@ -50,12 +50,14 @@ export class TileLoader extends BaseTileLoader {
      * @param tileKey - The quadtree address of a [[Tile]].
      * @param dataProvider - The [[DataProvider]] that retrieves the binary tile data.
      * @param tileDecoder - The [[ITileDecoder]] that decodes the binary tile to a [[DecodeTile]].
+     * @param time - The time of the tile data, the current time of the data source by default.
      */
     constructor(
         protected dataSource: DataSource,
         protected tileKey: TileKey,
         protected dataProvider: DataProvider,
-        protected tileDecoder: ITileDecoder
+        protected tileDecoder: ITileDecoder,
+        protected time = dataSource.time
     ) {
         super(dataSource, tileKey);
     }
@@ -86,7 +88,7 @@ export class TileLoader extends BaseTileLoader {
         onError: (error: Error) => void
     ): void {
         this.dataProvider
-            .getTile(this.tileKey, abortSignal)
+            .getTile(this.tileKey, abortSignal, this.time)
             .then(payload => {
                 if (abortSignal.aborted) {
                     // safety belt if getTile doesn't really support cancellation tokens
@@ -139,7 +141,7 @@ export class TileLoader extends BaseTileLoader {
 
         const dataSource = this.dataSource;
         this.tileDecoder
-            .decodeTile(payload, this.tileKey, dataSource.projection, requestController)
+            .decodeTile(payload, this.tileKey, dataSource.projection, requestController, this.time)
             .then(decodedTile => {
                 if (requestController.signal.aborted) {
                     // our flow is cancelled, silently return
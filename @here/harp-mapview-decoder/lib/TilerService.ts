@@ -57,8 +57,14 @@ export class TilerService extends WorkerService {
             return this.handleRegisterIndexRequest(request);
         } else if (WorkerTilerProtocol.isUpdateIndexRequest(request)) {
             return this.handleUpdateIndexRequest(request);
+        } else if (WorkerTilerProtocol.isUpdateFeaturesRequest(request)) {
+            return this.handleUpdateFeaturesRequest(request);
         } else if (WorkerTilerProtocol.isTileRequest(request)) {
             return this.handleTileRequest(request);
+        } else if (WorkerTilerProtocol.isClusterChildrenRequest(request)) {
+            return this.handleClusterChildrenRequest(request);
+        } else if (WorkerTilerProtocol.isClusterExpansionZoomRequest(request)) {
+            return this.handleClusterExpansionZoomRequest(request);
         } else {
             return super.handleRequest(request);
         }
@@ -73,11 +79,27 @@ export class TilerService extends WorkerService {
         return { response: tile || {} };
     }
 
+    private async handleClusterChildrenRequest(
+        request: WorkerTilerProtocol.ClusterChildrenRequest
+    ): Promise<WorkerServiceResponse> {
+        const children = await this.tiler.getClusterChildren(request.index, request.clusterId);
+
+        return { response: children };
+    }
+
+    private async handleClusterExpansionZoomRequest(
+        request: WorkerTilerProtocol.ClusterExpansionZoomRequest
+    ): Promise<WorkerServiceResponse> {
+        const zoom = await this.tiler.getClusterExpansionZoom(request.index, request.clusterId);
+
+        return { response: zoom };
+    }
+
     private async handleRegisterIndexRequest(
         message: WorkerTilerProtocol.RegisterIndexRequest
     ): Promise<WorkerServiceResponse> {
         const input = typeof message.input === "string" ? new URL(message.input) : message.input;
-        await this.tiler.registerIndex(message.id, input);
+        await this.tiler.registerIndex(message.id, input, message.options);
 
         return { response: {} };
     }
@@ -87,8 +109,16 @@ export class TilerService extends WorkerService {
     ): Promise<WorkerServiceResponse> {
         const input = typeof message.input === "string" ? new URL(message.input) : message.input;
 
-        this.tiler.updateIndex(message.id, input);
+        this.tiler.updateIndex(message.id, input, message.options);
 
         return { response: {} };
     }
+
+    private async handleUpdateFeaturesRequest(
+        message: WorkerTilerProtocol.UpdateFeaturesRequest
+    ): Promise<WorkerServiceResponse> {
+        const tileKeys = await this.tiler.updateFeatures(message.id, message.changes);
+
+        return { response: tileKeys.map(tileKey => tileKey.mortonCode()) };
+    }
 }
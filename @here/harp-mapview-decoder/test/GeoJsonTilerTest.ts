@@ -0,0 +1,349 @@
+/*
+ * Copyright (C) 2017-2020 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+//    Mocha discourages using arrow functions, see https://mochajs.org/#arrow-functions
+
+import { FeatureCollection } from "@here/harp-datasource-protocol";
+import { TileKey, TileKeyUtils } from "@here/harp-geoutils";
+import { assert } from "chai";
+
+import { GeoJsonTiler } from "../lib/GeoJsonTiler";
+
+const POINT_TYPE = 1;
+
+function point(longitude: number, latitude: number, population: number) {
+    return {
+        type: "Feature" as const,
+        geometry: { type: "Point" as const, coordinates: [longitude, latitude] },
+        properties: { population }
+    };
+}
+
+function tileKeyAt(longitude: number, latitude: number, level: number): TileKey {
+    const scale = Math.pow(2, level);
+    const sin = Math.sin((latitude * Math.PI) / 180);
+    const y = 0.5 - (0.25 * Math.log((1 + sin) / (1 - sin))) / Math.PI;
+    return new TileKey(Math.floor(y * scale), Math.floor(((longitude + 180) / 360) * scale), level);
+}
+
+describe("GeoJsonTiler", function() {
+    describe("clustering", function() {
+        const geojson: FeatureCollection = {
+            type: "FeatureCollection",
+            features: [
+                point(10, 50, 100),
+                {
+                    type: "Feature",
+                    geometry: {
+                        type: "LineString",
+                        coordinates: [
+                            [0, 0],
+                            [20, 20]
+                        ]
+                    },
+                    properties: {}
+                },
+                point(10.001, 50, 200),
+                point(10.2, 50, 600),
+                point(-50, 0, 50)
+            ]
+        };
+        let tiler: GeoJsonTiler;
+
+        beforeEach(async function() {
+            tiler = new GeoJsonTiler();
+            await tiler.registerIndex("points", geojson, {
+                clustering: {
+                    maxZoom: 14,
+                    properties: {
+                        population: { reducer: "sum", value: ["get", "population"] },
+                        meanPopulation: { reducer: "mean", value: ["get", "population"] },
+                        maxPopulation: { reducer: "max", value: ["get", "population"] }
+                    }
+                }
+            });
+        });
+
+        async function getPoints(tileKey: TileKey): Promise<any[]> {
+            const tile: any = await tiler.getTile("points", tileKey);
+            return (tile.features ?? []).filter((feature: any) => feature.type === POINT_TYPE);
+        }
+
+        it("clusters close points at low levels", async function() {
+            const tile: any = await tiler.getTile("points", new TileKey(0, 0, 0));
+            const points = await getPoints(new TileKey(0, 0, 0));
+            const cluster = points.find(feature => feature.tags.cluster === true);
+
+            assert.equal(tile.features.length, 3, "clusters and points are added to the lines");
+            assert.equal(points.length, 2);
+            assert.isDefined(cluster);
+            assert.include(cluster.tags, {
+                point_count: 3,
+                point_count_abbreviated: "3",
+                population: 900,
+                meanPopulation: 300,
+                maxPopulation: 600
+            });
+            assert.equal(cluster.id, cluster.tags.cluster_id);
+            assert.equal(cluster.originalGeometry.type, "Point");
+        });
+
+        it("keeps points separate above the maximum clustering level", async function() {
+            const points = await getPoints(tileKeyAt(10, 50, 15));
+
+            assert.equal(points.length, 2);
+            assert.sameMembers(
+                points.map(feature => feature.tags.population),
+                [100, 200]
+            );
+            assert.sameMembers(
+                points.map(feature => feature.id),
+                [0, 2]
+            );
+        });
+
+        it("returns the children and the expansion zoom of clusters", async function() {
+            const points = await getPoints(new TileKey(0, 0, 0));
+            const cluster = points.find(feature => feature.tags.cluster === true);
+
+            const children = await tiler.getClusterChildren("points", cluster.tags.cluster_id);
+            const expansionZoom = await tiler.getClusterExpansionZoom(
+                "points",
+                cluster.tags.cluster_id
+            );
+
+            assert.sameMembers(
+                children.map(child => child.properties.population),
+                [300, 600]
+            );
+            assert.isAbove(expansionZoom, 0);
+
+            const childCluster = children.find(child => child.properties.cluster === true)!;
+            const childZoom = await tiler.getClusterExpansionZoom(
+                "points",
+                childCluster.properties.cluster_id
+            );
+            assert.isAbove(childZoom, expansionZoom);
+            assert.isAtMost(childZoom, 15);
+        });
+
+        it("keeps the ids of clustered point features", async function() {
+            await tiler.updateIndex(
+                "points",
+                {
+                    type: "FeatureCollection",
+                    features: [
+                        { ...point(10, 50, 100), id: "first" },
+                        { ...point(10.001, 50, 200), id: "second" }
+                    ]
+                },
+                { clustering: { maxZoom: 14 } }
+            );
+
+            const points = await getPoints(tileKeyAt(10, 50, 15));
+            const cluster = (await getPoints(new TileKey(0, 0, 0))).find(
+                feature => feature.tags.cluster === true
+            );
+            const children = await tiler.getClusterChildren("points", cluster.tags.cluster_id);
+
+            assert.sameMembers(
+                points.map(feature => feature.id),
+                ["first", "second"]
+            );
+            assert.sameMembers(
+                children.map(child => child.id),
+                ["first", "second"]
+            );
+        });
+
+        it("clusters the positions of multi points separately", async function() {
+            await tiler.updateIndex(
+                "points",
+                {
+                    type: "FeatureCollection",
+                    features: [
+                        point(-50, 0, 1),
+                        {
+                            type: "Feature",
+                            geometry: {
+                                type: "MultiPoint",
+                                coordinates: [
+                                    [10, 50],
+                                    [10.001, 50]
+                                ]
+                            },
+                            properties: { population: 2 }
+                        }
+                    ]
+                },
+                { clustering: { maxZoom: 14 } }
+            );
+
+            const points = await getPoints(tileKeyAt(10, 50, 15));
+            const cluster = (await getPoints(new TileKey(0, 0, 0))).find(
+                feature => feature.tags.cluster === true
+            );
+            const children = await tiler.getClusterChildren("points", cluster.tags.cluster_id);
+
+            assert.equal(points.length, 2);
+            assert.notEqual(points[0].id, points[1].id);
+            assert.notInclude([0, cluster.id], points[0].id);
+            assert.notInclude([0, cluster.id], points[1].id);
+            assert.sameDeepMembers(
+                points.map(feature => feature.originalGeometry),
+                [
+                    { type: "Point", coordinates: [10, 50] },
+                    { type: "Point", coordinates: [10.001, 50] }
+                ]
+            );
+            assert.sameMembers(
+                children.map(child => child.id),
+                points.map(feature => String(feature.id))
+            );
+        });
+
+        it("reclusters updated input", async function() {
+            await tiler.updateIndex(
+                "points",
+                { type: "FeatureCollection", features: [point(10, 50, 1), point(10.001, 50, 2)] },
+                { clustering: {} }
+            );
+
+            const points = await getPoints(new TileKey(0, 0, 0));
+
+            assert.equal(points.length, 1);
+            assert.equal(points[0].tags.point_count, 2);
+        });
+    });
+
+    describe("options", function() {
+        it("tiles with the given extent and buffer", async function() {
+            const tiler = new GeoJsonTiler();
+            const geojson: FeatureCollection = {
+                type: "FeatureCollection",
+                features: [point(-100, 50, 1), point(179.9, 0, 2)]
+            };
+            await tiler.registerIndex("default", geojson);
+            await tiler.registerIndex("custom", geojson, {
+                extent: 512,
+                buffer: 0,
+                tolerance: 1,
+                indexMaxZoom: 2
+            });
+
+            const defaultTile: any = await tiler.getTile("default", new TileKey(0, 0, 1));
+            const customTile: any = await tiler.getTile("custom", new TileKey(0, 0, 1));
+
+            assert.equal(defaultTile.extent, 4096);
+            assert.equal(customTile.extent, 512);
+            // The point at the antimeridian is only in the buffer of the default tile.
+            assert.equal(defaultTile.features.length, 2);
+            assert.equal(customTile.features.length, 1);
+            const [x, y] = customTile.features[0].geometry[0];
+            assert.isAtMost(x, 512);
+            assert.isAtMost(y, 512);
+        });
+    });
+
+    describe("updateFeatures", function() {
+        function vehicle(id: string, longitude: number, latitude: number) {
+            return { ...point(longitude, latitude, 0), id };
+        }
+
+        let tiler: GeoJsonTiler;
+
+        async function getTileFeatures(longitude: number, latitude: number): Promise<any[]> {
+            const tile: any = await tiler.getTile("vehicles", tileKeyAt(longitude, latitude, 14));
+            return tile.features ?? [];
+        }
+
+        beforeEach(async function() {
+            tiler = new GeoJsonTiler();
+            const features = [vehicle("a", 10, 50), vehicle("b", 10.001, 50)];
+            for (let i = 0; i < 10; i++) {
+                features.push(vehicle(`parked-${i}`, -50, i));
+            }
+            await tiler.registerIndex("vehicles", { type: "FeatureCollection", features });
+        });
+
+        it("updates features by id", async function() {
+            const tileKeys = await tiler.updateFeatures("vehicles", {
+                update: [vehicle("a", 11, 51)]
+            });
+
+            const oldTileFeatures = await getTileFeatures(10, 50);
+            assert.deepEqual(
+                oldTileFeatures.map(feature => feature.id),
+                [1]
+            );
+            const [feature] = await getTileFeatures(11, 51);
+            assert.equal(feature.id, 0, "the tiled feature keeps its id");
+            assert.deepEqual(feature.originalGeometry.coordinates, [11, 51]);
+
+            assert.isTrue(TileKeyUtils.overlapsAny(tileKeyAt(10, 50, 14), tileKeys));
+            assert.isTrue(TileKeyUtils.overlapsAny(tileKeyAt(11, 51, 14), tileKeys));
+            assert.isTrue(TileKeyUtils.overlapsAny(new TileKey(0, 0, 0), tileKeys));
+            assert.isFalse(TileKeyUtils.overlapsAny(tileKeyAt(-50, 0, 14), tileKeys));
+        });
+
+        it("adds and removes features", async function() {
+            await tiler.updateFeatures("vehicles", {
+                add: [vehicle("c", 10.002, 50)],
+                remove: ["b", "unknown"]
+            });
+
+            const features = await getTileFeatures(10, 50);
+            assert.sameMembers(
+                features.map(feature => feature.originalGeometry.coordinates[0]),
+                [10, 10.002]
+            );
+            const parkedFeatures = await getTileFeatures(-50, 0);
+            assert.equal(parkedFeatures.length, 1);
+        });
+
+        it("tiles all features again after many changes", async function() {
+            const parked = [];
+            for (let i = 0; i < 5; i++) {
+                parked.push(vehicle(`parked-${i}`, -60, i));
+            }
+            await tiler.updateFeatures("vehicles", { update: parked });
+
+            assert.equal(tiler.indexes.get("vehicles")!.changedIds.size, 0);
+            assert.equal((await getTileFeatures(-60, 0)).length, 1);
+            assert.equal((await getTileFeatures(-50, 0)).length, 0);
+            assert.equal((await getTileFeatures(10, 50)).length, 2);
+        });
+
+        it("invalidates all tiles if clustered points change", async function() {
+            await tiler.updateIndex(
+                "vehicles",
+                { type: "FeatureCollection", features: [vehicle("a", 10, 50)] },
+                { clustering: {} }
+            );
+
+            const tileKeys = await tiler.updateFeatures("vehicles", {
+                add: [vehicle("b", 10.001, 50)]
+            });
+
+            assert.deepEqual(tileKeys, [new TileKey(0, 0, 0)]);
+            const tile: any = await tiler.getTile("vehicles", new TileKey(0, 0, 0));
+            assert.equal(tile.features.length, 1);
+            assert.equal(tile.features[0].tags.point_count, 2);
+        });
+
+        it("only updates feature collections", async function() {
+            await tiler.updateIndex("vehicles", vehicle("a", 10, 50));
+
+            let error: Error | undefined;
+            try {
+                await tiler.updateFeatures("vehicles", { remove: ["a"] });
+            } catch (e) {
+                error = e;
+            }
+            assert.instanceOf(error, Error);
+        });
+    });
+});
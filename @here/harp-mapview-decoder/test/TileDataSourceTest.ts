@@ -10,6 +10,8 @@ import "@here/harp-fetch";
 
 import { DecodedTile, Geometry, ITileDecoder, TileInfo } from "@here/harp-datasource-protocol";
 import {
+    GeoBox,
+    GeoCoordinates,
     Projection,
     TileKey,
     webMercatorProjection,
@@ -308,4 +310,38 @@ describe("TileDataSource", function() {
         assert.equal(testedDataSource.maxZoomLevel, 17);
         assert.equal(testedDataSource.maxDataLevel, 17);
     });
+
+    it("applies the metadata of the data provider when connected", async function() {
+        const dataProvider = new MockDataProvider();
+        dataProvider.getMetadata = () => ({
+            minZoom: 0,
+            maxZoom: 14,
+            bounds: GeoBox.fromCoordinates(new GeoCoordinates(40, 0), new GeoCoordinates(60, 20)),
+            copyrightInfo: [{ id: "openstreetmap.org", label: "OpenStreetMap contributors" }]
+        });
+        const testedDataSource = new TileDataSource(new TileFactory(Tile), {
+            styleSetName: "",
+            tilingScheme: webMercatorTilingScheme,
+            dataProvider,
+            decoder: createMockTileDecoder(),
+            copyrightInfo: [{ id: "here.com", label: "HERE" }]
+        });
+        testedDataSource.attach(createMockMapView());
+
+        await testedDataSource.connect();
+
+        assert.equal(testedDataSource.minDataLevel, 0);
+        assert.equal(testedDataSource.maxDataLevel, 14);
+
+        const insideKey = webMercatorTilingScheme.getTileKey(new GeoCoordinates(50, 10), 5)!;
+        const outsideKey = webMercatorTilingScheme.getTileKey(new GeoCoordinates(50, 30), 5)!;
+        assert.isTrue(testedDataSource.canGetTile(5, insideKey));
+        assert.isFalse(testedDataSource.canGetTile(5, outsideKey));
+
+        const tile = testedDataSource.getTile(insideKey, true)!;
+        assert.deepEqual(tile.copyrightInfo, [
+            { id: "here.com", label: "HERE" },
+            { id: "openstreetmap.org", label: "OpenStreetMap contributors" }
+        ]);
+    });
 });
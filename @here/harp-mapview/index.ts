@@ -28,21 +28,26 @@ export * from "./lib/copyrights/CopyrightCoverageProvider";
 export * from "./lib/copyrights/UrlCopyrightProvider";
 export * from "./lib/DataSource";
 export * from "./lib/EventDispatcher";
+export * from "./lib/FeatureQuery";
 export * from "./lib/PolarTileDataSource";
 export * from "./lib/DecodedTileHelpers";
 export * from "./lib/DepthPrePass";
 export * from "./lib/DisplacementMap";
 export * from "./lib/ElevationProvider";
 export * from "./lib/ElevationRangeSource";
+export * from "./lib/headless/HeadlessMapView";
+export * from "./lib/headless/SoftwareRenderer";
 export * from "./lib/ITileLoader";
 export * from "./lib/image/Image";
 export * from "./lib/image/ImageCache";
 export * from "./lib/image/MapViewImageCache";
+export * from "./lib/image/PatternTexture";
 export * from "./lib/MapAnchors";
 export * from "./lib/MapView";
 export * from "./lib/MapViewAtmosphere";
 export * from "./lib/MapViewFog";
 export * from "./lib/MapViewPoints";
+export * from "./lib/PerformanceHud";
 export * from "./lib/PickHandler";
 export * from "./lib/poi/Poi";
 export * from "./lib/poi/PoiManager";
@@ -54,10 +59,12 @@ export * from "./lib/text/TextStyleCache";
 export * from "./lib/TextureLoader";
 export * from "./lib/ThemeLoader";
 export * from "./lib/Tile";
+export * from "./lib/TilePrefetcher";
 export * from "./lib/geometry/TileDataAccessor";
 export * from "./lib/geometry/TileGeometry";
 export * from "./lib/Utils";
 export * from "./lib/VisibleTileSet";
 export * from "./lib/WorkerBasedDecoder";
+export * from "./lib/WorkerBasedGlyphSource";
 export * from "./lib/WorkerBasedTiler";
 export * from "./lib/workers/WorkerLoader";
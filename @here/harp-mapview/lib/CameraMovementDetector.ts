@@ -14,6 +14,11 @@ import { MapViewUtils } from "./Utils";
  */
 const DEFAULT_THROTTLING_TIMEOUT = 300;
 
+/**
+ * Weight of the latest camera movement in the smoothed camera velocity.
+ */
+const VELOCITY_SMOOTHING_FACTOR = 0.5;
+
 /**
  * The `CameraMovementDetector` class checks for changes in camera position and orientation, to
  * detect continuous movements without the animation mode activated in {@link MapView}. If the
@@ -24,6 +29,9 @@ export class CameraMovementDetector {
     private m_lastAttitude?: MapViewUtils.Attitude;
     private readonly m_lastCameraPos = new Vector3();
     private readonly m_newCameraPos = new Vector3();
+    private readonly m_cameraVelocity = new Vector3();
+    private readonly m_frameVelocity = new Vector3();
+    private m_lastCheckTime?: number;
     private m_cameraMovedLastFrame: boolean | undefined;
     private m_throttlingTimerId?: number = undefined;
     private m_movementDetectorDeadline: number = 0;
@@ -57,6 +65,8 @@ export class CameraMovementDetector {
     checkCameraMoved(mapView: MapView, now: number): boolean {
         const newAttitude = MapViewUtils.extractAttitude(mapView, mapView.camera);
         const newCameraPos = mapView.camera.getWorldPosition(this.m_newCameraPos);
+        const elapsedTime = this.m_lastCheckTime !== undefined ? now - this.m_lastCheckTime : 0;
+        this.m_lastCheckTime = now;
 
         if (this.m_lastAttitude === undefined) {
             this.m_lastCameraPos.copy(newCameraPos);
@@ -70,8 +80,11 @@ export class CameraMovementDetector {
             newAttitude.roll !== this.m_lastAttitude.roll;
 
         if (cameraMoved) {
+            this.updateCameraVelocity(newCameraPos, elapsedTime);
             this.m_lastCameraPos.copy(newCameraPos);
             this.m_lastAttitude = newAttitude;
+        } else {
+            this.m_cameraVelocity.set(0, 0, 0);
         }
 
         if (cameraMoved !== this.m_cameraMovedLastFrame) {
@@ -99,6 +112,7 @@ export class CameraMovementDetector {
 
         const newAttitude = MapViewUtils.extractAttitude(mapView, mapView.camera);
         this.m_lastAttitude = newAttitude;
+        this.m_cameraVelocity.set(0, 0, 0);
     }
 
     /**
@@ -132,6 +146,26 @@ export class CameraMovementDetector {
         return this.m_cameraMovedLastFrame === true;
     }
 
+    /**
+     * The velocity of the camera in world units per millisecond, smoothed over the last frames.
+     * It's zero if the camera didn't move since the last check.
+     */
+    get cameraVelocity(): Vector3 {
+        return this.m_cameraVelocity;
+    }
+
+    private updateCameraVelocity(newCameraPos: Vector3, elapsedTime: number) {
+        // The last position is not valid after `forceMoved`.
+        if (elapsedTime <= 0 || !Number.isFinite(this.m_lastCameraPos.x)) {
+            return;
+        }
+        this.m_frameVelocity
+            .subVectors(newCameraPos, this.m_lastCameraPos)
+            .divideScalar(elapsedTime);
+        // Frame times vary, smooth the velocity to not predict jumps.
+        this.m_cameraVelocity.lerp(this.m_frameVelocity, VELOCITY_SMOOTHING_FACTOR);
+    }
+
     private movementStarted() {
         if (this.m_movementStartedFunc !== undefined) {
             this.m_movementStartedFunc();
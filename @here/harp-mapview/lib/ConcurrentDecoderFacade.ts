@@ -8,6 +8,7 @@ import { ITileDecoder } from "@here/harp-datasource-protocol";
 
 import { ConcurrentWorkerSet } from "./ConcurrentWorkerSet";
 import { WorkerBasedDecoder } from "./WorkerBasedDecoder";
+import { WorkerBasedGlyphSource } from "./WorkerBasedGlyphSource";
 
 /**
  * Default concurrent decoder helper.
@@ -44,6 +45,18 @@ export class ConcurrentDecoderFacade {
         return new WorkerBasedDecoder(workerSet, decoderServiceType);
     }
 
+    /**
+     * Returns a {@link WorkerBasedGlyphSource} instance.
+     *
+     * @param scriptUrl - The optional URL with the workers' script.
+     * @param workerCount - The number of web workers to use.
+     */
+    static getGlyphSource(scriptUrl?: string, workerCount?: number): WorkerBasedGlyphSource {
+        const workerSet = this.getWorkerSet(scriptUrl, workerCount);
+
+        return new WorkerBasedGlyphSource(workerSet);
+    }
+
     /**
      * Returns a [[ConcurrentWorkerSet]] instance based on the script URL specified.
      *
@@ -106,6 +119,17 @@ export class ConcurrentDecoderFacade {
         }
     }
 
+    /**
+     * The number of requests waiting for a worker in all managed [[ConcurrentWorkerSet]]s.
+     */
+    static get requestQueueSize(): number {
+        let size = 0;
+        Object.keys(this.workerSets).forEach(name => {
+            size += this.workerSets[name].requestQueueSize;
+        });
+        return size;
+    }
+
     /**
      * The [[ConcurrentWorkerSet]] instances which are stored by the script URL.
      */
@@ -5,10 +5,11 @@
  */
 import { Definitions, StyleSet, Theme, ValueMap } from "@here/harp-datasource-protocol";
 import { ExprPool } from "@here/harp-datasource-protocol/lib/ExprPool";
-import { Projection, TileKey, TilingScheme } from "@here/harp-geoutils";
+import { GeoBox, Projection, TileKey, TilingScheme } from "@here/harp-geoutils";
 import { assert, LoggerManager } from "@here/harp-utils";
 import * as THREE from "three";
 
+import { CopyrightInfo } from "./copyrights/CopyrightInfo";
 import { MapView } from "./MapView";
 import { Tile } from "./Tile";
 
@@ -100,6 +101,53 @@ export interface DataSourceOptions {
      * @default `0`.
      */
     minGeometryHeight?: number;
+
+    /**
+     * Time of the data to display in milliseconds since the Unix epoch, for data sources with a
+     * time dimension, e.g. animated weather radar images.
+     *
+     * @see {@link DataSource.time}.
+     */
+    time?: number;
+
+    /**
+     * Times in milliseconds since the Unix epoch at which data is available, in ascending order.
+     *
+     * @see {@link DataSource.timeSteps}.
+     */
+    timeSteps?: number[];
+
+    /**
+     * Number of time steps before and after the current [[time]] for which the visible tiles are
+     * prefetched, so that an animation can switch to them without waiting for the download.
+     * @default `1`
+     */
+    prefetchTimeSteps?: number;
+}
+
+/**
+ * Metadata describing the tiles of a tile source, e.g. of a tile archive.
+ */
+export interface TileSourceMetadata {
+    /**
+     * The minimum zoom level at which tiles are available.
+     */
+    minZoom?: number;
+
+    /**
+     * The maximum zoom level at which tiles are available.
+     */
+    maxZoom?: number;
+
+    /**
+     * The geographic extent of the tiles.
+     */
+    bounds?: GeoBox;
+
+    /**
+     * Copyright information of the tiles.
+     */
+    copyrightInfo?: CopyrightInfo[];
 }
 
 /**
@@ -165,8 +213,27 @@ export abstract class DataSource extends THREE.EventDispatcher {
      */
     maxDisplayLevel: number = 20;
 
+    /**
+     * The geographic extent in which data is available. Tiles outside of it are not loaded.
+     */
+    dataBounds?: GeoBox;
+
     allowOverlappingTiles: boolean = true;
 
+    /**
+     * Times in milliseconds since the Unix epoch at which data is available, in ascending order.
+     *
+     * @remarks
+     * Tiles of the time steps neighboring the current {@link DataSource.time} are prefetched.
+     */
+    timeSteps: number[] = [];
+
+    /**
+     * Number of time steps before and after the current {@link DataSource.time} for which the
+     * visible tiles are prefetched.
+     */
+    prefetchTimeSteps: number = 1;
+
     enablePicking: boolean = true;
 
     /**
@@ -202,6 +269,9 @@ export abstract class DataSource extends THREE.EventDispatcher {
 
     private readonly m_featureStateMap = new Map<number, ValueMap>();
 
+    private m_time?: number;
+    private m_previousTime?: number;
+
     /**
      * Constructs a new `DataSource`.
      *
@@ -222,7 +292,10 @@ export abstract class DataSource extends THREE.EventDispatcher {
             allowOverlappingTiles,
             enablePicking,
             minGeometryHeight,
-            maxGeometryHeight
+            maxGeometryHeight,
+            time,
+            timeSteps,
+            prefetchTimeSteps
         } = options;
         if (name === undefined || name.length === 0) {
             name = `anonymous-datasource#${++DataSource.uniqueNameCounter}`;
@@ -266,6 +339,92 @@ export abstract class DataSource extends THREE.EventDispatcher {
         if (maxGeometryHeight !== undefined) {
             this.maxGeometryHeight = maxGeometryHeight;
         }
+        this.m_time = time;
+        if (timeSteps !== undefined) {
+            this.timeSteps = timeSteps;
+        }
+        if (prefetchTimeSteps !== undefined) {
+            this.prefetchTimeSteps = prefetchTimeSteps;
+        }
+    }
+
+    /**
+     * Time of the data to display in milliseconds since the Unix epoch, `undefined` if the data
+     * has no time dimension.
+     *
+     * @remarks
+     * Each {@link Tile} keeps the time it was created for. Changing the time requests new tiles,
+     * the tiles of the previous time are displayed until they are loaded. Vector styles can access
+     * the time of their tile with `["get", "$time"]`.
+     */
+    get time(): number | undefined {
+        return this.m_time;
+    }
+
+    set time(time: number | undefined) {
+        if (time === this.m_time) {
+            return;
+        }
+        this.m_previousTime = this.m_time;
+        this.m_time = time;
+        this.requestUpdate();
+    }
+
+    /**
+     * The time displayed before the last change of {@link DataSource.time}.
+     */
+    get previousTime(): number | undefined {
+        return this.m_previousTime;
+    }
+
+    /**
+     * Returns the time steps before and after the current {@link DataSource.time} whose tiles
+     * should be prefetched, nearest first.
+     *
+     * @see {@link DataSourceOptions.prefetchTimeSteps}.
+     */
+    getPrefetchTimeSteps(): number[] {
+        const time = this.m_time;
+        if (time === undefined || this.prefetchTimeSteps <= 0) {
+            return [];
+        }
+        // Index of the first step after the current time.
+        let nextIndex = this.timeSteps.findIndex(step => step > time);
+        if (nextIndex === -1) {
+            nextIndex = this.timeSteps.length;
+        }
+        const currentIndex = this.timeSteps[nextIndex - 1] === time ? nextIndex - 1 : nextIndex;
+        const result: number[] = [];
+        for (let i = 1; i <= this.prefetchTimeSteps; i++) {
+            if (nextIndex + i - 1 < this.timeSteps.length) {
+                result.push(this.timeSteps[nextIndex + i - 1]);
+            }
+            if (currentIndex - i >= 0) {
+                result.push(this.timeSteps[currentIndex - i]);
+            }
+        }
+        return result;
+    }
+
+    /**
+     * Creates the tile for a time different from the current {@link DataSource.time}, e.g. to
+     * prefetch it. The tile is not loaded.
+     *
+     * @remarks
+     * The current time is replaced while calling [[getTile]], so that the created {@link Tile}
+     * is bound to the given time.
+     *
+     * @param tileKey - The unique identifier for a map tile.
+     * @param time - The time of the tile in milliseconds since the Unix epoch.
+     */
+    getTileAtTime(tileKey: TileKey, time: number): Tile | undefined {
+        const currentTime = this.m_time;
+        this.m_time = time;
+        try {
+            return this.getTile(tileKey, true);
+        } finally {
+            this.m_time = currentTime;
+        }
     }
 
     /**
@@ -291,6 +450,10 @@ export abstract class DataSource extends THREE.EventDispatcher {
      * dataSource.setFeatureState(featureId, { enabled: true });
      * ```
      *
+     * Techniques access the state with `["feature-state", "enabled"]` in `enabled` and in
+     * rendering attributes like `color`, `opacity` or `lineWidth`. The new state is applied in
+     * the next frame, without decoding the tiles again.
+     *
      * @param featureId - The id of the feature.
      * @param state - The new state of the feature.
      */
@@ -645,7 +808,7 @@ export abstract class DataSource extends THREE.EventDispatcher {
      * @returns `true` if the tile for the given {@link @here/harp-geoutils#TileKey} can be loaded.
      */
     canGetTile(zoomLevel: number, tileKey: TileKey): boolean {
-        return tileKey.level <= zoomLevel;
+        return tileKey.level <= zoomLevel && this.intersectsDataBounds(tileKey);
     }
 
     /**
@@ -680,10 +843,47 @@ export abstract class DataSource extends THREE.EventDispatcher {
         return true;
     }
 
+    /**
+     * Applies the {@link TileSourceMetadata} of the tiles provided to this `DataSource`.
+     *
+     * @remarks
+     * The zoom range of the metadata replaces the data levels, its bounds the
+     * {@link DataSource.dataBounds}.
+     *
+     * @param metadata - The metadata of the tile source.
+     */
+    protected applyTileSourceMetadata(metadata: TileSourceMetadata) {
+        if (metadata.minZoom !== undefined) {
+            this.minDataLevel = metadata.minZoom;
+        }
+        if (metadata.maxZoom !== undefined) {
+            this.maxDataLevel = metadata.maxZoom;
+        }
+        if (metadata.bounds !== undefined) {
+            this.dataBounds = metadata.bounds;
+        }
+    }
+
     /**
      * Sends a request to the {@link MapView} to redraw the scene.
      */
     requestUpdate() {
         this.dispatchEvent(this.UPDATE_EVENT);
     }
+
+    private intersectsDataBounds(tileKey: TileKey): boolean {
+        const bounds = this.dataBounds;
+        if (bounds === undefined) {
+            return true;
+        }
+        const geoBox = this.getTilingScheme().getGeoBox(tileKey);
+        if (geoBox.south > bounds.north || geoBox.north < bounds.south) {
+            return false;
+        }
+        // Bounds crossing the antimeridian extend east of 180 degrees, see GeoBox.
+        return (
+            (geoBox.west <= bounds.east && geoBox.east >= bounds.west) ||
+            (geoBox.west <= bounds.east - 360 && geoBox.east >= bounds.west - 360)
+        );
+    }
 }
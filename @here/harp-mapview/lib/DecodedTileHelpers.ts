@@ -10,12 +10,16 @@ import {
     Env,
     Expr,
     getPropertyValue,
+    IndexedTechnique,
     isExtrudedLineTechnique,
     isExtrudedPolygonTechnique,
+    isHeatmapTechnique,
     isShaderTechnique,
     isStandardTechnique,
     isTerrainTechnique,
     isTextureBuffer,
+    JsonExpr,
+    MapEnv,
     parseStringEncodedColor,
     ShaderTechnique,
     Technique,
@@ -32,6 +36,7 @@ import {
     CirclePointsMaterial,
     disableBlending,
     enableBlending,
+    HeatmapMaterial,
     HighPrecisionLineMaterial,
     MapMeshBasicMaterial,
     MapMeshStandardMaterial,
@@ -42,6 +47,7 @@ import { assert, LoggerManager, pick } from "@here/harp-utils";
 import * as THREE from "three";
 
 import { DisplacedMesh } from "./geometry/DisplacedMesh";
+import { Heatmap } from "./geometry/Heatmap";
 import { SolidLineMesh } from "./geometry/SolidLineMesh";
 import { MapAdapterUpdateEnv, MapMaterialAdapter, StyledProperties } from "./MapMaterialAdapter";
 import { Circles, Squares } from "./MapViewPoints";
@@ -50,6 +56,32 @@ import { Tile } from "./Tile";
 
 const logger = LoggerManager.instance.create("DecodedTileHelpers");
 
+/**
+ * Color ramp of heatmaps without a `colorRamp`, from transparent blue to red.
+ */
+const DEFAULT_HEATMAP_COLOR_RAMP: JsonExpr = [
+    "interpolate",
+    ["linear"],
+    ["heatmap-density"],
+    0,
+    "rgba(0, 0, 255, 0)",
+    0.1,
+    "rgba(65, 105, 225, 0.6)",
+    0.3,
+    "#00ffff",
+    0.5,
+    "#00ff00",
+    0.7,
+    "#ffff00",
+    1,
+    "#ff0000"
+];
+
+/**
+ * Number of densities the color ramp of heatmaps is sampled at.
+ */
+const HEATMAP_COLOR_RAMP_SIZE = 256;
+
 /**
  * The structure of the options to pass into [[createMaterial]].
  */
@@ -131,7 +163,10 @@ export function createMaterial(
         material.flatShading = true;
     }
 
-    material.depthTest = isExtrudedPolygonTechnique(technique) && technique.depthTest !== false;
+    // Terrain occludes itself when the camera is tilted.
+    material.depthTest =
+        (isExtrudedPolygonTechnique(technique) && technique.depthTest !== false) ||
+        isTerrainTechnique(technique);
 
     if (
         isStandardTechnique(technique) ||
@@ -229,6 +264,13 @@ export function createMaterial(
         });
     }
 
+    if (isHeatmapTechnique(technique)) {
+        (material as HeatmapMaterial).colorRamp = createHeatmapColorRamp(
+            technique.colorRamp ?? Expr.fromJSON(DEFAULT_HEATMAP_COLOR_RAMP),
+            options.env
+        );
+    }
+
     if (isShaderTechnique(technique)) {
         // Special case for ShaderTechnique.
         applyShaderTechniqueToMaterial(technique, material);
@@ -238,6 +280,33 @@ export function createMaterial(
     return material;
 }
 
+/**
+ * Creates the texture mapping the densities of a heatmap to colors.
+ *
+ * @param colorRamp - The color ramp of the heatmap, evaluated for densities in the range `[0, 1]`
+ * through `["heatmap-density"]`.
+ * @param env - Environment used to evaluate the color ramp.
+ *
+ * @internal
+ */
+export function createHeatmapColorRamp(colorRamp: Value, env: Env): THREE.DataTexture {
+    const data = new Uint8Array(HEATMAP_COLOR_RAMP_SIZE * 4);
+    for (let i = 0; i < HEATMAP_COLOR_RAMP_SIZE; i++) {
+        const densityEnv = new MapEnv({ $heatmapDensity: i / (HEATMAP_COLOR_RAMP_SIZE - 1) }, env);
+        const color = evaluateColorProperty(colorRamp, densityEnv);
+        if (color === undefined) {
+            continue;
+        }
+        const { r, g, b, a } = ColorUtils.getRgbaFromHex(color);
+        data.set([r * 255, g * 255, b * 255, a * 255], i * 4);
+    }
+    const texture = new THREE.DataTexture(data, HEATMAP_COLOR_RAMP_SIZE, 1, THREE.RGBAFormat);
+    texture.magFilter = THREE.LinearFilter;
+    texture.minFilter = THREE.LinearFilter;
+    texture.needsUpdate = true;
+    return texture;
+}
+
 /**
  * Returns a [[THREE.BufferAttribute]] created from a provided
  * {@link @here/harp-datasource-protocol#BufferAttribute} object.
@@ -363,6 +432,13 @@ export function buildObject(
         case "squares":
             return new Squares(geometry, material);
 
+        case "heatmap":
+            return new Heatmap(
+                geometry,
+                material,
+                `${tile.dataSource.name}:${(technique as IndexedTechnique)._styleSetIndex}`
+            );
+
         case "line":
             return new THREE.LineSegments(geometry, material);
 
@@ -444,6 +520,9 @@ export function getMaterialConstructor(
         case "circles":
             return CirclePointsMaterial;
 
+        case "heatmap":
+            return HeatmapMaterial;
+
         case "line":
         case "segments":
             return THREE.LineBasicMaterial;
@@ -495,11 +574,19 @@ function getMainMaterialStyledProps(technique: Technique): StyledProperties {
             if (technique.vertexColors !== true) {
                 baseProps.color = technique.color;
             }
+            if (isExtrudedPolygonTechnique(technique)) {
+                baseProps.heightScale = technique.heightScale;
+            }
             return baseProps;
         }
         case "circles":
         case "squares":
             return pick(technique, automaticAttributes);
+        case "heatmap":
+            return {
+                ...pick(technique, automaticAttributes),
+                heatmapOpacity: technique.opacity
+            };
         case "extruded-line":
             return pick(technique, [
                 "color",
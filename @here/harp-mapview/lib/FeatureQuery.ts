@@ -0,0 +1,851 @@
+/*
+ * Copyright (C) 2017-2020 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+    AttributeMap,
+    Expr,
+    ExprScope,
+    Feature,
+    FeatureGeometry,
+    GeometryType,
+    getFeatureId,
+    IndexedTechnique,
+    JsonExpr,
+    MapEnv
+} from "@here/harp-datasource-protocol";
+import { GeoBox, Projection } from "@here/harp-geoutils";
+import * as THREE from "three";
+
+import { DataSource } from "./DataSource";
+import { MapView } from "./MapView";
+import { PickObjectType } from "./PickHandler";
+import { Tile, TileFeatureData } from "./Tile";
+
+/**
+ * Default distance in pixels around a query point within which features are found.
+ */
+const DEFAULT_QUERY_RADIUS = 3;
+
+/**
+ * Precision used to match vertices of the same feature loaded in different tiles. Geo coordinates
+ * are rounded to this many subdivisions of a degree (about 10cm at the equator).
+ */
+const GEO_PRECISION = 1e6;
+
+/**
+ * A GeoJSON-like feature returned by {@link MapView.queryRenderedFeatures} and
+ * {@link MapView.querySourceFeatures}.
+ *
+ * @remarks
+ * The geometry is reconstructed from the geometry of the loaded tiles. Parts of a feature that
+ * were split across tiles are merged if the feature has an id. Coordinates are given as
+ * `[longitude, latitude]`.
+ */
+export interface QueriedFeature extends Feature {
+    /**
+     * The geometry of the feature, merged from all tiles containing it.
+     */
+    geometry: FeatureGeometry;
+
+    /**
+     * The attributes of the feature. Empty unless the data source gathers feature attributes,
+     * e.g. `VectorTileDataSource` with `gatherFeatureAttributes` enabled.
+     */
+    properties: { [name: string]: any };
+
+    /**
+     * The {@link DataSource} the feature was loaded from.
+     */
+    dataSource: DataSource;
+}
+
+/**
+ * Options common to all feature queries.
+ */
+export interface FeatureQueryOptions {
+    /**
+     * Names of the layers the features must belong to. A feature belongs to a layer if its
+     * `$layer` attribute or the style set of its technique has that name.
+     */
+    layers?: string[];
+
+    /**
+     * Condition the feature attributes must fulfill, in the same format as the `when` condition
+     * of a style, e.g. `["==", ["get", "kind"], "park"]`. The attributes `$id` and
+     * `$geometryType` are always available.
+     */
+    filter?: JsonExpr;
+}
+
+/**
+ * Options for {@link MapView.queryRenderedFeatures}.
+ */
+export interface QueryRenderedFeaturesOptions extends FeatureQueryOptions {
+    /**
+     * Distance in pixels around a query point within which features are found. Ignored when
+     * querying a screen box. Defaults to `3`.
+     */
+    radius?: number;
+}
+
+/**
+ * Options for {@link MapView.querySourceFeatures}.
+ */
+export interface QuerySourceFeaturesOptions extends FeatureQueryOptions {
+    /**
+     * If specified, only features intersecting this box are returned.
+     */
+    geoBox?: GeoBox;
+}
+
+/**
+ * Vertex of a feature, identified by its rounded geo coordinates.
+ */
+interface FeatureVertex {
+    key: string;
+    coordinates: number[];
+}
+
+/**
+ * Part of a feature contained in a single tile object.
+ */
+interface FeaturePiece {
+    key: string;
+    dataSource: DataSource;
+    featureId?: number;
+    kind: PickObjectType;
+    properties: { [name: string]: any };
+    /** Primitives as lists of one (point), two (segment) or three (triangle) vertex indices. */
+    primitives: number[][];
+    vertices: PieceVertices;
+}
+
+/**
+ * Gives access to the vertices of a piece in geo and query space.
+ */
+interface PieceVertices {
+    vertex(index: number): FeatureVertex;
+    point(index: number): THREE.Vector2 | undefined;
+}
+
+/**
+ * Collects the geometry of a feature from all its pieces.
+ */
+interface FeatureAccumulator {
+    piece: FeaturePiece;
+    vertices: Map<string, number[]>;
+    points: Set<string>;
+    segments: Map<string, [string, string]>;
+    triangles: Set<string>;
+    edges: Map<string, { a: string; b: string; count: number }>;
+}
+
+/**
+ * Maps a world position of a tile to the 2D space in which query boxes are defined.
+ */
+type QuerySpace = (
+    worldPosition: THREE.Vector3,
+    geoCoordinates: number[]
+) => THREE.Vector2 | undefined;
+
+const tmpWorldPos = new THREE.Vector3();
+const tmpScreenPos = new THREE.Vector3();
+
+function edgeKey(a: string, b: string): string {
+    return a < b ? `${a}|${b}` : `${b}|${a}`;
+}
+
+function getPickObjectType(geometryType: GeometryType): PickObjectType | undefined {
+    switch (geometryType) {
+        case GeometryType.Point:
+        case GeometryType.Text:
+            return PickObjectType.Point;
+        case GeometryType.Line:
+        case GeometryType.SolidLine:
+            return PickObjectType.Line;
+        case GeometryType.Polygon:
+        case GeometryType.ExtrudedPolygon:
+            return PickObjectType.Area;
+        default:
+            return undefined;
+    }
+}
+
+function getGeometryTypeName(kind: PickObjectType): string {
+    return kind === PickObjectType.Point
+        ? "point"
+        : kind === PickObjectType.Line
+        ? "line"
+        : "polygon";
+}
+
+/**
+ * Checks if the segment `a`-`b` intersects the box.
+ */
+function segmentIntersectsBox(a: THREE.Vector2, b: THREE.Vector2, box: THREE.Box2): boolean {
+    // Liang-Barsky clipping of the segment against the box.
+    let t0 = 0;
+    let t1 = 1;
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const p = [-dx, dx, -dy, dy];
+    const q = [a.x - box.min.x, box.max.x - a.x, a.y - box.min.y, box.max.y - a.y];
+    for (let i = 0; i < 4; i++) {
+        if (p[i] === 0) {
+            if (q[i] < 0) {
+                return false;
+            }
+            continue;
+        }
+        const t = q[i] / p[i];
+        if (p[i] < 0) {
+            t0 = Math.max(t0, t);
+        } else {
+            t1 = Math.min(t1, t);
+        }
+        if (t0 > t1) {
+            return false;
+        }
+    }
+    return true;
+}
+
+function triangleContainsPoint(
+    a: THREE.Vector2,
+    b: THREE.Vector2,
+    c: THREE.Vector2,
+    p: THREE.Vector2
+): boolean {
+    const d1 = (p.x - b.x) * (a.y - b.y) - (a.x - b.x) * (p.y - b.y);
+    const d2 = (p.x - c.x) * (b.y - c.y) - (b.x - c.x) * (p.y - c.y);
+    const d3 = (p.x - a.x) * (c.y - a.y) - (c.x - a.x) * (p.y - a.y);
+    const hasNegative = d1 < 0 || d2 < 0 || d3 < 0;
+    const hasPositive = d1 > 0 || d2 > 0 || d3 > 0;
+    return !(hasNegative && hasPositive);
+}
+
+/**
+ * Checks if a point, segment or triangle intersects the box.
+ */
+function primitiveIntersectsBox(points: THREE.Vector2[], box: THREE.Box2): boolean {
+    if (points.length === 1) {
+        return box.containsPoint(points[0]);
+    }
+    for (let i = 0; i < points.length; i++) {
+        if (segmentIntersectsBox(points[i], points[(i + 1) % points.length], box)) {
+            return true;
+        }
+    }
+    return (
+        points.length === 3 &&
+        triangleContainsPoint(points[0], points[1], points[2], box.getCenter(new THREE.Vector2()))
+    );
+}
+
+/**
+ * Converts a geo box to boxes in geo coordinates, split at the antimeridian because the longitudes
+ * of the vertices are in the range `[-180, 180]`.
+ */
+function getGeoQueryBoxes(geoBox: GeoBox): THREE.Box2[] {
+    const west = THREE.MathUtils.euclideanModulo(geoBox.west + 180, 360) - 180;
+    const east = west + geoBox.longitudeSpan;
+    const boxes = [
+        new THREE.Box2(
+            new THREE.Vector2(west, geoBox.south),
+            new THREE.Vector2(Math.min(east, 180), geoBox.north)
+        )
+    ];
+    if (east > 180) {
+        boxes.push(
+            new THREE.Box2(
+                new THREE.Vector2(-180, geoBox.south),
+                new THREE.Vector2(east - 360, geoBox.north)
+            )
+        );
+    }
+    return boxes;
+}
+
+/**
+ * Computes the signed area of a ring, positive for counter-clockwise rings.
+ */
+function ringArea(ring: number[][]): number {
+    let area = 0;
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+        area += (ring[j][0] - ring[i][0]) * (ring[j][1] + ring[i][1]);
+    }
+    return area / 2;
+}
+
+function ringContainsPoint(ring: number[][], point: number[]): boolean {
+    let inside = false;
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+        const [xi, yi] = ring[i];
+        const [xj, yj] = ring[j];
+        const aboveI = yi > point[1];
+        const aboveJ = yj > point[1];
+        const crossesY = aboveI !== aboveJ;
+        if (crossesY && point[0] < ((xj - xi) * (point[1] - yi)) / (yj - yi) + xi) {
+            inside = !inside;
+        }
+    }
+    return inside;
+}
+
+/**
+ * Chains undirected edges into paths. Paths of open chains stop at junctions, closed chains end
+ * where they started.
+ */
+function chainEdges(edges: Array<[string, string]>, stopAtJunctions: boolean): string[][] {
+    const adjacency = new Map<string, string[]>();
+    for (const [a, b] of edges) {
+        adjacency.set(a, [...(adjacency.get(a) ?? []), b]);
+        adjacency.set(b, [...(adjacency.get(b) ?? []), a]);
+    }
+    const visited = new Set<string>();
+    const walk = (start: string): string[] => {
+        const path = [start];
+        let current = start;
+        for (;;) {
+            const next = adjacency.get(current)!.find(n => !visited.has(edgeKey(current, n)));
+            if (next === undefined) {
+                break;
+            }
+            visited.add(edgeKey(current, next));
+            path.push(next);
+            current = next;
+            if (stopAtJunctions && adjacency.get(current)!.length !== 2) {
+                break;
+            }
+        }
+        return path;
+    };
+
+    const paths: string[][] = [];
+    if (stopAtJunctions) {
+        // Start open chains at their ends or junctions first.
+        adjacency.forEach((neighbors, vertex) => {
+            if (neighbors.length !== 2) {
+                for (const _ of neighbors) {
+                    const path = walk(vertex);
+                    if (path.length > 1) {
+                        paths.push(path);
+                    }
+                }
+            }
+        });
+    }
+    for (const [a, b] of edges) {
+        if (!visited.has(edgeKey(a, b))) {
+            paths.push(walk(a));
+        }
+    }
+    return paths;
+}
+
+/**
+ * Builds the GeoJSON geometry of a feature from its accumulated parts.
+ */
+function buildGeometry(accumulator: FeatureAccumulator): FeatureGeometry | undefined {
+    const toCoordinates = (path: string[]) => path.map(key => accumulator.vertices.get(key)!);
+
+    switch (accumulator.piece.kind) {
+        case PickObjectType.Point: {
+            const points = Array.from(accumulator.points).map(
+                key => accumulator.vertices.get(key)!
+            );
+            if (points.length === 0) {
+                return undefined;
+            }
+            return points.length === 1
+                ? { type: "Point", coordinates: points[0] }
+                : { type: "MultiPoint", coordinates: points };
+        }
+        case PickObjectType.Line: {
+            const lines = chainEdges(Array.from(accumulator.segments.values()), true).map(
+                toCoordinates
+            );
+            if (lines.length === 0) {
+                return undefined;
+            }
+            return lines.length === 1
+                ? { type: "LineString", coordinates: lines[0] }
+                : { type: "MultiLineString", coordinates: lines };
+        }
+        default: {
+            const boundary: Array<[string, string]> = [];
+            accumulator.edges.forEach(edge => {
+                if (edge.count === 1) {
+                    boundary.push([edge.a, edge.b]);
+                }
+            });
+            const rings = chainEdges(boundary, false)
+                .filter(path => path.length > 3 && path[0] === path[path.length - 1])
+                .map(path => {
+                    const ring = toCoordinates(path);
+                    return { ring, area: Math.abs(ringArea(ring)) };
+                })
+                .sort((lhs, rhs) => rhs.area - lhs.area);
+
+            // A ring is a hole if it is contained in an odd number of larger rings.
+            const polygons: number[][][][] = [];
+            const outerRings: Array<{ ring: number[][]; polygon: number[][][] }> = [];
+            rings.forEach(({ ring }, i) => {
+                const depth = rings
+                    .slice(0, i)
+                    .filter(other => ringContainsPoint(other.ring, ring[0])).length;
+                const containing = outerRings.filter(outer =>
+                    ringContainsPoint(outer.ring, ring[0])
+                );
+                const isHole = depth % 2 === 1 && containing.length > 0;
+                const counterClockwise = ringArea(ring) > 0;
+                if (isHole) {
+                    containing[containing.length - 1].polygon.push(
+                        counterClockwise ? ring.reverse() : ring
+                    );
+                } else {
+                    const polygon = [counterClockwise ? ring : ring.reverse()];
+                    outerRings.push({ ring, polygon });
+                    polygons.push(polygon);
+                }
+            });
+            if (polygons.length === 0) {
+                return undefined;
+            }
+            return polygons.length === 1
+                ? { type: "Polygon", coordinates: polygons[0] }
+                : { type: "MultiPolygon", coordinates: polygons };
+        }
+    }
+}
+
+/**
+ * Queries features from the tiles loaded by a {@link MapView}.
+ *
+ * @remarks
+ * Geometry is reconstructed from the `THREE.js` objects of the tiles using the
+ * {@link TileFeatureData} stored in their `userData`: points from point objects and text
+ * elements, lines from the segments of line objects and polygons from the boundary of the
+ * triangles of area objects.
+ *
+ * @internal
+ */
+export class FeatureQuery {
+    private m_pieceCount = 0;
+
+    constructor(readonly mapView: MapView) {}
+
+    /**
+     * Returns the features rendered at a screen position or within a screen box.
+     *
+     * @param geometry - Position or box in CSS/client coordinates.
+     * @param options - Options to restrict the returned features.
+     * @returns The deduplicated features, in the order they were found.
+     */
+    queryRenderedFeatures(
+        geometry: THREE.Vector2 | THREE.Box2,
+        options: QueryRenderedFeaturesOptions = {}
+    ): QueriedFeature[] {
+        const box =
+            geometry instanceof THREE.Box2
+                ? geometry.clone()
+                : new THREE.Box2(geometry.clone(), geometry.clone()).expandByScalar(
+                      options.radius ?? DEFAULT_QUERY_RADIUS
+                  );
+
+        const tiles: Tile[] = [];
+        this.mapView.visibleTileSet.forEachVisibleTile(tile => tiles.push(tile));
+
+        return this.queryTiles(tiles, options, [box], tile => {
+            const worldOffsetX = tile.computeWorldOffsetX();
+            return worldPosition => {
+                tmpScreenPos.copy(worldPosition);
+                tmpScreenPos.x += worldOffsetX;
+                return this.mapView.getScreenPosition(tmpScreenPos);
+            };
+        });
+    }
+
+    /**
+     * Returns the features of a data source contained in its loaded tiles, whether they are
+     * rendered or not.
+     *
+     * @param dataSource - The data source to query.
+     * @param options - Options to restrict the returned features.
+     * @returns The deduplicated features, in the order they were found.
+     */
+    querySourceFeatures(
+        dataSource: DataSource,
+        options: QuerySourceFeaturesOptions = {}
+    ): QueriedFeature[] {
+        const tileList = this.mapView.visibleTileSet.dataSourceTileList.find(
+            entry => entry.dataSource === dataSource
+        );
+        // Only use the tiles of the current storage level and time, the cache may contain the
+        // same features at other levels or times.
+        const mortonCodes = new Set<number>();
+        const tiles: Tile[] = [];
+        this.mapView.visibleTileSet.forEachCachedTile(tile => {
+            const mortonCode = tile.tileKey.mortonCode();
+            if (
+                (tileList === undefined || tile.tileKey.level === tileList.storageLevel) &&
+                tile.time === dataSource.time &&
+                !mortonCodes.has(mortonCode)
+            ) {
+                mortonCodes.add(mortonCode);
+                tiles.push(tile);
+            }
+        }, dataSource);
+
+        const boxes = options.geoBox !== undefined ? getGeoQueryBoxes(options.geoBox) : undefined;
+
+        return this.queryTiles(tiles, options, boxes, () => (_worldPosition, coordinates) =>
+            new THREE.Vector2(coordinates[0], coordinates[1])
+        );
+    }
+
+    private queryTiles(
+        tiles: Tile[],
+        options: FeatureQueryOptions,
+        boxes: THREE.Box2[] | undefined,
+        getQuerySpace: (tile: Tile) => QuerySpace
+    ): QueriedFeature[] {
+        const filter = options.filter !== undefined ? Expr.fromJSON(options.filter) : undefined;
+        const pieces: FeaturePiece[] = [];
+        const hitKeys = new Set<string>();
+
+        for (const tile of tiles) {
+            const querySpace = getQuerySpace(tile);
+            this.getTilePieces(tile, querySpace, (piece, technique) => {
+                if (!this.acceptsPiece(piece, options, filter, technique)) {
+                    return;
+                }
+                pieces.push(piece);
+                if (!hitKeys.has(piece.key) && this.pieceIntersectsBoxes(piece, boxes)) {
+                    hitKeys.add(piece.key);
+                }
+            });
+        }
+
+        const accumulators = new Map<string, FeatureAccumulator>();
+        for (const piece of pieces) {
+            if (!hitKeys.has(piece.key)) {
+                continue;
+            }
+            let accumulator = accumulators.get(piece.key);
+            if (accumulator === undefined) {
+                accumulator = {
+                    piece,
+                    vertices: new Map(),
+                    points: new Set(),
+                    segments: new Map(),
+                    triangles: new Set(),
+                    edges: new Map()
+                };
+                accumulators.set(piece.key, accumulator);
+            } else if (piece.kind > accumulator.piece.kind) {
+                // Prefer the geometry of areas over lines and of lines over points, e.g. the
+                // polygon of a building over the point of its label.
+                accumulator.piece = piece;
+                accumulator.points.clear();
+                accumulator.segments.clear();
+            } else if (piece.kind < accumulator.piece.kind) {
+                continue;
+            }
+            this.addPiece(accumulator, piece);
+        }
+
+        const features: QueriedFeature[] = [];
+        accumulators.forEach(accumulator => {
+            const geometry = buildGeometry(accumulator);
+            if (geometry === undefined) {
+                return;
+            }
+            const { featureId, properties, dataSource } = accumulator.piece;
+            features.push({
+                type: "Feature",
+                ...(featureId !== undefined && { id: String(featureId) }),
+                geometry,
+                properties,
+                dataSource
+            });
+        });
+        return features;
+    }
+
+    private acceptsPiece(
+        piece: FeaturePiece,
+        options: FeatureQueryOptions,
+        filter: Expr | undefined,
+        technique?: IndexedTechnique
+    ): boolean {
+        if (options.layers !== undefined) {
+            const layer = piece.properties.$layer;
+            const styleSet = technique?._styleSet;
+            if (
+                !options.layers.includes(layer) &&
+                (styleSet === undefined || !options.layers.includes(styleSet))
+            ) {
+                return false;
+            }
+        }
+        if (filter !== undefined) {
+            const env = new MapEnv({
+                $geometryType: getGeometryTypeName(piece.kind),
+                ...(piece.featureId !== undefined && { $id: piece.featureId }),
+                ...piece.properties
+            });
+            return Boolean(filter.evaluate(env, ExprScope.Condition));
+        }
+        return true;
+    }
+
+    private pieceIntersectsBoxes(piece: FeaturePiece, boxes: THREE.Box2[] | undefined): boolean {
+        if (boxes === undefined) {
+            return true;
+        }
+        const points: THREE.Vector2[] = [];
+        for (const primitive of piece.primitives) {
+            points.length = 0;
+            for (const index of primitive) {
+                const point = piece.vertices.point(index);
+                if (point === undefined) {
+                    break;
+                }
+                points.push(point);
+            }
+            if (
+                points.length === primitive.length &&
+                boxes.some(box => primitiveIntersectsBox(points, box))
+            ) {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    private addPiece(accumulator: FeatureAccumulator, piece: FeaturePiece) {
+        const keys: string[] = [];
+        for (const primitive of piece.primitives) {
+            keys.length = 0;
+            for (const index of primitive) {
+                const vertex = piece.vertices.vertex(index);
+                if (!accumulator.vertices.has(vertex.key)) {
+                    accumulator.vertices.set(vertex.key, vertex.coordinates);
+                }
+                if (!keys.includes(vertex.key)) {
+                    keys.push(vertex.key);
+                }
+            }
+            if (piece.kind === PickObjectType.Point) {
+                keys.forEach(key => accumulator.points.add(key));
+            } else if (piece.kind === PickObjectType.Line) {
+                // Solid lines are made of triangles between two center line positions, so these
+                // collapse to segments too.
+                const segmentCount = keys.length === 2 ? 1 : keys.length;
+                for (let i = 0; keys.length > 1 && i < segmentCount; i++) {
+                    const a = keys[i];
+                    const b = keys[(i + 1) % keys.length];
+                    accumulator.segments.set(edgeKey(a, b), [a, b]);
+                }
+            } else if (keys.length === 3) {
+                // Skip degenerate triangles, e.g. walls of extruded polygons, and triangles
+                // already added from another tile or object.
+                const triangleKey = keys
+                    .slice()
+                    .sort()
+                    .join("|");
+                if (accumulator.triangles.has(triangleKey)) {
+                    continue;
+                }
+                accumulator.triangles.add(triangleKey);
+                for (let i = 0; i < 3; i++) {
+                    const a = keys[i];
+                    const b = keys[(i + 1) % 3];
+                    const key = edgeKey(a, b);
+                    const edge = accumulator.edges.get(key);
+                    if (edge !== undefined) {
+                        edge.count++;
+                    } else {
+                        accumulator.edges.set(key, { a, b, count: 1 });
+                    }
+                }
+            }
+        }
+    }
+
+    /**
+     * Calls `callback` with every feature piece of the objects and text elements of a tile.
+     */
+    private getTilePieces(
+        tile: Tile,
+        querySpace: QuerySpace,
+        callback: (piece: FeaturePiece, technique?: IndexedTechnique) => void
+    ) {
+        const projection = this.mapView.projection;
+
+        for (const object of tile.objects) {
+            const featureData: TileFeatureData | undefined = object.userData?.feature;
+            if (featureData?.geometryType === undefined) {
+                continue;
+            }
+            const kind = getPickObjectType(featureData.geometryType);
+            const geometry = (object as THREE.Mesh).geometry;
+            if (kind === undefined || !(geometry instanceof THREE.BufferGeometry)) {
+                continue;
+            }
+            const position = geometry.getAttribute("position");
+            if (
+                position === undefined ||
+                // Outlines of areas don't contribute to the feature geometry.
+                (kind === PickObjectType.Area && !(object instanceof THREE.Mesh))
+            ) {
+                continue;
+            }
+            const index = geometry.index;
+            const vertices = this.createVertices(
+                (i, target) =>
+                    target
+                        .set(position.getX(i), position.getY(i), position.getZ(i))
+                        .add(tile.center),
+                projection,
+                querySpace
+            );
+            const objInfos = featureData.objInfos ?? [undefined];
+            const technique: IndexedTechnique | undefined = object.userData.technique;
+
+            if (object instanceof THREE.Points) {
+                for (let i = 0; i < position.count; i++) {
+                    const objInfo = objInfos.length === 1 ? objInfos[0] : objInfos[i];
+                    callback(this.createPiece(tile, kind, objInfo, [[i]], vertices), technique);
+                }
+                continue;
+            }
+
+            const count = index !== null ? index.count : position.count;
+            const starts =
+                featureData.starts !== undefined && featureData.starts.length > 0
+                    ? featureData.starts
+                    : [0];
+            const primitiveSize =
+                object instanceof THREE.LineSegments ? 2 : object instanceof THREE.Line ? 0 : 3;
+            starts.forEach((start, i) => {
+                const end = i + 1 < starts.length ? starts[i + 1] : count;
+                const vertexIndex = (j: number) => (index !== null ? index.getX(j) : j);
+                const primitives: number[][] = [];
+                if (primitiveSize === 0) {
+                    // Line strips.
+                    for (let j = start; j + 1 < end; j++) {
+                        primitives.push([vertexIndex(j), vertexIndex(j + 1)]);
+                    }
+                } else {
+                    for (let j = start; j + primitiveSize <= end; j += primitiveSize) {
+                        const primitive: number[] = [];
+                        for (let k = 0; k < primitiveSize; k++) {
+                            primitive.push(vertexIndex(j + k));
+                        }
+                        primitives.push(primitive);
+                    }
+                }
+                callback(
+                    this.createPiece(tile, kind, objInfos[i], primitives, vertices),
+                    technique
+                );
+            });
+        }
+
+        // Text elements are in world space and include the world offset of the tile.
+        const worldOffsetX = tile.computeWorldOffsetX();
+        tile.textElementGroups.groups.forEach(group => {
+            for (const textElement of group.elements) {
+                if (textElement.path !== undefined || textElement.userData === undefined) {
+                    continue;
+                }
+                const vertices = this.createVertices(
+                    (_, target) => {
+                        target.copy(textElement.position);
+                        target.x -= worldOffsetX;
+                        return target;
+                    },
+                    projection,
+                    querySpace
+                );
+                callback(
+                    this.createPiece(
+                        tile,
+                        PickObjectType.Point,
+                        textElement.userData,
+                        [[0]],
+                        vertices
+                    )
+                );
+            }
+        });
+    }
+
+    private createPiece(
+        tile: Tile,
+        kind: PickObjectType,
+        objInfo: AttributeMap | undefined,
+        primitives: number[][],
+        vertices: PieceVertices
+    ): FeaturePiece {
+        const dataSource = tile.dataSource;
+        const featureId = getFeatureId(objInfo);
+        const hasId = featureId !== 0 && featureId !== undefined;
+        return {
+            key: hasId
+                ? `${dataSource.name}/${featureId}`
+                : `${dataSource.name}/#${this.m_pieceCount++}`,
+            dataSource,
+            featureId: hasId ? featureId : undefined,
+            kind,
+            properties: typeof objInfo === "object" ? { ...objInfo } : {},
+            primitives,
+            vertices
+        };
+    }
+
+    /**
+     * Creates an accessor for the vertices of an object, caching their projections.
+     */
+    private createVertices(
+        getWorldPosition: (index: number, target: THREE.Vector3) => THREE.Vector3,
+        projection: Projection,
+        querySpace: QuerySpace
+    ): PieceVertices {
+        const vertices = new Map<number, FeatureVertex>();
+        const points = new Map<number, THREE.Vector2 | undefined>();
+        const vertex = (index: number) => {
+            let result = vertices.get(index);
+            if (result === undefined) {
+                const geoPoint = projection.unprojectPoint(getWorldPosition(index, tmpWorldPos));
+                const longitude = Math.round(geoPoint.longitude * GEO_PRECISION);
+                const latitude = Math.round(geoPoint.latitude * GEO_PRECISION);
+                result = {
+                    key: `${longitude},${latitude}`,
+                    // Adding 0 turns rounded -0 into 0.
+                    coordinates: [longitude / GEO_PRECISION + 0, latitude / GEO_PRECISION + 0]
+                };
+                vertices.set(index, result);
+            }
+            return result;
+        };
+        return {
+            vertex,
+            point: (index: number) => {
+                if (!points.has(index)) {
+                    const coordinates = vertex(index).coordinates;
+                    points.set(
+                        index,
+                        querySpace(getWorldPosition(index, tmpWorldPos), coordinates)
+                    );
+                }
+                return points.get(index);
+            }
+        };
+    }
+}
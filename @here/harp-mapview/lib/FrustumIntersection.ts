@@ -104,6 +104,22 @@ export class FrustumIntersection {
         return this.m_camera;
     }
 
+    /**
+     * Creates a `FrustumIntersection` with the same settings, computing the tiles intersected by
+     * the frustum of another camera.
+     *
+     * @param camera - The camera used for generating the frustum.
+     */
+    cloneForCamera(camera: THREE.PerspectiveCamera): FrustumIntersection {
+        return new FrustumIntersection(
+            camera,
+            this.mapView,
+            this.m_extendedFrustumCulling,
+            this.m_tileWrappingEnabled,
+            this.m_enableMixedLod
+        );
+    }
+
     /**
      * Return projection used to convert geo coordinates to world coordinates.
      */
@@ -4,8 +4,20 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import { ColorUtils, Expr, getPropertyValue, Value } from "@here/harp-datasource-protocol";
-import { disableBlending, enableBlending } from "@here/harp-materials";
+import {
+    ColorUtils,
+    Expr,
+    getPropertyValue,
+    MapEnv,
+    Value,
+    ValueMap
+} from "@here/harp-datasource-protocol";
+import {
+    disableBlending,
+    enableBlending,
+    ExtrusionFeatureDefs,
+    hasExtrusionFeature
+} from "@here/harp-materials";
 import * as THREE from "three";
 
 import { evaluateColorProperty } from "./DecodedTileHelpers";
@@ -68,9 +80,12 @@ export class MapMaterialAdapter {
 
     static create(
         material: THREE.Material,
-        styledProperties: StyledProperties
+        styledProperties: StyledProperties,
+        featureState?: ValueMap
     ): MapMaterialAdapter {
-        return MapMaterialAdapter.install(new MapMaterialAdapter(material, styledProperties));
+        return MapMaterialAdapter.install(
+            new MapMaterialAdapter(material, styledProperties, featureState)
+        );
     }
 
     static ensureUpdated(material: THREE.Material, context: MapAdapterUpdateEnv): boolean {
@@ -97,12 +112,30 @@ export class MapMaterialAdapter {
      */
     readonly currentStyledProperties: { [name: string]: Value | undefined };
 
+    /**
+     * Feature state used to evaluate `feature-state` expressions of [[styledProperties]].
+     *
+     * `undefined` for materials shared by all features of an object, in which case the state of
+     * every feature is `null`.
+     */
+    readonly featureState?: ValueMap;
+
     private m_lastUpdateFrameNumber = -1;
     private readonly m_dynamicProperties: Array<[string, Expr | StylePropertyEvaluator]>;
+    private m_stateVariants?: Map<string, MapMaterialAdapter>;
+    private m_featureStateProperties?: string[] | null;
+    private m_baseAdapter?: MapMaterialAdapter;
+    private m_stateKey?: string;
+    private m_useCount = 0;
 
-    constructor(material: THREE.Material, styledProperties: StyledProperties) {
+    constructor(
+        material: THREE.Material,
+        styledProperties: StyledProperties,
+        featureState?: ValueMap
+    ) {
         this.material = material;
         this.styledProperties = styledProperties;
+        this.featureState = featureState;
 
         this.currentStyledProperties = {};
         this.m_dynamicProperties = [];
@@ -120,6 +153,81 @@ export class MapMaterialAdapter {
         this.setupStaticProperties();
     }
 
+    /**
+     * Get the material used to render features in given state.
+     *
+     * Variants are clones of [[material]] sharing its [[styledProperties]], but evaluating
+     * `feature-state` expressions with `featureState`. Variants are created on first use and
+     * reused for all features whose state is equal in the properties referenced by
+     * [[styledProperties]].
+     *
+     * A variant is kept until its last user calls [[releaseStateVariant]], see
+     * [[retainStateVariant]].
+     *
+     * @param featureState - The state of the features, see [[DataSource.setFeatureState]].
+     * @returns The material variant for `featureState`.
+     */
+    getStateVariant(featureState: ValueMap): THREE.Material {
+        const key = this.getStateKey(featureState);
+        if (this.m_stateVariants === undefined) {
+            this.m_stateVariants = new Map();
+        }
+        let variant = this.m_stateVariants.get(key);
+        if (variant === undefined) {
+            variant = MapMaterialAdapter.create(
+                this.material.clone(),
+                this.styledProperties,
+                featureState
+            );
+            variant.m_baseAdapter = this;
+            variant.m_stateKey = key;
+            this.m_stateVariants.set(key, variant);
+        }
+        return variant.material;
+    }
+
+    /**
+     * Registers a new user of a material variant returned by [[getStateVariant]].
+     *
+     * @param variant - The material variant.
+     */
+    retainStateVariant(variant: THREE.Material) {
+        const variantAdapter = MapMaterialAdapter.get(variant);
+        if (variantAdapter !== undefined && variantAdapter.m_baseAdapter === this) {
+            variantAdapter.m_useCount++;
+        }
+    }
+
+    /**
+     * Unregisters a user of a material variant registered with [[retainStateVariant]]. The
+     * variant is disposed when no user is left.
+     *
+     * @param variant - The material variant.
+     */
+    releaseStateVariant(variant: THREE.Material) {
+        const variantAdapter = MapMaterialAdapter.get(variant);
+        if (
+            variantAdapter === undefined ||
+            variantAdapter.m_baseAdapter !== this ||
+            --variantAdapter.m_useCount > 0
+        ) {
+            return;
+        }
+        this.m_stateVariants?.delete(variantAdapter.m_stateKey!);
+        variant.dispose();
+    }
+
+    /**
+     * Disposes all material variants created by [[getStateVariant]].
+     */
+    dispose() {
+        if (this.m_stateVariants === undefined) {
+            return;
+        }
+        this.m_stateVariants.forEach(variant => variant.material.dispose());
+        this.m_stateVariants.clear();
+    }
+
     /**
      * Serialize contents.
      *
@@ -145,7 +253,47 @@ export class MapMaterialAdapter {
         }
         this.m_lastUpdateFrameNumber = context.frameNumber;
 
-        return this.updateDynamicProperties(context);
+        if (this.featureState === undefined) {
+            return this.updateDynamicProperties(context);
+        }
+
+        const stateContext: MapAdapterUpdateEnv = {
+            env: new MapEnv({ $state: new MapEnv(this.featureState) }, context.env),
+            frameNumber: context.frameNumber
+        };
+        const changed = this.updateDynamicProperties(stateContext);
+        return this.updateHeightScale() || changed;
+    }
+
+    /**
+     * Gets the key of the variant for `featureState`, built from the sorted values of the feature
+     * state properties referenced by [[styledProperties]].
+     */
+    private getStateKey(featureState: ValueMap): string {
+        if (this.m_featureStateProperties === undefined) {
+            this.m_featureStateProperties = this.getFeatureStateProperties();
+        }
+        const names = this.m_featureStateProperties ?? Object.keys(featureState).sort();
+        return JSON.stringify(names.map(name => [name, featureState[name] ?? null]));
+    }
+
+    /**
+     * Gets the sorted names of the feature state properties referenced by [[styledProperties]],
+     * `null` if they can't be determined before evaluation.
+     */
+    private getFeatureStateProperties(): string[] | null {
+        const names = new Set<string>();
+        for (const [, propDefinition] of this.m_dynamicProperties) {
+            if (!Expr.isExpr(propDefinition)) {
+                continue;
+            }
+            const featureStateProperties = propDefinition.dependencies().featureStateProperties;
+            if (featureStateProperties === undefined) {
+                return null;
+            }
+            featureStateProperties.forEach(name => names.add(name));
+        }
+        return Array.from(names).sort();
     }
 
     /**
@@ -163,7 +311,7 @@ export class MapMaterialAdapter {
             }
             if (propName === "color" || propName === "opacity") {
                 updateBaseColor = true;
-            } else {
+            } else if (propName !== "heightScale") {
                 this.applyMaterialGenericProp(propName, currentValue);
             }
         }
@@ -194,7 +342,7 @@ export class MapMaterialAdapter {
                 // `color` and `opacity` are special properties to support RGBA
                 if (propName === "color" || propName === "opacity") {
                     updateBaseColor = true;
-                } else {
+                } else if (propName !== "heightScale") {
                     this.applyMaterialGenericProp(propName, newValue);
                     somethingChanged = true;
                 }
@@ -210,6 +358,30 @@ export class MapMaterialAdapter {
         return somethingChanged;
     }
 
+    /**
+     * Scales the extrusion of a feature state variant relative to the extrusion of its base
+     * material, which may be animated by `AnimatedExtrusionHandler`.
+     */
+    private updateHeightScale(): boolean {
+        const heightScale = this.currentStyledProperties.heightScale;
+        const material: unknown = this.material;
+        const baseMaterial: unknown = this.m_baseAdapter?.material;
+        if (
+            typeof heightScale !== "number" ||
+            !hasExtrusionFeature(material) ||
+            !hasExtrusionFeature(baseMaterial)
+        ) {
+            return false;
+        }
+        const extrusionRatio =
+            (baseMaterial.extrusionRatio ?? ExtrusionFeatureDefs.DEFAULT_RATIO_MAX) * heightScale;
+        if (material.extrusionRatio === extrusionRatio) {
+            return false;
+        }
+        material.extrusionRatio = extrusionRatio;
+        return true;
+    }
+
     private applyMaterialGenericProp(propName: string, value: Value) {
         const m = this.material as any;
         if (m[propName] instanceof THREE.Color) {
@@ -239,7 +411,11 @@ export class MapMaterialAdapter {
         const { r, g, b, a } = ColorUtils.getRgbaFromHex(color ?? 0xff0000);
         const actualOpacity = a * THREE.MathUtils.clamp(opacity ?? 1, 0, 1);
         this.material.opacity = actualOpacity;
-        (this.material as any).color.setRGB(r, g, b);
+        // Materials without color, like raster tile materials, only apply the opacity.
+        const materialColor = (this.material as any).color;
+        if (materialColor instanceof THREE.Color) {
+            materialColor.setRGB(r, g, b);
+        }
 
         const opaque = actualOpacity >= 1.0;
         if (!opaque) {
@@ -59,6 +59,12 @@ import { DataSource } from "./DataSource";
 import { ElevationProvider } from "./ElevationProvider";
 import { ElevationRangeSource } from "./ElevationRangeSource";
 import { EventDispatcher } from "./EventDispatcher";
+import {
+    FeatureQuery,
+    QueriedFeature,
+    QueryRenderedFeaturesOptions,
+    QuerySourceFeaturesOptions
+} from "./FeatureQuery";
 import { FrustumIntersection } from "./FrustumIntersection";
 import { overlayOnElevation } from "./geometry/overlayOnElevation";
 import { SolidLineMesh } from "./geometry/SolidLineMesh";
@@ -66,6 +72,7 @@ import { TileGeometryManager } from "./geometry/TileGeometryManager";
 import { MapViewImageCache } from "./image/MapViewImageCache";
 import { IntersectParams } from "./IntersectParams";
 import { MapAnchors } from "./MapAnchors";
+import { MapMaterialAdapter } from "./MapMaterialAdapter";
 import { MapObjectAdapter } from "./MapObjectAdapter";
 import { MapViewFog } from "./MapViewFog";
 import { MapViewTaskScheduler } from "./MapViewTaskScheduler";
@@ -88,8 +95,10 @@ import { TextElementsRendererOptions } from "./text/TextElementsRendererOptions"
 import { createLight } from "./ThemeHelpers";
 import { ThemeLoader } from "./ThemeLoader";
 import { Tile, TileFeatureData, TileObject } from "./Tile";
+import { TilePrefetcher, TilePrefetchOptions } from "./TilePrefetcher";
 import { MapViewUtils } from "./Utils";
 import { ResourceComputationType, VisibleTileSet, VisibleTileSetOptions } from "./VisibleTileSet";
+import { WorkerBasedGlyphSource } from "./WorkerBasedGlyphSource";
 
 declare const process: any;
 
@@ -105,8 +114,9 @@ if (isProduction) {
 export enum TileTaskGroups {
     FETCH_AND_DECODE = "fetch",
     //DECODE = "decode",
-    CREATE = "create"
+    CREATE = "create",
     //UPLOAD = "upload"
+    PREFETCH = "prefetch"
 }
 
 export enum MapViewEventNames {
@@ -281,6 +291,16 @@ export interface MapViewOptions extends TextElementsRendererOptions, Partial<Loo
      */
     context?: WebGLRenderingContext;
 
+    /**
+     * Optional renderer used instead of a `THREE.WebGLRenderer` created for [[canvas]].
+     *
+     * @remarks
+     * Allows rendering without WebGL, e.g. with the {@link SoftwareRenderer} used by
+     * {@link HeadlessMapView}. The options [[context]], [[alpha]], [[enableNativeWebglAntialias]],
+     * [[preserveDrawingBuffer]] and [[powerPreference]] are ignored if a renderer is given.
+     */
+    renderer?: THREE.WebGLRenderer;
+
     /**
      * `true` if the canvas contains an alpha (transparency) buffer or not. Default is `false`.
      */
@@ -636,6 +656,17 @@ export interface MapViewOptions extends TextElementsRendererOptions, Partial<Loo
      */
     throttlingEnabled?: boolean;
 
+    /**
+     * Enable loading the tiles which will soon be visible, predicted from the camera movement and
+     * the destinations of camera animations, see {@link TilePrefetcher}.
+     *
+     * @remarks
+     * The prefetched tiles are loaded with lower priority than the visible tiles, but increase
+     * the network traffic.
+     * @default false
+     */
+    tilePrefetching?: boolean | TilePrefetchOptions;
+
     /**
      * If set, the view will constrained within the given bounds in geo coordinates.
      */
@@ -887,6 +918,7 @@ export class MapView extends EventDispatcher {
     private m_frameNumber = 0;
 
     private m_textElementsRenderer: TextElementsRenderer;
+    private m_glyphSource?: WorkerBasedGlyphSource;
 
     private m_forceCameraAspect: number | undefined = undefined;
 
@@ -923,6 +955,7 @@ export class MapView extends EventDispatcher {
     private readonly handleRequestAnimationFrame: (frameStartTime: number) => void;
 
     private readonly m_pickHandler: PickHandler;
+    private readonly m_featureQuery: FeatureQuery = new FeatureQuery(this);
 
     private readonly m_imageCache: MapViewImageCache = new MapViewImageCache(this);
     private readonly m_userImageCache: MapViewImageCache = new MapViewImageCache(this);
@@ -935,6 +968,7 @@ export class MapView extends EventDispatcher {
 
     // Detection of camera movement and scene change:
     private readonly m_movementDetector: CameraMovementDetector;
+    private readonly m_tilePrefetcher?: TilePrefetcher;
 
     private m_thisFrameTilesChanged: boolean | undefined;
     private m_lastTileIds: string = "";
@@ -1037,6 +1071,13 @@ export class MapView extends EventDispatcher {
             this.m_enablePolarDataSource = options.enablePolarDataSource;
         }
 
+        let tilePrefetchOptions: TilePrefetchOptions | undefined;
+        if (options.tilePrefetching !== undefined && options.tilePrefetching !== false) {
+            tilePrefetchOptions = options.tilePrefetching === true ? {} : options.tilePrefetching;
+            this.m_visibleTileSetOptions.maxPrefetchedTiles =
+                tilePrefetchOptions.maxPrefetchedTiles;
+        }
+
         this.m_pixelRatio = options.pixelRatio;
         this.m_options.maxFps = this.m_options.maxFps ?? 0;
 
@@ -1071,17 +1112,19 @@ export class MapView extends EventDispatcher {
         this.canvas.addEventListener("webglcontextrestored", this.onWebGLContextRestored);
 
         // Initialization of the renderer, enable backward compatibility with three.js <= 0.117
-        this.m_renderer = new ((THREE as any).WebGL1Renderer ?? THREE.WebGLRenderer)({
-            canvas: this.canvas,
-            context: this.m_options.context,
-            antialias: this.nativeWebglAntialiasEnabled,
-            alpha: this.m_options.alpha,
-            preserveDrawingBuffer: this.m_options.preserveDrawingBuffer === true,
-            powerPreference:
-                this.m_options.powerPreference === undefined
-                    ? MapViewPowerPreference.Default
-                    : this.m_options.powerPreference
-        });
+        this.m_renderer =
+            this.m_options.renderer ??
+            new ((THREE as any).WebGL1Renderer ?? THREE.WebGLRenderer)({
+                canvas: this.canvas,
+                context: this.m_options.context,
+                antialias: this.nativeWebglAntialiasEnabled,
+                alpha: this.m_options.alpha,
+                preserveDrawingBuffer: this.m_options.preserveDrawingBuffer === true,
+                powerPreference:
+                    this.m_options.powerPreference === undefined
+                        ? MapViewPowerPreference.Default
+                        : this.m_options.powerPreference
+            });
         this.m_renderer.autoClear = false;
         this.m_renderer.debug.checkShaderErrors = !isProduction;
 
@@ -1118,6 +1161,13 @@ export class MapView extends EventDispatcher {
         // Must be initialized before setupCamera, because the VisibleTileSet is created as part
         // of the setupCamera method and it needs the TaskQueue instance.
         this.m_taskScheduler = new MapViewTaskScheduler(this.maxFps);
+        if (tilePrefetchOptions !== undefined) {
+            this.m_tilePrefetcher = new TilePrefetcher(this, tilePrefetchOptions);
+            if (tilePrefetchOptions.maxTasksPerFrame !== undefined) {
+                this.m_taskScheduler.maxPrefetchTasksPerFrame =
+                    tilePrefetchOptions.maxTasksPerFrame;
+            }
+        }
 
         // setup camera with initial position
         this.setupCamera();
@@ -1248,6 +1298,14 @@ export class MapView extends EventDispatcher {
         return this.m_movementDetector;
     }
 
+    /**
+     * The {@link TilePrefetcher} loading the tiles which will soon be visible, `undefined` if
+     * {@link MapViewOptions.tilePrefetching} is not enabled.
+     */
+    get tilePrefetcher(): TilePrefetcher | undefined {
+        return this.m_tilePrefetcher;
+    }
+
     /**
      * The {@link AnimatedExtrusionHandler} controls animated extrusion effect
      * of the extruded objects in the {@link Tile}
@@ -1336,6 +1394,7 @@ export class MapView extends EventDispatcher {
         }
         this.m_visibleTiles.clearTileCache();
         this.m_textElementsRenderer.clearRenderStates();
+        this.mapRenderingManager.dispose();
         this.m_renderer.dispose();
 
         if (freeContext) {
@@ -1348,10 +1407,16 @@ export class MapView extends EventDispatcher {
         }
 
         this.m_imageCache.clear();
+        this.poiManager.clear();
         this.m_tileGeometryManager.clear();
 
         this.m_movementDetector.dispose();
 
+        if (this.m_glyphSource !== undefined) {
+            this.m_glyphSource.dispose();
+            this.m_glyphSource = undefined;
+        }
+
         // Destroy the facade if the there are no workers active anymore.
         ConcurrentDecoderFacade.destroyIfTerminated();
         ConcurrentTilerFacade.destroyIfTerminated();
@@ -2803,6 +2868,47 @@ export class MapView extends EventDispatcher {
         return this.m_pickHandler.intersectMapObjects(x, y, parameters);
     }
 
+    /**
+     * Returns the features rendered at a screen position or within a screen box.
+     *
+     * @remarks
+     * Unlike {@link MapView.intersectMapObjects}, the features are returned as GeoJSON-like
+     * objects with their full geometry, reconstructed from the loaded tiles. Features split
+     * across several tiles are merged into one if they have a feature id. Feature attributes are
+     * only available if the data source gathers them, e.g. `VectorTileDataSource` with
+     * `gatherFeatureAttributes` enabled.
+     *
+     * @param geometry - A position or box in css/client coordinates (without applied display
+     * ratio).
+     * @param options - Options to restrict the returned features to some layers or attributes.
+     * @returns The list of deduplicated features.
+     */
+    queryRenderedFeatures(
+        geometry: THREE.Vector2 | THREE.Box2,
+        options?: QueryRenderedFeaturesOptions
+    ): QueriedFeature[] {
+        return this.m_featureQuery.queryRenderedFeatures(geometry, options);
+    }
+
+    /**
+     * Returns the features of a data source contained in its loaded tiles, including tiles that
+     * are cached but not rendered.
+     *
+     * @remarks
+     * See {@link MapView.queryRenderedFeatures} for the format of the features.
+     *
+     * @param dataSource - The data source to query.
+     * @param options - Options to restrict the returned features to a geo box, some layers or
+     * attributes.
+     * @returns The list of deduplicated features.
+     */
+    querySourceFeatures(
+        dataSource: DataSource,
+        options?: QuerySourceFeaturesOptions
+    ): QueriedFeature[] {
+        return this.m_featureQuery.querySourceFeatures(dataSource, options);
+    }
+
     /**
      * Resize the HTML canvas element and the THREE.js `WebGLRenderer`.
      *
@@ -3730,13 +3836,21 @@ export class MapView extends EventDispatcher {
             currentFrameEvent.addValue("renderCount.numTilesRendered", 0);
             currentFrameEvent.addValue("renderCount.numTilesVisible", 0);
             currentFrameEvent.addValue("renderCount.numTilesLoading", 0);
+            currentFrameEvent.addValue("memory.geometryMemoryUsage", 0);
 
             // Increment the counters for all data sources.
             renderList.forEach(({ zoomLevel, renderedTiles, visibleTiles, numTilesLoading }) => {
                 currentFrameEvent!.addValue("renderCount.numTilesRendered", renderedTiles.size);
                 currentFrameEvent!.addValue("renderCount.numTilesVisible", visibleTiles.length);
                 currentFrameEvent!.addValue("renderCount.numTilesLoading", numTilesLoading);
+                renderedTiles.forEach(tile => {
+                    currentFrameEvent!.addValue("memory.geometryMemoryUsage", tile.memoryUsage);
+                });
             });
+            currentFrameEvent.setValue(
+                "decode.numQueuedRequests",
+                ConcurrentDecoderFacade.requestQueueSize
+            );
         }
 
         if (this.m_movementDetector.checkCameraMoved(this, frameStartTime)) {
@@ -3757,6 +3871,19 @@ export class MapView extends EventDispatcher {
             });
         }
 
+        if (this.m_tilePrefetcher !== undefined && !this.lockVisibleTileSet) {
+            this.m_tilePrefetcher.update(
+                this.m_visibleTiles,
+                this.getEnabledTileDataSources(),
+                this.m_movementDetector.cameraVelocity,
+                this.m_elevationRangeSource
+            );
+        }
+        if (!this.lockVisibleTileSet) {
+            // Load the neighboring time steps of data sources with a time dimension.
+            this.m_visibleTiles.prefetchTimeSteps();
+        }
+
         // The camera used to render the scene.
         const camera = this.m_pointOfView !== undefined ? this.m_pointOfView : this.m_rteCamera;
 
@@ -3839,6 +3966,42 @@ export class MapView extends EventDispatcher {
             currentFrameEvent.setValue("render.fullFrameTime", frameRenderTime);
             currentFrameEvent.setValue("render.geometryCreationTime", 0);
 
+            const trace = stats.trace;
+            if (trace.recording) {
+                trace.addCompleteEvent("Frame", "render", frameStartTime, frameRenderTime, {
+                    frameNumber: this.m_frameNumber
+                });
+                trace.addCompleteEvent(
+                    "Setup",
+                    "render",
+                    frameStartTime,
+                    setupTime! - frameStartTime
+                );
+                trace.addCompleteEvent("Cull", "render", setupTime!, cullTime! - setupTime!);
+                trace.addCompleteEvent(
+                    "TextPlacement",
+                    "render",
+                    cullTime!,
+                    textPlacementTime! - cullTime!
+                );
+                trace.addCompleteEvent(
+                    "Draw",
+                    "render",
+                    textPlacementTime!,
+                    drawTime! - textPlacementTime!
+                );
+                trace.addCompleteEvent("TextDraw", "render", drawTime!, textDrawTime! - drawTime!);
+                trace.addCompleteEvent("Cleanup", "render", textDrawTime!, endTime - textDrawTime!);
+                trace.addCounterEvent("Tiles", frameStartTime, {
+                    rendered: currentFrameEvent.getValue("renderCount.numTilesRendered") ?? 0,
+                    visible: currentFrameEvent.getValue("renderCount.numTilesVisible") ?? 0,
+                    loading: currentFrameEvent.getValue("renderCount.numTilesLoading") ?? 0
+                });
+                trace.addCounterEvent("DecodeQueue", frameStartTime, {
+                    requests: currentFrameEvent.getValue("decode.numQueuedRequests") ?? 0
+                });
+            }
+
             // Add THREE.js statistics
             stats.addWebGLInfo(this.m_renderer.info);
 
@@ -4000,15 +4163,30 @@ export class MapView extends EventDispatcher {
     private processTileObjectFeatures(tile: Tile, object: TileObject): boolean {
         const technique: IndexedTechnique = object.userData.technique;
 
-        if (!technique || technique.enabled === undefined) {
+        if (!technique) {
             // Nothing to do, there's no technique.
             return true;
         }
 
+        const enabledExpr = Expr.isExpr(technique.enabled) ? technique.enabled : undefined;
+
+        if (enabledExpr === undefined) {
+            if (
+                technique.enabled !== undefined &&
+                !getPropertyValue(technique.enabled, this.m_env)
+            ) {
+                return false;
+            }
+            if (technique._featureStateProperties === undefined) {
+                // Nothing to do, features are neither enabled nor styled by their state.
+                return true;
+            }
+        }
+
         const feature: TileFeatureData = object.userData.feature;
 
-        if (!feature || !Expr.isExpr(technique.enabled)) {
-            return Boolean(getPropertyValue(technique.enabled, this.m_env));
+        if (!feature) {
+            return enabledExpr === undefined || Boolean(getPropertyValue(enabledExpr, this.m_env));
         }
 
         const { starts, objInfos } = feature;
@@ -4027,6 +4205,15 @@ export class MapView extends EventDispatcher {
             return true;
         }
 
+        // Features with a state are rendered with variants of the object's material, evaluating
+        // the `feature-state` dependent properties of the technique with their state.
+        const materials = this.getFeatureStateMaterials(object, technique);
+        const materialAdapter =
+            materials !== undefined ? MapMaterialAdapter.get(materials[0]) : undefined;
+        // The materials used by the features in their current state, the variants of features
+        // whose state was removed or changed are released afterwards.
+        const usedMaterials = materials !== undefined ? [materials[0]] : undefined;
+
         // ExtrudeBufferGeometry for example doesn't have an index, hence we get the final index
         // from the number of vertices.
         const finalIndex = geometry.getIndex()?.count ?? geometry.attributes.position.count;
@@ -4042,12 +4229,12 @@ export class MapView extends EventDispatcher {
             // the id of the current feature.
             const featureId = getFeatureId(properties);
 
-            let enabled = true;
+            // the state of current feature.
+            const featureState = tile.dataSource.getFeatureState(featureId);
 
-            if (Expr.isExpr(technique.enabled)) {
-                // the state of current feature.
-                const featureState = tile.dataSource.getFeatureState(featureId);
+            let enabled = true;
 
+            if (enabledExpr !== undefined) {
                 // create a new {@link @here/harp-datasource-protocol#Env} that can be used
                 // to evaluate expressions that access the feature state.
                 const $state = featureState ? new MapEnv(featureState) : null;
@@ -4059,7 +4246,7 @@ export class MapView extends EventDispatcher {
 
                 const env = new MapEnv({ $state }, parentEnv);
 
-                enabled = Boolean(getPropertyValue(technique.enabled, env));
+                enabled = Boolean(getPropertyValue(enabledExpr, env));
             }
 
             if (!enabled) {
@@ -4067,6 +4254,15 @@ export class MapView extends EventDispatcher {
                 return;
             }
 
+            let materialIndex = 0;
+            if (usedMaterials !== undefined && materialAdapter !== undefined && featureState) {
+                const variant = materialAdapter.getStateVariant(featureState);
+                materialIndex = usedMaterials.indexOf(variant);
+                if (materialIndex === -1) {
+                    materialIndex = usedMaterials.push(variant) - 1;
+                }
+            }
+
             // HARP-12247, geometry with no featureStarts would set start to `undefined`, in this
             // case, `endOfLastGroup` is also undefined (first execution in this loop), so it would
             // try to change the count of a group which hasn't yet been added, `addGroup` wasn't yet
@@ -4076,19 +4272,63 @@ export class MapView extends EventDispatcher {
             const end = starts[featureIndex + 1] ?? finalIndex;
             const count = end - start;
 
-            if (start === endOfLastGroup) {
+            const lastGroup = geometry.groups[geometry.groups.length - 1];
+            if (start === endOfLastGroup && lastGroup.materialIndex === materialIndex) {
                 // extend the last group
-                geometry.groups[geometry.groups.length - 1].count += count;
+                lastGroup.count += count;
             } else {
-                geometry.addGroup(start, count);
+                geometry.addGroup(start, count, materialIndex);
             }
 
             endOfLastGroup = start + count;
         });
 
+        if (materials !== undefined && usedMaterials !== undefined && materialAdapter) {
+            usedMaterials.forEach(material => {
+                if (!materials.includes(material)) {
+                    materialAdapter.retainStateVariant(material);
+                }
+            });
+            materials.forEach(material => {
+                if (!usedMaterials.includes(material)) {
+                    materialAdapter.releaseStateVariant(material);
+                }
+            });
+            materials.splice(0, materials.length, ...usedMaterials);
+        }
+
         return geometry.groups.length > 0;
     }
 
+    /**
+     * Get the materials of an object whose technique uses the feature state in its paint
+     * properties.
+     *
+     * @remarks
+     * The object's material is converted into an array, with the material shared by all features
+     * at index `0`, followed by the feature state variants used by the object's features.
+     *
+     * @returns The materials array, or `undefined` if the object's features share one material.
+     */
+    private getFeatureStateMaterials(
+        object: TileObject,
+        technique: IndexedTechnique
+    ): THREE.Material[] | undefined {
+        const material: THREE.Material | THREE.Material[] | undefined = (object as any).material;
+        if (technique._featureStateProperties === undefined || material === undefined) {
+            return undefined;
+        }
+        if (Array.isArray(material)) {
+            return material.length > 0 ? material : undefined;
+        }
+        if (MapMaterialAdapter.get(material) === undefined) {
+            return undefined;
+        }
+        const materials = [material];
+        (object as any).material = materials;
+        return materials;
+    }
+
     private prepareRenderTextElements(time: number) {
         // Disable rendering of text elements for debug camera. TextElements are rendered using an
         // orthographic camera that covers the entire available screen space. Unfortunately, this
@@ -4448,12 +4688,23 @@ export class MapView extends EventDispatcher {
             new TextCanvasFactory(this.m_renderer),
             this.m_poiManager,
             new PoiRendererFactory(this),
-            new FontCatalogLoader(this.m_theme),
+            new FontCatalogLoader(this.m_theme, () => this.getGlyphSource()),
             this.m_theme,
             this.m_options
         );
     }
 
+    /**
+     * Gets the source of glyphs generated at runtime from font files, shared by all font catalogs
+     * of this `MapView`.
+     */
+    private getGlyphSource(): WorkerBasedGlyphSource {
+        if (this.m_glyphSource === undefined) {
+            this.m_glyphSource = ConcurrentDecoderFacade.getGlyphSource();
+        }
+        return this.m_glyphSource;
+    }
+
     private resetTextRenderer(): void {
         const overlayText = this.m_textElementsRenderer.overlayText;
         this.m_textElementsRenderer = this.createTextRenderer();
@@ -11,16 +11,27 @@ import { PerformanceStatistics } from "./Statistics";
 
 const DEFAULT_MAX_FPS = 60;
 const DEFAULT_PROCESSING_ESTIMATE_TIME = 2;
+const DEFAULT_MAX_PREFETCH_TASKS_PER_FRAME = 4;
 const UPDATE_EVENT = { type: "update" };
 
 export class MapViewTaskScheduler extends THREE.EventDispatcher {
     private readonly m_taskQueue: TaskQueue;
     private m_throttlingEnabled: boolean = false;
 
+    /**
+     * The maximum number of [[TileTaskGroups.PREFETCH]] tasks processed per frame. Prefetch tasks
+     * are only processed once all other tasks are done.
+     */
+    maxPrefetchTasksPerFrame: number = DEFAULT_MAX_PREFETCH_TASKS_PER_FRAME;
+
     constructor(private m_maxFps: number = DEFAULT_MAX_FPS) {
         super();
         this.m_taskQueue = new TaskQueue({
-            groups: [TileTaskGroups.FETCH_AND_DECODE, TileTaskGroups.CREATE],
+            groups: [
+                TileTaskGroups.FETCH_AND_DECODE,
+                TileTaskGroups.CREATE,
+                TileTaskGroups.PREFETCH
+            ],
             prioSortFn: (a: Task, b: Task) => {
                 return a.getPriority() - b.getPriority();
             }
@@ -85,8 +96,9 @@ export class MapViewTaskScheduler extends THREE.EventDispatcher {
             currentFrameEvent?.setValue("TaskScheduler.estimatedAvailableTime", availableTime);
 
             let counter = 0;
+            let numTileItemsLeft = this.numTileItemsLeft();
             // check if ther is still time available and tasks left
-            while (availableTime > 0 && numItemsLeft > 0) {
+            while (availableTime > 0 && numTileItemsLeft > 0) {
                 counter++;
                 // create a processing condition for the tasks
                 function shouldProcess(task: Task) {
@@ -116,7 +128,25 @@ export class MapViewTaskScheduler extends THREE.EventDispatcher {
                         this.m_taskQueue.processNext(tag, shouldProcess);
                     }
                 });
-                numItemsLeft = this.m_taskQueue.numItemsLeft();
+                numTileItemsLeft = this.numTileItemsLeft();
+            }
+
+            // prefetch tiles only with the time left after all other tasks, within a budget
+            if (numTileItemsLeft === 0) {
+                let numPrefetchTasks = 0;
+                while (
+                    availableTime > 0 &&
+                    numPrefetchTasks < this.maxPrefetchTasksPerFrame &&
+                    this.m_taskQueue.numItemsLeft(TileTaskGroups.PREFETCH) > 0
+                ) {
+                    numPrefetchTasks++;
+                    function shouldPrefetch(task: Task) {
+                        availableTime -=
+                            task.estimatedProcessTime?.() ?? DEFAULT_PROCESSING_ESTIMATE_TIME;
+                        return availableTime > 0;
+                    }
+                    this.m_taskQueue.processNext(TileTaskGroups.PREFETCH, shouldPrefetch);
+                }
             }
             // if there is tasks left in the TaskQueue, request an update to be able to process them
             // in a next frame
@@ -140,6 +170,18 @@ export class MapViewTaskScheduler extends THREE.EventDispatcher {
                 undefined,
                 this.m_taskQueue.numItemsLeft(TileTaskGroups.FETCH_AND_DECODE)
             );
+            this.m_taskQueue.processNext(
+                TileTaskGroups.PREFETCH,
+                undefined,
+                Math.min(
+                    this.maxPrefetchTasksPerFrame,
+                    this.m_taskQueue.numItemsLeft(TileTaskGroups.PREFETCH)
+                )
+            );
+            // prefetch tasks exceeding the budget are processed in the next frames
+            if (this.m_taskQueue.numItemsLeft(TileTaskGroups.PREFETCH) > 0) {
+                this.requestUpdate();
+            }
         }
 
         if (stats.enabled) {
@@ -150,6 +192,13 @@ export class MapViewTaskScheduler extends THREE.EventDispatcher {
         }
     }
 
+    private numTileItemsLeft(): number {
+        return (
+            this.m_taskQueue.numItemsLeft(TileTaskGroups.CREATE) +
+            this.m_taskQueue.numItemsLeft(TileTaskGroups.FETCH_AND_DECODE)
+        );
+    }
+
     private spaceInFrame(frameStartTime: number): number {
         const passedTime = (performance || Date).now() - frameStartTime;
         return Math.max(1000 / this.m_maxFps - passedTime, 0);
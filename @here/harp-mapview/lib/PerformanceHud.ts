@@ -0,0 +1,334 @@
+/*
+ * Copyright (C) 2017-2020 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { MapView, MapViewEventNames, RenderEvent } from "./MapView";
+import { PerformanceStatistics } from "./Statistics";
+
+/**
+ * Options of the {@link PerformanceHud}.
+ */
+export interface PerformanceHudOptions {
+    /**
+     * The element the overlay is added to.
+     * @default The parent element of the canvas of the {@link MapView}.
+     */
+    parent?: HTMLElement;
+
+    /**
+     * The interval in milliseconds the values are averaged over before the overlay is updated.
+     * @default `500`
+     */
+    updateInterval?: number;
+
+    /**
+     * Show buttons to record a frame trace and to export it as a Chrome Trace Event JSON file.
+     * @default `true`
+     */
+    showTraceControls?: boolean;
+}
+
+/**
+ * The values shown by the {@link PerformanceHud}, averaged over the update interval unless noted
+ * otherwise. All times are in milliseconds.
+ */
+export interface PerformanceHudSnapshot {
+    /**
+     * The number of frames the values are computed from.
+     */
+    numFrames: number;
+
+    /**
+     * The frames per second, including the time spent in the application.
+     */
+    fps: number;
+
+    /**
+     * The time spent in a frame, including the geometry creation.
+     */
+    frameTime: number;
+
+    /**
+     * The maximum time spent in a frame.
+     */
+    maxFrameTime: number;
+
+    setupTime: number;
+    cullTime: number;
+    textPlacementTime: number;
+    drawTime: number;
+    textDrawTime: number;
+    cleanupTime: number;
+    geometryCreationTime: number;
+
+    numTilesRendered: number;
+    numTilesVisible: number;
+    numTilesLoading: number;
+
+    /**
+     * The total number of tiles decoded during the update interval.
+     */
+    numTilesDecoded: number;
+
+    /**
+     * The number of tiles waiting for a decoder worker.
+     */
+    numQueuedDecodeRequests: number;
+
+    /**
+     * The estimated size of the rendered tiles in bytes.
+     */
+    geometryMemoryUsage: number;
+
+    /**
+     * The number of labels and icons placed on the screen.
+     */
+    numRenderedTextElements: number;
+
+    /**
+     * The used JavaScript heap in bytes, only available in Chrome.
+     */
+    usedJSHeapSize?: number;
+}
+
+/**
+ * The frame values averaged by the [[PerformanceHud]], mapped to the names in [[FrameStats]].
+ */
+const AVERAGED_VALUES: Array<[keyof PerformanceHudSnapshot, string]> = [
+    ["fps", "render.fps"],
+    ["frameTime", "render.fullFrameTime"],
+    ["setupTime", "render.setupTime"],
+    ["cullTime", "render.cullTime"],
+    ["textPlacementTime", "render.textPlacementTime"],
+    ["drawTime", "render.drawTime"],
+    ["textDrawTime", "render.textDrawTime"],
+    ["cleanupTime", "render.cleanupTime"],
+    ["geometryCreationTime", "render.geometryCreationTime"],
+    ["numTilesRendered", "renderCount.numTilesRendered"],
+    ["numTilesVisible", "renderCount.numTilesVisible"],
+    ["numTilesLoading", "renderCount.numTilesLoading"],
+    ["numQueuedDecodeRequests", "decode.numQueuedRequests"],
+    ["geometryMemoryUsage", "memory.geometryMemoryUsage"],
+    ["numRenderedTextElements", "text.numRenderedTextElements"]
+];
+
+const BYTES_PER_MB = 1024 * 1024;
+
+/**
+ * Overlay showing the performance of a {@link MapView}: the frame rate, the timings of the frame
+ * stages, the tile counts, the decoder queue, the memory used by the geometries and the number of
+ * placed labels.
+ *
+ * @remarks
+ * The HUD enables the {@link PerformanceStatistics} while it's attached and reads the values of
+ * every rendered frame from them. Frames can be recorded in a {@link FrameTrace} and exported in
+ * the Chrome Trace Event JSON format, to be opened in the performance panel of the Chrome
+ * DevTools.
+ *
+ * @example
+ * ```typescript
+ * const hud = new PerformanceHud(mapView);
+ * hud.startTrace();
+ * // ... reproduce the jank
+ * hud.exportTrace("jank.json");
+ * ```
+ */
+export class PerformanceHud {
+    /**
+     * The element of the overlay.
+     */
+    readonly element: HTMLElement;
+
+    private readonly m_text: HTMLElement;
+    private readonly m_recordButton?: HTMLButtonElement;
+    private readonly m_updateInterval: number;
+    private readonly m_wasEnabled: boolean;
+    private readonly m_sums = new Map<keyof PerformanceHudSnapshot, number>();
+    private m_maxFrameTime = 0;
+    private m_numFrames = 0;
+    private m_numTilesDecoded = 0;
+    private m_intervalStart?: number;
+    private m_snapshot?: PerformanceHudSnapshot;
+
+    /**
+     * Creates a new `PerformanceHud` and adds it to the page.
+     *
+     * @param mapView - The {@link MapView} to show the performance of.
+     * @param options - Optional options of the HUD.
+     */
+    constructor(readonly mapView: MapView, options: PerformanceHudOptions = {}) {
+        this.m_updateInterval = options.updateInterval ?? 500;
+
+        const stats = PerformanceStatistics.instance;
+        this.m_wasEnabled = stats.enabled;
+        stats.enabled = true;
+
+        this.element = document.createElement("div");
+        Object.assign(this.element.style, {
+            position: "absolute",
+            top: "0",
+            left: "0",
+            zIndex: "100",
+            padding: "4px 6px",
+            background: "rgba(0, 0, 0, 0.7)",
+            color: "#fff",
+            font: "11px monospace"
+        });
+        this.m_text = document.createElement("div");
+        this.m_text.style.whiteSpace = "pre";
+        this.element.appendChild(this.m_text);
+
+        if (options.showTraceControls !== false) {
+            this.m_recordButton = document.createElement("button");
+            this.m_recordButton.textContent = "Record";
+            this.m_recordButton.addEventListener("click", () => {
+                if (stats.trace.recording) {
+                    this.stopTrace();
+                } else {
+                    this.startTrace();
+                }
+            });
+            const exportButton = document.createElement("button");
+            exportButton.textContent = "Export trace";
+            exportButton.addEventListener("click", () => this.exportTrace());
+            this.element.appendChild(this.m_recordButton);
+            this.element.appendChild(exportButton);
+        }
+
+        const parent = options.parent ?? mapView.canvas.parentElement;
+        if (parent !== null) {
+            parent.appendChild(this.element);
+        }
+
+        mapView.addEventListener(MapViewEventNames.Render, this.onRender);
+    }
+
+    /**
+     * The values currently shown, `undefined` until the first update interval elapsed.
+     */
+    get snapshot(): PerformanceHudSnapshot | undefined {
+        return this.m_snapshot;
+    }
+
+    /**
+     * Starts recording the frames in the {@link FrameTrace} of the
+     * {@link PerformanceStatistics}, discarding a previous recording.
+     */
+    startTrace() {
+        const trace = PerformanceStatistics.instance.trace;
+        trace.clear();
+        trace.start();
+        if (this.m_recordButton !== undefined) {
+            this.m_recordButton.textContent = "Stop";
+        }
+        this.mapView.update();
+    }
+
+    /**
+     * Stops recording the frames.
+     */
+    stopTrace() {
+        PerformanceStatistics.instance.trace.stop();
+        if (this.m_recordButton !== undefined) {
+            this.m_recordButton.textContent = "Record";
+        }
+    }
+
+    /**
+     * Downloads the recorded frames as Chrome Trace Event JSON file.
+     *
+     * @param fileName - The name of the downloaded file.
+     */
+    exportTrace(fileName: string = "harp-trace.json") {
+        const trace = PerformanceStatistics.instance.trace.toChromeTrace({
+            userAgent: typeof navigator !== "undefined" ? navigator.userAgent : "",
+            date: new Date().toISOString()
+        });
+        const url = URL.createObjectURL(
+            new Blob([JSON.stringify(trace)], { type: "application/json" })
+        );
+        const link = document.createElement("a");
+        link.href = url;
+        link.download = fileName;
+        link.click();
+        URL.revokeObjectURL(url);
+    }
+
+    /**
+     * Removes the overlay and stops reading the statistics of the {@link MapView}.
+     */
+    dispose() {
+        this.mapView.removeEventListener(MapViewEventNames.Render, this.onRender);
+        this.stopTrace();
+        PerformanceStatistics.instance.enabled = this.m_wasEnabled;
+        this.element.remove();
+    }
+
+    /**
+     * Samples the values of the previous frame, which are complete when the next frame starts.
+     */
+    private readonly onRender = (event: RenderEvent) => {
+        const time = event.time ?? 0;
+        const frame = PerformanceStatistics.instance.currentFrame;
+        const frameTime = frame.getValue("render.fullFrameTime");
+
+        if (frameTime !== undefined) {
+            for (const [key, name] of AVERAGED_VALUES) {
+                this.m_sums.set(key, (this.m_sums.get(key) ?? 0) + (frame.getValue(name) ?? 0));
+            }
+            this.m_maxFrameTime = Math.max(this.m_maxFrameTime, frameTime);
+            this.m_numTilesDecoded += frame.getValue("decode.decodedTiles") ?? 0;
+            this.m_numFrames++;
+        }
+
+        if (this.m_intervalStart === undefined) {
+            this.m_intervalStart = time;
+        } else if (time - this.m_intervalStart >= this.m_updateInterval && this.m_numFrames > 0) {
+            this.m_intervalStart = time;
+            this.m_snapshot = this.createSnapshot(frame.getValue("memory.usedJSHeapSize"));
+            this.m_sums.clear();
+            this.m_maxFrameTime = 0;
+            this.m_numTilesDecoded = 0;
+            this.m_numFrames = 0;
+            this.m_text.textContent = formatSnapshot(this.m_snapshot);
+        }
+    };
+
+    private createSnapshot(usedJSHeapSize?: number): PerformanceHudSnapshot {
+        const snapshot = {
+            numFrames: this.m_numFrames,
+            maxFrameTime: this.m_maxFrameTime,
+            numTilesDecoded: this.m_numTilesDecoded,
+            ...(usedJSHeapSize !== undefined && usedJSHeapSize > 0 && { usedJSHeapSize })
+        } as PerformanceHudSnapshot;
+        for (const [key] of AVERAGED_VALUES) {
+            (snapshot as any)[key] = (this.m_sums.get(key) ?? 0) / this.m_numFrames;
+        }
+        return snapshot;
+    }
+}
+
+function formatSnapshot(snapshot: PerformanceHudSnapshot): string {
+    const ms = (value: number) => value.toFixed(1);
+    const lines = [
+        `FPS      ${snapshot.fps.toFixed(1)}`,
+        `Frame    ${ms(snapshot.frameTime)} ms (max ${ms(snapshot.maxFrameTime)} ms)`,
+        `  setup ${ms(snapshot.setupTime)}  cull ${ms(snapshot.cullTime)}  ` +
+            `labels ${ms(snapshot.textPlacementTime)}`,
+        `  draw ${ms(snapshot.drawTime)}  text ${ms(snapshot.textDrawTime)}  ` +
+            `cleanup ${ms(snapshot.cleanupTime)}  geometry ${ms(snapshot.geometryCreationTime)}`,
+        `Tiles    ${Math.round(snapshot.numTilesRendered)} rendered, ` +
+            `${Math.round(snapshot.numTilesVisible)} visible, ` +
+            `${Math.round(snapshot.numTilesLoading)} loading, ` +
+            `${snapshot.numTilesDecoded} decoded`,
+        `Workers  ${Math.round(snapshot.numQueuedDecodeRequests)} queued`,
+        `Geometry ${(snapshot.geometryMemoryUsage / BYTES_PER_MB).toFixed(1)} MB`,
+        `Labels   ${Math.round(snapshot.numRenderedTextElements)} placed`
+    ];
+    if (snapshot.usedJSHeapSize !== undefined) {
+        lines.push(`JS heap  ${(snapshot.usedJSHeapSize / BYTES_PER_MB).toFixed(1)} MB`);
+    }
+    return lines.join("\n");
+}
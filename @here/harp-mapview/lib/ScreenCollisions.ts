@@ -98,10 +98,16 @@ export class ScreenCollisions {
     /** The screen bounding box. */
     readonly screenBounds = new Math2D.Box();
 
-    /** Tree of allocated bounds. */
+    /** Tree of allocated bounds of the default collision group. */
 
     private readonly rtree = new RBush();
 
+    /** Trees of allocated bounds of named collision groups. */
+    private readonly m_groupTrees = new Map<string, any>();
+
+    /** Tree of bounds blocking all collision groups, see [[allocateIBoxes]]. */
+    private readonly m_blockingTree = new RBush();
+
     /**
      * Constructs a new ScreenCollisions object.
      */
@@ -114,6 +120,8 @@ export class ScreenCollisions {
      */
     reset() {
         this.rtree.clear();
+        this.m_groupTrees.clear();
+        this.m_blockingTree.clear();
     }
 
     /**
@@ -132,39 +140,53 @@ export class ScreenCollisions {
      *
      * @param bounds - The bounding box in NDC scaled coordinates (i.e. top left is -width/2,
      * -height/2)
+     * @param group - The collision group the bounds are allocated in. Bounds of different groups
+     * don't collide with each other. If `undefined`, the default group is used.
      */
-    allocate(bounds: Math2D.Box | CollisionBox | DetailedCollisionBox): void {
+    allocate(bounds: Math2D.Box | CollisionBox | DetailedCollisionBox, group?: string): void {
         const bbox = !(bounds instanceof CollisionBox) ? new CollisionBox(bounds) : bounds;
-        this.rtree.insert(bbox);
+        this.getTree(group, true).insert(bbox);
     }
 
     /**
      * Inserts the given bounds into the rtree.
      *
+     * @remarks
+     * These bounds block all collision groups.
+     *
      * @param bounds - The bounding boxes (the bounding boxes must be in the space returned from the
      * ScreenProjector.project method).
      */
     allocateIBoxes(bounds: IBox[]) {
-        this.rtree.load(bounds);
+        this.m_blockingTree.load(bounds);
     }
 
     /**
      * Search for all bounds in the tree intersecting with the given box.
      * @param box - The box used for the search.
+     * @param group - The collision group to search in, the bounds blocking all groups are
+     * included as well. If `undefined`, the default group is used.
      * @returns An array of all IBoxes intersecting with the given box.
      */
-    search(box: CollisionBox): IBox[] {
-        return this.rtree.search(box);
+    search(box: CollisionBox, group?: string): IBox[] {
+        const blockingBoxes: IBox[] = this.m_blockingTree.search(box);
+        const tree = this.getTree(group, false);
+        if (tree === undefined) {
+            return blockingBoxes;
+        }
+        const boxes: IBox[] = tree.search(box);
+        return blockingBoxes.length > 0 ? boxes.concat(blockingBoxes) : boxes;
     }
 
     /**
      * Checks if the given bounding box is already allocated.
      *
      * @param bounds - The bounding box in world coordinates.
+     * @param group - The collision group to check. If `undefined`, the default group is used.
      */
-    isAllocated(bounds: Math2D.Box | CollisionBox): boolean {
+    isAllocated(bounds: Math2D.Box | CollisionBox, group?: string): boolean {
         const collisionBox = bounds instanceof CollisionBox ? bounds : tmpCollisionBox.copy(bounds);
-        const results = this.search(collisionBox);
+        const results = this.search(collisionBox, group);
         return this.intersectsDetails(collisionBox, results);
     }
 
@@ -215,6 +237,22 @@ export class ScreenCollisions {
         return false;
     }
 
+    /**
+     * Returns the tree of allocated bounds of a collision group, or `undefined` if nothing was
+     * allocated in the group yet and `create` is `false`.
+     */
+    private getTree(group: string | undefined, create: boolean): any {
+        if (group === undefined) {
+            return this.rtree;
+        }
+        let tree = this.m_groupTrees.get(group);
+        if (tree === undefined && create) {
+            tree = new RBush();
+            this.m_groupTrees.set(group, tree);
+        }
+        return tree;
+    }
+
     /**
      * Computes the intersection between the supplied CollisionBox and the LineWithBound.
      * @note The [[CollisionBox]] is in Screen Bounds space, whereas the line must be
@@ -326,10 +364,11 @@ export class ScreenCollisionsDebug extends ScreenCollisions {
      * Marks the region of the screen intersecting with the given bounding box as allocated.
      *
      * @param bounds - the bounding box in world coordinates.
+     * @param group - The collision group the bounds are allocated in.
      * @override
      */
-    allocate(bounds: Math2D.Box | CollisionBox): void {
-        super.allocate(bounds);
+    allocate(bounds: Math2D.Box | CollisionBox, group?: string): void {
+        super.allocate(bounds, group);
 
         this.m_numAllocations++;
 
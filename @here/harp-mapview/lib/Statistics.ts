@@ -927,6 +927,272 @@ export class FrameStatsArray {
     }
 }
 
+/**
+ * An event of a [[ChromeTrace]], see the
+ * [Trace Event Format](https://docs.google.com/document/d/1CvAClvFfyA5R-PhYUmn5OOQtYMH4h6I0nSsKchNAySU).
+ */
+export interface ChromeTraceEvent {
+    /**
+     * The name of the event.
+     */
+    name: string;
+
+    /**
+     * The comma separated categories of the event.
+     */
+    cat: string;
+
+    /**
+     * The phase of the event: `"X"` for complete events with a duration, `"C"` for counters,
+     * `"i"` for instant events and `"M"` for metadata.
+     */
+    ph: "X" | "C" | "i" | "M";
+
+    /**
+     * The time stamp of the event in microseconds.
+     */
+    ts: number;
+
+    /**
+     * The duration of complete events in microseconds.
+     */
+    dur?: number;
+
+    /**
+     * The process id.
+     */
+    pid: number;
+
+    /**
+     * The thread id, used to put the events on separate tracks.
+     */
+    tid: number;
+
+    /**
+     * The scope of instant events, `"t"` for thread scoped events.
+     */
+    s?: "g" | "p" | "t";
+
+    /**
+     * The arguments of the event, the values of counter events.
+     */
+    args?: { [name: string]: number | string };
+}
+
+/**
+ * A trace in the Chrome Trace Event JSON format, which can be loaded in the performance panel of
+ * the Chrome DevTools or in `chrome://tracing`.
+ */
+export interface ChromeTrace {
+    traceEvents: ChromeTraceEvent[];
+    displayTimeUnit: "ms" | "ns";
+    otherData?: { [name: string]: string };
+}
+
+/**
+ * The tracks of the events in a [[FrameTrace]].
+ */
+export enum FrameTraceTrack {
+    /**
+     * The rendering of the frames and the work done on the main thread.
+     */
+    Main = 1,
+
+    /**
+     * The decoding of the tiles in the web workers.
+     */
+    Decoder = 2
+}
+
+const TRACE_PROCESS_ID = 1;
+const MICROSECONDS_PER_MILLISECOND = 1000;
+
+/**
+ * Records the timings of frames and tiles to export them as a [[ChromeTrace]].
+ *
+ * @remarks
+ * Events are only recorded while the trace is started and the [[PerformanceStatistics]] are
+ * enabled. The trace keeps the last `capacity` events. All times are in milliseconds as
+ * returned by `PerformanceTimer.now()`.
+ *
+ * @example
+ * ```typescript
+ * const trace = PerformanceStatistics.instance.trace;
+ * trace.start();
+ * // ... interact with the map
+ * trace.stop();
+ * const json = JSON.stringify(trace.toChromeTrace());
+ * ```
+ */
+export class FrameTrace {
+    private readonly m_events: RingBuffer<ChromeTraceEvent>;
+    private m_recording = false;
+
+    /**
+     * Creates a new `FrameTrace`.
+     *
+     * @param capacity - The maximum number of recorded events.
+     */
+    constructor(readonly capacity: number = 100000) {
+        this.m_events = new RingBuffer<ChromeTraceEvent>(capacity);
+    }
+
+    /**
+     * `true` while events are recorded.
+     */
+    get recording(): boolean {
+        return this.m_recording;
+    }
+
+    /**
+     * The number of recorded events.
+     */
+    get length(): number {
+        return this.m_events.size;
+    }
+
+    /**
+     * Starts recording events, previously recorded events are kept.
+     */
+    start() {
+        this.m_recording = true;
+    }
+
+    /**
+     * Stops recording events.
+     */
+    stop() {
+        this.m_recording = false;
+    }
+
+    /**
+     * Removes all recorded events.
+     */
+    clear() {
+        this.m_events.clear();
+    }
+
+    /**
+     * Records an event with a duration.
+     *
+     * @param name - The name of the event.
+     * @param category - The category of the event.
+     * @param startTime - The start time of the event in milliseconds.
+     * @param duration - The duration of the event in milliseconds.
+     * @param args - Optional arguments shown with the event.
+     * @param track - The track of the event.
+     */
+    addCompleteEvent(
+        name: string,
+        category: string,
+        startTime: number,
+        duration: number,
+        args?: { [name: string]: number | string },
+        track: FrameTraceTrack = FrameTraceTrack.Main
+    ) {
+        if (!this.m_recording) {
+            return;
+        }
+        this.m_events.enqOne({
+            name,
+            cat: category,
+            ph: "X",
+            ts: startTime * MICROSECONDS_PER_MILLISECOND,
+            dur: Math.max(0, duration) * MICROSECONDS_PER_MILLISECOND,
+            pid: TRACE_PROCESS_ID,
+            tid: track,
+            ...(args !== undefined && { args })
+        });
+    }
+
+    /**
+     * Records the values of a counter, shown as a graph.
+     *
+     * @param name - The name of the counter.
+     * @param time - The time of the values in milliseconds.
+     * @param values - The values of the counter.
+     */
+    addCounterEvent(name: string, time: number, values: { [name: string]: number }) {
+        if (!this.m_recording) {
+            return;
+        }
+        this.m_events.enqOne({
+            name,
+            cat: "counter",
+            ph: "C",
+            ts: time * MICROSECONDS_PER_MILLISECOND,
+            pid: TRACE_PROCESS_ID,
+            tid: FrameTraceTrack.Main,
+            args: values
+        });
+    }
+
+    /**
+     * Records an event without duration.
+     *
+     * @param name - The name of the event.
+     * @param category - The category of the event.
+     * @param time - The time of the event in milliseconds.
+     * @param args - Optional arguments shown with the event.
+     */
+    addInstantEvent(
+        name: string,
+        category: string,
+        time: number,
+        args?: { [name: string]: number | string }
+    ) {
+        if (!this.m_recording) {
+            return;
+        }
+        this.m_events.enqOne({
+            name,
+            cat: category,
+            ph: "i",
+            ts: time * MICROSECONDS_PER_MILLISECOND,
+            pid: TRACE_PROCESS_ID,
+            tid: FrameTraceTrack.Main,
+            s: "t",
+            ...(args !== undefined && { args })
+        });
+    }
+
+    /**
+     * Converts the recorded events to the Chrome Trace Event JSON format.
+     *
+     * @param otherData - Optional additional information stored in the trace, like the user
+     *      agent or the application version.
+     */
+    toChromeTrace(otherData?: { [name: string]: string }): ChromeTrace {
+        const threadName = (tid: FrameTraceTrack, name: string): ChromeTraceEvent => ({
+            name: "thread_name",
+            cat: "__metadata",
+            ph: "M",
+            ts: 0,
+            pid: TRACE_PROCESS_ID,
+            tid,
+            args: { name }
+        });
+        return {
+            traceEvents: [
+                {
+                    name: "process_name",
+                    cat: "__metadata",
+                    ph: "M",
+                    ts: 0,
+                    pid: TRACE_PROCESS_ID,
+                    tid: FrameTraceTrack.Main,
+                    args: { name: "harp.gl" }
+                },
+                threadName(FrameTraceTrack.Main, "Main"),
+                threadName(FrameTraceTrack.Decoder, "Decoder"),
+                ...this.m_events.asArray()
+            ],
+            displayTimeUnit: "ms",
+            ...(otherData !== undefined && { otherData })
+        };
+    }
+}
+
 /**
  * Chrome's MemoryInfo interface.
  */
@@ -1020,6 +1286,12 @@ export class PerformanceStatistics {
      */
     readonly configs: Map<string, string> = new Map();
 
+    /**
+     * The trace of the frames, recorded while the trace is started and the statistics are
+     * enabled.
+     */
+    readonly trace: FrameTrace = new FrameTrace();
+
     // Current array of frame events.
     private readonly m_frameEvents: FrameStatsArray;
 
@@ -1115,11 +1387,16 @@ export class PerformanceStatistics {
     /**
      * Stores the current frame events into the array of events and clears all values.
      *
+     * @remarks
+     * The values of the current frame are cleared even if they cannot be stored anymore, so that
+     * they always refer to a single frame.
+     *
      * @returns {boolean} Returns `false` if the maximum number of storable frames has been reached.
      * @memberof PerformanceStatistics
      */
     storeAndClearFrameInfo(): boolean {
         if (this.m_frameEvents.length >= this.maxNumFrames) {
+            this.currentFrame.reset();
             return false;
         }
 
@@ -568,7 +568,12 @@ export class ThemeLoader {
         }
         if (theme.fontCatalogs) {
             for (const font of theme.fontCatalogs) {
-                font.url = childUrlResolver.resolveUri(font.url);
+                if (font.url !== undefined) {
+                    font.url = childUrlResolver.resolveUri(font.url);
+                }
+                if (font.fonts !== undefined) {
+                    font.fonts = font.fonts.map(url => childUrlResolver.resolveUri(url));
+                }
             }
         }
         if (theme.poiTables) {
@@ -10,7 +10,13 @@ import {
     TextPathGeometry
 } from "@here/harp-datasource-protocol";
 import { GeoBox, OrientedBox3, Projection, TileKey } from "@here/harp-geoutils";
-import { assert, CachedResource, chainCallbacks, LoggerManager } from "@here/harp-utils";
+import {
+    assert,
+    CachedResource,
+    chainCallbacks,
+    LoggerManager,
+    PerformanceTimer
+} from "@here/harp-utils";
 import * as THREE from "three";
 
 import { CopyrightInfo } from "./copyrights/CopyrightInfo";
@@ -19,9 +25,10 @@ import { ElevationRange } from "./ElevationRangeSource";
 import { LodMesh } from "./geometry/LodMesh";
 import { TileGeometryLoader } from "./geometry/TileGeometryLoader";
 import { ITileLoader, TileLoaderState } from "./ITileLoader";
+import { MapMaterialAdapter } from "./MapMaterialAdapter";
 import { MapView } from "./MapView";
 import { PathBlockingElement } from "./PathBlockingElement";
-import { PerformanceStatistics } from "./Statistics";
+import { FrameTraceTrack, PerformanceStatistics } from "./Statistics";
 import { TextElement } from "./text/TextElement";
 import { TextElementGroup } from "./text/TextElementGroup";
 import { TextElementGroupPriorityList } from "./text/TextElementGroupPriorityList";
@@ -192,6 +199,12 @@ export class Tile implements CachedResource {
      */
     readonly geoBox: GeoBox;
 
+    /**
+     * The time of the data in milliseconds since the Unix epoch, taken from
+     * {@link DataSource.time} when the `Tile` is created.
+     */
+    readonly time?: number;
+
     /**
      * Copyright information of this `Tile`'s data.
      */
@@ -327,6 +340,7 @@ export class Tile implements CachedResource {
         localTangentSpace?: boolean
     ) {
         this.geoBox = this.dataSource.getTilingScheme().getGeoBox(this.tileKey);
+        this.time = dataSource.time;
         this.updateBoundingBox();
         this.m_worldCenter.copy(this.boundingBox.position);
         this.m_localTangentSpace = localTangentSpace ?? false;
@@ -748,6 +762,15 @@ export class Tile implements CachedResource {
         if (stats.enabled && decodedTile.decodeTime !== undefined) {
             stats.currentFrame.addValue("decode.decodingTime", decodedTile.decodeTime);
             stats.currentFrame.addValue("decode.decodedTiles", 1);
+            // The decoder only reports the duration, the tile was decoded right before.
+            stats.trace.addCompleteEvent(
+                "Decode",
+                "tile",
+                PerformanceTimer.now() - decodedTile.decodeTime,
+                decodedTile.decodeTime,
+                { dataSource: this.dataSource.name, tileKey: this.tileKey.mortonCode() },
+                FrameTraceTrack.Decoder
+            );
         }
 
         if (decodedTile.copyrightHolderIds !== undefined) {
@@ -908,16 +931,22 @@ export class Tile implements CachedResource {
      * `Tile`or if the ownership was explicitely set to this `Tile` by [[addOwnedTexture]]).
      */
     clear() {
+        const disposeTexture = (value: unknown) => {
+            if (value instanceof THREE.Texture && this.shouldDisposeTexture(value)) {
+                value.dispose();
+            }
+        };
         const disposeMaterial = (material: THREE.Material) => {
             Object.getOwnPropertyNames(material).forEach((property: string) => {
-                const materialProperty = (material as any)[property];
-                if (materialProperty !== undefined && materialProperty instanceof THREE.Texture) {
-                    const texture = materialProperty;
-                    if (this.shouldDisposeTexture(texture)) {
-                        texture.dispose();
-                    }
-                }
+                disposeTexture((material as any)[property]);
             });
+            // Shader materials may only hold their textures in uniforms.
+            const uniforms = (material as THREE.ShaderMaterial).uniforms;
+            if (uniforms !== undefined) {
+                Object.keys(uniforms).forEach(name => disposeTexture(uniforms[name]?.value));
+            }
+            // Disposes the feature state variants of the material along with it.
+            MapMaterialAdapter.get(material)?.dispose();
             material.dispose();
         };
 
@@ -0,0 +1,218 @@
+/*
+ * Copyright (C) 2017-2020 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { GeoCoordinates } from "@here/harp-geoutils";
+import { GeoCoordLike } from "@here/harp-geoutils/lib/coordinates/GeoCoordLike";
+import * as THREE from "three";
+
+import { DataSource } from "./DataSource";
+import { ElevationRangeSource } from "./ElevationRangeSource";
+import { MapView } from "./MapView";
+import { MapViewUtils } from "./Utils";
+import { VisibleTileSet } from "./VisibleTileSet";
+
+const DEFAULT_LOOK_AHEAD_TIME = 500;
+
+/**
+ * Options of the {@link TilePrefetcher}, see {@link MapViewOptions.tilePrefetching}.
+ */
+export interface TilePrefetchOptions {
+    /**
+     * Time in milliseconds the camera movement is extrapolated, to prefetch the tiles visible
+     * from the extrapolated camera.
+     * @defaultValue 500
+     */
+    lookAheadTime?: number;
+
+    /**
+     * Maximal number of tiles for which loading is started per frame, after all visible tiles
+     * are processed.
+     * @defaultValue 4
+     */
+    maxTasksPerFrame?: number;
+
+    /**
+     * Maximal number of prefetched tiles kept until they become visible.
+     * @defaultValue 64
+     */
+    maxPrefetchedTiles?: number;
+}
+
+/**
+ * Camera pose a {@link MapView} is moving to, e.g. the end of a camera animation.
+ *
+ * @remarks
+ * The properties are the ones of {@link LookAtParams}, missing properties are taken from the
+ * current camera.
+ */
+export interface CameraDestination {
+    /**
+     * Target of the camera.
+     */
+    target: GeoCoordLike;
+
+    /**
+     * Distance of the camera to the target in meters.
+     */
+    distance?: number;
+
+    /**
+     * Tilt of the camera in degrees.
+     */
+    tilt?: number;
+
+    /**
+     * Heading of the camera in degrees.
+     */
+    heading?: number;
+}
+
+/**
+ * Loads the tiles which will soon be visible in a {@link MapView}.
+ *
+ * @remarks
+ * The tiles are computed for cameras predicted from the current camera velocity, and for the
+ * destinations of running camera animations. They are loaded at low priority through the
+ * {@link VisibleTileSet.prefetchTiles} method.
+ */
+export class TilePrefetcher {
+    private readonly m_camera = new THREE.PerspectiveCamera();
+    private readonly m_destinations = new Set<CameraDestination>();
+    private readonly m_lookAheadTime: number;
+
+    /**
+     * Creates a new `TilePrefetcher`.
+     *
+     * @param m_mapView - The {@link MapView} whose camera movement is predicted.
+     * @param options - The prefetch options.
+     */
+    constructor(private readonly m_mapView: MapView, options: TilePrefetchOptions = {}) {
+        this.m_lookAheadTime = options.lookAheadTime ?? DEFAULT_LOOK_AHEAD_TIME;
+    }
+
+    /**
+     * Adds a camera destination whose tiles are prefetched, until it's removed with
+     * {@link TilePrefetcher.removeDestination}.
+     *
+     * @param destination - The destination of the camera.
+     */
+    addDestination(destination: CameraDestination) {
+        this.m_destinations.add(destination);
+        this.m_mapView.update();
+    }
+
+    /**
+     * Removes a camera destination added with {@link TilePrefetcher.addDestination}.
+     *
+     * @param destination - The destination of the camera.
+     */
+    removeDestination(destination: CameraDestination) {
+        this.m_destinations.delete(destination);
+    }
+
+    /**
+     * The camera destinations whose tiles are prefetched.
+     */
+    get destinations(): CameraDestination[] {
+        return Array.from(this.m_destinations);
+    }
+
+    /**
+     * Prefetches the tiles visible from the predicted cameras. Called by {@link MapView} for each
+     * frame.
+     *
+     * @param visibleTileSet - The visible tile set loading the tiles.
+     * @param dataSources - The data sources for which the tiles are prefetched.
+     * @param cameraVelocity - The camera velocity in world units per millisecond, see
+     * {@link CameraMovementDetector.cameraVelocity}.
+     * @param elevationRangeSource - Source of elevation range data if any.
+     * @returns The number of tiles which started prefetching.
+     */
+    update(
+        visibleTileSet: VisibleTileSet,
+        dataSources: DataSource[],
+        cameraVelocity: THREE.Vector3,
+        elevationRangeSource?: ElevationRangeSource
+    ): number {
+        let numPrefetchedTiles = 0;
+        const mapView = this.m_mapView;
+
+        if (cameraVelocity.lengthSq() > 0) {
+            const camera = this.m_camera.copy(mapView.camera);
+            camera.position.addScaledVector(cameraVelocity, this.m_lookAheadTime);
+            const altitude = mapView.projection.groundDistance(mapView.camera.position);
+            const predictedAltitude = mapView.projection.groundDistance(camera.position);
+            if (altitude > 0 && predictedAltitude > 0) {
+                const zoomLevel = THREE.MathUtils.clamp(
+                    mapView.zoomLevel + Math.log2(altitude / predictedAltitude),
+                    mapView.minZoomLevel,
+                    mapView.maxZoomLevel
+                );
+                numPrefetchedTiles += this.prefetchTiles(
+                    visibleTileSet,
+                    zoomLevel,
+                    dataSources,
+                    elevationRangeSource
+                );
+            }
+        }
+
+        for (const destination of this.m_destinations) {
+            const camera = this.m_camera.copy(mapView.camera);
+            const target = GeoCoordinates.fromObject(destination.target);
+            const distance = destination.distance ?? mapView.targetDistance;
+            const tilt = Math.min(destination.tilt ?? mapView.tilt, MapViewUtils.MAX_TILT_DEG);
+            const heading = destination.heading ?? mapView.heading;
+            MapViewUtils.getCameraRotationAtTarget(
+                mapView.projection,
+                target,
+                -heading,
+                tilt,
+                camera.quaternion
+            );
+            MapViewUtils.getCameraPositionFromTargetCoordinates(
+                target,
+                distance,
+                -heading,
+                tilt,
+                mapView.projection,
+                camera.position
+            );
+            numPrefetchedTiles += this.prefetchTiles(
+                visibleTileSet,
+                MapViewUtils.calculateZoomLevelFromDistance(mapView, distance),
+                dataSources,
+                elevationRangeSource
+            );
+        }
+        return numPrefetchedTiles;
+    }
+
+    private prefetchTiles(
+        visibleTileSet: VisibleTileSet,
+        zoomLevel: number,
+        dataSources: DataSource[],
+        elevationRangeSource?: ElevationRangeSource
+    ): number {
+        const camera = this.m_camera;
+        camera.updateMatrixWorld(true);
+        // The clip planes of the current camera don't fit a camera at another altitude.
+        const viewRanges = this.m_mapView.clipPlanesEvaluator.evaluateClipPlanes(
+            camera,
+            this.m_mapView.projection,
+            this.m_mapView.elevationProvider
+        );
+        camera.near = viewRanges.near;
+        camera.far = viewRanges.far;
+        camera.updateProjectionMatrix();
+
+        return visibleTileSet.prefetchTiles(
+            camera,
+            Math.floor(zoomLevel),
+            dataSources,
+            elevationRangeSource
+        );
+    }
+}
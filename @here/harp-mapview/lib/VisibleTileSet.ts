@@ -22,6 +22,7 @@ import { DataSource } from "./DataSource";
 import { ElevationRangeSource } from "./ElevationRangeSource";
 import { FrustumIntersection, TileKeyEntry } from "./FrustumIntersection";
 import { TileGeometryManager } from "./geometry/TileGeometryManager";
+import { TileLoaderState } from "./ITileLoader";
 import { TileTaskGroups } from "./MapView";
 import { Tile } from "./Tile";
 import { TileOffsetUtils } from "./Utils";
@@ -95,9 +96,17 @@ export interface VisibleTileSetOptions {
      * @defaultValue 0
      */
     maxTilesPerFrame: number;
+
+    /**
+     * Maximal number of tiles kept after being prefetched, until they become visible. See
+     * {@link VisibleTileSet.prefetchTiles}.
+     * @defaultValue 64
+     */
+    maxPrefetchedTiles?: number;
 }
 
 const MB_FACTOR = 1.0 / (1024.0 * 1024.0);
+const DEFAULT_MAX_PREFETCHED_TILES = 64;
 
 type TileCacheId = string;
 
@@ -114,14 +123,22 @@ type TileCacheId = string;
  */
 class DataSourceCache {
     /**
-     * Creates unique tile key for caching based on morton code, tile offset and its data source.
+     * Creates unique tile key for caching based on morton code, tile offset, its data source and
+     * the time of its data.
      *
      * @param mortonCode - The tile morton code.
      * @param offset - The tile offset.
      * @param dataSource - The {@link DataSource} from which tile was loaded.
+     * @param time - The time of the tile data, see {@link Tile.time}.
      */
-    static getKey(mortonCode: number, offset: number, dataSource: DataSource): TileCacheId {
-        return `${dataSource.name}_${mortonCode}_${offset}`;
+    static getKey(
+        mortonCode: number,
+        offset: number,
+        dataSource: DataSource,
+        time: number | undefined
+    ): TileCacheId {
+        const key = `${dataSource.name}_${mortonCode}_${offset}`;
+        return time === undefined ? key : `${key}_${time}`;
     }
 
     /**
@@ -130,7 +147,12 @@ class DataSourceCache {
      * @param tile - The tile for which key is generated.
      */
     static getKeyForTile(tile: Tile): TileCacheId {
-        return DataSourceCache.getKey(tile.tileKey.mortonCode(), tile.offset, tile.dataSource);
+        return DataSourceCache.getKey(
+            tile.tileKey.mortonCode(),
+            tile.offset,
+            tile.dataSource,
+            tile.time
+        );
     }
 
     private readonly m_tileCache: LRUCache<TileCacheId, Tile>;
@@ -231,9 +253,24 @@ class DataSourceCache {
      * @param mortonCode - An unique tile morton code.
      * @param offset - Tile offset.
      * @param dataSource - A {@link DataSource} the tile comes from.
+     * @param time - The time of the tile data, the current time of the data source by default.
+     */
+    get(
+        mortonCode: number,
+        offset: number,
+        dataSource: DataSource,
+        time = dataSource.time
+    ): Tile | undefined {
+        return this.m_tileCache.get(DataSourceCache.getKey(mortonCode, offset, dataSource, time));
+    }
+
+    /**
+     * Checks if a tile is in the cache, without updating its last usage.
+     *
+     * @param tileKey - The unique tile identifier, see [[DataSourceCache.getKey]].
      */
-    get(mortonCode: number, offset: number, dataSource: DataSource): Tile | undefined {
-        return this.m_tileCache.get(DataSourceCache.getKey(mortonCode, offset, dataSource));
+    has(tileKey: TileCacheId): boolean {
+        return this.m_tileCache.has(tileKey);
     }
 
     /**
@@ -245,7 +282,10 @@ class DataSourceCache {
      * @param tile - The tile reference.
      */
     set(mortonCode: number, offset: number, dataSource: DataSource, tile: Tile) {
-        this.m_tileCache.set(DataSourceCache.getKey(mortonCode, offset, dataSource), tile);
+        this.m_tileCache.set(
+            DataSourceCache.getKey(mortonCode, offset, dataSource, tile.time),
+            tile
+        );
     }
 
     /**
@@ -395,6 +435,11 @@ export class VisibleTileSet {
     // Maps morton codes to a given Tile, used to find overlapping Tiles. We only need to have this
     // for a single TilingScheme, i.e. that of the BackgroundDataSource.
     private readonly m_coveringMap = new Map<number, Tile>();
+    // Tiles loaded before they become visible. They are kept apart from the [[DataSourceCache]],
+    // which disposes tiles that are not visible while loading. Ordered by last prefetch.
+    private readonly m_prefetchedTiles = new Map<TileCacheId, Tile>();
+    private readonly m_prefetchCamera = new THREE.PerspectiveCamera();
+    private m_prefetchFrustumIntersection?: FrustumIntersection;
 
     private m_resourceComputationType: ResourceComputationType =
         ResourceComputationType.EstimationInMb;
@@ -700,6 +745,143 @@ export class VisibleTileSet {
         };
     }
 
+    /**
+     * Starts loading the tiles that will be visible from a given camera, e.g. a camera predicted
+     * from the current camera movement.
+     *
+     * @remarks
+     * The tiles are loaded by tasks of the [[TileTaskGroups.PREFETCH]] group, which are processed
+     * after the tasks of the visible tiles. Prefetched tiles are kept until they become visible,
+     * at most {@link VisibleTileSetOptions.maxPrefetchedTiles} of them, the tiles prefetched least
+     * recently are disposed first. Only tiles of cacheable data sources are prefetched.
+     *
+     * @param camera - The camera from which the tiles will be visible.
+     * @param zoomLevel - The zoom level of the camera.
+     * @param dataSources - The data sources for which the tiles are prefetched.
+     * @param elevationRangeSource - Source of elevation range data if any.
+     * @returns The number of tiles which started prefetching.
+     */
+    prefetchTiles(
+        camera: THREE.PerspectiveCamera,
+        zoomLevel: number,
+        dataSources: DataSource[],
+        elevationRangeSource?: ElevationRangeSource
+    ): number {
+        this.m_prefetchCamera.copy(camera);
+        if (this.m_prefetchFrustumIntersection === undefined) {
+            this.m_prefetchFrustumIntersection = this.m_frustumIntersection.cloneForCamera(
+                this.m_prefetchCamera
+            );
+        }
+        const visibleTileKeysResult = this.getVisibleTileKeysForDataSources(
+            zoomLevel,
+            dataSources.filter(dataSource => dataSource.cacheable),
+            elevationRangeSource,
+            this.m_prefetchFrustumIntersection
+        );
+
+        let numPrefetchedTiles = 0;
+        for (const { dataSource, visibleTileKeys } of visibleTileKeysResult.tileKeys) {
+            const numTileKeys = Math.min(
+                visibleTileKeys.length,
+                this.options.maxVisibleDataSourceTiles
+            );
+            for (let i = 0; i < numTileKeys; i++) {
+                const tileEntry = visibleTileKeys[i];
+                const key = DataSourceCache.getKey(
+                    tileEntry.tileKey.mortonCode(),
+                    tileEntry.offset,
+                    dataSource,
+                    dataSource.time
+                );
+                if (this.m_dataSourceCache.has(key)) {
+                    continue;
+                }
+                let tile = this.m_prefetchedTiles.get(key);
+                if (tile !== undefined) {
+                    // Re-insert the tile to mark it as most recently prefetched.
+                    this.m_prefetchedTiles.delete(key);
+                } else {
+                    tile = dataSource.getTile(tileEntry.tileKey, true);
+                    if (tile === undefined) {
+                        continue;
+                    }
+                    tile.offset = tileEntry.offset;
+                    this.addToPrefetchQueue(key, tile);
+                    numPrefetchedTiles++;
+                }
+                tile.visibleArea = tileEntry.area;
+                tile.elevationRange = tileEntry;
+                this.m_prefetchedTiles.set(key, tile);
+            }
+        }
+
+        this.limitPrefetchedTiles();
+        return numPrefetchedTiles;
+    }
+
+    /**
+     * Prefetches the currently visible tiles for the time steps neighboring the current time of
+     * their data sources, see {@link DataSource.getPrefetchTimeSteps}.
+     *
+     * @remarks
+     * Like the tiles of [[prefetchTiles]], the tiles are loaded by tasks of the
+     * [[TileTaskGroups.PREFETCH]] group and kept until they become visible. Must be called after
+     * [[updateRenderList]].
+     *
+     * @returns The number of tiles which started prefetching.
+     */
+    prefetchTimeSteps(): number {
+        let numPrefetchedTiles = 0;
+        for (const { dataSource, visibleTiles } of this.dataSourceTileList) {
+            if (!dataSource.cacheable) {
+                continue;
+            }
+            const timeSteps = dataSource.getPrefetchTimeSteps();
+            // Prefetch the nearest time steps last, so that they are disposed last.
+            for (let i = timeSteps.length - 1; i >= 0; i--) {
+                const time = timeSteps[i];
+                for (const visibleTile of visibleTiles) {
+                    const { tileKey, offset } = visibleTile;
+                    const key = DataSourceCache.getKey(
+                        tileKey.mortonCode(),
+                        offset,
+                        dataSource,
+                        time
+                    );
+                    if (this.m_dataSourceCache.has(key)) {
+                        continue;
+                    }
+                    let tile = this.m_prefetchedTiles.get(key);
+                    if (tile !== undefined) {
+                        this.m_prefetchedTiles.delete(key);
+                    } else {
+                        tile = dataSource.getTileAtTime(tileKey, time);
+                        if (tile === undefined) {
+                            continue;
+                        }
+                        tile.offset = offset;
+                        this.addToPrefetchQueue(key, tile);
+                        numPrefetchedTiles++;
+                    }
+                    tile.visibleArea = visibleTile.visibleArea;
+                    tile.elevationRange = visibleTile.elevationRange;
+                    this.m_prefetchedTiles.set(key, tile);
+                }
+            }
+        }
+
+        this.limitPrefetchedTiles();
+        return numPrefetchedTiles;
+    }
+
+    /**
+     * Gets the number of tiles which were prefetched and did not become visible yet.
+     */
+    getNumberOfPrefetchedTiles(): number {
+        return this.m_prefetchedTiles.size;
+    }
+
     /**
      * Gets the tile corresponding to the given data source, key and offset, creating it if
      * necessary.
@@ -727,17 +909,19 @@ export class VisibleTileSet {
      * @param tileKey - The key identifying the tile.
      * @param offset - Tile offset.
      * @param frameNumber - Frame in which the tile was requested
+     * @param time - The time of the tile data, the current time of the data source by default.
      * @return The tile if found in cache, undefined otherwise.
      */
     getCachedTile(
         dataSource: DataSource,
         tileKey: TileKey,
         offset: number,
-        frameNumber: number
+        frameNumber: number,
+        time = dataSource.time
     ): Tile | undefined {
         assert(dataSource.cacheable);
         const cacheOnly = true;
-        return this.getTileImpl(dataSource, tileKey, offset, cacheOnly, frameNumber);
+        return this.getTileImpl(dataSource, tileKey, offset, cacheOnly, frameNumber, time);
     }
 
     /**
@@ -865,6 +1049,7 @@ export class VisibleTileSet {
      * @param filter Optional tile filter
      */
     clearTileCache(dataSource?: DataSource, filter?: (tile: Tile) => boolean) {
+        this.disposePrefetchedTiles(dataSource, filter);
         if (dataSource !== undefined) {
             this.m_dataSourceCache.evictSelected((tile: Tile, _) => {
                 return (
@@ -889,6 +1074,7 @@ export class VisibleTileSet {
      * @param filter Optional tile filter
      */
     markTilesDirty(dataSource?: DataSource, filter?: (tile: Tile) => boolean) {
+        this.disposePrefetchedTiles(dataSource, filter);
         if (dataSource === undefined) {
             this.dataSourceTileList.forEach(renderListEntry => {
                 this.markDataSourceTilesDirty(renderListEntry, filter);
@@ -1014,6 +1200,8 @@ export class VisibleTileSet {
             // Tiles for which we need to fall(back/forward) to.
             const incompleteTiles: number[] = [];
 
+            const previousTime = renderListEntry.dataSource.previousTime;
+
             // Populate the list of tiles which can be shown ("renderedTiles"), and the list of
             // tiles that are incomplete, and for which we search for an alternative
             // ("incompleteTiles").
@@ -1021,6 +1209,27 @@ export class VisibleTileSet {
                 tile.levelOffset = 0;
                 if (tile.hasGeometry && !tile.delayRendering) {
                     renderedTiles.set(tile.uniqueKey, tile);
+                    return;
+                }
+                // Show the tile of the previous time until the tile of the current time is loaded.
+                const previousTimeTile =
+                    previousTime !== undefined && previousTime !== tile.time
+                        ? this.m_dataSourceCache.get(
+                              tile.tileKey.mortonCode(),
+                              tile.offset,
+                              tile.dataSource,
+                              previousTime
+                          )
+                        : undefined;
+                if (
+                    previousTimeTile !== undefined &&
+                    previousTimeTile.hasGeometry &&
+                    !previousTimeTile.delayRendering
+                ) {
+                    previousTimeTile.levelOffset = 0;
+                    // Keep the tile from being removed from the cache.
+                    previousTimeTile.frameNumLastRequested = tile.frameNumLastRequested;
+                    renderedTiles.set(tile.uniqueKey, previousTimeTile);
                 } else {
                     // if dataSource supports cache and it was existing before this render
                     // then enable searching for loaded tiles in cache
@@ -1178,7 +1387,8 @@ export class VisibleTileSet {
         tileKey: TileKey,
         offset: number,
         cacheOnly: boolean,
-        frameNumber: number
+        frameNumber: number,
+        time = dataSource.time
     ): Tile | undefined {
         function touchTile(tileToUpdate: Tile) {
             // Keep the tile from being removed from the cache.
@@ -1195,7 +1405,7 @@ export class VisibleTileSet {
         }
 
         const tileCache = this.m_dataSourceCache;
-        let tile = tileCache.get(tileKey.mortonCode(), offset, dataSource);
+        let tile = tileCache.get(tileKey.mortonCode(), offset, dataSource, time);
 
         if (tile !== undefined && tile.offset === offset) {
             touchTile(tile);
@@ -1206,6 +1416,13 @@ export class VisibleTileSet {
             return undefined;
         }
 
+        tile = this.takePrefetchedTile(tileKey, offset, dataSource);
+        if (tile !== undefined) {
+            touchTile(tile);
+            tileCache.set(tileKey.mortonCode(), offset, dataSource, tile);
+            return tile;
+        }
+
         tile = dataSource.getTile(tileKey, true);
         // TODO: Update all tile information including area, min/max elevation from TileKeyEntry
         if (tile !== undefined) {
@@ -1233,6 +1450,77 @@ export class VisibleTileSet {
         });
     }
 
+    private addToPrefetchQueue(key: TileCacheId, tile: Tile) {
+        this.m_taskQueue.add({
+            execute: tile.load.bind(tile),
+            group: TileTaskGroups.PREFETCH,
+            getPriority: () => {
+                return tile.tileLoader?.priority ?? 0;
+            },
+            isExpired: () => {
+                // The tile was disposed, or became visible and is loaded as visible tile.
+                return this.m_prefetchedTiles.get(key) !== tile;
+            },
+            estimatedProcessTime: () => {
+                return 1;
+            }
+        });
+    }
+
+    // Removes a prefetched tile to use it as visible tile, queueing its loading if the prefetch
+    // task didn't start it yet.
+    private takePrefetchedTile(
+        tileKey: TileKey,
+        offset: number,
+        dataSource: DataSource
+    ): Tile | undefined {
+        const key = DataSourceCache.getKey(
+            tileKey.mortonCode(),
+            offset,
+            dataSource,
+            dataSource.time
+        );
+        const tile = this.m_prefetchedTiles.get(key);
+        if (tile === undefined) {
+            return undefined;
+        }
+        this.m_prefetchedTiles.delete(key);
+        if (tile.disposed) {
+            return undefined;
+        }
+        if (
+            tile.tileLoader !== undefined &&
+            tile.tileLoader.state === TileLoaderState.Initialized
+        ) {
+            this.addToTaskQueue(tile);
+        }
+        return tile;
+    }
+
+    // Disposes the tiles prefetched least recently exceeding the maximum number.
+    private limitPrefetchedTiles() {
+        const maxPrefetchedTiles = this.options.maxPrefetchedTiles ?? DEFAULT_MAX_PREFETCHED_TILES;
+        for (const [key, tile] of this.m_prefetchedTiles) {
+            if (this.m_prefetchedTiles.size <= maxPrefetchedTiles) {
+                break;
+            }
+            this.m_prefetchedTiles.delete(key);
+            tile.dispose();
+        }
+    }
+
+    private disposePrefetchedTiles(dataSource?: DataSource, filter?: (tile: Tile) => boolean) {
+        for (const [key, tile] of this.m_prefetchedTiles) {
+            if (
+                (dataSource === undefined || tile.dataSource === dataSource) &&
+                (filter === undefined || filter(tile))
+            ) {
+                this.m_prefetchedTiles.delete(key);
+                tile.dispose();
+            }
+        }
+    }
+
     private markDataSourceTilesDirty(
         renderListEntry: DataSourceTileList,
         filter?: (tile: Tile) => boolean
@@ -1274,7 +1562,8 @@ export class VisibleTileSet {
     private getVisibleTileKeysForDataSources(
         zoomLevel: number,
         dataSources: DataSource[],
-        elevationRangeSource: ElevationRangeSource | undefined
+        elevationRangeSource: ElevationRangeSource | undefined,
+        frustumIntersection: FrustumIntersection = this.m_frustumIntersection
     ): {
         tileKeys: Array<{ dataSource: DataSource; visibleTileKeys: TileKeyEntry[] }>;
         allBoundingBoxesFinal: boolean;
@@ -1301,7 +1590,7 @@ export class VisibleTileSet {
         // (near ~0, far: maxVisibilityRange) that allows to consider tiles that
         // are far below ground plane and high enough to intersect the frustum.
         if (elevationRangeSource !== undefined) {
-            this.m_cameraOverride.copy(this.m_frustumIntersection.camera);
+            this.m_cameraOverride.copy(frustumIntersection.camera);
             this.m_cameraOverride.near = Math.min(
                 this.m_cameraOverride.near,
                 this.m_viewRange.minimum
@@ -1311,16 +1600,16 @@ export class VisibleTileSet {
                 this.m_viewRange.maximum
             );
             this.m_cameraOverride.updateProjectionMatrix();
-            this.m_frustumIntersection.updateFrustum(this.m_cameraOverride.projectionMatrix);
+            frustumIntersection.updateFrustum(this.m_cameraOverride.projectionMatrix);
         } else {
-            this.m_frustumIntersection.updateFrustum();
+            frustumIntersection.updateFrustum();
         }
 
         // For each bucket of data sources with same tiling scheme, calculate frustum intersection
         // once using the maximum display level.
         for (const [tilingScheme, bucket] of dataSourceBuckets) {
             const zoomLevels = bucket.map(dataSource => dataSource.getDataZoomLevel(zoomLevel));
-            const result = this.m_frustumIntersection.compute(
+            const result = frustumIntersection.compute(
                 tilingScheme,
                 elevationRangeSource,
                 zoomLevels,
@@ -100,7 +100,8 @@ export class WorkerBasedDecoder implements ITileDecoder {
         data: ArrayBufferLike,
         tileKey: TileKey,
         projection: Projection,
-        requestController?: RequestController
+        requestController?: RequestController,
+        time?: number
     ): Promise<DecodedTile> {
         const tileKeyCode = tileKey.mortonCode();
 
@@ -108,7 +109,8 @@ export class WorkerBasedDecoder implements ITileDecoder {
             type: WorkerDecoderProtocol.Requests.DecodeTileRequest,
             tileKey: tileKeyCode,
             data,
-            projection: getProjectionName(projection)
+            projection: getProjectionName(projection),
+            time
         };
 
         const transferList = data instanceof ArrayBuffer ? [data] : undefined;
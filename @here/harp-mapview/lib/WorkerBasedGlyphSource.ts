@@ -0,0 +1,117 @@
+/*
+ * Copyright (C) 2017-2020 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { WorkerGlyphProtocol, WorkerServiceProtocol } from "@here/harp-datasource-protocol";
+import {
+    SdfGlyphGenerator,
+    SdfGlyphRequest,
+    SdfGlyphResponse,
+    SdfGlyphSource
+} from "@here/harp-text-canvas";
+import { LoggerManager } from "@here/harp-utils";
+
+import { ConcurrentWorkerSet } from "./ConcurrentWorkerSet";
+
+const logger = LoggerManager.instance.create("WorkerBasedGlyphSource");
+
+/**
+ * Identifier of next glyph generator worker-service. Used to ensure uniqueness of service ids of
+ * glyph sources of different map views.
+ */
+let nextUniqueServiceId = 0;
+
+/**
+ * Glyph source based on [[ConcurrentWorkerSet]].
+ *
+ * Generates SDF glyphs of runtime font catalogs in workers, with `GlyphGeneratorService`s created
+ * on first use. If the decoder script doesn't register the service, glyphs are generated on the
+ * main thread instead.
+ */
+export class WorkerBasedGlyphSource implements SdfGlyphSource {
+    private readonly serviceId: string;
+    private m_connectPromise?: Promise<SdfGlyphSource>;
+    private m_serviceCreated: boolean = false;
+
+    /**
+     * Creates a new `WorkerBasedGlyphSource`.
+     *
+     * @param workerSet - [[ConcurrentWorkerSet]] the glyph generators will live in.
+     */
+    constructor(private readonly workerSet: ConcurrentWorkerSet) {
+        this.workerSet.addReference();
+        this.serviceId = `${
+            WorkerGlyphProtocol.GLYPH_GENERATOR_SERVICE_TYPE
+        }-${nextUniqueServiceId++}`;
+    }
+
+    /**
+     * Dispose of dedicated glyph generator services in workers and remove reference to underlying
+     * [[ConcurrentWorkerSet]].
+     */
+    dispose() {
+        if (this.m_serviceCreated) {
+            this.workerSet
+                .broadcastRequest(WorkerServiceProtocol.WORKER_SERVICE_MANAGER_SERVICE_ID, {
+                    type: WorkerServiceProtocol.Requests.DestroyService,
+                    targetServiceId: this.serviceId
+                })
+                .catch(() => {
+                    /* Ignoring these errors as underlying workers possibly do not exist anymore. */
+                });
+        }
+
+        this.workerSet.removeReference();
+    }
+
+    /** @override */
+    async generateGlyphs(request: SdfGlyphRequest): Promise<SdfGlyphResponse> {
+        if (this.m_connectPromise === undefined) {
+            this.m_connectPromise = this.connect();
+        }
+        const source = await this.m_connectPromise;
+        if (source !== this) {
+            return await source.generateGlyphs(request);
+        }
+
+        const message: WorkerGlyphProtocol.GenerateGlyphsRequest = {
+            type: WorkerGlyphProtocol.Requests.GenerateGlyphs,
+            ...request
+        };
+        return await this.workerSet.invokeRequest(this.serviceId, message);
+    }
+
+    /**
+     * Creates the `GlyphGeneratorService`s in all workers.
+     *
+     * @returns This source, or a main thread [[SdfGlyphGenerator]] if the services can't be
+     * created.
+     */
+    private async connect(): Promise<SdfGlyphSource> {
+        try {
+            await this.workerSet.connect(WorkerServiceProtocol.WORKER_SERVICE_MANAGER_SERVICE_ID);
+            await this.workerSet.broadcastRequest(
+                WorkerServiceProtocol.WORKER_SERVICE_MANAGER_SERVICE_ID,
+                {
+                    type: WorkerServiceProtocol.Requests.CreateService,
+                    targetServiceType: WorkerGlyphProtocol.GLYPH_GENERATOR_SERVICE_TYPE,
+                    targetServiceId: this.serviceId
+                }
+            );
+            this.m_serviceCreated = true;
+            return this;
+        } catch (error) {
+            if (WorkerServiceProtocol.isUnknownServiceError(error)) {
+                logger.info(
+                    "Unable to create glyph generator service in worker, generating glyphs on " +
+                        "main thread. Use 'GlyphGeneratorService.register();' in decoder script."
+                );
+            } else {
+                logger.warn("Failed to create glyph generator service in worker: ", error);
+            }
+            return new SdfGlyphGenerator();
+        }
+    }
+}
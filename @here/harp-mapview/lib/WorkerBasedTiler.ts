@@ -5,8 +5,11 @@
  */
 
 import {
+    Feature,
     GeoJson,
     ITiler,
+    TilerFeatureChanges,
+    TilerIndexOptions,
     WorkerServiceProtocol,
     WorkerTilerProtocol
 } from "@here/harp-datasource-protocol";
@@ -91,12 +94,18 @@ export class WorkerBasedTiler implements ITiler {
      *
      * @param indexId - Index identifier.
      * @param input - Url to the index payload, or direct GeoJSON.
+     * @param options - Options of the index.
      */
-    registerIndex(indexId: string, input: URL | GeoJson): Promise<void> {
+    registerIndex(
+        indexId: string,
+        input: URL | GeoJson,
+        options?: TilerIndexOptions
+    ): Promise<void> {
         const message: WorkerTilerProtocol.RegisterIndexRequest = {
             type: WorkerTilerProtocol.Requests.RegisterIndex,
             id: indexId,
-            input: input instanceof URL ? input.href : (input as GeoJson)
+            input: input instanceof URL ? input.href : (input as GeoJson),
+            options
         };
         return this.workerSet.invokeRequest(this.serviceId, message);
     }
@@ -107,16 +116,35 @@ export class WorkerBasedTiler implements ITiler {
      *
      * @param indexId - Index identifier.
      * @param input - Url to the index payload, or direct GeoJSON.
+     * @param options - Options of the index.
      */
-    updateIndex(indexId: string, input: URL | GeoJson): Promise<void> {
+    updateIndex(indexId: string, input: URL | GeoJson, options?: TilerIndexOptions): Promise<void> {
         const message: WorkerTilerProtocol.UpdateIndexRequest = {
             type: WorkerTilerProtocol.Requests.UpdateIndex,
             id: indexId,
-            input: input instanceof URL ? input.href : (input as GeoJson)
+            input: input instanceof URL ? input.href : (input as GeoJson),
+            options
         };
         return this.workerSet.invokeRequest(this.serviceId, message);
     }
 
+    /**
+     * Adds, updates and removes features of a previously registered index.
+     *
+     * @param indexId - Index identifier.
+     * @param changes - The feature changes.
+     * @returns The keys of the tiles containing changes.
+     */
+    async updateFeatures(indexId: string, changes: TilerFeatureChanges): Promise<TileKey[]> {
+        const message: WorkerTilerProtocol.UpdateFeaturesRequest = {
+            type: WorkerTilerProtocol.Requests.UpdateFeatures,
+            id: indexId,
+            changes
+        };
+        const mortonCodes: number[] = await this.workerSet.invokeRequest(this.serviceId, message);
+        return mortonCodes.map(mortonCode => TileKey.fromMortonCode(mortonCode));
+    }
+
     /**
      * Retrieves a tile for a previously registered index.
      *
@@ -132,4 +160,34 @@ export class WorkerBasedTiler implements ITiler {
         };
         return this.workerSet.invokeRequest(this.serviceId, message);
     }
+
+    /**
+     * Retrieves the children of a cluster of a previously registered index.
+     *
+     * @param indexId - Index identifier.
+     * @param clusterId - The `cluster_id` of the cluster.
+     */
+    getClusterChildren(indexId: string, clusterId: number): Promise<Feature[]> {
+        const message: WorkerTilerProtocol.ClusterChildrenRequest = {
+            type: WorkerTilerProtocol.Requests.ClusterChildrenRequest,
+            index: indexId,
+            clusterId
+        };
+        return this.workerSet.invokeRequest(this.serviceId, message);
+    }
+
+    /**
+     * Retrieves the expansion zoom of a cluster of a previously registered index.
+     *
+     * @param indexId - Index identifier.
+     * @param clusterId - The `cluster_id` of the cluster.
+     */
+    getClusterExpansionZoom(indexId: string, clusterId: number): Promise<number> {
+        const message: WorkerTilerProtocol.ClusterExpansionZoomRequest = {
+            type: WorkerTilerProtocol.Requests.ClusterExpansionZoomRequest,
+            index: indexId,
+            clusterId
+        };
+        return this.workerSet.invokeRequest(this.serviceId, message);
+    }
 }
@@ -0,0 +1,179 @@
+/*
+ * Copyright (C) 2017-2020 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { HeatmapColorizeMaterial, HeatmapMaterial } from "@here/harp-materials";
+import * as THREE from "three";
+
+import { Heatmap, HEATMAP_LAYER } from "../geometry/Heatmap";
+import { Pass } from "./Pass";
+
+/**
+ * Density buffer and colorization quad of a heatmap.
+ */
+interface HeatmapLayer {
+    target: THREE.WebGLRenderTarget;
+    material: HeatmapColorizeMaterial;
+    quad: THREE.Mesh;
+}
+
+const tmpSize = new THREE.Vector2();
+const tmpClearColor = new THREE.Color();
+
+/**
+ * The `HeatmapPass` accumulates the {@link Heatmap} points of the scene into density buffers and
+ * adds screen filling quads colorizing the densities to the scene.
+ *
+ * @remarks
+ * The points of each heatmap are rendered into a separate density buffer before the scene is
+ * rendered. The colorization quads have the render order of the heatmaps, so that the heatmaps
+ * are blended with the other map objects as if the points were rendered by the scene. The quads
+ * have to be removed with {@link HeatmapPass.restore} after the scene is rendered.
+ *
+ * @internal
+ */
+export class HeatmapPass extends Pass {
+    private readonly m_layers = new Map<string, HeatmapLayer>();
+    private readonly m_quadGeometry = new THREE.PlaneBufferGeometry(2, 2);
+    private readonly m_addedQuads: THREE.Mesh[] = [];
+
+    /**
+     * Releases all used resources.
+     */
+    dispose() {
+        this.m_layers.forEach(layer => this.disposeLayer(layer));
+        this.m_layers.clear();
+        this.m_quadGeometry.dispose();
+    }
+
+    /**
+     * Accumulates the heatmaps of the scene and adds their colorization quads to the scene.
+     *
+     * @param renderer - The ThreeJS WebGLRenderer instance to render the density buffers with.
+     * @param scene - The ThreeJS Scene instance containing the heatmaps.
+     * @param camera - The ThreeJS Camera instance to render the heatmaps through.
+     */
+    render(
+        renderer: THREE.WebGLRenderer,
+        scene: THREE.Scene,
+        camera: THREE.PerspectiveCamera | THREE.OrthographicCamera
+    ) {
+        const heatmaps = this.collectHeatmaps(scene);
+        this.m_layers.forEach((layer, layerId) => {
+            if (!heatmaps.has(layerId)) {
+                this.disposeLayer(layer);
+                this.m_layers.delete(layerId);
+            }
+        });
+        if (heatmaps.size === 0) {
+            return;
+        }
+
+        const oldTarget = renderer.getRenderTarget();
+        const oldAutoClear = renderer.autoClear;
+        const oldClearAlpha = renderer.getClearAlpha();
+        tmpClearColor.copy(renderer.getClearColor());
+        const oldBackground = scene.background;
+        const oldLayersMask = camera.layers.mask;
+        renderer.getDrawingBufferSize(tmpSize);
+
+        try {
+            renderer.autoClear = false;
+            renderer.setClearColor(0x000000, 0);
+            scene.background = null;
+            camera.layers.set(HEATMAP_LAYER);
+
+            heatmaps.forEach((objects, layerId) => {
+                const layer = this.getLayer(layerId, renderer);
+                layer.target.setSize(tmpSize.x, tmpSize.y);
+
+                // Only the points of the current heatmap are visible while accumulating.
+                heatmaps.forEach(others => {
+                    others.forEach(object => (object.visible = others === objects));
+                });
+                renderer.setRenderTarget(layer.target);
+                renderer.clear(true, false, false);
+                renderer.render(scene, camera);
+
+                const heatmapMaterial = objects[0].material as HeatmapMaterial;
+                layer.material.colorRamp = heatmapMaterial.colorRamp ?? null;
+                layer.material.heatmapOpacity = heatmapMaterial.heatmapOpacity;
+                layer.quad.renderOrder = objects[0].renderOrder;
+                scene.add(layer.quad);
+                this.m_addedQuads.push(layer.quad);
+            });
+        } finally {
+            heatmaps.forEach(objects => objects.forEach(object => (object.visible = true)));
+            camera.layers.mask = oldLayersMask;
+            scene.background = oldBackground;
+            renderer.setClearColor(tmpClearColor, oldClearAlpha);
+            renderer.autoClear = oldAutoClear;
+            renderer.setRenderTarget(oldTarget);
+        }
+    }
+
+    /**
+     * Removes the colorization quads added by {@link HeatmapPass.render} from the scene.
+     *
+     * @param scene - The ThreeJS Scene instance the quads were added to.
+     */
+    restore(scene: THREE.Scene) {
+        for (const quad of this.m_addedQuads) {
+            scene.remove(quad);
+        }
+        this.m_addedQuads.length = 0;
+    }
+
+    private collectHeatmaps(scene: THREE.Scene): Map<string, Heatmap[]> {
+        const heatmaps = new Map<string, Heatmap[]>();
+        scene.traverseVisible(object => {
+            if (!(object instanceof Heatmap)) {
+                return;
+            }
+            const objects = heatmaps.get(object.layerId);
+            if (objects === undefined) {
+                heatmaps.set(object.layerId, [object]);
+            } else {
+                objects.push(object);
+            }
+        });
+        return heatmaps;
+    }
+
+    private getLayer(layerId: string, renderer: THREE.WebGLRenderer): HeatmapLayer {
+        let layer = this.m_layers.get(layerId);
+        if (layer === undefined) {
+            const target = new THREE.WebGLRenderTarget(1, 1, {
+                type: this.getDensityType(renderer),
+                format: THREE.RGBAFormat,
+                depthBuffer: false,
+                stencilBuffer: false
+            });
+            const material = new HeatmapColorizeMaterial();
+            material.densityTexture = target.texture;
+            const quad = new THREE.Mesh(this.m_quadGeometry, material);
+            quad.frustumCulled = false;
+            layer = { target, material, quad };
+            this.m_layers.set(layerId, layer);
+        }
+        return layer;
+    }
+
+    /**
+     * Densities are accumulated in floating point buffers if supported, they saturate otherwise.
+     */
+    private getDensityType(renderer: THREE.WebGLRenderer): THREE.TextureDataType {
+        const extensions = renderer.extensions;
+        const supportsHalfFloat = renderer.capabilities.isWebGL2
+            ? extensions.has("EXT_color_buffer_float")
+            : extensions.has("OES_texture_half_float") &&
+              extensions.has("EXT_color_buffer_half_float");
+        return supportsHalfFloat ? THREE.HalfFloatType : THREE.UnsignedByteType;
+    }
+
+    private disposeLayer(layer: HeatmapLayer) {
+        layer.target.dispose();
+        layer.material.dispose();
+    }
+}
@@ -13,6 +13,7 @@ import {
 import { SepiaShader, VignetteShader } from "@here/harp-materials";
 import * as THREE from "three";
 
+import { HeatmapPass } from "./HeatmapPass";
 import { IPassManager } from "./IPassManager";
 import { LowResRenderPass } from "./LowResRenderPass";
 import { MSAARenderPass, MSAASampling } from "./MSAARenderPass";
@@ -141,6 +142,11 @@ export interface IMapRenderingManager extends IPassManager {
         color: string;
         ghostExtrudedPolygons: boolean;
     }): void;
+
+    /**
+     * Releases the render targets and materials of all passes.
+     */
+    dispose(): void;
 }
 
 /**
@@ -190,6 +196,7 @@ export class MapRenderingManager implements IMapRenderingManager {
     private m_dynamicMsaaSamplingLevel: MSAASampling;
     private m_staticMsaaSamplingLevel: MSAASampling;
     private m_lowResPass: LowResRenderPass;
+    private readonly m_heatmapPass: HeatmapPass = new HeatmapPass();
 
     /**
      * The constructor of `MapRenderingManager`.
@@ -224,6 +231,22 @@ export class MapRenderingManager implements IMapRenderingManager {
         this.m_lowResPass.enabled = lowResPixelRatio !== undefined;
     }
 
+    /**
+     * Releases the render targets and materials of all passes.
+     */
+    dispose() {
+        this.m_heatmapPass.dispose();
+        this.m_msaaPass.dispose();
+        this.m_lowResPass.dispose();
+        if (this.m_bloomPass !== undefined) {
+            this.m_bloomPass.dispose();
+            this.m_bloomPass = undefined;
+        }
+        this.m_readBuffer.dispose();
+        this.m_target1.dispose();
+        this.m_target2.dispose();
+    }
+
     updateOutline(options: { thickness: number; color: string; ghostExtrudedPolygons: boolean }) {
         this.outline.color = options.color;
         this.outline.thickness = options.thickness;
@@ -247,6 +270,22 @@ export class MapRenderingManager implements IMapRenderingManager {
         scene: THREE.Scene,
         camera: THREE.PerspectiveCamera | THREE.OrthographicCamera,
         isStaticFrame: boolean
+    ) {
+        // Heatmaps are accumulated before the scene is rendered, the colorized heatmaps are
+        // rendered as part of the scene.
+        this.m_heatmapPass.render(renderer, scene, camera);
+        try {
+            this.renderScene(renderer, scene, camera, isStaticFrame);
+        } finally {
+            this.m_heatmapPass.restore(scene);
+        }
+    }
+
+    private renderScene(
+        renderer: THREE.WebGLRenderer,
+        scene: THREE.Scene,
+        camera: THREE.PerspectiveCamera | THREE.OrthographicCamera,
+        isStaticFrame: boolean
     ) {
         const target = null;
         if (!isStaticFrame && this.m_lowResPass.pixelRatio !== undefined) {
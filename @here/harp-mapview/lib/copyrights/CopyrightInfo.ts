@@ -122,4 +122,75 @@ export namespace CopyrightInfo {
                 .join(", ")
         );
     }
+
+    /**
+     * Parse an attribution, as found in the metadata of tile sets, to {@link CopyrightInfo}s.
+     *
+     * * Links (`<a href="...">label</a>`) are converted to entries with a `link`.
+     * * The remaining text is split at copyright signs, `|` and `;` into entries without link.
+     * * Copyright signs and leading years are removed from the labels, as they are added by
+     *   {@link formatAsHtml}.
+     *
+     * @param attribution - Plain text or HTML attribution.
+     */
+    export function parseAttribution(attribution: string): CopyrightInfo[] {
+        const result: CopyrightInfo[] = [];
+        const linkRegExp = /<a\s[^>]*href\s*=\s*["']([^"']*)["'][^>]*>([\s\S]*?)<\/a>/gi;
+
+        let textStart = 0;
+        let match: RegExpExecArray | null;
+        while ((match = linkRegExp.exec(attribution)) !== null) {
+            addTextEntries(attribution.slice(textStart, match.index), result);
+            addEntry(match[2], result, decodeEntities(match[1]));
+            textStart = linkRegExp.lastIndex;
+        }
+        addTextEntries(attribution.slice(textStart), result);
+
+        return result;
+    }
+
+    function addTextEntries(html: string, result: CopyrightInfo[]) {
+        for (const text of decodeEntities(stripTags(html)).split(/[©|;]|\(c\)/i)) {
+            addEntry(text, result);
+        }
+    }
+
+    function addEntry(html: string, result: CopyrightInfo[], link?: string) {
+        let label = decodeEntities(stripTags(html))
+            .replace(/©|\(c\)/gi, "")
+            .replace(/^[\s,]+|[\s,]+$/g, "");
+        let year: number | undefined;
+        const yearMatch = /^(\d{4})\s+(.*)$/.exec(label);
+        if (yearMatch !== null) {
+            year = parseInt(yearMatch[1], 10);
+            label = yearMatch[2];
+        }
+        if (label.length === 0 || result.some(entry => entry.id === label)) {
+            return;
+        }
+
+        const copyrightInfo: CopyrightInfo = { id: label, label };
+        if (year !== undefined) {
+            copyrightInfo.year = year;
+        }
+        if (link !== undefined) {
+            copyrightInfo.link = link;
+        }
+        result.push(copyrightInfo);
+    }
+
+    function stripTags(html: string): string {
+        return html.replace(/<[^>]*>/g, "");
+    }
+
+    function decodeEntities(html: string): string {
+        return html
+            .replace(/&copy;/gi, "©")
+            .replace(/&nbsp;/gi, " ")
+            .replace(/&lt;/gi, "<")
+            .replace(/&gt;/gi, ">")
+            .replace(/&quot;/gi, '"')
+            .replace(/&#39;/g, "'")
+            .replace(/&amp;/gi, "&");
+    }
 }
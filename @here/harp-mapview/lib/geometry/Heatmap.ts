@@ -0,0 +1,49 @@
+/*
+ * Copyright (C) 2017-2020 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as THREE from "three";
+
+/**
+ * Layer of the heatmap points, which are rendered into density buffers instead of the scene.
+ *
+ * @internal
+ */
+export const HEATMAP_LAYER = 31;
+
+/**
+ * Points of the `"heatmap"` technique.
+ *
+ * @remarks
+ * The points are not rendered by the main pass, the {@link HeatmapPass} accumulates the points
+ * with the same `layerId` into a density buffer and colorizes it.
+ *
+ * @internal
+ */
+export class Heatmap extends THREE.Points {
+    /**
+     * Creates the points of a heatmap.
+     *
+     * @param geometry - The geometry with the `weight` attribute of the points.
+     * @param material - The `HeatmapMaterial` accumulating the points.
+     * @param layerId - Id of the heatmap the points belong to, heatmaps of different styles and
+     * data sources are colorized separately.
+     */
+    constructor(
+        geometry: THREE.BufferGeometry,
+        material: THREE.Material | THREE.Material[],
+        readonly layerId: string
+    ) {
+        super(geometry, material);
+        this.layers.set(HEATMAP_LAYER);
+        // The points influence pixels far outside of their bounding volume.
+        this.frustumCulled = false;
+    }
+
+    /** @override */
+    raycast() {
+        // Heatmaps are not pickable.
+    }
+}
@@ -68,10 +68,12 @@ import {
     ExtrusionFeature,
     FadingFeature,
     hasExtrusionFeature,
+    hasPatternFeature,
     isHighPrecisionLineMaterial,
     MapMeshBasicMaterial,
     MapMeshDepthMaterial,
     MapMeshStandardMaterial,
+    PatternFeature,
     setShaderMaterialDefine,
     SolidLineMaterial
 } from "@here/harp-materials";
@@ -93,6 +95,7 @@ import {
     setDepthPrePassStencil
 } from "../DepthPrePass";
 import { DisplacementMap, TileDisplacementMap } from "../DisplacementMap";
+import { PatternTexture } from "../image/PatternTexture";
 import { MapAdapterUpdateEnv, MapMaterialAdapter } from "../MapMaterialAdapter";
 import { MapObjectAdapter, MapObjectAdapterParams } from "../MapObjectAdapter";
 import { FALLBACK_RENDER_ORDER_OFFSET } from "../MapView";
@@ -108,6 +111,12 @@ const logger = LoggerManager.instance.create("TileGeometryCreator");
 const tmpVector3 = new THREE.Vector3();
 const tmpVector2 = new THREE.Vector2();
 
+/**
+ * Width in pixels of a tile displayed at its own zoom level, used to size `"world"` anchored fill
+ * patterns.
+ */
+const TILE_SIZE_ON_SCREEN = 256;
+
 class AttachmentCache {
     readonly bufferAttributes = new Map<BufferAttribute, THREE.BufferAttribute>();
 
@@ -570,6 +579,9 @@ export class TileGeometryCreator {
                         : DEFAULT_TEXT_DISTANCE_SCALE;
                 textElement.mayOverlap = technique.mayOverlap === true;
                 textElement.reserveSpace = technique.reserveSpace !== false;
+                textElement.collisionGroup = technique.collisionGroup;
+                textElement.repeatDistance = technique.repeatDistance;
+                textElement.styleSetIndex = technique._styleSetIndex;
                 textElement.kind = technique.kind;
                 // Get the userData for text element picking.
                 textElement.userData = textPath.objInfos;
@@ -656,6 +668,9 @@ export class TileGeometryCreator {
                             : mapView.maxZoomLevel;
                     textElement.mayOverlap = technique.mayOverlap === true;
                     textElement.reserveSpace = technique.reserveSpace !== false;
+                    textElement.collisionGroup = technique.collisionGroup;
+                    textElement.repeatDistance = technique.repeatDistance;
+                    textElement.styleSetIndex = technique._styleSetIndex;
                     textElement.kind = technique.kind;
 
                     textElement.fadeNear = fadeNear;
@@ -769,6 +784,13 @@ export class TileGeometryCreator {
                         addToExtrudedMaterials(material, extrudedMaterials);
                     }
                     materials[techniqueIndex] = material;
+
+                    if (
+                        (isFillTechnique(technique) && technique.fillPattern !== undefined) ||
+                        (isSolidLineTechnique(technique) && technique.linePattern !== undefined)
+                    ) {
+                        this.setupPatternMaterial(tile, technique, material);
+                    }
                 }
 
                 const techniqueKind = technique.kind;
@@ -1045,6 +1067,7 @@ export class TileGeometryCreator {
                         color: buildingTechnique.lineColor,
                         objectColor: buildingTechnique.color,
                         opacity: buildingTechnique.opacity,
+                        heightScale: buildingTechnique.heightScale,
                         lineWidth: (frameMapView: MapAdapterUpdateEnv) => {
                             // lineWidth for ExtrudedPolygonEdges only supports 0 or 1
                             const value = getPropertyValue(
@@ -1454,15 +1477,86 @@ export class TileGeometryCreator {
         });
     }
 
+    /**
+     * Loads the pattern image of a `fill` or `solid-line` technique and applies it to the material
+     * once available.
+     */
+    private setupPatternMaterial(
+        tile: Tile,
+        technique: FillTechnique | SolidLineTechnique,
+        material: THREE.Material
+    ) {
+        const patternName = isFillTechnique(technique)
+            ? technique.fillPattern!
+            : technique.linePattern!;
+
+        // Pattern textures are shared by all tiles, they're owned by the PoiManager.
+        tile.mapView.poiManager
+            .getPatternTexture(patternName)
+            .then(pattern => {
+                if (pattern === undefined || tile.disposed) {
+                    return;
+                }
+                if (material instanceof SolidLineMaterial) {
+                    material.patternRect = pattern.rect;
+                    material.patternAspect = pattern.width / pattern.height;
+                    material.patternMap = pattern.texture;
+                } else if (isFillTechnique(technique) && hasPatternFeature(material)) {
+                    this.setupFillPattern(tile, technique, material, pattern);
+                }
+                tile.dataSource.requestUpdate();
+            })
+            .catch(error => {
+                logger.error(`Failed to set up pattern '${patternName}':`, error);
+            });
+    }
+
+    private setupFillPattern(
+        tile: Tile,
+        technique: FillTechnique,
+        material: PatternFeature,
+        pattern: PatternTexture
+    ) {
+        const scale = technique.fillPatternScale ?? 1;
+        const anchor = technique.fillPatternAnchor ?? PatternFeature.DEFAULT_PATTERN_ANCHOR;
+
+        material.patternRect = pattern.rect;
+        material.patternAnchor = anchor;
+        if (anchor === "screen") {
+            const pixelRatio = tile.mapView.pixelRatio;
+            material.patternSize = tmpVector2.set(
+                pattern.width * scale * pixelRatio,
+                pattern.height * scale * pixelRatio
+            );
+        } else {
+            // Size the pattern in pixels of the tile's zoom level, and offset it by the tile
+            // center, so that it is continuous across tiles.
+            const tileSizeOnScreen =
+                TILE_SIZE_ON_SCREEN * Math.pow(2, -tile.dataSource.storageLevelOffset);
+            tile.boundingBox.getSize(tmpVector3);
+            const worldPerPixel = tmpVector3.x / tileSizeOnScreen;
+            const width = pattern.width * scale * worldPerPixel;
+            const height = pattern.height * scale * worldPerPixel;
+            material.patternSize = tmpVector2.set(width, height);
+            material.patternOffset = tmpVector2.set(
+                THREE.MathUtils.euclideanModulo(tile.center.x, width),
+                THREE.MathUtils.euclideanModulo(tile.center.y, height)
+            );
+        }
+        material.patternMap = pattern.texture;
+    }
+
     private setupTerrainMaterial(
         technique: TerrainTechnique,
         material: THREE.Material,
         terrainColor: number
     ) {
         if (technique.displacementMap === undefined) {
-            // Render terrain using the given color.
-            const stdMaterial = material as MapMeshStandardMaterial;
-            stdMaterial.color.set(terrainColor);
+            // Render terrain using the color of the technique, or the given color if not set.
+            if (technique.color === undefined) {
+                const stdMaterial = material as MapMeshStandardMaterial;
+                stdMaterial.color.set(terrainColor);
+            }
             return;
         }
 
@@ -393,6 +393,11 @@ export class TileGeometryLoader {
             // tslint:disable-next-line: max-line-length
             `Decoded tile: ${tile.dataSource.name} # lvl=${tile.tileKey.level} col=${tile.tileKey.column} row=${tile.tileKey.row}`
         );
+        stats.trace.addCompleteEvent("GeometryCreation", "tile", now, geometryCreationTime, {
+            dataSource: tile.dataSource.name,
+            tileKey: tile.tileKey.mortonCode(),
+            numGeometries: decodedTile.geometries.length
+        });
     }
 
     /**
@@ -0,0 +1,124 @@
+/*
+ * Copyright (C) 2017-2020 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as THREE from "three";
+
+import { MapView, MapViewEventNames, MapViewOptions } from "../MapView";
+import { ImageDataLike, SoftwareRenderer } from "./SoftwareRenderer";
+
+/**
+ * Default time in milliseconds {@link HeadlessMapView.renderToImage} waits for a complete frame.
+ */
+const DEFAULT_RENDER_TIMEOUT = 10000;
+
+/**
+ * Time in milliseconds between two frames rendered while waiting for a complete frame. Gives
+ * decoders and the task scheduler the chance to make progress.
+ */
+const RENDER_POLL_INTERVAL = 10;
+
+/**
+ * Options for {@link HeadlessMapView}.
+ */
+export interface HeadlessMapViewOptions
+    extends Omit<MapViewOptions, "canvas" | "context" | "renderer" | "synchronousRendering"> {
+    /**
+     * Width of the rendered image in css pixels.
+     */
+    width: number;
+
+    /**
+     * Height of the rendered image in css pixels.
+     */
+    height: number;
+}
+
+/**
+ * Renders a {@link MapView} to images without GPU, browser or DOM.
+ *
+ * @remarks
+ * Drives a regular {@link MapView} in synchronous rendering mode against a
+ * {@link SoftwareRenderer}, so tiles are culled by the `VisibleTileSet`, their geometry is created
+ * by the `TileGeometryCreator` and labels are placed by the `TextElementsRenderer` exactly as in a
+ * browser. Data sources used in Node.js should decode in the main thread, e.g. by passing a
+ * decoder instance instead of relying on web workers.
+ *
+ * @example
+ * ```TypeScript
+ * const headless = new HeadlessMapView({ width: 400, height: 300, theme });
+ * headless.mapView.addDataSource(dataSource);
+ * headless.mapView.lookAt({ target, zoomLevel: 10 });
+ * const image = await headless.renderToImage();
+ * ```
+ */
+export class HeadlessMapView {
+    /**
+     * The rendering map view.
+     */
+    readonly mapView: MapView;
+
+    /**
+     * The renderer producing the images.
+     */
+    readonly renderer: SoftwareRenderer;
+
+    /**
+     * Creates a new `HeadlessMapView`.
+     *
+     * @param options - Size of the rendered images and options of the underlying {@link MapView}.
+     */
+    constructor(options: HeadlessMapViewOptions) {
+        const pixelRatio = options.pixelRatio ?? 1;
+        this.renderer = new SoftwareRenderer(options.width, options.height, pixelRatio);
+        this.mapView = new MapView({
+            ...options,
+            pixelRatio,
+            canvas: this.renderer.domElement,
+            renderer: (this.renderer as unknown) as THREE.WebGLRenderer,
+            synchronousRendering: true
+        });
+        this.mapView.resize(options.width, options.height);
+    }
+
+    /**
+     * Renders frames until the map is complete and returns the last frame.
+     *
+     * @param timeout - Maximum time in milliseconds to wait for all tiles, geometries and labels.
+     * @returns A promise resolved with the RGBA pixels of the complete frame, rejected if the map
+     * is not complete within `timeout`.
+     */
+    async renderToImage(timeout: number = DEFAULT_RENDER_TIMEOUT): Promise<ImageDataLike> {
+        let frameComplete = false;
+        const onFrameComplete = () => {
+            frameComplete = true;
+        };
+        this.mapView.addEventListener(MapViewEventNames.FrameComplete, onFrameComplete);
+
+        const startTime = Date.now();
+        try {
+            for (;;) {
+                this.mapView.renderSync();
+                if (frameComplete) {
+                    break;
+                }
+                if (Date.now() - startTime > timeout) {
+                    throw new Error(`frame not complete after ${timeout}ms`);
+                }
+                await new Promise(resolve => setTimeout(resolve, RENDER_POLL_INTERVAL));
+            }
+        } finally {
+            this.mapView.removeEventListener(MapViewEventNames.FrameComplete, onFrameComplete);
+        }
+        return this.renderer.readPixels();
+    }
+
+    /**
+     * Disposes the underlying {@link MapView} and frees the frame buffer.
+     */
+    dispose() {
+        this.mapView.dispose();
+    }
+}
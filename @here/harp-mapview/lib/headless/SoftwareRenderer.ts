@@ -0,0 +1,681 @@
+/*
+ * Copyright (C) 2017-2020 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as THREE from "three";
+
+/**
+ * Raw RGBA pixels, laid out like the DOM `ImageData`.
+ */
+export interface ImageDataLike {
+    readonly width: number;
+    readonly height: number;
+    readonly data: Uint8ClampedArray;
+}
+
+/**
+ * A renderable primitive collected from the scene graph.
+ */
+interface RenderItem {
+    object: THREE.Mesh | THREE.Line;
+    material: THREE.Material;
+    start: number;
+    count: number;
+    z: number;
+}
+
+/**
+ * Light contribution used for flat shading of lit materials.
+ */
+interface SceneLighting {
+    ambient: THREE.Color;
+    directional: Array<{ color: THREE.Color; direction: THREE.Vector3 }>;
+}
+
+/**
+ * Near plane clipping produces at most one additional vertex per triangle.
+ */
+const MAX_CLIPPED_VERTICES = 4;
+
+const tmpMatrix = new THREE.Matrix4();
+const tmpProjScreenMatrix = new THREE.Matrix4();
+const tmpVector3 = new THREE.Vector3();
+const tmpColor = new THREE.Color();
+const tmpWorld = [new THREE.Vector3(), new THREE.Vector3(), new THREE.Vector3()];
+const tmpEdges = [new THREE.Vector3(), new THREE.Vector3()];
+const tmpClip = [new THREE.Vector4(), new THREE.Vector4(), new THREE.Vector4()];
+const clippedVertices = Array.from({ length: MAX_CLIPPED_VERTICES }, () => new THREE.Vector4());
+const clipInput = Array.from({ length: MAX_CLIPPED_VERTICES }, () => new THREE.Vector4());
+const screenVertices = Array.from({ length: MAX_CLIPPED_VERTICES }, () => new THREE.Vector3());
+
+function isLitMaterial(material: THREE.Material): boolean {
+    return (
+        material instanceof THREE.MeshStandardMaterial ||
+        material instanceof THREE.MeshLambertMaterial ||
+        material instanceof THREE.MeshPhongMaterial
+    );
+}
+
+function getMaterialColor(material: THREE.Material): THREE.Color | undefined {
+    const color = (material as any).color;
+    return color instanceof THREE.Color ? color : undefined;
+}
+
+function painterSort(a: RenderItem, b: RenderItem): number {
+    if (a.object.renderOrder !== b.object.renderOrder) {
+        return a.object.renderOrder - b.object.renderOrder;
+    }
+    return a.z - b.z;
+}
+
+function reversePainterSort(a: RenderItem, b: RenderItem): number {
+    if (a.object.renderOrder !== b.object.renderOrder) {
+        return a.object.renderOrder - b.object.renderOrder;
+    }
+    return b.z - a.z;
+}
+
+/**
+ * Creates the minimal canvas object `MapView` expects from a renderer's `domElement`.
+ */
+function createCanvasStub(): HTMLCanvasElement {
+    return ({
+        width: 0,
+        height: 0,
+        clientWidth: 0,
+        clientHeight: 0,
+        style: {},
+        addEventListener: () => undefined,
+        removeEventListener: () => undefined
+    } as unknown) as HTMLCanvasElement;
+}
+
+/**
+ * CPU rasterizer implementing the subset of the `THREE.WebGLRenderer` API used by `MapView`.
+ *
+ * @remarks
+ * Used by {@link HeadlessMapView} to render maps on machines without GPU and without a browser.
+ * Meshes and lines are rasterized with one color per primitive, taken from the material's `color`
+ * and flat shaded with the ambient and directional lights of the scene for lit materials.
+ * Shaders are never executed, so primitives whose appearance is computed in a shader (e.g.
+ * extruded lines or SDF text glyphs) and materials without a `color` are not drawn. Everything
+ * rendered into a render target other than the screen is discarded.
+ */
+export class SoftwareRenderer {
+    /**
+     * Mirrors `THREE.WebGLRenderer.autoClear`.
+     */
+    autoClear: boolean = true;
+
+    /**
+     * Mirrors `THREE.WebGLRenderer.info`. Only the `render` counters are maintained.
+     */
+    readonly info = {
+        autoReset: true,
+        memory: { geometries: 0, textures: 0 },
+        render: { frame: 0, calls: 0, triangles: 0, points: 0, lines: 0 },
+        programs: null,
+        reset: () => {
+            this.info.render.frame++;
+            this.info.render.calls = 0;
+            this.info.render.triangles = 0;
+            this.info.render.points = 0;
+            this.info.render.lines = 0;
+        }
+    };
+
+    /**
+     * Mirrors `THREE.WebGLRenderer.debug`.
+     */
+    readonly debug = { checkShaderErrors: false };
+
+    /**
+     * Mirrors `THREE.WebGLRenderer.capabilities`, describes a WebGL1 device.
+     */
+    readonly capabilities = {
+        isWebGL2: false,
+        precision: "highp",
+        logarithmicDepthBuffer: false,
+        maxTextures: 16,
+        maxTextureSize: 4096,
+        floatFragmentTextures: true,
+        floatVertexTextures: true,
+        vertexTextures: true,
+        getMaxAnisotropy: () => 1,
+        getMaxPrecision: () => "highp"
+    };
+
+    /**
+     * Mirrors `THREE.WebGLRenderer.shadowMap`. Shadows are never rendered.
+     */
+    readonly shadowMap = { enabled: false, type: THREE.PCFShadowMap, autoUpdate: true };
+
+    /**
+     * Canvas stand-in, its size follows [[setSize]] and [[setPixelRatio]].
+     */
+    readonly domElement: HTMLCanvasElement = createCanvasStub();
+
+    private m_width: number = 1;
+    private m_height: number = 1;
+    private m_pixelRatio: number = 1;
+    private readonly m_clearColor = new THREE.Color(0x000000);
+    private m_clearAlpha: number = 1;
+    private m_renderTarget: THREE.WebGLRenderTarget | null = null;
+    private m_colorBuffer = new Uint8ClampedArray(4);
+    private m_depthBuffer = new Float32Array(1);
+
+    /**
+     * Creates a new `SoftwareRenderer`.
+     *
+     * @param width - Initial width in css pixels.
+     * @param height - Initial height in css pixels.
+     * @param pixelRatio - Ratio of frame buffer pixels to css pixels.
+     */
+    constructor(width: number = 1, height: number = 1, pixelRatio: number = 1) {
+        this.m_pixelRatio = pixelRatio;
+        this.setSize(width, height);
+    }
+
+    /**
+     * Width of the frame buffer in pixels.
+     */
+    get bufferWidth(): number {
+        return Math.max(1, Math.floor(this.m_width * this.m_pixelRatio));
+    }
+
+    /**
+     * Height of the frame buffer in pixels.
+     */
+    get bufferHeight(): number {
+        return Math.max(1, Math.floor(this.m_height * this.m_pixelRatio));
+    }
+
+    getSize(target: THREE.Vector2 = new THREE.Vector2()): THREE.Vector2 {
+        return target.set(this.m_width, this.m_height);
+    }
+
+    setSize(width: number, height: number, _updateStyle?: boolean) {
+        this.m_width = width;
+        this.m_height = height;
+        this.resizeBuffers();
+    }
+
+    getDrawingBufferSize(target: THREE.Vector2 = new THREE.Vector2()): THREE.Vector2 {
+        return target.set(this.bufferWidth, this.bufferHeight);
+    }
+
+    getPixelRatio(): number {
+        return this.m_pixelRatio;
+    }
+
+    setPixelRatio(pixelRatio: number) {
+        if (pixelRatio === this.m_pixelRatio) {
+            return;
+        }
+        this.m_pixelRatio = pixelRatio;
+        this.resizeBuffers();
+    }
+
+    getClearColor(): THREE.Color {
+        return this.m_clearColor;
+    }
+
+    setClearColor(color: THREE.Color | string | number, alpha?: number) {
+        this.m_clearColor.set(color as any);
+        if (alpha !== undefined) {
+            this.m_clearAlpha = alpha;
+        }
+    }
+
+    getClearAlpha(): number {
+        return this.m_clearAlpha;
+    }
+
+    setClearAlpha(alpha: number) {
+        this.m_clearAlpha = alpha;
+    }
+
+    getRenderTarget(): THREE.WebGLRenderTarget | null {
+        return this.m_renderTarget;
+    }
+
+    setRenderTarget(renderTarget: THREE.WebGLRenderTarget | null) {
+        this.m_renderTarget = renderTarget;
+    }
+
+    setViewport() {
+        // The viewport always covers the whole frame buffer.
+    }
+
+    setScissor() {
+        // Scissor test is not supported.
+    }
+
+    setScissorTest() {
+        // Scissor test is not supported.
+    }
+
+    /**
+     * Clears the frame buffer with the clear color and resets the depth buffer.
+     */
+    clear(color: boolean = true, depth: boolean = true, _stencil: boolean = true) {
+        if (this.m_renderTarget !== null) {
+            return;
+        }
+        if (color) {
+            const r = this.m_clearColor.r * 255;
+            const g = this.m_clearColor.g * 255;
+            const b = this.m_clearColor.b * 255;
+            const a = this.m_clearAlpha * 255;
+            const buffer = this.m_colorBuffer;
+            for (let i = 0; i < buffer.length; i += 4) {
+                buffer[i] = r;
+                buffer[i + 1] = g;
+                buffer[i + 2] = b;
+                buffer[i + 3] = a;
+            }
+        }
+        if (depth) {
+            this.clearDepth();
+        }
+    }
+
+    clearColor() {
+        this.clear(true, false);
+    }
+
+    clearDepth() {
+        if (this.m_renderTarget !== null) {
+            return;
+        }
+        this.m_depthBuffer.fill(Infinity);
+    }
+
+    clearStencil() {
+        // Stencil buffer is not supported.
+    }
+
+    /**
+     * Rasterizes all visible meshes and lines of `scene` as seen by `camera`.
+     */
+    render(scene: THREE.Object3D, camera: THREE.Camera) {
+        if (this.m_renderTarget !== null) {
+            // Offscreen passes (glyph caches, post effects) have no effect on the final image.
+            return;
+        }
+
+        if ((scene as THREE.Scene).autoUpdate !== false) {
+            scene.updateMatrixWorld();
+        }
+        if (camera.parent === null) {
+            camera.updateMatrixWorld();
+        }
+
+        if (this.autoClear) {
+            this.clear();
+        }
+
+        tmpProjScreenMatrix.multiplyMatrices(camera.projectionMatrix, camera.matrixWorldInverse);
+
+        const opaque: RenderItem[] = [];
+        const transparent: RenderItem[] = [];
+        const lighting: SceneLighting = { ambient: new THREE.Color(0, 0, 0), directional: [] };
+
+        scene.traverseVisible(object => {
+            if (!camera.layers.test(object.layers)) {
+                return;
+            }
+            if (object instanceof THREE.AmbientLight) {
+                lighting.ambient.add(tmpColor.copy(object.color).multiplyScalar(object.intensity));
+            } else if (object instanceof THREE.DirectionalLight) {
+                lighting.directional.push({
+                    color: object.color.clone().multiplyScalar(object.intensity),
+                    direction: new THREE.Vector3()
+                        .setFromMatrixPosition(object.matrixWorld)
+                        .sub(tmpVector3.setFromMatrixPosition(object.target.matrixWorld))
+                        .normalize()
+                });
+            } else if (object instanceof THREE.Mesh || object instanceof THREE.Line) {
+                this.collectRenderItems(object, opaque, transparent);
+            }
+        });
+
+        opaque.sort(painterSort);
+        transparent.sort(reversePainterSort);
+
+        for (const item of opaque) {
+            this.renderItem(item, camera, lighting);
+        }
+        for (const item of transparent) {
+            this.renderItem(item, camera, lighting);
+        }
+    }
+
+    /**
+     * Returns a copy of the current frame buffer content, top row first.
+     */
+    readPixels(): ImageDataLike {
+        return {
+            width: this.bufferWidth,
+            height: this.bufferHeight,
+            data: this.m_colorBuffer.slice()
+        };
+    }
+
+    dispose() {
+        this.m_colorBuffer = new Uint8ClampedArray(4);
+        this.m_depthBuffer = new Float32Array(1);
+    }
+
+    forceContextLoss() {
+        // There is no context to lose.
+    }
+
+    private resizeBuffers() {
+        const width = this.bufferWidth;
+        const height = this.bufferHeight;
+        const canvas = this.domElement as any;
+        canvas.width = width;
+        canvas.height = height;
+        canvas.clientWidth = this.m_width;
+        canvas.clientHeight = this.m_height;
+        this.m_colorBuffer = new Uint8ClampedArray(width * height * 4);
+        this.m_depthBuffer = new Float32Array(width * height);
+        this.clear();
+    }
+
+    private collectRenderItems(
+        object: THREE.Mesh | THREE.Line,
+        opaque: RenderItem[],
+        transparent: RenderItem[]
+    ) {
+        const geometry = object.geometry;
+        if (!(geometry instanceof THREE.BufferGeometry) || !geometry.getAttribute("position")) {
+            return;
+        }
+
+        const z = tmpVector3
+            .setFromMatrixPosition(object.matrixWorld)
+            .applyMatrix4(tmpProjScreenMatrix).z;
+        const indexCount =
+            geometry.index !== null
+                ? geometry.index.count
+                : geometry.getAttribute("position").count;
+        const drawStart = geometry.drawRange.start;
+        const drawEnd = Math.min(indexCount, drawStart + geometry.drawRange.count);
+
+        const addItem = (material: THREE.Material | undefined, start: number, count: number) => {
+            if (material === undefined || !material.visible || count <= 0) {
+                return;
+            }
+            const item = { object, material, start, count, z };
+            (material.transparent ? transparent : opaque).push(item);
+        };
+
+        if (Array.isArray(object.material)) {
+            for (const group of geometry.groups) {
+                const start = Math.max(drawStart, group.start);
+                const end = Math.min(drawEnd, group.start + group.count);
+                addItem(object.material[group.materialIndex ?? 0], start, end - start);
+            }
+        } else {
+            addItem(object.material, drawStart, drawEnd - drawStart);
+        }
+    }
+
+    private renderItem(item: RenderItem, camera: THREE.Camera, lighting: SceneLighting) {
+        const baseColor = getMaterialColor(item.material);
+        if (baseColor === undefined) {
+            return;
+        }
+        const opacity = item.material.transparent ? item.material.opacity : 1;
+        if (opacity <= 0) {
+            return;
+        }
+
+        const object = item.object;
+        const geometry = object.geometry as THREE.BufferGeometry;
+        const position = geometry.getAttribute("position");
+        const index = geometry.index;
+        const vertexAt = (i: number) => (index !== null ? index.getX(i) : i);
+        const mvp = tmpMatrix.multiplyMatrices(tmpProjScreenMatrix, object.matrixWorld);
+
+        this.info.render.calls++;
+
+        if (object instanceof THREE.Line) {
+            const step = object instanceof THREE.LineSegments ? 2 : 1;
+            for (let i = item.start; i + 1 < item.start + item.count; i += step) {
+                for (let k = 0; k < 2; k++) {
+                    tmpClip[k]
+                        .set(
+                            position.getX(vertexAt(i + k)),
+                            position.getY(vertexAt(i + k)),
+                            position.getZ(vertexAt(i + k)),
+                            1
+                        )
+                        .applyMatrix4(mvp);
+                }
+                this.drawLine(tmpClip[0], tmpClip[1], baseColor, opacity, item.material);
+                this.info.render.lines++;
+            }
+            return;
+        }
+
+        const lit = isLitMaterial(item.material);
+        for (let i = item.start; i + 2 < item.start + item.count; i += 3) {
+            for (let k = 0; k < 3; k++) {
+                const vertex = vertexAt(i + k);
+                tmpWorld[k].set(
+                    position.getX(vertex),
+                    position.getY(vertex),
+                    position.getZ(vertex)
+                );
+                tmpClip[k].set(tmpWorld[k].x, tmpWorld[k].y, tmpWorld[k].z, 1).applyMatrix4(mvp);
+            }
+            tmpColor.copy(baseColor);
+            if (lit) {
+                this.applyLighting(object, lighting, tmpColor);
+            }
+            this.drawTriangle(tmpClip, tmpColor, opacity, item.material);
+            this.info.render.triangles++;
+        }
+    }
+
+    private applyLighting(object: THREE.Object3D, lighting: SceneLighting, color: THREE.Color) {
+        for (const world of tmpWorld) {
+            world.applyMatrix4(object.matrixWorld);
+        }
+        const normal = tmpEdges[0]
+            .subVectors(tmpWorld[1], tmpWorld[0])
+            .cross(tmpEdges[1].subVectors(tmpWorld[2], tmpWorld[0]))
+            .normalize();
+
+        const r = color.r;
+        const g = color.g;
+        const b = color.b;
+        color.copy(lighting.ambient);
+        for (const light of lighting.directional) {
+            // Both faces are rendered, so the normal orientation is irrelevant.
+            const intensity = Math.abs(normal.dot(light.direction));
+            color.r += light.color.r * intensity;
+            color.g += light.color.g * intensity;
+            color.b += light.color.b * intensity;
+        }
+        if (lighting.directional.length === 0 && lighting.ambient.getHex() === 0) {
+            color.setRGB(1, 1, 1);
+        }
+        color.setRGB(Math.min(1, r * color.r), Math.min(1, g * color.g), Math.min(1, b * color.b));
+    }
+
+    /**
+     * Clips the triangle against the near plane and rasterizes the resulting polygon.
+     */
+    private drawTriangle(
+        clip: THREE.Vector4[],
+        color: THREE.Color,
+        opacity: number,
+        material: THREE.Material
+    ) {
+        for (let k = 0; k < 3; k++) {
+            clipInput[k].copy(clip[k]);
+        }
+        const count = clipAgainstNearPlane(clipInput, 3, clippedVertices);
+        if (count < 3) {
+            return;
+        }
+        for (let k = 0; k < count; k++) {
+            this.toScreen(clippedVertices[k], screenVertices[k]);
+        }
+        for (let k = 1; k + 1 < count; k++) {
+            this.rasterizeTriangle(
+                screenVertices[0],
+                screenVertices[k],
+                screenVertices[k + 1],
+                color,
+                opacity,
+                material
+            );
+        }
+    }
+
+    private drawLine(
+        a: THREE.Vector4,
+        b: THREE.Vector4,
+        color: THREE.Color,
+        opacity: number,
+        material: THREE.Material
+    ) {
+        clipInput[0].copy(a);
+        clipInput[1].copy(b);
+        const count = clipAgainstNearPlane(clipInput, 2, clippedVertices);
+        if (count < 2) {
+            return;
+        }
+        const p0 = this.toScreen(clippedVertices[0], screenVertices[0]);
+        const p1 = this.toScreen(clippedVertices[1], screenVertices[1]);
+        const steps = Math.ceil(Math.max(Math.abs(p1.x - p0.x), Math.abs(p1.y - p0.y), 1));
+        if (steps > 4 * (this.bufferWidth + this.bufferHeight)) {
+            // Degenerate projection, the line passes very close to the camera.
+            return;
+        }
+        for (let s = 0; s <= steps; s++) {
+            const t = s / steps;
+            this.writePixel(
+                Math.floor(p0.x + (p1.x - p0.x) * t),
+                Math.floor(p0.y + (p1.y - p0.y) * t),
+                p0.z + (p1.z - p0.z) * t,
+                color,
+                opacity,
+                material
+            );
+        }
+    }
+
+    private toScreen(clip: THREE.Vector4, target: THREE.Vector3): THREE.Vector3 {
+        const invW = 1 / clip.w;
+        return target.set(
+            (clip.x * invW * 0.5 + 0.5) * this.bufferWidth,
+            (0.5 - clip.y * invW * 0.5) * this.bufferHeight,
+            clip.z * invW
+        );
+    }
+
+    private rasterizeTriangle(
+        a: THREE.Vector3,
+        b: THREE.Vector3,
+        c: THREE.Vector3,
+        color: THREE.Color,
+        opacity: number,
+        material: THREE.Material
+    ) {
+        const area = (b.x - a.x) * (c.y - a.y) - (b.y - a.y) * (c.x - a.x);
+        if (area === 0 || !isFinite(area)) {
+            return;
+        }
+        const minX = Math.max(0, Math.floor(Math.min(a.x, b.x, c.x)));
+        const maxX = Math.min(this.bufferWidth - 1, Math.ceil(Math.max(a.x, b.x, c.x)));
+        const minY = Math.max(0, Math.floor(Math.min(a.y, b.y, c.y)));
+        const maxY = Math.min(this.bufferHeight - 1, Math.ceil(Math.max(a.y, b.y, c.y)));
+        const invArea = 1 / area;
+
+        for (let y = minY; y <= maxY; y++) {
+            const py = y + 0.5;
+            for (let x = minX; x <= maxX; x++) {
+                const px = x + 0.5;
+                const w0 = ((b.x - px) * (c.y - py) - (b.y - py) * (c.x - px)) * invArea;
+                const w1 = ((c.x - px) * (a.y - py) - (c.y - py) * (a.x - px)) * invArea;
+                const w2 = 1 - w0 - w1;
+                if (w0 < 0 || w1 < 0 || w2 < 0) {
+                    continue;
+                }
+                const z = w0 * a.z + w1 * b.z + w2 * c.z;
+                this.writePixel(x, y, z, color, opacity, material);
+            }
+        }
+    }
+
+    private writePixel(
+        x: number,
+        y: number,
+        z: number,
+        color: THREE.Color,
+        opacity: number,
+        material: THREE.Material
+    ) {
+        if (x < 0 || y < 0 || x >= this.bufferWidth || y >= this.bufferHeight || z > 1) {
+            return;
+        }
+        const pixel = y * this.bufferWidth + x;
+        if (material.depthTest && z > this.m_depthBuffer[pixel]) {
+            return;
+        }
+        if (material.depthWrite) {
+            this.m_depthBuffer[pixel] = z;
+        }
+        const offset = pixel * 4;
+        const buffer = this.m_colorBuffer;
+        const inverse = 1 - opacity;
+        buffer[offset] = color.r * 255 * opacity + buffer[offset] * inverse;
+        buffer[offset + 1] = color.g * 255 * opacity + buffer[offset + 1] * inverse;
+        buffer[offset + 2] = color.b * 255 * opacity + buffer[offset + 2] * inverse;
+        buffer[offset + 3] = 255 * opacity + buffer[offset + 3] * inverse;
+    }
+}
+
+/**
+ * Clips a polygon given in clip space against the near plane (`z >= -w`).
+ *
+ * @param input - The polygon vertices, a triangle or a line segment.
+ * @param count - Number of vertices in `input`.
+ * @param output - Receives the clipped vertices.
+ * @returns The number of vertices written to `output`.
+ */
+function clipAgainstNearPlane(
+    input: THREE.Vector4[],
+    count: number,
+    output: THREE.Vector4[]
+): number {
+    let outCount = 0;
+    const closed = count > 2;
+    for (let i = 0; i < count; i++) {
+        const current = input[i];
+        const currentDist = current.z + current.w;
+        const currentInside = currentDist >= 0;
+        if (currentInside) {
+            output[outCount++].copy(current);
+        }
+        if (!closed && i === count - 1) {
+            break;
+        }
+        const next = input[(i + 1) % count];
+        const nextDist = next.z + next.w;
+        const nextInside = nextDist >= 0;
+        if (currentInside !== nextInside) {
+            const t = currentDist / (currentDist - nextDist);
+            output[outCount++].copy(current).lerp(next, t);
+        }
+    }
+    return outCount;
+}
@@ -0,0 +1,119 @@
+/*
+ * Copyright (C) 2017-2020 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { LoggerManager } from "@here/harp-utils";
+import * as THREE from "three";
+
+import { MapView } from "../MapView";
+import { ImageItem } from "./Image";
+
+const logger = LoggerManager.instance.create("PatternTexture");
+
+/**
+ * Texture of a pattern repeated over polygons or along lines.
+ */
+export interface PatternTexture {
+    /**
+     * Texture holding the image of the pattern, with `flipY` set to `false`.
+     */
+    texture: THREE.Texture;
+
+    /**
+     * Area of the pattern in the texture, as `(u, v, width, height)` in texture coordinates.
+     */
+    rect: THREE.Vector4;
+
+    /**
+     * Width of the pattern in pixels.
+     */
+    width: number;
+
+    /**
+     * Height of the pattern in pixels.
+     */
+    height: number;
+}
+
+/**
+ * Creates the texture of a pattern referenced by name in a technique, e.g. `fillPattern` or
+ * `linePattern`.
+ *
+ * @remarks
+ * The name is looked up first in the
+ * {@link @here/harp-datasource-protocol#ImageTexture}s of the {@link PoiManager}, which select
+ * an area of an image (e.g. an icon in a texture atlas), then in the images of the
+ * {@link MapView.userImageCache} and the {@link MapView.imageCache}. The image is loaded if
+ * required.
+ *
+ * @param mapView - The {@link MapView} holding the images.
+ * @param name - Name of the [[ImageTexture]] or image.
+ * @returns A promise resolving to the texture of the pattern, or to `undefined` if no image is
+ * found under this name or it fails to load.
+ */
+export async function loadPatternTexture(
+    mapView: MapView,
+    name: string
+): Promise<PatternTexture | undefined> {
+    const imageTexture = mapView.poiManager.getImageTexture(name);
+    const imageName = imageTexture !== undefined ? imageTexture.image : name;
+
+    const imageCache =
+        mapView.userImageCache.findImageByName(imageName) !== undefined
+            ? mapView.userImageCache
+            : mapView.imageCache;
+    let imageItem: ImageItem | undefined = imageCache.findImageByName(imageName);
+    if (imageItem === undefined) {
+        logger.error(`loadPatternTexture: No image found with name '${imageName}'`);
+        return undefined;
+    }
+
+    if (!imageItem.loaded) {
+        const url = imageItem.url;
+        try {
+            imageItem = await imageCache.loadImage(imageItem);
+        } catch (error) {
+            logger.error(`loadPatternTexture: Failed to load image '${url}'`, error);
+            return undefined;
+        }
+    }
+    const imageData = imageItem?.imageData;
+    if (imageData === undefined) {
+        logger.error(`loadPatternTexture: No image data for image '${imageName}'`);
+        return undefined;
+    }
+
+    const xOffset = imageTexture?.xOffset ?? 0;
+    const yOffset = imageTexture?.yOffset ?? 0;
+    const width = imageTexture?.width ?? imageData.width;
+    const height = imageTexture?.height ?? imageData.height;
+
+    // The shaders repeat the pattern with `fract()`, mip maps would show seams at the borders of
+    // the repetitions.
+    const texture = new THREE.Texture(
+        imageData as any,
+        THREE.UVMapping,
+        undefined,
+        undefined,
+        THREE.LinearFilter,
+        THREE.LinearFilter,
+        THREE.RGBAFormat
+    );
+    texture.generateMipmaps = false;
+    texture.flipY = false;
+    texture.needsUpdate = true;
+
+    return {
+        texture,
+        rect: new THREE.Vector4(
+            xOffset / imageData.width,
+            yOffset / imageData.height,
+            width / imageData.width,
+            height / imageData.height
+        ),
+        width,
+        height
+    };
+}
@@ -24,6 +24,7 @@ import { assert, assertExists, LoggerManager } from "@here/harp-utils";
 import * as THREE from "three";
 
 import { ColorCache } from "../ColorCache";
+import { loadPatternTexture, PatternTexture } from "../image/PatternTexture";
 import { MapView } from "../MapView";
 import { TextElement } from "../text/TextElement";
 import { DEFAULT_TEXT_DISTANCE_SCALE } from "../text/TextElementsRenderer";
@@ -103,6 +104,10 @@ export class PoiManager {
 
     private readonly m_imageTextures: Map<string, ImageTexture> = new Map();
     private readonly m_poiShieldGroups: Map<string, number> = new Map();
+    private readonly m_patternTextures: Map<
+        string,
+        Promise<PatternTexture | undefined>
+    > = new Map();
 
     /**
      * The constructor of the `PoiManager`.
@@ -247,6 +252,29 @@ export class PoiManager {
         return this.m_imageTextures.get(name);
     }
 
+    /**
+     * Return the texture of a pattern referenced by name in a technique, see
+     * {@link loadPatternTexture}. The texture is shared by all tiles using the pattern, it's
+     * disposed when the theme changes.
+     *
+     * @param name - Name of the {@link @here/harp-datasource-protocol#ImageTexture} or image.
+     */
+    getPatternTexture(name: string): Promise<PatternTexture | undefined> {
+        let patternPromise = this.m_patternTextures.get(name);
+        if (patternPromise === undefined) {
+            const newPatternPromise = loadPatternTexture(this.mapView, name);
+            // Forget failed loads, so that they are retried the next time the pattern is used.
+            newPatternPromise.catch(() => {
+                if (this.m_patternTextures.get(name) === newPatternPromise) {
+                    this.m_patternTextures.delete(name);
+                }
+            });
+            this.m_patternTextures.set(name, newPatternPromise);
+            patternPromise = newPatternPromise;
+        }
+        return patternPromise;
+    }
+
     /**
      * Update the {@link TextElement} with the information taken from the {@link PoiTable} which is
      * referenced in the {@link PoiInfo} of the pointLabel.
@@ -341,6 +369,10 @@ export class PoiManager {
     clear() {
         this.m_imageTextures.clear();
         this.m_poiShieldGroups.clear();
+        this.m_patternTextures.forEach(patternPromise => {
+            patternPromise.then(pattern => pattern?.texture.dispose()).catch(() => undefined);
+        });
+        this.m_patternTextures.clear();
     }
 
     /**
@@ -561,6 +593,9 @@ export class PoiManager {
 
         textElement.mayOverlap = technique.textMayOverlap === true;
         textElement.reserveSpace = technique.textReserveSpace !== false;
+        textElement.collisionGroup = technique.collisionGroup;
+        textElement.repeatDistance = technique.repeatDistance;
+        textElement.styleSetIndex = technique._styleSetIndex;
         textElement.alwaysOnTop = technique.alwaysOnTop === true;
         textElement.userData = userData;
 
@@ -467,7 +467,7 @@ export class PoiRenderer {
         PoiRenderer.computeIconScreenBox(poiInfo, screenPosition, scale, env, this.m_tempScreenBox);
 
         if (allocateScreenSpace) {
-            screenCollisions.allocate(this.m_tempScreenBox);
+            screenCollisions.allocate(this.m_tempScreenBox, poiInfo.textElement?.collisionGroup);
         }
 
         this.m_renderBuffer.addPoi(poiInfo, this.m_tempScreenBox, viewDistance, opacity);
@@ -4,8 +4,8 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import { Theme } from "@here/harp-datasource-protocol";
-import { FontCatalog } from "@here/harp-text-canvas";
+import { FontCatalogConfig, Theme } from "@here/harp-datasource-protocol";
+import { FontCatalog, SdfGlyphGenerator, SdfGlyphSource } from "@here/harp-text-canvas";
 import { assert, LoggerManager } from "@here/harp-utils";
 
 export const DEFAULT_FONT_CATALOG_NAME = "default";
@@ -16,8 +16,19 @@ type FontCatalogCallback = (name: string, catalog: FontCatalog) => void;
 
 export class FontCatalogLoader {
     private m_catalogsLoading: number = 0;
+    private m_glyphSource?: SdfGlyphSource;
 
-    constructor(private readonly m_theme: Theme) {}
+    /**
+     * Creates a new `FontCatalogLoader`.
+     *
+     * @param m_theme - Theme defining the font catalogs.
+     * @param m_createGlyphSource - Creates the glyph source of font catalogs generated at runtime
+     * from font files, called once the first of them is loaded.
+     */
+    constructor(
+        private readonly m_theme: Theme,
+        private readonly m_createGlyphSource: () => SdfGlyphSource = () => new SdfGlyphGenerator()
+    ) {}
 
     /**
      * Initializes font catalog loader.
@@ -48,7 +59,7 @@ export class FontCatalogLoader {
 
         this.m_theme.fontCatalogs!.forEach(fontCatalogConfig => {
             this.m_catalogsLoading += 1;
-            const fontCatalogPromise: Promise<void> = FontCatalog.load(fontCatalogConfig.url, 1024)
+            const fontCatalogPromise: Promise<void> = this.loadCatalog(fontCatalogConfig)
                 .then<void>(catalogCallback.bind(undefined, fontCatalogConfig.name))
                 .catch((error: Error) => {
                     logger.error("Failed to load FontCatalog: ", error);
@@ -65,4 +76,19 @@ export class FontCatalogLoader {
     get loading(): boolean {
         return this.m_catalogsLoading > 0;
     }
+
+    private loadCatalog(config: FontCatalogConfig): Promise<FontCatalog> {
+        if (config.fonts !== undefined) {
+            if (this.m_glyphSource === undefined) {
+                this.m_glyphSource = this.m_createGlyphSource();
+            }
+            return FontCatalog.loadFonts(config.fonts, 1024, this.m_glyphSource);
+        }
+        if (config.url === undefined) {
+            return Promise.reject(
+                new Error(`Font catalog ${config.name} defines neither url nor fonts`)
+            );
+        }
+        return FontCatalog.load(config.url, 1024);
+    }
 }
@@ -25,6 +25,8 @@ import {
 export class LayoutState {
     private m_hAlign = DefaultTextStyle.DEFAULT_HORIZONTAL_ALIGNMENT;
     private m_vAlign = DefaultTextStyle.DEFAULT_VERTICAL_ALIGNMENT;
+    private m_xOffset?: number;
+    private m_yOffset?: number;
 
     constructor(placement: TextPlacement) {
         this.textPlacement = placement;
@@ -38,6 +40,8 @@ export class LayoutState {
     set textPlacement(placement: TextPlacement) {
         this.m_hAlign = hAlignFromPlacement(placement.h);
         this.m_vAlign = vAlignFromPlacement(placement.v);
+        this.m_xOffset = placement.xOffset;
+        this.m_yOffset = placement.yOffset;
     }
 
     /**
@@ -48,10 +52,15 @@ export class LayoutState {
      * @returns The current anchor placement.
      */
     get textPlacement(): TextPlacement {
-        return {
+        const placement: TextPlacement = {
             h: hPlacementFromAlignment(this.m_hAlign),
             v: vPlacementFromAlignment(this.m_vAlign)
         };
+        if (this.m_xOffset !== undefined || this.m_yOffset !== undefined) {
+            placement.xOffset = this.m_xOffset;
+            placement.yOffset = this.m_yOffset;
+        }
+        return placement;
     }
 
     /**
@@ -60,6 +69,8 @@ export class LayoutState {
     reset(layoutStyle: TextLayoutStyle) {
         this.m_hAlign = layoutStyle.horizontalAlignment;
         this.m_vAlign = layoutStyle.verticalAlignment;
+        this.m_xOffset = layoutStyle.placements[0]?.xOffset;
+        this.m_yOffset = layoutStyle.placements[0]?.yOffset;
     }
 
     get horizontalAlignment(): HorizontalAlignment {
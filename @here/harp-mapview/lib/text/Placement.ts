@@ -255,8 +255,8 @@ function computePointTextOffset(
     assert(textElement.layoutStyle !== undefined);
     assert(textElement.bounds !== undefined);
 
-    offset.x = textElement.xOffset;
-    offset.y = textElement.yOffset;
+    offset.x = textElement.xOffset + (placement.xOffset ?? 0);
+    offset.y = textElement.yOffset + (placement.yOffset ?? 0);
 
     switch (placement.h) {
         case HorizontalPlacement.Left:
@@ -396,7 +396,8 @@ export function placeIcon(
     }
 
     const iconSpaceAvailable =
-        poiInfo.mayOverlap === true || !screenCollisions.isAllocated(tmp2DBox);
+        poiInfo.mayOverlap === true ||
+        !screenCollisions.isAllocated(tmp2DBox, poiInfo.textElement?.collisionGroup);
 
     if (!iconSpaceAvailable) {
         return iconRenderState.isVisible() ? PlacementResult.Rejected : PlacementResult.Invisible;
@@ -521,17 +522,24 @@ function placePointLabelChoosingAnchor(
     const placementsNum = placements.length;
     // Find current anchor placement on the optional placements list.
     // Index of exact match.
-    const matchIdx = placements.findIndex(p => p.h === lastPlacement.h && p.v === lastPlacement.v);
+    const matchIdx = placements.findIndex(
+        p =>
+            p.h === lastPlacement.h &&
+            p.v === lastPlacement.v &&
+            p.xOffset === lastPlacement.xOffset &&
+            p.yOffset === lastPlacement.yOffset
+    );
     assert(matchIdx >= 0);
     // Will be true if all text placements are invisible.
     let allInvisible: boolean = true;
-    // Iterate all placements starting from current one.
-    for (let i = matchIdx; i < placementsNum + matchIdx; ++i) {
-        const anchorPlacement = placements[i % placementsNum];
+    // Iterate all placements starting from current one, so the label keeps its placement while
+    // it fits there, then try the others in the order defined in the style.
+    for (let i = 0; i < placementsNum; ++i) {
+        const anchorPlacement = placements[i === 0 ? matchIdx : i <= matchIdx ? i - 1 : i];
 
         // Bounds may be already calculated for persistent label, force re-calculation only
         // for alternative (new) placements.
-        const isLastPlacement = i === matchIdx && persistent;
+        const isLastPlacement = i === 0 && persistent;
         // Compute label bounds, visibility or collision according to new layout settings.
         const placementResult = placePointLabelAtAnchor(
             labelState,
@@ -743,7 +751,7 @@ function placePointLabelAtAnchor(
     }
 
     // Check label's text collision.
-    if (!label.textMayOverlap && screenCollisions.isAllocated(tmp2DBox)) {
+    if (!label.textMayOverlap && screenCollisions.isAllocated(tmp2DBox, label.collisionGroup)) {
         // Allows to fade persistent and ignore new label.
         return persistent ? PlacementResult.Rejected : PlacementResult.Invisible;
     }
@@ -754,7 +762,7 @@ function placePointLabelAtAnchor(
     // Otherwise the lowest priority text will fade in and back out.
     // TODO: Add a unit test for this scenario.
     if (label.textReservesSpace) {
-        screenCollisions.allocate(tmp2DBox);
+        screenCollisions.allocate(tmp2DBox, label.collisionGroup);
     }
 
     // Glyphs arrangement have been changed remove text buffer object which needs to be
@@ -824,7 +832,10 @@ export function placePathLabel(
     let checkGlyphCollision = false;
     let candidateBoxes: IBox[] | undefined;
     if (!labelState.element.textMayOverlap) {
-        candidateBoxes = screenCollisions.search(tmpCollisionBox);
+        candidateBoxes = screenCollisions.search(
+            tmpCollisionBox,
+            labelState.element.collisionGroup
+        );
         checkGlyphCollision = candidateBoxes.length > 0;
     }
 
@@ -856,7 +867,7 @@ export function placePathLabel(
     if (labelState.element.textReservesSpace) {
         const collisionBox = new DetailedCollisionBox(tmpCollisionBox, tmpCollisionBoxes.slice());
         tmpCollisionBoxes.length = 0;
-        screenCollisions.allocate(collisionBox);
+        screenCollisions.allocate(collisionBox, labelState.element.collisionGroup);
     }
     return PlacementResult.Ok;
 }
@@ -866,12 +877,15 @@ export function placePathLabel(
  * @param textElement - The text element to check.
  * @param screenProjector - Used to project coordinates from world to screen space.
  * @param outScreenPoints - Label path projected to screen space.
+ * @param path - The path in world space along which the label is placed, by default the path of
+ * the text element.
  * @returns `true` if label is too small, `false` otherwise.
  */
 export function isPathLabelTooSmall(
     textElement: TextElement,
     screenProjector: ScreenProjector,
-    outScreenPoints: THREE.Vector2[]
+    outScreenPoints: THREE.Vector2[],
+    path: THREE.Vector3[] = textElement.points as THREE.Vector3[]
 ): boolean {
     assert(textElement.type === TextElementType.PathLabel);
 
@@ -880,7 +894,7 @@ export function isPathLabelTooSmall(
     outScreenPoints.length = 0;
     let anyPointVisible = false;
 
-    for (const pt of textElement.points as THREE.Vector3[]) {
+    for (const pt of path) {
         // Skip invisible points at the beginning of the path.
         const screenPoint = anyPointVisible
             ? screenProjector.project(pt, tmpScreenPosition)
@@ -13,6 +13,7 @@ export class PlacementStats {
     tooFar: number = 0;
     numNotVisible: number = 0;
     numPathTooSmall: number = 0;
+    numRepeated: number = 0;
     numCannotAdd: number = 0;
     numRenderedPoiIcons: number = 0;
     numRenderedPoiTexts: number = 0;
@@ -29,6 +30,7 @@ export class PlacementStats {
         this.tooFar = 0;
         this.numNotVisible = 0;
         this.numPathTooSmall = 0;
+        this.numRepeated = 0;
         this.numCannotAdd = 0;
         this.numRenderedPoiIcons = 0;
         this.numRenderedPoiTexts = 0;
@@ -42,6 +44,7 @@ export class PlacementStats {
             this.numPoiTextsInvisible +
             this.tooFar +
             this.numNotVisible +
+            this.numRepeated +
             this.numCannotAdd;
         this.m_logger.debug("Total groups", this.totalGroups);
         this.m_logger.debug("Resorted groups", this.resortedGroups);
@@ -55,6 +58,7 @@ export class PlacementStats {
         this.m_logger.debug("Too far", this.tooFar);
         this.m_logger.debug("Not visible", this.numNotVisible);
         this.m_logger.debug("Path too small", this.numPathTooSmall);
+        this.m_logger.debug("Repeated", this.numRepeated);
         this.m_logger.debug("Rejected, max glyphs reached", this.numCannotAdd);
     }
 }
@@ -250,6 +250,24 @@ export class TextElement {
      */
     reserveSpace?: boolean;
 
+    /**
+     * Name of the collision group of the label. Labels only collide with labels of the same
+     * group, labels without a group are in the default group.
+     */
+    collisionGroup?: string;
+
+    /**
+     * Minimum distance in pixels between this label and other labels with the same
+     * [[dedupKey]]. Labels closer than this distance to an already placed label are not rendered.
+     */
+    repeatDistance?: number;
+
+    /**
+     * Index of the style from which the technique of this label was derived. Identifies labels
+     * created with the same technique in different tiles.
+     */
+    styleSetIndex?: number;
+
     /**
      * If `true`, the label will always be rendered on top. If overlapping with other labels, the
      * render order is undefined;
@@ -508,6 +526,15 @@ export class TextElement {
         return this.featureId !== undefined && this.featureId !== 0;
     }
 
+    /**
+     * Key identifying copies of the same label in different tiles, made of its text, technique
+     * and feature id. Used to apply [[repeatDistance]] and to merge path labels.
+     */
+    get dedupKey(): string {
+        const featureId = this.hasFeatureId() ? this.featureId : "";
+        return `${this.styleSetIndex ?? ""}|${featureId}|${this.text}`;
+    }
+
     /**
      * Update the minZoomLevel and maxZoomLevel from the values set in {@link PoiInfo}.
      * Selects the smaller/larger one of the two min/max values for icon and text, because the
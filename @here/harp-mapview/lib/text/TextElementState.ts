@@ -12,6 +12,7 @@ import {
     vPlacementFromAlignment
 } from "@here/harp-text-canvas";
 import { assert } from "@here/harp-utils";
+import * as THREE from "three";
 
 import { LayoutState } from "./LayoutState";
 import { RenderState } from "./RenderState";
@@ -47,6 +48,11 @@ export class TextElementState {
      * Used to store recently used text layout.
      */
     private m_textLayoutState?: LayoutState;
+    /**
+     * @hidden
+     * Path of a path label joined with the paths of its copies in neighbouring tiles.
+     */
+    private m_mergedPath?: THREE.Vector3[];
 
     constructor(readonly element: TextElement) {}
 
@@ -96,6 +102,8 @@ export class TextElementState {
         const lastPlacement =
             stateLayout !== undefined
                 ? stateLayout.textPlacement
+                : themeLayout.placements.length > 0
+                ? themeLayout.placements[0]
                 : {
                       h: hPlacementFromAlignment(themeLayout.horizontalAlignment),
                       v: vPlacementFromAlignment(themeLayout.verticalAlignment)
@@ -135,14 +143,34 @@ export class TextElementState {
     isBaseTextPlacement(placement: TextPlacement): boolean | undefined {
         const themeLayout = this.element.layoutStyle;
         if (themeLayout !== undefined) {
+            const basePlacement = themeLayout.placements[0];
             return (
                 hAlignFromPlacement(placement.h) === themeLayout.horizontalAlignment &&
-                vAlignFromPlacement(placement.v) === themeLayout.verticalAlignment
+                vAlignFromPlacement(placement.v) === themeLayout.verticalAlignment &&
+                placement.xOffset === basePlacement?.xOffset &&
+                placement.yOffset === basePlacement?.yOffset
             );
         }
         return undefined;
     }
 
+    /**
+     * @returns The path in world space along which the text element is rendered, `undefined` for
+     * point labels. Includes the paths of the copies of the label in neighbouring tiles if they
+     * were merged with it.
+     */
+    get path(): THREE.Vector3[] | undefined {
+        return this.m_mergedPath ?? this.element.path;
+    }
+
+    /**
+     * Sets the path along which the text element is rendered, `undefined` to use the element's
+     * own path.
+     */
+    set path(path: THREE.Vector3[] | undefined) {
+        this.m_mergedPath = path;
+    }
+
     /**
      * Resets the element to an initialized state.
      */
@@ -6,6 +6,7 @@
 
 import { TileKey } from "@here/harp-geoutils";
 import { assert, LoggerManager, LogLevel } from "@here/harp-utils";
+import * as THREE from "three";
 
 import { TextElement } from "./TextElement";
 import { TextElementGroup } from "./TextElementGroup";
@@ -18,7 +19,8 @@ const logger = LoggerManager.instance.create("TextElementsStateCache", { level:
 /**
  * Label distance tolerance squared in meters. Point labels with the same name that are closer in
  * world space than this value are treated as the same label. Used to identify duplicate labels in
- * overlapping tiles and label replacements at different storage levels.
+ * overlapping tiles and label replacements at different storage levels, and to join the paths of
+ * path labels split at tile borders.
  */
 function getDedupSqDistTolerance(zoomLevel: number) {
     // Defining here a minimum tolerance of 10m at zoom level 13 or higher.
@@ -91,6 +93,82 @@ function findDuplicateById(
     return duplicateIndex;
 }
 
+/**
+ * Joins two paths if the end of one of them is the start of the other.
+ * @param first - The first path.
+ * @param second - The second path.
+ * @param maxSqDistError - Maximum squared distance between the end points to join.
+ * @returns The joined path, or `undefined` if the paths are not connected.
+ */
+function joinPaths(
+    first: THREE.Vector3[],
+    second: THREE.Vector3[],
+    maxSqDistError: number
+): THREE.Vector3[] | undefined {
+    if (first[first.length - 1].distanceToSquared(second[0]) <= maxSqDistError) {
+        return first.concat(second.slice(1));
+    }
+    if (second[second.length - 1].distanceToSquared(first[0]) <= maxSqDistError) {
+        return second.concat(first.slice(1));
+    }
+    return undefined;
+}
+
+/**
+ * Merges a path label with the copies of the label in neighbouring tiles whose paths are connected
+ * to its path, so that the whole path is used to place a single label. Copies are identified by
+ * their `dedupKey`.
+ * @param elementState - The state of the path label to merge.
+ * @param candidates - The list of candidates to merge with. Merged candidates are removed from the
+ * list, and the state of the label rendering the merged path is added to it.
+ * @param zoomLevel - Current zoom level.
+ * @returns The state of the label rendering the merged path, or `undefined` if no candidate was
+ * merged.
+ */
+function mergePathLabel(
+    elementState: TextElementState,
+    candidates: TextElementState[],
+    zoomLevel: number
+): TextElementState | undefined {
+    const maxSqDistError = getDedupSqDistTolerance(zoomLevel);
+    let merged: TextElementState | undefined;
+    let current = elementState;
+
+    for (let i = 0; i < candidates.length; ++i) {
+        const candidate = candidates[i];
+        // Only copies of the same label, created with the same technique, are merged.
+        if (
+            candidate.element.type !== TextElementType.PathLabel ||
+            candidate.element.dedupKey !== elementState.element.dedupKey
+        ) {
+            continue;
+        }
+        const joinedPath = joinPaths(current.path!, candidate.path!, maxSqDistError);
+        if (joinedPath === undefined) {
+            continue;
+        }
+        candidates.splice(i, 1);
+
+        // Keep the cached label unless only the new one is visible.
+        const [kept, discarded] =
+            current.visible && !candidate.visible ? [current, candidate] : [candidate, current];
+        if (discarded !== elementState) {
+            discarded.reset();
+        }
+        discarded.path = undefined;
+        kept.path = joinedPath;
+        current = merged = kept;
+
+        // The joined path may connect to candidates already checked, start over.
+        i = -1;
+    }
+
+    if (merged !== undefined) {
+        candidates.push(merged);
+    }
+    return merged;
+}
+
 type DuplicateCmp = (
     newCandidate: TextElement,
     newDistance: number,
@@ -315,6 +393,8 @@ export class TextElementStateCache {
      * as duplicate.
      */
     deduplicateElement(zoomLevel: number, elementState: TextElementState): boolean {
+        // Drop the path merged in the previous update, neighbouring tiles may have changed.
+        elementState.path = undefined;
         const cacheResult = this.findDuplicate(elementState, zoomLevel);
 
         if (cacheResult === undefined) {
@@ -323,6 +403,14 @@ export class TextElementStateCache {
             return true;
         }
 
+        if (elementState.element.type === TextElementType.PathLabel) {
+            // Copies of a path label in neighbouring tiles are merged into a single label.
+            const merged = mergePathLabel(elementState, cacheResult.entries, zoomLevel);
+            if (merged !== undefined) {
+                return merged === elementState;
+            }
+        }
+
         if (cacheResult.index === -1) {
             // No duplicate found among elements with same text,add this one to cache.
             cacheResult.entries.push(elementState);
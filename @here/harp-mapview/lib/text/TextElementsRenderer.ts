@@ -35,6 +35,7 @@ import { PoiRenderer } from "../poi/PoiRenderer";
 import { PoiRendererFactory } from "../poi/PoiRendererFactory";
 import { IBox, LineWithBound, ScreenCollisions } from "../ScreenCollisions";
 import { ScreenProjector } from "../ScreenProjector";
+import { PerformanceStatistics } from "../Statistics";
 import { Tile } from "../Tile";
 import { MapViewUtils } from "../Utils";
 import { DataSourceTileList } from "../VisibleTileSet";
@@ -330,6 +331,10 @@ export class TextElementsRenderer {
 
     private readonly m_textElementStateCache: TextElementStateCache = new TextElementStateCache();
 
+    // Screen positions (x, y pairs) of the labels placed in the current frame by their dedup key,
+    // used to keep labels with a repeat distance apart.
+    private readonly m_repeatedLabelPositions = new Map<string, number[]>();
+
     /**
      * Create the `TextElementsRenderer` which selects which labels should be placed on screen as
      * a preprocessing step, which is not done every frame, and also renders the placed
@@ -696,6 +701,7 @@ export class TextElementsRenderer {
     private reset() {
         this.m_cameraLookAt.copy(this.m_viewState.lookAtVector);
         this.m_screenCollisions.reset();
+        this.m_repeatedLabelPositions.clear();
         for (const textRenderer of this.m_textRenderers) {
             textRenderer.textCanvas.clear();
             textRenderer.poiRenderer.reset();
@@ -850,7 +856,14 @@ export class TextElementsRenderer {
 
             // For paths, check if the label may fit.
             if (isPathLabel) {
-                if (isPathLabelTooSmall(textElement, this.m_screenProjector, tempScreenPoints)) {
+                if (
+                    isPathLabelTooSmall(
+                        textElement,
+                        this.m_screenProjector,
+                        tempScreenPoints,
+                        textElementState.path
+                    )
+                ) {
                     if (placementStats) {
                         placementStats.numNotVisible++;
                     }
@@ -1396,6 +1409,15 @@ export class TextElementsRenderer {
             placementStats.log();
         }
 
+        const stats = PerformanceStatistics.instance;
+        if (stats.enabled) {
+            stats.currentFrame.setValue(
+                "text.numRenderedTextElements",
+                renderParams.numRenderedTextElements
+            );
+            stats.currentFrame.setValue("text.numTextElementGroups", groupStates.length);
+        }
+
         if (renderParams.fadeAnimationRunning) {
             this.m_viewUpdateCallback();
         }
@@ -1576,6 +1598,20 @@ export class TextElementsRenderer {
         tempScreenPosition.x = tempPoiScreenPosition.x = screenPosition.x;
         tempScreenPosition.y = tempPoiScreenPosition.y = screenPosition.y;
 
+        // Keep the original position, screenPosition may be modified during placement.
+        const screenX = screenPosition.x;
+        const screenY = screenPosition.y;
+        if (this.isRepeatedLabel(pointLabel, screenX, screenY)) {
+            if (placementStats) {
+                ++placementStats.numRepeated;
+            }
+            iconRenderState.reset();
+            if (iconIndex === undefined) {
+                textRenderState?.reset();
+            }
+            return false;
+        }
+
         // Scale the text depending on the label's distance to the camera "zero" plane.
         const textDistance = pointToPlaneDistance(
             position,
@@ -1740,6 +1776,7 @@ export class TextElementsRenderer {
                 }
             }
         }
+        this.addRepeatedLabelPosition(pointLabel, screenX, screenY);
         renderParams.numRenderedTextElements++;
         return true;
     }
@@ -1917,15 +1954,24 @@ export class TextElementsRenderer {
 
         // Get the screen points that define the label's segments and create a path with
         // them.
-        let textPath = new THREE.Path();
+        let textPath = new SimplePath();
         tempScreenPosition.copy(screenPoints[0]);
         for (let i = 0; i < screenPoints.length - 1; ++i) {
             textPath.add(new SimpleLineCurve(screenPoints[i], screenPoints[i + 1]));
         }
+        const pathCenter = textPath.getPoint(0.5);
+        if (this.isRepeatedLabel(pathLabel, pathCenter.x, pathCenter.y)) {
+            if (placementStats) {
+                ++placementStats.numRepeated;
+            }
+            labelState.textRenderState!.reset();
+            return false;
+        }
+
         // Flip the path if the label is gonna be rendered downwards.
-        if (textPath.getPoint(0.5).x - textPath.getPoint(0.51).x > 0) {
+        if (pathCenter.x - textPath.getPoint(0.51).x > 0) {
             tempScreenPosition.copy(screenPoints[screenPoints.length - 1]);
-            textPath = new THREE.Path();
+            textPath = new SimplePath();
             for (let i = screenPoints.length - 1; i > 0; --i) {
                 textPath.add(new SimpleLineCurve(screenPoints[i], screenPoints[i - 1]));
             }
@@ -1991,6 +2037,7 @@ export class TextElementsRenderer {
         tempPosition.z = labelState.renderDistance;
 
         addTextToCanvas(pathLabel, textCanvas, tempPosition, textPath);
+        this.addRepeatedLabelPosition(pathLabel, pathCenter.x, pathCenter.y);
         renderParams.numRenderedTextElements++;
 
         // Restore previous style values for text elements using the same style.
@@ -2000,6 +2047,56 @@ export class TextElementsRenderer {
         return true;
     }
 
+    /**
+     * Checks whether a label is closer than its repeat distance to a copy of the label already
+     * placed in the current frame.
+     * @param label - The label to check.
+     * @param screenX - The x coordinate of the label in screen space.
+     * @param screenY - The y coordinate of the label in screen space.
+     * @returns `true` if the label is too close to one of its copies, `false` otherwise.
+     */
+    private isRepeatedLabel(label: TextElement, screenX: number, screenY: number): boolean {
+        if (label.repeatDistance === undefined || label.repeatDistance <= 0) {
+            return false;
+        }
+        const positions = this.m_repeatedLabelPositions.get(label.dedupKey);
+        if (positions === undefined) {
+            return false;
+        }
+        const minDistanceSqr = label.repeatDistance * label.repeatDistance;
+        for (let i = 0; i < positions.length; i += 2) {
+            const distanceSqr = Math2D.distSquared(
+                positions[i],
+                positions[i + 1],
+                screenX,
+                screenY
+            );
+            if (distanceSqr < minDistanceSqr) {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    /**
+     * Stores the screen position of a placed label to keep its copies at its repeat distance.
+     * @param label - The placed label.
+     * @param screenX - The x coordinate of the label in screen space.
+     * @param screenY - The y coordinate of the label in screen space.
+     */
+    private addRepeatedLabelPosition(label: TextElement, screenX: number, screenY: number) {
+        if (label.repeatDistance === undefined || label.repeatDistance <= 0) {
+            return;
+        }
+        const key = label.dedupKey;
+        let positions = this.m_repeatedLabelPositions.get(key);
+        if (positions === undefined) {
+            positions = [];
+            this.m_repeatedLabelPositions.set(key, positions);
+        }
+        positions.push(screenX, screenY);
+    }
+
     private checkIfOverloaded(dataSourceTileList: DataSourceTileList[]): boolean {
         // Count the number of TextElements in the scene to see if we have to switch to
         // "overloadMode".
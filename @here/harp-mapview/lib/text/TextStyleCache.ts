@@ -504,17 +504,24 @@ function parseTechniqueVAlignValue(vAlignment: string | undefined | null): Verti
 function parseTechniquePlacements(placementsString: string | undefined | null): TextPlacements {
     // Parse placement properties if available.
     const placements: TextPlacements = [];
-    const placementsTokens = placementsString
-        ? placementsString!
-              .toUpperCase()
-              .replace(" ", "")
-              .split(",")
-        : [];
+    const placementsTokens = placementsString ? placementsString!.toUpperCase().split(",") : [];
     placementsTokens.forEach(p => {
-        const val = parseTechniquePlacementValue(p);
-        if (val !== undefined) {
-            placements.push(val);
+        // Each placement may be followed by the x and y offsets of the anchor, e.g. "TR 4 -4".
+        const [token, ...offsets] = p.trim().split(/\s+/);
+        const val = parseTechniquePlacementValue(token);
+        if (val === undefined) {
+            return;
         }
+        if (offsets.length > 0) {
+            const [xOffset, yOffset] = offsets.map(Number);
+            if (offsets.length !== 2 || !Number.isFinite(xOffset) || !Number.isFinite(yOffset)) {
+                logger.warn(`Invalid offsets of text placement: "${p.trim()}"`);
+                return;
+            }
+            val.xOffset = xOffset;
+            val.yOffset = yOffset;
+        }
+        placements.push(val);
     });
     return placements;
 }
@@ -565,6 +572,12 @@ function parseTechniquePlacementValue(p: string): TextPlacement | undefined {
         case PlacementToken.West:
             textPlacement.h = HorizontalPlacement.Left;
             break;
+        // Center, only valid as single character tag.
+        case PlacementToken.Center:
+            if (p.length === 2) {
+                return undefined;
+            }
+            break;
         default:
             // Either for single character or multi-char tag, we must surrender.
             return undefined;
@@ -0,0 +1,72 @@
+/*
+ * Copyright (C) 2017-2020 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+//    Mocha discourages using arrow functions, see https://mochajs.org/#arrow-functions
+
+import { mercatorProjection } from "@here/harp-geoutils";
+import { expect } from "chai";
+import * as THREE from "three";
+
+import { CameraMovementDetector } from "../lib/CameraMovementDetector";
+import { MapView } from "../lib/MapView";
+
+describe("CameraMovementDetector", function() {
+    let camera: THREE.PerspectiveCamera;
+    let mapView: MapView;
+    let detector: CameraMovementDetector;
+
+    function moveCamera(x: number, y: number) {
+        camera.position.x += x;
+        camera.position.y += y;
+        camera.updateMatrixWorld(true);
+    }
+
+    beforeEach(function() {
+        camera = new THREE.PerspectiveCamera();
+        camera.position.set(1000, 1000, 800);
+        camera.updateMatrixWorld(true);
+        mapView = ({ projection: mercatorProjection, camera } as any) as MapView;
+        detector = new CameraMovementDetector(undefined, undefined, undefined);
+    });
+
+    afterEach(function() {
+        detector.dispose();
+    });
+
+    it("computes the smoothed camera velocity", function() {
+        expect(detector.checkCameraMoved(mapView, 0)).to.be.false;
+        expect(detector.cameraVelocity.length()).to.equal(0);
+
+        moveCamera(10, 0);
+        expect(detector.checkCameraMoved(mapView, 10)).to.be.true;
+        expect(detector.cameraVelocity.toArray()).to.deep.equal([0.5, 0, 0]);
+
+        moveCamera(10, 0);
+        detector.checkCameraMoved(mapView, 20);
+        expect(detector.cameraVelocity.toArray()).to.deep.equal([0.75, 0, 0]);
+
+        moveCamera(0, 20);
+        detector.checkCameraMoved(mapView, 30);
+        expect(detector.cameraVelocity.toArray()).to.deep.equal([0.375, 1, 0]);
+    });
+
+    it("resets the camera velocity when the camera stops", function() {
+        detector.checkCameraMoved(mapView, 0);
+        moveCamera(10, 0);
+        detector.checkCameraMoved(mapView, 10);
+
+        expect(detector.checkCameraMoved(mapView, 20)).to.be.false;
+        expect(detector.cameraVelocity.length()).to.equal(0);
+    });
+
+    it("ignores forced movements in the camera velocity", function() {
+        detector.checkCameraMoved(mapView, 0);
+        detector.forceMoved();
+
+        expect(detector.checkCameraMoved(mapView, 10)).to.be.true;
+        expect(detector.cameraVelocity.length()).to.equal(0);
+    });
+});
@@ -0,0 +1,62 @@
+/*
+ * Copyright (C) 2017-2020 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+//    Mocha discourages using arrow functions, see https://mochajs.org/#arrow-functions
+
+import { expect } from "chai";
+
+import { CopyrightInfo } from "../lib/copyrights/CopyrightInfo";
+
+describe("CopyrightInfo", function() {
+    describe("#parseAttribution", function() {
+        it("parses links", function() {
+            const attribution =
+                '<a href="https://www.openmaptiles.org/" target="_blank">&copy; OpenMapTiles</a> ' +
+                '<a href="https://www.openstreetmap.org/copyright" target="_blank">' +
+                "&copy; OpenStreetMap contributors</a>";
+
+            expect(CopyrightInfo.parseAttribution(attribution)).to.deep.equal([
+                {
+                    id: "OpenMapTiles",
+                    label: "OpenMapTiles",
+                    link: "https://www.openmaptiles.org/"
+                },
+                {
+                    id: "OpenStreetMap contributors",
+                    label: "OpenStreetMap contributors",
+                    link: "https://www.openstreetmap.org/copyright"
+                }
+            ]);
+        });
+
+        it("splits plain text at copyright signs and separators", function() {
+            expect(
+                CopyrightInfo.parseAttribution("© 2020 Natural Earth | (c) OpenStreetMap")
+            ).to.deep.equal([
+                { id: "Natural Earth", label: "Natural Earth", year: 2020 },
+                { id: "OpenStreetMap", label: "OpenStreetMap" }
+            ]);
+        });
+
+        it("removes duplicates and empty entries", function() {
+            expect(CopyrightInfo.parseAttribution("© HERE; ©  ; © HERE")).to.deep.equal([
+                { id: "HERE", label: "HERE" }
+            ]);
+            expect(CopyrightInfo.parseAttribution("")).to.deep.equal([]);
+        });
+
+        it("formats to the original attribution", function() {
+            const copyrightInfo = CopyrightInfo.parseAttribution(
+                '<a href="https://here.com">&copy; 2020 HERE</a>'
+            );
+
+            expect(CopyrightInfo.formatAsHtml(copyrightInfo)).to.equal(
+                '© <a href="https://here.com" target="_blank" rel="noreferrer noopener">' +
+                    "2020 HERE</a>"
+            );
+        });
+    });
+});
@@ -6,7 +6,7 @@
 
 // Mocha discourages using arrow functions, see https://mochajs.org/#arrow-functions
 
-import { TileKey, webMercatorTilingScheme } from "@here/harp-geoutils";
+import { GeoBox, GeoCoordinates, TileKey, webMercatorTilingScheme } from "@here/harp-geoutils";
 import * as chai from "chai";
 const { expect } = chai;
 import * as chai_as_promised from "chai-as-promised";
@@ -287,6 +287,21 @@ describe("DataSource", function() {
                 expect(dataSource.canGetTile(4, { level: 4 } as any)).to.be.true;
                 expect(dataSource.canGetTile(5, { level: 6 } as any)).to.be.false;
             });
+
+            it("limits the tiles to the data bounds", function() {
+                // Bounds crossing the antimeridian.
+                dataSource.dataBounds = GeoBox.fromCoordinates(
+                    new GeoCoordinates(-50, 170),
+                    new GeoCoordinates(-30, -170)
+                );
+                const tileKeyAt = (latitude: number, longitude: number) =>
+                    webMercatorTilingScheme.getTileKey(new GeoCoordinates(latitude, longitude), 5)!;
+
+                expect(dataSource.canGetTile(5, tileKeyAt(-40, 175))).to.be.true;
+                expect(dataSource.canGetTile(5, tileKeyAt(-40, -175))).to.be.true;
+                expect(dataSource.canGetTile(5, tileKeyAt(-40, 0))).to.be.false;
+                expect(dataSource.canGetTile(5, tileKeyAt(40, 175))).to.be.false;
+            });
         });
 
         describe("shouldSubdivide", function() {
@@ -309,6 +324,49 @@ describe("DataSource", function() {
             });
         });
 
+        describe("time", function() {
+            it("dispatches an update event and keeps the previous time", function() {
+                const spy = sinon.spy();
+                dataSource.addEventListener("update", spy);
+
+                dataSource.time = 1000;
+                dataSource.time = 2000;
+                dataSource.time = 2000;
+
+                expect(spy.calledTwice).to.be.true;
+                expect(dataSource.time).to.equal(2000);
+                expect(dataSource.previousTime).to.equal(1000);
+            });
+
+            it("returns the neighboring time steps to prefetch, nearest first", function() {
+                dataSource.timeSteps = [1000, 2000, 3000, 4000, 5000];
+                dataSource.prefetchTimeSteps = 2;
+
+                expect(dataSource.getPrefetchTimeSteps()).to.be.empty;
+
+                dataSource.time = 3000;
+                expect(dataSource.getPrefetchTimeSteps()).to.deep.equal([4000, 2000, 5000, 1000]);
+
+                dataSource.time = 4500;
+                expect(dataSource.getPrefetchTimeSteps()).to.deep.equal([5000, 4000, 3000]);
+
+                dataSource.time = 1000;
+                expect(dataSource.getPrefetchTimeSteps()).to.deep.equal([2000, 3000]);
+            });
+
+            it("creates tiles for another time", function() {
+                dataSource.time = 1000;
+                sinon
+                    .stub(dataSource, "getTile")
+                    .callsFake(tileKey => ({ tileKey, time: dataSource.time } as Tile));
+
+                const tile = dataSource.getTileAtTime(TileKey.fromRowColumnLevel(1, 1, 2), 2000);
+
+                expect(tile!.time).to.equal(2000);
+                expect(dataSource.time).to.equal(1000);
+            });
+        });
+
         describe("requestUpdate", function() {
             it("dispatches an update event", function() {
                 const spy = sinon.spy((e: any) => {
@@ -4,8 +4,14 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import { Expr, getPropertyValue, MapEnv, SolidLineTechnique } from "@here/harp-datasource-protocol";
-import { SolidLineMaterial } from "@here/harp-materials";
+import {
+    Expr,
+    getPropertyValue,
+    HeatmapTechnique,
+    MapEnv,
+    SolidLineTechnique
+} from "@here/harp-datasource-protocol";
+import { HeatmapMaterial, SolidLineMaterial } from "@here/harp-materials";
 import { assertLogsSync } from "@here/harp-test-utils";
 import { LoggerManager } from "@here/harp-utils";
 import { assert } from "chai";
@@ -108,6 +114,53 @@ describe("DecodedTileHelpers", function() {
             assert.exists(material);
             assert.isTrue(material.depthTest);
         });
+
+        it("creates heatmap materials with a sampled color ramp", function() {
+            const technique: HeatmapTechnique = {
+                name: "heatmap",
+                renderOrder: 0,
+                radius: 20,
+                intensity: 2,
+                opacity: 0.5,
+                colorRamp: Expr.fromJSON([
+                    "interpolate",
+                    ["linear"],
+                    ["heatmap-density"],
+                    0,
+                    "rgba(0, 0, 255, 0)",
+                    1,
+                    "#ff0000"
+                ])
+            };
+            const material = createMaterial(rendererCapabilities, {
+                technique,
+                env
+            })! as HeatmapMaterial;
+
+            assert.instanceOf(material, HeatmapMaterial);
+            assert.equal(material.radius, 20);
+            assert.equal(material.intensity, 2);
+            assert.equal(material.heatmapOpacity, 0.5);
+
+            const ramp = material.colorRamp as THREE.DataTexture;
+            const data = ramp.image.data;
+            assert.equal(ramp.image.width, 256);
+            assert.deepEqual(Array.from(data.slice(0, 4)), [0, 0, 255, 0]);
+            assert.deepEqual(Array.from(data.slice(data.length - 4)), [255, 0, 0, 255]);
+        });
+
+        it("uses a default color ramp for heatmaps", function() {
+            const technique: HeatmapTechnique = { name: "heatmap", renderOrder: 0 };
+            const material = createMaterial(rendererCapabilities, {
+                technique,
+                env
+            })! as HeatmapMaterial;
+
+            assert.equal(material.radius, HeatmapMaterial.DEFAULT_RADIUS);
+            const data = (material.colorRamp as THREE.DataTexture).image.data;
+            assert.equal(data[3], 0, "zero density is transparent");
+            assert.deepEqual(Array.from(data.slice(data.length - 4)), [255, 0, 0, 255]);
+        });
     });
     it("#applyBaseColorToMaterial toggles opacity with material", function() {
         const material = new THREE.MeshBasicMaterial();
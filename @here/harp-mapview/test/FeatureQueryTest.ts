@@ -0,0 +1,324 @@
+/*
+ * Copyright (C) 2017-2020 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+//    Mocha discourages using arrow functions, see https://mochajs.org/#arrow-functions
+
+import { AttributeMap, GeometryType } from "@here/harp-datasource-protocol";
+import {
+    GeoBox,
+    GeoCoordinates,
+    mercatorProjection,
+    TileKey,
+    TilingScheme,
+    webMercatorTilingScheme
+} from "@here/harp-geoutils";
+import { expect } from "chai";
+import * as THREE from "three";
+
+import { DataSource } from "../lib/DataSource";
+import { FeatureQuery } from "../lib/FeatureQuery";
+import { MapView } from "../lib/MapView";
+import { TextElementGroupPriorityList } from "../lib/text/TextElementGroupPriorityList";
+import { Tile } from "../lib/Tile";
+
+const projection = mercatorProjection;
+
+class FakeDataSource extends DataSource {
+    getTilingScheme(): TilingScheme {
+        return webMercatorTilingScheme;
+    }
+
+    getTile(): Tile | undefined {
+        return undefined;
+    }
+}
+
+function createTile(dataSource: DataSource, row: number, objects: THREE.Object3D[]): Tile {
+    const tileKey = TileKey.fromRowColumnLevel(row, 0, 14);
+    return ({
+        tileKey,
+        dataSource,
+        center: projection.projectPoint(new GeoCoordinates(0.5, 0.5)),
+        objects,
+        textElementGroups: new TextElementGroupPriorityList(),
+        computeWorldOffsetX: () => 0
+    } as any) as Tile;
+}
+
+// Creates an object with vertices at the given [longitude, latitude] pairs relative to the
+// center of the tiles.
+function createObject<T extends THREE.Object3D>(
+    object: T & { geometry: THREE.BufferGeometry },
+    geometryType: GeometryType,
+    coordinates: number[][],
+    objInfos: AttributeMap[],
+    starts?: number[]
+): T {
+    const center = projection.projectPoint(new GeoCoordinates(0.5, 0.5), new THREE.Vector3());
+    const positions: number[] = [];
+    for (const [longitude, latitude] of coordinates) {
+        const worldPos = projection
+            .projectPoint(new GeoCoordinates(latitude, longitude), new THREE.Vector3())
+            .sub(center);
+        positions.push(worldPos.x, worldPos.y, worldPos.z);
+    }
+    object.geometry.setAttribute("position", new THREE.Float32BufferAttribute(positions, 3));
+    object.userData = { feature: { geometryType, objInfos, starts: starts ?? [0] } };
+    return object;
+}
+
+function createTriangles(coordinates: number[][], objInfos: AttributeMap[]) {
+    return createObject(
+        new THREE.Mesh(new THREE.BufferGeometry()),
+        GeometryType.Polygon,
+        coordinates,
+        objInfos
+    );
+}
+
+function createSegments(coordinates: number[][], objInfos: AttributeMap[]) {
+    return createObject(
+        new THREE.LineSegments(new THREE.BufferGeometry()),
+        GeometryType.Line,
+        coordinates,
+        objInfos
+    );
+}
+
+// Splits the quad a, b, c, d into two triangles.
+function quad(a: number[], b: number[], c: number[], d: number[]): number[][] {
+    return [a, b, c, a, c, d];
+}
+
+describe("FeatureQuery", function() {
+    const park = { $id: 42, $layer: "landuse", kind: "park" };
+    const road = { $id: 7, $layer: "roads", kind: "street" };
+    let dataSource: DataSource;
+    let tiles: Tile[];
+    let featureQuery: FeatureQuery;
+
+    beforeEach(function() {
+        dataSource = new FakeDataSource({ name: "test" });
+        // A park split across two tiles and a road crossing the tile border.
+        tiles = [
+            createTile(dataSource, 0, [
+                createTriangles(quad([0, 0], [1, 0], [1, 1], [0, 1]), [park]),
+                createSegments(
+                    [
+                        [0, 2],
+                        [1, 2]
+                    ],
+                    [road]
+                )
+            ]),
+            createTile(dataSource, 1, [
+                createTriangles(quad([1, 0], [2, 0], [2, 1], [1, 1]), [park]),
+                createSegments(
+                    [
+                        [1, 2],
+                        [2, 2]
+                    ],
+                    [road]
+                )
+            ])
+        ];
+        const mapView = ({
+            projection,
+            visibleTileSet: {
+                dataSourceTileList: [],
+                forEachVisibleTile: (fun: (tile: Tile) => void) => tiles.forEach(fun),
+                forEachCachedTile: (fun: (tile: Tile) => void) => tiles.forEach(fun)
+            },
+            // Screen coordinates are 100 pixels per degree.
+            getScreenPosition: (worldPos: THREE.Vector3) => {
+                const geoPos = projection.unprojectPoint(worldPos);
+                return new THREE.Vector2(geoPos.longitude * 100, geoPos.latitude * 100);
+            }
+        } as any) as MapView;
+        featureQuery = new FeatureQuery(mapView);
+    });
+
+    describe("querySourceFeatures", function() {
+        it("merges features split across tiles", function() {
+            const features = featureQuery.querySourceFeatures(dataSource);
+
+            expect(features).to.have.length(2);
+            const [parkFeature, roadFeature] = features;
+            expect(parkFeature.id).to.equal("42");
+            expect(parkFeature.properties).to.deep.equal(park);
+            expect(parkFeature.dataSource).to.equal(dataSource);
+            expect(parkFeature.geometry.type).to.equal("Polygon");
+            const ring = parkFeature.geometry.coordinates[0] as number[][];
+            expect(ring).to.have.length(7);
+            expect(ring[0]).to.deep.equal(ring[6]);
+            expect(ring).to.deep.include.members([
+                [0, 0],
+                [2, 0],
+                [2, 1],
+                [0, 1]
+            ]);
+
+            expect(roadFeature.id).to.equal("7");
+            expect(roadFeature.geometry.type).to.equal("LineString");
+            const line = roadFeature.geometry.coordinates as number[][];
+            expect(line).to.have.length(3);
+            expect([line[0], line[2]]).to.deep.include.members([
+                [0, 2],
+                [2, 2]
+            ]);
+        });
+
+        it("returns polygons with holes in GeoJSON winding order", function() {
+            const outer = [
+                [0, 0],
+                [3, 0],
+                [3, 3],
+                [0, 3]
+            ];
+            const inner = [
+                [1, 1],
+                [2, 1],
+                [2, 2],
+                [1, 2]
+            ];
+            const triangles: number[][] = [];
+            for (let i = 0; i < 4; i++) {
+                const next = (i + 1) % 4;
+                triangles.push(...quad(outer[i], outer[next], inner[next], inner[i]));
+            }
+            tiles = [createTile(dataSource, 0, [createTriangles(triangles, [1])])];
+
+            const [feature] = featureQuery.querySourceFeatures(dataSource);
+
+            expect(feature.properties).to.deep.equal({});
+            expect(feature.geometry.type).to.equal("Polygon");
+            const [outerRing, hole] = feature.geometry.coordinates as number[][][];
+            expect(outerRing).to.have.length(5);
+            expect(hole).to.have.length(5);
+            expect(outerRing).to.deep.include.members(outer);
+            expect(hole).to.deep.include.members(inner);
+            // Counter-clockwise exterior ring, clockwise hole.
+            const signedArea = (ring: number[][]) =>
+                ring
+                    .slice(1)
+                    .reduce((sum, p, i) => sum + (ring[i][0] * p[1] - p[0] * ring[i][1]) / 2, 0);
+            expect(signedArea(outerRing)).to.be.closeTo(9, 1e-6);
+            expect(signedArea(hole)).to.be.closeTo(-1, 1e-6);
+        });
+
+        it("returns separate features for each point", function() {
+            tiles = [
+                createTile(dataSource, 0, [
+                    createObject(
+                        new THREE.Points(new THREE.BufferGeometry()),
+                        GeometryType.Point,
+                        [
+                            [0.25, 0.25],
+                            [0.75, 0.75]
+                        ],
+                        [{ $id: 1 }, { $id: 2 }]
+                    )
+                ])
+            ];
+
+            const features = featureQuery.querySourceFeatures(dataSource);
+
+            expect(features.map(feature => feature.id)).to.deep.equal(["1", "2"]);
+            expect(features[0].geometry).to.deep.equal({
+                type: "Point",
+                coordinates: [0.25, 0.25]
+            });
+        });
+
+        it("filters features by geo box", function() {
+            const features = featureQuery.querySourceFeatures(dataSource, {
+                geoBox: GeoBox.fromCoordinates(
+                    new GeoCoordinates(1.5, 1.5),
+                    new GeoCoordinates(2.5, 2.5)
+                )
+            });
+
+            expect(features.map(feature => feature.id)).to.deep.equal(["7"]);
+        });
+
+        it("filters features by geo box crossing the antimeridian", function() {
+            tiles = [
+                createTile(dataSource, 0, [
+                    createObject(
+                        new THREE.Points(new THREE.BufferGeometry()),
+                        GeometryType.Point,
+                        [
+                            [175, 0.5],
+                            [-175, 0.5],
+                            [0.5, 0.5]
+                        ],
+                        [{ $id: 1 }, { $id: 2 }, { $id: 3 }]
+                    )
+                ])
+            ];
+            const query = (west: number, east: number) =>
+                featureQuery
+                    .querySourceFeatures(dataSource, {
+                        geoBox: GeoBox.fromCoordinates(
+                            new GeoCoordinates(0, west),
+                            new GeoCoordinates(1, east)
+                        )
+                    })
+                    .map(feature => feature.id);
+
+            expect(query(170, 190)).to.deep.equal(["1", "2"]);
+            expect(query(170, -170)).to.deep.equal(["1", "2"]);
+            expect(query(-190, -170)).to.deep.equal(["1", "2"]);
+            expect(query(-170, 170)).to.deep.equal(["3"]);
+        });
+
+        it("filters features by layer", function() {
+            const features = featureQuery.querySourceFeatures(dataSource, {
+                layers: ["landuse"]
+            });
+
+            expect(features.map(feature => feature.id)).to.deep.equal(["42"]);
+        });
+
+        it("filters features by condition", function() {
+            expect(
+                featureQuery
+                    .querySourceFeatures(dataSource, {
+                        filter: ["==", ["get", "kind"], "street"]
+                    })
+                    .map(feature => feature.id)
+            ).to.deep.equal(["7"]);
+            expect(
+                featureQuery
+                    .querySourceFeatures(dataSource, {
+                        filter: ["==", ["get", "$geometryType"], "polygon"]
+                    })
+                    .map(feature => feature.id)
+            ).to.deep.equal(["42"]);
+        });
+    });
+
+    describe("queryRenderedFeatures", function() {
+        it("returns merged features intersecting a screen box", function() {
+            const features = featureQuery.queryRenderedFeatures(
+                new THREE.Box2(new THREE.Vector2(150, 40), new THREE.Vector2(160, 60))
+            );
+
+            expect(features).to.have.length(1);
+            expect(features[0].id).to.equal("42");
+            // The geometry includes the part of the feature outside of the box.
+            expect(features[0].geometry.coordinates[0]).to.deep.include([0, 0]);
+        });
+
+        it("returns features around a screen position", function() {
+            const features = featureQuery.queryRenderedFeatures(new THREE.Vector2(50, 202));
+
+            expect(features.map(feature => feature.id)).to.deep.equal(["7"]);
+            expect(featureQuery.queryRenderedFeatures(new THREE.Vector2(50, 202), { radius: 1 })).to
+                .be.empty;
+        });
+    });
+});
@@ -0,0 +1,288 @@
+/*
+ * Copyright (C) 2017-2020 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+//    Mocha discourages using arrow functions, see https://mochajs.org/#arrow-functions
+
+import { Expr, IndexedTechnique } from "@here/harp-datasource-protocol";
+import {
+    GeoCoordinates,
+    TileKey,
+    TilingScheme,
+    webMercatorTilingScheme
+} from "@here/harp-geoutils";
+import { expect } from "chai";
+import * as sinon from "sinon";
+import * as THREE from "three";
+
+import { DataSource } from "../lib/DataSource";
+import { createMaterial } from "../lib/DecodedTileHelpers";
+import { HeadlessMapView } from "../lib/headless/HeadlessMapView";
+import { ImageDataLike, SoftwareRenderer } from "../lib/headless/SoftwareRenderer";
+import { MapObjectAdapter } from "../lib/MapObjectAdapter";
+import { Tile } from "../lib/Tile";
+
+function getPixel(image: ImageDataLike, x: number, y: number): number[] {
+    const offset = (y * image.width + x) * 4;
+    return Array.from(image.data.subarray(offset, offset + 4));
+}
+
+function createQuad(color: number, z: number, material?: THREE.MeshBasicMaterialParameters) {
+    const geometry = new THREE.PlaneBufferGeometry(1, 1);
+    const mesh = new THREE.Mesh(geometry, new THREE.MeshBasicMaterial({ color, ...material }));
+    mesh.position.z = z;
+    return mesh;
+}
+
+describe("SoftwareRenderer", function() {
+    let renderer: SoftwareRenderer;
+    let scene: THREE.Scene;
+    let camera: THREE.OrthographicCamera;
+
+    beforeEach(function() {
+        renderer = new SoftwareRenderer(10, 10);
+        renderer.setClearColor(0x0000ff);
+        scene = new THREE.Scene();
+        camera = new THREE.OrthographicCamera(-1, 1, 1, -1, 0.1, 10);
+        camera.position.z = 5;
+    });
+
+    it("clears with the clear color", function() {
+        renderer.render(scene, camera);
+
+        expect(getPixel(renderer.readPixels(), 0, 0)).to.deep.equal([0, 0, 255, 255]);
+    });
+
+    it("rasterizes meshes with their material color", function() {
+        scene.add(createQuad(0xff0000, 0));
+
+        renderer.render(scene, camera);
+
+        const image = renderer.readPixels();
+        expect(image.width).to.equal(10);
+        expect(image.height).to.equal(10);
+        expect(getPixel(image, 5, 5)).to.deep.equal([255, 0, 0, 255]);
+        expect(getPixel(image, 0, 0)).to.deep.equal([0, 0, 255, 255]);
+    });
+
+    it("keeps the nearest fragment when depth testing", function() {
+        scene.add(createQuad(0x00ff00, 1));
+        scene.add(createQuad(0xff0000, 0));
+
+        renderer.render(scene, camera);
+
+        expect(getPixel(renderer.readPixels(), 5, 5)).to.deep.equal([0, 255, 0, 255]);
+    });
+
+    it("draws in render order when depth test is disabled", function() {
+        const top = createQuad(0xff0000, 0, { depthTest: false });
+        top.renderOrder = 1;
+        scene.add(top);
+        scene.add(createQuad(0x00ff00, 1, { depthTest: false }));
+
+        renderer.render(scene, camera);
+
+        expect(getPixel(renderer.readPixels(), 5, 5)).to.deep.equal([255, 0, 0, 255]);
+    });
+
+    it("blends transparent materials", function() {
+        scene.add(createQuad(0xff0000, 0, { transparent: true, opacity: 0.5 }));
+
+        renderer.render(scene, camera);
+
+        const [r, g, b] = getPixel(renderer.readPixels(), 5, 5);
+        expect(r).to.be.closeTo(128, 1);
+        expect(g).to.equal(0);
+        expect(b).to.be.closeTo(128, 1);
+    });
+
+    it("clips triangles crossing the near plane", function() {
+        const perspective = new THREE.PerspectiveCamera(90, 1, 0.1, 100);
+        const floor = createQuad(0xff0000, 0);
+        floor.scale.set(100, 100, 1);
+        floor.position.set(0, 0, -1);
+        perspective.position.set(0, -1, 0);
+        perspective.lookAt(0, 10, -1);
+        scene.add(floor);
+
+        renderer.render(scene, perspective);
+
+        const image = renderer.readPixels();
+        expect(getPixel(image, 5, 9)).to.deep.equal([255, 0, 0, 255]);
+        expect(getPixel(image, 5, 0)).to.deep.equal([0, 0, 255, 255]);
+    });
+
+    it("discards rendering into render targets", function() {
+        scene.add(createQuad(0xff0000, 0));
+
+        renderer.setRenderTarget(new THREE.WebGLRenderTarget(10, 10));
+        renderer.render(scene, camera);
+        renderer.setRenderTarget(null);
+
+        expect(getPixel(renderer.readPixels(), 5, 5)).to.deep.equal([0, 0, 0, 255]);
+    });
+
+    it("scales the frame buffer with the pixel ratio", function() {
+        renderer.setPixelRatio(2);
+
+        const image = renderer.readPixels();
+        expect(image.width).to.equal(20);
+        expect(image.height).to.equal(20);
+        expect(renderer.getSize(new THREE.Vector2()).x).to.equal(10);
+    });
+});
+
+/**
+ * Data source with one tile, split in a left feature with id `1` and right feature with id `2`.
+ */
+class FeatureStateTestDataSource extends DataSource {
+    constructor(readonly tileKey: TileKey, readonly technique: IndexedTechnique) {
+        super({ name: "feature-state" });
+        this.cacheable = true;
+    }
+
+    /** @override */
+    getTilingScheme(): TilingScheme {
+        return webMercatorTilingScheme;
+    }
+
+    /** @override */
+    getTile(tileKey: TileKey): Tile {
+        const tile = new Tile(this, tileKey);
+        if (tileKey.mortonCode() !== this.tileKey.mortonCode()) {
+            return tile;
+        }
+        // Two quads, each covering one half of the view.
+        const size = 1e7;
+        const positions = [
+            [-size, -size, 0, 0, -size, 0, 0, size, 0, -size, size, 0],
+            [0, -size, 0, size, -size, 0, size, size, 0, 0, size, 0]
+        ];
+        const geometry = new THREE.BufferGeometry();
+        geometry.setAttribute(
+            "position",
+            new THREE.Float32BufferAttribute(([] as number[]).concat(...positions), 3)
+        );
+        geometry.setIndex([0, 1, 2, 0, 2, 3, 4, 5, 6, 4, 6, 7]);
+        const material = createMaterial(this.mapView.renderer.capabilities, {
+            technique: this.technique,
+            env: this.mapView.env
+        })!;
+        const mesh = new THREE.Mesh(geometry, material);
+        mesh.userData = {
+            technique: this.technique,
+            feature: { objInfos: [{ $id: 1 }, { $id: 2 }], starts: [0, 6] }
+        };
+        MapObjectAdapter.create(mesh, { technique: this.technique });
+        tile.objects.push(mesh);
+        return tile;
+    }
+}
+
+describe("HeadlessMapView", function() {
+    let headless: HeadlessMapView | undefined;
+
+    afterEach(function() {
+        if (headless !== undefined) {
+            headless.dispose();
+            headless = undefined;
+        }
+    });
+
+    it("renders a complete frame to an image", async function() {
+        headless = new HeadlessMapView({
+            width: 40,
+            height: 30,
+            theme: { clearColor: "#ff0000" },
+            target: new GeoCoordinates(52.5, 13.4),
+            zoomLevel: 10
+        });
+
+        const image = await headless.renderToImage();
+
+        expect(image.width).to.equal(40);
+        expect(image.height).to.equal(30);
+        // The ground plane of the background data source covers the whole view.
+        expect(getPixel(image, 20, 15)).to.deep.equal([255, 0, 0, 255]);
+        expect(headless.renderer.info.render.triangles).to.be.greaterThan(0);
+    });
+
+    it("rejects if the frame does not complete in time", async function() {
+        headless = new HeadlessMapView({
+            width: 40,
+            height: 30,
+            theme: new Promise(() => undefined)
+        });
+
+        let error: Error | undefined;
+        try {
+            await headless.renderToImage(50);
+        } catch (e) {
+            error = e;
+        }
+
+        expect(error).to.be.instanceOf(Error);
+    });
+
+    it("renders paint attributes depending on feature state", async function() {
+        const target = new GeoCoordinates(52.5, 13.4);
+        const zoomLevel = 10;
+        const technique: IndexedTechnique = {
+            name: "fill",
+            renderOrder: 0,
+            color: Expr.fromJSON([
+                "case",
+                ["==", ["feature-state", "hovered"], true],
+                "#ff0000",
+                "#0000ff"
+            ]),
+            _index: 0,
+            _styleSetIndex: 0,
+            _usesFeatureState: true,
+            _featureStateProperties: ["color"]
+        };
+        headless = new HeadlessMapView({
+            width: 40,
+            height: 30,
+            theme: { clearColor: "#000000" },
+            target,
+            zoomLevel
+        });
+        const tileKey = webMercatorTilingScheme.getTileKey(target, zoomLevel)!;
+        const dataSource = new FeatureStateTestDataSource(tileKey, technique);
+        await headless.mapView.addDataSource(dataSource);
+
+        const renderImage = () => {
+            headless!.mapView.renderSync();
+            return headless!.renderer.readPixels();
+        };
+
+        const tileCenter = new Tile(dataSource, tileKey).center;
+        const centerGeo = headless.mapView.projection.unprojectPoint(tileCenter);
+        headless.mapView.lookAt({ target: centerGeo, zoomLevel, tilt: 0, heading: 0 });
+
+        let image = renderImage();
+        expect(getPixel(image, 5, 15)).to.deep.equal([0, 0, 255, 255]);
+        expect(getPixel(image, 35, 15)).to.deep.equal([0, 0, 255, 255]);
+
+        dataSource.setFeatureState(2, { hovered: true });
+        image = renderImage();
+        expect(getPixel(image, 5, 15)).to.deep.equal([0, 0, 255, 255]);
+        expect(getPixel(image, 35, 15)).to.deep.equal([255, 0, 0, 255]);
+
+        const [tile] = headless.mapView.visibleTileSet.dataSourceTileList
+            .find(tileList => tileList.dataSource === dataSource)!
+            .renderedTiles.values();
+        const mesh = tile.objects.find(object => object.userData.feature !== undefined)!;
+        const [, variant] = (mesh as THREE.Mesh).material as THREE.Material[];
+        const disposeSpy = sinon.spy(variant, "dispose");
+
+        dataSource.removeFeatureState(2);
+        image = renderImage();
+        expect(getPixel(image, 35, 15)).to.deep.equal([0, 0, 255, 255]);
+        expect((mesh as THREE.Mesh).material).to.have.lengthOf(1);
+        expect(disposeSpy.calledOnce).to.be.true;
+    });
+});
@@ -0,0 +1,158 @@
+/*
+ * Copyright (C) 2017-2020 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+//    Mocha discourages using arrow functions, see https://mochajs.org/#arrow-functions
+
+import {
+    Expr,
+    ExtrudedPolygonTechnique,
+    MapEnv,
+    SolidLineTechnique
+} from "@here/harp-datasource-protocol";
+import {
+    MapMeshStandardMaterial,
+    RasterTileMaterial,
+    SolidLineMaterial
+} from "@here/harp-materials";
+import { assert } from "chai";
+import * as sinon from "sinon";
+import * as THREE from "three";
+
+import { createMaterial } from "../lib/DecodedTileHelpers";
+import { MapMaterialAdapter } from "../lib/MapMaterialAdapter";
+
+describe("MapMaterialAdapter", function() {
+    const rendererCapabilities = { isWebGL2: false } as any;
+    const env = new MapEnv({ $zoom: 10, $pixelToMeters: 2 });
+    let frameNumber = 0;
+
+    function update(material: THREE.Material) {
+        return MapMaterialAdapter.ensureUpdated(material, { env, frameNumber: ++frameNumber });
+    }
+
+    describe("#getStateVariant", function() {
+        const hovered = Expr.fromJSON(["==", ["feature-state", "hovered"], true]);
+        const technique: SolidLineTechnique = {
+            name: "solid-line",
+            renderOrder: 0,
+            color: Expr.fromJSON(["case", hovered.toJSON(), "#ff0000", "#0000ff"]),
+            lineWidth: Expr.fromJSON(["case", hovered.toJSON(), 4, 2]),
+            metricUnit: "Pixel"
+        };
+
+        it("evaluates feature-state as null for the base material", function() {
+            const material = createMaterial(rendererCapabilities, {
+                technique,
+                env
+            })! as SolidLineMaterial;
+            update(material);
+
+            assert.equal(material.color.getHex(), 0x0000ff);
+            assert.equal(material.lineWidth, 4);
+        });
+
+        it("evaluates feature-state with the state of the variant", function() {
+            const material = createMaterial(rendererCapabilities, { technique, env })!;
+            const adapter = MapMaterialAdapter.get(material)!;
+
+            const variant = adapter.getStateVariant({ hovered: true }) as SolidLineMaterial;
+            update(material);
+            update(variant);
+
+            assert.notStrictEqual(variant, material);
+            assert.instanceOf(variant, SolidLineMaterial);
+            assert.equal(variant.color.getHex(), 0xff0000);
+            assert.equal(variant.lineWidth, 8);
+            assert.equal((material as SolidLineMaterial).color.getHex(), 0x0000ff);
+        });
+
+        it("reuses variants for equal states", function() {
+            const material = createMaterial(rendererCapabilities, { technique, env })!;
+            const adapter = MapMaterialAdapter.get(material)!;
+
+            const variant = adapter.getStateVariant({ hovered: true });
+
+            assert.strictEqual(adapter.getStateVariant({ hovered: true }), variant);
+            assert.notStrictEqual(adapter.getStateVariant({ hovered: false }), variant);
+        });
+
+        it("reuses variants for states equal in the referenced properties", function() {
+            const material = createMaterial(rendererCapabilities, { technique, env })!;
+            const adapter = MapMaterialAdapter.get(material)!;
+
+            const variant = adapter.getStateVariant({ hovered: true, selected: true });
+
+            assert.strictEqual(adapter.getStateVariant({ selected: true, hovered: true }), variant);
+            assert.strictEqual(adapter.getStateVariant({ hovered: true }), variant);
+        });
+
+        it("disposes variants released by all users", function() {
+            const material = createMaterial(rendererCapabilities, { technique, env })!;
+            const adapter = MapMaterialAdapter.get(material)!;
+            const variant = adapter.getStateVariant({ hovered: true });
+            const disposeSpy = sinon.spy(variant, "dispose");
+
+            adapter.retainStateVariant(variant);
+            adapter.retainStateVariant(variant);
+            adapter.releaseStateVariant(variant);
+            assert.isTrue(disposeSpy.notCalled);
+            assert.strictEqual(adapter.getStateVariant({ hovered: true }), variant);
+
+            adapter.releaseStateVariant(variant);
+            assert.isTrue(disposeSpy.calledOnce);
+            assert.notStrictEqual(adapter.getStateVariant({ hovered: true }), variant);
+        });
+
+        it("disposes variants with the adapter", function() {
+            const material = createMaterial(rendererCapabilities, { technique, env })!;
+            const adapter = MapMaterialAdapter.get(material)!;
+            const variant = adapter.getStateVariant({ hovered: true });
+            const disposeSpy = sinon.spy(variant, "dispose");
+
+            adapter.dispose();
+
+            assert.isTrue(disposeSpy.calledOnce);
+            assert.notStrictEqual(adapter.getStateVariant({ hovered: true }), variant);
+        });
+
+        it("scales extrusion of variants relative to the base material", function() {
+            const extrudedTechnique: ExtrudedPolygonTechnique = {
+                name: "extruded-polygon",
+                renderOrder: 0,
+                lineWidth: 0,
+                color: "#ffffff",
+                heightScale: Expr.fromJSON(["case", hovered.toJSON(), 2, 1])
+            };
+            const material = createMaterial(rendererCapabilities, {
+                technique: extrudedTechnique,
+                env
+            })! as MapMeshStandardMaterial;
+            material.extrusionRatio = 0.5;
+            const adapter = MapMaterialAdapter.get(material)!;
+
+            const variant = adapter.getStateVariant({
+                hovered: true
+            }) as MapMeshStandardMaterial;
+            update(material);
+            update(variant);
+
+            assert.equal(material.extrusionRatio, 0.5);
+            assert.equal(variant.extrusionRatio, 1);
+        });
+    });
+
+    describe("#ensureUpdated", function() {
+        it("applies the opacity of materials without color", function() {
+            const material = new RasterTileMaterial();
+            MapMaterialAdapter.create(material, {
+                opacity: Expr.fromJSON(["interpolate", ["linear"], ["zoom"], 5, 1, 15, 0])
+            });
+            update(material);
+
+            assert.equal(material.opacity, 0.5);
+        });
+    });
+});
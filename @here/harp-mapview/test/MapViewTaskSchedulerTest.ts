@@ -0,0 +1,95 @@
+/*
+ * Copyright (C) 2017-2020 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+//    Mocha discourages using arrow functions, see https://mochajs.org/#arrow-functions
+
+import { expect } from "chai";
+
+import { TileTaskGroups } from "../lib/MapView";
+import { MapViewTaskScheduler } from "../lib/MapViewTaskScheduler";
+
+declare const global: any;
+
+describe("MapViewTaskScheduler", function() {
+    const needsPerformance = typeof performance === "undefined";
+    let scheduler: MapViewTaskScheduler;
+    let executed: string[];
+
+    before(function() {
+        if (needsPerformance) {
+            global.performance = { now: Date.now };
+        }
+    });
+
+    after(function() {
+        if (needsPerformance) {
+            delete global.performance;
+        }
+    });
+
+    function addTasks(group: TileTaskGroups, count: number) {
+        for (let i = 0; i < count; i++) {
+            scheduler.taskQueue.add({
+                execute: () => executed.push(group),
+                group,
+                getPriority: () => 0,
+                estimatedProcessTime: () => 1
+            });
+        }
+    }
+
+    beforeEach(function() {
+        scheduler = new MapViewTaskScheduler();
+        executed = [];
+    });
+
+    it("processes prefetch tasks within their budget", function() {
+        scheduler.maxPrefetchTasksPerFrame = 3;
+        addTasks(TileTaskGroups.PREFETCH, 5);
+        addTasks(TileTaskGroups.FETCH_AND_DECODE, 2);
+        let numUpdates = 0;
+        scheduler.addEventListener("update", () => numUpdates++);
+
+        scheduler.processPending(performance.now());
+
+        expect(executed).to.deep.equal([
+            TileTaskGroups.FETCH_AND_DECODE,
+            TileTaskGroups.FETCH_AND_DECODE,
+            TileTaskGroups.PREFETCH,
+            TileTaskGroups.PREFETCH,
+            TileTaskGroups.PREFETCH
+        ]);
+        expect(scheduler.taskQueue.numItemsLeft(TileTaskGroups.PREFETCH)).to.equal(2);
+        expect(numUpdates).to.equal(1);
+    });
+
+    it("processes prefetch tasks after all other tasks when throttled", function() {
+        scheduler.throttlingEnabled = true;
+        scheduler.maxPrefetchTasksPerFrame = 2;
+        addTasks(TileTaskGroups.PREFETCH, 5);
+        addTasks(TileTaskGroups.CREATE, 1);
+        addTasks(TileTaskGroups.FETCH_AND_DECODE, 1);
+
+        scheduler.processPending(performance.now());
+
+        expect(executed).to.deep.equal([
+            TileTaskGroups.CREATE,
+            TileTaskGroups.FETCH_AND_DECODE,
+            TileTaskGroups.PREFETCH,
+            TileTaskGroups.PREFETCH
+        ]);
+    });
+
+    it("does not process prefetch tasks when out of frame time", function() {
+        scheduler.throttlingEnabled = true;
+        addTasks(TileTaskGroups.PREFETCH, 1);
+
+        scheduler.processPending(performance.now() - 1000);
+
+        expect(executed).to.be.empty;
+        expect(scheduler.taskQueue.numItemsLeft(TileTaskGroups.PREFETCH)).to.equal(1);
+    });
+});
@@ -735,6 +735,7 @@ describe("MapView", function() {
         const dataSourceDisposeStub = sinon.stub(dataSource, "dispose");
         mapView = new MapView({ canvas });
         mapView.addDataSource(dataSource);
+        const renderingManagerDisposeSpy = sinon.spy(mapView.mapRenderingManager, "dispose");
 
         const disposeStub = sinon.stub();
         mapView!.addEventListener(MapViewEventNames.Dispose, disposeStub);
@@ -747,6 +748,7 @@ describe("MapView", function() {
 
         expect(mapView.disposed).to.be.equal(true);
         expect(dataSourceDisposeStub.callCount).to.be.equal(1);
+        expect(renderingManagerDisposeSpy.callCount).to.be.equal(1);
         expect(addEventListenerSpy.callCount).to.be.equal(2);
         expect(removeEventListenerSpy.callCount).to.be.equal(2);
         expect(disposeStub.callCount).to.be.equal(1, `Dispose event listener not called`);
@@ -0,0 +1,148 @@
+/*
+ * Copyright (C) 2017-2020 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+//    Mocha discourages using arrow functions, see https://mochajs.org/#arrow-functions
+
+import { ImageTexture } from "@here/harp-datasource-protocol";
+import { expect } from "chai";
+import * as sinon from "sinon";
+
+import { ImageCache } from "../lib/image/ImageCache";
+import { MapViewImageCache } from "../lib/image/MapViewImageCache";
+import { loadPatternTexture } from "../lib/image/PatternTexture";
+import { MapView } from "../lib/MapView";
+import { PoiManager } from "../lib/poi/PoiManager";
+
+class ImageData {
+    constructor(public width: number, public height: number) {}
+}
+
+describe("loadPatternTexture", function() {
+    let imageTextures: Map<string, ImageTexture>;
+    let mapView: MapView;
+
+    beforeEach(function() {
+        ImageCache.instance.clearAll();
+        imageTextures = new Map();
+        mapView = {
+            poiManager: {
+                getImageTexture: (name: string) => imageTextures.get(name)
+            }
+        } as any;
+        (mapView as any).imageCache = new MapViewImageCache(mapView);
+        (mapView as any).userImageCache = new MapViewImageCache(mapView);
+    });
+
+    it("creates texture of whole image", async function() {
+        const imageData = new ImageData(32, 16);
+        mapView.imageCache.registerImage("hatch", "hatch.png", imageData as any);
+
+        const pattern = await loadPatternTexture(mapView, "hatch");
+
+        expect(pattern).to.not.be.undefined;
+        expect(pattern!.texture.image).to.equal(imageData);
+        expect(pattern!.texture.flipY).to.be.false;
+        expect(pattern!.texture.generateMipmaps).to.be.false;
+        expect(pattern!.rect.toArray()).to.deep.equal([0, 0, 1, 1]);
+        expect(pattern!.width).to.equal(32);
+        expect(pattern!.height).to.equal(16);
+    });
+
+    it("creates texture of image texture in atlas", async function() {
+        mapView.imageCache.registerImage("atlas", "atlas.png", new ImageData(64, 32) as any);
+        imageTextures.set("stripes", {
+            name: "stripes",
+            image: "atlas",
+            xOffset: 16,
+            yOffset: 8,
+            width: 32,
+            height: 16
+        });
+
+        const pattern = await loadPatternTexture(mapView, "stripes");
+
+        expect(pattern).to.not.be.undefined;
+        expect(pattern!.rect.toArray()).to.deep.equal([0.25, 0.25, 0.5, 0.5]);
+        expect(pattern!.width).to.equal(32);
+        expect(pattern!.height).to.equal(16);
+    });
+
+    it("prefers user images", async function() {
+        const userImageData = new ImageData(8, 8);
+        mapView.imageCache.registerImage("hatch", "hatch.png", new ImageData(4, 4) as any);
+        mapView.userImageCache.registerImage("hatch", "user-hatch.png", userImageData as any);
+
+        const pattern = await loadPatternTexture(mapView, "hatch");
+
+        expect(pattern!.texture.image).to.equal(userImageData);
+    });
+
+    it("returns undefined for unknown names", async function() {
+        const pattern = await loadPatternTexture(mapView, "unknown");
+
+        expect(pattern).to.be.undefined;
+    });
+
+    describe("PoiManager.getPatternTexture", function() {
+        let poiManager: PoiManager;
+
+        beforeEach(function() {
+            poiManager = new PoiManager(mapView);
+            (mapView as any).poiManager = poiManager;
+            mapView.imageCache.registerImage("hatch", "hatch.png", new ImageData(8, 8) as any);
+        });
+
+        it("shares pattern textures", async function() {
+            const pattern0 = await poiManager.getPatternTexture("hatch");
+            const pattern1 = await poiManager.getPatternTexture("hatch");
+
+            expect(pattern0).to.not.be.undefined;
+            expect(pattern1!.texture).to.equal(pattern0!.texture);
+        });
+
+        it("disposes pattern textures on clear", async function() {
+            const pattern0 = await poiManager.getPatternTexture("hatch");
+            const disposeSpy = sinon.spy(pattern0!.texture, "dispose");
+
+            poiManager.clear();
+            await Promise.resolve();
+            const pattern1 = await poiManager.getPatternTexture("hatch");
+
+            expect(disposeSpy.calledOnce).to.be.true;
+            expect(pattern1!.texture).to.not.equal(pattern0!.texture);
+        });
+
+        it("retries pattern textures that failed to load", async function() {
+            const error = new Error("failed");
+            const getImageTextureStub = sinon.stub(poiManager, "getImageTexture").throws(error);
+
+            let caughtError: Error | undefined;
+            try {
+                await poiManager.getPatternTexture("hatch");
+            } catch (e) {
+                caughtError = e;
+            }
+            getImageTextureStub.restore();
+            const pattern = await poiManager.getPatternTexture("hatch");
+
+            expect(caughtError).to.equal(error);
+            expect(pattern).to.not.be.undefined;
+        });
+
+        it("ignores pattern textures that failed to load on clear", async function() {
+            const unhandledRejectionSpy = sinon.spy();
+            process.on("unhandledRejection", unhandledRejectionSpy);
+            sinon.stub(poiManager, "getImageTexture").throws(new Error("failed"));
+
+            poiManager.getPatternTexture("hatch").catch(() => undefined);
+            poiManager.clear();
+            await new Promise(resolve => setTimeout(resolve, 0));
+            process.off("unhandledRejection", unhandledRejectionSpy);
+
+            expect(unhandledRejectionSpy.called).to.be.false;
+        });
+    });
+});
@@ -0,0 +1,147 @@
+/*
+ * Copyright (C) 2017-2020 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+//    Mocha discourages using arrow functions, see https://mochajs.org/#arrow-functions
+
+import { assert } from "chai";
+import * as THREE from "three";
+
+import { MapView, MapViewEventNames } from "../lib/MapView";
+import { PerformanceHud } from "../lib/PerformanceHud";
+import { PerformanceStatistics } from "../lib/Statistics";
+
+declare const global: any;
+
+const isNode = typeof document === "undefined";
+
+/**
+ * Minimal DOM element to run the tests in node.
+ */
+class FakeElement {
+    readonly style: { [name: string]: string } = {};
+    readonly children: FakeElement[] = [];
+    readonly listeners = new Map<string, () => void>();
+    textContent: string | null = "";
+    parent?: FakeElement;
+
+    appendChild(child: FakeElement) {
+        child.parent = this;
+        this.children.push(child);
+    }
+
+    remove() {
+        if (this.parent !== undefined) {
+            this.parent.children.splice(this.parent.children.indexOf(this), 1);
+            this.parent = undefined;
+        }
+    }
+
+    addEventListener(type: string, listener: () => void) {
+        this.listeners.set(type, listener);
+    }
+}
+
+describe("PerformanceHud", function() {
+    let parent: HTMLElement;
+    let mapView: MapView;
+    let stats: PerformanceStatistics;
+
+    function renderFrame(time: number, values: { [name: string]: number }) {
+        mapView.dispatchEvent({ type: MapViewEventNames.Render, time });
+        stats.storeAndClearFrameInfo();
+        for (const name in values) {
+            stats.currentFrame.setValue(name, values[name]);
+        }
+    }
+
+    beforeEach(function() {
+        if (isNode) {
+            global.document = { createElement: () => new FakeElement() };
+        }
+        stats = new PerformanceStatistics(false, 0);
+        parent = document.createElement("div");
+        const fakeMapView = new THREE.EventDispatcher() as any;
+        fakeMapView.canvas = { parentElement: parent };
+        fakeMapView.update = () => {};
+        mapView = fakeMapView;
+    });
+
+    afterEach(function() {
+        if (isNode) {
+            delete global.document;
+        }
+    });
+
+    it("enables the statistics while it's attached", function() {
+        const hud = new PerformanceHud(mapView);
+        assert.isTrue(stats.enabled);
+        assert.include(Array.from(parent.children), hud.element);
+
+        hud.dispose();
+        assert.isFalse(stats.enabled);
+        assert.notInclude(Array.from(parent.children), hud.element);
+    });
+
+    it("averages the frame values over the update interval", function() {
+        const hud = new PerformanceHud(mapView, { updateInterval: 100 });
+        const frame = {
+            "render.fps": 50,
+            "render.fullFrameTime": 10,
+            "render.drawTime": 4,
+            "renderCount.numTilesVisible": 8,
+            "decode.decodedTiles": 2,
+            "memory.geometryMemoryUsage": 2 * 1024 * 1024,
+            "text.numRenderedTextElements": 30
+        };
+
+        renderFrame(0, frame);
+        renderFrame(50, { ...frame, "render.fullFrameTime": 20, "render.fps": 30 });
+        assert.isUndefined(hud.snapshot);
+        renderFrame(100, frame);
+
+        const snapshot = hud.snapshot!;
+        assert.isDefined(snapshot);
+        assert.equal(snapshot.numFrames, 2);
+        assert.equal(snapshot.fps, 40);
+        assert.equal(snapshot.frameTime, 15);
+        assert.equal(snapshot.maxFrameTime, 20);
+        assert.equal(snapshot.drawTime, 4);
+        assert.equal(snapshot.cullTime, 0);
+        assert.equal(snapshot.numTilesVisible, 8);
+        assert.equal(snapshot.numTilesDecoded, 4);
+        assert.equal(snapshot.numRenderedTextElements, 30);
+
+        const text = (hud.element.children[0] as HTMLElement).textContent!;
+        assert.include(text, "FPS      40.0");
+        assert.include(text, "Frame    15.0 ms (max 20.0 ms)");
+        assert.include(text, "Geometry 2.0 MB");
+        assert.include(text, "Labels   30 placed");
+
+        hud.dispose();
+    });
+
+    it("records a frame trace", function() {
+        const hud = new PerformanceHud(mapView);
+        assert.lengthOf(hud.element.children, 3);
+        const recordButton = hud.element.children[1] as HTMLElement;
+
+        hud.startTrace();
+        assert.isTrue(stats.trace.recording);
+        assert.equal(recordButton.textContent, "Stop");
+
+        hud.stopTrace();
+        assert.isFalse(stats.trace.recording);
+        assert.equal(recordButton.textContent, "Record");
+
+        hud.dispose();
+    });
+
+    it("hides the trace controls", function() {
+        const hud = new PerformanceHud(mapView, { showTraceControls: false });
+        assert.lengthOf(hud.element.children, 1);
+        hud.dispose();
+    });
+});
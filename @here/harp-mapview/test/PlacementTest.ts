@@ -554,6 +554,88 @@ describe("Placement", function() {
                 expect(position.x).to.equal(0.8 * 5);
                 expect(position.y).to.equal(0.8 * (5 + 19 + 0.5 + cPadding.y));
             });
+
+            it("places text with placement offset", async function() {
+                const textElement = await createTextElement(
+                    textCanvas,
+                    "Test 123456",
+                    new THREE.Vector3(),
+                    {},
+                    {
+                        wrappingMode: WrappingMode.Word,
+                        lineWidth: 1,
+                        placements: [
+                            {
+                                h: HorizontalPlacement.Center,
+                                v: VerticalPlacement.Top,
+                                xOffset: 3,
+                                yOffset: 4
+                            }
+                        ]
+                    }
+                );
+                textElement.xOffset = 5;
+                textElement.yOffset = 5;
+                const state = new TextElementState(textElement);
+
+                const position = new THREE.Vector3();
+                // Set the current style for the canvas.
+                textCanvas.textRenderStyle = textElement.renderStyle!;
+                textCanvas.textLayoutStyle = textElement.layoutStyle!;
+                const result = placePointLabel(
+                    state,
+                    new THREE.Vector2(0, 0),
+                    1.0,
+                    textCanvas,
+                    new Env(),
+                    screenCollisions,
+                    false,
+                    position
+                );
+
+                expect(result).to.equal(PlacementResult.Ok);
+                expect(position.x).to.equal(5 + 3);
+                expect(position.y).to.equal(5 + 4 + 19 + 0.5 + cPadding.y);
+            });
+
+            it("places texts of different collision groups at the same position", async function() {
+                const elements = await Promise.all(
+                    [undefined, "overlay", "overlay"].map(async collisionGroup => {
+                        const textElement = await createTextElement(
+                            textCanvas,
+                            "Test 123456",
+                            new THREE.Vector3(),
+                            {},
+                            {
+                                horizontalAlignment: HorizontalAlignment.Center,
+                                verticalAlignment: VerticalAlignment.Center
+                            }
+                        );
+                        textElement.collisionGroup = collisionGroup;
+                        return textElement;
+                    })
+                );
+                const results = elements.map(textElement => {
+                    textCanvas.textRenderStyle = textElement.renderStyle!;
+                    textCanvas.textLayoutStyle = textElement.layoutStyle!;
+                    return placePointLabel(
+                        new TextElementState(textElement),
+                        new THREE.Vector2(0, 0),
+                        1.0,
+                        textCanvas,
+                        new Env(),
+                        screenCollisions,
+                        false,
+                        new THREE.Vector3()
+                    );
+                });
+
+                expect(results).to.deep.equal([
+                    PlacementResult.Ok,
+                    PlacementResult.Ok,
+                    PlacementResult.Invisible
+                ]);
+            });
         });
 
         context("single text with and without alternative placement", function() {
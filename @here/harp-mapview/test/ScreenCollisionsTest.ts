@@ -7554,4 +7554,39 @@ describe("ScreenCollisions", function() {
             true
         );
     });
+
+    it("bounds of different collision groups don't collide", function() {
+        const sc = new ScreenCollisions();
+        sc.update(100, 100);
+
+        const box = new Math2D.Box(0, 0, 10, 10);
+        sc.allocate(box);
+        sc.allocate(box, "overlay");
+
+        assert.isTrue(sc.isAllocated(box));
+        assert.isTrue(sc.isAllocated(box, "overlay"));
+        assert.isFalse(sc.isAllocated(box, "other"));
+        assert.lengthOf(sc.search(new CollisionBox(box), "overlay"), 1);
+    });
+
+    it("blocking bounds collide with all collision groups", function() {
+        const sc = new ScreenCollisions();
+        sc.update(100, 100);
+
+        const line: LineWithBound = {
+            minX: 0,
+            minY: -10,
+            maxX: 1,
+            maxY: 11,
+            line: new THREE.Line3(new THREE.Vector3(0, -10, 1), new THREE.Vector3(1, 11, 1))
+        };
+        sc.allocateIBoxes([line]);
+        const box = new Math2D.Box(-5, -5, 10, 10);
+
+        assert.isTrue(sc.isAllocated(box));
+        assert.isTrue(sc.isAllocated(box, "overlay"));
+
+        sc.reset();
+        assert.isFalse(sc.isAllocated(box, "overlay"));
+    });
 });
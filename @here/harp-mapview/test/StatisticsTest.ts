@@ -7,6 +7,8 @@ import { assert } from "chai";
 
 import {
     computeArrayStats,
+    FrameTrace,
+    FrameTraceTrack,
     MultiStageTimer,
     PerformanceStatistics,
     RingBuffer,
@@ -491,4 +493,103 @@ describe("mapview-statistics", function() {
         curFrame.reset();
         assert.isUndefined(curFrame.messages);
     });
+
+    it("clears the current frame if no more frames can be stored", function() {
+        const stats = new PerformanceStatistics(true, 1);
+
+        addFrameValues({ a: 100 });
+        assert.isTrue(stats.storeAndClearFrameInfo());
+        addFrameValues({ a: 150 });
+        assert.isFalse(stats.storeAndClearFrameInfo());
+
+        assert.equal(stats.frameEvents.length, 1);
+        assert.equal(stats.currentFrame.getValue("a"), 0);
+    });
+
+    describe("FrameTrace", function() {
+        it("records events only while started", function() {
+            const trace = new FrameTrace();
+            trace.addCompleteEvent("Frame", "render", 10, 5);
+            assert.equal(trace.length, 0);
+
+            trace.start();
+            assert.isTrue(trace.recording);
+            trace.addCompleteEvent("Frame", "render", 10, 5);
+            trace.addCounterEvent("Tiles", 10, { visible: 4 });
+            trace.addInstantEvent("ThemeLoaded", "theme", 12);
+            trace.stop();
+            trace.addCompleteEvent("Frame", "render", 20, 5);
+
+            assert.equal(trace.length, 3);
+            trace.clear();
+            assert.equal(trace.length, 0);
+        });
+
+        it("keeps the last events", function() {
+            const trace = new FrameTrace(2);
+            trace.start();
+            trace.addCompleteEvent("A", "render", 1, 1);
+            trace.addCompleteEvent("B", "render", 2, 1);
+            trace.addCompleteEvent("C", "render", 3, 1);
+
+            const names = trace
+                .toChromeTrace()
+                .traceEvents.filter(event => event.ph !== "M")
+                .map(event => event.name);
+            assert.deepEqual(names, ["B", "C"]);
+        });
+
+        it("exports the events in the Chrome Trace Event format", function() {
+            const trace = new FrameTrace();
+            trace.start();
+            trace.addCompleteEvent("Frame", "render", 10, 2.5, { frameNumber: 1 });
+            trace.addCompleteEvent("Decode", "tile", 8, 1, { tileKey: 5 }, FrameTraceTrack.Decoder);
+            trace.addCounterEvent("Tiles", 10, { visible: 4, loading: 1 });
+
+            const chromeTrace = trace.toChromeTrace({ userAgent: "test" });
+            assert.equal(chromeTrace.displayTimeUnit, "ms");
+            assert.deepEqual(chromeTrace.otherData, { userAgent: "test" });
+
+            const metadata = chromeTrace.traceEvents.filter(event => event.ph === "M");
+            assert.sameMembers(
+                metadata.map(event => event.args!.name),
+                ["harp.gl", "Main", "Decoder"]
+            );
+
+            const events = chromeTrace.traceEvents.filter(event => event.ph !== "M");
+            assert.deepEqual(events, [
+                {
+                    name: "Frame",
+                    cat: "render",
+                    ph: "X",
+                    ts: 10000,
+                    dur: 2500,
+                    pid: 1,
+                    tid: FrameTraceTrack.Main,
+                    args: { frameNumber: 1 }
+                },
+                {
+                    name: "Decode",
+                    cat: "tile",
+                    ph: "X",
+                    ts: 8000,
+                    dur: 1000,
+                    pid: 1,
+                    tid: FrameTraceTrack.Decoder,
+                    args: { tileKey: 5 }
+                },
+                {
+                    name: "Tiles",
+                    cat: "counter",
+                    ph: "C",
+                    ts: 10000,
+                    pid: 1,
+                    tid: FrameTraceTrack.Main,
+                    args: { visible: 4, loading: 1 }
+                }
+            ]);
+            // The trace must be serializable to JSON.
+            assert.deepEqual(JSON.parse(JSON.stringify(chromeTrace)), chromeTrace);
+        });
+    });
 });
@@ -56,6 +56,7 @@ export class TextElementBuilder {
     private m_pathLengthSqr: number | undefined;
     private m_userData: any;
     private m_mayOverlap: boolean = DEF_MAY_OVERLAP;
+    private m_repeatDistance: number | undefined;
 
     withPoiInfo(poiInfoBuilder: PoiInfoBuilder): TextElementBuilder {
         this.m_poiInfoBuilder = poiInfoBuilder;
@@ -121,6 +122,11 @@ export class TextElementBuilder {
         return this;
     }
 
+    withRepeatDistance(repeatDistance: number): TextElementBuilder {
+        this.m_repeatDistance = repeatDistance;
+        return this;
+    }
+
     build(): TextElement {
         const textElement = new TextElement(
             this.m_text,
@@ -139,6 +145,7 @@ export class TextElementBuilder {
         textElement.userData = this.m_userData;
         textElement.pathLengthSqr = this.m_pathLengthSqr;
         textElement.mayOverlap = this.m_mayOverlap;
+        textElement.repeatDistance = this.m_repeatDistance;
 
         return textElement;
     }
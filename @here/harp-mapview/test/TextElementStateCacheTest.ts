@@ -129,6 +129,42 @@ describe("TextElementStateCache", function() {
             expect(cache.cacheSize).to.equal(1);
         });
 
+        it("deduplicateElement w/ duplicates of different styles", function() {
+            const cache = new TextElementStateCache();
+            const label0 = new TextElementBuilder()
+                .withFeatureId(1)
+                .withText("X")
+                .build();
+            const label1 = new TextElementBuilder()
+                .withFeatureId(1)
+                .withText("X")
+                .build();
+            label0.styleSetIndex = 0;
+            label1.styleSetIndex = 1;
+
+            expect(cache.deduplicateElement(0, new TextElementState(label0))).to.be.true;
+            expect(cache.deduplicateElement(0, new TextElementState(label1))).to.be.false;
+            expect(cache.cacheSize).to.equal(1);
+        });
+
+        it("deduplicateElement w/ feature id collision", function() {
+            const cache = new TextElementStateCache();
+            const label0 = new TextElementBuilder()
+                .withFeatureId(1)
+                .withText("X")
+                .build();
+            const label1 = new TextElementBuilder()
+                .withFeatureId(1)
+                .withText("Y")
+                .build();
+
+            expect(cache.deduplicateElement(0, new TextElementState(label0))).to.be.true;
+            expect(cache.deduplicateElement(0, new TextElementState(label1))).to.be.true;
+            // The colliding label is cached by its text.
+            expect(label1.featureId).to.be.undefined;
+            expect(cache.cacheSize).to.equal(2);
+        });
+
         it("replaceElement", function() {
             const cache = new TextElementStateCache();
 
@@ -388,5 +424,102 @@ describe("TextElementStateCache", function() {
             const didReplace = cache.replaceElement(0, poiState1);
             expect(didReplace).to.be.false;
         });
+
+        describe("path label merging", function() {
+            function pathState(text: string, featureId: number, xCoords: number[]) {
+                const path = xCoords.map(x => new THREE.Vector3(x, 0, 0));
+                const label = new TextElementBuilder()
+                    .withText(text)
+                    .withFeatureId(featureId)
+                    .withPath(path)
+                    .build();
+                return new TextElementState(label);
+            }
+
+            function pathXCoords(state: TextElementState) {
+                return state.path!.map(point => point.x);
+            }
+
+            it("merges path label continuing a cached path label", function() {
+                const cache = new TextElementStateCache();
+                const state0 = pathState("X", 1, [0, 100]);
+                const state1 = pathState("X", 1, [100, 200, 300]);
+
+                expect(cache.deduplicateElement(20, state0)).to.be.true;
+                expect(cache.deduplicateElement(20, state1)).to.be.false;
+
+                expect(cache.cacheSize).to.equal(1);
+                expect(pathXCoords(state0)).to.deep.equal([0, 100, 200, 300]);
+                expect(state1.path).to.equal(state1.element.path);
+            });
+
+            it("merges path label preceding a cached path label", function() {
+                const cache = new TextElementStateCache();
+                const state0 = pathState("X", 1, [100, 200]);
+                const state1 = pathState("X", 1, [0, 100]);
+
+                expect(cache.deduplicateElement(20, state0)).to.be.true;
+                expect(cache.deduplicateElement(20, state1)).to.be.false;
+
+                expect(pathXCoords(state0)).to.deep.equal([0, 100, 200]);
+            });
+
+            it("keeps visible path label when merging", function() {
+                const cache = new TextElementStateCache();
+                const state0 = pathState("X", 1, [0, 100]);
+                const state1 = pathState("X", 1, [100, 200]);
+                state1.update(100);
+                state1.textRenderState!.startFadeIn(0);
+                expect(state1.visible).to.be.true;
+
+                expect(cache.deduplicateElement(20, state0)).to.be.true;
+                expect(cache.deduplicateElement(20, state1)).to.be.true;
+
+                expect(pathXCoords(state1)).to.deep.equal([0, 100, 200]);
+                expect(state0.path).to.equal(state0.element.path);
+            });
+
+            it("joins path labels connected through a new path label", function() {
+                const cache = new TextElementStateCache();
+                const state0 = pathState("X", 1, [0, 100]);
+                const state1 = pathState("X", 1, [200, 300]);
+                const state2 = pathState("X", 1, [100, 200]);
+
+                expect(cache.deduplicateElement(20, state0)).to.be.true;
+                // Not connected to the first label, but duplicate by feature id.
+                expect(cache.deduplicateElement(20, state1)).to.be.false;
+                expect(cache.deduplicateElement(20, state2)).to.be.false;
+
+                expect(pathXCoords(state0)).to.deep.equal([0, 100, 200]);
+            });
+
+            it("does not merge path labels with different text", function() {
+                const cache = new TextElementStateCache();
+                const state0 = pathState("X", 1, [0, 100]);
+                const state1 = pathState("Y", 1, [100, 200]);
+
+                expect(cache.deduplicateElement(20, state0)).to.be.true;
+                expect(cache.deduplicateElement(20, state1)).to.be.true;
+
+                expect(cache.cacheSize).to.equal(2);
+                expect(pathXCoords(state0)).to.deep.equal([0, 100]);
+                expect(pathXCoords(state1)).to.deep.equal([100, 200]);
+            });
+
+            it("drops merged path on next update", function() {
+                const cache = new TextElementStateCache();
+                const state0 = pathState("X", 1, [0, 100]);
+                const state1 = pathState("X", 1, [100, 200]);
+
+                cache.deduplicateElement(20, state0);
+                cache.deduplicateElement(20, state1);
+                expect(pathXCoords(state0)).to.deep.equal([0, 100, 200]);
+
+                cache.clearTextCache();
+                expect(cache.deduplicateElement(20, state0)).to.be.true;
+
+                expect(pathXCoords(state0)).to.deep.equal([0, 100]);
+            });
+        });
     });
 });
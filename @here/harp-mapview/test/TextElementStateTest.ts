@@ -125,7 +125,8 @@ describe("TextElementState", function() {
                 },
                 layoutStyle: {
                     horizontalAlignment: HorizontalAlignment.Right,
-                    verticalAlignment: VerticalAlignment.Above
+                    verticalAlignment: VerticalAlignment.Above,
+                    placements: []
                 }
             } as any);
             textElementState.update(0);
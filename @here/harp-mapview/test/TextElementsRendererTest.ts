@@ -351,6 +351,43 @@ const tests: TestCase[] = [
         ],
         frameTimes: FADE_2_CYCLES
     },
+    {
+        name: "Second from two pois with same text closer than repeat distance never fades in",
+        tiles: [
+            {
+                labels: [
+                    [
+                        poiBuilder()
+                            .withPosition(WORLD_SCALE, WORLD_SCALE)
+                            .withRepeatDistance(SCREEN_WIDTH),
+                        fadeIn(FADE_IN_OUT.length)
+                    ],
+                    [poiBuilder().withRepeatDistance(SCREEN_WIDTH), fadedOut(FADE_IN_OUT.length)]
+                ]
+            }
+        ],
+        frameTimes: FADE_2_CYCLES
+    },
+    {
+        name: "Second from two pois with same text farther than repeat distance fades in",
+        tiles: [
+            {
+                labels: [
+                    [
+                        poiBuilder()
+                            .withPosition(WORLD_SCALE, WORLD_SCALE)
+                            .withRepeatDistance(DEF_TEXT_WIDTH_HEIGHT),
+                        fadeIn(FADE_IN_OUT.length)
+                    ],
+                    [
+                        poiBuilder().withRepeatDistance(DEF_TEXT_WIDTH_HEIGHT),
+                        fadeIn(FADE_IN_OUT.length)
+                    ]
+                ]
+            }
+        ],
+        frameTimes: FADE_2_CYCLES
+    },
     // PERSISTENCY ACROSS ZOOM LEVELS
     {
         name: "Poi replaces predecessor with same text and feature id without fading",
@@ -0,0 +1,79 @@
+/*
+ * Copyright (C) 2017-2020 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+//    Mocha discourages using arrow functions, see https://mochajs.org/#arrow-functions
+
+import { MapEnv, PoiTechnique } from "@here/harp-datasource-protocol";
+import {
+    HorizontalAlignment,
+    HorizontalPlacement,
+    VerticalAlignment,
+    VerticalPlacement
+} from "@here/harp-text-canvas";
+import { expect } from "chai";
+
+import { TextStyleCache } from "../lib/text/TextStyleCache";
+import { Tile } from "../lib/Tile";
+
+describe("TextStyleCache", function() {
+    describe("createLayoutStyle", function() {
+        const tile = ({ mapView: { zoomLevel: 10, env: new MapEnv({}) } } as any) as Tile;
+        let textStyleCache: TextStyleCache;
+
+        function createLayoutStyle(placements: string) {
+            const technique = {
+                name: "labeled-icon",
+                renderOrder: 0,
+                placements
+            } as PoiTechnique;
+            return textStyleCache.createLayoutStyle(tile, technique);
+        }
+
+        beforeEach(function() {
+            textStyleCache = new TextStyleCache({});
+        });
+
+        it("parses placements", function() {
+            const layoutStyle = createLayoutStyle("tr,  BL , c");
+
+            expect(layoutStyle.placements).to.deep.equal([
+                { h: HorizontalPlacement.Right, v: VerticalPlacement.Top },
+                { h: HorizontalPlacement.Left, v: VerticalPlacement.Bottom },
+                { h: HorizontalPlacement.Center, v: VerticalPlacement.Center }
+            ]);
+            expect(layoutStyle.horizontalAlignment).to.equal(HorizontalAlignment.Left);
+            expect(layoutStyle.verticalAlignment).to.equal(VerticalAlignment.Above);
+        });
+
+        it("parses placement offsets", function() {
+            const layoutStyle = createLayoutStyle("TR 4 -4.5, L -4 0, C");
+
+            expect(layoutStyle.placements).to.deep.equal([
+                {
+                    h: HorizontalPlacement.Right,
+                    v: VerticalPlacement.Top,
+                    xOffset: 4,
+                    yOffset: -4.5
+                },
+                {
+                    h: HorizontalPlacement.Left,
+                    v: VerticalPlacement.Center,
+                    xOffset: -4,
+                    yOffset: 0
+                },
+                { h: HorizontalPlacement.Center, v: VerticalPlacement.Center }
+            ]);
+        });
+
+        it("ignores placements with invalid offsets", function() {
+            const layoutStyle = createLayoutStyle("TR 4, BL a 4, B 1 2 3, T");
+
+            expect(layoutStyle.placements).to.deep.equal([
+                { h: HorizontalPlacement.Center, v: VerticalPlacement.Top }
+            ]);
+        });
+    });
+});
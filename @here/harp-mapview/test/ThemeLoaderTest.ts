@@ -123,6 +123,10 @@ describe("ThemeLoader", function() {
                         {
                             url: "fonts://fira",
                             name: "fira"
+                        },
+                        {
+                            name: "noto",
+                            fonts: ["fonts://NotoSans.ttf", "fonts://NotoSansArabic.otf"]
                         }
                     ],
                     images: {
@@ -139,6 +143,10 @@ describe("ThemeLoader", function() {
             );
 
             assert.equal(r.fontCatalogs![0].url, "fonts://resolved!fira");
+            assert.deepEqual(r.fontCatalogs![1].fonts, [
+                "fonts://resolved!NotoSans.ttf",
+                "fonts://resolved!NotoSansArabic.otf"
+            ]);
             assert.equal(r.images!.icons_day_maki.url, "icons://resolved!maki_icons.png");
             assert.equal(r.images!.icons_day_maki.atlas, "icons://resolved!icons/maki_icons.json");
         });
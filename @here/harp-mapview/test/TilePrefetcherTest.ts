@@ -0,0 +1,97 @@
+/*
+ * Copyright (C) 2017-2020 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+//    Mocha discourages using arrow functions, see https://mochajs.org/#arrow-functions
+
+import { GeoCoordinates, mercatorProjection } from "@here/harp-geoutils";
+import { expect } from "chai";
+import * as sinon from "sinon";
+import * as THREE from "three";
+
+import { createDefaultClipPlanesEvaluator } from "../lib/ClipPlanesEvaluator";
+import { MapView } from "../lib/MapView";
+import { TilePrefetcher } from "../lib/TilePrefetcher";
+import { MapViewUtils } from "../lib/Utils";
+import { VisibleTileSet } from "../lib/VisibleTileSet";
+
+describe("TilePrefetcher", function() {
+    const target = new GeoCoordinates(52.52, 13.405);
+    let mapView: MapView;
+    let prefetchTiles: sinon.SinonStub;
+    let visibleTileSet: VisibleTileSet;
+    let prefetcher: TilePrefetcher;
+
+    function prefetchedCamera(): THREE.PerspectiveCamera {
+        return prefetchTiles.lastCall.args[0];
+    }
+
+    function prefetchedZoomLevel(): number {
+        return prefetchTiles.lastCall.args[1];
+    }
+
+    beforeEach(function() {
+        const camera = new THREE.PerspectiveCamera(60, 1, 1, 10000);
+        mercatorProjection.projectPoint(target, camera.position);
+        camera.position.z = 1000;
+        camera.updateMatrixWorld(true);
+        mapView = ({
+            projection: mercatorProjection,
+            camera,
+            zoomLevel: 14,
+            minZoomLevel: 1,
+            maxZoomLevel: 20,
+            targetDistance: 1000,
+            tilt: 0,
+            heading: 0,
+            focalLength: 935.3,
+            clipPlanesEvaluator: createDefaultClipPlanesEvaluator(),
+            update: sinon.stub()
+        } as any) as MapView;
+        prefetchTiles = sinon.stub().returns(1);
+        visibleTileSet = ({ prefetchTiles } as any) as VisibleTileSet;
+        prefetcher = new TilePrefetcher(mapView, { lookAheadTime: 100 });
+    });
+
+    it("does not prefetch tiles without camera movement", function() {
+        expect(prefetcher.update(visibleTileSet, [], new THREE.Vector3())).to.equal(0);
+        expect(prefetchTiles.called).to.be.false;
+    });
+
+    it("prefetches tiles along the camera velocity", function() {
+        const numTiles = prefetcher.update(visibleTileSet, [], new THREE.Vector3(2, 1, 0));
+
+        expect(numTiles).to.equal(1);
+        expect(prefetchedCamera().position.x).to.be.closeTo(mapView.camera.position.x + 200, 1e-6);
+        expect(prefetchedCamera().position.y).to.be.closeTo(mapView.camera.position.y + 100, 1e-6);
+        expect(prefetchedZoomLevel()).to.equal(14);
+    });
+
+    it("prefetches tiles of the predicted zoom level", function() {
+        prefetcher.update(visibleTileSet, [], new THREE.Vector3(0, 0, -5));
+
+        expect(prefetchedCamera().position.z).to.be.closeTo(500, 1e-6);
+        expect(prefetchedZoomLevel()).to.equal(15);
+    });
+
+    it("prefetches tiles at the camera destinations", function() {
+        const destination = { target: new GeoCoordinates(48.85, 2.35), distance: 5000 };
+        prefetcher.addDestination(destination);
+
+        expect(prefetcher.update(visibleTileSet, [], new THREE.Vector3())).to.equal(1);
+        const expectedPosition = mercatorProjection.projectPoint(destination.target);
+        expect(prefetchedCamera().position.x).to.be.closeTo(expectedPosition.x, 1e-6);
+        expect(prefetchedCamera().position.y).to.be.closeTo(expectedPosition.y, 1e-6);
+        expect(prefetchedCamera().position.z).to.be.closeTo(5000, 1e-6);
+        expect(prefetchedZoomLevel()).to.equal(
+            Math.floor(MapViewUtils.calculateZoomLevelFromDistance(mapView, 5000))
+        );
+
+        prefetcher.removeDestination(destination);
+        prefetchTiles.resetHistory();
+        prefetcher.update(visibleTileSet, [], new THREE.Vector3());
+        expect(prefetchTiles.called).to.be.false;
+    });
+});
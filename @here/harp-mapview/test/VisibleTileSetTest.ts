@@ -25,6 +25,7 @@ import { DataSource, DataSourceOptions } from "../lib/DataSource";
 import { FrustumIntersection, TileKeyEntry } from "../lib/FrustumIntersection";
 import { TileGeometryCreator } from "../lib/geometry/TileGeometryCreator";
 import { TileGeometryManager } from "../lib/geometry/TileGeometryManager";
+import { TileLoaderState } from "../lib/ITileLoader";
 import { MapView, TileTaskGroups } from "../lib/MapView";
 import { Tile } from "../lib/Tile";
 import { TileOffsetUtils } from "../lib/Utils";
@@ -40,7 +41,7 @@ import { FakeOmvDataSource } from "./FakeOmvDataSource";
 
 class FakeMapView {
     taskQueue = new TaskQueue({
-        groups: [TileTaskGroups.CREATE, TileTaskGroups.FETCH_AND_DECODE]
+        groups: [TileTaskGroups.CREATE, TileTaskGroups.FETCH_AND_DECODE, TileTaskGroups.PREFETCH]
     });
 
     constructor(readonly projection: Projection) {}
@@ -67,6 +68,7 @@ interface FixtureOptions {
     projection?: Projection;
     quadTreeSearchDistanceUp?: number;
     quadTreeSearchDistanceDown?: number;
+    maxPrefetchedTiles?: number;
 }
 
 class Fixture {
@@ -108,7 +110,8 @@ class Fixture {
             resourceComputationType: ResourceComputationType.EstimationInMb,
             quadTreeSearchDistanceUp: params.quadTreeSearchDistanceUp ?? 3,
             quadTreeSearchDistanceDown: params.quadTreeSearchDistanceDown ?? 2,
-            maxTilesPerFrame: 0
+            maxTilesPerFrame: 0,
+            maxPrefetchedTiles: params.maxPrefetchedTiles
         };
         this.vts = new VisibleTileSet(
             this.frustumIntersection,
@@ -864,4 +867,140 @@ describe("VisibleTileSet", function() {
         assert.isUndefined(cachedTile1);
         assert.notEqual(cachedTile0, undefined);
     });
+
+    describe("#prefetchTiles", function() {
+        function createPredictedCamera(offsetX: number) {
+            const camera = fixture.camera.clone();
+            camera.position.x += offsetX;
+            camera.updateMatrixWorld(true);
+            return camera;
+        }
+
+        it("prefetches tiles visible from another camera", function() {
+            setupBerlinCenterCameraFromSamples();
+            const taskQueue = fixture.mapView.taskQueue;
+
+            const numTiles = fixture.vts.prefetchTiles(createPredictedCamera(2000), 14, fixture.ds);
+
+            expect(numTiles).to.be.greaterThan(0);
+            expect(fixture.vts.getNumberOfPrefetchedTiles()).to.equal(numTiles);
+            expect(taskQueue.numItemsLeft(TileTaskGroups.PREFETCH)).to.equal(numTiles);
+            expect(taskQueue.numItemsLeft(TileTaskGroups.FETCH_AND_DECODE)).to.equal(0);
+
+            // Tiles which are already prefetched are not loaded again.
+            expect(fixture.vts.prefetchTiles(createPredictedCamera(2000), 14, fixture.ds)).to.equal(
+                0
+            );
+            expect(taskQueue.numItemsLeft(TileTaskGroups.PREFETCH)).to.equal(numTiles);
+        });
+
+        it("skips visible tiles and uses prefetched tiles when they become visible", function() {
+            setupBerlinCenterCameraFromSamples();
+            const taskQueue = fixture.mapView.taskQueue;
+
+            expect(fixture.vts.prefetchTiles(createPredictedCamera(0), 14, fixture.ds)).to.equal(2);
+            const prefetchedTiles = Array.from(fixture.vts["m_prefetchedTiles"].values());
+            const visibleTiles = updateRenderList(15, 14).tileList[0].visibleTiles;
+
+            expect(visibleTiles).to.have.members(prefetchedTiles);
+            expect(fixture.vts.getNumberOfPrefetchedTiles()).to.equal(0);
+
+            // The prefetch tasks expire, the tiles are loaded as visible tiles instead.
+            taskQueue.update();
+            expect(taskQueue.numItemsLeft(TileTaskGroups.PREFETCH)).to.equal(0);
+            expect(taskQueue.numItemsLeft(TileTaskGroups.FETCH_AND_DECODE)).to.equal(2);
+
+            // Visible tiles are not prefetched.
+            expect(fixture.vts.prefetchTiles(createPredictedCamera(0), 14, fixture.ds)).to.equal(0);
+        });
+
+        it("does not load prefetched tiles again when they become visible", function() {
+            setupBerlinCenterCameraFromSamples();
+            const taskQueue = fixture.mapView.taskQueue;
+            fixture.vts.prefetchTiles(createPredictedCamera(0), 14, fixture.ds);
+
+            taskQueue.processNext(TileTaskGroups.PREFETCH, undefined, 2);
+            // The prefetch tasks started loading the tiles.
+            fixture.vts["m_prefetchedTiles"].forEach((tile: Tile) => {
+                tile.tileLoader!.state = TileLoaderState.Loading;
+            });
+            updateRenderList(15, 14);
+
+            expect(taskQueue.numItemsLeft(TileTaskGroups.FETCH_AND_DECODE)).to.equal(0);
+        });
+
+        it("disposes the least recently prefetched tiles", function() {
+            fixture = new Fixture({ maxPrefetchedTiles: 3 });
+            setupBerlinCenterCameraFromSamples();
+
+            fixture.vts.prefetchTiles(createPredictedCamera(0), 14, fixture.ds);
+            const numTiles = fixture.vts.prefetchTiles(
+                createPredictedCamera(10000),
+                14,
+                fixture.ds
+            );
+
+            expect(numTiles).to.be.greaterThan(1);
+            expect(fixture.vts.getNumberOfPrefetchedTiles()).to.equal(3);
+        });
+
+        it("disposes prefetched tiles when clearing the cache", function() {
+            setupBerlinCenterCameraFromSamples();
+            fixture.vts.prefetchTiles(createPredictedCamera(0), 14, fixture.ds);
+
+            fixture.vts.clearTileCache(fixture.ds[0]);
+
+            expect(fixture.vts.getNumberOfPrefetchedTiles()).to.equal(0);
+        });
+    });
+
+    describe("time dimension", function() {
+        beforeEach(function() {
+            fixture = new Fixture(
+                { quadTreeSearchDistanceDown: 0, quadTreeSearchDistanceUp: 0 },
+                { name: "omv", time: 1000, timeSteps: [1000, 2000, 3000] }
+            );
+            setupBerlinCenterCameraFromSamples();
+        });
+
+        it("renders the tiles of the previous time until the tiles of the new time load", function() {
+            const dataSource = fixture.ds[0];
+            const previousTiles = updateRenderList(15, 14).tileList[0].visibleTiles;
+            previousTiles.forEach(tile => tile.forceHasGeometry(true));
+
+            dataSource.time = 2000;
+            const { visibleTiles, renderedTiles } = updateRenderList(15, 14).tileList[0];
+
+            expect(visibleTiles).to.have.lengthOf(2);
+            visibleTiles.forEach(tile => expect(tile.time).to.equal(2000));
+            expect(Array.from(renderedTiles.values())).to.have.members(previousTiles);
+            expect(
+                fixture.vts.getCachedTile(dataSource, previousTiles[0].tileKey, 0, 0, 1000)
+            ).to.equal(previousTiles[0]);
+        });
+
+        it("prefetches the visible tiles for the neighboring time steps", function() {
+            const dataSource = fixture.ds[0];
+            dataSource.time = 2000;
+            updateRenderList(15, 14);
+
+            expect(fixture.vts.prefetchTimeSteps()).to.equal(4);
+            expect(fixture.mapView.taskQueue.numItemsLeft(TileTaskGroups.PREFETCH)).to.equal(4);
+            const prefetchedTiles: Tile[] = Array.from(fixture.vts["m_prefetchedTiles"].values());
+            expect(prefetchedTiles.map(tile => tile.time)).to.have.members([
+                1000,
+                1000,
+                3000,
+                3000
+            ]);
+            expect(fixture.vts.prefetchTimeSteps()).to.equal(0);
+
+            dataSource.time = 3000;
+            const visibleTiles = updateRenderList(15, 14).tileList[0].visibleTiles;
+
+            expect(visibleTiles).to.have.members(
+                prefetchedTiles.filter(tile => tile.time === 3000)
+            );
+        });
+    });
 });
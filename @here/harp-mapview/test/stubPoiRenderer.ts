@@ -48,7 +48,7 @@ export function stubPoiRenderer(
             const bbox = new Math2D.Box();
             PoiRenderer.computeIconScreenBox(poiInfo, screenPosition, scale, env, bbox);
             if (allocateScreenSpace) {
-                screenCollisions.allocate(bbox);
+                screenCollisions.allocate(bbox, poiInfo.textElement.collisionGroup);
             }
             const screenPosCopy = screenPosition.toArray();
             renderPoiSpy(poiInfo, screenPosCopy, opacity);
@@ -17,6 +17,7 @@ export * from "./lib/CopyMaterial";
 export * from "./lib/DisplacementFeature";
 export * from "./lib/EdgeMaterial";
 export * from "./lib/GroundAtmosphereMaterial";
+export * from "./lib/HeatmapMaterial";
 export * from "./lib/HighPrecisionLineMaterial";
 export * from "./lib/HighPrecisionPointMaterial";
 export * from "./lib/IconMaterial";
@@ -24,6 +25,7 @@ export * from "./lib/LuminosityHighPassShader";
 export * from "./lib/MapMeshMaterialsDefs";
 export * from "./lib/MapMeshMaterials";
 export * from "./lib/MSAAMaterial";
+export * from "./lib/RasterTileMaterial";
 export * from "./lib/RawShaderMaterial";
 export * from "./lib/SepiaShader";
 export * from "./lib/SkyAtmosphereMaterial";
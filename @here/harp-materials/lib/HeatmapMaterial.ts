@@ -0,0 +1,227 @@
+/*
+ * Copyright (C) 2017-2020 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as THREE from "three";
+
+const accumulationVertexShader: string = `
+attribute float weight;
+
+uniform float radius;
+
+varying float vWeight;
+
+void main() {
+    vWeight = weight;
+    gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+    gl_PointSize = radius * 2.0;
+}
+`;
+
+const accumulationFragmentShader: string = `
+#define GAUSS_COEF 0.3989422804014327
+
+uniform float intensity;
+
+varying float vWeight;
+
+void main() {
+    vec2 coords = gl_PointCoord.xy * 2.0 - vec2(1.0);
+    float distanceSq = dot(coords, coords);
+    if (distanceSq > 1.0) {
+        discard;
+    }
+    // Gaussian kernel with a standard deviation of a third of the radius.
+    float density = vWeight * intensity * GAUSS_COEF * exp(-4.5 * distanceSq);
+    gl_FragColor = vec4(density, 0.0, 0.0, 1.0);
+}`;
+
+const colorizeVertexShader: string = `
+varying vec2 vUv;
+
+void main() {
+    vUv = uv;
+    gl_Position = vec4(position.xy, 0.0, 1.0);
+}
+`;
+
+const colorizeFragmentShader: string = `
+uniform sampler2D densityTexture;
+uniform sampler2D colorRamp;
+uniform float opacity;
+
+varying vec2 vUv;
+
+void main() {
+    float density = texture2D(densityTexture, vUv).r;
+    if (density <= 0.0) {
+        discard;
+    }
+    vec4 color = texture2D(colorRamp, vec2(clamp(density, 0.0, 1.0), 0.5));
+    gl_FragColor = vec4(color.rgb, color.a * opacity);
+}`;
+
+/**
+ * Parameters used when constructing a new {@link HeatmapMaterial}.
+ */
+export interface HeatmapMaterialParameters extends THREE.ShaderMaterialParameters {
+    /**
+     * Radius of the influence of a point in pixels.
+     */
+    radius?: number;
+
+    /**
+     * Factor the accumulated density is multiplied with.
+     */
+    intensity?: number;
+
+    /**
+     * Opacity of the colorized heatmap.
+     */
+    heatmapOpacity?: number;
+
+    /**
+     * Texture mapping the densities in the range `[0, 1]` to colors.
+     */
+    colorRamp?: THREE.Texture;
+}
+
+/**
+ * Material accumulating the density of weighted points into a density buffer.
+ *
+ * @remarks
+ * Each point adds its weight, scaled by a gaussian kernel, to the red channel of the render
+ * target. The accumulated density is turned into colors by a {@link HeatmapColorizeMaterial}
+ * using the {@link HeatmapMaterial.colorRamp} and {@link HeatmapMaterial.heatmapOpacity} of this
+ * material.
+ */
+export class HeatmapMaterial extends THREE.ShaderMaterial {
+    static readonly DEFAULT_RADIUS = 30;
+    static readonly DEFAULT_INTENSITY = 1;
+
+    /**
+     * Texture mapping the densities in the range `[0, 1]` to colors.
+     */
+    colorRamp?: THREE.Texture;
+
+    /**
+     * Opacity of the colorized heatmap.
+     */
+    heatmapOpacity: number;
+
+    /**
+     * Constructs a new `HeatmapMaterial`.
+     *
+     * @param parameters - The constructor's parameters.
+     */
+    constructor(parameters: HeatmapMaterialParameters = {}) {
+        const { radius, intensity, heatmapOpacity, colorRamp, ...shaderParams } = parameters;
+        shaderParams.name = "HeatmapMaterial";
+        shaderParams.vertexShader = accumulationVertexShader;
+        shaderParams.fragmentShader = accumulationFragmentShader;
+        shaderParams.uniforms = {
+            radius: new THREE.Uniform(HeatmapMaterial.DEFAULT_RADIUS),
+            intensity: new THREE.Uniform(HeatmapMaterial.DEFAULT_INTENSITY)
+        };
+        shaderParams.depthTest = false;
+        shaderParams.depthWrite = false;
+        shaderParams.transparent = true;
+        shaderParams.blending = THREE.CustomBlending;
+        shaderParams.blendEquation = THREE.AddEquation;
+        shaderParams.blendSrc = THREE.OneFactor;
+        shaderParams.blendDst = THREE.OneFactor;
+
+        super(shaderParams);
+
+        this.type = "HeatmapMaterial";
+
+        if (radius !== undefined) {
+            this.radius = radius;
+        }
+        if (intensity !== undefined) {
+            this.intensity = intensity;
+        }
+        this.heatmapOpacity = heatmapOpacity ?? 1;
+        this.colorRamp = colorRamp;
+    }
+
+    /**
+     * Gets the radius of the influence of a point in pixels.
+     */
+    get radius(): number {
+        return this.uniforms.radius.value;
+    }
+
+    /**
+     * Sets the radius of the influence of a point in pixels.
+     */
+    set radius(radius: number) {
+        this.uniforms.radius.value = radius;
+    }
+
+    /**
+     * Gets the factor the accumulated density is multiplied with.
+     */
+    get intensity(): number {
+        return this.uniforms.intensity.value;
+    }
+
+    /**
+     * Sets the factor the accumulated density is multiplied with.
+     */
+    set intensity(intensity: number) {
+        this.uniforms.intensity.value = intensity;
+    }
+}
+
+/**
+ * Material drawing a screen filling quad, which maps the densities accumulated by a
+ * {@link HeatmapMaterial} to colors.
+ */
+export class HeatmapColorizeMaterial extends THREE.ShaderMaterial {
+    /**
+     * Constructs a new `HeatmapColorizeMaterial`.
+     *
+     * @param parameters - The constructor's parameters.
+     */
+    constructor(parameters: THREE.ShaderMaterialParameters = {}) {
+        super({
+            ...parameters,
+            name: "HeatmapColorizeMaterial",
+            vertexShader: colorizeVertexShader,
+            fragmentShader: colorizeFragmentShader,
+            uniforms: {
+                densityTexture: new THREE.Uniform(null),
+                colorRamp: new THREE.Uniform(null),
+                opacity: new THREE.Uniform(1.0)
+            },
+            depthTest: false,
+            depthWrite: false,
+            transparent: true
+        });
+        this.type = "HeatmapColorizeMaterial";
+    }
+
+    /**
+     * Sets the texture containing the accumulated densities.
+     */
+    set densityTexture(texture: THREE.Texture | null) {
+        this.uniforms.densityTexture.value = texture;
+    }
+
+    /**
+     * Sets the texture mapping the densities to colors.
+     */
+    set colorRamp(texture: THREE.Texture | null) {
+        this.uniforms.colorRamp.value = texture;
+    }
+
+    /**
+     * Sets the opacity of the heatmap.
+     */
+    set heatmapOpacity(opacity: number) {
+        this.uniforms.opacity.value = opacity;
+    }
+}
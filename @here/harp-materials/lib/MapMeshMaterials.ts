@@ -4,6 +4,7 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
+import { PatternAnchor } from "@here/harp-datasource-protocol/lib/TechniqueParams";
 import { ViewRanges } from "@here/harp-datasource-protocol/lib/ViewRanges";
 import { applyMixinsWithoutProperties, assert, chainCallbacks } from "@here/harp-utils";
 import * as THREE from "three";
@@ -12,6 +13,7 @@ import { DisplacementFeature, DisplacementFeatureParameters } from "./Displaceme
 import { ExtrusionFeatureDefs } from "./MapMeshMaterialsDefs";
 import extrusionShaderChunk from "./ShaderChunks/ExtrusionChunks";
 import fadingShaderChunk from "./ShaderChunks/FadingChunks";
+import patternShaderChunk from "./ShaderChunks/PatternChunks";
 import { simpleLightingShadowChunk } from "./ShaderChunks/ShadowChunks";
 import { disableBlending, enableBlending, insertShaderInclude, setShaderDefine } from "./Utils";
 
@@ -72,6 +74,21 @@ export interface ExtrusionFeatureParameters {
     zFightingWorkaround?: boolean;
 }
 
+/**
+ * Parameters used when constructing a new implementor of {@link PatternFeature}.
+ */
+export interface PatternFeatureParameters {
+    /**
+     * Texture holding the pattern repeated over the surface.
+     */
+    patternMap?: THREE.Texture | null;
+
+    /**
+     * Defines what the pattern is anchored to, the default is `"world"`.
+     */
+    patternAnchor?: PatternAnchor;
+}
+
 /**
  * Used internally.
  *
@@ -242,6 +259,55 @@ export interface ExtrusionFeature extends HiddenThreeJSMaterialProperties, Mixin
     extrusionRatio?: number;
 }
 
+/**
+ * Base interface for all objects that repeat a pattern image over their surface.
+ *
+ * @remarks
+ * The pattern coordinates are computed in the shaders, so the geometry needs no UVs. The
+ * implementation of the actual PatternFeature is done with the help of the mixin class
+ * {@link PatternFeatureMixin} and a set of supporting functions in the namespace of the same name.
+ */
+export interface PatternFeature extends HiddenThreeJSMaterialProperties, MixinShaderProperties {
+    /**
+     * Texture holding the pattern, `null` disables the pattern. The texture rows are expected
+     * from top to bottom, i.e. `flipY` set to `false`.
+     */
+    patternMap?: THREE.Texture | null;
+
+    /**
+     * Defines what the pattern is anchored to. A `"world"` pattern repeats every
+     * [[patternSize]] units of the local space of the object, a `"screen"` pattern every
+     * [[patternSize]] pixels of the screen.
+     */
+    patternAnchor?: PatternAnchor;
+
+    /**
+     * Size of one repetition of the pattern, in local units or in pixels depending on
+     * [[patternAnchor]].
+     */
+    patternSize?: THREE.Vector2;
+
+    /**
+     * Offset added to the local positions before computing the pattern coordinates of a
+     * `"world"` pattern. Used to keep the pattern continuous across tiles.
+     */
+    patternOffset?: THREE.Vector2;
+
+    /**
+     * Area of the pattern in the texture, as `(u, v, width, height)` in texture coordinates.
+     */
+    patternRect?: THREE.Vector4;
+}
+
+/**
+ * Determines whether a given material supports pattern maps.
+ * @param material The material to check.
+ * @returns Whether the given material supports pattern maps.
+ */
+export function hasPatternFeature(material: any): material is PatternFeature {
+    return "patternMap" in material;
+}
+
 /**
  * Determines whether a given material supports extrusion.
  * @param material The material to check.
@@ -965,6 +1031,253 @@ export class ExtrusionFeatureMixin implements ExtrusionFeature {
     }
 }
 
+/**
+ * Namespace with support functions for implementors of `PatternFeature`.
+ */
+export namespace PatternFeature {
+    export const DEFAULT_PATTERN_ANCHOR: PatternAnchor = "world";
+
+    /**
+     * Checks if feature is enabled (pattern map defined).
+     *
+     * @param patternMaterial - PatternFeature
+     */
+    export function isEnabled(patternMaterial: PatternFeature) {
+        return patternMaterial.patternMap !== undefined && patternMaterial.patternMap !== null;
+    }
+
+    /**
+     * Patch the THREE.ShaderChunk on first call with some extra shader chunks.
+     */
+    export function patchGlobalShaderChunks() {
+        if (THREE.ShaderChunk.pattern_pars_vertex === undefined) {
+            Object.assign(THREE.ShaderChunk, patternShaderChunk);
+        }
+    }
+
+    /**
+     * Update the internals of the `PatternFeature` depending on the value of [[patternMap]] and
+     * [[patternAnchor]].
+     *
+     * @param patternMaterial - PatternFeature
+     */
+    export function updatePatternFeature(patternMaterial: PatternFeature): void {
+        assert(patternMaterial.shaderDefines !== undefined);
+        assert(patternMaterial.shaderUniforms !== undefined);
+
+        // Enabling or disabling the pattern, or changing its anchor, re-compiles the material to
+        // add or remove the shader chunks.
+        const usePattern = isEnabled(patternMaterial);
+        let needsUpdate = setShaderDefine(
+            patternMaterial.shaderDefines,
+            "PATTERN_MATERIAL",
+            usePattern
+        );
+        needsUpdate =
+            setShaderDefine(
+                patternMaterial.shaderDefines,
+                "PATTERN_SCREEN_ANCHOR",
+                usePattern && patternMaterial.patternAnchor === "screen"
+            ) || needsUpdate;
+        if (needsUpdate) {
+            patternMaterial.needsUpdate = true;
+        }
+
+        if (usePattern) {
+            const texture = patternMaterial.patternMap!;
+            texture.needsUpdate = true;
+            patternMaterial.shaderUniforms!.patternMap.value = texture;
+        } else if (needsUpdate) {
+            patternMaterial.shaderUniforms!.patternMap.value = emptyTexture;
+        }
+    }
+
+    /**
+     * This function should be called on implementors of PatternFeature in the `onBeforeCompile`
+     * callback of that material. It adds the required code to the shaders and declares the new
+     * uniforms that control the pattern.
+     *
+     * @param patternMaterial - Material to add uniforms to.
+     * @param shader - [[THREE.WebGLShader]] containing the vertex and fragment shaders to add the
+     *                  special includes to.
+     */
+    export function onBeforeCompile(patternMaterial: PatternFeature, shader: THREE.Shader) {
+        if (!isEnabled(patternMaterial)) {
+            return;
+        }
+        assert(patternMaterial.shaderUniforms !== undefined);
+
+        linkMixinWithShader(patternMaterial, shader);
+
+        shader.vertexShader = insertShaderInclude(
+            shader.vertexShader,
+            "fog_pars_vertex",
+            "pattern_pars_vertex"
+        );
+
+        shader.vertexShader = insertShaderInclude(
+            shader.vertexShader,
+            "fog_vertex",
+            "pattern_vertex",
+            true
+        );
+
+        shader.fragmentShader = insertShaderInclude(
+            shader.fragmentShader,
+            "fog_pars_fragment",
+            "pattern_pars_fragment"
+        );
+
+        // The pattern is applied to the diffuse color, so that it is lit like the rest of the
+        // surface.
+        shader.fragmentShader = insertShaderInclude(
+            shader.fragmentShader,
+            "map_fragment",
+            "pattern_fragment",
+            true
+        );
+    }
+}
+
+/**
+ * Mixin class for extended THREE materials. Adds new properties required for [[patternMap]],
+ * [[patternAnchor]], [[patternSize]], [[patternOffset]] and [[patternRect]].
+ */
+export class PatternFeatureMixin implements PatternFeature {
+    needsUpdate?: boolean;
+    uniformsNeedUpdate?: boolean;
+    defines?: any;
+    shaderDefines?: any;
+    shaderUniforms?: UniformsType;
+    onBeforeCompile?: CompileCallback;
+    private m_patternMap: THREE.Texture | null = null;
+    private m_patternAnchor: PatternAnchor = PatternFeature.DEFAULT_PATTERN_ANCHOR;
+
+    /**
+     * @see [[PatternFeature#patternMap]]
+     */
+    protected getPatternMap(): THREE.Texture | null {
+        // Mixed in properties are not initialized, see applyMixinsWithoutProperties().
+        return this.m_patternMap ?? null;
+    }
+
+    /**
+     * @see [[PatternFeature#patternMap]]
+     */
+    protected setPatternMap(map: THREE.Texture | null) {
+        if (map !== this.getPatternMap()) {
+            this.m_patternMap = map;
+            PatternFeature.updatePatternFeature(this);
+        }
+    }
+
+    /**
+     * @see [[PatternFeature#patternAnchor]]
+     */
+    protected getPatternAnchor(): PatternAnchor {
+        return this.m_patternAnchor ?? PatternFeature.DEFAULT_PATTERN_ANCHOR;
+    }
+
+    /**
+     * @see [[PatternFeature#patternAnchor]]
+     */
+    protected setPatternAnchor(anchor: PatternAnchor) {
+        if (anchor !== this.getPatternAnchor()) {
+            this.m_patternAnchor = anchor;
+            PatternFeature.updatePatternFeature(this);
+        }
+    }
+
+    /**
+     * The mixin class should call this method to register the pattern properties.
+     */
+    protected addPatternProperties(): void {
+        Object.defineProperty(this, "patternMap", {
+            get: () => {
+                return this.getPatternMap();
+            },
+            set: val => {
+                this.setPatternMap(val);
+            }
+        });
+        Object.defineProperty(this, "patternAnchor", {
+            get: () => {
+                return this.getPatternAnchor();
+            },
+            set: val => {
+                this.setPatternAnchor(val);
+            }
+        });
+        // The vectors are stored in the uniforms directly, the setters copy the values.
+        for (const name of ["patternSize", "patternOffset", "patternRect"]) {
+            Object.defineProperty(this, name, {
+                get: () => {
+                    return this.shaderUniforms![name].value;
+                },
+                set: val => {
+                    this.shaderUniforms![name].value.copy(val);
+                }
+            });
+        }
+    }
+
+    /**
+     * Apply the pattern values from the parameters to the respective properties.
+     */
+    protected applyPatternParameters(params?: PatternFeatureParameters) {
+        // Prepare maps for holding uniforms and defines references from the actual material.
+        linkMixinWithMaterial(this, this);
+
+        assert(this.shaderDefines !== undefined);
+        assert(this.shaderUniforms !== undefined);
+
+        // Create uniforms with default values, this ensures they are always set created,
+        // so no need for checks in setters.
+        const uniforms = this.shaderUniforms!;
+        uniforms.patternMap = new THREE.Uniform(emptyTexture);
+        uniforms.patternSize = new THREE.Uniform(new THREE.Vector2(1, 1));
+        uniforms.patternOffset = new THREE.Uniform(new THREE.Vector2(0, 0));
+        uniforms.patternRect = new THREE.Uniform(new THREE.Vector4(0, 0, 1, 1));
+
+        // Apply initial parameter values.
+        if (params !== undefined) {
+            if (params.patternAnchor !== undefined) {
+                this.setPatternAnchor(params.patternAnchor);
+            }
+            if (params.patternMap !== undefined) {
+                this.setPatternMap(params.patternMap);
+            }
+        }
+
+        this.onBeforeCompile = chainCallbacks(this.onBeforeCompile, (shader: THREE.Shader) => {
+            PatternFeature.onBeforeCompile(this, shader);
+        });
+
+        this.needsUpdate = PatternFeature.isEnabled(this);
+    }
+
+    /**
+     * Copy the pattern values from other PatternFeature.
+     *
+     * @param source - The material to copy property values from.
+     */
+    protected copyPatternParameters(source: PatternFeature) {
+        this.setPatternAnchor(source.patternAnchor ?? PatternFeature.DEFAULT_PATTERN_ANCHOR);
+        this.setPatternMap(source.patternMap ?? null);
+        const uniforms = this.shaderUniforms!;
+        if (source.patternSize !== undefined) {
+            uniforms.patternSize.value.copy(source.patternSize);
+        }
+        if (source.patternOffset !== undefined) {
+            uniforms.patternOffset.value.copy(source.patternOffset);
+        }
+        if (source.patternRect !== undefined) {
+            uniforms.patternRect.value.copy(source.patternRect);
+        }
+        return this;
+    }
+}
+
 /**
  * Subclass of [[THREE.MeshBasicMaterial]]. Adds new properties required for [[fadeNear]] and
  * [[fadeFar]]. In addition to the new properties (which update their respective uniforms), it is
@@ -975,7 +1288,7 @@ export class ExtrusionFeatureMixin implements ExtrusionFeature {
  * @see [[Tile#addRenderHelper]]
  */
 export class MapMeshBasicMaterial extends THREE.MeshBasicMaterial
-    implements FadingFeature, ExtrusionFeature, DisplacementFeature {
+    implements FadingFeature, ExtrusionFeature, DisplacementFeature, PatternFeature {
     /**
      * Constructs a new `FadingMeshBasicMaterial`.
      *
@@ -985,7 +1298,8 @@ export class MapMeshBasicMaterial extends THREE.MeshBasicMaterial
         params?: THREE.MeshBasicMaterialParameters &
             FadingFeatureParameters &
             ExtrusionFeatureParameters &
-            DisplacementFeatureParameters
+            DisplacementFeatureParameters &
+            PatternFeatureParameters
     ) {
         super(params);
 
@@ -1001,6 +1315,11 @@ export class MapMeshBasicMaterial extends THREE.MeshBasicMaterial
 
         this.addDisplacementProperties();
         this.applyDisplacementParameters(params);
+
+        PatternFeature.patchGlobalShaderChunks();
+
+        this.addPatternProperties();
+        this.applyPatternParameters(params);
     }
 
     // overrides with THREE.js base classes are not recognized by tslint.
@@ -1014,6 +1333,7 @@ export class MapMeshBasicMaterial extends THREE.MeshBasicMaterial
         this.copyFadingParameters(source);
         this.copyExtrusionParameters(source);
         this.copyDisplacementParameters(source);
+        this.copyPatternParameters(source);
         return this;
     }
 
@@ -1061,6 +1381,46 @@ export class MapMeshBasicMaterial extends THREE.MeshBasicMaterial
         // to be overridden
     }
 
+    get patternMap(): THREE.Texture | null {
+        return null;
+    }
+
+    set patternMap(value: THREE.Texture | null) {
+        // to be overridden
+    }
+
+    get patternAnchor(): PatternAnchor {
+        return PatternFeature.DEFAULT_PATTERN_ANCHOR;
+    }
+
+    set patternAnchor(value: PatternAnchor) {
+        // to be overridden
+    }
+
+    get patternSize(): THREE.Vector2 {
+        return new THREE.Vector2();
+    }
+
+    set patternSize(value: THREE.Vector2) {
+        // to be overridden
+    }
+
+    get patternOffset(): THREE.Vector2 {
+        return new THREE.Vector2();
+    }
+
+    set patternOffset(value: THREE.Vector2) {
+        // to be overridden
+    }
+
+    get patternRect(): THREE.Vector4 {
+        return new THREE.Vector4();
+    }
+
+    set patternRect(value: THREE.Vector4) {
+        // to be overridden
+    }
+
     protected addFadingProperties(): void {
         // to be overridden
     }
@@ -1096,6 +1456,18 @@ export class MapMeshBasicMaterial extends THREE.MeshBasicMaterial
     protected copyDisplacementParameters(source: DisplacementFeature) {
         // to be overridden
     }
+
+    protected addPatternProperties(): void {
+        // to be overridden
+    }
+
+    protected applyPatternParameters(params?: PatternFeatureParameters) {
+        // to be overridden
+    }
+
+    protected copyPatternParameters(source: PatternFeature) {
+        // to be overridden
+    }
     // Mixin declarations end -----------------------------------------------------------
 }
 
@@ -1153,7 +1525,7 @@ export class MapMeshDepthMaterial extends THREE.MeshDepthMaterial implements Ext
  * @see [[Tile#addRenderHelper]]
  */
 export class MapMeshStandardMaterial extends THREE.MeshStandardMaterial
-    implements FadingFeature, ExtrusionFeature, DisplacementFeature {
+    implements FadingFeature, ExtrusionFeature, DisplacementFeature, PatternFeature {
     uniformsNeedUpdate?: boolean;
 
     /**
@@ -1165,7 +1537,8 @@ export class MapMeshStandardMaterial extends THREE.MeshStandardMaterial
         params?: THREE.MeshStandardMaterialParameters &
             FadingFeatureParameters &
             ExtrusionFeatureParameters &
-            ShadowFeatureParameters
+            ShadowFeatureParameters &
+            PatternFeatureParameters
     ) {
         super(params);
 
@@ -1188,6 +1561,12 @@ export class MapMeshStandardMaterial extends THREE.MeshStandardMaterial
                 );
             });
         }
+
+        // Added after the diffuse light removal above, which replaces the fragment shader.
+        PatternFeature.patchGlobalShaderChunks();
+
+        this.addPatternProperties();
+        this.applyPatternParameters(params);
     }
 
     // overrides with THREE.js base classes are not recognized by tslint.
@@ -1200,6 +1579,7 @@ export class MapMeshStandardMaterial extends THREE.MeshStandardMaterial
         super.copy(source);
         this.copyFadingParameters(source);
         this.copyExtrusionParameters(source);
+        this.copyPatternParameters(source);
         return this;
     }
 
@@ -1272,6 +1652,46 @@ export class MapMeshStandardMaterial extends THREE.MeshStandardMaterial
         // Stays empty.
     }
 
+    get patternMap(): THREE.Texture | null {
+        return null;
+    }
+
+    set patternMap(value: THREE.Texture | null) {
+        // to be overridden
+    }
+
+    get patternAnchor(): PatternAnchor {
+        return PatternFeature.DEFAULT_PATTERN_ANCHOR;
+    }
+
+    set patternAnchor(value: PatternAnchor) {
+        // to be overridden
+    }
+
+    get patternSize(): THREE.Vector2 {
+        return new THREE.Vector2();
+    }
+
+    set patternSize(value: THREE.Vector2) {
+        // to be overridden
+    }
+
+    get patternOffset(): THREE.Vector2 {
+        return new THREE.Vector2();
+    }
+
+    set patternOffset(value: THREE.Vector2) {
+        // to be overridden
+    }
+
+    get patternRect(): THREE.Vector4 {
+        return new THREE.Vector4();
+    }
+
+    set patternRect(value: THREE.Vector4) {
+        // to be overridden
+    }
+
     protected addFadingProperties(): void {
         // to be overridden
     }
@@ -1295,6 +1715,18 @@ export class MapMeshStandardMaterial extends THREE.MeshStandardMaterial
     protected copyExtrusionParameters(source: FadingFeature) {
         // to be overridden
     }
+
+    protected addPatternProperties(): void {
+        // to be overridden
+    }
+
+    protected applyPatternParameters(params?: PatternFeatureParameters) {
+        // to be overridden
+    }
+
+    protected copyPatternParameters(source: PatternFeature) {
+        // to be overridden
+    }
     // Mixin declarations end -----------------------------------------------------------
 }
 
@@ -1308,3 +1740,5 @@ applyMixinsWithoutProperties(MapMeshBasicMaterial, [ExtrusionFeatureMixin]);
 applyMixinsWithoutProperties(MapMeshStandardMaterial, [ExtrusionFeatureMixin]);
 applyMixinsWithoutProperties(MapMeshDepthMaterial, [ExtrusionFeatureMixin]);
 applyMixinsWithoutProperties(MapMeshBasicMaterial, [DisplacementFeatureMixin]);
+applyMixinsWithoutProperties(MapMeshBasicMaterial, [PatternFeatureMixin]);
+applyMixinsWithoutProperties(MapMeshStandardMaterial, [PatternFeatureMixin]);
@@ -0,0 +1,417 @@
+/*
+ * Copyright (C) 2017-2020 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as THREE from "three";
+
+import { ForcedBlending, getShaderMaterialDefine, setShaderMaterialDefine } from "./Utils";
+
+/**
+ * Modes to blend raster images with the layers rendered underneath.
+ */
+export enum RasterBlendMode {
+    /**
+     * The image is drawn over the layers underneath, using its alpha channel and opacity.
+     */
+    Normal = "normal",
+
+    /**
+     * The colors of the image are multiplied with the colors underneath, darkening them.
+     */
+    Multiply = "multiply",
+
+    /**
+     * The inverted colors of the image and the layers underneath are multiplied, lightening them.
+     */
+    Screen = "screen"
+}
+
+const BLEND_MODE_DEFINES: { [mode: string]: number } = {
+    [RasterBlendMode.Normal]: 0,
+    [RasterBlendMode.Multiply]: 1,
+    [RasterBlendMode.Screen]: 2
+};
+
+const vertexShader: string = `
+varying vec2 vUv;
+
+void main() {
+    vUv = uv;
+    gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+}
+`;
+
+const fragmentShader: string = `
+#define BLEND_MODE_MULTIPLY 1
+#define BLEND_MODE_SCREEN 2
+
+uniform sampler2D map;
+uniform sampler2D previousMap;
+uniform float crossFade;
+uniform float opacity;
+uniform float brightness;
+uniform float contrast;
+uniform float saturation;
+uniform float hueRotate;
+uniform float gamma;
+uniform float grayscale;
+
+varying vec2 vUv;
+
+const vec3 LUMINANCE = vec3(0.2126, 0.7152, 0.0722);
+const vec3 GRAY_AXIS = vec3(0.5773502691896258);
+
+void main() {
+    vec4 texel = texture2D(map, vUv);
+    if (crossFade < 1.0) {
+        texel = mix(texture2D(previousMap, vUv), texel, crossFade);
+    }
+    vec3 color = texel.rgb;
+
+    // Saturation and grayscale both interpolate towards the luminance of the color.
+    color = mix(vec3(dot(color, LUMINANCE)), color, saturation * (1.0 - grayscale));
+
+    // Rotate the color around the gray axis of the RGB cube (Rodrigues' rotation formula).
+    float cosHue = cos(hueRotate);
+    color = color * cosHue
+        + cross(GRAY_AXIS, color) * sin(hueRotate)
+        + GRAY_AXIS * dot(GRAY_AXIS, color) * (1.0 - cosHue);
+
+    color = (color - 0.5) * contrast + 0.5;
+    color = pow(clamp(color * brightness, 0.0, 1.0), vec3(1.0 / gamma));
+
+    float alpha = texel.a * opacity;
+#if BLEND_MODE == BLEND_MODE_MULTIPLY
+    // Blended as destination * source color, transparent parts leave the destination unchanged.
+    gl_FragColor = vec4(mix(vec3(1.0), color, alpha), alpha);
+#elif BLEND_MODE == BLEND_MODE_SCREEN
+    // Blended as source + destination * (1 - source color).
+    gl_FragColor = vec4(color * alpha, alpha);
+#else
+    gl_FragColor = vec4(color, alpha);
+#endif
+}`;
+
+/**
+ * Parameters used when constructing a new {@link RasterTileMaterial}.
+ */
+export interface RasterTileMaterialParameters extends THREE.ShaderMaterialParameters {
+    /**
+     * Texture of the raster tile.
+     */
+    map?: THREE.Texture | null;
+
+    /**
+     * Texture displayed before [[map]], e.g. the image of the previous time step of an animated
+     * layer, from which the material fades to [[map]] according to [[crossFade]].
+     */
+    previousMap?: THREE.Texture | null;
+
+    /**
+     * Progress of the fade from [[previousMap]] to [[map]] in the range `[0, 1]`.
+     * @defaultValue `1`
+     */
+    crossFade?: number;
+
+    /**
+     * Factor the colors are multiplied with, `0` turns the image black.
+     * @defaultValue `1`
+     */
+    brightness?: number;
+
+    /**
+     * Factor scaling the distance of the colors to middle gray, `0` turns the image gray.
+     * @defaultValue `1`
+     */
+    contrast?: number;
+
+    /**
+     * Factor scaling the distance of the colors to their luminance, `0` removes all colors,
+     * values above `1` intensify them.
+     * @defaultValue `1`
+     */
+    saturation?: number;
+
+    /**
+     * Angle in degrees by which the hue of the colors is rotated.
+     * @defaultValue `0`
+     */
+    hueRotate?: number;
+
+    /**
+     * Gamma correction of the colors, values above `1` lighten the mid tones.
+     * @defaultValue `1`
+     */
+    gamma?: number;
+
+    /**
+     * Amount of conversion to grayscale in the range `[0, 1]`.
+     * @defaultValue `0`
+     */
+    grayscale?: number;
+
+    /**
+     * Mode to blend the image with the layers underneath.
+     * @defaultValue {@link RasterBlendMode.Normal}
+     */
+    blendMode?: RasterBlendMode;
+
+    /**
+     * Whether the alpha channel of the texture is blended with the layers underneath in
+     * {@link RasterBlendMode.Normal} mode, even if the material is fully opaque.
+     * @defaultValue `false`
+     */
+    textureTransparency?: boolean;
+}
+
+/**
+ * Material rendering raster tiles with color adjustments and blend modes.
+ *
+ * @remarks
+ * The color adjustments are applied in the order saturation and grayscale, hue rotation,
+ * contrast, brightness and gamma correction.
+ *
+ * Blending is managed by the material itself depending on {@link RasterTileMaterial.blendMode},
+ * [[opacity]] and {@link RasterTileMaterial.textureTransparency}, without enabling
+ * `transparent`, so that tiles are rendered in the order of their `renderOrder`.
+ */
+export class RasterTileMaterial extends THREE.ShaderMaterial implements ForcedBlending {
+    readonly forcedBlending: true;
+
+    // Not initialized here, the setters are already called by the constructor of the base class.
+    private m_opacity!: number;
+    private m_textureTransparency!: boolean;
+
+    /**
+     * Constructs a new `RasterTileMaterial`.
+     *
+     * @param parameters - The constructor's parameters.
+     */
+    constructor(parameters: RasterTileMaterialParameters = {}) {
+        const {
+            map,
+            previousMap,
+            crossFade,
+            opacity,
+            brightness,
+            contrast,
+            saturation,
+            hueRotate,
+            gamma,
+            grayscale,
+            blendMode,
+            textureTransparency,
+            ...shaderParams
+        } = parameters;
+        shaderParams.name = "RasterTileMaterial";
+        shaderParams.vertexShader = vertexShader;
+        shaderParams.fragmentShader = fragmentShader;
+        shaderParams.uniforms = {
+            map: new THREE.Uniform(map ?? null),
+            previousMap: new THREE.Uniform(previousMap ?? null),
+            crossFade: new THREE.Uniform(crossFade ?? 1.0),
+            opacity: new THREE.Uniform(1.0),
+            brightness: new THREE.Uniform(brightness ?? 1.0),
+            contrast: new THREE.Uniform(contrast ?? 1.0),
+            saturation: new THREE.Uniform(saturation ?? 1.0),
+            hueRotate: new THREE.Uniform(THREE.MathUtils.degToRad(hueRotate ?? 0)),
+            gamma: new THREE.Uniform(gamma ?? 1.0),
+            grayscale: new THREE.Uniform(grayscale ?? 0.0)
+        };
+        shaderParams.defines = { BLEND_MODE: BLEND_MODE_DEFINES[RasterBlendMode.Normal] };
+
+        super(shaderParams);
+
+        this.type = "RasterTileMaterial";
+        this.forcedBlending = true;
+        this.m_textureTransparency = textureTransparency === true;
+        this.m_opacity = opacity ?? 1;
+        this.uniforms.opacity.value = this.m_opacity;
+        this.blendMode = blendMode ?? RasterBlendMode.Normal;
+    }
+
+    /**
+     * Texture of the raster tile.
+     */
+    get map(): THREE.Texture | null {
+        return this.uniforms.map.value;
+    }
+
+    set map(map: THREE.Texture | null) {
+        this.uniforms.map.value = map;
+    }
+
+    /**
+     * Texture from which the material fades to [[map]].
+     */
+    get previousMap(): THREE.Texture | null {
+        return this.uniforms.previousMap.value;
+    }
+
+    set previousMap(previousMap: THREE.Texture | null) {
+        this.uniforms.previousMap.value = previousMap;
+    }
+
+    /**
+     * Progress of the fade from [[previousMap]] to [[map]] in the range `[0, 1]`, the
+     * [[previousMap]] is not displayed at `1`.
+     */
+    get crossFade(): number {
+        return this.uniforms.crossFade.value;
+    }
+
+    set crossFade(crossFade: number) {
+        this.uniforms.crossFade.value = crossFade;
+    }
+
+    /**
+     * Opacity of the raster tile.
+     */
+    get opacity(): number {
+        return this.m_opacity;
+    }
+
+    set opacity(opacity: number) {
+        this.m_opacity = opacity;
+        // Setting opacity before uniform being created requires late invalidation, which is done
+        // at the end of the c-tor.
+        if (this.uniforms?.opacity) {
+            this.uniforms.opacity.value = opacity;
+            this.updateBlending();
+        }
+    }
+
+    /**
+     * Factor the colors are multiplied with.
+     */
+    get brightness(): number {
+        return this.uniforms.brightness.value;
+    }
+
+    set brightness(brightness: number) {
+        this.uniforms.brightness.value = brightness;
+    }
+
+    /**
+     * Factor scaling the distance of the colors to middle gray.
+     */
+    get contrast(): number {
+        return this.uniforms.contrast.value;
+    }
+
+    set contrast(contrast: number) {
+        this.uniforms.contrast.value = contrast;
+    }
+
+    /**
+     * Factor scaling the distance of the colors to their luminance.
+     */
+    get saturation(): number {
+        return this.uniforms.saturation.value;
+    }
+
+    set saturation(saturation: number) {
+        this.uniforms.saturation.value = saturation;
+    }
+
+    /**
+     * Angle in degrees by which the hue of the colors is rotated.
+     */
+    get hueRotate(): number {
+        return THREE.MathUtils.radToDeg(this.uniforms.hueRotate.value);
+    }
+
+    set hueRotate(hueRotate: number) {
+        this.uniforms.hueRotate.value = THREE.MathUtils.degToRad(hueRotate);
+    }
+
+    /**
+     * Gamma correction of the colors.
+     */
+    get gamma(): number {
+        return this.uniforms.gamma.value;
+    }
+
+    set gamma(gamma: number) {
+        this.uniforms.gamma.value = gamma;
+    }
+
+    /**
+     * Amount of conversion to grayscale in the range `[0, 1]`.
+     */
+    get grayscale(): number {
+        return this.uniforms.grayscale.value;
+    }
+
+    set grayscale(grayscale: number) {
+        this.uniforms.grayscale.value = grayscale;
+    }
+
+    /**
+     * Mode to blend the image with the layers underneath.
+     */
+    get blendMode(): RasterBlendMode {
+        const define = getShaderMaterialDefine(this, "BLEND_MODE");
+        return (
+            (Object.keys(BLEND_MODE_DEFINES) as RasterBlendMode[]).find(
+                mode => BLEND_MODE_DEFINES[mode] === define
+            ) ?? RasterBlendMode.Normal
+        );
+    }
+
+    set blendMode(blendMode: RasterBlendMode) {
+        setShaderMaterialDefine(
+            this,
+            "BLEND_MODE",
+            BLEND_MODE_DEFINES[blendMode] ?? BLEND_MODE_DEFINES[RasterBlendMode.Normal]
+        );
+        this.updateBlending();
+    }
+
+    /**
+     * Whether the alpha channel of the texture is blended with the layers underneath in
+     * {@link RasterBlendMode.Normal} mode, even if the material is fully opaque.
+     */
+    get textureTransparency(): boolean {
+        return this.m_textureTransparency;
+    }
+
+    set textureTransparency(textureTransparency: boolean) {
+        this.m_textureTransparency = textureTransparency;
+        this.updateBlending();
+    }
+
+    private updateBlending() {
+        switch (this.blendMode) {
+            case RasterBlendMode.Multiply:
+                this.setCustomBlending(THREE.ZeroFactor, THREE.SrcColorFactor);
+                break;
+            case RasterBlendMode.Screen:
+                this.setCustomBlending(THREE.OneFactor, THREE.OneMinusSrcColorFactor);
+                break;
+            default:
+                if (this.m_opacity < 1 || this.m_textureTransparency) {
+                    this.setCustomBlending(THREE.SrcAlphaFactor, THREE.OneMinusSrcAlphaFactor);
+                    this.blendSrcAlpha = THREE.OneFactor;
+                    this.blendDstAlpha = THREE.OneMinusSrcAlphaFactor;
+                } else {
+                    this.blending = THREE.NormalBlending;
+                }
+        }
+    }
+
+    private setCustomBlending(
+        blendSrc: THREE.BlendingDstFactor,
+        blendDst: THREE.BlendingDstFactor
+    ) {
+        this.blending = THREE.CustomBlending;
+        this.blendEquation = THREE.AddEquation;
+        this.blendSrc = blendSrc;
+        this.blendDst = blendDst;
+        // Keep the alpha of the layers underneath.
+        this.blendSrcAlpha = THREE.ZeroFactor;
+        this.blendDstAlpha = THREE.OneFactor;
+    }
+}
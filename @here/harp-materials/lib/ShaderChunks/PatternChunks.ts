@@ -0,0 +1,49 @@
+/*
+ * Copyright (C) 2017-2020 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Shader chunks repeating a pattern image over a surface, see [[PatternFeature]].
+ *
+ * The pattern coordinates are computed from the vertex positions in the local space of the mesh
+ * (`"world"` anchor) or from the fragment position on the screen (`"screen"` anchor), so no UVs
+ * are needed in the geometry. `patternRect` selects the area of the pattern in the texture (e.g. an
+ * icon in a texture atlas), the texture rows are expected from top to bottom (no flipY).
+ **/
+
+export default {
+    pattern_pars_vertex: `
+#ifndef PATTERN_SCREEN_ANCHOR
+uniform vec2 patternSize;
+uniform vec2 patternOffset;
+varying vec2 vPatternUv;
+#endif
+`,
+
+    pattern_vertex: `
+#ifndef PATTERN_SCREEN_ANCHOR
+vPatternUv = (transformed.xy + patternOffset) / patternSize;
+#endif
+`,
+
+    pattern_pars_fragment: `
+uniform sampler2D patternMap;
+uniform vec4 patternRect;
+uniform vec2 patternSize;
+#ifndef PATTERN_SCREEN_ANCHOR
+varying vec2 vPatternUv;
+#endif
+`,
+
+    pattern_fragment: `
+#ifdef PATTERN_SCREEN_ANCHOR
+vec2 patternUv = fract(gl_FragCoord.xy / patternSize);
+#else
+vec2 patternUv = fract(vPatternUv);
+#endif
+patternUv.y = 1.0 - patternUv.y;
+diffuseColor *= texture2D(patternMap, patternRect.xy + patternUv * patternRect.zw);
+`
+};
@@ -199,6 +199,12 @@ uniform vec3 dashColor;
 #define DASHES_DIAMOND ${LineDashesModes.DASHES_DIAMOND}
 #endif
 
+#ifdef USE_PATTERN_MAP
+uniform sampler2D patternMap;
+uniform vec4 patternRect;
+uniform float patternAspect;
+#endif
+
 #ifdef USE_TILE_CLIP
 varying vec3 vPosition;
 #endif
@@ -301,6 +307,16 @@ void main() {
     #endif
     #endif
 
+    #ifdef USE_PATTERN_MAP
+    // Repeat the pattern along the line, scaled to the line width keeping its aspect ratio. The
+    // distance along the line is continuous over the segments, so the pattern continues at joins.
+    float patternLength = 2.0 * extrusionWidth * patternAspect;
+    vec2 patternUv = vec2(fract(vCoords.x * vRange.x / patternLength), 0.5 - vCoords.y * 0.5);
+    vec4 patternColor = texture2D(patternMap, patternRect.xy + patternUv * patternRect.zw);
+    outputDiffuse *= patternColor.rgb;
+    alpha *= patternColor.a;
+    #endif
+
     #ifdef USE_COLOR
     gl_FragColor = vec4( outputDiffuse * vColor, alpha );
     #else
@@ -405,6 +421,11 @@ export interface SolidLineMaterialParameters
      * How much to offset in world units.
      */
     offset?: number;
+
+    /**
+     * Texture holding the pattern repeated along the line, see [[SolidLineMaterial.patternMap]].
+     */
+    patternMap?: THREE.Texture | null;
 }
 
 /**
@@ -499,7 +520,10 @@ export class SolidLineMaterial extends RawShaderMaterial
                             )
                         ),
                         dashSize: new THREE.Uniform(SolidLineMaterial.DEFAULT_DASH_SIZE),
-                        gapSize: new THREE.Uniform(SolidLineMaterial.DEFAULT_GAP_SIZE)
+                        gapSize: new THREE.Uniform(SolidLineMaterial.DEFAULT_GAP_SIZE),
+                        patternMap: new THREE.Uniform(new THREE.Texture()),
+                        patternRect: new THREE.Uniform(new THREE.Vector4(0, 0, 1, 1)),
+                        patternAspect: new THREE.Uniform(1)
                     },
                     // We need the fog uniforms available when we use `fog` setter as the internal
                     // recompilation cannot add or remove uniforms.
@@ -590,6 +614,9 @@ export class SolidLineMaterial extends RawShaderMaterial
             if (params.fog !== undefined) {
                 this.fog = params.fog;
             }
+            if (params.patternMap !== undefined) {
+                this.patternMap = params.patternMap;
+            }
             this.offset = params.offset ?? 0;
 
             // ShaderMaterial overrides requires invalidation cause super c-tor may set this
@@ -854,6 +881,52 @@ export class SolidLineMaterial extends RawShaderMaterial
         this.uniforms.drawRange.value.y = value;
     }
 
+    /**
+     * Texture holding the pattern repeated along the line, `null` disables the pattern.
+     *
+     * @remarks
+     * The pattern is scaled to the width of the line keeping the aspect ratio of
+     * [[patternAspect]] and multiplied with the line color. The texture rows are expected from
+     * top to bottom, i.e. `flipY` set to `false`.
+     */
+    get patternMap(): THREE.Texture | null {
+        return getShaderMaterialDefine(this, "USE_PATTERN_MAP") === true
+            ? (this.uniforms.patternMap.value as THREE.Texture)
+            : null;
+    }
+
+    set patternMap(map: THREE.Texture | null) {
+        if (map !== null) {
+            this.uniforms.patternMap.value = map;
+            map.needsUpdate = true;
+        }
+        setShaderMaterialDefine(this, "USE_PATTERN_MAP", map !== null);
+    }
+
+    /**
+     * Area of the pattern in the [[patternMap]], as `(u, v, width, height)` in texture
+     * coordinates.
+     */
+    get patternRect(): THREE.Vector4 {
+        return this.uniforms.patternRect.value as THREE.Vector4;
+    }
+
+    set patternRect(value: THREE.Vector4) {
+        this.uniforms.patternRect.value.copy(value);
+    }
+
+    /**
+     * Ratio of the width to the height of the pattern, the length of one repetition of the
+     * pattern along the line is `lineWidth * patternAspect`.
+     */
+    get patternAspect(): number {
+        return this.uniforms.patternAspect.value as number;
+    }
+
+    set patternAspect(value: number) {
+        this.uniforms.patternAspect.value = value;
+    }
+
     set clipTileSize(tileSize: THREE.Vector2) {
         this.uniforms.tileSize.value.copy(tileSize);
         const useTileClip = tileSize.x > 0 && tileSize.y > 0;
@@ -0,0 +1,122 @@
+/*
+ * Copyright (C) 2017-2020 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+//    Mocha discourages using arrow functions, see https://mochajs.org/#arrow-functions
+
+import { expect } from "chai";
+import * as THREE from "three";
+
+import {
+    hasPatternFeature,
+    MapMeshBasicMaterial,
+    MapMeshStandardMaterial,
+    PatternFeature
+} from "../lib/MapMeshMaterials";
+import { SolidLineMaterial } from "../lib/SolidLineMaterial";
+
+function compileShader(material: THREE.Material): THREE.Shader {
+    const shaderLib = material instanceof THREE.MeshStandardMaterial ? "standard" : "basic";
+    const shader: THREE.Shader = {
+        uniforms: {},
+        vertexShader: THREE.ShaderLib[shaderLib].vertexShader,
+        fragmentShader: THREE.ShaderLib[shaderLib].fragmentShader
+    };
+    material.onBeforeCompile(shader, undefined as any);
+    return shader;
+}
+
+describe("PatternFeature", function() {
+    for (const MaterialClass of [MapMeshBasicMaterial, MapMeshStandardMaterial]) {
+        describe(MaterialClass.name, function() {
+            it("is disabled by default", function() {
+                const material = new MaterialClass();
+
+                expect(hasPatternFeature(material)).to.be.true;
+                expect(material.patternMap).to.be.null;
+                expect(material.patternAnchor).to.equal(PatternFeature.DEFAULT_PATTERN_ANCHOR);
+                expect(material.defines.PATTERN_MATERIAL).to.be.undefined;
+                expect(compileShader(material).fragmentShader).to.not.contain("pattern_fragment");
+            });
+
+            it("injects world anchored pattern", function() {
+                const patternMap = new THREE.Texture();
+                const material = new MaterialClass({ patternMap });
+                material.patternSize = new THREE.Vector2(10, 20);
+                material.patternOffset = new THREE.Vector2(5, 5);
+
+                expect(material.patternMap).to.equal(patternMap);
+                expect(material.defines.PATTERN_MATERIAL).to.not.be.undefined;
+                expect(material.defines.PATTERN_SCREEN_ANCHOR).to.be.undefined;
+
+                const shader = compileShader(material);
+                expect(shader.vertexShader).to.contain("#include <pattern_vertex>");
+                expect(shader.fragmentShader).to.contain("#include <pattern_fragment>");
+                expect(shader.uniforms.patternMap.value).to.equal(patternMap);
+                expect(shader.uniforms.patternSize.value.toArray()).to.deep.equal([10, 20]);
+                expect(shader.uniforms.patternOffset.value.toArray()).to.deep.equal([5, 5]);
+            });
+
+            it("switches to screen anchor", function() {
+                const material = new MaterialClass({ patternMap: new THREE.Texture() });
+                const version = material.version;
+
+                material.patternAnchor = "screen";
+
+                expect(material.defines.PATTERN_SCREEN_ANCHOR).to.not.be.undefined;
+                expect(material.version).to.be.above(version);
+            });
+
+            it("removes pattern", function() {
+                const material = new MaterialClass({ patternMap: new THREE.Texture() });
+
+                material.patternMap = null;
+
+                expect(material.defines.PATTERN_MATERIAL).to.be.undefined;
+                expect(compileShader(material).fragmentShader).to.not.contain("pattern_fragment");
+            });
+
+            it("copies pattern", function() {
+                const patternMap = new THREE.Texture();
+                const material = new MaterialClass({ patternMap, patternAnchor: "screen" });
+                material.patternRect = new THREE.Vector4(0.5, 0, 0.5, 1);
+
+                const clone = material.clone();
+
+                expect(clone.patternMap).to.equal(patternMap);
+                expect(clone.patternAnchor).to.equal("screen");
+                expect(clone.patternRect.toArray()).to.deep.equal([0.5, 0, 0.5, 1]);
+            });
+        });
+    }
+
+    describe("SolidLineMaterial", function() {
+        it("is disabled by default", function() {
+            const material = new SolidLineMaterial({ rendererCapabilities: {} as any });
+
+            expect(material.patternMap).to.be.null;
+            expect(material.defines.USE_PATTERN_MAP).to.be.undefined;
+        });
+
+        it("sets pattern", function() {
+            const patternMap = new THREE.Texture();
+            const material = new SolidLineMaterial({
+                rendererCapabilities: {} as any,
+                patternMap
+            });
+            material.patternAspect = 2;
+            material.patternRect = new THREE.Vector4(0, 0.5, 1, 0.5);
+
+            expect(material.patternMap).to.equal(patternMap);
+            expect(material.defines.USE_PATTERN_MAP).to.not.be.undefined;
+            expect(material.uniforms.patternAspect.value).to.equal(2);
+            expect(material.uniforms.patternRect.value.toArray()).to.deep.equal([0, 0.5, 1, 0.5]);
+
+            material.patternMap = null;
+            expect(material.patternMap).to.be.null;
+            expect(material.defines.USE_PATTERN_MAP).to.be.undefined;
+        });
+    });
+});
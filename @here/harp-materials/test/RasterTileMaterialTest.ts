@@ -0,0 +1,129 @@
+/*
+ * Copyright (C) 2017-2020 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+//    Mocha discourages using arrow functions, see https://mochajs.org/#arrow-functions
+
+import { expect } from "chai";
+import * as THREE from "three";
+
+import { RasterBlendMode, RasterTileMaterial } from "../lib/RasterTileMaterial";
+
+describe("RasterTileMaterial", function() {
+    describe("#constructor()", function() {
+        it("creates material with default parameters", function() {
+            const material = new RasterTileMaterial();
+
+            expect(material.map).to.be.null;
+            expect(material.opacity).to.equal(1);
+            expect(material.brightness).to.equal(1);
+            expect(material.contrast).to.equal(1);
+            expect(material.saturation).to.equal(1);
+            expect(material.hueRotate).to.equal(0);
+            expect(material.gamma).to.equal(1);
+            expect(material.grayscale).to.equal(0);
+            expect(material.previousMap).to.be.null;
+            expect(material.crossFade).to.equal(1);
+            expect(material.blendMode).to.equal(RasterBlendMode.Normal);
+            expect(material.blending).to.equal(THREE.NormalBlending);
+            expect(material.transparent).to.be.false;
+        });
+
+        it("creates material with parameters object", function() {
+            const map = new THREE.Texture();
+            const previousMap = new THREE.Texture();
+            const material = new RasterTileMaterial({
+                map,
+                previousMap,
+                crossFade: 0.25,
+                opacity: 0.5,
+                brightness: 1.2,
+                contrast: 0.8,
+                saturation: 0,
+                hueRotate: 90,
+                gamma: 2,
+                grayscale: 0.5,
+                blendMode: RasterBlendMode.Multiply,
+                depthTest: false
+            });
+
+            expect(material.map).to.equal(map);
+            expect(material.uniforms.previousMap.value).to.equal(previousMap);
+            expect(material.uniforms.crossFade.value).to.equal(0.25);
+            expect(material.uniforms.opacity.value).to.equal(0.5);
+            expect(material.uniforms.brightness.value).to.equal(1.2);
+            expect(material.uniforms.contrast.value).to.equal(0.8);
+            expect(material.uniforms.saturation.value).to.equal(0);
+            expect(material.uniforms.hueRotate.value).to.be.closeTo(Math.PI / 2, 1e-9);
+            expect(material.uniforms.gamma.value).to.equal(2);
+            expect(material.uniforms.grayscale.value).to.equal(0.5);
+            expect(material.blendMode).to.equal(RasterBlendMode.Multiply);
+            expect(material.depthTest).to.be.false;
+        });
+    });
+
+    describe("#hueRotate", function() {
+        it("converts degrees to radians", function() {
+            const material = new RasterTileMaterial();
+            material.hueRotate = 180;
+
+            expect(material.uniforms.hueRotate.value).to.be.closeTo(Math.PI, 1e-9);
+            expect(material.hueRotate).to.be.closeTo(180, 1e-9);
+        });
+    });
+
+    describe("#opacity", function() {
+        it("enables blending if translucent", function() {
+            const material = new RasterTileMaterial();
+            material.opacity = 0.7;
+
+            expect(material.uniforms.opacity.value).to.equal(0.7);
+            expect(material.blending).to.equal(THREE.CustomBlending);
+            expect(material.blendSrc).to.equal(THREE.SrcAlphaFactor);
+            expect(material.blendDst).to.equal(THREE.OneMinusSrcAlphaFactor);
+
+            material.opacity = 1;
+            expect(material.blending).to.equal(THREE.NormalBlending);
+        });
+
+        it("keeps blending for transparent textures", function() {
+            const material = new RasterTileMaterial({ textureTransparency: true });
+
+            expect(material.blending).to.equal(THREE.CustomBlending);
+        });
+    });
+
+    describe("#blendMode", function() {
+        it("sets up multiply blending", function() {
+            const material = new RasterTileMaterial();
+            const version = material.version;
+            material.blendMode = RasterBlendMode.Multiply;
+
+            expect(material.blendMode).to.equal(RasterBlendMode.Multiply);
+            expect(material.version).to.be.greaterThan(version);
+            expect(material.blending).to.equal(THREE.CustomBlending);
+            expect(material.blendSrc).to.equal(THREE.ZeroFactor);
+            expect(material.blendDst).to.equal(THREE.SrcColorFactor);
+        });
+
+        it("sets up screen blending", function() {
+            const material = new RasterTileMaterial();
+            material.blendMode = RasterBlendMode.Screen;
+
+            expect(material.blendMode).to.equal(RasterBlendMode.Screen);
+            expect(material.blending).to.equal(THREE.CustomBlending);
+            expect(material.blendSrc).to.equal(THREE.OneFactor);
+            expect(material.blendDst).to.equal(THREE.OneMinusSrcColorFactor);
+        });
+
+        it("restores normal blending", function() {
+            const material = new RasterTileMaterial({ blendMode: RasterBlendMode.Screen });
+            material.blendMode = RasterBlendMode.Normal;
+
+            expect(material.blendMode).to.equal(RasterBlendMode.Normal);
+            expect(material.blending).to.equal(THREE.NormalBlending);
+        });
+    });
+});
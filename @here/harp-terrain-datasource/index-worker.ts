@@ -0,0 +1,8 @@
+/*
+ * Copyright (C) 2017-2020 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+export * from "./lib/RasterDemDecoder";
+export * from "./lib/RasterDemDecoderDefs";
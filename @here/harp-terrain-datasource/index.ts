@@ -0,0 +1,22 @@
+/*
+ * Copyright (C) 2017-2020 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Raster DEM terrain data source.
+ *
+ * @remarks
+ * Renders elevation tiles encoded as Terrarium or Mapbox RGB images as shaded terrain and
+ * provides their elevation to {@link @here/harp-mapview#MapView}.
+ *
+ * @packageDocumentation
+ */
+
+export * from "./lib/DemUtils";
+export * from "./lib/RasterDemDataProvider";
+export * from "./lib/RasterDemDataSource";
+export * from "./lib/RasterDemDecoderDefs";
+export * from "./lib/RasterDemElevationProvider";
+export * from "./lib/RasterDemElevationRangeSource";
@@ -0,0 +1,141 @@
+/*
+ * Copyright (C) 2017-2020 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { DisplacementMap } from "@here/harp-mapview/lib/DisplacementMap";
+import * as THREE from "three";
+
+import { DemEncoding, DemImageData } from "./RasterDemDecoderDefs";
+
+/**
+ * Decodes the elevation encoded in the color channels of a raster DEM pixel.
+ *
+ * @param r - Red channel of the pixel.
+ * @param g - Green channel of the pixel.
+ * @param b - Blue channel of the pixel.
+ * @param encoding - Encoding of the elevation.
+ * @returns The elevation in meters.
+ */
+export function decodeElevation(r: number, g: number, b: number, encoding: DemEncoding): number {
+    switch (encoding) {
+        case "terrarium":
+            return r * 256 + g + b / 256 - 32768;
+        case "mapbox":
+            return -10000 + (r * 256 * 256 + g * 256 + b) * 0.1;
+    }
+}
+
+/**
+ * Type guard to check if an object contains decoded raster DEM pixels.
+ */
+export function isDemImageData(object: any): object is DemImageData {
+    return (
+        object !== null &&
+        typeof object === "object" &&
+        typeof object.width === "number" &&
+        typeof object.height === "number" &&
+        (object.data instanceof Uint8Array || object.data instanceof Uint8ClampedArray)
+    );
+}
+
+/**
+ * Decodes the elevation of all pixels of a raster DEM tile.
+ *
+ * @param image - The RGBA pixels of the tile.
+ * @param encoding - Encoding of the elevation.
+ * @returns The elevations in meters, in the same order as the pixels.
+ */
+export function decodeDemImage(image: DemImageData, encoding: DemEncoding): Float32Array {
+    const { width, height, data } = image;
+    const heights = new Float32Array(width * height);
+    for (let i = 0; i < heights.length; i++) {
+        heights[i] = decodeElevation(data[i * 4], data[i * 4 + 1], data[i * 4 + 2], encoding);
+    }
+    return heights;
+}
+
+/**
+ * Resamples the decoded elevations of a raster DEM tile to a regular grid of vertices.
+ *
+ * @remarks
+ * The elevations of the pixels are located at the pixel centers. The grid vertices at the tile
+ * borders are interpolated with the `border` pixels of padded tiles, which overlap their neighbor
+ * tiles, so that neighbor tiles have the same elevations along their shared borders. The
+ * neighbor tiles themselves are not read. Without border, the vertices are clamped to the
+ * outermost pixels of the tile and neighbor tiles may show seams along their shared borders.
+ *
+ * @param heights - The elevations of the tile pixels, starting at the north-west corner.
+ * @param width - Number of pixel columns, including the border.
+ * @param height - Number of pixel rows, including the border.
+ * @param gridResolution - Number of grid segments along each side of the tile.
+ * @param border - Number of pixels around the tile overlapping the neighbor tiles.
+ * @returns The displacement map with the elevations of the grid vertices, starting at the
+ * south-west corner.
+ */
+export function createDisplacementMap(
+    heights: Float32Array,
+    width: number,
+    height: number,
+    gridResolution: number,
+    border: number = 0
+): DisplacementMap {
+    const tileWidth = width - 2 * border;
+    const tileHeight = height - 2 * border;
+    const countVertices = gridResolution + 1;
+    const buffer = new Float32Array(countVertices * countVertices);
+    for (let row = 0; row < countVertices; row++) {
+        const y = THREE.MathUtils.clamp(
+            border + (1 - row / gridResolution) * tileHeight - 0.5,
+            0,
+            height - 1
+        );
+        for (let column = 0; column < countVertices; column++) {
+            const x = THREE.MathUtils.clamp(
+                border + (column / gridResolution) * tileWidth - 0.5,
+                0,
+                width - 1
+            );
+            buffer[row * countVertices + column] = bilinear(heights, width, height, x, y);
+        }
+    }
+    return { xCountVertices: countVertices, yCountVertices: countVertices, buffer };
+}
+
+/**
+ * Samples the elevation of a displacement map with bilinear interpolation.
+ *
+ * @param displacementMap - The displacement map, its first row is the south border of the tile.
+ * @param u - Horizontal position in the tile from `0` (west) to `1` (east).
+ * @param v - Vertical position in the tile from `0` (south) to `1` (north).
+ * @returns The elevation in meters.
+ */
+export function sampleDisplacementMap(
+    displacementMap: DisplacementMap,
+    u: number,
+    v: number
+): number {
+    const { xCountVertices, yCountVertices, buffer } = displacementMap;
+    const x = THREE.MathUtils.clamp(u, 0, 1) * (xCountVertices - 1);
+    const y = THREE.MathUtils.clamp(v, 0, 1) * (yCountVertices - 1);
+    return bilinear(buffer, xCountVertices, yCountVertices, x, y);
+}
+
+function bilinear(
+    values: Float32Array,
+    width: number,
+    height: number,
+    x: number,
+    y: number
+): number {
+    const x0 = Math.floor(x);
+    const y0 = Math.floor(y);
+    const x1 = Math.min(x0 + 1, width - 1);
+    const y1 = Math.min(y0 + 1, height - 1);
+    const fx = x - x0;
+    const fy = y - y0;
+    const row0 = THREE.MathUtils.lerp(values[y0 * width + x0], values[y0 * width + x1], fx);
+    const row1 = THREE.MathUtils.lerp(values[y1 * width + x0], values[y1 * width + x1], fx);
+    return THREE.MathUtils.lerp(row0, row1, fy);
+}
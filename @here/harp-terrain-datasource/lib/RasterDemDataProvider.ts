@@ -0,0 +1,98 @@
+/*
+ * Copyright (C) 2017-2020 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { TileKey } from "@here/harp-geoutils";
+import { DataProvider } from "@here/harp-mapview-decoder";
+import { ITransferManager, TransferManager } from "@here/harp-transfer-manager";
+
+/**
+ * Options of a {@link RasterDemDataProvider}.
+ */
+export interface RasterDemDataProviderOptions {
+    /**
+     * `URL` pattern used to fetch the raster DEM tiles, either an absolute `URL` or a path relative
+     * to the page, e.g. to load tiles from local files.
+     *
+     * @remarks
+     * `URL` with special keywords replaced to retrieve specific tile:
+     *  - `{z}` - zoom level of tile, see {@link @here/harp-geoutils#TileKey.level}
+     *  - `{x}` - horizontal coordinate of tile (column number),
+     *            see {@link @here/harp-geoutils#TileKey.column}
+     *  - `{y}` - vertical coordinate of Tile (row number),
+     *            see {@link @here/harp-geoutils#TileKey.row}
+     *
+     * Examples of `url` patterns:
+     * ```
+     *   https://s3.amazonaws.com/elevation-tiles-prod/terrarium/{z}/{x}/{y}.png
+     *   resources/dem/{z}/{x}/{y}.png
+     * ```
+     */
+    url: string;
+
+    /**
+     * Transfer manager used to download the tiles, the default transfer manager is used if not
+     * specified.
+     */
+    downloadManager?: ITransferManager;
+}
+
+/**
+ * {@link @here/harp-mapview-decoder#DataProvider} downloading raster DEM tiles from a `URL`
+ * template.
+ */
+export class RasterDemDataProvider extends DataProvider {
+    private readonly m_downloadManager: ITransferManager;
+
+    /**
+     * Creates a new `RasterDemDataProvider`.
+     *
+     * @param m_options - The options of the data provider.
+     */
+    constructor(private readonly m_options: RasterDemDataProviderOptions) {
+        super();
+        this.m_downloadManager = m_options.downloadManager ?? TransferManager.instance();
+    }
+
+    /** Overriding abstract method, in this case doing nothing. */
+    async connect(): Promise<void> {
+        // not needed
+    }
+
+    /** Overriding abstract method, in this case always returning `true`. */
+    ready(): boolean {
+        return true;
+    }
+
+    /**
+     * Downloads the encoded image of a raster DEM tile.
+     *
+     * @param tileKey - The tile key of the tile.
+     * @param abortSignal - Optional signal to abort the download.
+     * @returns A `Promise` of the encoded image.
+     */
+    async getTile(tileKey: TileKey, abortSignal?: AbortSignal): Promise<ArrayBufferLike> {
+        return await this.m_downloadManager.downloadArrayBuffer(this.getTileUrl(tileKey), {
+            signal: abortSignal
+        });
+    }
+
+    /**
+     * Gets the `URL` of a raster DEM tile.
+     *
+     * @param tileKey - The tile key of the tile.
+     */
+    getTileUrl(tileKey: TileKey): string {
+        return this.m_options.url
+            .replace("{x}", String(tileKey.column))
+            .replace("{y}", String(tileKey.row))
+            .replace("{z}", String(tileKey.level));
+    }
+
+    /** @override */
+    dispose() {
+        // Nothing to be done here.
+    }
+}
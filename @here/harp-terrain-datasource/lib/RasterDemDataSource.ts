@@ -0,0 +1,181 @@
+/*
+ * Copyright (C) 2017-2020 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Definitions, ITileDecoder, StyleSet } from "@here/harp-datasource-protocol";
+import { TileKey, webMercatorTilingScheme } from "@here/harp-geoutils";
+import { DataSourceOptions, Tile, TileDisplacementMap } from "@here/harp-mapview";
+import { DataProvider, TileDataSource, TileFactory } from "@here/harp-mapview-decoder";
+
+import { RasterDemDataProvider } from "./RasterDemDataProvider";
+import {
+    DemEncoding,
+    RASTER_DEM_DECODER_SERVICE_TYPE,
+    RASTER_DEM_LAYER,
+    RasterDemDecoderOptions
+} from "./RasterDemDecoderDefs";
+
+/**
+ * Style set used if the theme contains no style set for the {@link RasterDemDataSource}.
+ */
+const DEFAULT_STYLE_SET: StyleSet = [
+    {
+        layer: RASTER_DEM_LAYER,
+        technique: "terrain",
+        attr: {
+            color: "#f5f3ee",
+            roughness: 1,
+            metalness: 0
+        }
+    }
+];
+
+/**
+ * Parameters of a {@link RasterDemDataSource}.
+ */
+export interface RasterDemDataSourceParameters extends DataSourceOptions {
+    /**
+     * `URL` pattern of the raster DEM tiles, see {@link RasterDemDataProviderOptions.url}. Either
+     * `url` or `dataProvider` have to be specified.
+     */
+    url?: string;
+
+    /**
+     * Custom data provider of the encoded raster DEM tiles.
+     */
+    dataProvider?: DataProvider;
+
+    /**
+     * Encoding of the elevation in the tiles.
+     * @defaultValue `"terrarium"`
+     */
+    encoding?: DemEncoding;
+
+    /**
+     * Number of segments of the terrain grid along each side of a tile.
+     * @defaultValue `64`
+     */
+    gridResolution?: number;
+
+    /**
+     * Number of pixels around each tile overlapping the neighbor tiles, only for padded tiles, see
+     * {@link RasterDemDecoderOptions.border}.
+     * @defaultValue `0`
+     */
+    border?: number;
+
+    /**
+     * Custom decoder, the tiles are decoded by a {@link RasterDemDecoderService} in web workers if
+     * not specified.
+     */
+    decoder?: ITileDecoder;
+
+    /**
+     * Optional, default decoder script URL.
+     */
+    concurrentDecoderScriptUrl?: string;
+
+    /**
+     * Optional, number of workers for the default decoder.
+     */
+    concurrentDecoderWorkerCount?: number;
+}
+
+/**
+ * Data source rendering raster DEM tiles as shaded terrain.
+ *
+ * @remarks
+ * The tiles contain the elevation encoded in the RGB channels (see {@link DemEncoding}). They are
+ * decoded in web workers into terrain meshes, which are rendered with the `"terrain"` techniques
+ * of the style set matching the {@link RASTER_DEM_LAYER}. The terrain is shaded by the lights of
+ * the theme, `heightBasedColors` of the techniques color the terrain by elevation.
+ *
+ * To use the elevation of the data source for the map, e.g. to place other map objects on top of
+ * the terrain, set it as elevation source of the {@link @here/harp-mapview#MapView}:
+ *
+ * ```typescript
+ * const demDataSource = new RasterDemDataSource({
+ *     url: "https://s3.amazonaws.com/elevation-tiles-prod/terrarium/{z}/{x}/{y}.png"
+ * });
+ * mapView.setElevationSource(
+ *     demDataSource,
+ *     new RasterDemElevationRangeSource(demDataSource),
+ *     new RasterDemElevationProvider(demDataSource)
+ * );
+ * ```
+ */
+export class RasterDemDataSource extends TileDataSource {
+    private readonly m_decoderOptions: RasterDemDecoderOptions;
+
+    /**
+     * Creates a new `RasterDemDataSource`.
+     *
+     * @param params - The parameters of the data source.
+     */
+    constructor(params: RasterDemDataSourceParameters) {
+        super(new TileFactory(Tile), {
+            name: "raster-dem",
+            styleSetName: "terrain",
+            concurrentDecoderServiceName: RASTER_DEM_DECODER_SERVICE_TYPE,
+            minDataLevel: 1,
+            maxDataLevel: 15,
+            ...params,
+            tilingScheme: webMercatorTilingScheme,
+            dataProvider: getDataProvider(params)
+        });
+        this.m_decoderOptions = {
+            encoding: params.encoding ?? "terrarium",
+            gridResolution: params.gridResolution,
+            border: params.border
+        };
+    }
+
+    /** @override */
+    async connect() {
+        await super.connect();
+        this.decoder.configure(undefined, undefined, undefined, { ...this.m_decoderOptions });
+    }
+
+    /**
+     * Sets the style set of the terrain, the default style set is used if `styleSet` is
+     * `undefined`.
+     *
+     * @override
+     */
+    setStyleSet(styleSet?: StyleSet, definitions?: Definitions, languages?: string[]): void {
+        super.setStyleSet(styleSet ?? DEFAULT_STYLE_SET, definitions, languages);
+    }
+
+    /**
+     * Gets the displacement map of a loaded tile.
+     *
+     * @param tileKey - The key of the tile.
+     * @returns The displacement map of the tile or `undefined` if the tile is not loaded or has no
+     * terrain.
+     */
+    getDisplacementMap(tileKey: TileKey): TileDisplacementMap | undefined {
+        if (this.isDetached()) {
+            return undefined;
+        }
+        const tile = this.mapView.visibleTileSet.getCachedTile(
+            this,
+            tileKey,
+            0,
+            this.mapView.frameNumber
+        );
+        const terrain = tile?.objects.find(object => object.userData.displacementMap);
+        return terrain?.userData as TileDisplacementMap | undefined;
+    }
+}
+
+function getDataProvider(params: RasterDemDataSourceParameters): DataProvider {
+    if (params.dataProvider !== undefined) {
+        return params.dataProvider;
+    }
+    if (params.url !== undefined) {
+        return new RasterDemDataProvider({ url: params.url });
+    }
+    throw new Error("RasterDemDataSource: Either url or dataProvider have to be specified");
+}
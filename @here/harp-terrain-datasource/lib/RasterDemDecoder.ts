@@ -0,0 +1,421 @@
+/*
+ * Copyright (C) 2017-2020 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+    DecodedTile,
+    Definitions,
+    Geometry,
+    GeometryType,
+    IndexedTechnique,
+    isTerrainTechnique,
+    OptionsMap,
+    StyleSet,
+    TerrainTechnique,
+    TextureBuffer
+} from "@here/harp-datasource-protocol";
+import { MapEnv, StyleSetEvaluator } from "@here/harp-datasource-protocol/index-decoder";
+import {
+    EarthConstants,
+    mercatorProjection,
+    Projection,
+    TileKey,
+    TilingScheme,
+    webMercatorTilingScheme
+} from "@here/harp-geoutils";
+import {
+    ThemedTileDecoder,
+    TileDecoderService,
+    WorkerServiceManager
+} from "@here/harp-mapview-decoder/index-worker";
+import { DisplacementMap } from "@here/harp-mapview/lib/DisplacementMap";
+import * as THREE from "three";
+
+import { createDisplacementMap, decodeDemImage, isDemImageData } from "./DemUtils";
+import {
+    DemEncoding,
+    DemImageData,
+    RASTER_DEM_DECODER_SERVICE_TYPE,
+    RASTER_DEM_LAYER
+} from "./RasterDemDecoderDefs";
+
+const DEFAULT_GRID_RESOLUTION = 64;
+const DEFAULT_HEIGHT_GRADIENT_WIDTH = 128;
+
+// Skirts hide the cracks between neighbor tiles, they need at least this depth in meters.
+const MIN_SKIRT_DEPTH = 1;
+
+const tmpVector = new THREE.Vector3();
+const tmpVectorA = new THREE.Vector3();
+const tmpVectorB = new THREE.Vector3();
+const tmpBox = new THREE.Box3();
+
+/**
+ * Decoder of raster DEM tiles.
+ *
+ * @remarks
+ * Decodes the elevation of Terrarium or Mapbox RGB encoded tiles and creates a shaded terrain
+ * mesh for each `"terrain"` technique matching the {@link RASTER_DEM_LAYER}. The elevation of the
+ * mesh vertices is passed along as {@link @here/harp-mapview#DisplacementMap}, which is used by
+ * the elevation provider.
+ *
+ * The tiles are either encoded images (e.g. PNG), which are decoded with `createImageBitmap` and
+ * an `OffscreenCanvas`, or already decoded {@link DemImageData}.
+ */
+export class RasterDemDecoder extends ThemedTileDecoder {
+    private m_encoding: DemEncoding = "terrarium";
+    private m_gridResolution: number = DEFAULT_GRID_RESOLUTION;
+    private m_border: number = 0;
+
+    /** @override */
+    connect(): Promise<void> {
+        return Promise.resolve();
+    }
+
+    /** @override */
+    configure(
+        styleSet?: StyleSet,
+        definitions?: Definitions,
+        languages?: string[],
+        options?: OptionsMap
+    ): void {
+        super.configure(styleSet, definitions, languages, options);
+
+        if (options?.encoding !== undefined) {
+            this.m_encoding = options.encoding;
+        }
+        if (options?.gridResolution !== undefined) {
+            this.m_gridResolution = Math.max(1, Math.floor(options.gridResolution));
+        }
+        if (options?.border !== undefined) {
+            this.m_border = Math.max(0, Math.floor(options.border));
+        }
+    }
+
+    /** @override */
+    async decodeThemedTile(
+        data: ArrayBufferLike | {},
+        tileKey: TileKey,
+        styleSetEvaluator: StyleSetEvaluator,
+        projection: Projection
+    ): Promise<DecodedTile> {
+        const image = isDemImageData(data) ? data : await decodeImage(data as ArrayBufferLike);
+        const displacementMap = createDisplacementMap(
+            decodeDemImage(image, this.m_encoding),
+            image.width,
+            image.height,
+            this.m_gridResolution,
+            this.m_border
+        );
+
+        styleSetEvaluator.resetTechniques();
+        const env = new MapEnv({
+            $layer: RASTER_DEM_LAYER,
+            $geometryType: "polygon",
+            $level: tileKey.level,
+            $zoom: Math.max(0, tileKey.level - this.m_storageLevelOffset)
+        });
+        const techniques = styleSetEvaluator
+            .getMatchingTechniques(env, RASTER_DEM_LAYER, "polygon")
+            .filter(isTerrainTechnique);
+
+        const { minHeight, maxHeight } = getHeightRange(displacementMap);
+        const geometries: Geometry[] = [];
+        if (techniques.length > 0) {
+            geometries.push(
+                createTerrainGeometry(
+                    displacementMap,
+                    Math.max(maxHeight - minHeight, MIN_SKIRT_DEPTH),
+                    techniques.map(technique => technique._index),
+                    tileKey,
+                    webMercatorTilingScheme,
+                    projection
+                )
+            );
+        }
+
+        return {
+            techniques: styleSetEvaluator.decodedTechniques.map(technique =>
+                addHeightBasedColors(technique, displacementMap)
+            ),
+            geometries,
+            // The tile bounds are extended by the geometry heights, they have to include zero
+            // since the elevation range of the tile may be added to them.
+            minGeometryHeight: Math.min(minHeight, 0),
+            maxGeometryHeight: Math.max(maxHeight, 0)
+        };
+    }
+}
+
+/**
+ * Starts a {@link RasterDemDecoder} service.
+ */
+export class RasterDemDecoderService {
+    /**
+     * Register a raster DEM decoder service.
+     *
+     * @remarks
+     * Has to be called during initialization of decoder bundle.
+     */
+    static start() {
+        WorkerServiceManager.getInstance().register({
+            serviceType: RASTER_DEM_DECODER_SERVICE_TYPE,
+            factory: (serviceId: string) =>
+                TileDecoderService.start(serviceId, new RasterDemDecoder())
+        });
+    }
+}
+
+async function decodeImage(data: ArrayBufferLike): Promise<DemImageData> {
+    const bitmap = await createImageBitmap(new Blob([data as ArrayBuffer]), {
+        premultiplyAlpha: "none",
+        colorSpaceConversion: "none"
+    });
+    const canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+    const context = canvas.getContext("2d");
+    if (context === null) {
+        throw new Error("RasterDemDecoder: Unable to create 2D context");
+    }
+    context.drawImage(bitmap, 0, 0);
+    return context.getImageData(0, 0, bitmap.width, bitmap.height);
+}
+
+function getHeightRange(displacementMap: DisplacementMap) {
+    let minHeight = Infinity;
+    let maxHeight = -Infinity;
+    for (const height of displacementMap.buffer) {
+        minHeight = Math.min(minHeight, height);
+        maxHeight = Math.max(maxHeight, height);
+    }
+    return { minHeight, maxHeight };
+}
+
+/**
+ * Creates the terrain mesh of a tile with the vertices of the displacement map and skirts along
+ * the tile borders, the mesh is rendered with each of the given techniques.
+ */
+function createTerrainGeometry(
+    displacementMap: DisplacementMap,
+    skirtDepth: number,
+    techniqueIndices: number[],
+    tileKey: TileKey,
+    tilingScheme: TilingScheme,
+    projection: Projection
+): Geometry {
+    const { xCountVertices, yCountVertices, buffer } = displacementMap;
+    // The rows of the tile are equally spaced in mercator projection, which has its y axis
+    // pointing north.
+    const geoBox = tilingScheme.getGeoBox(tileKey);
+    const worldBox = mercatorProjection.projectBox(geoBox, tmpBox);
+    const center = projection.projectPoint(geoBox.center, tmpVectorA);
+    const centerX = center.x;
+    const centerY = center.y;
+    const centerZ = center.z;
+
+    const gridVertexCount = xCountVertices * yCountVertices;
+    const skirtVertexCount = 2 * (xCountVertices + yCountVertices);
+    const positions = new Float32Array((gridVertexCount + skirtVertexCount) * 3);
+    const normals = new Float32Array(positions.length);
+    const uvs = new Float32Array((gridVertexCount + skirtVertexCount) * 2);
+
+    const addVertex = (vertex: number, u: number, v: number, altitude: number) => {
+        tmpVector.set(
+            THREE.MathUtils.lerp(worldBox.min.x, worldBox.max.x, u),
+            THREE.MathUtils.lerp(worldBox.min.y, worldBox.max.y, v),
+            0
+        );
+        const geoPoint = mercatorProjection.unprojectPoint(tmpVector);
+        geoPoint.altitude = altitude;
+        projection.projectPoint(geoPoint, tmpVector);
+        positions[vertex * 3] = tmpVector.x - centerX;
+        positions[vertex * 3 + 1] = tmpVector.y - centerY;
+        positions[vertex * 3 + 2] = tmpVector.z - centerZ;
+        uvs[vertex * 2] = u;
+        uvs[vertex * 2 + 1] = v;
+    };
+
+    for (let row = 0; row < yCountVertices; row++) {
+        for (let column = 0; column < xCountVertices; column++) {
+            const vertex = row * xCountVertices + column;
+            addVertex(
+                vertex,
+                column / (xCountVertices - 1),
+                row / (yCountVertices - 1),
+                buffer[vertex]
+            );
+        }
+    }
+
+    const position = (column: number, row: number, target: THREE.Vector3) => {
+        column = THREE.MathUtils.clamp(column, 0, xCountVertices - 1);
+        row = THREE.MathUtils.clamp(row, 0, yCountVertices - 1);
+        return target.fromArray(positions, (row * xCountVertices + column) * 3);
+    };
+    for (let row = 0; row < yCountVertices; row++) {
+        for (let column = 0; column < xCountVertices; column++) {
+            // The normal is the cross product of the east and north tangents of the vertex.
+            const east = position(column + 1, row, tmpVectorA).sub(
+                position(column - 1, row, tmpVector)
+            );
+            const north = position(column, row + 1, tmpVectorB).sub(
+                position(column, row - 1, tmpVector)
+            );
+            east.cross(north).normalize();
+            east.toArray(normals, (row * xCountVertices + column) * 3);
+        }
+    }
+
+    const indices: number[] = [];
+    for (let row = 0; row < yCountVertices - 1; row++) {
+        for (let column = 0; column < xCountVertices - 1; column++) {
+            const a = row * xCountVertices + column;
+            const b = a + 1;
+            const c = a + xCountVertices;
+            const d = c + 1;
+            indices.push(a, b, c, b, d, c);
+        }
+    }
+
+    // The border vertices in counter-clockwise order, each edge includes both of its corners.
+    const border: number[] = [];
+    for (let column = 0; column < xCountVertices; column++) {
+        border.push(column);
+    }
+    for (let row = 0; row < yCountVertices; row++) {
+        border.push(row * xCountVertices + xCountVertices - 1);
+    }
+    for (let column = xCountVertices - 1; column >= 0; column--) {
+        border.push((yCountVertices - 1) * xCountVertices + column);
+    }
+    for (let row = yCountVertices - 1; row >= 0; row--) {
+        border.push(row * xCountVertices);
+    }
+    border.forEach((gridVertex, i) => {
+        const skirtVertex = gridVertexCount + i;
+        addVertex(
+            skirtVertex,
+            uvs[gridVertex * 2],
+            uvs[gridVertex * 2 + 1],
+            buffer[gridVertex] - skirtDepth
+        );
+        normals.copyWithin(skirtVertex * 3, gridVertex * 3, gridVertex * 3 + 3);
+        if (i > 0 && border[i - 1] !== gridVertex) {
+            const previousGridVertex = border[i - 1];
+            const previousSkirtVertex = skirtVertex - 1;
+            indices.push(
+                previousSkirtVertex,
+                skirtVertex,
+                gridVertex,
+                previousSkirtVertex,
+                gridVertex,
+                previousGridVertex
+            );
+        }
+    });
+
+    const vertexCount = gridVertexCount + skirtVertexCount;
+    const index =
+        vertexCount <= 65536
+            ? { buffer: new Uint16Array(indices).buffer as ArrayBuffer, type: "uint16" as const }
+            : { buffer: new Uint32Array(indices).buffer as ArrayBuffer, type: "uint32" as const };
+
+    return {
+        type: GeometryType.Polygon,
+        vertexAttributes: [
+            {
+                name: "position",
+                buffer: positions.buffer as ArrayBuffer,
+                itemCount: 3,
+                type: "float"
+            },
+            {
+                name: "normal",
+                buffer: normals.buffer as ArrayBuffer,
+                itemCount: 3,
+                type: "float"
+            },
+            {
+                name: "uv",
+                buffer: uvs.buffer as ArrayBuffer,
+                itemCount: 2,
+                type: "float"
+            }
+        ],
+        index: { ...index, name: "index", itemCount: 1 },
+        groups: techniqueIndices.map(technique => ({
+            start: 0,
+            count: indices.length,
+            technique
+        })),
+        objInfos: [displacementMap]
+    };
+}
+
+/**
+ * Adds the textures for height-based coloring to a terrain technique with `heightBasedColors`.
+ *
+ * @remarks
+ * The `displacementMap` provides the elevation to the fragment shader, which looks up the color
+ * in the `map` gradient. The techniques are decoded for each tile, so the textures of a tile do
+ * not affect other tiles.
+ */
+function addHeightBasedColors(
+    technique: IndexedTechnique,
+    displacementMap: DisplacementMap
+): IndexedTechnique {
+    if (!isTerrainTechnique(technique) || technique.heightBasedColors === undefined) {
+        return technique;
+    }
+    const displacementTexture: TextureBuffer = {
+        buffer: displacementMap.buffer.slice().buffer as ArrayBuffer,
+        type: "image/raw",
+        dataTextureProperties: {
+            width: displacementMap.xCountVertices,
+            height: displacementMap.yCountVertices,
+            format: "Luminance",
+            type: "Float"
+        }
+    };
+    const width = technique.heightGradientWidth ?? DEFAULT_HEIGHT_GRADIENT_WIDTH;
+    const gradientTexture: TextureBuffer = {
+        buffer: createHeightGradient(technique, width).buffer as ArrayBuffer,
+        type: "image/raw",
+        dataTextureProperties: { width, height: 1, format: "RGBA", type: "UnsignedByte" }
+    };
+    return { ...technique, displacementMap: displacementTexture, map: gradientTexture };
+}
+
+/**
+ * Creates the gradient mapping the elevations between `EarthConstants.MIN_ELEVATION` and
+ * `EarthConstants.MAX_ELEVATION` to the `heightBasedColors` of a terrain technique.
+ */
+function createHeightGradient(technique: TerrainTechnique, width: number): Uint8Array {
+    const { heightArray, colorArray } = technique.heightBasedColors!;
+    const colors: number[] = [];
+    for (const colorString of colorArray) {
+        const color = new THREE.Color(colorString);
+        colors.push(color.r, color.g, color.b);
+    }
+
+    const Interpolant =
+        technique.heightGradientInterpolation === "Linear"
+            ? THREE.LinearInterpolant
+            : technique.heightGradientInterpolation === "Cubic"
+            ? THREE.CubicInterpolant
+            : THREE.DiscreteInterpolant;
+    const interpolant = new Interpolant(heightArray, colors, 3);
+
+    const gradient = new Uint8Array(width * 4);
+    const elevationRange = EarthConstants.MAX_ELEVATION - EarthConstants.MIN_ELEVATION;
+    for (let i = 0; i < width; i++) {
+        const height = EarthConstants.MIN_ELEVATION + ((i + 0.5) / width) * elevationRange;
+        const rgb = interpolant.evaluate(height);
+        gradient[i * 4] = Math.round(THREE.MathUtils.clamp(rgb[0], 0, 1) * 255);
+        gradient[i * 4 + 1] = Math.round(THREE.MathUtils.clamp(rgb[1], 0, 1) * 255);
+        gradient[i * 4 + 2] = Math.round(THREE.MathUtils.clamp(rgb[2], 0, 1) * 255);
+        gradient[i * 4 + 3] = 255;
+    }
+    return gradient;
+}
@@ -0,0 +1,61 @@
+/*
+ * Copyright (C) 2017-2020 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Service type identifier of the raster DEM decoder.
+ */
+export const RASTER_DEM_DECODER_SERVICE_TYPE = "raster-dem-decoder";
+
+/**
+ * Name of the layer the terrain of a raster DEM tile is matched with in the style set, available
+ * as `$layer` in style conditions.
+ */
+export const RASTER_DEM_LAYER = "terrain";
+
+/**
+ * Encoding of the elevation in the color channels of a raster DEM tile.
+ *
+ * @remarks
+ * - `"terrarium"`: `height = (R * 256 + G + B / 256) - 32768`.
+ * - `"mapbox"`: `height = -10000 + (R * 256 * 256 + G * 256 + B) * 0.1`.
+ */
+export type DemEncoding = "terrarium" | "mapbox";
+
+/**
+ * Decoded RGBA pixels of a raster DEM tile, row by row starting at the north-west corner.
+ */
+export interface DemImageData {
+    width: number;
+    height: number;
+    data: Uint8Array | Uint8ClampedArray;
+}
+
+/**
+ * Options of the raster DEM decoder, set with `ITileDecoder.configure`.
+ */
+export interface RasterDemDecoderOptions {
+    /**
+     * Encoding of the elevation in the tiles.
+     * @defaultValue `"terrarium"`
+     */
+    encoding?: DemEncoding;
+
+    /**
+     * Number of segments of the terrain grid along each side of a tile.
+     * @defaultValue `64`
+     */
+    gridResolution?: number;
+
+    /**
+     * Number of pixels around each tile overlapping the neighbor tiles, e.g. `1` for padded tiles
+     * of `258` x `258` pixels covering an area of `256` x `256` pixels. Only set it if the tiles
+     * are padded by the tile service, neighbor tiles are not read to fill the border. Without
+     * border, the elevations of neighbor tiles may differ along their shared borders, which shows
+     * as seams in the terrain.
+     * @defaultValue `0`
+     */
+    border?: number;
+}
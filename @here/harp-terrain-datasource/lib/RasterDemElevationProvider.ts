@@ -0,0 +1,108 @@
+/*
+ * Copyright (C) 2017-2020 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { GeoCoordinates, mercatorProjection, TileKey, TilingScheme } from "@here/harp-geoutils";
+import { ElevationProvider, TileDisplacementMap } from "@here/harp-mapview";
+import * as THREE from "three";
+
+import { sampleDisplacementMap } from "./DemUtils";
+import { RasterDemDataSource } from "./RasterDemDataSource";
+
+const tmpVector = new THREE.Vector3();
+const tmpBox = new THREE.Box3();
+
+/**
+ * {@link @here/harp-mapview#ElevationProvider} sampling the elevation of the tiles loaded by a
+ * {@link RasterDemDataSource}.
+ */
+export class RasterDemElevationProvider implements ElevationProvider {
+    /**
+     * Creates a new `RasterDemElevationProvider`.
+     *
+     * @param m_dataSource - The data source providing the elevation.
+     */
+    constructor(private readonly m_dataSource: RasterDemDataSource) {}
+
+    /** @override */
+    getHeight(geoPoint: GeoCoordinates, level?: number): number | undefined {
+        if (level === undefined) {
+            if (this.m_dataSource.isDetached()) {
+                return undefined;
+            }
+            level = this.m_dataSource.getDataZoomLevel(this.m_dataSource.mapView.zoomLevel);
+        }
+        const tileKey = this.getTilingScheme().getTileKey(
+            geoPoint,
+            Math.min(Math.floor(level), this.m_dataSource.maxDataLevel)
+        );
+        if (tileKey === null) {
+            return undefined;
+        }
+        const displacementMap = this.getDisplacementMap(tileKey);
+        return displacementMap !== undefined
+            ? this.sampleHeight(geoPoint, displacementMap)
+            : undefined;
+    }
+
+    /** @override */
+    sampleHeight(geoPoint: GeoCoordinates, tileDisplacementMap: TileDisplacementMap): number {
+        // The rows of the displacement map are equally spaced in mercator projection, which has
+        // its y axis pointing north.
+        const worldBox = mercatorProjection.projectBox(tileDisplacementMap.geoBox, tmpBox);
+        const worldPoint = mercatorProjection.projectPoint(geoPoint.normalized(), tmpVector);
+        return sampleDisplacementMap(
+            tileDisplacementMap.displacementMap,
+            (worldPoint.x - worldBox.min.x) / (worldBox.max.x - worldBox.min.x),
+            (worldPoint.y - worldBox.min.y) / (worldBox.max.y - worldBox.min.y)
+        );
+    }
+
+    /** @override */
+    rayCast(x: number, y: number): THREE.Vector3 | undefined {
+        if (this.m_dataSource.isDetached()) {
+            return undefined;
+        }
+        const mapView = this.m_dataSource.mapView;
+        const terrainObjects: THREE.Object3D[] = [];
+        mapView.visibleTileSet.forEachVisibleTile(tile => {
+            if (tile.dataSource === this.m_dataSource) {
+                terrainObjects.push(...tile.objects);
+            }
+        });
+        // Intersections are sorted by distance, the objects are rendered relative to the camera.
+        const intersection = mapView
+            .raycasterFromScreenPoint(x, y)
+            .intersectObjects(terrainObjects, true)[0];
+        return intersection?.point.clone().add(mapView.worldCenter);
+    }
+
+    /**
+     * Gets the displacement map of a loaded tile or of its closest loaded ancestor.
+     *
+     * @override
+     */
+    getDisplacementMap(tileKey: TileKey): TileDisplacementMap | undefined {
+        let key: TileKey | undefined = tileKey;
+        while (key !== undefined) {
+            const displacementMap = this.m_dataSource.getDisplacementMap(key);
+            if (displacementMap !== undefined) {
+                return displacementMap;
+            }
+            key = key.level > 0 ? key.parent() : undefined;
+        }
+        return undefined;
+    }
+
+    /** @override */
+    getTilingScheme(): TilingScheme {
+        return this.m_dataSource.getTilingScheme();
+    }
+
+    /** @override */
+    clearCache(): void {
+        // The displacement maps are owned by the tiles of the data source.
+    }
+}
@@ -0,0 +1,84 @@
+/*
+ * Copyright (C) 2017-2020 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { TileKey, TilingScheme } from "@here/harp-geoutils";
+import {
+    CalculationStatus,
+    DisplacementMap,
+    ElevationRange,
+    ElevationRangeSource
+} from "@here/harp-mapview";
+
+import { RasterDemDataSource } from "./RasterDemDataSource";
+
+/**
+ * {@link @here/harp-mapview#ElevationRangeSource} computing the elevation ranges from the tiles
+ * loaded by a {@link RasterDemDataSource}.
+ *
+ * @remarks
+ * The range of a tile is final once the tile itself is loaded. Until then, the range of its
+ * closest loaded ancestor is used as approximation. Tiles above the maximum data level of the
+ * data source get the final range of their ancestor at that level.
+ */
+export class RasterDemElevationRangeSource implements ElevationRangeSource {
+    private readonly m_ranges = new WeakMap<DisplacementMap, ElevationRange>();
+
+    /**
+     * Creates a new `RasterDemElevationRangeSource`.
+     *
+     * @param m_dataSource - The data source providing the elevation.
+     */
+    constructor(private readonly m_dataSource: RasterDemDataSource) {}
+
+    /** @override */
+    getElevationRange(tileKey: TileKey): ElevationRange {
+        let key: TileKey | undefined = tileKey;
+        while (key.level > this.m_dataSource.maxDataLevel) {
+            key = key.parent();
+        }
+        let calculationStatus = CalculationStatus.FinalPrecise;
+        while (key !== undefined) {
+            const tileDisplacementMap = this.m_dataSource.getDisplacementMap(key);
+            if (tileDisplacementMap !== undefined) {
+                return {
+                    ...this.getRange(tileDisplacementMap.displacementMap),
+                    calculationStatus
+                };
+            }
+            calculationStatus = CalculationStatus.PendingApproximate;
+            key = key.level > 0 ? key.parent() : undefined;
+        }
+        return { minElevation: 0, maxElevation: 0, calculationStatus };
+    }
+
+    /** @override */
+    getTilingScheme(): TilingScheme {
+        return this.m_dataSource.getTilingScheme();
+    }
+
+    /** @override */
+    async connect(): Promise<void> {
+        // The data source is connected by the map view.
+    }
+
+    /** @override */
+    ready(): boolean {
+        return true;
+    }
+
+    private getRange(displacementMap: DisplacementMap): ElevationRange {
+        let range = this.m_ranges.get(displacementMap);
+        if (range === undefined) {
+            range = { minElevation: Infinity, maxElevation: -Infinity };
+            for (const height of displacementMap.buffer) {
+                range.minElevation = Math.min(range.minElevation, height);
+                range.maxElevation = Math.max(range.maxElevation, height);
+            }
+            this.m_ranges.set(displacementMap, range);
+        }
+        return range;
+    }
+}
@@ -0,0 +1,277 @@
+/*
+ * Copyright (C) 2017-2020 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+//    Mocha discourages using arrow functions, see https://mochajs.org/#arrow-functions
+
+import {
+    DecodedTile,
+    isTextureBuffer,
+    StyleSet,
+    TerrainTechnique
+} from "@here/harp-datasource-protocol";
+import { mercatorProjection, TileKey } from "@here/harp-geoutils";
+import { DisplacementMap } from "@here/harp-mapview";
+import { expect } from "chai";
+
+import {
+    createDisplacementMap,
+    decodeDemImage,
+    decodeElevation,
+    sampleDisplacementMap
+} from "../lib/DemUtils";
+import { RasterDemDecoder } from "../lib/RasterDemDecoder";
+import { DemImageData, RASTER_DEM_LAYER } from "../lib/RasterDemDecoderDefs";
+
+function createTerrariumImage(
+    width: number,
+    height: number,
+    getHeight: (x: number, y: number) => number
+): DemImageData {
+    const data = new Uint8Array(width * height * 4);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const value = getHeight(x, y) + 32768;
+            const i = (y * width + x) * 4;
+            data[i] = Math.floor(value / 256);
+            data[i + 1] = Math.floor(value) % 256;
+            data[i + 2] = Math.floor((value % 1) * 256);
+            data[i + 3] = 255;
+        }
+    }
+    return { width, height, data };
+}
+
+describe("RasterDemDecoder", function() {
+    const tileKey = TileKey.fromRowColumnLevel(5, 8, 4);
+    const styleSet: StyleSet = [
+        {
+            layer: RASTER_DEM_LAYER,
+            technique: "terrain",
+            attr: { color: "#ffffff" }
+        }
+    ];
+
+    describe("decodeElevation", function() {
+        it("decodes terrarium encoded elevations", function() {
+            expect(decodeElevation(128, 0, 0, "terrarium")).to.equal(0);
+            expect(decodeElevation(131, 232, 128, "terrarium")).to.equal(1000.5);
+            expect(decodeElevation(0, 0, 0, "terrarium")).to.equal(-32768);
+        });
+
+        it("decodes mapbox encoded elevations", function() {
+            expect(decodeElevation(1, 134, 160, "mapbox")).to.be.closeTo(0, 1e-6);
+            expect(decodeElevation(1, 173, 176, "mapbox")).to.be.closeTo(1000, 1e-6);
+            expect(decodeElevation(0, 0, 0, "mapbox")).to.equal(-10000);
+        });
+    });
+
+    describe("createDisplacementMap", function() {
+        it("starts the grid at the south-west corner", function() {
+            // The first image row is the north border of the tile.
+            const image = createTerrariumImage(2, 2, (x, y) => (y === 0 ? 100 : 0) + x * 10);
+            const displacementMap = createDisplacementMap(
+                decodeDemImage(image, "terrarium"),
+                image.width,
+                image.height,
+                1
+            );
+
+            expect(displacementMap.xCountVertices).to.equal(2);
+            expect(displacementMap.yCountVertices).to.equal(2);
+            expect(Array.from(displacementMap.buffer)).to.deep.equal([0, 10, 100, 110]);
+        });
+
+        it("interpolates between the pixel centers", function() {
+            const image = createTerrariumImage(2, 1, x => x * 100);
+            const displacementMap = createDisplacementMap(
+                decodeDemImage(image, "terrarium"),
+                image.width,
+                image.height,
+                4
+            );
+
+            expect(Array.from(displacementMap.buffer.slice(0, 5))).to.deep.equal([
+                0,
+                0,
+                50,
+                100,
+                100
+            ]);
+        });
+
+        it("interpolates the tile borders with the border pixels of padded tiles", function() {
+            // Padded tiles of 4 x 4 pixels with a border of 1 pixel, west and east neighbors.
+            const getHeight = (x: number, y: number) => x * x * 10 + y * 20;
+            const createTile = (column: number) => {
+                const image = createTerrariumImage(6, 6, (x, y) =>
+                    getHeight(column * 4 + x - 1, y - 1)
+                );
+                return createDisplacementMap(
+                    decodeDemImage(image, "terrarium"),
+                    image.width,
+                    image.height,
+                    4,
+                    1
+                );
+            };
+            const westTile = createTile(0);
+            const eastTile = createTile(1);
+
+            for (let row = 0; row < 5; row++) {
+                const westEdge = westTile.buffer[row * 5 + 4];
+                const eastEdge = eastTile.buffer[row * 5];
+                expect(westEdge).to.equal(eastEdge);
+            }
+            // The south-east corner of the west tile is the common corner of its last pixel and
+            // the border pixels of three neighbors.
+            expect(westTile.buffer[4]).to.equal(
+                (getHeight(3, 3) + getHeight(4, 3) + getHeight(3, 4) + getHeight(4, 4)) / 4
+            );
+        });
+    });
+
+    describe("sampleDisplacementMap", function() {
+        const displacementMap: DisplacementMap = {
+            xCountVertices: 2,
+            yCountVertices: 2,
+            buffer: new Float32Array([0, 10, 100, 110])
+        };
+
+        it("samples the corners", function() {
+            expect(sampleDisplacementMap(displacementMap, 0, 0)).to.equal(0);
+            expect(sampleDisplacementMap(displacementMap, 1, 0)).to.equal(10);
+            expect(sampleDisplacementMap(displacementMap, 0, 1)).to.equal(100);
+            expect(sampleDisplacementMap(displacementMap, 1, 1)).to.equal(110);
+        });
+
+        it("interpolates bilinearly and clamps to the tile", function() {
+            expect(sampleDisplacementMap(displacementMap, 0.5, 0.5)).to.equal(55);
+            expect(sampleDisplacementMap(displacementMap, -1, 2)).to.equal(100);
+        });
+    });
+
+    describe("decodeThemedTile", function() {
+        let decoder: RasterDemDecoder;
+
+        function decode(image: DemImageData): Promise<DecodedTile> {
+            return decoder.decodeTile(image as any, tileKey, mercatorProjection);
+        }
+
+        beforeEach(function() {
+            decoder = new RasterDemDecoder();
+            decoder.configure(styleSet, undefined, undefined, { gridResolution: 4 });
+        });
+
+        it("creates terrain geometry with the displacement map", async function() {
+            const decodedTile = await decode(createTerrariumImage(4, 4, () => 500));
+
+            expect(decodedTile.techniques).to.have.length(1);
+            expect(decodedTile.techniques[0].name).to.equal("terrain");
+            expect(decodedTile.geometries).to.have.length(1);
+
+            const geometry = decodedTile.geometries[0];
+            expect(geometry.vertexAttributes!.map(attribute => attribute.name)).to.deep.equal([
+                "position",
+                "normal",
+                "uv"
+            ]);
+            expect(geometry.groups).to.deep.equal([
+                { start: 0, count: geometry.groups[0].count, technique: 0 }
+            ]);
+            // 4 x 4 grid cells and 4 x 4 skirt quads.
+            expect(geometry.groups[0].count).to.equal(2 * 3 * 32);
+
+            const displacementMap = geometry.objInfos![0] as DisplacementMap;
+            expect(displacementMap.xCountVertices).to.equal(5);
+            expect(displacementMap.yCountVertices).to.equal(5);
+            expect(Array.from(displacementMap.buffer).every(height => height === 500)).to.be.true;
+
+            expect(decodedTile.minGeometryHeight).to.equal(0);
+            expect(decodedTile.maxGeometryHeight).to.equal(500);
+        });
+
+        it("places the vertices at the elevation", async function() {
+            const decodedTile = await decode(createTerrariumImage(4, 4, () => 500));
+            const positions = new Float32Array(
+                decodedTile.geometries[0].vertexAttributes![0].buffer
+            );
+
+            // Grid vertices are at the elevation, skirt vertices below it.
+            const gridVertexCount = 25;
+            for (let i = 0; i < gridVertexCount; i++) {
+                expect(positions[i * 3 + 2]).to.equal(500);
+            }
+            expect(positions[gridVertexCount * 3 + 2]).to.be.lessThan(500);
+        });
+
+        it("computes normals from the slope of the terrain", async function() {
+            const flatTile = await decode(createTerrariumImage(4, 4, () => 500));
+            const flatNormals = new Float32Array(
+                flatTile.geometries[0].vertexAttributes![1].buffer
+            );
+            expect(flatNormals[36]).to.be.closeTo(0, 1e-6);
+            expect(flatNormals[37]).to.be.closeTo(0, 1e-6);
+            expect(flatNormals[38]).to.be.closeTo(1, 1e-6);
+
+            // The terrain rises to the east, so the normals lean to the west.
+            const slopedTile = await decode(createTerrariumImage(4, 4, x => x * 10000));
+            const slopedNormals = new Float32Array(
+                slopedTile.geometries[0].vertexAttributes![1].buffer
+            );
+            expect(slopedNormals[36]).to.be.lessThan(0);
+            expect(slopedNormals[37]).to.be.closeTo(0, 1e-6);
+            expect(slopedNormals[38]).to.be.greaterThan(0);
+        });
+
+        it("decodes mapbox encoded tiles if configured", async function() {
+            decoder.configure(undefined, undefined, undefined, { encoding: "mapbox" });
+            const image: DemImageData = {
+                width: 1,
+                height: 1,
+                data: new Uint8Array([1, 173, 176, 255])
+            };
+            const decodedTile = await decode(image);
+
+            expect(decodedTile.maxGeometryHeight).to.be.closeTo(1000, 1e-3);
+        });
+
+        it("creates no geometry without terrain technique", async function() {
+            decoder.configure([{ layer: "water", technique: "terrain" }]);
+            const decodedTile = await decode(createTerrariumImage(4, 4, () => 500));
+
+            expect(decodedTile.geometries).to.have.length(0);
+        });
+
+        it("adds height-based color textures to the technique", async function() {
+            decoder.configure([
+                {
+                    layer: RASTER_DEM_LAYER,
+                    technique: "terrain",
+                    attr: {
+                        heightBasedColors: {
+                            heightArray: [0, 1000],
+                            colorArray: ["#000000", "#ffffff"]
+                        },
+                        heightGradientWidth: 16
+                    }
+                }
+            ]);
+            const decodedTile = await decode(createTerrariumImage(4, 4, () => 500));
+            const technique = decodedTile.techniques[0] as TerrainTechnique;
+
+            expect(isTextureBuffer(technique.displacementMap)).to.be.true;
+            expect(isTextureBuffer(technique.map)).to.be.true;
+            const map = technique.map as any;
+            expect(map.dataTextureProperties).to.deep.equal({
+                width: 16,
+                height: 1,
+                format: "RGBA",
+                type: "UnsignedByte"
+            });
+            expect(map.buffer.byteLength).to.equal(16 * 4);
+        });
+    });
+});
@@ -0,0 +1,149 @@
+/*
+ * Copyright (C) 2017-2020 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+//    Mocha discourages using arrow functions, see https://mochajs.org/#arrow-functions
+
+import {
+    GeoBox,
+    GeoCoordinates,
+    mercatorProjection,
+    TileKey,
+    webMercatorTilingScheme
+} from "@here/harp-geoutils";
+import { CalculationStatus, TileDisplacementMap } from "@here/harp-mapview";
+import { expect } from "chai";
+import * as THREE from "three";
+
+import { RasterDemDataSource } from "../lib/RasterDemDataSource";
+import { RasterDemElevationProvider } from "../lib/RasterDemElevationProvider";
+import { RasterDemElevationRangeSource } from "../lib/RasterDemElevationRangeSource";
+
+function createTileDisplacementMap(tileKey: TileKey, heights: number[]): TileDisplacementMap {
+    const displacementMap = {
+        xCountVertices: 2,
+        yCountVertices: 2,
+        buffer: new Float32Array(heights)
+    };
+    return {
+        tileKey,
+        texture: new THREE.DataTexture(displacementMap.buffer, 2, 2),
+        displacementMap,
+        geoBox: webMercatorTilingScheme.getGeoBox(tileKey)
+    };
+}
+
+// The center of the tile in mercator projection, where the rows of the tile are equally spaced.
+function getMercatorCenter(geoBox: GeoBox): GeoCoordinates {
+    return mercatorProjection.unprojectPoint(
+        mercatorProjection.projectBox(geoBox, new THREE.Box3()).getCenter(new THREE.Vector3())
+    );
+}
+
+describe("RasterDemElevationProvider", function() {
+    const parentKey = TileKey.fromRowColumnLevel(1, 1, 2);
+    const childKey = TileKey.fromRowColumnLevel(2, 2, 3);
+    const loadedTiles = new Map<number, TileDisplacementMap>();
+    const dataSource = ({
+        maxDataLevel: 3,
+        getTilingScheme: () => webMercatorTilingScheme,
+        getDisplacementMap: (tileKey: TileKey) => loadedTiles.get(tileKey.mortonCode()),
+        isDetached: () => true
+    } as any) as RasterDemDataSource;
+
+    beforeEach(function() {
+        loadedTiles.clear();
+        loadedTiles.set(
+            parentKey.mortonCode(),
+            createTileDisplacementMap(parentKey, [0, 100, 200, 300])
+        );
+    });
+
+    describe("elevation provider", function() {
+        const provider = new RasterDemElevationProvider(dataSource);
+
+        it("samples the heights of the displacement map", function() {
+            const displacementMap = provider.getDisplacementMap(parentKey)!;
+            const { south, west, north, east } = displacementMap.geoBox;
+
+            expect(
+                provider.sampleHeight(new GeoCoordinates(south, west), displacementMap)
+            ).to.be.closeTo(0, 1e-3);
+            expect(
+                provider.sampleHeight(new GeoCoordinates(south, east), displacementMap)
+            ).to.be.closeTo(100, 1e-3);
+            expect(
+                provider.sampleHeight(new GeoCoordinates(north, west), displacementMap)
+            ).to.be.closeTo(200, 1e-3);
+            expect(
+                provider.sampleHeight(getMercatorCenter(displacementMap.geoBox), displacementMap)
+            ).to.be.closeTo(150, 1e-3);
+        });
+
+        it("falls back to the displacement map of a parent tile", function() {
+            expect(provider.getDisplacementMap(childKey)!.tileKey).to.equal(parentKey);
+            expect(provider.getDisplacementMap(TileKey.fromRowColumnLevel(0, 0, 3))).to.be
+                .undefined;
+        });
+
+        it("gets the height at a geo point of the given level", function() {
+            const center = getMercatorCenter(webMercatorTilingScheme.getGeoBox(parentKey));
+            expect(provider.getHeight(center, 3)).to.be.closeTo(150, 1e-3);
+            expect(provider.getHeight(new GeoCoordinates(-80, -170), 3)).to.be.undefined;
+        });
+    });
+
+    describe("elevation range source", function() {
+        const rangeSource = new RasterDemElevationRangeSource(dataSource);
+
+        it("returns the final range of loaded tiles", function() {
+            expect(rangeSource.getElevationRange(parentKey)).to.deep.equal({
+                minElevation: 0,
+                maxElevation: 300,
+                calculationStatus: CalculationStatus.FinalPrecise
+            });
+        });
+
+        it("approximates the range with the range of a parent tile", function() {
+            expect(rangeSource.getElevationRange(childKey)).to.deep.equal({
+                minElevation: 0,
+                maxElevation: 300,
+                calculationStatus: CalculationStatus.PendingApproximate
+            });
+
+            loadedTiles.set(
+                childKey.mortonCode(),
+                createTileDisplacementMap(childKey, [0, 0, 50, 50])
+            );
+            expect(rangeSource.getElevationRange(childKey)).to.deep.equal({
+                minElevation: 0,
+                maxElevation: 50,
+                calculationStatus: CalculationStatus.FinalPrecise
+            });
+        });
+
+        it("uses the range of the maximum data level for tiles above it", function() {
+            const grandChildKey = TileKey.fromRowColumnLevel(4, 4, 4);
+            loadedTiles.set(
+                childKey.mortonCode(),
+                createTileDisplacementMap(childKey, [0, 0, 50, 50])
+            );
+
+            expect(rangeSource.getElevationRange(grandChildKey).calculationStatus).to.equal(
+                CalculationStatus.FinalPrecise
+            );
+        });
+
+        it("returns a pending range if no tile is loaded", function() {
+            expect(
+                rangeSource.getElevationRange(TileKey.fromRowColumnLevel(0, 0, 3))
+            ).to.deep.equal({
+                minElevation: 0,
+                maxElevation: 0,
+                calculationStatus: CalculationStatus.PendingApproximate
+            });
+        });
+    });
+});
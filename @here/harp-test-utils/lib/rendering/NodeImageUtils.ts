@@ -0,0 +1,83 @@
+/*
+ * Copyright (C) 2017-2020 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// @here:check-imports:environment:node
+
+import * as fs from "fs";
+import * as path from "path";
+
+import { TestOptions } from "./RenderingTestHelper";
+
+declare const require: any;
+const pixelmatch = require("pixelmatch");
+const PNG = require("pngjs").PNG;
+
+/**
+ * Encode RGBA image data as PNG.
+ */
+export function encodePng(image: ImageData): Buffer {
+    const png = new PNG({ width: image.width, height: image.height });
+    png.data = Buffer.from(image.data);
+    return PNG.sync.write(png);
+}
+
+/**
+ * Decode PNG into RGBA image data.
+ */
+export function decodePng(buffer: Buffer): ImageData {
+    const png = PNG.sync.read(buffer);
+    return {
+        width: png.width,
+        height: png.height,
+        data: new Uint8ClampedArray(png.data)
+    } as ImageData;
+}
+
+/**
+ * Load PNG file from filesystem as `ImageData`.
+ */
+export function loadPng(filePath: string): ImageData {
+    return decodePng(fs.readFileSync(filePath));
+}
+
+/**
+ * Save `ImageData` as PNG file, creating missing directories.
+ */
+export function savePng(filePath: string, image: ImageData) {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, encodePng(image));
+}
+
+/**
+ * Compare two images with specified threshold without using DOM.
+ *
+ * Node.js counterpart of `compareImages` from `DomImageUtils`.
+ */
+export function compareImageData(
+    actualImage: ImageData,
+    referenceImage: ImageData,
+    options: TestOptions
+) {
+    const { width, height } = actualImage;
+    const diffImage = {
+        width,
+        height,
+        data: new Uint8ClampedArray(width * height * 4)
+    } as ImageData;
+
+    const mismatchedPixels = pixelmatch(
+        referenceImage.data,
+        actualImage.data,
+        diffImage.data,
+        width,
+        height,
+        { threshold: options.threshold }
+    );
+    return {
+        mismatchedPixels,
+        diffImage
+    };
+}
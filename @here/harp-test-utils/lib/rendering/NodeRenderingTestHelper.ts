@@ -0,0 +1,115 @@
+/*
+ * Copyright (C) 2017-2020 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// @here:check-imports:environment:node
+
+import { LoggerManager } from "@here/harp-utils";
+import { assert } from "chai";
+import * as fs from "fs";
+import * as path from "path";
+
+import { ImageTestResultLocal, TestImageProps } from "./Interface";
+import { compareImageData, loadPng, savePng } from "./NodeImageUtils";
+import { getOverride } from "./ReferenceImageLocator";
+import { TestOptions } from "./RenderingTestHelper";
+import { getOutputImagePath } from "./RenderingTestResultCommon";
+
+const logger = LoggerManager.instance.create("NodeRenderingTestHelper");
+
+/**
+ * Same defaults as used by `RenderingTestHelper`, i.e. pixel perfect match.
+ */
+const TestOptionsDefaults = {
+    maxMismatchedPixels: 0,
+    threshold: 0
+};
+
+/**
+ * Node.js counterpart of `RenderingTestHelper`, compares images rendered without browser, e.g.
+ * by `HeadlessMapView`, with reference images stored in filesystem.
+ *
+ * Results are stored in the same layout as the one used by `RenderingTestResultServer`, so
+ * `RenderingTestResultCli` can be used to establish and approve reference images.
+ */
+export class NodeRenderingTestHelper {
+    /**
+     * Constructs a new `NodeRenderingTestHelper`.
+     *
+     * @param mochaTest - The running test.
+     * @param baseImageProps - Properties of all images compared by this helper.
+     * @param outputBasePath - Location of reference images and test results.
+     */
+    constructor(
+        public mochaTest: Mocha.Context,
+        public baseImageProps: TestImageProps,
+        readonly outputBasePath: string = "rendering-test-results"
+    ) {}
+
+    /**
+     * Compare actual image vs reference image and store the result as local files.
+     *
+     * Skips the test if there is no reference image yet.
+     *
+     * @param actualImage - actual image
+     * @param name - test name
+     * @param options - test options
+     */
+    async assertImageMatchesReference(actualImage: ImageData, name: string, options?: TestOptions) {
+        const testOptions = { ...TestOptionsDefaults, ...options };
+        const imageProps: TestImageProps = {
+            ...this.baseImageProps,
+            platform: getOverride("IBCT_PLATFORM_OVERRIDE", "nodejs"),
+            name
+        };
+
+        const actualImagePath = this.getImagePath(imageProps, ".current");
+        savePng(actualImagePath, actualImage);
+        const result: ImageTestResultLocal = { imageProps, passed: false, actualImagePath };
+
+        const referenceImagePath = this.getImagePath(imageProps, ".reference");
+        if (!fs.existsSync(referenceImagePath)) {
+            logger.log(`[ERROR] Reference image ${name} not found. Please update reference data`);
+            this.saveResult(imageProps, result);
+            this.mochaTest.skip();
+            return;
+        }
+
+        const referenceImage = loadPng(referenceImagePath);
+        const sameSize =
+            actualImage.width === referenceImage.width &&
+            actualImage.height === referenceImage.height;
+        if (sameSize) {
+            const comparison = compareImageData(actualImage, referenceImage, testOptions);
+            result.diffImagePath = this.getImagePath(imageProps, ".diff");
+            savePng(result.diffImagePath, comparison.diffImage);
+            result.mismatchedPixels = comparison.mismatchedPixels;
+            result.passed = comparison.mismatchedPixels <= testOptions.maxMismatchedPixels;
+        }
+        this.saveResult(imageProps, result);
+
+        assert.equal(actualImage.height, referenceImage.height);
+        assert.equal(actualImage.width, referenceImage.width);
+
+        assert.isAtMost(
+            result.mismatchedPixels!,
+            testOptions.maxMismatchedPixels,
+            `${result.mismatchedPixels} mismatched pixels, reference image: ${name}`
+        );
+    }
+
+    private getImagePath(imageProps: TestImageProps, extra: string) {
+        return getOutputImagePath({ ...imageProps, extra }, this.outputBasePath);
+    }
+
+    private saveResult(imageProps: TestImageProps, result: ImageTestResultLocal) {
+        const resultPath = getOutputImagePath(
+            { ...imageProps, extra: ".ibct-result", extension: ".json" },
+            this.outputBasePath
+        );
+        fs.mkdirSync(path.dirname(resultPath), { recursive: true });
+        fs.writeFileSync(resultPath, JSON.stringify(result, null, 2));
+    }
+}
@@ -0,0 +1,99 @@
+/*
+ * Copyright (C) 2017-2020 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+//    Mocha discourages using arrow functions, see https://mochajs.org/#arrow-functions
+
+import { assert } from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import * as sinon from "sinon";
+
+import { decodePng, encodePng, loadPng, savePng } from "../lib/rendering/NodeImageUtils";
+import { NodeRenderingTestHelper } from "../lib/rendering/NodeRenderingTestHelper";
+
+function createImage(width: number, height: number, rgba: number[]): ImageData {
+    const data = new Uint8ClampedArray(width * height * 4);
+    for (let i = 0; i < data.length; i += 4) {
+        data.set(rgba, i);
+    }
+    return { width, height, data } as ImageData;
+}
+
+describe("NodeImageUtils", function() {
+    it("decodes encoded PNG", function() {
+        const image = createImage(3, 2, [10, 20, 30, 255]);
+
+        const decoded = decodePng(encodePng(image));
+
+        assert.equal(decoded.width, 3);
+        assert.equal(decoded.height, 2);
+        assert.deepEqual(Array.from(decoded.data), Array.from(image.data));
+    });
+});
+
+describe("NodeRenderingTestHelper", function() {
+    let outputPath: string;
+    let mochaTest: Mocha.Context;
+    let skipStub: sinon.SinonStub;
+    const referencePath = (name: string) =>
+        path.join(outputPath, "nodejs", `test-${name}.reference.png`);
+
+    beforeEach(function() {
+        outputPath = fs.mkdtempSync(path.join(os.tmpdir(), "harp-ibct-"));
+        skipStub = sinon.stub();
+        mochaTest = ({ skip: skipStub } as unknown) as Mocha.Context;
+    });
+
+    afterEach(function() {
+        fs.rmdirSync(outputPath, { recursive: true });
+    });
+
+    it("skips test and stores actual image if reference is missing", async function() {
+        const helper = new NodeRenderingTestHelper(mochaTest, { module: "test" }, outputPath);
+
+        await helper.assertImageMatchesReference(createImage(2, 2, [1, 2, 3, 255]), "missing");
+
+        assert.isTrue(skipStub.calledOnce);
+        assert.isTrue(fs.existsSync(path.join(outputPath, "nodejs", "test-missing.current.png")));
+        const result = JSON.parse(
+            fs.readFileSync(
+                path.join(outputPath, "nodejs", "test-missing.ibct-result.json"),
+                "utf-8"
+            )
+        );
+        assert.isFalse(result.passed);
+    });
+
+    it("passes if image matches reference", async function() {
+        const image = createImage(2, 2, [1, 2, 3, 255]);
+        savePng(referencePath("same"), image);
+        const helper = new NodeRenderingTestHelper(mochaTest, { module: "test" }, outputPath);
+
+        await helper.assertImageMatchesReference(image, "same");
+
+        const diff = loadPng(path.join(outputPath, "nodejs", "test-same.diff.png"));
+        assert.equal(diff.width, 2);
+    });
+
+    it("fails if image differs from reference", async function() {
+        savePng(referencePath("different"), createImage(2, 2, [255, 255, 255, 255]));
+        const helper = new NodeRenderingTestHelper(mochaTest, { module: "test" }, outputPath);
+
+        let error: Error | undefined;
+        try {
+            await helper.assertImageMatchesReference(
+                createImage(2, 2, [0, 0, 0, 255]),
+                "different"
+            );
+        } catch (e) {
+            error = e;
+        }
+
+        assert.isDefined(error);
+        assert.include(error!.message, "4 mismatched pixels");
+    });
+});
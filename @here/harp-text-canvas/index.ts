@@ -14,6 +14,8 @@
 
 export * from "./lib/rendering/FontCatalog";
 export * from "./lib/rendering/GlyphData";
+export * from "./lib/rendering/OpenTypeFont";
+export * from "./lib/rendering/SdfGlyphGenerator";
 export * from "./lib/rendering/TextStyle";
 export * from "./lib/rendering/TextBufferObject";
 export * from "./lib/TextCanvas";
@@ -3,12 +3,15 @@
  * Licensed under Apache 2.0, see full license in LICENSE
  * SPDX-License-Identifier: Apache-2.0
  */
+import { getAppBaseUrl, resolveReferenceUri } from "@here/harp-utils";
 import * as THREE from "three";
 
 import { MemoryUsage } from "../TextCanvas";
 import { UnicodeUtils } from "../utils/UnicodeUtils";
+import { GlyphAtlas } from "./GlyphAtlas";
 import { GlyphData } from "./GlyphData";
 import { GlyphTextureCache } from "./GlyphTextureCache";
+import { SdfGlyphBitmap, SdfGlyphGenerator, SdfGlyphSource } from "./SdfGlyphGenerator";
 import { FontStyle, FontVariant, TextRenderStyle } from "./TextStyle";
 
 const ASSETS_PATH = "_Assets/";
@@ -16,6 +19,9 @@ const BOLD_ASSETS_PATH = "_BoldAssets/";
 const ITALIC_ASSETS_PATH = "_ItalicAssets/";
 const BOLD_ITALIC_ASSETS_PATH = "_BoldItalicAssets/";
 const REPLACEMENT_PATH = "_Assets/Extra/";
+const REPLACEMENT_CODE_POINT = 65533;
+const DEFAULT_RUNTIME_FONT_SIZE = 32;
+const DEFAULT_RUNTIME_DISTANCE_RANGE = 8;
 
 interface SrcGlyphData {
     id: number;
@@ -30,6 +36,44 @@ interface SrcGlyphData {
     chnl: number;
 }
 
+/**
+ * Fonts a [[FontCatalog]] generates its glyphs from at runtime.
+ */
+interface RuntimeFontSet {
+    source: SdfGlyphSource;
+    urls: string[];
+    atlas: GlyphAtlas;
+    maxGlyphSize: number;
+}
+
+/**
+ * Adds the bitmap of a glyph generated at runtime to an atlas and creates its [[GlyphData]].
+ */
+function createRuntimeGlyph(
+    bitmap: SdfGlyphBitmap,
+    font: Font,
+    atlas: GlyphAtlas,
+    isReplacement: boolean
+): GlyphData {
+    const region = atlas.add(bitmap.width, bitmap.height, bitmap.data);
+    return new GlyphData(
+        bitmap.codePoint,
+        UnicodeUtils.getRtlBlock(bitmap.codePoint) ?? "",
+        bitmap.width,
+        bitmap.height,
+        bitmap.advanceX,
+        bitmap.offsetX,
+        bitmap.offsetY,
+        region.u0,
+        region.v0,
+        region.u1,
+        region.v1,
+        region.texture,
+        font,
+        isReplacement
+    );
+}
+
 /**
  * Metrics defining the placement and rendering of all glyphs in a given [[Font]].
  */
@@ -77,6 +121,8 @@ export interface UnicodeBlock {
  * Bitmap information coming from all different fonts is then stored in a unified WebGL GPU Texture
  * resource, which can be sampled to render all currently loaded glyphs.
  *
+ * A `FontCatalog` can also be created from TrueType or OpenType fonts with
+ * [[FontCatalog.loadFonts]], it then generates the SDF bitmaps of glyphs on demand.
  */
 export class FontCatalog {
     /**
@@ -138,6 +184,79 @@ export class FontCatalog {
         return fontCatalogInfo;
     }
 
+    /**
+     * Creates a `FontCatalog` that generates SDF glyphs from TrueType or OpenType fonts at
+     * runtime, instead of loading pre-generated assets.
+     *
+     * @remarks
+     * The glyph of each code point is taken from the first font supporting it, so text in any
+     * script supported by one of the fonts can be rendered. Code points not supported by any font
+     * get the `.notdef` glyph of the first font as replacement glyph.
+     *
+     * @param paths - Font urls, in fallback order.
+     * @param maxCodePointCount - Maximum number of unique code points bitmaps this `FontCatalog`'s
+     * internal texture can store simultaneously.
+     * @param glyphSource - Generator of the glyph bitmaps, e.g. running in web workers. By default,
+     * glyphs are generated on the main thread by a [[SdfGlyphGenerator]].
+     * @param size - Font size in pixels the glyphs are generated at.
+     * @param distanceRange - Distance range of the generated SDF bitmaps in pixels.
+     *
+     * @returns `FontCatalog` Promise.
+     */
+    static async loadFonts(
+        paths: string[],
+        maxCodePointCount: number,
+        glyphSource: SdfGlyphSource = new SdfGlyphGenerator(),
+        size: number = DEFAULT_RUNTIME_FONT_SIZE,
+        distanceRange: number = DEFAULT_RUNTIME_DISTANCE_RANGE
+    ): Promise<FontCatalog> {
+        if (paths.length === 0) {
+            throw new Error("FontCatalog needs at least one font");
+        }
+        const urls = paths.map(path => resolveReferenceUri(getAppBaseUrl(), path));
+        const maxGlyphSize = 2 * (size + Math.ceil(distanceRange / 2));
+        const response = await glyphSource.generateGlyphs({
+            fonts: urls,
+            codePoints: [REPLACEMENT_CODE_POINT],
+            size,
+            distanceRange,
+            maxGlyphSize
+        });
+
+        const fonts: Font[] = [];
+        for (let i = 0; i < urls.length; ++i) {
+            let name = urls[i].substr(urls[i].lastIndexOf("/") + 1).replace(/\.[^.]*$/, "");
+            if (fonts.find(font => font.name === name) !== undefined) {
+                name = `${name}_${i}`;
+            }
+            fonts.push({ name, metrics: response.fontMetrics[i], charset: "" });
+        }
+
+        const atlas = new GlyphAtlas();
+        const replacementBitmap = response.glyphs[0];
+        const replacementGlyph = createRuntimeGlyph(
+            replacementBitmap,
+            fonts[replacementBitmap.fontIndex],
+            atlas,
+            true
+        );
+
+        return new FontCatalog(
+            urls[0].substr(0, urls[0].lastIndexOf("/")),
+            fonts[0].name,
+            "sdf",
+            size,
+            maxGlyphSize,
+            maxGlyphSize,
+            distanceRange,
+            fonts,
+            [],
+            maxCodePointCount,
+            replacementGlyph,
+            { source: glyphSource, urls, atlas, maxGlyphSize }
+        );
+    }
+
     static async loadTexture(url: string): Promise<THREE.Texture> {
         return await new Promise(resolve => {
             new THREE.TextureLoader().load(url, resolve);
@@ -161,6 +280,7 @@ export class FontCatalog {
     private readonly m_loadedJson: Map<string, any>;
     private readonly m_loadedPages: Map<string, THREE.Texture>;
     private readonly m_loadedGlyphs: Map<string, Map<number, GlyphData>>;
+    private readonly m_runtimeFonts = new Map<number, Font>();
 
     /** If `true`, a replacement glyph is returned for every missing glyph. */
     public showReplacementGlyphs = false;
@@ -182,6 +302,7 @@ export class FontCatalog {
      * internal texture can store simultaneously.
      * @param m_replacementGlyph - [[GlyphData]] to be used whenever a Unicode code point is not
      * supported by this `FontCatalog`.
+     * @param m_runtimeFontSet - Fonts to generate glyphs from at runtime, if there are no assets.
      *
      * @returns New FontCatalog.
      */
@@ -196,7 +317,8 @@ export class FontCatalog {
         readonly fonts: Font[],
         readonly unicodeBlocks: UnicodeBlock[],
         readonly maxCodePointCount: number,
-        private readonly m_replacementGlyph: GlyphData
+        private readonly m_replacementGlyph: GlyphData,
+        private readonly m_runtimeFontSet?: RuntimeFontSet
     ) {
         this.m_glyphTextureCache = new GlyphTextureCache(
             maxCodePointCount,
@@ -225,6 +347,10 @@ export class FontCatalog {
         this.m_loadedJson.clear();
         this.m_loadedPages.clear();
         this.m_loadedGlyphs.clear();
+        if (this.m_runtimeFontSet !== undefined) {
+            this.m_runtimeFonts.clear();
+            this.m_runtimeFontSet.atlas.clear();
+        }
     }
 
     /**
@@ -238,6 +364,10 @@ export class FontCatalog {
         this.m_loadedJson.clear();
         this.m_loadedPages.clear();
         this.m_loadedGlyphs.clear();
+        if (this.m_runtimeFontSet !== undefined) {
+            this.m_runtimeFonts.clear();
+            this.m_runtimeFontSet.atlas.clear();
+        }
     }
 
     /**
@@ -371,6 +501,10 @@ export class FontCatalog {
                 return s.indexOf(c) + 1 ? "" : c;
             }
         );
+        if (this.m_runtimeFontSet !== undefined) {
+            return this.loadRuntimeCharset(charset, fontStyle, this.m_runtimeFontSet);
+        }
+
         const glyphPromises: Array<Promise<GlyphData>> = [];
         for (const char of charset) {
             const codePoint = char.codePointAt(0)!;
@@ -491,6 +625,14 @@ export class FontCatalog {
      * @returns Best matched font.
      */
     getFont(codePoint: number, fontName?: string): Font {
+        if (this.m_runtimeFontSet !== undefined) {
+            // Fonts of glyphs generated at runtime are only known once they're loaded.
+            const runtimeFont = this.m_runtimeFonts.get(codePoint);
+            if (runtimeFont !== undefined) {
+                return runtimeFont;
+            }
+        }
+
         let selectedFontName: string = this.fonts[0].name;
         for (const block of this.unicodeBlocks) {
             if (codePoint >= block.min && codePoint <= block.max) {
@@ -535,10 +677,97 @@ export class FontCatalog {
             }
         }
 
+        if (this.m_runtimeFontSet !== undefined) {
+            for (const page of this.m_runtimeFontSet.atlas.pages) {
+                textureBytes += page.image.width * page.image.height * 4;
+            }
+        }
+
         info.heapSize += numBytes + textureBytes;
         info.gpuSize += textureBytes;
     }
 
+    private loadRuntimeCharset(
+        charset: string,
+        fontStyle: FontStyle,
+        runtimeFontSet: RuntimeFontSet
+    ): Promise<GlyphData[]> {
+        const glyphPromises: Array<Promise<GlyphData>> = [];
+        const codePoints: number[] = [];
+        for (const char of charset) {
+            const codePoint = char.codePointAt(0)!;
+            const font = this.m_runtimeFonts.get(codePoint);
+            const glyph =
+                font !== undefined ? this.getGlyph(codePoint, font, fontStyle) : undefined;
+            if (glyph !== undefined) {
+                const glyphHash = `${font!.name}_${fontStyle}_${codePoint}`;
+                if (!this.m_glyphTextureCache.has(glyphHash)) {
+                    glyphPromises.push(Promise.resolve(glyph));
+                    this.m_glyphTextureCache.add(glyphHash, glyph);
+                }
+                continue;
+            }
+
+            // The font of a glyph is unknown until generated, loading glyphs are stored by style.
+            const glyphPromise = this.m_loadingGlyphs.get(`${fontStyle}_${codePoint}`);
+            if (glyphPromise !== undefined) {
+                glyphPromises.push(glyphPromise);
+            } else {
+                codePoints.push(codePoint);
+            }
+        }
+
+        if (codePoints.length > 0) {
+            const responsePromise = runtimeFontSet.source.generateGlyphs({
+                fonts: runtimeFontSet.urls,
+                codePoints,
+                size: this.size,
+                distanceRange: this.distanceRange,
+                maxGlyphSize: runtimeFontSet.maxGlyphSize
+            });
+            codePoints.forEach((codePoint, index) => {
+                const loadingHash = `${fontStyle}_${codePoint}`;
+                const glyphPromise = responsePromise
+                    .then(response =>
+                        this.addRuntimeGlyph(response.glyphs[index], fontStyle, runtimeFontSet)
+                    )
+                    .finally(() => {
+                        this.m_loadingGlyphs.delete(loadingHash);
+                    });
+                this.m_loadingGlyphs.set(loadingHash, glyphPromise);
+                glyphPromises.push(glyphPromise);
+            });
+        }
+
+        return Promise.all(glyphPromises);
+    }
+
+    private addRuntimeGlyph(
+        bitmap: SdfGlyphBitmap,
+        fontStyle: FontStyle,
+        runtimeFontSet: RuntimeFontSet
+    ): GlyphData {
+        const font = this.fonts[bitmap.fontIndex];
+        // Glyphs for ASCII control characters and such are not really replacement glyphs.
+        const glyph = createRuntimeGlyph(
+            bitmap,
+            font,
+            runtimeFontSet.atlas,
+            bitmap.isMissing && UnicodeUtils.isPrintable(bitmap.codePoint)
+        );
+        this.m_runtimeFonts.set(bitmap.codePoint, font);
+
+        const fontHash = `${font.name}_${fontStyle}`;
+        let fontGlyphMap = this.m_loadedGlyphs.get(fontHash);
+        if (fontGlyphMap === undefined) {
+            fontGlyphMap = new Map();
+            this.m_loadedGlyphs.set(fontHash, fontGlyphMap);
+        }
+        fontGlyphMap.set(bitmap.codePoint, glyph);
+        this.m_glyphTextureCache.add(`${fontHash}_${bitmap.codePoint}`, glyph);
+        return glyph;
+    }
+
     private createReplacementGlyph(codePoint: number, char: string, font: Font): GlyphData {
         const replacementGlyph = this.m_replacementGlyph.clone();
         (replacementGlyph as any).codePoint = codePoint;
@@ -0,0 +1,117 @@
+/*
+ * Copyright (C) 2017-2020 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import * as THREE from "three";
+
+/**
+ * Area of a [[GlyphAtlas]] page containing a glyph bitmap.
+ */
+export interface GlyphAtlasRegion {
+    texture: THREE.Texture;
+    u0: number;
+    v0: number;
+    u1: number;
+    v1: number;
+}
+
+/**
+ * Texture atlas pages storing glyph bitmaps generated at runtime, the counterpart of the
+ * pre-generated pages of a [[FontCatalog]]'s assets.
+ *
+ * @remarks
+ * Bitmaps are packed in rows, a new page is created once a page is full. Pages are single channel
+ * textures, which are read like the RGB pages of SDF and MSDF assets.
+ */
+export class GlyphAtlas {
+    private readonly m_pages: THREE.DataTexture[] = [];
+    private m_x = 0;
+    private m_y = 0;
+    private m_rowHeight = 0;
+
+    /**
+     * Creates a new `GlyphAtlas`.
+     *
+     * @param pageSize - Width and height of each page in pixels.
+     */
+    constructor(readonly pageSize: number = 512) {}
+
+    /**
+     * Atlas pages created so far.
+     */
+    get pages(): THREE.Texture[] {
+        return this.m_pages;
+    }
+
+    /**
+     * Adds a glyph bitmap to the atlas.
+     *
+     * @param width - Bitmap width, at most [[pageSize]].
+     * @param height - Bitmap height, at most [[pageSize]].
+     * @param data - Bitmap pixels, row by row from top to bottom.
+     * @returns The texture and texture coordinates of the bitmap.
+     */
+    add(width: number, height: number, data: Uint8Array): GlyphAtlasRegion {
+        if (this.m_x + width > this.pageSize) {
+            this.m_x = 0;
+            this.m_y += this.m_rowHeight;
+            this.m_rowHeight = 0;
+        }
+        if (this.m_pages.length === 0 || this.m_y + height > this.pageSize) {
+            this.addPage();
+        }
+
+        const page = this.m_pages[this.m_pages.length - 1];
+        const pixels = page.image.data;
+        // Pages are not flipped, their first row is at the bottom of the texture.
+        for (let row = 0; row < height; ++row) {
+            pixels.set(
+                data.subarray(row * width, (row + 1) * width),
+                (this.m_y + height - 1 - row) * this.pageSize + this.m_x
+            );
+        }
+        page.needsUpdate = true;
+
+        const region = {
+            texture: page,
+            u0: this.m_x / this.pageSize,
+            v0: this.m_y / this.pageSize,
+            u1: (this.m_x + width) / this.pageSize,
+            v1: (this.m_y + height) / this.pageSize
+        };
+        this.m_x += width;
+        this.m_rowHeight = Math.max(this.m_rowHeight, height);
+        return region;
+    }
+
+    /**
+     * Removes all pages.
+     */
+    clear() {
+        for (const page of this.m_pages) {
+            page.dispose();
+        }
+        this.m_pages.length = 0;
+        this.m_x = 0;
+        this.m_y = 0;
+        this.m_rowHeight = 0;
+    }
+
+    private addPage() {
+        const page = new THREE.DataTexture(
+            new Uint8Array(this.pageSize * this.pageSize),
+            this.pageSize,
+            this.pageSize,
+            THREE.LuminanceFormat
+        );
+        page.wrapS = THREE.ClampToEdgeWrapping;
+        page.wrapT = THREE.ClampToEdgeWrapping;
+        page.minFilter = THREE.NearestFilter;
+        page.unpackAlignment = 1;
+        this.m_pages.push(page);
+        this.m_x = 0;
+        this.m_y = 0;
+        this.m_rowHeight = 0;
+    }
+}
@@ -0,0 +1,1015 @@
+/*
+ * Copyright (C) 2017-2020 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Outline of a glyph, as a list of closed contours. Each contour is a polyline stored as a flat
+ * array of `x, y` coordinates in font units, with curves already flattened.
+ */
+export type GlyphOutline = number[][];
+
+/**
+ * Maximum nesting of composite glyphs and charstring subroutines.
+ */
+const MAX_RECURSION_DEPTH = 16;
+
+/**
+ * Maximum number of line segments a single curve is flattened to.
+ */
+const MAX_CURVE_SEGMENTS = 32;
+
+interface TableRecord {
+    offset: number;
+    length: number;
+}
+
+interface CffFontDict {
+    subrs: Uint8Array[];
+}
+
+interface CffData {
+    globalSubrs: Uint8Array[];
+    charStrings: Uint8Array[];
+    fontDicts: CffFontDict[];
+    fdSelect?: Uint8Array;
+}
+
+/**
+ * Builds the flattened contours of a glyph outline.
+ */
+class OutlineBuilder {
+    readonly outline: GlyphOutline = [];
+    private m_contour: number[] | undefined;
+    private m_x = 0;
+    private m_y = 0;
+
+    constructor(private readonly m_tolerance: number) {}
+
+    moveTo(x: number, y: number) {
+        this.close();
+        this.m_contour = [x, y];
+        this.m_x = x;
+        this.m_y = y;
+    }
+
+    lineTo(x: number, y: number) {
+        if (this.m_contour === undefined) {
+            this.moveTo(this.m_x, this.m_y);
+        }
+        this.m_contour!.push(x, y);
+        this.m_x = x;
+        this.m_y = y;
+    }
+
+    quadTo(cx: number, cy: number, x: number, y: number) {
+        const x0 = this.m_x;
+        const y0 = this.m_y;
+        const steps = this.segmentCount(Math.hypot(x0 - 2 * cx + x, y0 - 2 * cy + y));
+        for (let i = 1; i < steps; ++i) {
+            const t = i / steps;
+            const mt = 1 - t;
+            this.lineTo(
+                mt * mt * x0 + 2 * mt * t * cx + t * t * x,
+                mt * mt * y0 + 2 * mt * t * cy + t * t * y
+            );
+        }
+        this.lineTo(x, y);
+    }
+
+    cubicTo(c1x: number, c1y: number, c2x: number, c2y: number, x: number, y: number) {
+        const x0 = this.m_x;
+        const y0 = this.m_y;
+        const steps = this.segmentCount(
+            1.5 *
+                Math.max(
+                    Math.hypot(x0 - 2 * c1x + c2x, y0 - 2 * c1y + c2y),
+                    Math.hypot(c1x - 2 * c2x + x, c1y - 2 * c2y + y)
+                )
+        );
+        for (let i = 1; i < steps; ++i) {
+            const t = i / steps;
+            const mt = 1 - t;
+            const a = mt * mt * mt;
+            const b = 3 * mt * mt * t;
+            const c = 3 * mt * t * t;
+            const d = t * t * t;
+            this.lineTo(a * x0 + b * c1x + c * c2x + d * x, a * y0 + b * c1y + c * c2y + d * y);
+        }
+        this.lineTo(x, y);
+    }
+
+    close() {
+        const contour = this.m_contour;
+        if (contour !== undefined) {
+            const n = contour.length;
+            // Contours are implicitly closed, the closing point isn't repeated.
+            if (n >= 4 && contour[0] === contour[n - 2] && contour[1] === contour[n - 1]) {
+                contour.length = n - 2;
+            }
+        }
+        // Contours need at least three points to enclose an area.
+        if (contour !== undefined && contour.length >= 6) {
+            this.outline.push(contour);
+        }
+        this.m_contour = undefined;
+    }
+
+    private segmentCount(curvature: number): number {
+        return Math.min(
+            MAX_CURVE_SEGMENTS,
+            Math.max(1, Math.ceil(Math.sqrt(curvature / (4 * this.m_tolerance))))
+        );
+    }
+}
+
+/**
+ * Reads the entries of a CFF INDEX structure.
+ *
+ * @returns The entries and the offset of the first byte after the INDEX.
+ */
+function readCffIndex(view: DataView, offset: number): { entries: Uint8Array[]; end: number } {
+    const count = view.getUint16(offset);
+    if (count === 0) {
+        return { entries: [], end: offset + 2 };
+    }
+    const offSize = view.getUint8(offset + 2);
+    const readOffset = (index: number) => {
+        let value = 0;
+        for (let i = 0; i < offSize; ++i) {
+            value = value * 256 + view.getUint8(offset + 3 + index * offSize + i);
+        }
+        return value;
+    };
+    // Offsets are relative to the byte before the object data.
+    const dataStart = offset + 2 + (count + 1) * offSize;
+    const entries: Uint8Array[] = [];
+    for (let i = 0; i < count; ++i) {
+        entries.push(
+            new Uint8Array(
+                view.buffer,
+                view.byteOffset + dataStart + readOffset(i),
+                readOffset(i + 1) - readOffset(i)
+            )
+        );
+    }
+    return { entries, end: dataStart + readOffset(count) };
+}
+
+/**
+ * Parses a CFF DICT into a map from operator to operands. Two byte operators are stored as
+ * `1200 + second byte`.
+ */
+function parseCffDict(data: Uint8Array): Map<number, number[]> {
+    const dict = new Map<number, number[]>();
+    let operands: number[] = [];
+    let i = 0;
+    while (i < data.length) {
+        const b0 = data[i++];
+        if (b0 <= 21) {
+            dict.set(b0 === 12 ? 1200 + data[i++] : b0, operands);
+            operands = [];
+        } else if (b0 === 28) {
+            operands.push(((data[i] << 24) | (data[i + 1] << 16)) >> 16);
+            i += 2;
+        } else if (b0 === 29) {
+            operands.push((data[i] << 24) | (data[i + 1] << 16) | (data[i + 2] << 8) | data[i + 3]);
+            i += 4;
+        } else if (b0 === 30) {
+            // Real numbers are encoded in nibbles, they are not needed for outlines.
+            while (i < data.length) {
+                const nibbles = data[i++];
+                if ((nibbles & 0x0f) === 0x0f || nibbles >> 4 === 0x0f) {
+                    break;
+                }
+            }
+            operands.push(0);
+        } else if (b0 >= 32 && b0 <= 246) {
+            operands.push(b0 - 139);
+        } else if (b0 >= 247 && b0 <= 250) {
+            operands.push((b0 - 247) * 256 + data[i++] + 108);
+        } else if (b0 >= 251 && b0 <= 254) {
+            operands.push(-(b0 - 251) * 256 - data[i++] - 108);
+        }
+    }
+    return dict;
+}
+
+function subrBias(subrs: Uint8Array[]): number {
+    return subrs.length < 1240 ? 107 : subrs.length < 33900 ? 1131 : 32768;
+}
+
+/**
+ * Minimal parser of TrueType and OpenType fonts, which provides the metrics and outlines of glyphs
+ * needed to rasterize them.
+ *
+ * @remarks
+ * Supports glyph outlines in `glyf` tables (including composite glyphs) and `CFF ` tables
+ * (including CID-keyed fonts), and character maps of format 4 and 12. Hinting, kerning and glyph
+ * substitutions are not supported. Font collections are read from their first font.
+ */
+export class OpenTypeFont {
+    /**
+     * Parses a TrueType or OpenType font.
+     *
+     * @param buffer - Font file contents.
+     * @returns The parsed font.
+     * @throws If the font is invalid or has no supported outlines.
+     */
+    static parse(buffer: ArrayBuffer): OpenTypeFont {
+        return new OpenTypeFont(new DataView(buffer));
+    }
+
+    /**
+     * Number of font units per em square.
+     */
+    readonly unitsPerEm: number;
+
+    /**
+     * Distance from the baseline to the top of the line, in font units.
+     */
+    readonly ascender: number;
+
+    /**
+     * Distance from the baseline to the bottom of the line, in font units (negative if below).
+     */
+    readonly descender: number;
+
+    /**
+     * Additional space between lines, in font units.
+     */
+    readonly lineGap: number;
+
+    /**
+     * Height of capital letters, in font units, if stored in the font.
+     */
+    readonly capHeight?: number;
+
+    /**
+     * Height of lowercase letters, in font units, if stored in the font.
+     */
+    readonly xHeight?: number;
+
+    /**
+     * Number of glyphs in the font.
+     */
+    readonly numGlyphs: number;
+
+    private readonly m_tables = new Map<string, TableRecord>();
+    private readonly m_numberOfHMetrics: number;
+    private readonly m_cmapFormat: number;
+    private readonly m_cmapOffset: number;
+    private readonly m_cff?: CffData;
+
+    private constructor(private readonly m_view: DataView) {
+        let fontOffset = 0;
+        if (this.readTag(0) === "ttcf") {
+            fontOffset = m_view.getUint32(12);
+        }
+        const numTables = m_view.getUint16(fontOffset + 4);
+        for (let i = 0; i < numTables; ++i) {
+            const record = fontOffset + 12 + i * 16;
+            this.m_tables.set(this.readTag(record), {
+                offset: m_view.getUint32(record + 8),
+                length: m_view.getUint32(record + 12)
+            });
+        }
+
+        const head = this.getTable("head");
+        const hhea = this.getTable("hhea");
+        this.unitsPerEm = m_view.getUint16(head + 18);
+        this.ascender = m_view.getInt16(hhea + 4);
+        this.descender = m_view.getInt16(hhea + 6);
+        this.lineGap = m_view.getInt16(hhea + 8);
+        this.m_numberOfHMetrics = m_view.getUint16(hhea + 34);
+        this.numGlyphs = m_view.getUint16(this.getTable("maxp") + 4);
+
+        const os2 = this.m_tables.get("OS/2");
+        if (os2 !== undefined && m_view.getUint16(os2.offset) >= 2 && os2.length >= 90) {
+            this.xHeight = m_view.getInt16(os2.offset + 86);
+            this.capHeight = m_view.getInt16(os2.offset + 88);
+        }
+
+        const cmap = this.findCmapSubtable();
+        this.m_cmapOffset = cmap;
+        this.m_cmapFormat = m_view.getUint16(cmap);
+
+        if (this.m_tables.has("CFF ")) {
+            this.m_cff = this.parseCff(this.getTable("CFF "));
+        } else if (!this.m_tables.has("glyf") || !this.m_tables.has("loca")) {
+            throw new Error("Font has no supported glyph outlines");
+        }
+    }
+
+    /**
+     * Gets the index of the glyph mapped to a Unicode code point.
+     *
+     * @param codePoint - Unicode code point.
+     * @returns The glyph index, `0` (the `.notdef` glyph) if the code point is not in the font.
+     */
+    getGlyphIndex(codePoint: number): number {
+        const view = this.m_view;
+        const cmap = this.m_cmapOffset;
+
+        if (this.m_cmapFormat === 12) {
+            let low = 0;
+            let high = view.getUint32(cmap + 12) - 1;
+            while (low <= high) {
+                const mid = (low + high) >> 1;
+                const group = cmap + 16 + mid * 12;
+                if (codePoint < view.getUint32(group)) {
+                    high = mid - 1;
+                } else if (codePoint > view.getUint32(group + 4)) {
+                    low = mid + 1;
+                } else {
+                    return view.getUint32(group + 8) + codePoint - view.getUint32(group);
+                }
+            }
+            return 0;
+        }
+
+        if (codePoint > 0xffff) {
+            return 0;
+        }
+        const segCountX2 = view.getUint16(cmap + 6);
+        const endCodes = cmap + 14;
+        const startCodes = endCodes + segCountX2 + 2;
+        const idDeltas = startCodes + segCountX2;
+        const idRangeOffsets = idDeltas + segCountX2;
+        for (let segment = 0; segment < segCountX2; segment += 2) {
+            if (view.getUint16(endCodes + segment) < codePoint) {
+                continue;
+            }
+            const start = view.getUint16(startCodes + segment);
+            if (start > codePoint) {
+                return 0;
+            }
+            const idDelta = view.getUint16(idDeltas + segment);
+            const idRangeOffset = view.getUint16(idRangeOffsets + segment);
+            if (idRangeOffset === 0) {
+                return (codePoint + idDelta) & 0xffff;
+            }
+            const glyphIndex = view.getUint16(
+                idRangeOffsets + segment + idRangeOffset + (codePoint - start) * 2
+            );
+            return glyphIndex === 0 ? 0 : (glyphIndex + idDelta) & 0xffff;
+        }
+        return 0;
+    }
+
+    /**
+     * Checks if the font has a glyph for a Unicode code point.
+     *
+     * @param codePoint - Unicode code point.
+     */
+    hasGlyph(codePoint: number): boolean {
+        return this.getGlyphIndex(codePoint) !== 0;
+    }
+
+    /**
+     * Gets the horizontal advance of a glyph.
+     *
+     * @param glyphIndex - Glyph index.
+     * @returns The advance in font units.
+     */
+    getAdvanceWidth(glyphIndex: number): number {
+        const hmtx = this.getTable("hmtx");
+        const metric = Math.min(glyphIndex, this.m_numberOfHMetrics - 1);
+        return this.m_view.getUint16(hmtx + metric * 4);
+    }
+
+    /**
+     * Gets the outline of a glyph.
+     *
+     * @param glyphIndex - Glyph index.
+     * @param tolerance - Maximum distance between curves and their flattened polylines, in font
+     * units.
+     * @returns The outline of the glyph, empty for glyphs without contours (e.g. spaces).
+     */
+    getGlyphOutline(glyphIndex: number, tolerance: number): GlyphOutline {
+        const builder = new OutlineBuilder(tolerance);
+        if (glyphIndex >= 0 && glyphIndex < this.numGlyphs) {
+            if (this.m_cff !== undefined) {
+                this.buildCffGlyph(builder, glyphIndex);
+            } else {
+                this.buildTrueTypeGlyph(builder, glyphIndex, 0);
+            }
+        }
+        builder.close();
+        return builder.outline;
+    }
+
+    private readTag(offset: number): string {
+        return String.fromCharCode(
+            this.m_view.getUint8(offset),
+            this.m_view.getUint8(offset + 1),
+            this.m_view.getUint8(offset + 2),
+            this.m_view.getUint8(offset + 3)
+        );
+    }
+
+    private getTable(tag: string): number {
+        const table = this.m_tables.get(tag);
+        if (table === undefined) {
+            throw new Error(`Font has no '${tag}' table`);
+        }
+        return table.offset;
+    }
+
+    private findCmapSubtable(): number {
+        const view = this.m_view;
+        const cmap = this.getTable("cmap");
+        const numTables = view.getUint16(cmap + 2);
+
+        let best: number | undefined;
+        for (let i = 0; i < numTables; ++i) {
+            const record = cmap + 4 + i * 8;
+            const platformId = view.getUint16(record);
+            const encodingId = view.getUint16(record + 2);
+            const subtable = cmap + view.getUint32(record + 4);
+            const format = view.getUint16(subtable);
+            const isUnicode =
+                platformId === 0 || (platformId === 3 && (encodingId === 1 || encodingId === 10));
+            if (!isUnicode) {
+                continue;
+            }
+            // Full Unicode coverage in format 12 is preferred to BMP only format 4 subtables.
+            if (format === 12) {
+                return subtable;
+            } else if (format === 4 && best === undefined) {
+                best = subtable;
+            }
+        }
+        if (best === undefined) {
+            throw new Error("Font has no supported Unicode character map");
+        }
+        return best;
+    }
+
+    private buildTrueTypeGlyph(builder: OutlineBuilder, glyphIndex: number, depth: number) {
+        const view = this.m_view;
+        const loca = this.getTable("loca");
+        const longOffsets = view.getInt16(this.getTable("head") + 50) !== 0;
+        const start = longOffsets
+            ? view.getUint32(loca + glyphIndex * 4)
+            : view.getUint16(loca + glyphIndex * 2) * 2;
+        const end = longOffsets
+            ? view.getUint32(loca + glyphIndex * 4 + 4)
+            : view.getUint16(loca + glyphIndex * 2 + 2) * 2;
+        if (end <= start) {
+            return;
+        }
+
+        const glyph = this.getTable("glyf") + start;
+        const numberOfContours = view.getInt16(glyph);
+        if (numberOfContours >= 0) {
+            this.buildSimpleGlyph(builder, glyph, numberOfContours);
+        } else if (depth < MAX_RECURSION_DEPTH) {
+            this.buildCompositeGlyph(builder, glyph, depth);
+        }
+    }
+
+    private buildSimpleGlyph(builder: OutlineBuilder, glyph: number, numberOfContours: number) {
+        const view = this.m_view;
+        const endPoints: number[] = [];
+        for (let i = 0; i < numberOfContours; ++i) {
+            endPoints.push(view.getUint16(glyph + 10 + i * 2));
+        }
+        const numPoints = numberOfContours > 0 ? endPoints[numberOfContours - 1] + 1 : 0;
+        let offset = glyph + 10 + numberOfContours * 2;
+        offset += 2 + view.getUint16(offset);
+
+        const flags = new Uint8Array(numPoints);
+        for (let i = 0; i < numPoints; ) {
+            const flag = view.getUint8(offset++);
+            let repeat = flag & 0x08 ? view.getUint8(offset++) + 1 : 1;
+            while (repeat-- > 0 && i < numPoints) {
+                flags[i++] = flag;
+            }
+        }
+
+        const readCoordinates = (shortBit: number, sameBit: number) => {
+            const coordinates = new Float64Array(numPoints);
+            let value = 0;
+            for (let i = 0; i < numPoints; ++i) {
+                const flag = flags[i];
+                if (flag & shortBit) {
+                    const delta = view.getUint8(offset++);
+                    value += flag & sameBit ? delta : -delta;
+                } else if (!(flag & sameBit)) {
+                    value += view.getInt16(offset);
+                    offset += 2;
+                }
+                coordinates[i] = value;
+            }
+            return coordinates;
+        };
+        const xs = readCoordinates(0x02, 0x10);
+        const ys = readCoordinates(0x04, 0x20);
+
+        let first = 0;
+        for (const last of endPoints) {
+            const count = last - first + 1;
+            if (count > 0) {
+                this.buildQuadraticContour(builder, xs, ys, flags, first, count);
+            }
+            first = last + 1;
+        }
+    }
+
+    private buildQuadraticContour(
+        builder: OutlineBuilder,
+        xs: Float64Array,
+        ys: Float64Array,
+        flags: Uint8Array,
+        first: number,
+        count: number
+    ) {
+        const onCurve = (i: number) => (flags[first + (i % count)] & 0x01) !== 0;
+        const x = (i: number) => xs[first + (i % count)];
+        const y = (i: number) => ys[first + (i % count)];
+
+        // Start at an on-curve point, or between the first two points if all are off-curve.
+        let startIndex = 0;
+        while (startIndex < count && !onCurve(startIndex)) {
+            ++startIndex;
+        }
+        let startX: number;
+        let startY: number;
+        let steps = count;
+        if (startIndex === count) {
+            startIndex = 0;
+            startX = (x(0) + x(1)) / 2;
+            startY = (y(0) + y(1)) / 2;
+            // The first point is then a control point of the last curve.
+            steps = count + 1;
+        } else {
+            startX = x(startIndex);
+            startY = y(startIndex);
+        }
+        builder.moveTo(startX, startY);
+
+        let controlX: number | undefined;
+        let controlY = 0;
+        for (let i = 1; i <= steps; ++i) {
+            const index = startIndex + i;
+            const px = i === steps ? startX : x(index);
+            const py = i === steps ? startY : y(index);
+            if (i < steps && !onCurve(index)) {
+                if (controlX !== undefined) {
+                    // Two consecutive off-curve points imply an on-curve point between them.
+                    builder.quadTo(controlX, controlY, (controlX + px) / 2, (controlY + py) / 2);
+                }
+                controlX = px;
+                controlY = py;
+            } else if (controlX !== undefined) {
+                builder.quadTo(controlX, controlY, px, py);
+                controlX = undefined;
+            } else {
+                builder.lineTo(px, py);
+            }
+        }
+        builder.close();
+    }
+
+    private buildCompositeGlyph(builder: OutlineBuilder, glyph: number, depth: number) {
+        const view = this.m_view;
+        let offset = glyph + 10;
+        let flags: number;
+        do {
+            flags = view.getUint16(offset);
+            const componentIndex = view.getUint16(offset + 2);
+            offset += 4;
+
+            let dx = 0;
+            let dy = 0;
+            if (flags & 0x0001) {
+                dx = view.getInt16(offset);
+                dy = view.getInt16(offset + 2);
+                offset += 4;
+            } else {
+                dx = view.getInt8(offset);
+                dy = view.getInt8(offset + 1);
+                offset += 2;
+            }
+            if (!(flags & 0x0002)) {
+                // Components aligned by matching points are not supported, they're not offset.
+                dx = 0;
+                dy = 0;
+            }
+
+            let a = 1;
+            let b = 0;
+            let c = 0;
+            let d = 1;
+            if (flags & 0x0008) {
+                a = d = view.getInt16(offset) / 16384;
+                offset += 2;
+            } else if (flags & 0x0040) {
+                a = view.getInt16(offset) / 16384;
+                d = view.getInt16(offset + 2) / 16384;
+                offset += 4;
+            } else if (flags & 0x0080) {
+                a = view.getInt16(offset) / 16384;
+                b = view.getInt16(offset + 2) / 16384;
+                c = view.getInt16(offset + 4) / 16384;
+                d = view.getInt16(offset + 6) / 16384;
+                offset += 8;
+            }
+
+            const firstContour = builder.outline.length;
+            this.buildTrueTypeGlyph(builder, componentIndex, depth + 1);
+            for (let i = firstContour; i < builder.outline.length; ++i) {
+                const contour = builder.outline[i];
+                for (let j = 0; j < contour.length; j += 2) {
+                    const x = contour[j];
+                    const y = contour[j + 1];
+                    contour[j] = a * x + c * y + dx;
+                    contour[j + 1] = b * x + d * y + dy;
+                }
+            }
+        } while (flags & 0x0020);
+    }
+
+    private parseCff(cff: number): CffData {
+        const view = this.m_view;
+        const nameIndex = readCffIndex(view, cff + view.getUint8(cff + 2));
+        const topDictIndex = readCffIndex(view, nameIndex.end);
+        const stringIndex = readCffIndex(view, topDictIndex.end);
+        const globalSubrs = readCffIndex(view, stringIndex.end).entries;
+        const topDict = parseCffDict(topDictIndex.entries[0]);
+
+        const charStringsOffset = topDict.get(17);
+        if (charStringsOffset === undefined) {
+            throw new Error("CFF font has no charstrings");
+        }
+        const charStrings = readCffIndex(view, cff + charStringsOffset[0]).entries;
+
+        const readFontDict = (dict: Map<number, number[]>): CffFontDict => {
+            const privateDict = dict.get(18);
+            if (privateDict === undefined || privateDict.length < 2) {
+                return { subrs: [] };
+            }
+            const [size, offset] = privateDict;
+            const privateStart = cff + offset;
+            const subrsOffset = parseCffDict(
+                new Uint8Array(view.buffer, view.byteOffset + privateStart, size)
+            ).get(19);
+            return {
+                subrs:
+                    subrsOffset !== undefined
+                        ? readCffIndex(view, privateStart + subrsOffset[0]).entries
+                        : []
+            };
+        };
+
+        const fdArrayOffset = topDict.get(1236);
+        const fdSelectOffset = topDict.get(1237);
+        if (fdArrayOffset === undefined || fdSelectOffset === undefined) {
+            return { globalSubrs, charStrings, fontDicts: [readFontDict(topDict)] };
+        }
+
+        // CID-keyed font, each glyph selects the font dictionary with its local subroutines.
+        const fontDicts = readCffIndex(view, cff + fdArrayOffset[0]).entries.map(entry =>
+            readFontDict(parseCffDict(entry))
+        );
+        const fdSelect = new Uint8Array(charStrings.length);
+        const fdSelectStart = cff + fdSelectOffset[0];
+        const format = view.getUint8(fdSelectStart);
+        if (format === 0) {
+            for (let i = 0; i < fdSelect.length; ++i) {
+                fdSelect[i] = view.getUint8(fdSelectStart + 1 + i);
+            }
+        } else if (format === 3) {
+            const numRanges = view.getUint16(fdSelectStart + 1);
+            for (let i = 0; i < numRanges; ++i) {
+                const range = fdSelectStart + 3 + i * 3;
+                const first = view.getUint16(range);
+                const next = view.getUint16(range + 3);
+                fdSelect.fill(view.getUint8(range + 2), first, Math.min(next, fdSelect.length));
+            }
+        }
+        return { globalSubrs, charStrings, fontDicts, fdSelect };
+    }
+
+    /**
+     * Interprets the Type 2 charstring of a glyph, see the
+     * {@link https://adobe-type-tools.github.io/font-tech-notes/pdfs/5177.Type2.pdf |
+     * Type 2 Charstring Format}.
+     */
+    private buildCffGlyph(builder: OutlineBuilder, glyphIndex: number) {
+        const cff = this.m_cff!;
+        const fontDict =
+            cff.fontDicts[cff.fdSelect !== undefined ? cff.fdSelect[glyphIndex] : 0] ??
+            cff.fontDicts[0];
+        const localSubrs = fontDict.subrs;
+        const localBias = subrBias(localSubrs);
+        const globalBias = subrBias(cff.globalSubrs);
+
+        let stack: number[] = [];
+        let numStems = 0;
+        let widthParsed = false;
+        let x = 0;
+        let y = 0;
+
+        // The advance width may precede the operands of the first stack clearing operator.
+        const parseWidth = (hasWidth: boolean) => {
+            if (!widthParsed && hasWidth) {
+                stack.shift();
+            }
+            widthParsed = true;
+        };
+        const curveTo = (c1x: number, c1y: number, c2x: number, c2y: number) => {
+            builder.cubicTo(c1x, c1y, c2x, c2y, x, y);
+        };
+
+        const execute = (code: Uint8Array, depth: number): boolean => {
+            let i = 0;
+            while (i < code.length) {
+                const op = code[i++];
+                if (op >= 32 || op === 28) {
+                    if (op === 28) {
+                        stack.push(((code[i] << 24) | (code[i + 1] << 16)) >> 16);
+                        i += 2;
+                    } else if (op <= 246) {
+                        stack.push(op - 139);
+                    } else if (op <= 250) {
+                        stack.push((op - 247) * 256 + code[i++] + 108);
+                    } else if (op <= 254) {
+                        stack.push(-(op - 251) * 256 - code[i++] - 108);
+                    } else {
+                        const fixed =
+                            (code[i] << 24) |
+                            (code[i + 1] << 16) |
+                            (code[i + 2] << 8) |
+                            code[i + 3];
+                        stack.push(fixed / 65536);
+                        i += 4;
+                    }
+                    continue;
+                }
+
+                let c1x: number;
+                let c1y: number;
+                let c2x: number;
+                let c2y: number;
+                let k = 0;
+                switch (op) {
+                    case 1: // hstem
+                    case 3: // vstem
+                    case 18: // hstemhm
+                    case 23: // vstemhm
+                        parseWidth(stack.length % 2 !== 0);
+                        numStems += stack.length >> 1;
+                        stack = [];
+                        break;
+                    case 19: // hintmask
+                    case 20: // cntrmask
+                        parseWidth(stack.length % 2 !== 0);
+                        numStems += stack.length >> 1;
+                        stack = [];
+                        i += (numStems + 7) >> 3;
+                        break;
+                    case 21: // rmoveto
+                        parseWidth(stack.length > 2);
+                        x += stack[0];
+                        y += stack[1];
+                        builder.moveTo(x, y);
+                        stack = [];
+                        break;
+                    case 22: // hmoveto
+                        parseWidth(stack.length > 1);
+                        x += stack[0];
+                        builder.moveTo(x, y);
+                        stack = [];
+                        break;
+                    case 4: // vmoveto
+                        parseWidth(stack.length > 1);
+                        y += stack[0];
+                        builder.moveTo(x, y);
+                        stack = [];
+                        break;
+                    case 5: // rlineto
+                        for (; k + 1 < stack.length; k += 2) {
+                            x += stack[k];
+                            y += stack[k + 1];
+                            builder.lineTo(x, y);
+                        }
+                        stack = [];
+                        break;
+                    case 6: // hlineto
+                    case 7: // vlineto
+                        for (let horizontal = op === 6; k < stack.length; ++k) {
+                            if (horizontal) {
+                                x += stack[k];
+                            } else {
+                                y += stack[k];
+                            }
+                            builder.lineTo(x, y);
+                            horizontal = !horizontal;
+                        }
+                        stack = [];
+                        break;
+                    case 8: // rrcurveto
+                    case 24: // rcurveline
+                        // rcurveline ends with a line, keep its two arguments.
+                        const curveEnd = op === 8 ? stack.length : stack.length - 2;
+                        for (; k + 5 < curveEnd; k += 6) {
+                            c1x = x + stack[k];
+                            c1y = y + stack[k + 1];
+                            c2x = c1x + stack[k + 2];
+                            c2y = c1y + stack[k + 3];
+                            x = c2x + stack[k + 4];
+                            y = c2y + stack[k + 5];
+                            curveTo(c1x, c1y, c2x, c2y);
+                        }
+                        if (op === 24 && k + 1 < stack.length) {
+                            x += stack[k];
+                            y += stack[k + 1];
+                            builder.lineTo(x, y);
+                        }
+                        stack = [];
+                        break;
+                    case 25: // rlinecurve
+                        for (; k + 1 < stack.length && stack.length - k > 6; k += 2) {
+                            x += stack[k];
+                            y += stack[k + 1];
+                            builder.lineTo(x, y);
+                        }
+                        if (k + 5 < stack.length) {
+                            c1x = x + stack[k];
+                            c1y = y + stack[k + 1];
+                            c2x = c1x + stack[k + 2];
+                            c2y = c1y + stack[k + 3];
+                            x = c2x + stack[k + 4];
+                            y = c2y + stack[k + 5];
+                            curveTo(c1x, c1y, c2x, c2y);
+                        }
+                        stack = [];
+                        break;
+                    case 26: // vvcurveto
+                        if (stack.length % 2 !== 0) {
+                            x += stack[k++];
+                        }
+                        for (; k + 3 < stack.length; k += 4) {
+                            c1x = x;
+                            c1y = y + stack[k];
+                            c2x = c1x + stack[k + 1];
+                            c2y = c1y + stack[k + 2];
+                            x = c2x;
+                            y = c2y + stack[k + 3];
+                            curveTo(c1x, c1y, c2x, c2y);
+                        }
+                        stack = [];
+                        break;
+                    case 27: // hhcurveto
+                        if (stack.length % 2 !== 0) {
+                            y += stack[k++];
+                        }
+                        for (; k + 3 < stack.length; k += 4) {
+                            c1x = x + stack[k];
+                            c1y = y;
+                            c2x = c1x + stack[k + 1];
+                            c2y = c1y + stack[k + 2];
+                            x = c2x + stack[k + 3];
+                            y = c2y;
+                            curveTo(c1x, c1y, c2x, c2y);
+                        }
+                        stack = [];
+                        break;
+                    case 30: // vhcurveto
+                    case 31: // hvcurveto
+                        for (let horizontal = op === 31; k + 3 < stack.length; k += 4) {
+                            const last = stack.length - k === 5 ? stack[k + 4] : 0;
+                            if (horizontal) {
+                                c1x = x + stack[k];
+                                c1y = y;
+                                c2x = c1x + stack[k + 1];
+                                c2y = c1y + stack[k + 2];
+                                y = c2y + stack[k + 3];
+                                x = c2x + last;
+                            } else {
+                                c1x = x;
+                                c1y = y + stack[k];
+                                c2x = c1x + stack[k + 1];
+                                c2y = c1y + stack[k + 2];
+                                x = c2x + stack[k + 3];
+                                y = c2y + last;
+                            }
+                            curveTo(c1x, c1y, c2x, c2y);
+                            horizontal = !horizontal;
+                        }
+                        stack = [];
+                        break;
+                    case 10: // callsubr
+                    case 29: {
+                        // callgsubr
+                        const subrs = op === 10 ? localSubrs : cff.globalSubrs;
+                        const subr = subrs[stack.pop()! + (op === 10 ? localBias : globalBias)];
+                        if (subr !== undefined && depth < MAX_RECURSION_DEPTH) {
+                            if (execute(subr, depth + 1)) {
+                                return true;
+                            }
+                        }
+                        break;
+                    }
+                    case 11: // return
+                        return false;
+                    case 14: // endchar
+                        parseWidth(stack.length === 1 || stack.length === 5);
+                        builder.close();
+                        return true;
+                    case 12:
+                        this.executeFlex(code[i++], stack, builder, x, y);
+                        if (stack.length > 0) {
+                            // Flex operators leave the end point on the stack.
+                            y = stack.pop()!;
+                            x = stack.pop()!;
+                        }
+                        stack = [];
+                        break;
+                    default:
+                        stack = [];
+                        break;
+                }
+            }
+            return false;
+        };
+
+        const charString = cff.charStrings[glyphIndex];
+        if (charString !== undefined) {
+            execute(charString, 0);
+        }
+    }
+
+    /**
+     * Executes the two byte flex operators of Type 2 charstrings, which draw two curves.
+     *
+     * @returns The end point of the curves on the stack, or an empty stack for other operators.
+     */
+    private executeFlex(
+        op: number,
+        stack: number[],
+        builder: OutlineBuilder,
+        x: number,
+        y: number
+    ) {
+        const s = stack;
+        let points: number[] | undefined;
+        switch (op) {
+            case 35: // flex
+                points = [s[0], s[1], s[2], s[3], s[4], s[5], s[6], s[7], s[8], s[9], s[10], s[11]];
+                break;
+            case 34: // hflex
+                points = [s[0], 0, s[1], s[2], s[3], 0, s[4], 0, s[5], -s[2], s[6], 0];
+                break;
+            case 36: // hflex1
+                points = [
+                    s[0],
+                    s[1],
+                    s[2],
+                    s[3],
+                    s[4],
+                    0,
+                    s[5],
+                    0,
+                    s[6],
+                    s[7],
+                    s[8],
+                    -(s[1] + s[3] + s[7])
+                ];
+                break;
+            case 37: {
+                // flex1
+                let dx = 0;
+                let dy = 0;
+                for (let i = 0; i < 10; i += 2) {
+                    dx += s[i];
+                    dy += s[i + 1];
+                }
+                points = s.slice(0, 10);
+                if (Math.abs(dx) > Math.abs(dy)) {
+                    points.push(s[10], -dy);
+                } else {
+                    points.push(-dx, s[10]);
+                }
+                break;
+            }
+        }
+        stack.length = 0;
+        if (points === undefined) {
+            return;
+        }
+        for (let i = 0; i < 12; i += 6) {
+            const c1x = x + points[i];
+            const c1y = y + points[i + 1];
+            const c2x = c1x + points[i + 2];
+            const c2y = c1y + points[i + 3];
+            x = c2x + points[i + 4];
+            y = c2y + points[i + 5];
+            builder.cubicTo(c1x, c1y, c2x, c2y, x, y);
+        }
+        stack.push(x, y);
+    }
+}
@@ -0,0 +1,342 @@
+/*
+ * Copyright (C) 2017-2020 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { FontMetrics } from "./FontCatalog";
+import { GlyphOutline, OpenTypeFont } from "./OpenTypeFont";
+
+/**
+ * Request of SDF glyph bitmaps to a [[SdfGlyphSource]].
+ */
+export interface SdfGlyphRequest {
+    /**
+     * URLs of TrueType or OpenType fonts. The glyph of each code point is taken from the first
+     * font supporting it.
+     */
+    fonts: string[];
+
+    /**
+     * Unicode code points of the requested glyphs.
+     */
+    codePoints: number[];
+
+    /**
+     * Font size in pixels the glyphs are rasterized at.
+     */
+    size: number;
+
+    /**
+     * Distance range in pixels covered by the SDF values, half of it on each side of the outline.
+     */
+    distanceRange: number;
+
+    /**
+     * Maximum width and height of the glyph bitmaps in pixels, larger glyphs are cropped.
+     */
+    maxGlyphSize: number;
+}
+
+/**
+ * SDF bitmap of a glyph, with its metrics in pixels.
+ */
+export interface SdfGlyphBitmap {
+    /**
+     * Unicode code point of the glyph.
+     */
+    codePoint: number;
+
+    /**
+     * Index in [[SdfGlyphRequest.fonts]] of the font the glyph is taken from.
+     */
+    fontIndex: number;
+
+    /**
+     * `true` if no font supports the code point, the glyph is then the `.notdef` glyph of the
+     * first font.
+     */
+    isMissing: boolean;
+
+    width: number;
+    height: number;
+    advanceX: number;
+
+    /**
+     * Horizontal offset from the glyph origin to the left of the bitmap.
+     */
+    offsetX: number;
+
+    /**
+     * Vertical offset from the top of the line to the top of the bitmap.
+     */
+    offsetY: number;
+
+    /**
+     * Distance values of the bitmap pixels, row by row from top to bottom. `128` is on the outline,
+     * larger values are inside of the glyph.
+     */
+    data: Uint8Array;
+}
+
+/**
+ * Response of a [[SdfGlyphSource]].
+ */
+export interface SdfGlyphResponse {
+    /**
+     * Metrics of each font in [[SdfGlyphRequest.fonts]].
+     */
+    fontMetrics: FontMetrics[];
+
+    /**
+     * Glyphs in the order of [[SdfGlyphRequest.codePoints]].
+     */
+    glyphs: SdfGlyphBitmap[];
+}
+
+/**
+ * Generator of SDF glyph bitmaps from font files, used by [[FontCatalog]]s created with
+ * `FontCatalog.loadFonts`.
+ */
+export interface SdfGlyphSource {
+    /**
+     * Generates the SDF bitmaps of glyphs.
+     *
+     * @param request - Fonts and code points of the glyphs.
+     * @returns Promise resolved with the metrics of the fonts and the glyph bitmaps.
+     */
+    generateGlyphs(request: SdfGlyphRequest): Promise<SdfGlyphResponse>;
+}
+
+/**
+ * Computes the SDF bitmap of a glyph outline.
+ *
+ * @param outline - Glyph outline in font units.
+ * @param scale - Scale from font units to pixels.
+ * @param left - Left of the bitmap in pixels.
+ * @param top - Top of the bitmap in pixels, y axis pointing up.
+ * @param width - Bitmap width.
+ * @param height - Bitmap height.
+ * @param distanceRange - Distance range in pixels.
+ */
+function rasterizeSdf(
+    outline: GlyphOutline,
+    scale: number,
+    left: number,
+    top: number,
+    width: number,
+    height: number,
+    distanceRange: number
+): Uint8Array {
+    // Segments in bitmap coordinates, y axis pointing down.
+    const segments: number[] = [];
+    for (const contour of outline) {
+        const n = contour.length;
+        for (let i = 0; i < n; i += 2) {
+            const j = (i + 2) % n;
+            segments.push(
+                contour[i] * scale - left,
+                top - contour[i + 1] * scale,
+                contour[j] * scale - left,
+                top - contour[j + 1] * scale
+            );
+        }
+    }
+
+    const data = new Uint8Array(width * height);
+    for (let row = 0; row < height; ++row) {
+        const py = row + 0.5;
+        for (let column = 0; column < width; ++column) {
+            const px = column + 0.5;
+            let minDistanceSqr = Infinity;
+            let winding = 0;
+            for (let s = 0; s < segments.length; s += 4) {
+                const ax = segments[s];
+                const ay = segments[s + 1];
+                const bx = segments[s + 2];
+                const by = segments[s + 3];
+
+                const dx = bx - ax;
+                const dy = by - ay;
+                const lengthSqr = dx * dx + dy * dy;
+                const t =
+                    lengthSqr > 0
+                        ? Math.max(0, Math.min(1, ((px - ax) * dx + (py - ay) * dy) / lengthSqr))
+                        : 0;
+                const ex = ax + t * dx - px;
+                const ey = ay + t * dy - py;
+                minDistanceSqr = Math.min(minDistanceSqr, ex * ex + ey * ey);
+
+                // Non-zero winding rule.
+                const side = dx * (py - ay) - dy * (px - ax);
+                if (ay <= py) {
+                    if (by > py && side > 0) {
+                        ++winding;
+                    }
+                } else if (by <= py && side < 0) {
+                    --winding;
+                }
+            }
+            const distance = (winding !== 0 ? 1 : -1) * Math.sqrt(minDistanceSqr);
+            const value = 0.5 + distance / distanceRange;
+            data[row * width + column] = Math.round(Math.max(0, Math.min(1, value)) * 255);
+        }
+    }
+    return data;
+}
+
+function getOutlineBounds(outline: GlyphOutline): number[] | undefined {
+    if (outline.length === 0) {
+        return undefined;
+    }
+    const bounds = [Infinity, Infinity, -Infinity, -Infinity];
+    for (const contour of outline) {
+        for (let i = 0; i < contour.length; i += 2) {
+            bounds[0] = Math.min(bounds[0], contour[i]);
+            bounds[1] = Math.min(bounds[1], contour[i + 1]);
+            bounds[2] = Math.max(bounds[2], contour[i]);
+            bounds[3] = Math.max(bounds[3], contour[i + 1]);
+        }
+    }
+    return bounds;
+}
+
+/**
+ * Gets the height above the baseline of the glyph of a code point, in font units.
+ */
+function getGlyphHeight(font: OpenTypeFont, codePoint: number): number {
+    const bounds = getOutlineBounds(font.getGlyphOutline(font.getGlyphIndex(codePoint), 1));
+    return bounds !== undefined ? bounds[3] : 0;
+}
+
+/**
+ * Generates SDF glyph bitmaps from TrueType and OpenType fonts.
+ *
+ * @remarks
+ * Fonts are fetched and parsed on first use. Glyphs are rasterized with the non-zero winding rule
+ * into single channel bitmaps that fit both SDF and MSDF [[TextMaterial]]s. This class runs on the
+ * main thread, `GlyphGeneratorService` in `@here/harp-mapview-decoder` runs it in web workers.
+ */
+export class SdfGlyphGenerator implements SdfGlyphSource {
+    private readonly m_fonts = new Map<string, Promise<OpenTypeFont>>();
+
+    /**
+     * Adds a font that is already loaded, so it's not fetched when requested.
+     *
+     * @param url - URL used to request glyphs of the font.
+     * @param data - Font file contents.
+     * @throws If the font can't be parsed.
+     */
+    addFont(url: string, data: ArrayBuffer) {
+        this.m_fonts.set(url, Promise.resolve(OpenTypeFont.parse(data)));
+    }
+
+    /**
+     * Releases all loaded fonts.
+     */
+    clear() {
+        this.m_fonts.clear();
+    }
+
+    /** @override */
+    async generateGlyphs(request: SdfGlyphRequest): Promise<SdfGlyphResponse> {
+        const fonts = await Promise.all(request.fonts.map(url => this.loadFont(url)));
+        return {
+            fontMetrics: fonts.map(font =>
+                this.getFontMetrics(font, request.size, request.distanceRange)
+            ),
+            glyphs: request.codePoints.map(codePoint =>
+                this.generateGlyph(fonts, codePoint, request)
+            )
+        };
+    }
+
+    private loadFont(url: string): Promise<OpenTypeFont> {
+        let fontPromise = this.m_fonts.get(url);
+        if (fontPromise === undefined) {
+            fontPromise = fetch(url)
+                .then(response => {
+                    if (!response.ok) {
+                        throw new Error(`${url} Status Text:  ${response.statusText}`);
+                    }
+                    return response.arrayBuffer();
+                })
+                .then(OpenTypeFont.parse);
+            this.m_fonts.set(url, fontPromise);
+            // Allow to retry failed downloads.
+            fontPromise.catch(() => {
+                this.m_fonts.delete(url);
+            });
+        }
+        return fontPromise;
+    }
+
+    private getFontMetrics(font: OpenTypeFont, size: number, distanceRange: number): FontMetrics {
+        const scale = size / font.unitsPerEm;
+        const capHeight = font.capHeight ?? getGlyphHeight(font, 0x48);
+        const xHeight = font.xHeight ?? getGlyphHeight(font, 0x78);
+        return {
+            size,
+            distanceRange,
+            base: Math.round(font.ascender * scale),
+            lineHeight: Math.round((font.ascender - font.descender + font.lineGap) * scale),
+            lineGap: Math.round(font.lineGap * scale),
+            capHeight: Math.round(capHeight * scale),
+            xHeight: Math.round(xHeight * scale)
+        };
+    }
+
+    private generateGlyph(
+        fonts: OpenTypeFont[],
+        codePoint: number,
+        request: SdfGlyphRequest
+    ): SdfGlyphBitmap {
+        let fontIndex = fonts.findIndex(font => font.hasGlyph(codePoint));
+        const isMissing = fontIndex < 0;
+        fontIndex = Math.max(fontIndex, 0);
+        const font = fonts[fontIndex];
+        const glyphIndex = font.getGlyphIndex(codePoint);
+
+        const scale = request.size / font.unitsPerEm;
+        // Flatten curves with a precision of a quarter pixel.
+        const outline = font.getGlyphOutline(glyphIndex, 0.25 / scale);
+        const advanceX = font.getAdvanceWidth(glyphIndex) * scale;
+        const base = Math.round(font.ascender * scale);
+
+        const bounds = getOutlineBounds(outline);
+        if (bounds === undefined) {
+            return {
+                codePoint,
+                fontIndex,
+                isMissing,
+                width: 0,
+                height: 0,
+                advanceX,
+                offsetX: 0,
+                offsetY: 0,
+                data: new Uint8Array(0)
+            };
+        }
+
+        const padding = Math.ceil(request.distanceRange / 2);
+        const left = Math.floor(bounds[0] * scale) - padding;
+        const top = Math.ceil(bounds[3] * scale) + padding;
+        const width = Math.min(request.maxGlyphSize, Math.ceil(bounds[2] * scale) + padding - left);
+        const height = Math.min(
+            request.maxGlyphSize,
+            top - Math.floor(bounds[1] * scale) + padding
+        );
+
+        return {
+            codePoint,
+            fontIndex,
+            isMissing,
+            width,
+            height,
+            advanceX,
+            offsetX: left,
+            offsetY: base - top,
+            data: rasterizeSdf(outline, scale, left, top, width, height, request.distanceRange)
+        };
+    }
+}
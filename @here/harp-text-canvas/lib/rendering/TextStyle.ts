@@ -86,6 +86,16 @@ export enum HorizontalPlacement {
 export interface TextPlacement {
     v: VerticalPlacement;
     h: HorizontalPlacement;
+    /**
+     * Additional horizontal offset (to the right) in screen pixels applied to the text when
+     * placed at this anchor.
+     */
+    xOffset?: number;
+    /**
+     * Additional vertical offset (up) in screen pixels applied to the text when placed at this
+     * anchor.
+     */
+    yOffset?: number;
 }
 
 export type TextPlacements = TextPlacement[];
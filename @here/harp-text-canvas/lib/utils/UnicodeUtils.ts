@@ -128,6 +128,46 @@ export namespace UnicodeUtils {
         "Hanifi Rohingya"
     ];
 
+    /**
+     * Code point ranges of the [[rtlBlocks]], in the same order.
+     */
+    export const rtlBlockRanges = [
+        [0x0590, 0x05ff],
+        [0xfb00, 0xfb4f],
+        [0x0600, 0x06ff],
+        [0x0750, 0x077f],
+        [0x08a0, 0x08ff],
+        [0xfb50, 0xfdff],
+        [0xfe70, 0xfeff],
+        [0x1ee00, 0x1eeff],
+        [0x1ec70, 0x1ecbf],
+        [0x10e60, 0x10e7f],
+        [0x0700, 0x074f],
+        [0x0860, 0x086f],
+        [0x0800, 0x083f],
+        [0x0840, 0x085f],
+        [0x0780, 0x07bf],
+        [0x1e800, 0x1e8df],
+        [0x07c0, 0x07ff],
+        [0x1e900, 0x1e95f],
+        [0x10d00, 0x10d3f]
+    ];
+
+    /**
+     * Returns the RTL Unicode block of a character.
+     *
+     * @param codePoint - Character's Unicode code point.
+     *
+     * @returns Name of the character's block if it's one of the [[rtlBlocks]], `undefined`
+     * otherwise.
+     */
+    export function getRtlBlock(codePoint: number): string | undefined {
+        const index = rtlBlockRanges.findIndex(
+            range => codePoint >= range[0] && codePoint <= range[1]
+        );
+        return index >= 0 ? rtlBlocks[index] : undefined;
+    }
+
     /**
      * ASCII punctuation is considered to have neutral direction:
      * https://en.wikipedia.org/wiki/Basic_Latin_(Unicode_block)#Table_of_characters
@@ -0,0 +1,317 @@
+/*
+ * Copyright (C) 2017-2020 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { assert } from "chai";
+
+import { FontCatalog, OpenTypeFont, SdfGlyphGenerator, TextRenderStyle } from "../index";
+
+/**
+ * Glyph of a test font, contour points are `[x, y, onCurve]`.
+ */
+interface TestGlyph {
+    codePoint?: number;
+    advance: number;
+    contours: Array<Array<[number, number, boolean]>>;
+}
+
+/**
+ * Creates a TrueType font with the given glyphs, the first one is the `.notdef` glyph.
+ */
+function createTrueTypeFont(glyphs: TestGlyph[]): ArrayBuffer {
+    const glyf: number[] = [];
+    const loca: number[] = [];
+    const int16 = (value: number) => [(value >> 8) & 0xff, value & 0xff];
+    for (const glyph of glyphs) {
+        loca.push(...int16(glyf.length / 2));
+        const points = glyph.contours.reduce((all, contour) => all.concat(contour), []);
+        const xs = points.map(p => p[0]);
+        const ys = points.map(p => p[1]);
+        glyf.push(
+            ...int16(glyph.contours.length),
+            ...int16(Math.min(...xs)),
+            ...int16(Math.min(...ys)),
+            ...int16(Math.max(...xs)),
+            ...int16(Math.max(...ys))
+        );
+        let endPoint = -1;
+        for (const contour of glyph.contours) {
+            endPoint += contour.length;
+            glyf.push(...int16(endPoint));
+        }
+        glyf.push(...int16(0));
+        glyf.push(...points.map(p => (p[2] ? 1 : 0)));
+        points.forEach((p, i) => glyf.push(...int16(i > 0 ? p[0] - points[i - 1][0] : p[0])));
+        points.forEach((p, i) => glyf.push(...int16(i > 0 ? p[1] - points[i - 1][1] : p[1])));
+        if (glyf.length % 2 !== 0) {
+            glyf.push(0);
+        }
+    }
+    loca.push(...int16(glyf.length / 2));
+
+    const mapped = glyphs
+        .map((glyph, index) => ({ codePoint: glyph.codePoint, index }))
+        .filter(entry => entry.codePoint !== undefined)
+        .sort((a, b) => a.codePoint! - b.codePoint!);
+    const segCount = mapped.length + 1;
+    const endCodes = mapped.map(entry => entry.codePoint!).concat(0xffff);
+    const idDeltas = mapped.map(entry => (entry.index - entry.codePoint!) & 0xffff).concat(1);
+    const cmap = [
+        ...int16(0),
+        ...int16(1),
+        ...int16(3),
+        ...int16(1),
+        ...[0, 0, 0, 12],
+        ...int16(4),
+        ...int16(16 + segCount * 8),
+        ...int16(0),
+        ...int16(segCount * 2),
+        ...int16(0),
+        ...int16(0),
+        ...int16(0),
+        ...endCodes.reduce((all, code) => all.concat(int16(code)), [] as number[]),
+        ...int16(0),
+        ...endCodes.reduce((all, code) => all.concat(int16(code)), [] as number[]),
+        ...idDeltas.reduce((all, delta) => all.concat(int16(delta)), [] as number[]),
+        ...endCodes.reduce(all => all.concat(int16(0)), [] as number[])
+    ];
+
+    const head = new Array(54).fill(0);
+    head.splice(18, 2, ...int16(1000));
+    const hhea = new Array(36).fill(0);
+    hhea.splice(4, 6, ...int16(800), ...int16(-200), ...int16(0));
+    hhea.splice(34, 2, ...int16(glyphs.length));
+    const maxp = [0, 0, 0x50, 0, ...int16(glyphs.length)];
+    const hmtx = glyphs.reduce(
+        (all, glyph) => all.concat(int16(glyph.advance), int16(0)),
+        [] as number[]
+    );
+
+    const tables: Array<[string, number[]]> = [
+        ["cmap", cmap],
+        ["glyf", glyf],
+        ["head", head],
+        ["hhea", hhea],
+        ["hmtx", hmtx],
+        ["loca", loca],
+        ["maxp", maxp]
+    ];
+    const bytes: number[] = [0, 1, 0, 0, ...int16(tables.length), 0, 0, 0, 0, 0, 0];
+    let offset = 12 + tables.length * 16;
+    for (const [tag, data] of tables) {
+        const int32 = (value: number) => [...int16(value >> 16), ...int16(value)];
+        bytes.push(...tag.split("").map(c => c.charCodeAt(0)), 0, 0, 0, 0);
+        bytes.push(...int32(offset), ...int32(data.length));
+        offset += Math.ceil(data.length / 4) * 4;
+    }
+    for (const [, data] of tables) {
+        bytes.push(...data, ...new Array(Math.ceil(data.length / 4) * 4 - data.length).fill(0));
+    }
+    return new Uint8Array(bytes).buffer;
+}
+
+const square: Array<[number, number, boolean]> = [
+    [100, 100, true],
+    [900, 100, true],
+    [900, 900, true],
+    [100, 900, true]
+];
+const notdef: TestGlyph = { advance: 500, contours: [square] };
+const glyphA: TestGlyph = { codePoint: 65, advance: 1000, contours: [square] };
+const space: TestGlyph = { codePoint: 32, advance: 250, contours: [] };
+const glyphB: TestGlyph = {
+    codePoint: 66,
+    advance: 800,
+    contours: [
+        [
+            [100, 0, true],
+            [700, 0, true],
+            [400, 600, false]
+        ]
+    ]
+};
+
+describe("SdfGlyphGenerator", function() {
+    describe("OpenTypeFont", function() {
+        const font = OpenTypeFont.parse(createTrueTypeFont([notdef, glyphA]));
+
+        it("reads font metrics", function() {
+            assert.equal(font.unitsPerEm, 1000);
+            assert.equal(font.ascender, 800);
+            assert.equal(font.descender, -200);
+            assert.equal(font.numGlyphs, 2);
+            assert.isUndefined(font.capHeight);
+        });
+
+        it("maps code points to glyphs", function() {
+            assert.equal(font.getGlyphIndex(65), 1);
+            assert.isTrue(font.hasGlyph(65));
+            assert.isFalse(font.hasGlyph(66));
+            assert.isFalse(font.hasGlyph(0x1f600));
+            assert.equal(font.getAdvanceWidth(1), 1000);
+        });
+
+        it("reads glyph outlines", function() {
+            assert.deepEqual(font.getGlyphOutline(1, 1), [
+                [100, 100, 900, 100, 900, 900, 100, 900]
+            ]);
+            assert.deepEqual(font.getGlyphOutline(2, 1), []);
+        });
+
+        it("flattens quadratic curves", function() {
+            const curveFont = OpenTypeFont.parse(createTrueTypeFont([notdef, glyphB]));
+
+            const outline = curveFont.getGlyphOutline(1, 1);
+
+            assert.lengthOf(outline, 1);
+            const contour = outline[0];
+            assert.isAbove(contour.length, 6);
+            assert.deepEqual(contour.slice(0, 4), [100, 0, 700, 0]);
+            for (let i = 0; i < contour.length; i += 2) {
+                assert.isAtMost(contour[i + 1], 300);
+            }
+        });
+    });
+
+    describe("generateGlyphs", function() {
+        let generator: SdfGlyphGenerator;
+
+        beforeEach(function() {
+            generator = new SdfGlyphGenerator();
+            generator.addFont("a.ttf", createTrueTypeFont([notdef, glyphA, space]));
+            generator.addFont("b.ttf", createTrueTypeFont([notdef, glyphB]));
+        });
+
+        it("rasterizes SDF bitmaps", async function() {
+            const response = await generator.generateGlyphs({
+                fonts: ["a.ttf"],
+                codePoints: [65],
+                size: 32,
+                distanceRange: 8,
+                maxGlyphSize: 64
+            });
+
+            assert.deepInclude(response.fontMetrics[0], {
+                size: 32,
+                distanceRange: 8,
+                base: 26,
+                lineHeight: 32,
+                lineGap: 0
+            });
+            const glyph = response.glyphs[0];
+            assert.include(glyph, {
+                codePoint: 65,
+                fontIndex: 0,
+                isMissing: false,
+                width: 34,
+                height: 34,
+                offsetX: -1,
+                offsetY: -7
+            });
+            assert.closeTo(glyph.advanceX, 32, 1e-6);
+            assert.lengthOf(glyph.data, 34 * 34);
+            // Inside, on the outline and outside of the square.
+            assert.equal(glyph.data[17 * 34 + 17], 255);
+            assert.closeTo(glyph.data[17 * 34 + 4], 128, 20);
+            assert.equal(glyph.data[0], 0);
+        });
+
+        it("crops large glyphs", async function() {
+            const response = await generator.generateGlyphs({
+                fonts: ["a.ttf"],
+                codePoints: [65],
+                size: 64,
+                distanceRange: 8,
+                maxGlyphSize: 40
+            });
+
+            assert.equal(response.glyphs[0].width, 40);
+            assert.equal(response.glyphs[0].height, 40);
+            assert.lengthOf(response.glyphs[0].data, 40 * 40);
+        });
+
+        it("falls back per code point between fonts", async function() {
+            const response = await generator.generateGlyphs({
+                fonts: ["a.ttf", "b.ttf"],
+                codePoints: [65, 66, 67, 32],
+                size: 32,
+                distanceRange: 8,
+                maxGlyphSize: 64
+            });
+
+            assert.lengthOf(response.fontMetrics, 2);
+            const [a, b, c, space] = response.glyphs;
+            assert.include(a, { fontIndex: 0, isMissing: false });
+            assert.include(b, { fontIndex: 1, isMissing: false });
+            assert.closeTo(b.advanceX, 25.6, 1e-6);
+            assert.include(c, { fontIndex: 0, isMissing: true, width: 34 });
+            assert.closeTo(c.advanceX, 16, 1e-6);
+            assert.include(space, { fontIndex: 0, isMissing: false, width: 0, height: 0 });
+            assert.lengthOf(space.data, 0);
+        });
+
+        it("throws on fonts that can't be parsed", function() {
+            assert.throws(() => generator.addFont("invalid.ttf", new ArrayBuffer(0)));
+        });
+    });
+
+    describe("FontCatalog.loadFonts", function() {
+        const fontUrls = ["https://fonts.test/a.ttf", "https://fonts.test/b.ttf"];
+        let fontCatalog: FontCatalog;
+
+        beforeEach(async function() {
+            const generator = new SdfGlyphGenerator();
+            generator.addFont(fontUrls[0], createTrueTypeFont([notdef, glyphA]));
+            generator.addFont(fontUrls[1], createTrueTypeFont([notdef, glyphB]));
+            fontCatalog = await FontCatalog.loadFonts(fontUrls, 16, generator);
+        });
+
+        afterEach(function() {
+            fontCatalog.dispose();
+        });
+
+        it("creates fonts from font files", function() {
+            assert.equal(fontCatalog.type, "sdf");
+            assert.equal(fontCatalog.size, 32);
+            assert.equal(fontCatalog.distanceRange, 8);
+            assert.deepEqual(
+                fontCatalog.fonts.map(font => font.name),
+                ["a", "b"]
+            );
+            assert.equal(fontCatalog.fonts[0].metrics.lineHeight, 32);
+        });
+
+        it("loads glyphs from the fonts supporting them", async function() {
+            const style = new TextRenderStyle();
+            assert.isFalse(fontCatalog.isLoading);
+
+            const loadPromise = fontCatalog.loadCharset("AB", style);
+            assert.isTrue(fontCatalog.isLoading);
+            const glyphs = await loadPromise;
+
+            assert.isFalse(fontCatalog.isLoading);
+            assert.deepEqual(
+                glyphs.map(glyph => glyph.font.name),
+                ["a", "b"]
+            );
+            assert.equal(fontCatalog.getFont(66).name, "b");
+            assert.deepEqual(
+                fontCatalog.getGlyphs("BA", style)!.map(glyph => glyph.codePoint),
+                [66, 65]
+            );
+            assert.strictEqual(glyphs[0].texture, glyphs[1].texture);
+        });
+
+        it("replaces glyphs missing in all fonts", async function() {
+            const style = new TextRenderStyle();
+            const [, glyph] = await fontCatalog.loadCharset("AC", style);
+
+            assert.isTrue(glyph.isReplacement);
+            assert.isUndefined(fontCatalog.getGlyphs("AC", style));
+            fontCatalog.showReplacementGlyphs = true;
+            assert.lengthOf(fontCatalog.getGlyphs("AC", style)!, 2);
+        });
+    });
+});
@@ -0,0 +1,70 @@
+/*
+ * Copyright (C) 2017-2020 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Severity of a {@link ConversionDiagnostic}.
+ *
+ * - `"info"`: The construct has no effect in harp.gl or is converted approximately.
+ * - `"warning"`: The construct is not supported and was not converted, the rest of the layer
+ *   is converted.
+ * - `"error"`: The whole layer could not be converted.
+ */
+export type ConversionDiagnosticSeverity = "info" | "warning" | "error";
+
+/**
+ * A problem found while converting a style.
+ */
+export interface ConversionDiagnostic {
+    /**
+     * Severity of the problem.
+     */
+    severity: ConversionDiagnosticSeverity;
+
+    /**
+     * JSON path of the construct in the source style, e.g. `layers[3].paint.line-blur`.
+     */
+    path: string;
+
+    /**
+     * The id of the layer containing the construct, if any.
+     */
+    layerId?: string;
+
+    /**
+     * Human readable description of the problem.
+     */
+    message: string;
+}
+
+/**
+ * Collects the {@link ConversionDiagnostic}s reported while converting a style.
+ */
+export class ConversionDiagnostics {
+    /**
+     * The reported diagnostics in order of occurrence.
+     */
+    readonly diagnostics: ConversionDiagnostic[] = [];
+
+    /**
+     * The id of the layer being converted, added to reported diagnostics.
+     */
+    layerId?: string;
+
+    /**
+     * Reports a problem.
+     *
+     * @param severity - Severity of the problem.
+     * @param path - JSON path of the construct in the source style.
+     * @param message - Human readable description of the problem.
+     */
+    report(severity: ConversionDiagnosticSeverity, path: string, message: string) {
+        const diagnostic: ConversionDiagnostic = { severity, path, message };
+        if (this.layerId !== undefined) {
+            diagnostic.layerId = this.layerId;
+        }
+        this.diagnostics.push(diagnostic);
+    }
+}
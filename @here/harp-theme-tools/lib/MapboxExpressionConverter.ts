@@ -0,0 +1,418 @@
+/*
+ * Copyright (C) 2017-2020 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Expr, JsonArray, JsonExpr, JsonObject, JsonValue } from "@here/harp-datasource-protocol";
+import { ExprEvaluator } from "@here/harp-datasource-protocol/lib/ExprEvaluator";
+
+import { ConversionDiagnostics } from "./ConversionDiagnostics";
+
+/**
+ * Operators parsed by `Expr.fromJSON` instead of being registered in the `ExprEvaluator`.
+ */
+const SPECIAL_FORMS = ["get", "has", "literal", "match", "case", "interpolate", "step"];
+
+/**
+ * Mapbox operators without harp.gl equivalent that are replaced by their argument.
+ */
+const PASS_THROUGH_OPERATORS = ["to-color", "image", "number-format"];
+
+/**
+ * Legacy filter operators comparing a feature property with values.
+ */
+const LEGACY_COMPARISON_OPERATORS = ["==", "!=", "<", "<=", ">", ">="];
+
+/**
+ * Converts Mapbox GL expressions, legacy filters and legacy functions into harp.gl JSON
+ * expressions.
+ *
+ * @remarks
+ * harp.gl implements most of the Mapbox GL expression operators with the same name and semantic
+ * (see `harp-datasource-protocol/lib/operators`), so expressions are mostly copied, while
+ * unsupported operators are reported to the {@link ConversionDiagnostics}.
+ */
+export class MapboxExpressionConverter {
+    /**
+     * Constructs a new `MapboxExpressionConverter`.
+     *
+     * @param diagnostics - Receives the problems found during the conversion.
+     */
+    constructor(readonly diagnostics: ConversionDiagnostics) {}
+
+    /**
+     * Converts the value of a paint or layout property.
+     *
+     * @param value - Constant, expression or legacy function.
+     * @param path - JSON path of the value, used in diagnostics.
+     * @returns The harp.gl value, or `undefined` if the value can't be converted.
+     */
+    convertValue(value: JsonValue, path: string): JsonValue | undefined {
+        if (isLegacyFunction(value)) {
+            return this.convertFunction(value, path);
+        }
+        if (Array.isArray(value)) {
+            return this.convertExpression(value, path);
+        }
+        return value;
+    }
+
+    /**
+     * Converts a layer filter, either a legacy filter or an expression.
+     *
+     * @param filter - The filter of the layer.
+     * @param path - JSON path of the filter, used in diagnostics.
+     * @returns The harp.gl `when` condition, or `undefined` if the filter can't be converted.
+     */
+    convertFilter(filter: JsonValue, path: string): JsonValue | undefined {
+        if (!Array.isArray(filter)) {
+            return filter;
+        }
+        return isExpressionFilter(filter)
+            ? this.convertExpression(filter, path)
+            : this.convertLegacyFilter(filter, path);
+    }
+
+    /**
+     * Converts strings with `{property}` tokens, used by the legacy `text-field` and `icon-image`
+     * values, into `concat` expressions.
+     *
+     * @param value - The string with tokens.
+     * @returns The string itself if it has no tokens, the expression otherwise.
+     */
+    convertTokenString(value: string): JsonValue {
+        const parts: JsonValue[] = [];
+        const tokenPattern = /{([^{}]+)}/g;
+        let lastIndex = 0;
+        let match: RegExpExecArray | null;
+        while ((match = tokenPattern.exec(value)) !== null) {
+            if (match.index > lastIndex) {
+                parts.push(value.slice(lastIndex, match.index));
+            }
+            parts.push(["get", match[1]]);
+            lastIndex = tokenPattern.lastIndex;
+        }
+        if (parts.length === 0) {
+            return value;
+        }
+        if (lastIndex < value.length) {
+            parts.push(value.slice(lastIndex));
+        }
+        return parts.length === 1 ? ["to-string", parts[0]] : ["concat", ...parts];
+    }
+
+    /**
+     * Converts an expression.
+     *
+     * @param node - The expression.
+     * @param path - JSON path of the expression, used in diagnostics.
+     * @param bindings - Values of the variables bound by enclosing `let` expressions.
+     * @returns The harp.gl expression, or `undefined` if the expression can't be converted.
+     */
+    convertExpression(
+        node: JsonValue,
+        path: string,
+        bindings: Map<string, JsonValue> = new Map()
+    ): JsonValue | undefined {
+        if (!Array.isArray(node)) {
+            return node;
+        }
+        const op = node[0];
+        if (typeof op !== "string") {
+            // Array constants of properties like `line-dasharray`.
+            return node;
+        }
+        const convertArgs = (args: JsonArray): JsonArray | undefined => {
+            const result: JsonArray = [];
+            for (const arg of args) {
+                const converted = this.convertExpression(arg, path, bindings);
+                if (converted === undefined) {
+                    return undefined;
+                }
+                result.push(converted);
+            }
+            return result;
+        };
+
+        switch (op) {
+            case "literal":
+                // harp.gl literals are objects or arrays, scalars are literal by themselves.
+                return node[1] !== null && typeof node[1] === "object" ? node : node[1];
+
+            case "let": {
+                const scope = new Map(bindings);
+                for (let i = 1; i < node.length - 1; i += 2) {
+                    const value = this.convertExpression(node[i + 1], path, scope);
+                    if (value === undefined) {
+                        return undefined;
+                    }
+                    scope.set(node[i] as string, value);
+                }
+                return this.convertExpression(node[node.length - 1], path, scope);
+            }
+
+            case "var": {
+                const value = bindings.get(node[1] as string);
+                if (value === undefined) {
+                    this.diagnostics.report("warning", path, `unknown variable '${node[1]}'`);
+                }
+                return value;
+            }
+
+            case "match": {
+                // Labels are constants, only the input and the outputs are expressions.
+                const args = convertArgs(
+                    node.filter((_, i) => i > 0 && (i % 2 === 1 || i === node.length - 1))
+                );
+                if (args === undefined) {
+                    return undefined;
+                }
+                const result: JsonArray = ["match", args[0]];
+                for (let i = 2; i < node.length - 1; i += 2) {
+                    result.push(node[i], args[i / 2]);
+                }
+                result.push(args[args.length - 1]);
+                return result;
+            }
+
+            case "interpolate":
+            case "interpolate-hcl":
+            case "interpolate-lab": {
+                if (op !== "interpolate") {
+                    this.diagnostics.report(
+                        "info",
+                        path,
+                        `'${op}' is converted to 'interpolate' in RGB color space`
+                    );
+                }
+                const mode = this.convertInterpolationMode(node[1] as JsonArray, path);
+                const args = convertArgs(node.slice(2));
+                return args !== undefined ? ["interpolate", mode, ...args] : undefined;
+            }
+
+            case "==":
+            case "!=":
+                if (node.length > 3) {
+                    this.diagnostics.report("info", path, `collator of '${op}' is ignored`);
+                }
+                return this.convertCall(op, convertArgs(node.slice(1, 3)));
+
+            case "format": {
+                // Keep the text sections, formatting options are not supported.
+                this.diagnostics.report("info", path, "formatting of 'format' is ignored");
+                const sections = node
+                    .slice(1)
+                    .filter(section => section === null || typeof section !== "object");
+                const args = convertArgs(sections);
+                if (args === undefined) {
+                    return undefined;
+                }
+                return args.length === 1 ? ["to-string", args[0]] : ["concat", ...args];
+            }
+
+            default:
+                break;
+        }
+
+        if (PASS_THROUGH_OPERATORS.includes(op)) {
+            this.diagnostics.report("info", path, `'${op}' is replaced by its argument`);
+            return this.convertExpression(node[1], path, bindings);
+        }
+
+        if (!SPECIAL_FORMS.includes(op) && ExprEvaluator.getOperator(op) === undefined) {
+            this.diagnostics.report("warning", path, `unsupported operator '${op}'`);
+            return undefined;
+        }
+        return this.convertCall(op, convertArgs(node.slice(1)));
+    }
+
+    private convertCall(op: string, args: JsonArray | undefined): JsonExpr | undefined {
+        return args !== undefined ? [op, ...args] : undefined;
+    }
+
+    private convertInterpolationMode(mode: JsonArray, path: string): JsonArray {
+        switch (mode[0]) {
+            case "linear":
+                return ["linear"];
+            case "exponential":
+                return mode[1] === 1 ? ["linear"] : ["exponential", mode[1]];
+            default:
+                this.diagnostics.report(
+                    "info",
+                    path,
+                    `interpolation '${mode[0]}' is converted to 'linear'`
+                );
+                return ["linear"];
+        }
+    }
+
+    private convertLegacyFilter(filter: JsonArray, path: string): JsonValue | undefined {
+        const op = filter[0] as string;
+        const key = filter[1] as string;
+        switch (op) {
+            case "all":
+            case "any":
+            case "none": {
+                const result: JsonArray = [op];
+                for (const child of filter.slice(1)) {
+                    const converted = this.convertFilter(child, path);
+                    if (converted === undefined) {
+                        return undefined;
+                    }
+                    result.push(converted);
+                }
+                return result;
+            }
+            case "has":
+                return ["has", key];
+            case "!has":
+                return ["!", ["has", key]];
+            case "in":
+                return ["in", legacyFilterKey(key), ["literal", filter.slice(2)]];
+            case "!in":
+                return ["!", ["in", legacyFilterKey(key), ["literal", filter.slice(2)]]];
+            default:
+                if (LEGACY_COMPARISON_OPERATORS.includes(op)) {
+                    return [op, legacyFilterKey(key), filter[2]];
+                }
+                this.diagnostics.report("warning", path, `unsupported filter '${op}'`);
+                return undefined;
+        }
+    }
+
+    private convertFunction(fn: JsonObject, path: string): JsonValue | undefined {
+        const stops = fn.stops as JsonArray;
+        const property = fn.property as string | undefined;
+        const type = (fn.type as string | undefined) ?? defaultFunctionType(stops);
+        const input: JsonExpr = property !== undefined ? ["get", property] : ["zoom"];
+
+        if (type === "identity") {
+            return input;
+        }
+        if (
+            stops.some(stop => !Array.isArray(stop) || typeof (stop as JsonArray)[0] === "object")
+        ) {
+            this.diagnostics.report("warning", path, "zoom-and-property functions are unsupported");
+            return undefined;
+        }
+        const flatStops = ([] as JsonArray).concat(...(stops as JsonArray[]));
+
+        switch (type) {
+            case "exponential": {
+                const base = (fn.base as number | undefined) ?? 1;
+                const mode = base === 1 ? ["linear"] : ["exponential", base];
+                return ["interpolate", mode, input, ...flatStops];
+            }
+            case "interval": {
+                const [, firstValue, ...rest] = flatStops;
+                return ["step", input, firstValue, ...rest];
+            }
+            case "categorical":
+                return ["match", input, ...flatStops, fn.default ?? null];
+            default:
+                this.diagnostics.report("warning", path, `unsupported function type '${type}'`);
+                return undefined;
+        }
+    }
+}
+
+/**
+ * Checks if the given value is a legacy (pre-expression) function.
+ */
+function isLegacyFunction(value: JsonValue): value is JsonObject {
+    return (
+        value !== null &&
+        typeof value === "object" &&
+        !Array.isArray(value) &&
+        Array.isArray(value.stops)
+    );
+}
+
+/**
+ * Gets the type of a legacy function without explicit type: `categorical` for string inputs,
+ * `exponential` for numeric and color outputs and `interval` otherwise.
+ */
+function defaultFunctionType(stops: JsonArray): string {
+    const [input, output] = (stops[0] as JsonArray | undefined) ?? [];
+    if (typeof input === "string") {
+        return "categorical";
+    }
+    if (typeof output === "number" || (typeof output === "string" && isColorString(output))) {
+        return "exponential";
+    }
+    return "interval";
+}
+
+/**
+ * Checks if the given string is a CSS color.
+ */
+function isColorString(value: string): boolean {
+    return /^(#|rgba?\(|hsla?\()/.test(value);
+}
+
+/**
+ * Checks if a filter uses the expression syntax instead of the legacy filter syntax, following
+ * the rules of the Mapbox GL style specification.
+ */
+function isExpressionFilter(filter: JsonArray): boolean {
+    const op = filter[0];
+    switch (op) {
+        case "has":
+            return filter.length >= 2 && typeof filter[1] !== "string";
+        case "in":
+            return (
+                filter.length >= 3 && (typeof filter[1] !== "string" || Array.isArray(filter[2]))
+            );
+        case "!in":
+        case "!has":
+        case "none":
+            return false;
+        case "==":
+        case "!=":
+        case ">":
+        case ">=":
+        case "<":
+        case "<=":
+            return filter.length !== 3 || Array.isArray(filter[1]) || Array.isArray(filter[2]);
+        case "any":
+        case "all":
+            return filter
+                .slice(1)
+                .every(child => Array.isArray(child) && isExpressionFilter(child));
+        default:
+            return true;
+    }
+}
+
+/**
+ * Converts the key of a legacy filter into an expression, `$type` and `$id` refer to the
+ * geometry type and id of the feature.
+ */
+function legacyFilterKey(key: string): JsonExpr {
+    switch (key) {
+        case "$type":
+            return ["geometry-type"];
+        case "$id":
+            return ["id"];
+        default:
+            return ["get", key];
+    }
+}
+
+/**
+ * Checks that a converted value is a valid harp.gl expression.
+ *
+ * @returns The error message if the value is not valid.
+ */
+export function validateExpression(value: JsonValue): string | undefined {
+    if (!Array.isArray(value)) {
+        return undefined;
+    }
+    try {
+        Expr.fromJSON(value);
+        return undefined;
+    } catch (error) {
+        return error.message;
+    }
+}
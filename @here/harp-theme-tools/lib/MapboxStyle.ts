@@ -0,0 +1,86 @@
+/*
+ * Copyright (C) 2017-2020 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { JsonValue } from "@here/harp-datasource-protocol";
+
+/**
+ * The subset of the Mapbox GL style specification read by the {@link MapboxStyleConverter}.
+ *
+ * @remarks
+ * See https://docs.mapbox.com/mapbox-gl-js/style-spec/ for the complete specification, which is
+ * also implemented by MapLibre GL.
+ */
+export interface MapboxStyle {
+    /**
+     * Version of the style specification, must be `8`.
+     */
+    version: number;
+
+    /**
+     * Name of the style.
+     */
+    name?: string;
+
+    /**
+     * Data sources referenced by [[MapboxLayer.source]].
+     */
+    sources?: { [sourceId: string]: MapboxSource };
+
+    /**
+     * Base URL of the sprite image and sprite index, without `.png` and `.json` extension.
+     */
+    sprite?: string;
+
+    /**
+     * URL template of the glyph ranges.
+     */
+    glyphs?: string;
+
+    /**
+     * The layers in draw order.
+     */
+    layers: MapboxLayer[];
+}
+
+/**
+ * A data source of a {@link MapboxStyle}.
+ */
+export interface MapboxSource {
+    type: string;
+    url?: string;
+    tiles?: string[];
+    [property: string]: JsonValue | undefined;
+}
+
+/**
+ * The types of the layers of a {@link MapboxStyle}.
+ */
+export type MapboxLayerType =
+    | "background"
+    | "fill"
+    | "line"
+    | "symbol"
+    | "circle"
+    | "fill-extrusion"
+    | "raster"
+    | "hillshade"
+    | "heatmap"
+    | "sky";
+
+/**
+ * A layer of a {@link MapboxStyle}.
+ */
+export interface MapboxLayer {
+    id: string;
+    type: MapboxLayerType;
+    source?: string;
+    "source-layer"?: string;
+    minzoom?: number;
+    maxzoom?: number;
+    filter?: JsonValue;
+    layout?: { [property: string]: JsonValue };
+    paint?: { [property: string]: JsonValue };
+}
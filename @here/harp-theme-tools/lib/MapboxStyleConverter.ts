@@ -0,0 +1,644 @@
+/*
+ * Copyright (C) 2017-2020 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Definitions, JsonValue, Style, StyleSet, Theme } from "@here/harp-datasource-protocol";
+
+import { ConversionDiagnostic, ConversionDiagnostics } from "./ConversionDiagnostics";
+import { MapboxExpressionConverter, validateExpression } from "./MapboxExpressionConverter";
+import { MapboxLayer, MapboxStyle } from "./MapboxStyle";
+
+/**
+ * Options of the {@link MapboxStyleConverter}.
+ */
+export interface MapboxStyleConverterOptions {
+    /**
+     * Names of the harp.gl style sets created for the sources of the Mapbox style.
+     *
+     * @remarks
+     * The style set name has to match the `styleSetName` of the data source rendering the styles,
+     * e.g. `"tilezen"`. Sources not listed here use their Mapbox source id as style set name.
+     */
+    styleSetNames?: { [sourceId: string]: string };
+
+    /**
+     * Moves colors used by several layers into the `definitions` of the theme, so they can be
+     * changed in one place.
+     *
+     * @defaultValue `true`
+     */
+    extractDefinitions?: boolean;
+}
+
+/**
+ * The result of a conversion.
+ */
+export interface MapboxStyleConversionResult {
+    /**
+     * The converted theme.
+     */
+    theme: Theme;
+
+    /**
+     * The unsupported or approximated constructs of the Mapbox style.
+     */
+    diagnostics: ConversionDiagnostic[];
+}
+
+/**
+ * Converts the value of a Mapbox property into harp.gl technique attributes.
+ */
+type PropertyConverter = (
+    value: JsonValue,
+    attrs: { [name: string]: JsonValue },
+    context: LayerContext
+) => void;
+
+/**
+ * State of the layer being converted.
+ */
+interface LayerContext {
+    /**
+     * Name of the technique the layer is converted to.
+     */
+    technique: string;
+}
+
+/**
+ * Mapping of a Mapbox property on the technique attribute with given name, or a custom converter.
+ *
+ * `null` marks properties that have no equivalent in harp.gl, but don't change the map much.
+ */
+type PropertyMapping = string | PropertyConverter | null;
+
+/**
+ * Names of the technique attributes holding colors, candidates for definitions.
+ */
+const COLOR_ATTRIBUTES = ["color", "lineColor", "backgroundColor", "iconColor"];
+
+/**
+ * Mapbox `line-cap` values and their harp.gl `caps` equivalent.
+ */
+const LINE_CAPS: { [cap: string]: string } = {
+    butt: "None",
+    round: "Round",
+    square: "Square"
+};
+
+const fillProperties: { [property: string]: PropertyMapping } = {
+    "fill-color": "color",
+    "fill-opacity": "opacity",
+    "fill-outline-color": (value, attrs) => {
+        attrs.lineColor = value;
+        attrs.lineWidth = 1;
+    },
+    "fill-antialias": null
+};
+
+const fillExtrusionProperties: { [property: string]: PropertyMapping } = {
+    "fill-extrusion-color": "color",
+    "fill-extrusion-opacity": "opacity",
+    "fill-extrusion-height": "height",
+    "fill-extrusion-base": "floorHeight",
+    "fill-extrusion-vertical-gradient": null
+};
+
+const lineProperties: { [property: string]: PropertyMapping } = {
+    "line-color": "color",
+    "line-opacity": "opacity",
+    "line-width": (value, attrs) => {
+        attrs.lineWidth = value;
+        attrs.metricUnit = "Pixel";
+    },
+    "line-offset": "offset",
+    "line-blur": null,
+    "line-join": null,
+    "line-miter-limit": null,
+    "line-round-limit": null
+};
+
+const circleProperties: { [property: string]: PropertyMapping } = {
+    "circle-color": "color",
+    "circle-opacity": "opacity",
+    "circle-radius": (value, attrs) => {
+        attrs.size = typeof value === "number" ? value * 2 : ["*", value, 2];
+    },
+    "circle-blur": null
+};
+
+const symbolProperties: { [property: string]: PropertyMapping } = {
+    "text-field": "text",
+    "text-size": "size",
+    "text-color": "color",
+    "text-opacity": "opacity",
+    "text-halo-color": "backgroundColor",
+    "text-halo-width": "backgroundSize",
+    "text-letter-spacing": "tracking",
+    "text-allow-overlap": (value, attrs, context) => {
+        attrs[context.technique === "text" ? "mayOverlap" : "textMayOverlap"] = value;
+    },
+    "text-ignore-placement": (value, attrs, context) => {
+        const reserveSpace = typeof value === "boolean" ? !value : ["!", value];
+        attrs[context.technique === "text" ? "reserveSpace" : "textReserveSpace"] = reserveSpace;
+    },
+    "text-optional": "textIsOptional",
+    "text-anchor": (value, attrs, context) => convertTextAnchor(value, attrs, context),
+    "text-font": null,
+    "text-halo-blur": null,
+    "text-justify": null,
+    "text-padding": null,
+    "text-line-height": null,
+    "text-max-angle": null,
+    "text-keep-upright": null,
+    "text-rotation-alignment": null,
+    "text-pitch-alignment": null,
+    "symbol-placement": null,
+    "symbol-spacing": null,
+    "symbol-avoid-edges": null,
+    "symbol-z-order": null,
+    "icon-image": "imageTexture",
+    "icon-color": "iconColor",
+    "icon-allow-overlap": "iconMayOverlap",
+    "icon-ignore-placement": (value, attrs) => {
+        attrs.iconReserveSpace = typeof value === "boolean" ? !value : ["!", value];
+    },
+    "icon-optional": "iconIsOptional",
+    "icon-anchor": null,
+    "icon-padding": null,
+    "icon-keep-upright": null,
+    "icon-rotation-alignment": null,
+    "icon-pitch-alignment": null,
+    "icon-halo-color": null,
+    "icon-halo-width": null,
+    "icon-halo-blur": null
+};
+
+/**
+ * Converts Mapbox GL (and MapLibre GL) styles into harp.gl {@link @here/harp-datasource-protocol#Theme}s.
+ *
+ * @remarks
+ * Each Mapbox layer becomes a {@link @here/harp-datasource-protocol#Style} in the style set of its
+ * source, keeping the draw order of the layers as `renderOrder`:
+ *
+ * - `background` layers set the `clearColor` of the theme,
+ * - `fill` layers use the `fill` technique,
+ * - `fill-extrusion` layers use the `extruded-polygon` technique,
+ * - `line` layers use the `solid-line` or, with `line-dasharray`, `dashed-line` technique,
+ * - `circle` layers use the `circles` technique,
+ * - `symbol` layers use the `text` technique, or `labeled-icon` if they have an `icon-image`.
+ *
+ * Filters become `when` conditions and data-driven values become expressions. Everything that
+ * can't be converted is reported in the diagnostics of the result instead of being dropped
+ * silently.
+ *
+ * @example
+ * ```TypeScript
+ * const { theme, diagnostics } = new MapboxStyleConverter({
+ *     styleSetNames: { openmaptiles: "tilezen" }
+ * }).convert(mapboxStyle);
+ * ```
+ */
+export class MapboxStyleConverter {
+    private readonly m_options: MapboxStyleConverterOptions;
+    private m_diagnostics = new ConversionDiagnostics();
+    private m_expressionConverter = new MapboxExpressionConverter(this.m_diagnostics);
+
+    /**
+     * Constructs a new `MapboxStyleConverter`.
+     *
+     * @param options - Options of the conversion.
+     */
+    constructor(options: MapboxStyleConverterOptions = {}) {
+        this.m_options = options;
+    }
+
+    /**
+     * Converts a Mapbox style.
+     *
+     * @param style - The Mapbox style.
+     * @returns The theme and the diagnostics of the conversion.
+     */
+    convert(style: MapboxStyle): MapboxStyleConversionResult {
+        this.m_diagnostics = new ConversionDiagnostics();
+        this.m_expressionConverter = new MapboxExpressionConverter(this.m_diagnostics);
+
+        const theme: Theme = {};
+        const styles: { [styleSetName: string]: StyleSet } = {};
+
+        if (style.version !== 8) {
+            this.report("warning", "version", `unsupported style version ${style.version}`);
+        }
+        if (style.glyphs !== undefined) {
+            this.report("info", "glyphs", "glyphs are ignored, harp.gl uses font catalogs");
+        }
+        if (style.sprite !== undefined) {
+            this.convertSprite(style.sprite, theme);
+        }
+
+        let symbolPriority = 0;
+        (style.layers ?? []).forEach((layer, index) => {
+            const path = `layers[${index}]`;
+            this.m_diagnostics.layerId = layer.id;
+
+            if (layer.layout?.visibility === "none") {
+                this.report("info", path, "invisible layer is skipped");
+            } else if (layer.type === "background") {
+                this.convertBackground(layer, path, theme);
+            } else {
+                const converted = this.convertLayer(layer, path);
+                if (converted !== undefined) {
+                    if (layer.type === "symbol") {
+                        (converted as any).attr.priority = symbolPriority++;
+                    } else {
+                        converted.renderOrder = index;
+                    }
+                    const source = layer.source ?? "";
+                    const styleSetName = this.m_options.styleSetNames?.[source] ?? source;
+                    (styles[styleSetName] = styles[styleSetName] ?? []).push(converted);
+                }
+            }
+            this.m_diagnostics.layerId = undefined;
+        });
+
+        if (this.m_options.extractDefinitions !== false) {
+            const definitions = extractColorDefinitions(styles);
+            if (Object.keys(definitions).length > 0) {
+                theme.definitions = definitions;
+            }
+        }
+        theme.styles = styles;
+
+        return { theme, diagnostics: this.m_diagnostics.diagnostics };
+    }
+
+    private report(severity: ConversionDiagnostic["severity"], path: string, message: string) {
+        this.m_diagnostics.report(severity, path, message);
+    }
+
+    private convertSprite(sprite: string, theme: Theme) {
+        if (sprite.startsWith("mapbox://")) {
+            this.report("warning", "sprite", "mapbox:// sprite URLs can't be resolved");
+            return;
+        }
+        theme.images = {
+            sprite: { url: `${sprite}.png`, preload: true, atlas: `${sprite}.json` }
+        };
+    }
+
+    private convertBackground(layer: MapboxLayer, path: string, theme: Theme) {
+        const color = layer.paint?.["background-color"];
+        if (typeof color === "string") {
+            theme.clearColor = color;
+        } else if (color !== undefined) {
+            this.report(
+                "warning",
+                `${path}.paint.background-color`,
+                "only constant background colors are supported"
+            );
+        }
+        for (const property of Object.keys(layer.paint ?? {})) {
+            if (property !== "background-color") {
+                this.report("warning", `${path}.paint.${property}`, "unsupported property");
+            }
+        }
+    }
+
+    private convertLayer(layer: MapboxLayer, path: string): Style | undefined {
+        let technique: string;
+        let properties: { [property: string]: PropertyMapping };
+        switch (layer.type) {
+            case "fill":
+                technique = "fill";
+                properties = fillProperties;
+                break;
+            case "fill-extrusion":
+                technique = "extruded-polygon";
+                properties = fillExtrusionProperties;
+                break;
+            case "line":
+                technique =
+                    layer.paint?.["line-dasharray"] !== undefined ? "dashed-line" : "solid-line";
+                properties = lineProperties;
+                break;
+            case "circle":
+                technique = "circles";
+                properties = circleProperties;
+                break;
+            case "symbol":
+                technique = layer.layout?.["icon-image"] !== undefined ? "labeled-icon" : "text";
+                properties = symbolProperties;
+                break;
+            default:
+                this.report("error", path, `layer type '${layer.type}' is not supported`);
+                return undefined;
+        }
+
+        const context: LayerContext = { technique };
+        const attrs: { [name: string]: JsonValue } = {};
+        this.convertProperties(layer.layout, `${path}.layout`, properties, attrs, context);
+        this.convertProperties(layer.paint, `${path}.paint`, properties, attrs, context);
+
+        if (layer.type === "line") {
+            this.convertLineCapAndDashes(layer, path, attrs);
+        } else if (layer.type === "symbol") {
+            this.convertSymbolLayout(layer, path, attrs);
+        }
+
+        const style: any = { id: layer.id, technique };
+        if (layer["source-layer"] !== undefined) {
+            style.layer = layer["source-layer"];
+        }
+        if (layer.filter !== undefined) {
+            const when = this.m_expressionConverter.convertFilter(layer.filter, `${path}.filter`);
+            const error = when !== undefined ? validateExpression(when) : "unsupported filter";
+            if (error !== undefined) {
+                this.report("error", `${path}.filter`, `layer is skipped, ${error}`);
+                return undefined;
+            }
+            style.when = when;
+        }
+        if (layer.minzoom !== undefined) {
+            style.minZoomLevel = layer.minzoom;
+        }
+        if (layer.maxzoom !== undefined) {
+            style.maxZoomLevel = layer.maxzoom;
+        }
+        style.attr = attrs;
+        return style as Style;
+    }
+
+    private convertProperties(
+        properties: { [property: string]: JsonValue } | undefined,
+        path: string,
+        mappings: { [property: string]: PropertyMapping },
+        attrs: { [name: string]: JsonValue },
+        context: LayerContext
+    ) {
+        if (properties === undefined) {
+            return;
+        }
+        for (const property of Object.keys(properties)) {
+            const propertyPath = `${path}.${property}`;
+            if (property === "visibility" || isHandledSeparately(property)) {
+                continue;
+            }
+            const mapping = mappings[property];
+            if (mapping === undefined) {
+                this.report("warning", propertyPath, "unsupported property");
+                continue;
+            }
+            if (mapping === null) {
+                this.report("info", propertyPath, "property has no effect in harp.gl");
+                continue;
+            }
+
+            let value: JsonValue | undefined = properties[property];
+            if (
+                typeof value === "string" &&
+                (property === "text-field" || property === "icon-image")
+            ) {
+                value = this.m_expressionConverter.convertTokenString(value);
+            }
+            value = this.m_expressionConverter.convertValue(value, propertyPath);
+            const error = value !== undefined ? validateExpression(value) : "unsupported value";
+            if (error !== undefined) {
+                this.report("warning", propertyPath, `property is skipped, ${error}`);
+                continue;
+            }
+
+            if (typeof mapping === "string") {
+                attrs[mapping] = value!;
+            } else {
+                mapping(value!, attrs, context);
+            }
+        }
+    }
+
+    private convertLineCapAndDashes(
+        layer: MapboxLayer,
+        path: string,
+        attrs: { [name: string]: JsonValue }
+    ) {
+        const cap = layer.layout?.["line-cap"];
+        if (typeof cap === "string" && LINE_CAPS[cap] !== undefined) {
+            attrs.caps = LINE_CAPS[cap];
+        } else if (cap !== undefined) {
+            this.report(
+                "warning",
+                `${path}.layout.line-cap`,
+                "only constant line caps are supported"
+            );
+        }
+
+        const dashes = layer.paint?.["line-dasharray"];
+        if (dashes === undefined) {
+            return;
+        }
+        // Dash and gap lengths are given in line widths.
+        const lineWidth = attrs.lineWidth ?? 1;
+        if (
+            Array.isArray(dashes) &&
+            dashes.length >= 2 &&
+            dashes.every(d => typeof d === "number")
+        ) {
+            const [dashSize, gapSize] = dashes as number[];
+            attrs.dashSize =
+                typeof lineWidth === "number" ? dashSize * lineWidth : ["*", dashSize, lineWidth];
+            attrs.gapSize =
+                typeof lineWidth === "number" ? gapSize * lineWidth : ["*", gapSize, lineWidth];
+            if (dashes.length > 2) {
+                this.report(
+                    "info",
+                    `${path}.paint.line-dasharray`,
+                    "only the first dash and gap are used"
+                );
+            }
+        } else {
+            this.report(
+                "warning",
+                `${path}.paint.line-dasharray`,
+                "only constant dash arrays are supported"
+            );
+        }
+    }
+
+    private convertSymbolLayout(
+        layer: MapboxLayer,
+        path: string,
+        attrs: { [name: string]: JsonValue }
+    ) {
+        const textTransform = layer.layout?.["text-transform"];
+        if (textTransform === "uppercase" || textTransform === "lowercase") {
+            const op = textTransform === "uppercase" ? "upcase" : "downcase";
+            attrs.text = [op, attrs.text ?? ["get", "name"]];
+        } else if (textTransform !== undefined && textTransform !== "none") {
+            this.report(
+                "warning",
+                `${path}.layout.text-transform`,
+                "only constant text transforms are supported"
+            );
+        }
+
+        // Maximum text width is given in ems.
+        const maxWidth = layer.layout?.["text-max-width"];
+        const size = attrs.size ?? 16;
+        if (maxWidth !== undefined) {
+            if (typeof maxWidth === "number" && typeof size === "number") {
+                attrs.lineWidth = maxWidth * size;
+            } else {
+                this.report(
+                    "warning",
+                    `${path}.layout.text-max-width`,
+                    "only constant maximum widths are supported"
+                );
+            }
+        }
+
+        // Offsets are given in ems for text and in icon sizes for icons, y pointing down.
+        const textOffset = layer.layout?.["text-offset"];
+        if (textOffset !== undefined) {
+            if (isNumberPair(textOffset) && typeof size === "number") {
+                attrs.xOffset = textOffset[0] * size;
+                attrs.yOffset = -textOffset[1] * size;
+            } else {
+                this.report(
+                    "warning",
+                    `${path}.layout.text-offset`,
+                    "only constant offsets are supported"
+                );
+            }
+        }
+
+        const iconOffset = layer.layout?.["icon-offset"];
+        const iconSize = layer.layout?.["icon-size"];
+        if (iconSize !== undefined) {
+            if (typeof iconSize === "number") {
+                attrs.iconScale = iconSize;
+            } else {
+                this.report(
+                    "warning",
+                    `${path}.layout.icon-size`,
+                    "only constant icon sizes are supported"
+                );
+            }
+        }
+        if (iconOffset !== undefined) {
+            const scale = typeof iconSize === "number" ? iconSize : 1;
+            if (isNumberPair(iconOffset)) {
+                attrs.iconXOffset = iconOffset[0] * scale;
+                attrs.iconYOffset = -iconOffset[1] * scale;
+            } else {
+                this.report(
+                    "warning",
+                    `${path}.layout.icon-offset`,
+                    "only constant offsets are supported"
+                );
+            }
+        }
+    }
+}
+
+/**
+ * Properties converted together with others instead of one by one.
+ */
+function isHandledSeparately(property: string): boolean {
+    return [
+        "line-cap",
+        "line-dasharray",
+        "text-transform",
+        "text-max-width",
+        "text-offset",
+        "icon-offset",
+        "icon-size"
+    ].includes(property);
+}
+
+function isNumberPair(value: JsonValue): value is [number, number] {
+    return (
+        Array.isArray(value) &&
+        value.length === 2 &&
+        typeof value[0] === "number" &&
+        typeof value[1] === "number"
+    );
+}
+
+/**
+ * Converts `text-anchor` into the alignment of `text` techniques, or the placement of
+ * `labeled-icon` techniques.
+ */
+function convertTextAnchor(
+    value: JsonValue,
+    attrs: { [name: string]: JsonValue },
+    context: LayerContext
+) {
+    if (typeof value !== "string") {
+        return;
+    }
+    // The anchor is the side of the text at the position, the text itself is on the other side.
+    const vertical = value.includes("top") ? "B" : value.includes("bottom") ? "T" : "";
+    const horizontal = value.includes("left") ? "R" : value.includes("right") ? "L" : "";
+
+    if (context.technique === "labeled-icon") {
+        attrs.placements = vertical + horizontal === "" ? "C" : vertical + horizontal;
+    } else {
+        attrs.hAlignment = horizontal === "R" ? "Left" : horizontal === "L" ? "Right" : "Center";
+        attrs.vAlignment = vertical === "B" ? "Below" : vertical === "T" ? "Above" : "Center";
+    }
+}
+
+/**
+ * Moves constant colors used by several styles into definitions, named after the first style
+ * using them.
+ */
+function extractColorDefinitions(styles: { [styleSetName: string]: StyleSet }): Definitions {
+    const usages = new Map<string, Array<{ attrs: any; name: string; styleId: string }>>();
+    for (const styleSet of Object.values(styles)) {
+        for (const style of styleSet) {
+            const attrs = (style as any).attr;
+            for (const name of COLOR_ATTRIBUTES) {
+                const value = attrs[name];
+                if (typeof value !== "string") {
+                    continue;
+                }
+                const key = value.toLowerCase();
+                let colorUsages = usages.get(key);
+                if (colorUsages === undefined) {
+                    colorUsages = [];
+                    usages.set(key, colorUsages);
+                }
+                colorUsages.push({ attrs, name, styleId: (style as any).id });
+            }
+        }
+    }
+
+    const definitions: Definitions = {};
+    usages.forEach((colorUsages, color) => {
+        if (colorUsages.length < 2) {
+            return;
+        }
+        const baseName = toCamelCase(`${colorUsages[0].styleId}-${colorUsages[0].name}`);
+        let name = baseName;
+        for (let i = 2; definitions[name] !== undefined; i++) {
+            name = `${baseName}${i}`;
+        }
+        definitions[name] = { type: "color", value: color };
+        for (const usage of colorUsages) {
+            usage.attrs[usage.name] = ["ref", name];
+        }
+    });
+    return definitions;
+}
+
+function toCamelCase(value: string): string {
+    return value
+        .split(/[^a-zA-Z0-9]+/)
+        .filter(part => part.length > 0)
+        .map((part, i) =>
+            i === 0
+                ? part.charAt(0).toLowerCase() + part.slice(1)
+                : part.charAt(0).toUpperCase() + part.slice(1)
+        )
+        .join("");
+}
@@ -0,0 +1,69 @@
+#!/usr/bin/env node
+/*
+ * Copyright (C) 2017-2020 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/* eslint-disable no-console */
+
+import * as program from "commander";
+import * as fs from "fs";
+import * as path from "path";
+
+import { MapboxStyleConverter } from "../lib/MapboxStyleConverter";
+
+const version = JSON.parse(fs.readFileSync(path.join(__dirname, "..", "package.json"), "utf8"))
+    .version;
+
+const _defaultMinify: boolean = false;
+const _defaultStrict: boolean = false;
+
+function collectStyleSetNames(value: string, previous: { [sourceId: string]: string }) {
+    const [sourceId, styleSetName] = value.split("=");
+    if (styleSetName === undefined) {
+        console.error(`Invalid style set name '${value}', expected <source>=<style set name>`);
+        process.exit(1);
+    }
+    return { ...previous, [sourceId]: styleSetName };
+}
+
+program
+    .version(version)
+    .description("CLI tool for converting Mapbox GL styles into harp.gl themes.")
+    .usage("[options]")
+    .requiredOption("-i, --in [file]", "Input Mapbox GL style file.")
+    .option("-o, --out [file]", "Output theme file, prints to stdout if omitted.")
+    .option(
+        "-s, --style-set [source=name]",
+        "Style set name of a source, e.g. 'openmaptiles=tilezen'. Can be repeated.",
+        collectStyleSetNames,
+        {}
+    )
+    .option("--strict", "Exit with an error if any layer could not be converted.", _defaultStrict)
+    .option("-m, --minify", "Minify JSON", _defaultMinify)
+    .parse(process.argv);
+
+const cliOptions = program.opts();
+
+const style = JSON.parse(fs.readFileSync(cliOptions.in, "utf8"));
+const { theme, diagnostics } = new MapboxStyleConverter({
+    styleSetNames: cliOptions.styleSet
+}).convert(style);
+
+for (const diagnostic of diagnostics) {
+    const layer = diagnostic.layerId !== undefined ? ` (layer '${diagnostic.layerId}')` : "";
+    console.error(`${diagnostic.severity}: ${diagnostic.path}${layer}: ${diagnostic.message}`);
+}
+
+const json = cliOptions.minify ? JSON.stringify(theme) : JSON.stringify(theme, undefined, 4);
+if (typeof cliOptions.out === "string") {
+    console.error(`Writing ${cliOptions.out}`);
+    fs.writeFileSync(cliOptions.out, json);
+} else {
+    console.log(json);
+}
+
+if (cliOptions.strict && diagnostics.some(diagnostic => diagnostic.severity === "error")) {
+    process.exit(1);
+}
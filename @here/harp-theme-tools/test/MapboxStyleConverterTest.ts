@@ -0,0 +1,319 @@
+/*
+ * Copyright (C) 2017-2020 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+//    Mocha discourages using arrow functions, see https://mochajs.org/#arrow-functions
+
+import { Expr, MapEnv } from "@here/harp-datasource-protocol";
+import { assert } from "chai";
+
+import { ConversionDiagnostics } from "../lib/ConversionDiagnostics";
+import { MapboxExpressionConverter } from "../lib/MapboxExpressionConverter";
+import { MapboxLayer, MapboxStyle } from "../lib/MapboxStyle";
+import { MapboxStyleConverter } from "../lib/MapboxStyleConverter";
+
+function convertLayers(layers: MapboxLayer[], extractDefinitions = false) {
+    const style: MapboxStyle = { version: 8, layers };
+    return new MapboxStyleConverter({ extractDefinitions }).convert(style);
+}
+
+describe("MapboxStyleConverter", function() {
+    describe("MapboxExpressionConverter", function() {
+        let diagnostics: ConversionDiagnostics;
+        let converter: MapboxExpressionConverter;
+
+        beforeEach(function() {
+            diagnostics = new ConversionDiagnostics();
+            converter = new MapboxExpressionConverter(diagnostics);
+        });
+
+        function evaluate(json: any, properties: { [name: string]: any } = {}) {
+            return Expr.fromJSON(json).evaluate(new MapEnv(properties));
+        }
+
+        it("converts legacy filters", function() {
+            const filter = converter.convertFilter(
+                ["all", ["==", "$type", "Polygon"], ["in", "class", "park", "forest"]],
+                "filter"
+            );
+
+            assert.deepEqual(filter, [
+                "all",
+                ["==", ["geometry-type"], "Polygon"],
+                ["in", ["get", "class"], ["literal", ["park", "forest"]]]
+            ]);
+            assert.isTrue(evaluate(filter, { $geometryType: "polygon", class: "park" }));
+            assert.isFalse(evaluate(filter, { $geometryType: "polygon", class: "grass" }));
+        });
+
+        it("keeps expression filters", function() {
+            const filter = ["==", ["get", "class"], "park"];
+
+            assert.deepEqual(converter.convertFilter(filter, "filter"), filter);
+            assert.isEmpty(diagnostics.diagnostics);
+        });
+
+        it("converts legacy zoom functions", function() {
+            const value = converter.convertValue(
+                {
+                    base: 1.5,
+                    stops: [
+                        [10, 1],
+                        [20, 10]
+                    ]
+                },
+                "line-width"
+            );
+
+            assert.deepEqual(value, ["interpolate", ["exponential", 1.5], ["zoom"], 10, 1, 20, 10]);
+        });
+
+        it("converts legacy categorical functions", function() {
+            const value = converter.convertValue(
+                {
+                    property: "class",
+                    stops: [
+                        ["park", "#00ff00"],
+                        ["water", "#0000ff"]
+                    ],
+                    default: "#ffffff"
+                },
+                "fill-color"
+            );
+
+            assert.equal(evaluate(value, { class: "water" }), "#0000ff");
+            assert.equal(evaluate(value, { class: "road" }), "#ffffff");
+        });
+
+        it("inlines let bindings", function() {
+            const value = converter.convertValue(
+                ["let", "size", ["get", "size"], ["*", ["var", "size"], 2]],
+                "text-size"
+            );
+
+            assert.deepEqual(value, ["*", ["get", "size"], 2]);
+        });
+
+        it("converts token strings", function() {
+            assert.equal(converter.convertTokenString("Label"), "Label");
+            assert.deepEqual(converter.convertTokenString("{name}"), [
+                "to-string",
+                ["get", "name"]
+            ]);
+            assert.deepEqual(converter.convertTokenString("{ref} {name}"), [
+                "concat",
+                ["get", "ref"],
+                " ",
+                ["get", "name"]
+            ]);
+        });
+
+        it("reports unsupported operators", function() {
+            const value = converter.convertValue(
+                ["distance", { type: "Point", coordinates: [0, 0] }],
+                "circle-radius"
+            );
+
+            assert.isUndefined(value);
+            assert.equal(diagnostics.diagnostics.length, 1);
+            assert.equal(diagnostics.diagnostics[0].severity, "warning");
+            assert.equal(diagnostics.diagnostics[0].path, "circle-radius");
+        });
+    });
+
+    it("converts background layers to the clear color", function() {
+        const { theme } = convertLayers([
+            { id: "background", type: "background", paint: { "background-color": "#f8f4f0" } }
+        ]);
+
+        assert.equal(theme.clearColor, "#f8f4f0");
+        assert.deepEqual(theme.styles, {});
+    });
+
+    it("converts fill layers into style sets of their sources", function() {
+        const { theme, diagnostics } = new MapboxStyleConverter({
+            styleSetNames: { openmaptiles: "tilezen" }
+        }).convert({
+            version: 8,
+            layers: [
+                {
+                    id: "water",
+                    type: "fill",
+                    source: "openmaptiles",
+                    "source-layer": "water",
+                    minzoom: 4,
+                    filter: ["==", "$type", "Polygon"],
+                    paint: { "fill-color": "#a0c8f0", "fill-opacity": 0.5 }
+                }
+            ]
+        });
+
+        assert.isEmpty(diagnostics);
+        assert.deepEqual(theme.styles!.tilezen, [
+            {
+                id: "water",
+                technique: "fill",
+                layer: "water",
+                when: ["==", ["geometry-type"], "Polygon"],
+                minZoomLevel: 4,
+                renderOrder: 0,
+                attr: { color: "#a0c8f0", opacity: 0.5 }
+            } as any
+        ]);
+    });
+
+    it("converts line layers", function() {
+        const { theme } = convertLayers([
+            {
+                id: "road",
+                type: "line",
+                source: "osm",
+                layout: { "line-cap": "round" },
+                paint: {
+                    "line-color": "#ffffff",
+                    "line-width": ["interpolate", ["linear"], ["zoom"], 10, 1, 16, 4]
+                }
+            },
+            {
+                id: "path",
+                type: "line",
+                source: "osm",
+                paint: { "line-width": 2, "line-dasharray": [2, 1] }
+            }
+        ]);
+        const [road, path] = theme.styles!.osm as any[];
+
+        assert.equal(road.technique, "solid-line");
+        assert.equal(road.renderOrder, 0);
+        assert.deepEqual(road.attr, {
+            color: "#ffffff",
+            lineWidth: ["interpolate", ["linear"], ["zoom"], 10, 1, 16, 4],
+            metricUnit: "Pixel",
+            caps: "Round"
+        });
+        assert.equal(path.technique, "dashed-line");
+        assert.equal(path.renderOrder, 1);
+        assert.deepEqual(path.attr, {
+            lineWidth: 2,
+            metricUnit: "Pixel",
+            dashSize: 4,
+            gapSize: 2
+        });
+    });
+
+    it("converts symbol layers", function() {
+        const { theme } = convertLayers([
+            {
+                id: "poi",
+                type: "symbol",
+                source: "osm",
+                layout: {
+                    "text-field": "{name}",
+                    "text-size": 12,
+                    "text-transform": "uppercase",
+                    "text-anchor": "top",
+                    "text-offset": [0, 1],
+                    "icon-image": "{class}_11"
+                },
+                paint: { "text-color": "#333333" }
+            },
+            {
+                id: "place",
+                type: "symbol",
+                source: "osm",
+                layout: { "text-field": ["get", "name"], "text-anchor": "left" }
+            }
+        ]);
+        const [poi, place] = theme.styles!.osm as any[];
+
+        assert.equal(poi.technique, "labeled-icon");
+        assert.deepEqual(poi.attr, {
+            text: ["upcase", ["to-string", ["get", "name"]]],
+            size: 12,
+            placements: "B",
+            imageTexture: ["concat", ["get", "class"], "_11"],
+            color: "#333333",
+            xOffset: 0,
+            yOffset: -12,
+            priority: 0
+        });
+        assert.equal(place.technique, "text");
+        assert.deepEqual(place.attr, {
+            text: ["get", "name"],
+            hAlignment: "Left",
+            vAlignment: "Center",
+            priority: 1
+        });
+    });
+
+    it("extracts shared colors into definitions", function() {
+        const { theme } = convertLayers(
+            [
+                { id: "water", type: "fill", source: "osm", paint: { "fill-color": "#A0C8F0" } },
+                { id: "river", type: "line", source: "osm", paint: { "line-color": "#a0c8f0" } }
+            ],
+            true
+        );
+        const [water, river] = theme.styles!.osm as any[];
+
+        assert.deepEqual(theme.definitions, { waterColor: { type: "color", value: "#a0c8f0" } });
+        assert.deepEqual(water.attr.color, ["ref", "waterColor"]);
+        assert.deepEqual(river.attr.color, ["ref", "waterColor"]);
+    });
+
+    it("converts sprites to image atlases", function() {
+        const { theme } = new MapboxStyleConverter().convert({
+            version: 8,
+            sprite: "https://example.com/sprite",
+            layers: []
+        });
+
+        assert.deepEqual(theme.images, {
+            sprite: {
+                url: "https://example.com/sprite.png",
+                preload: true,
+                atlas: "https://example.com/sprite.json"
+            }
+        });
+    });
+
+    it("reports unsupported layers and properties", function() {
+        const { theme, diagnostics } = convertLayers([
+            { id: "hidden", type: "fill", source: "osm", layout: { visibility: "none" } },
+            { id: "terrain", type: "hillshade", source: "dem" },
+            {
+                id: "road",
+                type: "line",
+                source: "osm",
+                paint: { "line-gradient": ["get", "gradient"], "line-blur": 1 }
+            }
+        ]);
+
+        assert.equal((theme.styles!.osm as any[]).length, 1);
+        assert.deepEqual(
+            diagnostics.map(d => [d.severity, d.layerId, d.path]),
+            [
+                ["info", "hidden", "layers[0]"],
+                ["error", "terrain", "layers[1]"],
+                ["warning", "road", "layers[2].paint.line-gradient"],
+                ["info", "road", "layers[2].paint.line-blur"]
+            ]
+        );
+    });
+
+    it("skips layers with unsupported filters", function() {
+        const { theme, diagnostics } = convertLayers([
+            {
+                id: "near",
+                type: "circle",
+                source: "osm",
+                filter: ["within", { type: "Polygon", coordinates: [] }]
+            }
+        ]);
+
+        assert.deepEqual(theme.styles, {});
+        assert.equal(diagnostics[diagnostics.length - 1].severity, "error");
+    });
+});
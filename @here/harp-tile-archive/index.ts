@@ -0,0 +1,24 @@
+/*
+ * Copyright (C) 2017-2020 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Tile archive data providers.
+ *
+ * @remarks
+ * Reads the vector or raster tiles of a map from a single MBTiles or PMTiles archive file
+ * instead of a tile server.
+ *
+ * @packageDocumentation
+ */
+
+export * from "./lib/ArchiveSource";
+export * from "./lib/ArchiveWebTileProvider";
+export * from "./lib/Compression";
+export * from "./lib/MBTilesArchive";
+export * from "./lib/PMTilesArchive";
+export * from "./lib/SqliteDatabase";
+export * from "./lib/TileArchive";
+export * from "./lib/TileArchiveDataProvider";
@@ -0,0 +1,86 @@
+/*
+ * Copyright (C) 2017-2020 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import "@here/harp-fetch";
+
+import { ITransferManager, TransferManager } from "@here/harp-transfer-manager";
+
+/**
+ * Random access to the bytes of a tile archive.
+ */
+export interface ArchiveSource {
+    /**
+     * Reads bytes of the archive.
+     *
+     * @remarks
+     * Reading beyond the end of the archive returns less than `length` bytes.
+     *
+     * @param offset - Offset of the first byte to read.
+     * @param length - Number of bytes to read.
+     * @param abortSignal - Optional AbortSignal to cancel the request.
+     */
+    getBytes(offset: number, length: number, abortSignal?: AbortSignal): Promise<ArrayBuffer>;
+
+    /**
+     * Optional method to release the resources of the source, called when the archive is closed.
+     */
+    close?(): void;
+}
+
+/**
+ * {@link ArchiveSource} reading from an archive in memory.
+ */
+export class ArrayBufferArchiveSource implements ArchiveSource {
+    /**
+     * Creates a new `ArrayBufferArchiveSource`.
+     *
+     * @param m_buffer - The content of the archive.
+     */
+    constructor(private readonly m_buffer: ArrayBuffer) {}
+
+    /** @override */
+    async getBytes(offset: number, length: number): Promise<ArrayBuffer> {
+        return this.m_buffer.slice(offset, offset + length);
+    }
+}
+
+/**
+ * {@link ArchiveSource} reading from an archive on a web server with HTTP range requests.
+ */
+export class HttpArchiveSource implements ArchiveSource {
+    private readonly m_downloadManager: ITransferManager;
+
+    /**
+     * Creates a new `HttpArchiveSource`.
+     *
+     * @param m_url - The `URL` of the archive.
+     * @param downloadManager - Transfer Manager to use; uses the default instance if none passed.
+     */
+    constructor(private readonly m_url: string, downloadManager?: ITransferManager) {
+        this.m_downloadManager = downloadManager ?? TransferManager.instance();
+    }
+
+    /** @override */
+    async getBytes(
+        offset: number,
+        length: number,
+        abortSignal?: AbortSignal
+    ): Promise<ArrayBuffer> {
+        const response = await this.m_downloadManager.download(this.m_url, {
+            headers: { Range: `bytes=${offset}-${offset + length - 1}` },
+            signal: abortSignal
+        });
+        if (!response.ok) {
+            throw new Error(
+                `HttpArchiveSource: failed to read ${this.m_url}: ${response.status} ` +
+                    response.statusText
+            );
+        }
+        const buffer = await response.arrayBuffer();
+        // Servers not supporting range requests respond with the whole archive.
+        return response.status === 206 ? buffer : buffer.slice(offset, offset + length);
+    }
+}
@@ -0,0 +1,84 @@
+/*
+ * Copyright (C) 2017-2020 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { CopyrightInfo, TextureLoader, Tile, TileSourceMetadata } from "@here/harp-mapview";
+import { WebTileDataProvider } from "@here/harp-webtile-datasource";
+import * as THREE from "three";
+
+import { TileArchiveDataProvider } from "./TileArchiveDataProvider";
+
+const MIME_TYPES: { [format: string]: string } = {
+    png: "image/png",
+    jpg: "image/jpeg",
+    jpeg: "image/jpeg",
+    webp: "image/webp",
+    avif: "image/avif"
+};
+
+/**
+ * [[WebTileDataProvider]] creating the textures of a [[WebTileDataSource]] from the raster
+ * tiles of a tile archive.
+ *
+ * @example
+ * ```typescript
+ * const dataSource = new WebTileDataSource({
+ *     dataProvider: new ArchiveWebTileProvider(
+ *         new MBTilesDataProvider({ source: "tiles/satellite.mbtiles" })
+ *     )
+ * });
+ * ```
+ */
+export class ArchiveWebTileProvider implements WebTileDataProvider {
+    private readonly m_textureLoader = new TextureLoader();
+
+    /**
+     * Creates a new `ArchiveWebTileProvider`.
+     *
+     * @param m_dataProvider - The provider reading the tiles from the archive.
+     */
+    constructor(private readonly m_dataProvider: TileArchiveDataProvider) {}
+
+    /** @override */
+    async connect(): Promise<void> {
+        await this.m_dataProvider.register(this);
+    }
+
+    /** @override */
+    getMetadata(): TileSourceMetadata | undefined {
+        return this.m_dataProvider.getMetadata();
+    }
+
+    /** @override */
+    dispose() {
+        this.m_dataProvider.unregister(this);
+    }
+
+    /** @override */
+    async getTexture(
+        tile: Tile,
+        abortSignal?: AbortSignal
+    ): Promise<[THREE.Texture | undefined, CopyrightInfo[]]> {
+        const data = (await this.m_dataProvider.getTile(tile.tileKey, abortSignal)) as ArrayBuffer;
+        const copyrightInfo = this.getMetadata()?.copyrightInfo ?? [];
+        if (data.byteLength === 0) {
+            return [undefined, copyrightInfo];
+        }
+
+        const format = this.m_dataProvider.archive?.metadata.format ?? "png";
+        const url = URL.createObjectURL(
+            new Blob([data], { type: MIME_TYPES[format] ?? MIME_TYPES.png })
+        );
+        try {
+            const texture = await this.m_textureLoader.load(url);
+            if (MIME_TYPES[format] === MIME_TYPES.jpg) {
+                texture.format = THREE.RGBFormat;
+            }
+            return [texture, copyrightInfo];
+        } finally {
+            URL.revokeObjectURL(url);
+        }
+    }
+}
@@ -0,0 +1,46 @@
+/*
+ * Copyright (C) 2017-2020 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Compressions of the tiles and directories in tile archives.
+ */
+export type Compression = "gzip" | "br" | "zstd";
+
+/**
+ * Function decompressing data of tile archives.
+ */
+export type Decompressor = (data: ArrayBuffer, compression: Compression) => Promise<ArrayBuffer>;
+
+declare const DecompressionStream: any;
+
+/**
+ * Default {@link Decompressor}, using the `DecompressionStream` of the browser.
+ *
+ * @remarks
+ * Only supports `gzip`, other compressions need a custom {@link Decompressor}.
+ */
+export async function defaultDecompressor(
+    data: ArrayBuffer,
+    compression: Compression
+): Promise<ArrayBuffer> {
+    if (compression !== "gzip" || typeof DecompressionStream === "undefined") {
+        throw new Error(`Decompression of ${compression} is not supported`);
+    }
+    const stream = new Response(data).body!.pipeThrough<Uint8Array>(
+        new DecompressionStream(compression)
+    );
+    return await new Response(stream).arrayBuffer();
+}
+
+/**
+ * Checks if the data starts with the magic number of gzip.
+ *
+ * @param data - The data to check.
+ */
+export function isGzipped(data: ArrayBuffer): boolean {
+    const bytes = new Uint8Array(data, 0, Math.min(data.byteLength, 2));
+    return bytes.length === 2 && bytes[0] === 0x1f && bytes[1] === 0x8b;
+}
@@ -0,0 +1,103 @@
+/*
+ * Copyright (C) 2017-2020 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// @here:check-imports:environment:node
+
+import * as fs from "fs";
+import { promisify } from "util";
+import * as zlib from "zlib";
+
+import { ArchiveSource } from "./ArchiveSource";
+import { Compression } from "./Compression";
+import { MBTilesDataProvider, PMTilesDataProvider } from "./TileArchiveDataProvider";
+
+const gunzip: (buffer: Buffer) => Promise<Buffer> = promisify(zlib.gunzip);
+const brotliDecompress: (buffer: Buffer) => Promise<Buffer> = promisify(zlib.brotliDecompress);
+
+/**
+ * {@link ArchiveSource} reading from a local file in node.js.
+ *
+ * @remarks
+ * The file is opened on the first read, and reopened if read again after being closed.
+ */
+export class FileArchiveSource implements ArchiveSource {
+    private m_file?: Promise<fs.promises.FileHandle>;
+
+    /**
+     * Creates a new `FileArchiveSource`.
+     *
+     * @param m_path - The path of the archive file.
+     */
+    constructor(private readonly m_path: string) {}
+
+    /** @override */
+    async getBytes(offset: number, length: number): Promise<ArrayBuffer> {
+        if (this.m_file === undefined) {
+            this.m_file = fs.promises.open(this.m_path, "r");
+        }
+        const file = await this.m_file;
+        const buffer = Buffer.alloc(length);
+        const { bytesRead } = await file.read(buffer, 0, length, offset);
+        return toArrayBuffer(buffer.subarray(0, bytesRead));
+    }
+
+    /** @override */
+    close() {
+        const file = this.m_file;
+        this.m_file = undefined;
+        file?.then(handle => handle.close()).catch(() => undefined);
+    }
+}
+
+/**
+ * {@link Decompressor} using the zlib module of node.js, supporting `gzip` and `br`.
+ */
+export async function zlibDecompressor(
+    data: ArrayBuffer,
+    compression: Compression
+): Promise<ArrayBuffer> {
+    const input = Buffer.from(data);
+    switch (compression) {
+        case "gzip":
+            return toArrayBuffer(await gunzip(input));
+        case "br":
+            return toArrayBuffer(await brotliDecompress(input));
+        default:
+            throw new Error(`Decompression of ${compression} is not supported`);
+    }
+}
+
+/**
+ * [[MBTilesDataProvider]] reading an MBTiles database from a local file in node.js.
+ */
+export class MBTilesFileDataProvider extends MBTilesDataProvider {
+    /**
+     * Creates a new `MBTilesFileDataProvider`.
+     *
+     * @param path - The path of the MBTiles file.
+     */
+    constructor(path: string) {
+        super({ source: new FileArchiveSource(path), decompress: zlibDecompressor });
+    }
+}
+
+/**
+ * [[PMTilesDataProvider]] reading a PMTiles archive from a local file in node.js.
+ */
+export class PMTilesFileDataProvider extends PMTilesDataProvider {
+    /**
+     * Creates a new `PMTilesFileDataProvider`.
+     *
+     * @param path - The path of the PMTiles file.
+     */
+    constructor(path: string) {
+        super({ source: new FileArchiveSource(path), decompress: zlibDecompressor });
+    }
+}
+
+function toArrayBuffer(buffer: Buffer): ArrayBuffer {
+    return buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength);
+}
@@ -0,0 +1,131 @@
+/*
+ * Copyright (C) 2017-2020 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { GeoBox, GeoCoordinates } from "@here/harp-geoutils";
+
+import { ArchiveSource } from "./ArchiveSource";
+import { Decompressor, defaultDecompressor, isGzipped } from "./Compression";
+import { SqliteDatabase, SqlRow, SqlValue } from "./SqliteDatabase";
+import { TileArchive, TileArchiveMetadata } from "./TileArchive";
+
+/**
+ * {@link TileArchive} reading tiles from an [MBTiles](https://github.com/mapbox/mbtiles-spec)
+ * SQLite database.
+ *
+ * @remarks
+ * Supports databases storing the tiles in a `tiles` table, and databases deduplicating the
+ * tiles with `map` and `images` tables, joined by a `tiles` view. Gzip compressed tiles are
+ * decompressed.
+ */
+export class MBTilesArchive implements TileArchive {
+    /**
+     * Opens an MBTiles archive.
+     *
+     * @param source - The source of the MBTiles database.
+     * @param decompress - Function to decompress gzip compressed tiles.
+     */
+    static async open(
+        source: ArchiveSource,
+        decompress: Decompressor = defaultDecompressor
+    ): Promise<MBTilesArchive> {
+        const database = await SqliteDatabase.open(source);
+
+        const values: { [key: string]: string } = {};
+        if (database.hasTable("metadata")) {
+            for (const { name, value } of await database.selectAll("metadata")) {
+                if (typeof name === "string" && typeof value === "string") {
+                    values[name] = value;
+                }
+            }
+        }
+
+        let deduplicated: boolean;
+        if (database.hasTable("tiles")) {
+            deduplicated = false;
+        } else if (database.hasTable("map") && database.hasTable("images")) {
+            deduplicated = true;
+        } else {
+            database.close();
+            throw new Error("MBTilesArchive: no tiles table found");
+        }
+
+        return new MBTilesArchive(database, parseMetadata(values), deduplicated, decompress);
+    }
+
+    private constructor(
+        private readonly m_database: SqliteDatabase,
+        readonly metadata: TileArchiveMetadata,
+        private readonly m_deduplicated: boolean,
+        private readonly m_decompress: Decompressor
+    ) {}
+
+    /** @override */
+    async getTile(level: number, column: number, row: number): Promise<ArrayBuffer | undefined> {
+        // MBTiles rows start in the south.
+        const where: SqlRow = {
+            zoom_level: level,
+            tile_column: column,
+            tile_row: Math.pow(2, level) - 1 - row
+        };
+
+        let tile: SqlRow | undefined;
+        if (this.m_deduplicated) {
+            const mapEntry = await this.m_database.selectFirst("map", where);
+            if (mapEntry === undefined || mapEntry.tile_id === null) {
+                return undefined;
+            }
+            tile = await this.m_database.selectFirst("images", { tile_id: mapEntry.tile_id });
+        } else {
+            tile = await this.m_database.selectFirst("tiles", where);
+        }
+
+        const data = toArrayBuffer(tile?.tile_data);
+        if (data === undefined) {
+            return undefined;
+        }
+        // Vector tiles are commonly stored gzip compressed.
+        return isGzipped(data) ? await this.m_decompress(data, "gzip") : data;
+    }
+
+    /** @override */
+    close() {
+        this.m_database.close();
+    }
+}
+
+function toArrayBuffer(value: SqlValue | undefined): ArrayBuffer | undefined {
+    if (value instanceof Uint8Array) {
+        return value.buffer.slice(value.byteOffset, value.byteOffset + value.byteLength);
+    }
+    return typeof value === "string" ? new TextEncoder().encode(value).buffer : undefined;
+}
+
+function parseNumber(value: string | undefined): number | undefined {
+    const result = value !== undefined ? parseFloat(value) : NaN;
+    return isNaN(result) ? undefined : result;
+}
+
+function parseMetadata(values: { [key: string]: string }): TileArchiveMetadata {
+    const metadata: TileArchiveMetadata = {
+        name: values.name,
+        format: values.format,
+        minZoom: parseNumber(values.minzoom),
+        maxZoom: parseNumber(values.maxzoom),
+        attribution: values.attribution,
+        values
+    };
+
+    // The bounds are stored as "west,south,east,north".
+    const bounds = (values.bounds ?? "").split(",").map(value => parseFloat(value));
+    if (bounds.length === 4 && bounds.every(value => !isNaN(value))) {
+        const [west, south, east, north] = bounds;
+        metadata.bounds = GeoBox.fromCoordinates(
+            new GeoCoordinates(south, west),
+            new GeoCoordinates(north, east)
+        );
+    }
+    return metadata;
+}
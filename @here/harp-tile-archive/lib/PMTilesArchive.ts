@@ -0,0 +1,346 @@
+/*
+ * Copyright (C) 2017-2020 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { GeoBox, GeoCoordinates } from "@here/harp-geoutils";
+import { LRUCache } from "@here/harp-lrucache";
+
+import { ArchiveSource } from "./ArchiveSource";
+import { Compression, Decompressor, defaultDecompressor, isGzipped } from "./Compression";
+import { TileArchive, TileArchiveMetadata } from "./TileArchive";
+
+const HEADER_MAGIC = "PMTiles";
+const HEADER_SIZE = 127;
+const SUPPORTED_VERSION = 3;
+// The specification requires the header and root directory to be within the first 16 KiB.
+const INITIAL_READ_SIZE = 16384;
+const MAX_DIRECTORY_DEPTH = 4;
+const LEAF_DIRECTORY_CACHE_SIZE = 64;
+
+// Indexed by the compression and tile type values of the header.
+const COMPRESSIONS: Array<Compression | null | undefined> = [undefined, null, "gzip", "br", "zstd"];
+const TILE_FORMATS = [undefined, "pbf", "png", "jpg", "webp", "avif"];
+
+/**
+ * Header of a PMTiles archive.
+ */
+export interface PMTilesHeader {
+    version: number;
+    rootDirectoryOffset: number;
+    rootDirectoryLength: number;
+    metadataOffset: number;
+    metadataLength: number;
+    leafDirectoryOffset: number;
+    leafDirectoryLength: number;
+    tileDataOffset: number;
+    tileDataLength: number;
+    internalCompression: number;
+    tileCompression: number;
+    tileType: number;
+    minZoom: number;
+    maxZoom: number;
+    bounds: GeoBox;
+}
+
+/**
+ * Entry of a PMTiles directory, pointing either to tile data or to a leaf directory.
+ */
+export interface PMTilesDirectoryEntry {
+    /**
+     * Id of the first tile of the entry, see {@link PMTilesArchive.getTileId}.
+     */
+    tileId: number;
+
+    /**
+     * Offset of the data, relative to the tile data or the leaf directories.
+     */
+    offset: number;
+
+    /**
+     * Length of the data.
+     */
+    length: number;
+
+    /**
+     * Number of consecutive tiles sharing the data, `0` for leaf directories.
+     */
+    runLength: number;
+}
+
+/**
+ * {@link TileArchive} reading tiles from a [PMTiles](https://github.com/protomaps/PMTiles)
+ * version 3 archive.
+ *
+ * @remarks
+ * PMTiles archives are designed to be read with HTTP range requests. The root directory is read
+ * when opening the archive, leaf directories are read and cached on demand.
+ */
+export class PMTilesArchive implements TileArchive {
+    /**
+     * Opens a PMTiles archive.
+     *
+     * @param source - The source of the archive.
+     * @param decompress - Function to decompress the directories, metadata and tiles.
+     */
+    static async open(
+        source: ArchiveSource,
+        decompress: Decompressor = defaultDecompressor
+    ): Promise<PMTilesArchive> {
+        const initialData = await source.getBytes(0, INITIAL_READ_SIZE);
+        const header = PMTilesArchive.parseHeader(initialData);
+        const internalCompression = COMPRESSIONS[header.internalCompression];
+
+        const readSection = async (offset: number, length: number) => {
+            const data =
+                offset + length <= initialData.byteLength
+                    ? initialData.slice(offset, offset + length)
+                    : await source.getBytes(offset, length);
+            return await decompressData(data, internalCompression, decompress);
+        };
+
+        const rootDirectory = PMTilesArchive.parseDirectory(
+            await readSection(header.rootDirectoryOffset, header.rootDirectoryLength)
+        );
+        const values =
+            header.metadataLength > 0
+                ? JSON.parse(
+                      new TextDecoder().decode(
+                          await readSection(header.metadataOffset, header.metadataLength)
+                      )
+                  )
+                : {};
+
+        return new PMTilesArchive(source, decompress, header, rootDirectory, {
+            name: values.name,
+            format: TILE_FORMATS[header.tileType],
+            minZoom: header.minZoom,
+            maxZoom: header.maxZoom,
+            bounds: header.bounds,
+            attribution: values.attribution,
+            values
+        });
+    }
+
+    /**
+     * Parses the header of a PMTiles archive.
+     *
+     * @param data - The data of the archive, starting with the header.
+     */
+    static parseHeader(data: ArrayBuffer): PMTilesHeader {
+        const bytes = new Uint8Array(data);
+        const magic = Array.from(bytes.subarray(0, HEADER_MAGIC.length), code =>
+            String.fromCharCode(code)
+        ).join("");
+        if (magic !== HEADER_MAGIC || bytes.length < HEADER_SIZE) {
+            throw new Error("PMTilesArchive: not a PMTiles archive");
+        }
+        const version = bytes[7];
+        if (version !== SUPPORTED_VERSION) {
+            throw new Error(`PMTilesArchive: unsupported version ${version}`);
+        }
+
+        const view = new DataView(data);
+        const getUint64 = (offset: number) =>
+            view.getUint32(offset + 4, true) * Math.pow(2, 32) + view.getUint32(offset, true);
+        const getCoordinate = (offset: number) => view.getInt32(offset, true) / 1e7;
+
+        return {
+            version,
+            rootDirectoryOffset: getUint64(8),
+            rootDirectoryLength: getUint64(16),
+            metadataOffset: getUint64(24),
+            metadataLength: getUint64(32),
+            leafDirectoryOffset: getUint64(40),
+            leafDirectoryLength: getUint64(48),
+            tileDataOffset: getUint64(56),
+            tileDataLength: getUint64(64),
+            internalCompression: bytes[97],
+            tileCompression: bytes[98],
+            tileType: bytes[99],
+            minZoom: bytes[100],
+            maxZoom: bytes[101],
+            bounds: GeoBox.fromCoordinates(
+                new GeoCoordinates(getCoordinate(106), getCoordinate(102)),
+                new GeoCoordinates(getCoordinate(114), getCoordinate(110))
+            )
+        };
+    }
+
+    /**
+     * Parses an uncompressed PMTiles directory.
+     *
+     * @param data - The directory data.
+     */
+    static parseDirectory(data: ArrayBuffer): PMTilesDirectoryEntry[] {
+        const bytes = new Uint8Array(data);
+        let position = 0;
+        const readVarint = () => {
+            let value = 0;
+            let factor = 1;
+            let byte: number;
+            do {
+                byte = bytes[position++];
+                value += (byte & 0x7f) * factor;
+                factor *= 128;
+            } while ((byte & 0x80) !== 0);
+            return value;
+        };
+
+        const entries: PMTilesDirectoryEntry[] = [];
+        const entryCount = readVarint();
+        // The tile ids are delta encoded.
+        let tileId = 0;
+        for (let i = 0; i < entryCount; i++) {
+            tileId += readVarint();
+            entries.push({ tileId, offset: 0, length: 0, runLength: 0 });
+        }
+        for (const entry of entries) {
+            entry.runLength = readVarint();
+        }
+        for (const entry of entries) {
+            entry.length = readVarint();
+        }
+        entries.forEach((entry, i) => {
+            // An offset of 0 means the data directly follows the data of the previous entry.
+            const offset = readVarint();
+            entry.offset =
+                offset === 0 && i > 0 ? entries[i - 1].offset + entries[i - 1].length : offset - 1;
+        });
+        return entries;
+    }
+
+    /**
+     * Computes the id of a tile, its position on the Hilbert curves of the zoom levels.
+     *
+     * @param level - The zoom level of the tile.
+     * @param column - The column of the tile, starting in the west.
+     * @param row - The row of the tile, starting in the north.
+     */
+    static getTileId(level: number, column: number, row: number): number {
+        // Number of tiles of all lower zoom levels.
+        let tileId = (Math.pow(4, level) - 1) / 3;
+        let x = column;
+        let y = row;
+        for (let size = Math.pow(2, level - 1); size >= 1; size /= 2) {
+            const rx = (x & size) > 0 ? 1 : 0;
+            const ry = (y & size) > 0 ? 1 : 0;
+            tileId += size * size * ((3 * rx) ^ ry);
+            // Rotate the quadrant.
+            if (ry === 0) {
+                if (rx === 1) {
+                    x = size - 1 - x;
+                    y = size - 1 - y;
+                }
+                [x, y] = [y, x];
+            }
+        }
+        return tileId;
+    }
+
+    private readonly m_leafDirectories = new LRUCache<number, Promise<PMTilesDirectoryEntry[]>>(
+        LEAF_DIRECTORY_CACHE_SIZE
+    );
+
+    private constructor(
+        private readonly m_source: ArchiveSource,
+        private readonly m_decompress: Decompressor,
+        readonly header: PMTilesHeader,
+        private readonly m_rootDirectory: PMTilesDirectoryEntry[],
+        readonly metadata: TileArchiveMetadata
+    ) {}
+
+    /** @override */
+    async getTile(
+        level: number,
+        column: number,
+        row: number,
+        abortSignal?: AbortSignal
+    ): Promise<ArrayBuffer | undefined> {
+        const tileId = PMTilesArchive.getTileId(level, column, row);
+        let directory = this.m_rootDirectory;
+        for (let depth = 0; depth < MAX_DIRECTORY_DEPTH; depth++) {
+            const entry = findEntry(directory, tileId);
+            if (entry === undefined) {
+                return undefined;
+            }
+            if (entry.runLength > 0) {
+                const data = await this.m_source.getBytes(
+                    this.header.tileDataOffset + entry.offset,
+                    entry.length,
+                    abortSignal
+                );
+                const compression = COMPRESSIONS[this.header.tileCompression];
+                return await decompressData(data, compression, this.m_decompress);
+            }
+            directory = await this.getLeafDirectory(entry);
+        }
+        return undefined;
+    }
+
+    /** @override */
+    close() {
+        this.m_leafDirectories.clear();
+        this.m_source.close?.();
+    }
+
+    private getLeafDirectory(entry: PMTilesDirectoryEntry): Promise<PMTilesDirectoryEntry[]> {
+        const offset = this.header.leafDirectoryOffset + entry.offset;
+        let directory = this.m_leafDirectories.get(offset);
+        if (directory === undefined) {
+            directory = this.m_source
+                .getBytes(offset, entry.length)
+                .then(data =>
+                    decompressData(
+                        data,
+                        COMPRESSIONS[this.header.internalCompression],
+                        this.m_decompress
+                    )
+                )
+                .then(PMTilesArchive.parseDirectory);
+            directory.catch(() => this.m_leafDirectories.delete(offset));
+            this.m_leafDirectories.set(offset, directory);
+        }
+        return directory;
+    }
+}
+
+/**
+ * Finds the entry containing the tile, or the leaf directory that may contain it.
+ */
+function findEntry(
+    entries: PMTilesDirectoryEntry[],
+    tileId: number
+): PMTilesDirectoryEntry | undefined {
+    let low = 0;
+    let high = entries.length - 1;
+    while (low <= high) {
+        const middle = (low + high) >> 1;
+        if (entries[middle].tileId <= tileId) {
+            low = middle + 1;
+        } else {
+            high = middle - 1;
+        }
+    }
+    // high is the last entry starting at or before the tile.
+    const entry = entries[high];
+    if (entry === undefined) {
+        return undefined;
+    }
+    return entry.runLength === 0 || tileId < entry.tileId + entry.runLength ? entry : undefined;
+}
+
+/**
+ * Decompresses data, `null` meaning uncompressed and `undefined` an unknown compression.
+ */
+async function decompressData(
+    data: ArrayBuffer,
+    compression: Compression | null | undefined,
+    decompress: Decompressor
+): Promise<ArrayBuffer> {
+    if (compression === undefined) {
+        compression = isGzipped(data) ? "gzip" : null;
+    }
+    return compression !== null ? await decompress(data, compression) : data;
+}
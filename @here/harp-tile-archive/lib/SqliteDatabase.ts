@@ -0,0 +1,589 @@
+/*
+ * Copyright (C) 2017-2020 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { LRUCache } from "@here/harp-lrucache";
+
+import { ArchiveSource } from "./ArchiveSource";
+
+/**
+ * Value of a column in a SQLite database.
+ */
+export type SqlValue = number | string | Uint8Array | null;
+
+/**
+ * Row of a SQLite table, mapping column names to values.
+ */
+export interface SqlRow {
+    [column: string]: SqlValue;
+}
+
+const DATABASE_HEADER_MAGIC = "SQLite format 3\0";
+const DATABASE_HEADER_SIZE = 100;
+const DEFAULT_PAGE_CACHE_SIZE = 256;
+const TEXT_ENCODINGS = ["utf-8", "utf-8", "utf-16le", "utf-16be"];
+
+enum PageType {
+    InteriorIndex = 2,
+    InteriorTable = 5,
+    LeafIndex = 10,
+    LeafTable = 13
+}
+
+interface Cell {
+    leftChild: number;
+    rowid: number;
+    payloadOffset: number;
+    payloadSize: number;
+}
+
+interface BTreePage {
+    type: PageType;
+    data: Uint8Array;
+    cells: Cell[];
+    rightChild: number;
+}
+
+interface IndexInfo {
+    name: string;
+    rootPage: number;
+    columns: string[];
+}
+
+interface TableInfo {
+    name: string;
+    rootPage: number;
+    columns: string[];
+    rowidColumn?: string;
+    withoutRowid: boolean;
+    constraints: string[][];
+    indices: IndexInfo[];
+}
+
+/**
+ * Read-only access to a SQLite database file, supporting the queries needed to read tile
+ * archives.
+ *
+ * @remarks
+ * The pages of the database are read on demand from an {@link ArchiveSource}, so large databases
+ * don't have to be loaded into memory. Lookups use the indices of the tables where possible, but
+ * there is no SQL engine: views can't be queried.
+ */
+export class SqliteDatabase {
+    /**
+     * Opens a SQLite database.
+     *
+     * @param source - The source of the database file.
+     * @param pageCacheSize - Number of database pages to keep in memory.
+     */
+    static async open(
+        source: ArchiveSource,
+        pageCacheSize: number = DEFAULT_PAGE_CACHE_SIZE
+    ): Promise<SqliteDatabase> {
+        const header = new Uint8Array(await source.getBytes(0, DATABASE_HEADER_SIZE));
+        const magic = Array.from(header.subarray(0, DATABASE_HEADER_MAGIC.length), code =>
+            String.fromCharCode(code)
+        ).join("");
+        if (magic !== DATABASE_HEADER_MAGIC) {
+            throw new Error("SqliteDatabase: not a SQLite database");
+        }
+        const view = new DataView(header.buffer);
+        const pageSize = view.getUint16(16) === 1 ? 65536 : view.getUint16(16);
+        const usableSize = pageSize - view.getUint8(20);
+        const encoding = TEXT_ENCODINGS[view.getUint32(56)] ?? "utf-8";
+
+        const database = new SqliteDatabase(source, pageSize, usableSize, encoding, pageCacheSize);
+        await database.readSchema();
+        return database;
+    }
+
+    private readonly m_pages: LRUCache<number, Promise<Uint8Array>>;
+    private readonly m_textDecoder: TextDecoder;
+    private readonly m_tables = new Map<string, TableInfo>();
+    private readonly m_views = new Set<string>();
+
+    private constructor(
+        private readonly m_source: ArchiveSource,
+        private readonly m_pageSize: number,
+        private readonly m_usableSize: number,
+        encoding: string,
+        pageCacheSize: number
+    ) {
+        this.m_pages = new LRUCache(pageCacheSize);
+        this.m_textDecoder = new TextDecoder(encoding);
+    }
+
+    /**
+     * Returns `true` if the database has a table with the given name.
+     */
+    hasTable(name: string): boolean {
+        return this.m_tables.has(name.toLowerCase());
+    }
+
+    /**
+     * Returns `true` if the database has a view with the given name.
+     */
+    hasView(name: string): boolean {
+        return this.m_views.has(name.toLowerCase());
+    }
+
+    /**
+     * Reads all rows of a table.
+     *
+     * @param tableName - The name of the table.
+     */
+    async selectAll(tableName: string): Promise<SqlRow[]> {
+        const table = this.getTable(tableName);
+        const rows: SqlRow[] = [];
+        await this.scanTable(table.rootPage, (rowid, values) => {
+            rows.push(this.createRow(table, rowid, values));
+            return false;
+        });
+        return rows;
+    }
+
+    /**
+     * Reads the first row of a table whose columns equal the given values.
+     *
+     * @remarks
+     * Uses the rowid or an index of the table covering the given columns, otherwise all rows of
+     * the table are read.
+     *
+     * @param tableName - The name of the table.
+     * @param where - The values of the columns to look for.
+     */
+    async selectFirst(tableName: string, where: SqlRow): Promise<SqlRow | undefined> {
+        const table = this.getTable(tableName);
+        const columns = Object.keys(where);
+
+        if (columns.length === 1 && columns[0] === table.rowidColumn) {
+            const rowid = where[columns[0]];
+            return typeof rowid === "number" ? await this.findRow(table, rowid) : undefined;
+        }
+
+        const index = table.indices.find(indexInfo => {
+            const leadingColumns = indexInfo.columns.slice(0, columns.length);
+            return (
+                leadingColumns.length === columns.length &&
+                columns.every(column => leadingColumns.includes(column))
+            );
+        });
+        if (index !== undefined) {
+            const key = index.columns.slice(0, columns.length).map(column => where[column]);
+            const entry = await this.searchIndex(index.rootPage, key);
+            return entry !== undefined
+                ? await this.findRow(table, entry[entry.length - 1] as number)
+                : undefined;
+        }
+
+        let result: SqlRow | undefined;
+        await this.scanTable(table.rootPage, (rowid, values) => {
+            const row = this.createRow(table, rowid, values);
+            if (columns.every(column => compareValues(row[column], where[column]) === 0)) {
+                result = row;
+                return true;
+            }
+            return false;
+        });
+        return result;
+    }
+
+    /**
+     * Closes the database and its source.
+     */
+    close() {
+        this.m_pages.clear();
+        this.m_source.close?.();
+    }
+
+    private getTable(name: string): TableInfo {
+        const table = this.m_tables.get(name.toLowerCase());
+        if (table === undefined) {
+            throw new Error(`SqliteDatabase: no such table: ${name}`);
+        }
+        if (table.withoutRowid) {
+            throw new Error(`SqliteDatabase: WITHOUT ROWID tables are not supported: ${name}`);
+        }
+        return table;
+    }
+
+    private async readSchema() {
+        const indices: Array<{ tableName: string; index: IndexInfo; sql: SqlValue }> = [];
+        // The schema table "sqlite_master" is stored on the first page.
+        await this.scanTable(1, (_rowid, [type, name, tableName, rootPage, sql]) => {
+            if (typeof name !== "string" || typeof tableName !== "string") {
+                return false;
+            }
+            if (type === "table" && typeof sql === "string") {
+                this.m_tables.set(name.toLowerCase(), {
+                    name,
+                    rootPage: rootPage as number,
+                    indices: [],
+                    ...parseTableDefinition(sql)
+                });
+            } else if (type === "view") {
+                this.m_views.add(name.toLowerCase());
+            } else if (type === "index") {
+                indices.push({
+                    tableName: tableName.toLowerCase(),
+                    index: { name, rootPage: rootPage as number, columns: [] },
+                    sql
+                });
+            }
+            return false;
+        });
+
+        for (const { tableName, index, sql } of indices) {
+            const table = this.m_tables.get(tableName);
+            if (table === undefined) {
+                continue;
+            }
+            if (typeof sql === "string") {
+                index.columns = parseIndexColumns(sql);
+            } else {
+                // Indices without SQL are created for the constraints of the table, their
+                // names end with the number of the constraint.
+                const match = /_(\d+)$/.exec(index.name);
+                index.columns =
+                    match !== null ? table.constraints[parseInt(match[1], 10) - 1] ?? [] : [];
+            }
+            if (index.columns.length > 0) {
+                table.indices.push(index);
+            }
+        }
+    }
+
+    private getPage(pageNumber: number): Promise<Uint8Array> {
+        let page = this.m_pages.get(pageNumber);
+        if (page === undefined) {
+            page = this.m_source
+                .getBytes((pageNumber - 1) * this.m_pageSize, this.m_pageSize)
+                .then(buffer => new Uint8Array(buffer));
+            page.catch(() => this.m_pages.delete(pageNumber));
+            this.m_pages.set(pageNumber, page);
+        }
+        return page;
+    }
+
+    private async readBTreePage(pageNumber: number): Promise<BTreePage> {
+        const data = await this.getPage(pageNumber);
+        const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+        // The first page starts with the database header.
+        const headerOffset = pageNumber === 1 ? DATABASE_HEADER_SIZE : 0;
+        const type = data[headerOffset] as PageType;
+        const isInterior = type === PageType.InteriorIndex || type === PageType.InteriorTable;
+        const cellCount = view.getUint16(headerOffset + 3);
+        const cellPointers = headerOffset + (isInterior ? 12 : 8);
+
+        const cells: Cell[] = [];
+        for (let i = 0; i < cellCount; i++) {
+            let offset = view.getUint16(cellPointers + i * 2);
+            const cell: Cell = { leftChild: 0, rowid: 0, payloadOffset: 0, payloadSize: 0 };
+            if (isInterior) {
+                cell.leftChild = view.getUint32(offset);
+                offset += 4;
+            }
+            if (type === PageType.InteriorTable) {
+                cell.rowid = readVarint(data, offset)[0];
+            } else {
+                const [payloadSize, payloadSizeLength] = readVarint(data, offset);
+                offset += payloadSizeLength;
+                if (type === PageType.LeafTable) {
+                    const [rowid, rowidLength] = readVarint(data, offset);
+                    cell.rowid = rowid;
+                    offset += rowidLength;
+                }
+                cell.payloadOffset = offset;
+                cell.payloadSize = payloadSize;
+            }
+            cells.push(cell);
+        }
+        const rightChild = isInterior ? view.getUint32(headerOffset + 8) : 0;
+        return { type, data, cells, rightChild };
+    }
+
+    private async readRecord(page: BTreePage, cell: Cell): Promise<SqlValue[]> {
+        const { data } = page;
+        const payloadSize = cell.payloadSize;
+        const usableSize = this.m_usableSize;
+        const maxLocal =
+            page.type === PageType.LeafTable
+                ? usableSize - 35
+                : Math.floor(((usableSize - 12) * 64) / 255) - 23;
+        if (payloadSize <= maxLocal) {
+            return this.parseRecord(
+                data.subarray(cell.payloadOffset, cell.payloadOffset + payloadSize)
+            );
+        }
+
+        // The rest of large payloads is stored in a linked list of overflow pages.
+        const minLocal = Math.floor(((usableSize - 12) * 32) / 255) - 23;
+        const surplus = minLocal + ((payloadSize - minLocal) % (usableSize - 4));
+        const localSize = surplus <= maxLocal ? surplus : minLocal;
+        const payload = new Uint8Array(payloadSize);
+        payload.set(data.subarray(cell.payloadOffset, cell.payloadOffset + localSize));
+
+        let overflowPage = readUint32(data, cell.payloadOffset + localSize);
+        let size = localSize;
+        while (size < payloadSize && overflowPage !== 0) {
+            const overflowData = await this.getPage(overflowPage);
+            const chunkSize = Math.min(usableSize - 4, payloadSize - size);
+            payload.set(overflowData.subarray(4, 4 + chunkSize), size);
+            size += chunkSize;
+            overflowPage = readUint32(overflowData, 0);
+        }
+        return this.parseRecord(payload);
+    }
+
+    private parseRecord(payload: Uint8Array): SqlValue[] {
+        const [headerSize, headerSizeLength] = readVarint(payload, 0);
+        const serialTypes: number[] = [];
+        for (let offset = headerSizeLength; offset < headerSize; ) {
+            const [serialType, length] = readVarint(payload, offset);
+            serialTypes.push(serialType);
+            offset += length;
+        }
+
+        const view = new DataView(payload.buffer, payload.byteOffset, payload.byteLength);
+        const values: SqlValue[] = [];
+        let offset = headerSize;
+        for (const serialType of serialTypes) {
+            if (serialType === 0) {
+                values.push(null);
+            } else if (serialType <= 6) {
+                const size = [1, 2, 3, 4, 6, 8][serialType - 1];
+                values.push(readInt(payload, offset, size));
+                offset += size;
+            } else if (serialType === 7) {
+                values.push(view.getFloat64(offset));
+                offset += 8;
+            } else if (serialType === 8 || serialType === 9) {
+                values.push(serialType - 8);
+            } else if (serialType >= 12) {
+                const size = Math.floor((serialType - 12) / 2);
+                const bytes = payload.subarray(offset, offset + size);
+                values.push(
+                    serialType % 2 === 0 ? bytes.slice() : this.m_textDecoder.decode(bytes)
+                );
+                offset += size;
+            } else {
+                throw new Error(`SqliteDatabase: invalid serial type ${serialType}`);
+            }
+        }
+        return values;
+    }
+
+    /**
+     * Calls `callback` for the rows of a table b-tree in rowid order, until it returns `true`.
+     *
+     * @returns `true` if the scan was stopped by the callback.
+     */
+    private async scanTable(
+        pageNumber: number,
+        callback: (rowid: number, values: SqlValue[]) => boolean
+    ): Promise<boolean> {
+        const page = await this.readBTreePage(pageNumber);
+        if (page.type === PageType.LeafTable) {
+            for (const cell of page.cells) {
+                if (callback(cell.rowid, await this.readRecord(page, cell))) {
+                    return true;
+                }
+            }
+            return false;
+        }
+        for (const cell of page.cells) {
+            if (await this.scanTable(cell.leftChild, callback)) {
+                return true;
+            }
+        }
+        return await this.scanTable(page.rightChild, callback);
+    }
+
+    private async findRow(table: TableInfo, rowid: number): Promise<SqlRow | undefined> {
+        let page = await this.readBTreePage(table.rootPage);
+        while (page.type === PageType.InteriorTable) {
+            // Left children contain the rows with rowids up to the key of their cell.
+            const cell = page.cells.find(interiorCell => rowid <= interiorCell.rowid);
+            page = await this.readBTreePage(cell !== undefined ? cell.leftChild : page.rightChild);
+        }
+        const leafCell = page.cells.find(cell => cell.rowid === rowid);
+        return leafCell !== undefined
+            ? this.createRow(table, rowid, await this.readRecord(page, leafCell))
+            : undefined;
+    }
+
+    /**
+     * Searches an index b-tree for an entry starting with `key`.
+     *
+     * @returns The values of the entry, the last value is the rowid of the row.
+     */
+    private async searchIndex(
+        pageNumber: number,
+        key: SqlValue[]
+    ): Promise<SqlValue[] | undefined> {
+        const page = await this.readBTreePage(pageNumber);
+        for (const cell of page.cells) {
+            const entry = await this.readRecord(page, cell);
+            const comparison = compareKey(entry, key);
+            if (comparison === 0) {
+                return entry;
+            } else if (comparison > 0) {
+                return page.type === PageType.InteriorIndex
+                    ? await this.searchIndex(cell.leftChild, key)
+                    : undefined;
+            }
+        }
+        return page.type === PageType.InteriorIndex
+            ? await this.searchIndex(page.rightChild, key)
+            : undefined;
+    }
+
+    private createRow(table: TableInfo, rowid: number, values: SqlValue[]): SqlRow {
+        const row: SqlRow = {};
+        table.columns.forEach((column, i) => {
+            // Columns added after the row has been written are missing in its record.
+            row[column] = column === table.rowidColumn ? rowid : values[i] ?? null;
+        });
+        return row;
+    }
+}
+
+function readVarint(data: Uint8Array, offset: number): [number, number] {
+    let value = 0;
+    for (let i = 0; i < 8; i++) {
+        const byte = data[offset + i];
+        value = value * 128 + (byte & 0x7f);
+        if ((byte & 0x80) === 0) {
+            return [value, i + 1];
+        }
+    }
+    return [value * 256 + data[offset + 8], 9];
+}
+
+function readUint32(data: Uint8Array, offset: number): number {
+    return new DataView(data.buffer, data.byteOffset + offset, 4).getUint32(0);
+}
+
+function readInt(data: Uint8Array, offset: number, size: number): number {
+    let value = 0;
+    for (let i = 0; i < size; i++) {
+        value = value * 256 + data[offset + i];
+    }
+    // Integers are stored in two's complement.
+    return (data[offset] & 0x80) !== 0 ? value - Math.pow(2, size * 8) : value;
+}
+
+function typeOrder(value: SqlValue): number {
+    if (value === null || value === undefined) {
+        return 0;
+    } else if (typeof value === "number") {
+        return 1;
+    } else if (typeof value === "string") {
+        return 2;
+    }
+    return 3;
+}
+
+function compareValues(a: SqlValue, b: SqlValue): number {
+    const typeDifference = typeOrder(a) - typeOrder(b);
+    if (typeDifference !== 0 || a === null || b === null) {
+        return typeDifference;
+    }
+    if (a instanceof Uint8Array && b instanceof Uint8Array) {
+        for (let i = 0; i < Math.min(a.length, b.length); i++) {
+            if (a[i] !== b[i]) {
+                return a[i] - b[i];
+            }
+        }
+        return a.length - b.length;
+    }
+    return a < b ? -1 : a > b ? 1 : 0;
+}
+
+function compareKey(entry: SqlValue[], key: SqlValue[]): number {
+    for (let i = 0; i < key.length; i++) {
+        const comparison = compareValues(entry[i], key[i]);
+        if (comparison !== 0) {
+            return comparison;
+        }
+    }
+    return 0;
+}
+
+/**
+ * Splits a comma separated list of definitions, ignoring commas in parentheses.
+ */
+function splitDefinitions(definitions: string): string[] {
+    const result: string[] = [];
+    let depth = 0;
+    let start = 0;
+    for (let i = 0; i < definitions.length; i++) {
+        const char = definitions[i];
+        if (char === "(") {
+            depth++;
+        } else if (char === ")") {
+            depth--;
+        } else if (char === "," && depth === 0) {
+            result.push(definitions.slice(start, i).trim());
+            start = i + 1;
+        }
+    }
+    result.push(definitions.slice(start).trim());
+    return result.filter(definition => definition.length > 0);
+}
+
+function parseName(definition: string): string {
+    const match = /^("(?:[^"]|"")*"|`[^`]*`|\[[^\]]*\]|'[^']*'|[^\s(]+)/.exec(definition.trim());
+    const name = match !== null ? match[1] : "";
+    return /^["`\['].*["`\]']$/.test(name) ? name.slice(1, -1).replace(/""/g, '"') : name;
+}
+
+function parseColumnList(definitions: string): string[] {
+    return splitDefinitions(definitions).map(parseName);
+}
+
+function parseTableDefinition(
+    sql: string
+): Pick<TableInfo, "columns" | "rowidColumn" | "withoutRowid" | "constraints"> {
+    const body = sql.slice(sql.indexOf("(") + 1, sql.lastIndexOf(")"));
+    const columns: string[] = [];
+    const constraints: string[][] = [];
+    let rowidColumn: string | undefined;
+
+    for (const definition of splitDefinitions(body)) {
+        const tableConstraint = /^(?:constraint\s+\S+\s+)?(primary\s+key|unique)\s*\(([^)]*)\)/i.exec(
+            definition
+        );
+        if (tableConstraint !== null) {
+            constraints.push(parseColumnList(tableConstraint[2]));
+            continue;
+        }
+        if (/^(constraint|check|foreign)\b/i.test(definition)) {
+            continue;
+        }
+
+        const column = parseName(definition);
+        columns.push(column);
+        const constraint = definition.slice(definition.indexOf(column) + column.length);
+        if (/^\W*integer\s+primary\s+key\b/i.test(constraint)) {
+            // An INTEGER PRIMARY KEY column is an alias of the rowid.
+            rowidColumn = column;
+        } else if (/\b(primary\s+key|unique)\b/i.test(constraint)) {
+            constraints.push([column]);
+        }
+    }
+
+    return {
+        columns,
+        rowidColumn,
+        withoutRowid: /\)\s*without\s+rowid\s*$/i.test(sql),
+        constraints
+    };
+}
+
+function parseIndexColumns(sql: string): string[] {
+    const match = /\bon\s+(?:"(?:[^"]|"")*"|`[^`]*`|\[[^\]]*\]|[^\s(]+)\s*\(([\s\S]*)\)/i.exec(sql);
+    return match !== null ? parseColumnList(match[1]) : [];
+}
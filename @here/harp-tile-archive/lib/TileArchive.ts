@@ -0,0 +1,79 @@
+/*
+ * Copyright (C) 2017-2020 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { GeoBox } from "@here/harp-geoutils";
+
+/**
+ * Metadata of a {@link TileArchive}.
+ */
+export interface TileArchiveMetadata {
+    /**
+     * Name of the tile set.
+     */
+    name?: string;
+
+    /**
+     * Format of the tiles, e.g. `"pbf"` for vector tiles or `"png"`, `"jpg"` and `"webp"` for
+     * raster tiles.
+     */
+    format?: string;
+
+    /**
+     * The minimum zoom level of the tiles.
+     */
+    minZoom?: number;
+
+    /**
+     * The maximum zoom level of the tiles.
+     */
+    maxZoom?: number;
+
+    /**
+     * The geographic extent of the tiles.
+     */
+    bounds?: GeoBox;
+
+    /**
+     * Attribution of the tiles, plain text or HTML.
+     */
+    attribution?: string;
+
+    /**
+     * All metadata entries of the archive, like the `vector_layers` of vector tile archives.
+     */
+    values: { [key: string]: any };
+}
+
+/**
+ * Archive storing the tiles of a tile set in a single file.
+ */
+export interface TileArchive {
+    /**
+     * The metadata of the archive.
+     */
+    readonly metadata: TileArchiveMetadata;
+
+    /**
+     * Reads the uncompressed data of a tile.
+     *
+     * @param level - The zoom level of the tile.
+     * @param column - The column of the tile, starting in the west.
+     * @param row - The row of the tile, starting in the north.
+     * @param abortSignal - Optional AbortSignal to cancel the request.
+     * @returns The tile data, or `undefined` if the archive does not contain the tile.
+     */
+    getTile(
+        level: number,
+        column: number,
+        row: number,
+        abortSignal?: AbortSignal
+    ): Promise<ArrayBuffer | undefined>;
+
+    /**
+     * Closes the archive and its source.
+     */
+    close(): void;
+}
@@ -0,0 +1,175 @@
+/*
+ * Copyright (C) 2017-2020 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { TileKey } from "@here/harp-geoutils";
+import { CopyrightInfo, TileSourceMetadata } from "@here/harp-mapview";
+import { DataProvider } from "@here/harp-mapview-decoder";
+import { ITransferManager } from "@here/harp-transfer-manager";
+
+import { ArchiveSource, ArrayBufferArchiveSource, HttpArchiveSource } from "./ArchiveSource";
+import { Decompressor, defaultDecompressor } from "./Compression";
+import { MBTilesArchive } from "./MBTilesArchive";
+import { PMTilesArchive } from "./PMTilesArchive";
+import { TileArchive } from "./TileArchive";
+
+/**
+ * Options of a {@link TileArchiveDataProvider}.
+ */
+export interface TileArchiveDataProviderOptions {
+    /**
+     * The archive to read the tiles from.
+     *
+     * @remarks
+     * Either the `URL` of the archive, which is read with HTTP range requests, the content of the
+     * archive, or a custom {@link ArchiveSource}.
+     */
+    source: string | ArrayBuffer | ArchiveSource;
+
+    /**
+     * Function to decompress the archive data, defaults to {@link defaultDecompressor}.
+     */
+    decompress?: Decompressor;
+
+    /**
+     * Transfer Manager used to read archives from a `URL`; uses the default instance if none
+     * passed.
+     */
+    downloadManager?: ITransferManager;
+}
+
+/**
+ * Base class of the [[DataProvider]]s reading the tiles from a single {@link TileArchive}.
+ *
+ * @remarks
+ * The zoom range, bounds and attribution of the archive are provided as metadata, which is
+ * applied to the data sources using the provider.
+ */
+export abstract class TileArchiveDataProvider extends DataProvider {
+    private m_archive?: TileArchive;
+    private m_metadata?: TileSourceMetadata;
+
+    /**
+     * Creates a new `TileArchiveDataProvider`.
+     *
+     * @param m_options - The options of the provider.
+     */
+    constructor(protected readonly m_options: TileArchiveDataProviderOptions) {
+        super();
+    }
+
+    /**
+     * The opened archive, `undefined` until the provider is connected.
+     */
+    get archive(): TileArchive | undefined {
+        return this.m_archive;
+    }
+
+    /** @override */
+    ready(): boolean {
+        return this.m_archive !== undefined;
+    }
+
+    /**
+     * Reads a tile from the archive.
+     *
+     * @returns The uncompressed tile data, empty if the archive does not contain the tile.
+     * @override
+     */
+    async getTile(tileKey: TileKey, abortSignal?: AbortSignal): Promise<ArrayBufferLike> {
+        if (this.m_archive === undefined) {
+            throw new Error("TileArchiveDataProvider: archive is not connected");
+        }
+        const data = await this.m_archive.getTile(
+            tileKey.level,
+            tileKey.column,
+            tileKey.row,
+            abortSignal
+        );
+        return data ?? new ArrayBuffer(0);
+    }
+
+    /** @override */
+    getMetadata(): TileSourceMetadata | undefined {
+        return this.m_metadata;
+    }
+
+    /** @override */
+    protected async connect(): Promise<void> {
+        const { source, downloadManager } = this.m_options;
+        const archiveSource =
+            typeof source === "string"
+                ? new HttpArchiveSource(source, downloadManager)
+                : source instanceof ArrayBuffer
+                ? new ArrayBufferArchiveSource(source)
+                : source;
+
+        const archive = await this.openArchive(
+            archiveSource,
+            this.m_options.decompress ?? defaultDecompressor
+        );
+        const { minZoom, maxZoom, bounds, attribution } = archive.metadata;
+        this.m_archive = archive;
+        this.m_metadata = {
+            minZoom,
+            maxZoom,
+            bounds,
+            copyrightInfo:
+                attribution !== undefined ? CopyrightInfo.parseAttribution(attribution) : undefined
+        };
+    }
+
+    /** @override */
+    protected dispose() {
+        this.m_archive?.close();
+        this.m_archive = undefined;
+    }
+
+    /**
+     * Opens the archive.
+     *
+     * @param source - The source of the archive.
+     * @param decompress - Function to decompress the archive data.
+     */
+    protected abstract openArchive(
+        source: ArchiveSource,
+        decompress: Decompressor
+    ): Promise<TileArchive>;
+}
+
+/**
+ * [[DataProvider]] reading tiles from an [MBTiles](https://github.com/mapbox/mbtiles-spec)
+ * database.
+ *
+ * @example
+ * ```typescript
+ * const dataSource = new VectorTileDataSource({
+ *     dataProvider: new MBTilesDataProvider({ source: "tiles/berlin.mbtiles" })
+ * });
+ * ```
+ */
+export class MBTilesDataProvider extends TileArchiveDataProvider {
+    /** @override */
+    protected openArchive(source: ArchiveSource, decompress: Decompressor): Promise<TileArchive> {
+        return MBTilesArchive.open(source, decompress);
+    }
+}
+
+/**
+ * [[DataProvider]] reading tiles from a [PMTiles](https://github.com/protomaps/PMTiles) archive.
+ *
+ * @example
+ * ```typescript
+ * const dataSource = new VectorTileDataSource({
+ *     dataProvider: new PMTilesDataProvider({ source: "https://example.com/berlin.pmtiles" })
+ * });
+ * ```
+ */
+export class PMTilesDataProvider extends TileArchiveDataProvider {
+    /** @override */
+    protected openArchive(source: ArchiveSource, decompress: Decompressor): Promise<TileArchive> {
+        return PMTilesArchive.open(source, decompress);
+    }
+}
@@ -0,0 +1,142 @@
+/*
+ * Copyright (C) 2017-2020 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+//    Mocha discourages using arrow functions, see https://mochajs.org/#arrow-functions
+
+import { getTestResourceUrl } from "@here/harp-test-utils";
+import { assert, expect } from "chai";
+
+import { ArchiveSource, ArrayBufferArchiveSource } from "../lib/ArchiveSource";
+import { FileArchiveSource } from "../lib/FileArchiveSource";
+import { SqliteDatabase } from "../lib/SqliteDatabase";
+
+const isNode = typeof window === "undefined";
+const describeOnlyNode = isNode ? describe : xdescribe;
+
+// The test databases have a page size of 512 bytes, so that their tables and indices consist of
+// several levels of pages, and large tiles are stored in overflow pages.
+function getResourcePath(fileName: string) {
+    return getTestResourceUrl("@here/harp-tile-archive", `test/resources/${fileName}`);
+}
+
+class CountingArchiveSource implements ArchiveSource {
+    readCount = 0;
+
+    constructor(private readonly m_source: ArchiveSource) {}
+
+    getBytes(offset: number, length: number): Promise<ArrayBuffer> {
+        this.readCount++;
+        return this.m_source.getBytes(offset, length);
+    }
+}
+
+describeOnlyNode("SqliteDatabase", function() {
+    let database: SqliteDatabase;
+
+    beforeEach(async function() {
+        database = await SqliteDatabase.open(
+            new FileArchiveSource(getResourcePath("tiles.mbtiles"))
+        );
+    });
+
+    afterEach(function() {
+        database.close();
+    });
+
+    it("reads the schema", function() {
+        expect(database.hasTable("metadata")).to.be.true;
+        expect(database.hasTable("TILES")).to.be.true;
+        expect(database.hasTable("map")).to.be.false;
+        expect(database.hasView("tiles")).to.be.false;
+    });
+
+    it("rejects files which are no SQLite databases", async function() {
+        const source = new ArrayBufferArchiveSource(new ArrayBuffer(100));
+        let error: Error | undefined;
+        try {
+            await SqliteDatabase.open(source);
+        } catch (e) {
+            error = e;
+        }
+        assert.instanceOf(error, Error);
+    });
+
+    it("reads all rows of a table", async function() {
+        const rows = await database.selectAll("metadata");
+
+        expect(rows).to.deep.include({ name: "format", value: "pbf" });
+        expect(rows).to.deep.include({ name: "minzoom", value: "0" });
+        expect(rows).to.have.length(6);
+    });
+
+    it("finds rows with an index", async function() {
+        const row = await database.selectFirst("tiles", {
+            zoom_level: 3,
+            tile_column: 5,
+            tile_row: 1
+        });
+
+        expect(row).to.not.be.undefined;
+        expect(new TextDecoder().decode(row!.tile_data as Uint8Array)).to.equal("3/5/6");
+        expect(
+            await database.selectFirst("tiles", { zoom_level: 4, tile_column: 0, tile_row: 0 })
+        ).to.be.undefined;
+    });
+
+    it("reads only the pages needed for indexed lookups", async function() {
+        const source = new CountingArchiveSource(
+            new FileArchiveSource(getResourcePath("tiles.mbtiles"))
+        );
+        const countingDatabase = await SqliteDatabase.open(source, 0);
+        const readCount = source.readCount;
+
+        await countingDatabase.selectFirst("tiles", { zoom_level: 3, tile_column: 2, tile_row: 7 });
+
+        // Index root and leaf, table root and leaf.
+        expect(source.readCount - readCount).to.be.at.most(4);
+        countingDatabase.close();
+    });
+
+    it("reads large values from overflow pages", async function() {
+        // The tile 3/4/2 is stored with the row 5 of the TMS tiling scheme.
+        const row = await database.selectFirst("tiles", {
+            zoom_level: 3,
+            tile_column: 4,
+            tile_row: 5
+        });
+        const data = new TextDecoder().decode(row!.tile_data as Uint8Array);
+
+        expect(data).to.have.length(3005);
+        expect(data.startsWith("3/4/2xxx")).to.be.true;
+        expect(data.endsWith("xxx")).to.be.true;
+    });
+
+    it("finds rows without index by scanning the table", async function() {
+        expect(await database.selectFirst("metadata", { name: "bounds" })).to.deep.equal({
+            name: "bounds",
+            value: "-10,-20,30,40"
+        });
+        expect(await database.selectFirst("metadata", { name: "unknown" })).to.be.undefined;
+    });
+
+    it("finds rows with text index keys", async function() {
+        const deduplicatedDatabase = await SqliteDatabase.open(
+            new FileArchiveSource(getResourcePath("tiles-deduplicated.mbtiles"))
+        );
+        const mapEntry = await deduplicatedDatabase.selectFirst("map", {
+            zoom_level: 2,
+            tile_column: 1,
+            tile_row: 1
+        });
+        const image = await deduplicatedDatabase.selectFirst("images", {
+            tile_id: mapEntry!.tile_id
+        });
+
+        expect(deduplicatedDatabase.hasView("tiles")).to.be.true;
+        expect(new TextDecoder().decode(image!.tile_data as Uint8Array)).to.equal("2");
+        deduplicatedDatabase.close();
+    });
+});
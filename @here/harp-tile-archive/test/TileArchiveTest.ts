@@ -0,0 +1,239 @@
+/*
+ * Copyright (C) 2017-2020 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+//    Mocha discourages using arrow functions, see https://mochajs.org/#arrow-functions
+
+import { TileKey } from "@here/harp-geoutils";
+import { getTestResourceUrl } from "@here/harp-test-utils";
+import { expect } from "chai";
+import * as fs from "fs";
+
+import {
+    FileArchiveSource,
+    MBTilesFileDataProvider,
+    PMTilesFileDataProvider,
+    zlibDecompressor
+} from "../lib/FileArchiveSource";
+import { MBTilesArchive } from "../lib/MBTilesArchive";
+import { PMTilesArchive } from "../lib/PMTilesArchive";
+import { TileArchive } from "../lib/TileArchive";
+import { PMTilesDataProvider, TileArchiveDataProvider } from "../lib/TileArchiveDataProvider";
+
+const isNode = typeof window === "undefined";
+const describeOnlyNode = isNode ? describe : xdescribe;
+
+// All test archives contain the tiles of the levels 0 to 3. The data of a tile is the string
+// "level/column/row", except for the tiles of level 2, which all contain "2", and the tile 3/4/2,
+// which is padded with 3000 "x".
+function getResourcePath(fileName: string) {
+    return getTestResourceUrl("@here/harp-tile-archive", `test/resources/${fileName}`);
+}
+
+async function getTileText(archive: TileArchive, level: number, column: number, row: number) {
+    const data = await archive.getTile(level, column, row);
+    return data !== undefined ? new TextDecoder().decode(data) : undefined;
+}
+
+const attribution = [
+    {
+        id: "OpenStreetMap contributors",
+        label: "OpenStreetMap contributors",
+        link: "https://www.openstreetmap.org/copyright"
+    }
+];
+
+describeOnlyNode("MBTilesArchive", function() {
+    let archive: MBTilesArchive;
+
+    beforeEach(async function() {
+        archive = await MBTilesArchive.open(
+            new FileArchiveSource(getResourcePath("tiles.mbtiles")),
+            zlibDecompressor
+        );
+    });
+
+    afterEach(function() {
+        archive.close();
+    });
+
+    it("reads the metadata", function() {
+        const { metadata } = archive;
+
+        expect(metadata.name).to.equal("test");
+        expect(metadata.format).to.equal("pbf");
+        expect(metadata.minZoom).to.equal(0);
+        expect(metadata.maxZoom).to.equal(3);
+        expect(metadata.bounds!.west).to.equal(-10);
+        expect(metadata.bounds!.south).to.equal(-20);
+        expect(metadata.bounds!.east).to.equal(30);
+        expect(metadata.bounds!.north).to.equal(40);
+        expect(metadata.attribution).to.contain("OpenStreetMap contributors");
+        expect(metadata.values.format).to.equal("pbf");
+    });
+
+    it("converts the rows of the tiles", async function() {
+        expect(await getTileText(archive, 0, 0, 0)).to.equal("0/0/0");
+        expect(await getTileText(archive, 3, 5, 6)).to.equal("3/5/6");
+        expect(await getTileText(archive, 3, 0, 7)).to.equal("3/0/7");
+    });
+
+    it("decompresses gzip compressed tiles", async function() {
+        expect(await getTileText(archive, 1, 0, 1)).to.equal("1/0/1");
+        expect(await getTileText(archive, 1, 1, 0)).to.equal("1/1/0");
+    });
+
+    it("reads tiles stored in overflow pages", async function() {
+        const data = await archive.getTile(3, 4, 2);
+
+        expect(data!.byteLength).to.equal(3005);
+    });
+
+    it("returns undefined for missing tiles", async function() {
+        expect(await archive.getTile(4, 0, 0)).to.be.undefined;
+        expect(await archive.getTile(1, 2, 0)).to.be.undefined;
+    });
+
+    it("reads deduplicated databases", async function() {
+        const deduplicated = await MBTilesArchive.open(
+            new FileArchiveSource(getResourcePath("tiles-deduplicated.mbtiles")),
+            zlibDecompressor
+        );
+
+        expect(deduplicated.metadata.format).to.equal("png");
+        expect(deduplicated.metadata.attribution).to.be.undefined;
+        expect(await getTileText(deduplicated, 2, 0, 3)).to.equal("2");
+        expect(await getTileText(deduplicated, 3, 5, 6)).to.equal("3/5/6");
+        expect(await deduplicated.getTile(4, 0, 0)).to.be.undefined;
+        deduplicated.close();
+    });
+});
+
+describe("PMTilesArchive", function() {
+    it("computes the tile ids along the hilbert curve", function() {
+        expect(PMTilesArchive.getTileId(0, 0, 0)).to.equal(0);
+        expect(PMTilesArchive.getTileId(1, 0, 0)).to.equal(1);
+        expect(PMTilesArchive.getTileId(1, 0, 1)).to.equal(2);
+        expect(PMTilesArchive.getTileId(1, 1, 1)).to.equal(3);
+        expect(PMTilesArchive.getTileId(1, 1, 0)).to.equal(4);
+        expect(PMTilesArchive.getTileId(2, 0, 0)).to.equal(5);
+        expect(PMTilesArchive.getTileId(3, 4, 2)).to.equal(75);
+    });
+
+    it("parses the directories", function() {
+        // Number of entries, delta encoded tile ids, run lengths, lengths and offsets, where an
+        // offset of 0 places the data after the data of the previous entry.
+        const bytes = new Uint8Array([3, 0, 1, 4, 1, 1, 16, 10, 20, 5, 1, 0, 100]);
+
+        expect(PMTilesArchive.parseDirectory(bytes.buffer)).to.deep.equal([
+            { tileId: 0, runLength: 1, length: 10, offset: 0 },
+            { tileId: 1, runLength: 1, length: 20, offset: 10 },
+            { tileId: 5, runLength: 16, length: 5, offset: 99 }
+        ]);
+    });
+
+    describeOnlyNode("reading archives", function() {
+        let archive: PMTilesArchive;
+
+        beforeEach(async function() {
+            archive = await PMTilesArchive.open(
+                new FileArchiveSource(getResourcePath("tiles.pmtiles")),
+                zlibDecompressor
+            );
+        });
+
+        afterEach(function() {
+            archive.close();
+        });
+
+        it("reads the header and metadata", function() {
+            const { header, metadata } = archive;
+
+            expect(header.version).to.equal(3);
+            expect(header.minZoom).to.equal(0);
+            expect(header.maxZoom).to.equal(3);
+            expect(metadata.name).to.equal("test");
+            expect(metadata.format).to.equal("pbf");
+            expect(metadata.minZoom).to.equal(0);
+            expect(metadata.maxZoom).to.equal(3);
+            expect(metadata.bounds!.west).to.be.closeTo(-10, 1e-6);
+            expect(metadata.bounds!.north).to.be.closeTo(40, 1e-6);
+            expect(metadata.attribution).to.contain("OpenStreetMap contributors");
+            expect(metadata.values.vector_layers).to.be.an("array");
+        });
+
+        it("reads tiles from the root directory", async function() {
+            expect(await getTileText(archive, 0, 0, 0)).to.equal("0/0/0");
+            expect(await getTileText(archive, 1, 0, 1)).to.equal("1/0/1");
+            expect(await getTileText(archive, 1, 1, 0)).to.equal("1/1/0");
+        });
+
+        it("reads tiles sharing their data", async function() {
+            expect(await getTileText(archive, 2, 0, 0)).to.equal("2");
+            expect(await getTileText(archive, 2, 3, 3)).to.equal("2");
+        });
+
+        it("reads tiles from leaf directories", async function() {
+            expect(await getTileText(archive, 3, 5, 6)).to.equal("3/5/6");
+            expect(await getTileText(archive, 3, 7, 0)).to.equal("3/7/0");
+            expect((await archive.getTile(3, 4, 2))!.byteLength).to.equal(3005);
+        });
+
+        it("returns undefined for missing tiles", async function() {
+            expect(await archive.getTile(4, 0, 0)).to.be.undefined;
+        });
+    });
+});
+
+describeOnlyNode("TileArchiveDataProvider", function() {
+    const client = {};
+
+    async function checkProvider(provider: TileArchiveDataProvider) {
+        await provider.register(client);
+
+        const metadata = provider.getMetadata()!;
+        expect(provider.ready()).to.be.true;
+        expect(metadata.minZoom).to.equal(0);
+        expect(metadata.maxZoom).to.equal(3);
+        expect(metadata.bounds!.south).to.be.closeTo(-20, 1e-6);
+        expect(metadata.bounds!.east).to.be.closeTo(30, 1e-6);
+        expect(metadata.copyrightInfo).to.deep.equal(attribution);
+
+        const tile = await provider.getTile(new TileKey(6, 5, 3));
+        expect(new TextDecoder().decode(tile as ArrayBuffer)).to.equal("3/5/6");
+        expect((await provider.getTile(new TileKey(0, 0, 4))).byteLength).to.equal(0);
+
+        provider.unregister(client);
+        expect(provider.archive).to.be.undefined;
+    }
+
+    it("reads MBTiles files", async function() {
+        await checkProvider(new MBTilesFileDataProvider(getResourcePath("tiles.mbtiles")));
+    });
+
+    it("reads PMTiles files", async function() {
+        await checkProvider(new PMTilesFileDataProvider(getResourcePath("tiles.pmtiles")));
+    });
+
+    it("reads archives from an ArrayBuffer", async function() {
+        const buffer = fs.readFileSync(getResourcePath("tiles.pmtiles"));
+        const source = buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.length);
+
+        await checkProvider(new PMTilesDataProvider({ source, decompress: zlibDecompressor }));
+    });
+
+    it("fails to read tiles before being connected", async function() {
+        const provider = new MBTilesFileDataProvider(getResourcePath("tiles.mbtiles"));
+        let error: Error | undefined;
+        try {
+            await provider.getTile(new TileKey(0, 0, 0));
+        } catch (e) {
+            error = e;
+        }
+
+        expect(error).to.be.instanceOf(Error);
+        expect(provider.getMetadata()).to.be.undefined;
+    });
+});
@@ -0,0 +1,10 @@
+/*
+ * Copyright (C) 2017-2020 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// @here:check-imports:environment:node
+
+export * from "./index";
+export * from "./lib/FileTileCacheStorage";
@@ -0,0 +1,21 @@
+/*
+ * Copyright (C) 2017-2020 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Persistent tile cache.
+ *
+ * @remarks
+ * Stores the tiles of data providers in a persistent cache with pluggable storage, so that maps
+ * can be used without network connection.
+ *
+ * @packageDocumentation
+ */
+
+export * from "./lib/CachingDataProvider";
+export * from "./lib/CachingTransferManager";
+export * from "./lib/IndexedDbTileCacheStorage";
+export * from "./lib/TileCache";
+export * from "./lib/TileCacheStorage";
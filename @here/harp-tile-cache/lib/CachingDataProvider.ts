@@ -0,0 +1,278 @@
+/*
+ * Copyright (C) 2017-2020 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { GeoBox, TileKey, TilingScheme, webMercatorTilingScheme } from "@here/harp-geoutils";
+import { TileSourceMetadata } from "@here/harp-mapview";
+import { DataProvider } from "@here/harp-mapview-decoder";
+import { LoggerManager } from "@here/harp-utils";
+
+import { TileCache } from "./TileCache";
+
+const logger = LoggerManager.instance.create("CachingDataProvider");
+
+/**
+ * Options of a {@link CachingDataProvider}.
+ */
+export interface CachingDataProviderOptions {
+    /**
+     * The provider loading the tiles which are not cached.
+     */
+    dataProvider: DataProvider;
+
+    /**
+     * The cache storing the tiles.
+     */
+    cache: TileCache;
+
+    /**
+     * Name prefixed to the keys of the cached tiles, to distinguish the tiles of several
+     * providers sharing the same cache.
+     */
+    name: string;
+
+    /**
+     * Start in offline mode, see {@link CachingDataProvider.offline}.
+     * @defaultValue `false`
+     */
+    offline?: boolean;
+}
+
+/**
+ * Options of {@link CachingDataProvider.downloadArea}.
+ */
+export interface AreaDownloadOptions {
+    /**
+     * The area to download.
+     */
+    geoBox: GeoBox;
+
+    /**
+     * The lowest level of the tiles to download.
+     */
+    minLevel: number;
+
+    /**
+     * The highest level of the tiles to download.
+     *
+     * @remarks
+     * The number of tiles grows by a factor of four with every level, check the `total` count of
+     * the first progress report to cancel downloads of unexpected size.
+     */
+    maxLevel: number;
+
+    /**
+     * The tiling scheme of the provided tiles, defaults to the `webMercatorTilingScheme`.
+     */
+    tilingScheme?: TilingScheme;
+
+    /**
+     * The maximum number of tiles loaded in parallel.
+     * @defaultValue `8`
+     */
+    maxParallelDownloads?: number;
+
+    /**
+     * Signal to cancel the download.
+     */
+    abortSignal?: AbortSignal;
+
+    /**
+     * Function called after every loaded tile.
+     */
+    onProgress?: (progress: AreaDownloadProgress) => void;
+}
+
+/**
+ * Progress of {@link CachingDataProvider.downloadArea}.
+ */
+export interface AreaDownloadProgress {
+    /**
+     * The number of tiles in the area.
+     */
+    total: number;
+
+    /**
+     * The number of tiles which are in the cache.
+     */
+    loaded: number;
+
+    /**
+     * The number of tiles which failed to load.
+     */
+    failed: number;
+}
+
+/**
+ * [[DataProvider]] storing the tiles of another provider in a {@link TileCache}.
+ *
+ * @remarks
+ * Tiles are read from the cache while they are not expired. Expired and missing tiles are
+ * loaded by the wrapped provider, expired tiles are still used if loading them fails, e.g. when
+ * the network is not available. Only tiles provided as `ArrayBuffer` are cached.
+ *
+ * The expiration is based on the `maxAge` of the cache, as the wrapped provider doesn't expose the
+ * HTTP headers of the tiles. Use a {@link CachingTransferManager} as download manager of the
+ * wrapped provider to revalidate the tiles with their `ETag`.
+ *
+ * @example
+ * ```typescript
+ * const dataProvider = new CachingDataProvider({
+ *     dataProvider: new OmvRestClient({ baseUrl, apiFormat: APIFormat.XYZMVT }),
+ *     cache: new TileCache({ storage: new IndexedDbTileCacheStorage() }),
+ *     name: "vector"
+ * });
+ * ```
+ */
+export class CachingDataProvider extends DataProvider {
+    /**
+     * In offline mode, tiles are only read from the cache, whether they are expired or not.
+     * Tiles missing in the cache are provided as empty tiles.
+     */
+    offline: boolean;
+
+    /**
+     * Creates a new `CachingDataProvider`.
+     *
+     * @param m_options - The options of the provider.
+     */
+    constructor(private readonly m_options: CachingDataProviderOptions) {
+        super();
+        this.offline = m_options.offline === true;
+    }
+
+    /**
+     * The cache storing the tiles.
+     */
+    get cache(): TileCache {
+        return this.m_options.cache;
+    }
+
+    /** @override */
+    ready(): boolean {
+        return this.offline || this.m_options.dataProvider.ready();
+    }
+
+    /** @override */
+    async getTile(
+        tileKey: TileKey,
+        abortSignal?: AbortSignal,
+        time?: number
+    ): Promise<ArrayBufferLike | {}> {
+        if (!this.offline) {
+            return await this.loadTile(tileKey, abortSignal, time);
+        }
+        const entry = await this.cache.get(this.getCacheKey(tileKey, time));
+        return entry !== undefined ? entry.data : new ArrayBuffer(0);
+    }
+
+    /** @override */
+    getMetadata(): TileSourceMetadata | undefined {
+        return this.m_options.dataProvider.getMetadata?.();
+    }
+
+    /** @override */
+    onDidInvalidate(listener: () => void): () => void {
+        return this.m_options.dataProvider.onDidInvalidate?.(listener) ?? (() => undefined);
+    }
+
+    /**
+     * Loads all tiles of an area into the cache, e.g. to use them later in offline mode.
+     *
+     * @remarks
+     * Tiles which are cached and not expired are not loaded again.
+     *
+     * @param options - The area and levels to download.
+     * @returns The final progress, with the counts of the loaded and failed tiles.
+     */
+    async downloadArea(options: AreaDownloadOptions): Promise<AreaDownloadProgress> {
+        const tilingScheme = options.tilingScheme ?? webMercatorTilingScheme;
+        const tileKeys: TileKey[] = [];
+        for (let level = options.minLevel; level <= options.maxLevel; level++) {
+            tileKeys.push(...tilingScheme.getTileKeys(options.geoBox, level));
+        }
+
+        const progress: AreaDownloadProgress = { total: tileKeys.length, loaded: 0, failed: 0 };
+        const { abortSignal, onProgress } = options;
+        let nextIndex = 0;
+        const loadNextTiles = async () => {
+            while (nextIndex < tileKeys.length && abortSignal?.aborted !== true) {
+                const tileKey = tileKeys[nextIndex++];
+                try {
+                    await this.loadTile(tileKey, abortSignal);
+                    progress.loaded++;
+                } catch (error) {
+                    progress.failed++;
+                }
+                if (onProgress !== undefined) {
+                    onProgress({ ...progress });
+                }
+            }
+        };
+
+        const client = {};
+        await this.register(client);
+        try {
+            const parallelDownloads = Math.min(options.maxParallelDownloads ?? 8, tileKeys.length);
+            await Promise.all(Array.from({ length: parallelDownloads }, loadNextTiles));
+        } finally {
+            this.unregister(client);
+        }
+        return progress;
+    }
+
+    /** @override */
+    protected async connect(): Promise<void> {
+        try {
+            await this.m_options.dataProvider.register(this);
+        } catch (error) {
+            if (!this.offline) {
+                throw error;
+            }
+            logger.warn("Failed to connect data provider, using cached tiles only", error);
+        }
+    }
+
+    /** @override */
+    protected dispose() {
+        this.m_options.dataProvider.unregister(this);
+    }
+
+    private async loadTile(
+        tileKey: TileKey,
+        abortSignal?: AbortSignal,
+        time?: number
+    ): Promise<ArrayBufferLike | {}> {
+        const key = this.getCacheKey(tileKey, time);
+        const entry = await this.cache.get(key);
+        if (entry !== undefined && !this.cache.isExpired(entry)) {
+            return entry.data;
+        }
+
+        let data: ArrayBufferLike | {};
+        try {
+            data = await this.m_options.dataProvider.getTile(tileKey, abortSignal, time);
+        } catch (error) {
+            if (entry === undefined || abortSignal?.aborted === true) {
+                throw error;
+            }
+            logger.warn(`Failed to load tile ${key}, using expired tile`, error);
+            return entry.data;
+        }
+
+        if (data instanceof ArrayBuffer) {
+            await this.cache.put(key, data).catch(error => {
+                logger.warn(`Failed to cache tile ${key}`, error);
+            });
+        }
+        return data;
+    }
+
+    private getCacheKey(tileKey: TileKey, time?: number): string {
+        const key = `${this.m_options.name}/${tileKey.mortonCode()}`;
+        // Each time step of data with a time dimension is cached separately.
+        return time === undefined ? key : `${key}/${time}`;
+    }
+}
@@ -0,0 +1,186 @@
+/*
+ * Copyright (C) 2017-2020 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import "@here/harp-fetch";
+
+import { ITransferManager, TransferManager } from "@here/harp-transfer-manager";
+import { LoggerManager } from "@here/harp-utils";
+
+import { TileCache, TileCacheEntryProperties } from "./TileCache";
+import { TileCacheEntry } from "./TileCacheStorage";
+
+const logger = LoggerManager.instance.create("CachingTransferManager");
+
+/**
+ * [[ITransferManager]] storing the downloaded responses in a {@link TileCache}.
+ *
+ * @remarks
+ * Only `GET` requests of string `URL`s without `Range` header are cached, keyed by their `URL`.
+ * The expiration of the responses is read from their `Cache-Control` and `Expires` headers,
+ * responses with `Cache-Control: no-store` are not cached. Expired responses are revalidated
+ * with their `ETag` or `Last-Modified` header, and still used if the network is not available or
+ * the server fails.
+ *
+ * @example
+ * ```typescript
+ * const dataProvider = new OmvRestClient({
+ *     baseUrl,
+ *     apiFormat: APIFormat.XYZMVT,
+ *     downloadManager: new CachingTransferManager(new TileCache({
+ *         storage: new IndexedDbTileCacheStorage()
+ *     }))
+ * });
+ * ```
+ */
+export class CachingTransferManager implements ITransferManager {
+    /**
+     * In offline mode, responses are only read from the cache, whether they are expired or not.
+     * Requests which are not cached fail with the status 504, like `fetch` requests with the
+     * `only-if-cached` cache mode.
+     */
+    offline = false;
+
+    /**
+     * Creates a new `CachingTransferManager`.
+     *
+     * @param cache - The cache storing the responses.
+     * @param downloadManager - The transfer manager downloading the responses which are not
+     * cached; uses the default instance if none passed.
+     */
+    constructor(
+        readonly cache: TileCache,
+        readonly downloadManager: ITransferManager = TransferManager.instance()
+    ) {}
+
+    /** @override */
+    async downloadJson<T>(url: RequestInfo, init?: RequestInit): Promise<T> {
+        const response = await this.download(url, init);
+        if (!response.ok) {
+            throw new Error(`Failed to download ${url}: ${response.status}`);
+        }
+        return await response.json();
+    }
+
+    /** @override */
+    async downloadArrayBuffer(url: RequestInfo, init?: RequestInit): Promise<ArrayBuffer> {
+        const response = await this.download(url, init);
+        return await response.arrayBuffer();
+    }
+
+    /** @override */
+    async download(url: RequestInfo, init?: RequestInit): Promise<Response> {
+        const headers = new Headers(init?.headers);
+        const method = init?.method ?? "GET";
+        if (typeof url !== "string" || method.toUpperCase() !== "GET" || headers.has("Range")) {
+            return await this.downloadManager.download(url, init);
+        }
+
+        const entry = await this.cache.get(url);
+        if (entry !== undefined && (this.offline || !this.cache.isExpired(entry))) {
+            return createResponse(entry);
+        }
+        if (this.offline) {
+            return new Response(null, { status: 504, statusText: "Gateway Timeout" });
+        }
+
+        if (entry?.etag !== undefined) {
+            headers.set("If-None-Match", entry.etag);
+        }
+        if (entry?.lastModified !== undefined) {
+            headers.set("If-Modified-Since", entry.lastModified);
+        }
+
+        let response: Response;
+        try {
+            response = await this.downloadManager.download(url, { ...init, headers });
+        } catch (error) {
+            if (entry === undefined || init?.signal?.aborted === true) {
+                throw error;
+            }
+            logger.warn(`Failed to download ${url}, using expired response`, error);
+            return createResponse(entry);
+        }
+
+        if (entry !== undefined && response.status === 304) {
+            const properties = getCacheProperties(response.headers);
+            await this.store(url, entry.data, {
+                ...properties,
+                etag: properties?.etag ?? entry.etag,
+                lastModified: properties?.lastModified ?? entry.lastModified,
+                contentType: entry.contentType
+            });
+            return createResponse(entry);
+        }
+        if (entry !== undefined && response.status >= 500) {
+            logger.warn(`Failed to download ${url}, using expired response`, response.status);
+            return createResponse(entry);
+        }
+        if (response.status !== 200) {
+            return response;
+        }
+
+        const properties = getCacheProperties(response.headers);
+        if (properties === undefined) {
+            return response;
+        }
+        const data = await response.arrayBuffer();
+        await this.store(url, data, properties);
+        return new Response(data, {
+            status: response.status,
+            statusText: response.statusText,
+            headers: response.headers
+        });
+    }
+
+    private async store(url: string, data: ArrayBuffer, properties: TileCacheEntryProperties) {
+        try {
+            await this.cache.put(url, data, properties);
+        } catch (error) {
+            logger.warn(`Failed to cache ${url}`, error);
+        }
+    }
+}
+
+/**
+ * Gets the expiration time and validators of a response from its headers.
+ *
+ * @returns The properties of the cache entry, or `undefined` if the response must not be cached.
+ */
+function getCacheProperties(headers: Headers): TileCacheEntryProperties | undefined {
+    const properties: TileCacheEntryProperties = {
+        etag: headers.get("ETag") ?? undefined,
+        lastModified: headers.get("Last-Modified") ?? undefined,
+        contentType: headers.get("Content-Type") ?? undefined
+    };
+
+    const cacheControl = (headers.get("Cache-Control") ?? "").toLowerCase();
+    if (/(^|[\s,])no-store\b/.test(cacheControl)) {
+        return undefined;
+    }
+    const maxAge = /(^|[\s,])max-age\s*=\s*(\d+)/.exec(cacheControl);
+    if (/(^|[\s,])no-cache\b/.test(cacheControl)) {
+        properties.expiresAt = Date.now();
+    } else if (maxAge !== null) {
+        properties.expiresAt = Date.now() + Number(maxAge[2]) * 1000;
+    } else {
+        const expires = Date.parse(headers.get("Expires") ?? "");
+        if (!isNaN(expires)) {
+            properties.expiresAt = expires;
+        }
+    }
+    return properties;
+}
+
+function createResponse(entry: TileCacheEntry): Response {
+    const headers = new Headers();
+    if (entry.contentType !== undefined) {
+        headers.set("Content-Type", entry.contentType);
+    }
+    if (entry.etag !== undefined) {
+        headers.set("ETag", entry.etag);
+    }
+    return new Response(entry.data, { status: 200, headers });
+}
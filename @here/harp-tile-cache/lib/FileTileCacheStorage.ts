@@ -0,0 +1,143 @@
+/*
+ * Copyright (C) 2017-2020 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// @here:check-imports:environment:node
+
+import * as fs from "fs";
+import * as path from "path";
+
+import { TileCacheEntry, TileCacheEntryInfo, TileCacheStorage } from "./TileCacheStorage";
+
+type EntryMetadata = Omit<TileCacheEntry, "data"> & TileCacheEntryInfo;
+
+/**
+ * {@link TileCacheStorage} persisting the entries as files in a directory in node.js.
+ *
+ * @remarks
+ * Every entry is stored in a data file and a JSON file with its key and properties, named after
+ * a hash of the key.
+ */
+export class FileTileCacheStorage implements TileCacheStorage {
+    private m_directoryCreated?: Promise<unknown>;
+
+    /**
+     * Creates a new `FileTileCacheStorage`.
+     *
+     * @param directory - The directory of the cache files, created if it doesn't exist.
+     */
+    constructor(readonly directory: string) {}
+
+    /** @override */
+    async get(key: string): Promise<TileCacheEntry | undefined> {
+        const metadata = await this.readMetadata(this.getMetadataPath(key));
+        if (metadata === undefined || metadata.key !== key) {
+            return undefined;
+        }
+        let buffer: Buffer;
+        try {
+            buffer = await fs.promises.readFile(this.getDataPath(key));
+        } catch (error) {
+            return undefined;
+        }
+        const { key: _key, size: _size, ...properties } = metadata;
+        const data = buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength);
+        return { ...properties, data };
+    }
+
+    /** @override */
+    async put(key: string, entry: TileCacheEntry): Promise<void> {
+        await this.createDirectory();
+        const { data, ...properties } = entry;
+        const metadata: EntryMetadata = { ...properties, key, size: data.byteLength };
+        await fs.promises.writeFile(this.getDataPath(key), Buffer.from(data));
+        await fs.promises.writeFile(this.getMetadataPath(key), JSON.stringify(metadata));
+    }
+
+    /** @override */
+    async delete(key: string): Promise<void> {
+        await removeFile(this.getMetadataPath(key));
+        await removeFile(this.getDataPath(key));
+    }
+
+    /** @override */
+    async list(): Promise<TileCacheEntryInfo[]> {
+        const infos: TileCacheEntryInfo[] = [];
+        for (const fileName of await this.readDirectory()) {
+            if (fileName.endsWith(".json")) {
+                const metadata = await this.readMetadata(path.join(this.directory, fileName));
+                if (metadata !== undefined) {
+                    const { key, size, storedAt } = metadata;
+                    infos.push({ key, size, storedAt });
+                }
+            }
+        }
+        return infos;
+    }
+
+    /** @override */
+    async clear(): Promise<void> {
+        for (const fileName of await this.readDirectory()) {
+            if (fileName.endsWith(".json") || fileName.endsWith(".bin")) {
+                await removeFile(path.join(this.directory, fileName));
+            }
+        }
+    }
+
+    private createDirectory(): Promise<unknown> {
+        if (this.m_directoryCreated === undefined) {
+            this.m_directoryCreated = fs.promises.mkdir(this.directory, { recursive: true });
+        }
+        return this.m_directoryCreated;
+    }
+
+    private async readDirectory(): Promise<string[]> {
+        try {
+            return await fs.promises.readdir(this.directory);
+        } catch (error) {
+            return [];
+        }
+    }
+
+    private async readMetadata(filePath: string): Promise<EntryMetadata | undefined> {
+        try {
+            return JSON.parse(await fs.promises.readFile(filePath, "utf8"));
+        } catch (error) {
+            return undefined;
+        }
+    }
+
+    private getDataPath(key: string): string {
+        return path.join(this.directory, `${hashKey(key)}.bin`);
+    }
+
+    private getMetadataPath(key: string): string {
+        return path.join(this.directory, `${hashKey(key)}.json`);
+    }
+}
+
+async function removeFile(filePath: string) {
+    try {
+        await fs.promises.unlink(filePath);
+    } catch (error) {
+        if (error.code !== "ENOENT") {
+            throw error;
+        }
+    }
+}
+
+/**
+ * Hashes a key into a file name with two 32 bit FNV-1a hashes.
+ */
+function hashKey(key: string): string {
+    let hash1 = 0x811c9dc5;
+    let hash2 = 0x050c5d1f;
+    for (let i = 0; i < key.length; i++) {
+        const code = key.charCodeAt(i);
+        hash1 = Math.imul(hash1 ^ code, 0x01000193) >>> 0;
+        hash2 = Math.imul(hash2 ^ code, 0x01000193) >>> 0;
+    }
+    return hash1.toString(16).padStart(8, "0") + hash2.toString(16).padStart(8, "0");
+}
@@ -0,0 +1,118 @@
+/*
+ * Copyright (C) 2017-2020 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { TileCacheEntry, TileCacheEntryInfo, TileCacheStorage } from "./TileCacheStorage";
+
+const ENTRIES_STORE = "entries";
+const INFO_STORE = "info";
+
+/**
+ * {@link TileCacheStorage} persisting the entries in an `IndexedDB` database of the browser.
+ *
+ * @remarks
+ * The size and age of the entries are kept in a separate object store, so that they can be
+ * listed without reading the data of all entries.
+ */
+export class IndexedDbTileCacheStorage implements TileCacheStorage {
+    private m_database?: Promise<IDBDatabase>;
+
+    /**
+     * Creates a new `IndexedDbTileCacheStorage`.
+     *
+     * @param databaseName - The name of the `IndexedDB` database, caches with different names
+     * are independent of each other.
+     */
+    constructor(readonly databaseName = "harp-tile-cache") {}
+
+    /** @override */
+    async get(key: string): Promise<TileCacheEntry | undefined> {
+        const transaction = await this.transaction([ENTRIES_STORE], "readonly");
+        return await request<TileCacheEntry | undefined>(
+            transaction.objectStore(ENTRIES_STORE).get(key)
+        );
+    }
+
+    /** @override */
+    async put(key: string, entry: TileCacheEntry): Promise<void> {
+        const transaction = await this.transaction([ENTRIES_STORE, INFO_STORE], "readwrite");
+        const info: TileCacheEntryInfo = {
+            key,
+            size: entry.data.byteLength,
+            storedAt: entry.storedAt
+        };
+        transaction.objectStore(ENTRIES_STORE).put(entry, key);
+        transaction.objectStore(INFO_STORE).put(info);
+        await complete(transaction);
+    }
+
+    /** @override */
+    async delete(key: string): Promise<void> {
+        const transaction = await this.transaction([ENTRIES_STORE, INFO_STORE], "readwrite");
+        transaction.objectStore(ENTRIES_STORE).delete(key);
+        transaction.objectStore(INFO_STORE).delete(key);
+        await complete(transaction);
+    }
+
+    /** @override */
+    async list(): Promise<TileCacheEntryInfo[]> {
+        const transaction = await this.transaction([INFO_STORE], "readonly");
+        return await request<TileCacheEntryInfo[]>(transaction.objectStore(INFO_STORE).getAll());
+    }
+
+    /** @override */
+    async clear(): Promise<void> {
+        const transaction = await this.transaction([ENTRIES_STORE, INFO_STORE], "readwrite");
+        transaction.objectStore(ENTRIES_STORE).clear();
+        transaction.objectStore(INFO_STORE).clear();
+        await complete(transaction);
+    }
+
+    /** @override */
+    close() {
+        const database = this.m_database;
+        this.m_database = undefined;
+        database?.then(db => db.close()).catch(() => undefined);
+    }
+
+    private async transaction(
+        storeNames: string[],
+        mode: IDBTransactionMode
+    ): Promise<IDBTransaction> {
+        if (this.m_database === undefined) {
+            this.m_database = this.openDatabase();
+        }
+        const database = await this.m_database;
+        return database.transaction(storeNames, mode);
+    }
+
+    private openDatabase(): Promise<IDBDatabase> {
+        if (typeof indexedDB === "undefined") {
+            return Promise.reject(new Error("IndexedDbTileCacheStorage: IndexedDB not available"));
+        }
+        const openRequest = indexedDB.open(this.databaseName, 1);
+        openRequest.onupgradeneeded = () => {
+            const database = openRequest.result;
+            database.createObjectStore(ENTRIES_STORE);
+            database.createObjectStore(INFO_STORE, { keyPath: "key" });
+        };
+        return request(openRequest);
+    }
+}
+
+function request<T>(idbRequest: IDBRequest): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+        idbRequest.onsuccess = () => resolve(idbRequest.result);
+        idbRequest.onerror = () => reject(idbRequest.error);
+    });
+}
+
+function complete(transaction: IDBTransaction): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+    });
+}
@@ -0,0 +1,216 @@
+/*
+ * Copyright (C) 2017-2020 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { MemoryTileCacheStorage, TileCacheEntry, TileCacheStorage } from "./TileCacheStorage";
+
+/**
+ * Options of a {@link TileCache}.
+ */
+export interface TileCacheOptions {
+    /**
+     * The storage of the entries, defaults to a {@link MemoryTileCacheStorage}.
+     */
+    storage?: TileCacheStorage;
+
+    /**
+     * The maximum size of the cached data in bytes, defaults to 100 MiB.
+     *
+     * @remarks
+     * The least recently used entries are evicted when the quota is exceeded.
+     */
+    maxSize?: number;
+
+    /**
+     * The time in milliseconds after which entries without expiration time expire, defaults to
+     * one day.
+     */
+    maxAge?: number;
+}
+
+/**
+ * Expiration time and validators of the data stored in a {@link TileCache}.
+ */
+export type TileCacheEntryProperties = Omit<TileCacheEntry, "data" | "storedAt">;
+
+/**
+ * Persistent cache of tile data with a size quota and expiration of the entries.
+ *
+ * @remarks
+ * Expired entries are kept until they are evicted, so that they can be revalidated, and used
+ * while the network is not available.
+ *
+ * The keys and sizes of the entries are listed from the storage on first use of the cache, the
+ * order of use is only tracked in memory, so that reading an entry doesn't write to the storage.
+ */
+export class TileCache {
+    /**
+     * The storage of the entries.
+     */
+    readonly storage: TileCacheStorage;
+
+    /**
+     * The maximum size of the cached data in bytes.
+     */
+    readonly maxSize: number;
+
+    /**
+     * The time in milliseconds after which entries without expiration time expire.
+     */
+    readonly maxAge: number;
+
+    // Sizes of the entries, ordered from the least to the most recently used.
+    private m_index?: Promise<Map<string, number>>;
+    private m_size = 0;
+
+    /**
+     * Creates a new `TileCache`.
+     *
+     * @param options - The options of the cache.
+     */
+    constructor(options: TileCacheOptions = {}) {
+        this.storage = options.storage ?? new MemoryTileCacheStorage();
+        this.maxSize = options.maxSize ?? 100 * 1024 * 1024;
+        this.maxAge = options.maxAge ?? 24 * 60 * 60 * 1000;
+    }
+
+    /**
+     * Gets the size of the cached data in bytes.
+     */
+    async getSize(): Promise<number> {
+        await this.getIndex();
+        return this.m_size;
+    }
+
+    /**
+     * Gets the number of cached entries.
+     */
+    async getEntryCount(): Promise<number> {
+        return (await this.getIndex()).size;
+    }
+
+    /**
+     * Reads an entry, expired or not.
+     *
+     * @param key - The key of the entry.
+     * @returns The entry, or `undefined` if the cache has no entry with the key.
+     */
+    async get(key: string): Promise<TileCacheEntry | undefined> {
+        const index = await this.getIndex();
+        const size = index.get(key);
+        if (size === undefined) {
+            return undefined;
+        }
+        const entry = await this.storage.get(key);
+        if (entry === undefined) {
+            this.removeFromIndex(index, key);
+            return undefined;
+        }
+        index.delete(key);
+        index.set(key, size);
+        return entry;
+    }
+
+    /**
+     * Checks if an entry is expired, i.e. if it has to be revalidated before being used.
+     *
+     * @param entry - The entry to check.
+     * @param now - The current time in milliseconds since the epoch.
+     */
+    isExpired(entry: TileCacheEntry, now: number = Date.now()): boolean {
+        return now >= (entry.expiresAt ?? entry.storedAt + this.maxAge);
+    }
+
+    /**
+     * Stores data in the cache, and evicts the least recently used entries if the quota is
+     * exceeded.
+     *
+     * @remarks
+     * Data larger than the quota is not stored.
+     *
+     * @param key - The key of the entry.
+     * @param data - The data to store.
+     * @param properties - The expiration time and validators of the data.
+     */
+    async put(
+        key: string,
+        data: ArrayBuffer,
+        properties: TileCacheEntryProperties = {}
+    ): Promise<void> {
+        const index = await this.getIndex();
+        if (data.byteLength > this.maxSize) {
+            return;
+        }
+        await this.storage.put(key, { ...properties, data, storedAt: Date.now() });
+
+        this.removeFromIndex(index, key);
+        index.set(key, data.byteLength);
+        this.m_size += data.byteLength;
+
+        for (const [oldestKey] of index) {
+            if (this.m_size <= this.maxSize) {
+                break;
+            }
+            this.removeFromIndex(index, oldestKey);
+            await this.storage.delete(oldestKey);
+        }
+    }
+
+    /**
+     * Deletes an entry.
+     *
+     * @param key - The key of the entry.
+     */
+    async delete(key: string): Promise<void> {
+        const index = await this.getIndex();
+        this.removeFromIndex(index, key);
+        await this.storage.delete(key);
+    }
+
+    /**
+     * Deletes all entries.
+     */
+    async clear(): Promise<void> {
+        const index = await this.getIndex();
+        index.clear();
+        this.m_size = 0;
+        await this.storage.clear();
+    }
+
+    /**
+     * Closes the storage of the cache.
+     */
+    close() {
+        this.storage.close?.();
+        this.m_index = undefined;
+        this.m_size = 0;
+    }
+
+    private getIndex(): Promise<Map<string, number>> {
+        if (this.m_index === undefined) {
+            this.m_index = this.storage.list().then(infos => {
+                infos.sort((a, b) => a.storedAt - b.storedAt);
+                const index = new Map<string, number>();
+                for (const { key, size } of infos) {
+                    index.set(key, size);
+                    this.m_size += size;
+                }
+                return index;
+            });
+            this.m_index.catch(() => {
+                this.m_index = undefined;
+            });
+        }
+        return this.m_index;
+    }
+
+    private removeFromIndex(index: Map<string, number>, key: string) {
+        const size = index.get(key);
+        if (size !== undefined) {
+            index.delete(key);
+            this.m_size -= size;
+        }
+    }
+}
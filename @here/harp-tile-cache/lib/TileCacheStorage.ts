@@ -0,0 +1,150 @@
+/*
+ * Copyright (C) 2017-2020 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Entry of a {@link TileCache}.
+ */
+export interface TileCacheEntry {
+    /**
+     * The cached data.
+     */
+    data: ArrayBuffer;
+
+    /**
+     * Time the entry has been stored or revalidated, in milliseconds since the epoch.
+     */
+    storedAt: number;
+
+    /**
+     * Time the entry expires, in milliseconds since the epoch.
+     *
+     * @remarks
+     * Entries without expiration time expire after the `maxAge` of the {@link TileCache}.
+     */
+    expiresAt?: number;
+
+    /**
+     * `ETag` of the response the data has been read from, used to revalidate expired entries.
+     */
+    etag?: string;
+
+    /**
+     * `Last-Modified` header of the response the data has been read from, used to revalidate
+     * expired entries.
+     */
+    lastModified?: string;
+
+    /**
+     * `Content-Type` of the response the data has been read from.
+     */
+    contentType?: string;
+}
+
+/**
+ * Size and age of a {@link TileCacheEntry}, used to enforce the quota of a {@link TileCache}.
+ */
+export interface TileCacheEntryInfo {
+    /**
+     * The key of the entry.
+     */
+    key: string;
+
+    /**
+     * The size of the data in bytes.
+     */
+    size: number;
+
+    /**
+     * Time the entry has been stored, in milliseconds since the epoch.
+     */
+    storedAt: number;
+}
+
+/**
+ * Storage backend of a {@link TileCache}.
+ *
+ * @remarks
+ * All operations are asynchronous, so that the entries can be persisted in databases or files.
+ */
+export interface TileCacheStorage {
+    /**
+     * Reads an entry.
+     *
+     * @param key - The key of the entry.
+     * @returns The entry, or `undefined` if the storage has no entry with the key.
+     */
+    get(key: string): Promise<TileCacheEntry | undefined>;
+
+    /**
+     * Stores an entry, replacing any entry with the same key.
+     *
+     * @param key - The key of the entry.
+     * @param entry - The entry to store.
+     */
+    put(key: string, entry: TileCacheEntry): Promise<void>;
+
+    /**
+     * Deletes an entry.
+     *
+     * @param key - The key of the entry.
+     */
+    delete(key: string): Promise<void>;
+
+    /**
+     * Lists the size and age of all stored entries.
+     */
+    list(): Promise<TileCacheEntryInfo[]>;
+
+    /**
+     * Deletes all entries.
+     */
+    clear(): Promise<void>;
+
+    /**
+     * Releases the resources of the storage.
+     */
+    close?(): void;
+}
+
+/**
+ * {@link TileCacheStorage} keeping the entries in memory.
+ *
+ * @remarks
+ * The entries are lost when the application is closed, use an {@link IndexedDbTileCacheStorage}
+ * in browsers or a `FileTileCacheStorage` in node.js to persist them.
+ */
+export class MemoryTileCacheStorage implements TileCacheStorage {
+    private readonly m_entries = new Map<string, TileCacheEntry>();
+
+    /** @override */
+    async get(key: string): Promise<TileCacheEntry | undefined> {
+        return this.m_entries.get(key);
+    }
+
+    /** @override */
+    async put(key: string, entry: TileCacheEntry): Promise<void> {
+        this.m_entries.set(key, entry);
+    }
+
+    /** @override */
+    async delete(key: string): Promise<void> {
+        this.m_entries.delete(key);
+    }
+
+    /** @override */
+    async list(): Promise<TileCacheEntryInfo[]> {
+        return Array.from(this.m_entries, ([key, entry]) => ({
+            key,
+            size: entry.data.byteLength,
+            storedAt: entry.storedAt
+        }));
+    }
+
+    /** @override */
+    async clear(): Promise<void> {
+        this.m_entries.clear();
+    }
+}
@@ -0,0 +1,191 @@
+/*
+ * Copyright (C) 2017-2020 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+//    Mocha discourages using arrow functions, see https://mochajs.org/#arrow-functions
+
+import { GeoBox, GeoCoordinates, TileKey } from "@here/harp-geoutils";
+import { TileSourceMetadata } from "@here/harp-mapview";
+import { DataProvider } from "@here/harp-mapview-decoder";
+import { expect } from "chai";
+
+import { AreaDownloadProgress, CachingDataProvider } from "../lib/CachingDataProvider";
+import { TileCache } from "../lib/TileCache";
+
+class FakeDataProvider extends DataProvider {
+    readonly requests: TileKey[] = [];
+    connected = false;
+    failing = false;
+
+    ready(): boolean {
+        return this.connected;
+    }
+
+    async getTile(tileKey: TileKey): Promise<ArrayBufferLike> {
+        this.requests.push(tileKey);
+        if (this.failing) {
+            throw new Error("network error");
+        }
+        return new Uint8Array([tileKey.level, tileKey.row, tileKey.column, this.requests.length])
+            .buffer;
+    }
+
+    getMetadata(): TileSourceMetadata {
+        return { maxZoom: 14 };
+    }
+
+    protected async connect(): Promise<void> {
+        if (this.failing) {
+            throw new Error("network error");
+        }
+        this.connected = true;
+    }
+
+    protected dispose(): void {
+        this.connected = false;
+    }
+}
+
+describe("CachingDataProvider", function() {
+    const client = {};
+    let fakeProvider: FakeDataProvider;
+
+    beforeEach(function() {
+        fakeProvider = new FakeDataProvider();
+    });
+
+    function createProvider(cache = new TileCache(), offline?: boolean) {
+        return new CachingDataProvider({
+            dataProvider: fakeProvider,
+            cache,
+            name: "test",
+            offline
+        });
+    }
+
+    it("connects the wrapped provider", async function() {
+        const provider = createProvider();
+
+        await provider.register(client);
+        expect(provider.ready()).to.be.true;
+        expect(provider.getMetadata()).to.deep.equal({ maxZoom: 14 });
+
+        provider.unregister(client);
+        expect(fakeProvider.connected).to.be.false;
+    });
+
+    it("reads cached tiles from the cache", async function() {
+        const provider = createProvider();
+        await provider.register(client);
+
+        const first = await provider.getTile(new TileKey(1, 2, 3));
+        const second = await provider.getTile(new TileKey(1, 2, 3));
+
+        expect(fakeProvider.requests).to.have.length(1);
+        expect(new Uint8Array(second as ArrayBuffer)).to.deep.equal(
+            new Uint8Array(first as ArrayBuffer)
+        );
+        expect(await provider.cache.getEntryCount()).to.equal(1);
+    });
+
+    it("caches the tiles of each time separately", async function() {
+        const provider = createProvider();
+        await provider.register(client);
+
+        await provider.getTile(new TileKey(1, 2, 3), undefined, 1000);
+        await provider.getTile(new TileKey(1, 2, 3), undefined, 2000);
+        await provider.getTile(new TileKey(1, 2, 3), undefined, 1000);
+
+        expect(fakeProvider.requests).to.have.length(2);
+        expect(await provider.cache.getEntryCount()).to.equal(2);
+    });
+
+    it("reloads expired tiles", async function() {
+        const provider = createProvider(new TileCache({ maxAge: 0 }));
+        await provider.register(client);
+
+        await provider.getTile(new TileKey(1, 2, 3));
+        const data = await provider.getTile(new TileKey(1, 2, 3));
+
+        expect(fakeProvider.requests).to.have.length(2);
+        expect(new Uint8Array(data as ArrayBuffer)[3]).to.equal(2);
+    });
+
+    it("uses expired tiles if loading fails", async function() {
+        const provider = createProvider(new TileCache({ maxAge: 0 }));
+        await provider.register(client);
+        await provider.getTile(new TileKey(1, 2, 3));
+
+        fakeProvider.failing = true;
+        const data = await provider.getTile(new TileKey(1, 2, 3));
+
+        expect(new Uint8Array(data as ArrayBuffer)[3]).to.equal(1);
+
+        let error: Error | undefined;
+        try {
+            await provider.getTile(new TileKey(3, 2, 3));
+        } catch (e) {
+            error = e;
+        }
+        expect(error).to.be.instanceOf(Error);
+    });
+
+    it("reads only cached tiles in offline mode", async function() {
+        const cache = new TileCache({ maxAge: 0 });
+        await createProvider(cache).getTile(new TileKey(1, 2, 3));
+
+        fakeProvider.failing = true;
+        const provider = createProvider(cache, true);
+        await provider.register(client);
+
+        expect(provider.ready()).to.be.true;
+        expect((await provider.getTile(new TileKey(1, 2, 3))) as ArrayBuffer).to.have.property(
+            "byteLength",
+            4
+        );
+        expect((await provider.getTile(new TileKey(3, 2, 3))) as ArrayBuffer).to.have.property(
+            "byteLength",
+            0
+        );
+        expect(fakeProvider.requests).to.have.length(1);
+    });
+
+    it("downloads the tiles of an area", async function() {
+        const provider = createProvider();
+        await provider.getTile(new TileKey(0, 0, 0));
+        const reports: AreaDownloadProgress[] = [];
+
+        const progress = await provider.downloadArea({
+            geoBox: GeoBox.fromCoordinates(new GeoCoordinates(10, 10), new GeoCoordinates(20, 100)),
+            minLevel: 0,
+            maxLevel: 2,
+            onProgress: report => reports.push(report)
+        });
+
+        // Level 0: 1 tile, level 1: 1 tile, level 2: 2 tiles. The tile of level 0 is already
+        // cached and not loaded again.
+        expect(progress).to.deep.equal({ total: 4, loaded: 4, failed: 0 });
+        expect(reports).to.have.length(4);
+        expect(reports[0]).to.deep.include({ total: 4, loaded: 1 });
+        expect(fakeProvider.requests).to.have.length(4);
+        expect(fakeProvider.connected).to.be.false;
+        expect(await provider.cache.getEntryCount()).to.equal(4);
+    });
+
+    it("counts the tiles failing to download", async function() {
+        const provider = createProvider();
+        await provider.register(client);
+        fakeProvider.failing = true;
+
+        const progress = await provider.downloadArea({
+            geoBox: GeoBox.fromCoordinates(new GeoCoordinates(10, 10), new GeoCoordinates(20, 20)),
+            minLevel: 0,
+            maxLevel: 1,
+            maxParallelDownloads: 1
+        });
+
+        expect(progress).to.deep.equal({ total: 2, loaded: 0, failed: 2 });
+    });
+});
@@ -0,0 +1,175 @@
+/*
+ * Copyright (C) 2017-2020 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+//    Mocha discourages using arrow functions, see https://mochajs.org/#arrow-functions
+
+import "@here/harp-fetch";
+
+import { ITransferManager } from "@here/harp-transfer-manager";
+import { expect } from "chai";
+
+import { CachingTransferManager } from "../lib/CachingTransferManager";
+import { TileCache } from "../lib/TileCache";
+
+const url = "https://example.com/tiles/1/0/0.mvt";
+
+class FakeTransferManager implements ITransferManager {
+    readonly requests: Headers[] = [];
+    responses: Array<() => Response> = [];
+
+    downloadJson<T>(): Promise<T> {
+        throw new Error("not implemented");
+    }
+
+    downloadArrayBuffer(): Promise<ArrayBuffer> {
+        throw new Error("not implemented");
+    }
+
+    async download(_url: RequestInfo, init?: RequestInit): Promise<Response> {
+        this.requests.push(new Headers(init?.headers));
+        const response = this.responses.shift();
+        if (response === undefined) {
+            throw new Error("network error");
+        }
+        return response();
+    }
+}
+
+function createResponse(body: string, status = 200, headers: { [name: string]: string } = {}) {
+    return () => new Response(status === 304 ? null : body, { status, headers });
+}
+
+describe("CachingTransferManager", function() {
+    let fakeManager: FakeTransferManager;
+
+    beforeEach(function() {
+        fakeManager = new FakeTransferManager();
+    });
+
+    it("caches responses until they expire", async function() {
+        const manager = new CachingTransferManager(new TileCache(), fakeManager);
+        fakeManager.responses.push(
+            createResponse("tile", 200, {
+                "Cache-Control": "public, max-age=3600",
+                "Content-Type": "application/x-protobuf"
+            })
+        );
+
+        const first = await manager.download(url);
+        const second = await manager.download(url);
+
+        expect(await first.text()).to.equal("tile");
+        expect(await second.text()).to.equal("tile");
+        expect(second.headers.get("Content-Type")).to.equal("application/x-protobuf");
+        expect(fakeManager.requests).to.have.length(1);
+        expect(await manager.downloadArrayBuffer(url)).to.have.property("byteLength", 4);
+    });
+
+    it("does not cache responses with no-store", async function() {
+        const manager = new CachingTransferManager(new TileCache(), fakeManager);
+        fakeManager.responses.push(
+            createResponse("tile", 200, { "Cache-Control": "no-store" }),
+            createResponse("tile", 200)
+        );
+
+        await manager.download(url);
+        await manager.download(url);
+
+        expect(fakeManager.requests).to.have.length(2);
+    });
+
+    it("does not cache failed and range requests", async function() {
+        const manager = new CachingTransferManager(new TileCache(), fakeManager);
+        fakeManager.responses.push(
+            createResponse("not found", 404),
+            createResponse("t", 206),
+            createResponse("tile", 200)
+        );
+
+        expect((await manager.download(url)).status).to.equal(404);
+        expect((await manager.download(url, { headers: { Range: "bytes=0-0" } })).status).to.equal(
+            206
+        );
+        expect(await (await manager.download(url)).text()).to.equal("tile");
+    });
+
+    it("revalidates expired responses with their validators", async function() {
+        const manager = new CachingTransferManager(new TileCache(), fakeManager);
+        const lastModified = "Wed, 21 Oct 2015 07:28:00 GMT";
+        fakeManager.responses.push(
+            createResponse("tile", 200, {
+                "Cache-Control": "no-cache",
+                ETag: '"v1"',
+                "Last-Modified": lastModified
+            }),
+            createResponse("", 304, { "Cache-Control": "max-age=60" })
+        );
+
+        await manager.download(url);
+        const response = await manager.download(url);
+
+        expect(await response.text()).to.equal("tile");
+        expect(fakeManager.requests[1].get("If-None-Match")).to.equal('"v1"');
+        expect(fakeManager.requests[1].get("If-Modified-Since")).to.equal(lastModified);
+
+        // The revalidated response is fresh again.
+        await manager.download(url);
+        expect(fakeManager.requests).to.have.length(2);
+    });
+
+    it("replaces modified responses", async function() {
+        const manager = new CachingTransferManager(new TileCache(), fakeManager);
+        fakeManager.responses.push(
+            createResponse("tile", 200, { "Cache-Control": "max-age=0", ETag: '"v1"' }),
+            createResponse("new tile", 200, { "Cache-Control": "max-age=60", ETag: '"v2"' })
+        );
+
+        await manager.download(url);
+
+        expect(await (await manager.download(url)).text()).to.equal("new tile");
+        expect(await (await manager.download(url)).text()).to.equal("new tile");
+        expect((await manager.cache.get(url))!.etag).to.equal('"v2"');
+    });
+
+    it("uses expired responses if the download fails", async function() {
+        const manager = new CachingTransferManager(new TileCache({ maxAge: 0 }), fakeManager);
+        fakeManager.responses.push(createResponse("tile"), createResponse("error", 503));
+
+        await manager.download(url);
+
+        expect(await (await manager.download(url)).text()).to.equal("tile");
+        expect(await (await manager.download(url)).text()).to.equal("tile");
+        expect(fakeManager.requests).to.have.length(3);
+    });
+
+    it("reads only cached responses in offline mode", async function() {
+        const manager = new CachingTransferManager(new TileCache({ maxAge: 0 }), fakeManager);
+        fakeManager.responses.push(createResponse("tile"));
+        await manager.download(url);
+
+        manager.offline = true;
+
+        expect(await (await manager.download(url)).text()).to.equal("tile");
+        expect((await manager.download(url + "?other")).status).to.equal(504);
+        expect(fakeManager.requests).to.have.length(1);
+    });
+
+    it("downloads JSON", async function() {
+        const manager = new CachingTransferManager(new TileCache(), fakeManager);
+        fakeManager.responses.push(createResponse('{ "tiles": [] }'), createResponse("", 404));
+
+        expect(await manager.downloadJson(url)).to.deep.equal({ tiles: [] });
+        expect(await manager.downloadJson(url)).to.deep.equal({ tiles: [] });
+
+        let error: Error | undefined;
+        try {
+            await manager.downloadJson(url + "?other");
+        } catch (e) {
+            error = e;
+        }
+        expect(error).to.be.instanceOf(Error);
+    });
+});
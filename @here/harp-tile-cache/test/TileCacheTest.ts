@@ -0,0 +1,172 @@
+/*
+ * Copyright (C) 2017-2020 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+//    Mocha discourages using arrow functions, see https://mochajs.org/#arrow-functions
+
+import { expect } from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+import { FileTileCacheStorage } from "../lib/FileTileCacheStorage";
+import { TileCache } from "../lib/TileCache";
+import { MemoryTileCacheStorage } from "../lib/TileCacheStorage";
+
+const isNode = typeof window === "undefined";
+const describeOnlyNode = isNode ? describe : xdescribe;
+
+function createData(size: number, value = 0): ArrayBuffer {
+    return new Uint8Array(size).fill(value).buffer;
+}
+
+describe("TileCache", function() {
+    it("stores and reads entries", async function() {
+        const cache = new TileCache();
+
+        await cache.put("a", createData(4, 1), { etag: '"1"' });
+        const entry = await cache.get("a");
+
+        expect(new Uint8Array(entry!.data)).to.deep.equal(new Uint8Array([1, 1, 1, 1]));
+        expect(entry!.etag).to.equal('"1"');
+        expect(await cache.get("b")).to.be.undefined;
+        expect(await cache.getSize()).to.equal(4);
+        expect(await cache.getEntryCount()).to.equal(1);
+    });
+
+    it("expires entries after their expiration time or the maximum age", async function() {
+        const cache = new TileCache({ maxAge: 1000 });
+        const now = Date.now();
+
+        await cache.put("a", createData(1));
+        await cache.put("b", createData(1), { expiresAt: now + 5000 });
+        const a = (await cache.get("a"))!;
+        const b = (await cache.get("b"))!;
+
+        expect(cache.isExpired(a, now)).to.be.false;
+        expect(cache.isExpired(a, now + 2000)).to.be.true;
+        expect(cache.isExpired(b, now + 2000)).to.be.false;
+        expect(cache.isExpired(b, now + 6000)).to.be.true;
+    });
+
+    it("evicts the least recently used entries when the quota is exceeded", async function() {
+        const cache = new TileCache({ maxSize: 10 });
+
+        await cache.put("a", createData(4));
+        await cache.put("b", createData(4));
+        await cache.get("a");
+        await cache.put("c", createData(4));
+
+        expect(await cache.get("a")).to.not.be.undefined;
+        expect(await cache.get("b")).to.be.undefined;
+        expect(await cache.get("c")).to.not.be.undefined;
+        expect(await cache.getSize()).to.equal(8);
+        expect(await cache.storage.list()).to.have.length(2);
+    });
+
+    it("replaces entries with the same key", async function() {
+        const cache = new TileCache({ maxSize: 10 });
+
+        await cache.put("a", createData(4));
+        await cache.put("a", createData(6));
+
+        expect(await cache.getSize()).to.equal(6);
+        expect((await cache.get("a"))!.data.byteLength).to.equal(6);
+    });
+
+    it("does not store data larger than the quota", async function() {
+        const cache = new TileCache({ maxSize: 10 });
+
+        await cache.put("a", createData(4));
+        await cache.put("b", createData(11));
+
+        expect(await cache.get("a")).to.not.be.undefined;
+        expect(await cache.get("b")).to.be.undefined;
+    });
+
+    it("reads the entries of the storage", async function() {
+        const storage = new MemoryTileCacheStorage();
+        await new TileCache({ storage }).put("a", createData(4));
+
+        const cache = new TileCache({ storage, maxSize: 10 });
+        expect(await cache.getSize()).to.equal(4);
+
+        await cache.put("b", createData(8));
+        expect(await cache.get("a")).to.be.undefined;
+    });
+
+    it("deletes entries", async function() {
+        const cache = new TileCache();
+        await cache.put("a", createData(4));
+        await cache.put("b", createData(4));
+
+        await cache.delete("a");
+        expect(await cache.get("a")).to.be.undefined;
+        expect(await cache.getSize()).to.equal(4);
+
+        await cache.clear();
+        expect(await cache.get("b")).to.be.undefined;
+        expect(await cache.getSize()).to.equal(0);
+    });
+});
+
+describeOnlyNode("FileTileCacheStorage", function() {
+    let directory: string;
+
+    beforeEach(function() {
+        directory = fs.mkdtempSync(path.join(os.tmpdir(), "harp-tile-cache-"));
+    });
+
+    afterEach(function() {
+        fs.rmdirSync(directory, { recursive: true });
+    });
+
+    it("persists entries in files", async function() {
+        const storage = new FileTileCacheStorage(path.join(directory, "cache"));
+        await storage.put("https://example.com/tiles/1/0/0.mvt", {
+            data: createData(3, 7),
+            storedAt: 1000,
+            expiresAt: 2000,
+            etag: '"abc"'
+        });
+
+        const otherStorage = new FileTileCacheStorage(path.join(directory, "cache"));
+        expect(await otherStorage.get("https://example.com/tiles/1/0/0.mvt")).to.deep.equal({
+            data: createData(3, 7),
+            storedAt: 1000,
+            expiresAt: 2000,
+            etag: '"abc"'
+        });
+        expect(await otherStorage.get("https://example.com/tiles/1/0/1.mvt")).to.be.undefined;
+        expect(await otherStorage.list()).to.deep.equal([
+            { key: "https://example.com/tiles/1/0/0.mvt", size: 3, storedAt: 1000 }
+        ]);
+    });
+
+    it("deletes entries", async function() {
+        const storage = new FileTileCacheStorage(directory);
+        await storage.put("a", { data: createData(1), storedAt: 0 });
+        await storage.put("b", { data: createData(1), storedAt: 0 });
+
+        await storage.delete("a");
+        await storage.delete("c");
+        expect(await storage.get("a")).to.be.undefined;
+        expect((await storage.list()).map(info => info.key)).to.deep.equal(["b"]);
+
+        await storage.clear();
+        expect(await storage.list()).to.be.empty;
+        expect(fs.readdirSync(directory)).to.be.empty;
+    });
+
+    it("is used as storage of a tile cache", async function() {
+        const storage = new FileTileCacheStorage(directory);
+        const cache = new TileCache({ storage, maxSize: 10 });
+        await cache.put("a", createData(6));
+        await cache.put("b", createData(6));
+
+        expect(await new TileCache({ storage }).getSize()).to.equal(6);
+        expect(await storage.get("a")).to.be.undefined;
+    });
+});
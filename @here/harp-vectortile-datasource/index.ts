@@ -17,4 +17,9 @@ export * from "./lib/VectorTileDataSource";
 export * from "./lib/OmvDecoderDefs";
 export * from "./lib/OmvDebugLabelsTile";
 export * from "./lib/OmvRestClient";
+export * from "./lib/TileJson";
 export * from "./lib/GeoJsonDataProvider";
+export * from "./lib/FlatGeobufDataProvider";
+export * from "./lib/ColumnarDataProvider";
+export * from "./lib/adapters/flatgeobuf/FlatGeobuf";
+export * from "./lib/adapters/columnar/ColumnarFeatures";
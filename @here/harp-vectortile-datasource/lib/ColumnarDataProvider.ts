@@ -0,0 +1,178 @@
+/*
+ * Copyright (C) 2017-2020 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { GeoBox, GeoCoordinates, TileKey, webMercatorTilingScheme } from "@here/harp-geoutils";
+import { TileSourceMetadata } from "@here/harp-mapview";
+import { DataProvider } from "@here/harp-mapview-decoder";
+import { ITransferManager, TransferManager } from "@here/harp-transfer-manager";
+
+import {
+    ColumnarChunkInfo,
+    ColumnarFooter,
+    getColumnarFooterByteLength,
+    readColumnarFooter
+} from "./adapters/columnar/ColumnarFeatures";
+import { RangeReader } from "./RangeReader";
+
+/**
+ * The number of bytes read at first from the end of the file, which usually contain the complete
+ * footer.
+ */
+const FOOTER_READ_LENGTH = 16 * 1024;
+
+export interface ColumnarDataProviderOptions {
+    /**
+     * URL of a file in the columnar feature format, see
+     * {@link @here/harp-vectortile-datasource#encodeColumnarFeatures}. The server must support
+     * HTTP range requests to read only the chunks of the requested tiles.
+     */
+    url: string;
+
+    /**
+     * Transfer Manager to use; uses the default instance if none passed.
+     */
+    downloadManager?: ITransferManager;
+}
+
+/**
+ * {@link @here/harp-mapview-decoder@DataProvider} reading the features of tiles from a file in
+ * the columnar feature format.
+ *
+ * @remarks
+ * The footer of the file is read first, then only the chunks intersecting each tile are read with
+ * HTTP range requests, so large static datasets can be rendered without a tile server.
+ *
+ * The tiles are decoded by the `ColumnarDataAdapter` of the `VectorTileDecoder`.
+ */
+export class ColumnarDataProvider extends DataProvider {
+    private readonly m_reader: RangeReader;
+    private m_footer?: ColumnarFooter;
+    private m_metadata?: TileSourceMetadata;
+
+    /**
+     * Constructs a new `ColumnarDataProvider`.
+     *
+     * @param options - The options of the provider.
+     */
+    constructor(readonly options: ColumnarDataProviderOptions) {
+        super();
+        this.m_reader = new RangeReader(
+            options.url,
+            options.downloadManager ?? TransferManager.instance()
+        );
+    }
+
+    /**
+     * The footer describing the chunks of the file, `undefined` until it's loaded.
+     */
+    get footer(): ColumnarFooter | undefined {
+        return this.m_footer;
+    }
+
+    /**
+     * Overriding abstract method, reading the footer of the file.
+     */
+    async connect(): Promise<void> {
+        let tail = await this.m_reader.readTail(FOOTER_READ_LENGTH);
+        const byteLength = getColumnarFooterByteLength(tail);
+        if (byteLength > tail.byteLength) {
+            tail = await this.m_reader.readTail(byteLength);
+        }
+        const footer = readColumnarFooter(tail);
+        this.m_footer = footer;
+
+        const bbox = footer.bbox;
+        if (bbox !== undefined) {
+            this.m_metadata = {
+                bounds: GeoBox.fromCoordinates(
+                    new GeoCoordinates(bbox[1], bbox[0]),
+                    new GeoCoordinates(bbox[3], bbox[2])
+                )
+            };
+        }
+    }
+
+    /**
+     * Overriding abstract method, returning `true` once the footer is loaded.
+     */
+    ready(): boolean {
+        return this.m_footer !== undefined;
+    }
+
+    /**
+     * Gets the bounds of the features.
+     *
+     * @override
+     */
+    getMetadata(): TileSourceMetadata | undefined {
+        return this.m_metadata;
+    }
+
+    /**
+     * Reads the chunks intersecting a tile.
+     *
+     * @param tileKey - The tile key of the tile.
+     * @param abortSignal - Optional signal to cancel the requests.
+     * @returns The consecutive chunks, or an empty object if no chunk intersects the tile.
+     */
+    async getTile(tileKey: TileKey, abortSignal?: AbortSignal): Promise<ArrayBuffer | {}> {
+        if (this.m_footer === undefined) {
+            throw new Error("ColumnarDataProvider is not connected");
+        }
+        const geoBox = webMercatorTilingScheme.getGeoBox(tileKey);
+        const chunks = this.m_footer.chunks.filter(
+            ({ bbox }) =>
+                bbox[2] >= geoBox.west &&
+                bbox[0] <= geoBox.east &&
+                bbox[3] >= geoBox.south &&
+                bbox[1] <= geoBox.north
+        );
+        if (chunks.length === 0) {
+            return {};
+        }
+
+        // Adjacent chunks are read with a single request.
+        const ranges: ColumnarChunkInfo[][] = [];
+        for (const chunk of chunks) {
+            const range = ranges[ranges.length - 1];
+            const last = range?.[range.length - 1];
+            if (last !== undefined && last.offset + last.byteLength === chunk.offset) {
+                range.push(chunk);
+            } else {
+                ranges.push([chunk]);
+            }
+        }
+        const buffers = await Promise.all(
+            ranges.map(range => {
+                const last = range[range.length - 1];
+                return this.m_reader.read(
+                    range[0].offset,
+                    last.offset + last.byteLength,
+                    abortSignal
+                );
+            })
+        );
+        if (buffers.length === 1) {
+            return buffers[0];
+        }
+
+        const byteLength = buffers.reduce((sum, buffer) => sum + buffer.byteLength, 0);
+        const result = new Uint8Array(byteLength);
+        let offset = 0;
+        for (const buffer of buffers) {
+            result.set(new Uint8Array(buffer), offset);
+            offset += buffer.byteLength;
+        }
+        return result.buffer;
+    }
+
+    /**
+     * Destroys this `ColumnarDataProvider`.
+     */
+    dispose() {
+        // Nothing to release.
+    }
+}
@@ -68,12 +68,14 @@ export class DecodeInfo {
      * @param targetProjection - The [[Projection]]
      * @param tileKey - The [[TileKey]] of the Tile to decode.
      * @param storageLevelOffset - The storage level offset.
+     * @param time - The time of the tile data in milliseconds since the Unix epoch, if any.
      */
     constructor(
         readonly adapterId: string,
         readonly targetProjection: Projection,
         readonly tileKey: TileKey,
-        readonly storageLevelOffset: number = 0
+        readonly storageLevelOffset: number = 0,
+        readonly time?: number
     ) {
         this.geoBox = this.tilingScheme.getGeoBox(tileKey);
         this.targetProjection.projectBox(this.geoBox, this.projectedBoundingBox);
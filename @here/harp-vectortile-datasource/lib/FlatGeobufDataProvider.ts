@@ -0,0 +1,358 @@
+/*
+ * Copyright (C) 2017-2020 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { GeoBox, GeoCoordinates, TileKey, webMercatorTilingScheme } from "@here/harp-geoutils";
+import { TileSourceMetadata } from "@here/harp-mapview";
+import { DataProvider } from "@here/harp-mapview-decoder";
+import { ITransferManager, TransferManager } from "@here/harp-transfer-manager";
+
+import {
+    FLATGEOBUF_NODE_ITEM_LENGTH,
+    FlatGeobufHeader,
+    FlatGeobufNode,
+    FlatGeobufTile,
+    getFlatGeobufHeaderByteLength,
+    getFlatGeobufLevelBounds,
+    readFlatGeobufHeader,
+    readFlatGeobufNodes
+} from "./adapters/flatgeobuf/FlatGeobuf";
+import { RangeReader } from "./RangeReader";
+
+/**
+ * The number of bytes read at first, which usually contain the complete header.
+ */
+const HEADER_READ_LENGTH = 16 * 1024;
+
+export interface FlatGeobufDataProviderOptions {
+    /**
+     * URL of the FlatGeobuf file, the server must support HTTP range requests to read only the
+     * features of the requested tiles.
+     */
+    url: string;
+
+    /**
+     * The name of the layer of the features in the styles.
+     * @default The name of the dataset, or `"flatgeobuf"` if it has none.
+     */
+    layer?: string;
+
+    /**
+     * Maximum number of unused bytes between features read with a single request.
+     * @default `64 * 1024`
+     */
+    maxRangeGap?: number;
+
+    /**
+     * Transfer Manager to use; uses the default instance if none passed.
+     */
+    downloadManager?: ITransferManager;
+}
+
+/**
+ * A feature of a tile found in the index.
+ */
+interface IndexMatch {
+    /**
+     * The byte offset of the feature relative to the first feature.
+     */
+    offset: number;
+
+    /**
+     * The byte offset of the next feature, `undefined` for the last feature of the file.
+     */
+    end?: number;
+
+    /**
+     * The index of the feature in the file.
+     */
+    index: number;
+}
+
+/**
+ * {@link @here/harp-mapview-decoder@DataProvider} reading the features of tiles from a
+ * FlatGeobuf file.
+ *
+ * @remarks
+ * The packed Hilbert R-tree index of the file is searched with the bounding box of each tile and
+ * only the matching features are read with HTTP range requests, so large static datasets can be
+ * rendered without a tile server. Files without an index are read completely. The coordinates
+ * must be longitudes and latitudes in WGS 84.
+ *
+ * The tiles are decoded by the `FlatGeobufDataAdapter` of the `VectorTileDecoder`.
+ */
+export class FlatGeobufDataProvider extends DataProvider {
+    private readonly m_reader: RangeReader;
+    private readonly m_maxRangeGap: number;
+    private readonly m_nodeCache = new Map<number, FlatGeobufNode[]>();
+    private m_header?: FlatGeobufHeader;
+    private m_headerBuffer?: ArrayBuffer;
+    private m_levelBounds: Array<[number, number]> = [];
+    private m_features?: Promise<ArrayBuffer>;
+    private m_metadata?: TileSourceMetadata;
+
+    /**
+     * Constructs a new `FlatGeobufDataProvider`.
+     *
+     * @param options - The options of the provider.
+     */
+    constructor(readonly options: FlatGeobufDataProviderOptions) {
+        super();
+        this.m_reader = new RangeReader(
+            options.url,
+            options.downloadManager ?? TransferManager.instance()
+        );
+        this.m_maxRangeGap = options.maxRangeGap ?? 64 * 1024;
+    }
+
+    /**
+     * The header of the FlatGeobuf file, `undefined` until it's loaded.
+     */
+    get header(): FlatGeobufHeader | undefined {
+        return this.m_header;
+    }
+
+    /**
+     * Overriding abstract method, reading the header of the file.
+     */
+    async connect(): Promise<void> {
+        let buffer = await this.m_reader.read(0, HEADER_READ_LENGTH);
+        let header = readFlatGeobufHeader(buffer);
+        const byteLength = getFlatGeobufHeaderByteLength(buffer);
+        if (header === undefined && byteLength !== undefined) {
+            buffer = await this.m_reader.read(0, byteLength);
+            header = readFlatGeobufHeader(buffer);
+        }
+        if (header === undefined) {
+            throw new Error(`Incomplete FlatGeobuf header in ${this.options.url}`);
+        }
+
+        this.m_headerBuffer = buffer.slice(0, header.byteLength);
+        this.m_header = header;
+        if (header.indexNodeSize > 0) {
+            this.m_levelBounds = getFlatGeobufLevelBounds(
+                header.featuresCount,
+                header.indexNodeSize
+            );
+        }
+        const envelope = header.envelope;
+        if (envelope !== undefined && envelope.length >= 4) {
+            this.m_metadata = {
+                bounds: GeoBox.fromCoordinates(
+                    new GeoCoordinates(envelope[1], envelope[0]),
+                    new GeoCoordinates(envelope[3], envelope[2])
+                )
+            };
+        }
+    }
+
+    /**
+     * Overriding abstract method, returning `true` once the header is loaded.
+     */
+    ready(): boolean {
+        return this.m_header !== undefined;
+    }
+
+    /**
+     * Gets the bounds of the features if the header contains them.
+     *
+     * @override
+     */
+    getMetadata(): TileSourceMetadata | undefined {
+        return this.m_metadata;
+    }
+
+    /**
+     * Reads the features of a tile.
+     *
+     * @param tileKey - The tile key of the tile.
+     * @param abortSignal - Optional signal to cancel the requests.
+     * @returns A [[FlatGeobufTile]], or an empty object if no feature is in the tile.
+     */
+    async getTile(tileKey: TileKey, abortSignal?: AbortSignal): Promise<FlatGeobufTile | {}> {
+        const header = this.m_header;
+        if (header === undefined || this.m_headerBuffer === undefined) {
+            throw new Error("FlatGeobufDataProvider is not connected");
+        }
+        const featuresOffset = header.byteLength + header.indexByteLength;
+
+        if (header.indexNodeSize === 0) {
+            // Without an index, all features are decoded for every tile.
+            if (this.m_features === undefined) {
+                this.m_features = this.m_reader.read(featuresOffset);
+                this.m_features.catch(() => (this.m_features = undefined));
+            }
+            return {
+                header: this.m_headerBuffer,
+                features: await this.m_features,
+                layer: this.options.layer
+            };
+        }
+
+        const matches = await this.search(webMercatorTilingScheme.getGeoBox(tileKey), abortSignal);
+        if (matches.length === 0) {
+            return {};
+        }
+
+        // Read close features with a single request.
+        matches.sort((a, b) => a.offset - b.offset);
+        const ranges: Array<{ start: number; end?: number; matches: IndexMatch[] }> = [];
+        for (const match of matches) {
+            const range = ranges[ranges.length - 1];
+            if (
+                range !== undefined &&
+                range.end !== undefined &&
+                match.offset - range.end <= this.m_maxRangeGap
+            ) {
+                range.end = match.end;
+                range.matches.push(match);
+            } else {
+                ranges.push({ start: match.offset, end: match.end, matches: [match] });
+            }
+        }
+        const buffers = await Promise.all(
+            ranges.map(range =>
+                this.m_reader.read(
+                    featuresOffset + range.start,
+                    range.end === undefined ? undefined : featuresOffset + range.end,
+                    abortSignal
+                )
+            )
+        );
+
+        const features: Uint8Array[] = [];
+        const ids: number[] = [];
+        let byteLength = 0;
+        ranges.forEach((range, rangeIndex) => {
+            const buffer = buffers[rangeIndex];
+            const view = new DataView(buffer);
+            for (const match of range.matches) {
+                const start = match.offset - range.start;
+                const length = 4 + view.getUint32(start, true);
+                features.push(new Uint8Array(buffer, start, length));
+                ids.push(match.index);
+                byteLength += length;
+            }
+        });
+        const tileFeatures = new Uint8Array(byteLength);
+        let offset = 0;
+        for (const feature of features) {
+            tileFeatures.set(feature, offset);
+            offset += feature.byteLength;
+        }
+
+        return {
+            header: this.m_headerBuffer,
+            features: tileFeatures.buffer,
+            ids,
+            layer: this.options.layer
+        };
+    }
+
+    /**
+     * Clears the cached nodes of the index.
+     */
+    dispose() {
+        this.m_nodeCache.clear();
+        this.m_features = undefined;
+    }
+
+    /**
+     * Searches the features intersecting a bounding box in the index, reading only the needed
+     * nodes level by level.
+     */
+    private async search(geoBox: GeoBox, abortSignal?: AbortSignal): Promise<IndexMatch[]> {
+        const nodeSize = this.m_header!.indexNodeSize;
+        const levelBounds = this.m_levelBounds;
+        const matches: IndexMatch[] = [];
+        let blockStarts = [0];
+
+        for (let level = levelBounds.length - 1; level >= 0 && blockStarts.length > 0; level--) {
+            const [levelStart, levelEnd] = levelBounds[level];
+            const isLeaf = level === 0;
+            const blocks = await this.readNodeBlocks(blockStarts, levelEnd, isLeaf, abortSignal);
+            blockStarts = [];
+            for (const [blockStart, nodes] of blocks) {
+                const count = Math.min(nodeSize, levelEnd - blockStart);
+                for (let i = 0; i < count; i++) {
+                    const node = nodes[i];
+                    if (
+                        node.maxX < geoBox.west ||
+                        node.minX > geoBox.east ||
+                        node.maxY < geoBox.south ||
+                        node.minY > geoBox.north
+                    ) {
+                        continue;
+                    }
+                    if (isLeaf) {
+                        matches.push({
+                            offset: node.offset,
+                            end: nodes[i + 1]?.offset,
+                            index: blockStart + i - levelStart
+                        });
+                    } else {
+                        blockStarts.push(node.offset);
+                    }
+                }
+            }
+        }
+        return matches;
+    }
+
+    /**
+     * Reads blocks of sibling nodes, merging adjacent blocks into single requests.
+     *
+     * @remarks
+     * Blocks of leaves are read with the following leaf to know where the last feature ends. Only
+     * the blocks above the leaves are cached.
+     */
+    private async readNodeBlocks(
+        blockStarts: number[],
+        levelEnd: number,
+        isLeaf: boolean,
+        abortSignal?: AbortSignal
+    ): Promise<Map<number, FlatGeobufNode[]>> {
+        const header = this.m_header!;
+        const blockLength = header.indexNodeSize + (isLeaf ? 1 : 0);
+        const blocks = new Map<number, FlatGeobufNode[]>();
+        const ranges: Array<{ start: number; end: number; blockStarts: number[] }> = [];
+
+        for (const blockStart of blockStarts.sort((a, b) => a - b)) {
+            const cachedBlock = this.m_nodeCache.get(blockStart);
+            if (cachedBlock !== undefined) {
+                blocks.set(blockStart, cachedBlock);
+                continue;
+            }
+            const end = Math.min(blockStart + blockLength, levelEnd);
+            const range = ranges[ranges.length - 1];
+            if (range !== undefined && blockStart <= range.end) {
+                range.end = Math.max(range.end, end);
+                range.blockStarts.push(blockStart);
+            } else {
+                ranges.push({ start: blockStart, end, blockStarts: [blockStart] });
+            }
+        }
+
+        await Promise.all(
+            ranges.map(async range => {
+                const buffer = await this.m_reader.read(
+                    header.byteLength + range.start * FLATGEOBUF_NODE_ITEM_LENGTH,
+                    header.byteLength + range.end * FLATGEOBUF_NODE_ITEM_LENGTH,
+                    abortSignal
+                );
+                const nodes = readFlatGeobufNodes(buffer);
+                for (const blockStart of range.blockStarts) {
+                    const start = blockStart - range.start;
+                    const block = nodes.slice(start, start + blockLength);
+                    blocks.set(blockStart, block);
+                    if (!isLeaf) {
+                        this.m_nodeCache.set(blockStart, block);
+                    }
+                }
+            })
+        );
+        return blocks;
+    }
+}
@@ -6,11 +6,20 @@
 
 import "@here/harp-fetch";
 
-import { GeoJson, ITiler, WorkerServiceProtocol } from "@here/harp-datasource-protocol";
+import {
+    ClusteringOptions,
+    Feature,
+    GeoJson,
+    ITiler,
+    TilerFeatureChanges,
+    TilerIndexOptions,
+    WorkerServiceProtocol
+} from "@here/harp-datasource-protocol";
 import { TileKey } from "@here/harp-geoutils";
 import { ConcurrentTilerFacade } from "@here/harp-mapview";
 import { DataProvider } from "@here/harp-mapview-decoder";
 import { LoggerManager } from "@here/harp-utils";
+import * as THREE from "three";
 
 import { GEOJSON_TILER_SERVICE_TYPE } from "./OmvDecoderDefs";
 
@@ -18,7 +27,8 @@ const logger = LoggerManager.instance.create("GeoJsonDataProvider");
 
 const INVALIDATED = "invalidated";
 
-export interface GeoJsonDataProviderOptions {
+export interface GeoJsonDataProviderOptions
+    extends Pick<TilerIndexOptions, "tolerance" | "extent" | "buffer" | "indexMaxZoom"> {
     /**
      * Worker script hosting `Tiler` service.
      * @default `./decoder.bundle.ts`
@@ -33,6 +43,16 @@ export interface GeoJsonDataProviderOptions {
      * from `ConcurrentTilerFacade`.
      */
     tiler?: ITiler;
+
+    /**
+     * Clusters the `Point` and `MultiPoint` features of GeoJSON feature collections per tile
+     * level if defined.
+     *
+     * @remarks
+     * Clusters are point features with `cluster`, `cluster_id` and `point_count` properties,
+     * see {@link @here/harp-datasource-protocol#ClusteringOptions}.
+     */
+    clustering?: ClusteringOptions;
 }
 
 let missingTilerServiceInfoEmitted: boolean = false;
@@ -45,6 +65,7 @@ let missingTilerServiceInfoEmitted: boolean = false;
  */
 export class GeoJsonDataProvider extends DataProvider {
     private readonly m_tiler: ITiler;
+    private readonly m_indexOptions: TilerIndexOptions;
     private m_registered = false;
 
     /**
@@ -68,6 +89,13 @@ export class GeoJsonDataProvider extends DataProvider {
                 GEOJSON_TILER_SERVICE_TYPE,
                 options && options.workerTilerUrl
             );
+        this.m_indexOptions = {
+            clustering: options?.clustering,
+            tolerance: options?.tolerance,
+            extent: options?.extent,
+            buffer: options?.buffer,
+            indexMaxZoom: options?.indexMaxZoom
+        };
     }
 
     async connect(): Promise<void> {
@@ -87,16 +115,33 @@ export class GeoJsonDataProvider extends DataProvider {
             throw error;
         }
 
-        await this.m_tiler.registerIndex(this.name, this.input);
+        await this.m_tiler.registerIndex(this.name, this.input, this.m_indexOptions);
         this.m_registered = true;
     }
 
     updateInput(input: URL | GeoJson) {
         this.input = input;
-        this.m_tiler.updateIndex(this.name, this.input);
+        this.m_tiler.updateIndex(this.name, this.input, this.m_indexOptions);
         this.dispatchEvent({ type: INVALIDATED });
     }
 
+    /**
+     * Adds, updates and removes features of a GeoJSON feature collection by id, tiling again only
+     * the changed features.
+     *
+     * @remarks
+     * Unlike {@link GeoJsonDataProvider.updateInput}, only the tiles containing changes are
+     * invalidated. {@link GeoJsonDataProvider.input} is not modified.
+     *
+     * @param changes - The feature changes.
+     * @returns The keys of the tiles containing changes.
+     */
+    async updateFeatures(changes: TilerFeatureChanges): Promise<TileKey[]> {
+        const tileKeys = await this.m_tiler.updateFeatures(this.name, changes);
+        this.dispatchEvent({ type: INVALIDATED, tileKeys });
+        return tileKeys;
+    }
+
     ready(): boolean {
         return this.m_registered;
     }
@@ -105,9 +150,31 @@ export class GeoJsonDataProvider extends DataProvider {
         return await this.m_tiler.getTile(this.name, tileKey);
     }
 
-    onDidInvalidate(listener: () => void) {
-        this.addEventListener(INVALIDATED, listener);
-        return () => this.removeEventListener(INVALIDATED, listener);
+    /**
+     * Gets the points and clusters a cluster consists of at the next level, if
+     * {@link GeoJsonDataProviderOptions.clustering} is enabled.
+     *
+     * @param clusterId - The `cluster_id` of the cluster.
+     * @returns The children as GeoJSON features.
+     */
+    async getClusterChildren(clusterId: number): Promise<Feature[]> {
+        return await this.m_tiler.getClusterChildren(this.name, clusterId);
+    }
+
+    /**
+     * Gets the tile level at which a cluster splits into its children, if
+     * {@link GeoJsonDataProviderOptions.clustering} is enabled.
+     *
+     * @param clusterId - The `cluster_id` of the cluster.
+     */
+    async getClusterExpansionZoom(clusterId: number): Promise<number> {
+        return await this.m_tiler.getClusterExpansionZoom(this.name, clusterId);
+    }
+
+    onDidInvalidate(listener: (tileKeys?: TileKey[]) => void) {
+        const eventListener = (event: THREE.Event) => listener(event.tileKeys);
+        this.addEventListener(INVALIDATED, eventListener);
+        return () => this.removeEventListener(INVALIDATED, eventListener);
     }
 
     /**
@@ -7,10 +7,13 @@
 import "@here/harp-fetch";
 
 import { TileKey, TilingScheme } from "@here/harp-geoutils";
+import { TileSourceMetadata } from "@here/harp-mapview";
 import { DataProvider } from "@here/harp-mapview-decoder";
 import { ITransferManager, TransferManager } from "@here/harp-transfer-manager";
 import { LoggerManager } from "@here/harp-utils";
 
+import { getTileJsonMetadata, isTileJson, TileJson } from "./TileJson";
+
 const logger = LoggerManager.instance.create("OmvRestClient");
 
 interface QueryParameters {
@@ -195,6 +198,8 @@ export interface OmvRestClientParameters {
      *            see {@link @here/harp-geoutils#TileKey.column}
      *  - `{y}` - vertical coordinate of Tile (row number),
      *            see {@link @here/harp-geoutils#TileKey.row}
+     *  - `{time}` - time of the tile data formatted with [[formatTime]], for data sources with a
+     *            time dimension, see {@link @here/harp-mapview#DataSource.time}
      *
      * Examples of `url` patterns:
      * ```
@@ -225,6 +230,26 @@ export interface OmvRestClientParameters {
      */
     url?: string;
 
+    /**
+     * URL of a TileJSON document, or the document itself, describing the tiles.
+     *
+     * @remarks
+     * The tile URL templates, zoom range, bounds and attribution are taken from the TileJSON, so
+     * [[url]], [[baseUrl]] and [[apiFormat]] are not needed. The [[authenticationCode]] and
+     * [[urlParams]] are applied to the TileJSON request as well as to the tile requests.
+     *
+     * See https://github.com/mapbox/tilejson-spec for the format.
+     *
+     * Example:
+     * ```
+     * {
+     *     tileJson: "https://api.maptiler.com/tiles/v3/tiles.json",
+     *     urlParams: { key: apiKey }
+     * }
+     * ```
+     */
+    tileJson?: string | TileJson;
+
     /**
      * The base URL of the REST Tile Service.
      * @see [[APIFormat]] for the definition of `baseUrl`.
@@ -278,6 +303,15 @@ export interface OmvRestClientParameters {
      * It is empty by default.
      */
     urlParams?: { [key: string]: string };
+
+    /**
+     * Formats the time replacing the `{time}` placeholder of the [[url]] or of the TileJSON tile
+     * URLs.
+     *
+     * @param time - Time in milliseconds since the Unix epoch.
+     * @default ISO 8601 format, e.g. `2020-06-01T12:00:00.000Z`.
+     */
+    formatTime?: (time: number) => string;
 }
 
 /**
@@ -286,6 +320,8 @@ export interface OmvRestClientParameters {
 export class OmvRestClient extends DataProvider {
     private readonly downloadManager: ITransferManager;
     private readonly urlParams: { [key: string]: string };
+    private m_tileJson?: TileJson;
+    private m_metadata?: TileSourceMetadata;
 
     constructor(readonly params: OmvRestClientParameters) {
         super();
@@ -296,14 +332,45 @@ export class OmvRestClient extends DataProvider {
         this.urlParams = params.urlParams === undefined ? {} : params.urlParams;
     }
 
-    /** Overriding abstract method, in this case doing nothing. */
+    /**
+     * The TileJSON describing the tiles, `undefined` if no [[OmvRestClientParameters.tileJson]]
+     * is configured or it's not loaded yet.
+     */
+    get tileJson(): TileJson | undefined {
+        return this.m_tileJson;
+    }
+
+    /**
+     * Overriding abstract method, loading the TileJSON if configured.
+     */
     async connect(): Promise<void> {
-        // not needed
+        const { tileJson } = this.params;
+        if (tileJson === undefined) {
+            return;
+        }
+        const result =
+            typeof tileJson === "string" ? await this.downloadTileJson(tileJson) : tileJson;
+        if (!isTileJson(result)) {
+            throw new Error("OmvRestClient: TileJSON does not contain any tile URL");
+        }
+        this.m_tileJson = result;
+        this.m_metadata = getTileJsonMetadata(result);
     }
 
-    /** Overriding abstract method, in this case always returning `true`. */
+    /**
+     * Overriding abstract method, returning `true` unless a configured TileJSON is not loaded yet.
+     */
     ready(): boolean {
-        return true;
+        return this.params.tileJson === undefined || this.m_tileJson !== undefined;
+    }
+
+    /**
+     * Gets the zoom range, bounds and copyrights of the TileJSON if configured.
+     *
+     * @override
+     */
+    getMetadata(): TileSourceMetadata | undefined {
+        return this.m_metadata;
     }
 
     /**
@@ -333,15 +400,17 @@ export class OmvRestClient extends DataProvider {
      * @param tileKey - The tile key of the tile.
      * @param tileRequestInit - Optional request options to be passed to fetch when downloading a
      * tile.
+     * @param time - Optional time of the tile data replacing the `{time}` placeholder.
      * @returns A `Promise` of the HTTP response that contains the payload of the requested tile.
      */
     async getTile(
         tileKey: TileKey,
-        abortSignal?: AbortSignal | undefined
+        abortSignal?: AbortSignal | undefined,
+        time?: number
     ): Promise<ArrayBufferLike | {}> {
         const init: RequestInit = { signal: abortSignal };
 
-        let tileUrl = this.dataUrl(tileKey);
+        let tileUrl = this.dataUrl(tileKey, time);
 
         const authenticationCode = await this.getActualAuthenticationCode();
 
@@ -362,6 +431,14 @@ export class OmvRestClient extends DataProvider {
         // to be overloaded by subclasses
     }
 
+    private async downloadTileJson(url: string): Promise<TileJson> {
+        const init: RequestInit = {};
+        const authenticationCode = await this.getActualAuthenticationCode();
+        url = this.applyAuthCode(url, init, authenticationCode);
+        url = this.addQueryParams(url, this.urlParams);
+        return await this.downloadManager.downloadJson<TileJson>(url, init);
+    }
+
     /**
      * Get actual authentication code/token for this request according to configuration.
      */
@@ -439,12 +516,31 @@ export class OmvRestClient extends DataProvider {
     /**
      * Get actual tile URL depending on configured API format.
      */
-    private dataUrl(tileKey: TileKey): string {
+    private dataUrl(tileKey: TileKey, time?: number): string {
+        if (this.m_tileJson !== undefined) {
+            const templates = this.m_tileJson.tiles;
+            // Distribute the requests over the URL templates, e.g. for different subdomains.
+            const template = templates[(tileKey.column + tileKey.row) % templates.length];
+            const row =
+                this.m_tileJson.scheme === "tms"
+                    ? (1 << tileKey.level) - 1 - tileKey.row
+                    : tileKey.row;
+            return this.replaceTime(
+                template
+                    .replace("{x}", String(tileKey.column))
+                    .replace("{y}", String(row))
+                    .replace("{z}", String(tileKey.level)),
+                time
+            );
+        }
         if (this.params.url !== undefined) {
-            return this.params.url
-                .replace("{x}", String(tileKey.column))
-                .replace("{y}", String(tileKey.row))
-                .replace("{z}", String(tileKey.level));
+            return this.replaceTime(
+                this.params.url
+                    .replace("{x}", String(tileKey.column))
+                    .replace("{y}", String(tileKey.row))
+                    .replace("{z}", String(tileKey.level)),
+                time
+            );
         }
         let path = [`/${tileKey.level}`, tileKey.column, tileKey.row].join(
             this.params.apiFormat === APIFormat.XYZSpace ||
@@ -479,6 +575,17 @@ export class OmvRestClient extends DataProvider {
         return this.params.baseUrl + path;
     }
 
+    private replaceTime(url: string, time: number | undefined): string {
+        if (time === undefined) {
+            return url;
+        }
+        const formattedTime =
+            this.params.formatTime !== undefined
+                ? this.params.formatTime(time)
+                : new Date(time).toISOString();
+        return url.replace("{time}", encodeURIComponent(formattedTime));
+    }
+
     private addQueryParams(url: string, queryParams: QueryParameters): string {
         let queryString = "";
         let sep = url.includes("?") ? "&" : "?";
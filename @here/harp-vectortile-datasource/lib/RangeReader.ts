@@ -0,0 +1,81 @@
+/*
+ * Copyright (C) 2017-2020 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import "@here/harp-fetch";
+
+import { ITransferManager } from "@here/harp-transfer-manager";
+
+/**
+ * Reads byte ranges of a remote file with HTTP range requests.
+ *
+ * @remarks
+ * If the server ignores the `Range` header, the complete file is kept and the following ranges
+ * are read from it.
+ *
+ * @internal
+ */
+export class RangeReader {
+    private m_file?: ArrayBuffer;
+
+    /**
+     * Creates a new `RangeReader`.
+     *
+     * @param url - The URL of the file.
+     * @param downloadManager - The transfer manager downloading the ranges.
+     */
+    constructor(readonly url: string, readonly downloadManager: ITransferManager) {}
+
+    /**
+     * Reads a range of the file, the returned buffer is shorter if the file ends before the
+     * range.
+     *
+     * @param start - The offset of the first byte.
+     * @param end - The offset after the last byte, the range extends to the end of the file if
+     * `undefined`.
+     * @param abortSignal - Optional signal to cancel the request.
+     */
+    async read(start: number, end?: number, abortSignal?: AbortSignal): Promise<ArrayBuffer> {
+        if (this.m_file === undefined) {
+            const range = `bytes=${start}-${end === undefined ? "" : end - 1}`;
+            const buffer = await this.download(range, abortSignal);
+            if (this.m_file === undefined) {
+                return buffer;
+            }
+        }
+        return this.m_file.slice(start, end);
+    }
+
+    /**
+     * Reads the end of the file.
+     *
+     * @param length - The number of bytes to read, the complete file is returned if it's shorter.
+     * @param abortSignal - Optional signal to cancel the request.
+     */
+    async readTail(length: number, abortSignal?: AbortSignal): Promise<ArrayBuffer> {
+        if (this.m_file === undefined) {
+            const buffer = await this.download(`bytes=-${length}`, abortSignal);
+            if (this.m_file === undefined) {
+                return buffer;
+            }
+        }
+        return this.m_file.slice(Math.max(0, this.m_file.byteLength - length));
+    }
+
+    private async download(range: string, abortSignal?: AbortSignal): Promise<ArrayBuffer> {
+        const response = await this.downloadManager.download(this.url, {
+            headers: { Range: range },
+            signal: abortSignal
+        });
+        if (!response.ok) {
+            throw new Error(`Cannot read ${this.url}: ${response.status} ${response.statusText}`);
+        }
+        const buffer = await response.arrayBuffer();
+        if (response.status !== 206) {
+            this.m_file = buffer;
+        }
+        return buffer;
+    }
+}
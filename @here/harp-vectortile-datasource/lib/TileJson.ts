@@ -0,0 +1,234 @@
+/*
+ * Copyright (C) 2017-2020 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Expr, isJsonExpr, JsonValue, StyleSet } from "@here/harp-datasource-protocol";
+import { GeoBox, GeoCoordinates } from "@here/harp-geoutils";
+import { CopyrightInfo, TileSourceMetadata } from "@here/harp-mapview";
+import { LoggerManager } from "@here/harp-utils";
+
+const logger = LoggerManager.instance.create("TileJson");
+
+/**
+ * Description of a layer of vector tiles, see {@link TileJson.vector_layers}.
+ */
+export interface TileJsonVectorLayer {
+    /**
+     * The name of the layer in the tiles.
+     */
+    id: string;
+
+    /**
+     * Names and descriptions of the feature attributes of the layer.
+     */
+    fields?: { [name: string]: string };
+
+    /**
+     * Human readable description of the layer.
+     */
+    description?: string;
+
+    /**
+     * The lowest zoom level at which the layer is available.
+     */
+    minzoom?: number;
+
+    /**
+     * The highest zoom level at which the layer is available.
+     */
+    maxzoom?: number;
+}
+
+/**
+ * A tile source description in the TileJSON format.
+ *
+ * @remarks
+ * Only the properties used by the {@link VectorTileDataSource} are listed, see
+ * https://github.com/mapbox/tilejson-spec for the complete format.
+ */
+export interface TileJson {
+    /**
+     * Version of the TileJSON specification.
+     */
+    tilejson?: string;
+
+    /**
+     * Name of the tile source.
+     */
+    name?: string;
+
+    /**
+     * URL templates of the tiles, with `{z}`, `{x}` and `{y}` placeholders. Requests are
+     * distributed over all templates.
+     */
+    tiles: string[];
+
+    /**
+     * Row numbering of the tiles, `"tms"` counts the rows from south to north.
+     * @defaultValue `"xyz"`
+     */
+    scheme?: "xyz" | "tms";
+
+    /**
+     * The lowest zoom level at which tiles are available.
+     */
+    minzoom?: number;
+
+    /**
+     * The highest zoom level at which tiles are available.
+     */
+    maxzoom?: number;
+
+    /**
+     * The extent of the tiles as `[west, south, east, north]` in degrees.
+     */
+    bounds?: [number, number, number, number];
+
+    /**
+     * The attribution to display for the tiles, plain text or HTML.
+     */
+    attribution?: string;
+
+    /**
+     * The layers contained in the vector tiles.
+     */
+    vector_layers?: TileJsonVectorLayer[];
+}
+
+/**
+ * Tests if the given object is a {@link TileJson} description.
+ *
+ * @param object - The object to test.
+ */
+export function isTileJson(object: any): object is TileJson {
+    return (
+        typeof object === "object" &&
+        object !== null &&
+        Array.isArray(object.tiles) &&
+        object.tiles.length > 0 &&
+        object.tiles.every((url: any) => typeof url === "string")
+    );
+}
+
+/**
+ * Converts a {@link TileJson} description to the metadata applied to the data sources.
+ *
+ * @param tileJson - The TileJSON description.
+ * @returns The zoom range, bounds and copyrights of the tiles.
+ */
+export function getTileJsonMetadata(tileJson: TileJson): TileSourceMetadata {
+    const metadata: TileSourceMetadata = {
+        minZoom: tileJson.minzoom,
+        maxZoom: tileJson.maxzoom
+    };
+    const bounds = tileJson.bounds;
+    if (Array.isArray(bounds) && bounds.length === 4 && bounds.every(isFinite)) {
+        const [west, south, east, north] = bounds;
+        // Bounds covering the whole world don't limit any request.
+        if (west > -180 || south > -85 || east < 180 || north < 85) {
+            metadata.bounds = GeoBox.fromCoordinates(
+                new GeoCoordinates(south, west),
+                new GeoCoordinates(north, east)
+            );
+        }
+    } else if (bounds !== undefined) {
+        logger.warn(`Invalid TileJSON bounds: ${JSON.stringify(bounds)}`);
+    }
+    if (tileJson.attribution !== undefined && tileJson.attribution.length > 0) {
+        metadata.copyrightInfo = CopyrightInfo.parseAttribution(tileJson.attribution);
+    }
+    return metadata;
+}
+
+/**
+ * Gets the names of the layers used by a style set which are not in the given vector layers,
+ * e.g. to validate a theme against the {@link TileJson.vector_layers} of a tile source.
+ *
+ * @remarks
+ * The layers are taken from the `layer` property of the styles and from `$layer` comparisons in
+ * their `when` conditions.
+ *
+ * @param styleSet - The style set to validate.
+ * @param vectorLayers - The layers available in the tiles.
+ * @returns The names of the unknown layers, empty if all layers are available.
+ */
+export function getUnknownLayers(
+    styleSet: StyleSet,
+    vectorLayers: TileJsonVectorLayer[]
+): string[] {
+    const availableLayers = new Set(vectorLayers.map(layer => layer.id));
+    const unknownLayers = new Set<string>();
+    const addLayer = (layer: string) => {
+        if (!availableLayers.has(layer)) {
+            unknownLayers.add(layer);
+        }
+    };
+
+    for (const style of styleSet) {
+        if (style.layer !== undefined) {
+            addLayer(style.layer);
+        }
+        let condition: JsonValue | undefined;
+        try {
+            condition =
+                typeof style.when === "string" ? Expr.parse(style.when).toJSON() : style.when;
+        } catch (error) {
+            logger.warn(`Cannot parse condition ${style.when}: ${error}`);
+        }
+        if (condition !== undefined) {
+            collectLayerComparisons(condition, addLayer);
+        }
+    }
+    return Array.from(unknownLayers);
+}
+
+/**
+ * Collects the layer names compared to `$layer`, like in `["==", ["get", "$layer"], "water"]`
+ * or `["in", ["get", "$layer"], ["literal", ["water", "earth"]]]`.
+ */
+function collectLayerComparisons(expr: JsonValue, addLayer: (layer: string) => void) {
+    if (!isJsonExpr(expr) || !Array.isArray(expr)) {
+        return;
+    }
+    const [op, ...args] = expr;
+    if (op === "==" && args.length === 2) {
+        if (isLayerReference(args[0]) && typeof args[1] === "string") {
+            addLayer(args[1]);
+        } else if (isLayerReference(args[1]) && typeof args[0] === "string") {
+            addLayer(args[0]);
+        }
+    } else if (op === "in" && isLayerReference(args[0])) {
+        const list = args[1];
+        if (Array.isArray(list) && list[0] === "literal" && Array.isArray(list[1])) {
+            addLayers(list[1], addLayer);
+        }
+    } else if (op === "match" && isLayerReference(args[0])) {
+        // The labels are followed by their results, the last argument is the fallback.
+        for (let i = 1; i < args.length - 1; i += 2) {
+            addLayers(args[i], addLayer);
+        }
+    }
+    for (const arg of args) {
+        collectLayerComparisons(arg, addLayer);
+    }
+}
+
+function isLayerReference(value: JsonValue): boolean {
+    return (
+        Array.isArray(value) && value.length === 2 && value[0] === "get" && value[1] === "$layer"
+    );
+}
+
+function addLayers(value: JsonValue, addLayer: (layer: string) => void) {
+    if (typeof value === "string") {
+        addLayer(value);
+    } else if (Array.isArray(value)) {
+        for (const item of value) {
+            if (typeof item === "string") {
+                addLayer(item);
+            }
+        }
+    }
+}
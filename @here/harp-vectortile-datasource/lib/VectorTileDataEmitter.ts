@@ -20,6 +20,7 @@ import {
     isExtrudedLineTechnique,
     isExtrudedPolygonTechnique,
     isFillTechnique,
+    isHeatmapTechnique,
     isLabelRejectionLineTechnique,
     isLineMarkerTechnique,
     isLineTechnique,
@@ -56,6 +57,10 @@ import {
     EdgeLengthGeometrySubdivisionModifier,
     SubdivisionMode
 } from "@here/harp-geometry/lib/EdgeLengthGeometrySubdivisionModifier";
+import {
+    computeMedialAxisPath,
+    computePoleOfInaccessibility
+} from "@here/harp-geometry/lib/PolygonLabel";
 import { SphericalGeometrySubdivisionModifier } from "@here/harp-geometry/lib/SphericalGeometrySubdivisionModifier";
 import {
     GeoBox,
@@ -136,6 +141,35 @@ const MAX_CORNER_ANGLE = Math.PI / 8;
  */
 const INVALID_ARRAY_INDEX = -1;
 
+/**
+ * The pole of inaccessibility of polygon labels is computed with a precision of the tile extents
+ * divided by this value.
+ */
+const POLE_OF_INACCESSIBILITY_PRECISION = 512;
+
+function computePathLength(path: THREE.Vector2[]): number {
+    let length = 0;
+    for (let i = 1; i < path.length; ++i) {
+        length += path[i - 1].distanceTo(path[i]);
+    }
+    return length;
+}
+
+/**
+ * Computes the point in the middle of a path, measured along the path.
+ */
+function computePathMiddle(path: THREE.Vector2[]): THREE.Vector2 {
+    let remaining = computePathLength(path) / 2;
+    for (let i = 1; i < path.length; ++i) {
+        const segmentLength = path[i - 1].distanceTo(path[i]);
+        if (segmentLength >= remaining && segmentLength > 0) {
+            return new THREE.Vector2().lerpVectors(path[i - 1], path[i], remaining / segmentLength);
+        }
+        remaining -= segmentLength;
+    }
+    return path[path.length - 1];
+}
+
 function createIndexBufferAttribute(
     elements: ArrayLike<number>,
     maxValue: number,
@@ -183,6 +217,11 @@ class MeshBuffers implements IMeshBuffers {
     readonly stringCatalog: Array<string | undefined> = [];
     readonly imageTextures: number[] = [];
 
+    /**
+     * Optional list of per point weights of heatmaps.
+     */
+    readonly weights: number[] = [];
+
     /**
      * Optional list of feature start indices. The indices point into the index attribute.
      */
@@ -278,17 +317,8 @@ export class VectorTileDataEmitter {
         const env = context.env;
         this.processFeatureCommon(env);
 
-        const { tileKey, columnCount, rowCount } = this.m_decodeInfo;
-
-        // adjust the extents to ensure that points on the right and bottom edges
-        // of the tile are discarded.
-        const xextent = tileKey.column + 1 < columnCount ? extents - 1 : extents;
-        const yextent = tileKey.row + 1 < rowCount ? extents - 1 : extents;
-
         // get the point positions (in tile space) that are inside the tile bounds.
-        const tilePositions = geometry.filter(p => {
-            return p.x >= 0 && p.x <= xextent && p.y >= 0 && p.y <= yextent;
-        });
+        const tilePositions = geometry.filter(p => this.isInsideTile(p, extents));
 
         if (tilePositions.length === 0) {
             // nothing to do, no geometry within the tile bound.
@@ -307,7 +337,14 @@ export class VectorTileDataEmitter {
                 continue;
             }
 
-            const { positions, texts, imageTextures, objInfos, offsetDirections } = meshBuffers;
+            const {
+                positions,
+                texts,
+                imageTextures,
+                objInfos,
+                offsetDirections,
+                weights
+            } = meshBuffers;
 
             const shouldCreateTextGeometries =
                 isTextTechnique(technique) || isPoiTechnique(technique);
@@ -331,6 +368,11 @@ export class VectorTileDataEmitter {
                 }
             }
 
+            let weight: number | undefined;
+            if (isHeatmapTechnique(technique)) {
+                weight = evaluateTechniqueAttr<number>(context, technique.weight, 1);
+            }
+
             const featureId = getFeatureId(env.entries);
             for (const pos of tilePositions) {
                 if (shouldCreateTextGeometries) {
@@ -355,6 +397,10 @@ export class VectorTileDataEmitter {
                 objInfos.push(this.m_gatherFeatureAttributes ? env.entries : featureId);
                 offsetDirections.push((env.lookup("offset_direction") as number) ?? 0);
 
+                if (weight !== undefined) {
+                    weights.push(weight);
+                }
+
                 if (wantsPoi) {
                     if (imageTexture === undefined) {
                         imageTextures.push(INVALID_ARRAY_INDEX);
@@ -784,6 +830,13 @@ export class VectorTileDataEmitter {
                 );
             }
 
+            if (isTextTechnique(technique)) {
+                if (technique.polygonLabelPlacement !== undefined) {
+                    this.processPolygonLabel(layer, extents, geometry, context, technique);
+                }
+                return;
+            }
+
             let objectBounds: THREE.Box3 | undefined;
 
             const bbox = env.lookup("bbox");
@@ -1818,6 +1871,22 @@ export class VectorTileDataEmitter {
                 });
             }
 
+            if (meshBuffers.weights.length > 0) {
+                const weights = new Float32Array(meshBuffers.weights);
+                assert(
+                    weights.length === positionCount,
+                    "length of weights buffer is different than the length of the " +
+                        "position buffer"
+                );
+
+                vertexAttributes.push({
+                    name: "weight",
+                    buffer: weights.buffer as ArrayBuffer,
+                    itemCount: 1,
+                    type: "float"
+                });
+            }
+
             if (meshBuffers.indices.length > 0) {
                 geometry.index = createIndexBufferAttribute(meshBuffers.indices, positionCount - 1);
             }
@@ -1907,6 +1976,102 @@ export class VectorTileDataEmitter {
         return buffers;
     }
 
+    /**
+     * Creates the label of a polygon feature, see [[TextTechnique.polygonLabelPlacement]].
+     *
+     * @remarks
+     * Only the largest polygon of a multi-polygon feature is labeled. The label position is
+     * computed from the polygon clipped to the tile, so polygons crossing tile borders are labeled
+     * in the tiles they cover. Parts of these polygons too narrow for the label, like slivers along
+     * the tile border, are not labeled.
+     */
+    private processPolygonLabel(
+        layer: string,
+        extents: number,
+        geometry: IPolygonGeometry[],
+        context: AttrEvaluationContext,
+        technique: IndexedTechnique & TextTechnique
+    ) {
+        let rings: THREE.Vector2[][] | undefined;
+        let maxArea = 0;
+        for (const polygon of geometry) {
+            const area = polygon.rings.reduce(
+                (sum, ring, i) => sum + (i === 0 ? 1 : -1) * Math.abs(THREE.ShapeUtils.area(ring)),
+                0
+            );
+            if (area > maxArea) {
+                rings = polygon.rings;
+                maxArea = area;
+            }
+        }
+        if (rings === undefined) {
+            return;
+        }
+
+        const text = getFeatureText(context, technique, this.m_languages);
+        if (text === undefined || text.length === 0) {
+            return;
+        }
+        const minEstimatedLabelLength =
+            MIN_AVERAGE_CHAR_WIDTH *
+            text.length *
+            (extents / this.m_decodeInfo.tileSizeOnScreen) *
+            SIZE_ESTIMATION_FACTOR;
+
+        if (technique.polygonLabelPlacement === "medial-axis") {
+            const path = computeMedialAxisPath(rings);
+
+            // Fall back to the pole of inaccessibility if the path is too short for the text.
+            if (path !== undefined && computePathLength(path) >= minEstimatedLabelLength) {
+                if (this.isInsideTile(computePathMiddle(path), extents)) {
+                    const worldPath: number[] = [];
+                    for (const point of path) {
+                        webMercatorTile2TargetWorld(extents, this.m_decodeInfo, point, tmpV3);
+                        worldPath.push(tmpV3.x, tmpV3.y, tmpV3.z);
+                    }
+                    this.m_textPathGeometries.push({
+                        technique: technique._index,
+                        path: worldPath,
+                        pathLengthSqr: Math2D.computeSquaredLineLength(worldPath),
+                        text: String(text),
+                        objInfos: this.m_gatherFeatureAttributes
+                            ? context.env.entries
+                            : getFeatureId(context.env.entries)
+                    });
+                }
+                return;
+            }
+        }
+
+        const pole = computePoleOfInaccessibility(
+            rings,
+            extents / POLE_OF_INACCESSIBILITY_PRECISION
+        );
+        const isClipped = rings[0].some(
+            point => point.x <= 0 || point.x >= extents || point.y <= 0 || point.y >= extents
+        );
+        if (isClipped && 2 * pole.distance < minEstimatedLabelLength) {
+            return;
+        }
+        this.processPointFeature(layer, extents, [pole.point], context, [technique]);
+    }
+
+    /**
+     * Checks if a point in tile space is inside the tile bounds.
+     *
+     * @remarks
+     * Points on the right and bottom edges of the tile are discarded, unless the tile is at the
+     * border of the world, so points on tile borders are emitted only once.
+     */
+    private isInsideTile(point: THREE.Vector2, extents: number): boolean {
+        const { tileKey, columnCount, rowCount } = this.m_decodeInfo;
+
+        const xextent = tileKey.column + 1 < columnCount ? extents - 1 : extents;
+        const yextent = tileKey.row + 1 < rowCount ? extents - 1 : extents;
+
+        return point.x >= 0 && point.x <= xextent && point.y >= 0 && point.y <= yextent;
+    }
+
     private processFeatureCommon(env: Env) {
         const source = env.lookup("source");
         if (typeof source === "string" && source !== "") {
@@ -9,6 +9,7 @@ import {
     ITileDecoder,
     OptionsMap,
     StyleSet,
+    Theme,
     WorkerServiceProtocol
 } from "@here/harp-datasource-protocol";
 import { EarthConstants, TileKey, webMercatorTilingScheme } from "@here/harp-geoutils";
@@ -33,6 +34,7 @@ import {
     OmvRestClient,
     OmvRestClientParameters
 } from "./OmvRestClient";
+import { getUnknownLayers, TileJsonVectorLayer } from "./TileJson";
 
 const logger = LoggerManager.instance.create("VectorTileDataSource");
 
@@ -182,11 +184,12 @@ function getDataProvider(params: OmvWithRestClientParams | OmvWithCustomDataProv
         return (params as OmvWithCustomDataProvider).dataProvider;
     } else if (
         (params as OmvWithRestClientParams).baseUrl ??
-        (params as OmvWithRestClientParams).url
+        (params as OmvWithRestClientParams).url ??
+        (params as OmvWithRestClientParams).tileJson
     ) {
         return new OmvRestClient(params as OmvRestClientParameters);
     } else {
-        throw new Error("OmvDataSource: missing url, baseUrl or dataProvider params");
+        throw new Error("OmvDataSource: missing url, baseUrl, tileJson or dataProvider params");
     }
 }
 
@@ -246,7 +249,11 @@ function hasCustomDataProvider(
 function completeDataSourceParameters(
     params: OmvWithRestClientParams | OmvWithCustomDataProvider
 ): TileDataSourceOptions {
-    if (!hasCustomDataProvider(params) && params.url === undefined) {
+    if (
+        !hasCustomDataProvider(params) &&
+        params.url === undefined &&
+        params.tileJson === undefined
+    ) {
         const baseUrl = params.baseUrl ?? hereVectorTileBaseUrl;
 
         const completedParams = {
@@ -279,6 +286,13 @@ function completeDataSourceParameters(
  *    });
  *    mapView.addDataSource(dataSource);
  *   ```
+ *
+ * The data source can also be configured from a TileJSON description of the tiles:
+ * ```typescript
+ *    const dataSource = new VectorTileDataSource({
+ *        tileJson: "https://example.com/tiles.json"
+ *    });
+ *   ```
  */
 export class VectorTileDataSource extends TileDataSource {
     private readonly m_decoderOptions: OmvDecoderOptions;
@@ -377,6 +391,51 @@ export class VectorTileDataSource extends TileDataSource {
         });
     }
 
+    /**
+     * The layers of the vector tiles, as described by the TileJSON the data source is configured
+     * with. `undefined` if there's no TileJSON or the data source is not connected yet.
+     */
+    get vectorLayers(): TileJsonVectorLayer[] | undefined {
+        const dataProvider = this.dataProvider();
+        return dataProvider instanceof OmvRestClient
+            ? dataProvider.tileJson?.vector_layers
+            : undefined;
+    }
+
+    /**
+     * Gets the layers used by the style set of this data source in a theme, which are not
+     * contained in the vector tiles.
+     *
+     * @param theme - The theme to validate.
+     * @returns The names of the unknown layers, empty if all layers are available or the layers
+     * of the tiles are not known, see {@link VectorTileDataSource.vectorLayers}.
+     */
+    getUnknownThemeLayers(theme: Theme): string[] {
+        const vectorLayers = this.vectorLayers;
+        const styleSet =
+            this.styleSetName !== undefined ? theme.styles?.[this.styleSetName] : undefined;
+        if (vectorLayers === undefined || styleSet === undefined) {
+            return [];
+        }
+        return getUnknownLayers(styleSet, vectorLayers);
+    }
+
+    /**
+     * Applies the theme, warning about the layers the theme uses which are not in the tiles.
+     *
+     * @override
+     */
+    setTheme(theme: Theme, languages?: string[]): void {
+        super.setTheme(theme, languages);
+        const unknownLayers = this.getUnknownThemeLayers(theme);
+        if (unknownLayers.length > 0) {
+            logger.warn(
+                `Layers used by the theme are not in the tiles of ${this.name}: ` +
+                    unknownLayers.join(", ")
+            );
+        }
+    }
+
     /** @override */
     shouldPreloadTiles(): boolean {
         return true;
@@ -23,6 +23,8 @@ import {
 import { assert, LoggerManager, PerformanceTimer } from "@here/harp-utils";
 import * as THREE from "three";
 
+import { ColumnarDataAdapter } from "./adapters/columnar/ColumnarDataAdapter";
+import { FlatGeobufDataAdapter } from "./adapters/flatgeobuf/FlatGeobufDataAdapter";
 import { GeoJsonVtDataAdapter } from "./adapters/geojson-vt/GeoJsonVtDataAdapter";
 import { GeoJsonDataAdapter } from "./adapters/geojson/GeoJsonDataAdapter";
 import { OmvDataAdapter } from "./adapters/omv/OmvDataAdapter";
@@ -72,7 +74,11 @@ export class VectorTileDataProcessor implements IGeometryProcessor {
             ? new ComposedDataFilter([styleSetDataFilter, m_dataFilter])
             : styleSetDataFilter;
 
-        // Register the default adapters.
+        // Register the default adapters. Adapters of binary formats checking magic bytes come
+        // first, the OMV adapter accepts any buffer.
+
+        this.m_dataAdapters.push(new FlatGeobufDataAdapter(this, dataPreFilter, logger));
+        this.m_dataAdapters.push(new ColumnarDataAdapter(this, dataPreFilter, logger));
 
         const omvDataAdapter = new OmvDataAdapter(this, dataPreFilter, logger);
         omvDataAdapter.roundUpCoordinatesIfNeeded = m_roundUpCoordinatesIfNeeded;
@@ -92,9 +98,10 @@ export class VectorTileDataProcessor implements IGeometryProcessor {
      *
      * @param tileKey - The tile to be decoded.
      * @param data - The protobuffer to decode from.
+     * @param time - The time of the tile data, available to the styles as `$time`.
      * @returns A [[DecodedTile]]
      */
-    getDecodedTile(tileKey: TileKey, data: ArrayBufferLike | {}): DecodedTile {
+    getDecodedTile(tileKey: TileKey, data: ArrayBufferLike | {}, time?: number): DecodedTile {
         let dataAdapter;
         for (const adapter of this.m_dataAdapters.values()) {
             if (adapter.canProcess(data)) {
@@ -115,7 +122,8 @@ export class VectorTileDataProcessor implements IGeometryProcessor {
             dataAdapter.id,
             this.m_projection,
             tileKey,
-            this.m_storageLevelOffset
+            this.m_storageLevelOffset,
+            time
         );
 
         this.m_decodedTileEmitter = new VectorTileDataEmitter(
@@ -319,7 +327,8 @@ export class VectorTileDecoder extends ThemedTileDecoder {
         data: ArrayBufferLike,
         tileKey: TileKey,
         styleSetEvaluator: StyleSetEvaluator,
-        projection: Projection
+        projection: Projection,
+        time?: number
     ): Promise<DecodedTile> {
         const startTime = PerformanceTimer.now();
 
@@ -337,7 +346,7 @@ export class VectorTileDecoder extends ThemedTileDecoder {
             this.languages
         );
 
-        const decodedTile = decoder.getDecodedTile(tileKey, data);
+        const decodedTile = decoder.getDecodedTile(tileKey, data, time);
 
         decodedTile.decodeTime = PerformanceTimer.now() - startTime;
 
@@ -0,0 +1,134 @@
+/*
+ * Copyright (C) 2017-2020 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { MapEnv } from "@here/harp-datasource-protocol/index-decoder";
+import { GeoCoordinates, webMercatorProjection } from "@here/harp-geoutils";
+import { ShapeUtils, Vector2, Vector3 } from "three";
+
+import { DecodeInfo } from "../DecodeInfo";
+import { IGeometryProcessor, ILineGeometry, IPolygonGeometry } from "../IGeometryProcessor";
+import { world2tile } from "../OmvUtils";
+
+/**
+ * The extents of the tiles the geographic features are converted to.
+ */
+export const GEO_FEATURE_EXTENTS = 4 * 1024;
+
+/**
+ * The geometry of a feature in geographic coordinates, decoded from a binary feature format.
+ *
+ * @hidden
+ */
+export interface GeoFeatureGeometry {
+    /**
+     * The type of the geometry, used as `$geometryType`.
+     */
+    type: "point" | "line" | "polygon";
+
+    /**
+     * The points, line strings or polygons of the geometry, each one a list of rings with
+     * interleaved longitude and latitude values. Points and line strings have a single ring.
+     */
+    parts: Array<Array<ArrayLike<number>>>;
+}
+
+const worldP = new Vector3();
+const localP = new Vector2();
+const geoP = new GeoCoordinates(0, 0);
+
+function convertRing(ring: ArrayLike<number>, decodeInfo: DecodeInfo): Vector2[] {
+    const positions: Vector2[] = [];
+    for (let i = 0; i + 1 < ring.length; i += 2) {
+        geoP.longitude = ring[i];
+        geoP.latitude = ring[i + 1];
+        webMercatorProjection.projectPoint(geoP, worldP);
+        localP.set(worldP.x, worldP.y);
+        positions.push(world2tile(GEO_FEATURE_EXTENTS, decodeInfo, localP, false, new Vector2()));
+    }
+    return positions;
+}
+
+function convertUntiledRing(ring: ArrayLike<number>): GeoCoordinates[] {
+    const positions: GeoCoordinates[] = [];
+    for (let i = 0; i + 1 < ring.length; i += 2) {
+        positions.push(new GeoCoordinates(ring[i + 1], ring[i]));
+    }
+    return positions;
+}
+
+function convertPolygon(rings: Array<ArrayLike<number>>, decodeInfo: DecodeInfo): IPolygonGeometry {
+    // Like in OMV tiles, outer rings must have a positive area and holes a negative one.
+    const tileRings = rings.map((ring, index) => {
+        const positions = convertRing(ring, decodeInfo);
+        const isOuterRing = index === 0;
+        const hasPositiveArea = ShapeUtils.area(positions) > 0;
+        if (hasPositiveArea !== isOuterRing) {
+            positions.reverse();
+        }
+        return positions;
+    });
+    return { rings: tileRings };
+}
+
+/**
+ * Converts a geographic feature to the local space of the decoded tile and passes it to an
+ * [[IGeometryProcessor]].
+ *
+ * @remarks
+ * Points outside of the tile are skipped, they are processed by the tile containing them.
+ *
+ * @param processor - The processor of the feature.
+ * @param decodeInfo - The [[DecodeInfo]] of the decoded tile.
+ * @param layer - The name of the layer of the feature.
+ * @param geometry - The geometry of the feature.
+ * @param env - The environment containing the properties of the feature.
+ *
+ * @hidden
+ */
+export function processGeoFeature(
+    processor: IGeometryProcessor,
+    decodeInfo: DecodeInfo,
+    layer: string,
+    geometry: GeoFeatureGeometry,
+    env: MapEnv
+) {
+    const level = decodeInfo.tileKey.level;
+
+    switch (geometry.type) {
+        case "point": {
+            const positions: Vector2[] = [];
+            for (const [ring] of geometry.parts) {
+                for (const position of convertRing(ring, decodeInfo)) {
+                    if (
+                        position.x >= 0 &&
+                        position.x < GEO_FEATURE_EXTENTS &&
+                        position.y >= 0 &&
+                        position.y < GEO_FEATURE_EXTENTS
+                    ) {
+                        positions.push(position);
+                    }
+                }
+            }
+            if (positions.length > 0) {
+                processor.processPointFeature(layer, GEO_FEATURE_EXTENTS, positions, env, level);
+            }
+            break;
+        }
+        case "line": {
+            const lines: ILineGeometry[] = geometry.parts.map(([ring]) => ({
+                positions: convertRing(ring, decodeInfo),
+                untiledPositions: convertUntiledRing(ring)
+            }));
+            processor.processLineFeature(layer, GEO_FEATURE_EXTENTS, lines, env, level);
+            break;
+        }
+        case "polygon": {
+            const polygons = geometry.parts.map(rings => convertPolygon(rings, decodeInfo));
+            processor.processPolygonFeature(layer, GEO_FEATURE_EXTENTS, polygons, env, level);
+            break;
+        }
+    }
+}
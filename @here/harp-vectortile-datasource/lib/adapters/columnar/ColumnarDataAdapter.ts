@@ -0,0 +1,71 @@
+/*
+ * Copyright (C) 2017-2020 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { MapEnv } from "@here/harp-datasource-protocol/index-decoder";
+import { ILogger } from "@here/harp-utils";
+
+import { DataAdapter } from "../../DataAdapter";
+import { DecodeInfo } from "../../DecodeInfo";
+import { IGeometryProcessor } from "../../IGeometryProcessor";
+import { OmvFeatureFilter } from "../../OmvDataFilter";
+import { isArrayBufferLike } from "../../OmvUtils";
+import { processGeoFeature } from "../GeoFeatureGeometry";
+import { isColumnarFeatures, readColumnarChunks } from "./ColumnarFeatures";
+
+/**
+ * The class `ColumnarDataAdapter` converts features in the columnar feature format to geometries
+ * for the given {@link IGeometryProcessor}.
+ *
+ * @remarks
+ * It processes complete files as well as the chunks read by the [[ColumnarDataProvider]], see
+ * [[encodeColumnarFeatures]]. Only the features whose bounds intersect the tile are processed.
+ */
+export class ColumnarDataAdapter implements DataAdapter {
+    id = "ColumnarDataAdapter";
+
+    constructor(
+        readonly m_processor: IGeometryProcessor,
+        readonly dataFilter?: OmvFeatureFilter,
+        readonly m_logger?: ILogger
+    ) {}
+
+    canProcess(data: ArrayBufferLike | {}): boolean {
+        return isArrayBufferLike(data) && isColumnarFeatures(data);
+    }
+
+    process(data: ArrayBufferLike, decodeInfo: DecodeInfo): void {
+        const { tileKey, time, geoBox } = decodeInfo;
+        const $level = tileKey.level;
+        const $zoom = Math.max(0, tileKey.level - (this.m_processor.storageLevelOffset ?? 0));
+
+        readColumnarChunks(data, chunk => {
+            const $layer = chunk.header.layer;
+            if (this.dataFilter !== undefined && !this.dataFilter.wantsLayer($layer, $level)) {
+                return;
+            }
+            for (let row = 0; row < chunk.count; row++) {
+                if (!chunk.intersects(row, geoBox.west, geoBox.south, geoBox.east, geoBox.north)) {
+                    continue;
+                }
+                const geometry = chunk.getGeometry(row);
+                if (geometry === undefined) {
+                    continue;
+                }
+                const $id = chunk.getId(row);
+                const env = new MapEnv({
+                    ...chunk.getProperties(row),
+                    $layer,
+                    $level,
+                    $zoom,
+                    $geometryType: geometry.type,
+                    ...($id !== undefined && { $id }),
+                    ...(time !== undefined && { $time: time })
+                });
+                processGeoFeature(this.m_processor, decodeInfo, $layer, geometry, env);
+            }
+        });
+    }
+}
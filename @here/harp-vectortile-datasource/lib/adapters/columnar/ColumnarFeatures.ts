@@ -0,0 +1,766 @@
+/*
+ * Copyright (C) 2017-2020 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Feature, FeatureCollection, FeatureGeometry } from "@here/harp-datasource-protocol";
+import { ValueMap } from "@here/harp-datasource-protocol/lib/Env";
+
+import { GeoFeatureGeometry } from "../GeoFeatureGeometry";
+
+/**
+ * A simple columnar binary format for static geographic features, similar to GeoParquet.
+ *
+ * @remarks
+ * A file consists of chunks of spatially close features followed by a footer:
+ *
+ * - Each chunk starts with the magic bytes `HCOL`, its byte length and the byte length of its
+ *   JSON header, see [[ColumnarChunkHeader]]. The header is followed by the buffers of the
+ *   geometry, id and property columns of the features, aligned to 8 bytes.
+ * - The footer is a JSON description of the chunks, see [[ColumnarFooter]], followed by its byte
+ *   length and the magic bytes.
+ *
+ * Chunks are self-contained, so the chunks intersecting a tile can be read with HTTP range
+ * requests and decoded without the rest of the file. All numbers are little endian.
+ */
+
+const MAGIC_BYTES = [0x48, 0x43, 0x4f, 0x4c];
+const CHUNK_PREFIX_LENGTH = 12;
+const FOOTER_SUFFIX_LENGTH = 8;
+const FORMAT_VERSION = 1;
+const ALIGNMENT = 8;
+
+/**
+ * The layer name of columnar features if none is given to [[encodeColumnarFeatures]].
+ */
+export const COLUMNAR_DEFAULT_LAYER = "columnar";
+
+enum ColumnarGeometryType {
+    None = 0,
+    Point = 1,
+    Line = 2,
+    Polygon = 3
+}
+
+const geometryTypeNames: Array<GeoFeatureGeometry["type"] | undefined> = [
+    undefined,
+    "point",
+    "line",
+    "polygon"
+];
+
+/**
+ * Location of a buffer in the data of a chunk.
+ */
+export interface ColumnarBufferView {
+    /**
+     * Byte offset relative to the end of the padded chunk header.
+     */
+    offset: number;
+
+    byteLength: number;
+}
+
+/**
+ * A column of values, one per feature.
+ */
+export interface ColumnarColumn {
+    name: string;
+
+    /**
+     * The type of the values. Numbers are stored as `Float64Array`, booleans as `Uint8Array` and
+     * strings as UTF-8 bytes, delimited by a `Uint32Array` of `count + 1` byte offsets.
+     */
+    type: "number" | "boolean" | "string";
+
+    values: ColumnarBufferView;
+
+    /**
+     * The byte offsets of the strings.
+     */
+    offsets?: ColumnarBufferView;
+
+    /**
+     * A `Uint8Array` telling if the values are defined, `undefined` if all values are defined.
+     */
+    validity?: ColumnarBufferView;
+}
+
+/**
+ * The JSON header of a chunk of features.
+ */
+export interface ColumnarChunkHeader {
+    version: number;
+
+    /**
+     * The name of the layer of the features.
+     */
+    layer: string;
+
+    /**
+     * The number of features.
+     */
+    count: number;
+
+    /**
+     * The bounds of the features as `[west, south, east, north]`.
+     */
+    bbox: number[];
+
+    /**
+     * The geometry columns. Geometries are made of parts (points, line strings or polygons), parts
+     * of rings and rings of coordinates.
+     */
+    geometry: {
+        /**
+         * `Uint8Array` of geometry types, `1` for points, `2` for lines and `3` for polygons.
+         */
+        types: ColumnarBufferView;
+
+        /**
+         * `Uint32Array` of the `count + 1` offsets of the parts of the features.
+         */
+        geometryOffsets: ColumnarBufferView;
+
+        /**
+         * `Uint32Array` of the offsets of the rings of the parts.
+         */
+        partOffsets: ColumnarBufferView;
+
+        /**
+         * `Uint32Array` of the offsets of the coordinates of the rings.
+         */
+        ringOffsets: ColumnarBufferView;
+
+        /**
+         * `Float64Array` of interleaved longitudes and latitudes.
+         */
+        coordinates: ColumnarBufferView;
+
+        /**
+         * `Float64Array` of the bounds of the features as `[west, south, east, north]`.
+         */
+        bboxes: ColumnarBufferView;
+    };
+
+    /**
+     * The ids of the features.
+     */
+    ids: ColumnarColumn;
+
+    /**
+     * The properties of the features.
+     */
+    columns: ColumnarColumn[];
+}
+
+/**
+ * Description of a chunk in the [[ColumnarFooter]].
+ */
+export interface ColumnarChunkInfo {
+    /**
+     * Byte offset of the chunk in the file.
+     */
+    offset: number;
+
+    byteLength: number;
+
+    /**
+     * The number of features in the chunk.
+     */
+    count: number;
+
+    /**
+     * The bounds of the features of the chunk as `[west, south, east, north]`.
+     */
+    bbox: number[];
+}
+
+/**
+ * The footer of a file in the columnar feature format.
+ */
+export interface ColumnarFooter {
+    version: number;
+
+    /**
+     * The name of the layer of the features.
+     */
+    layer: string;
+
+    /**
+     * The number of features.
+     */
+    count: number;
+
+    /**
+     * The bounds of all features as `[west, south, east, north]`, `undefined` if the file is
+     * empty.
+     */
+    bbox?: number[];
+
+    chunks: ColumnarChunkInfo[];
+}
+
+/**
+ * Options of [[encodeColumnarFeatures]].
+ */
+export interface ColumnarEncoderOptions {
+    /**
+     * The name of the layer of the features in the styles.
+     * @default `"columnar"`
+     */
+    layer?: string;
+
+    /**
+     * The maximum number of features per chunk.
+     * @default `1024`
+     */
+    chunkSize?: number;
+}
+
+function hasMagicBytes(bytes: Uint8Array, offset: number): boolean {
+    return (
+        offset + MAGIC_BYTES.length <= bytes.length &&
+        MAGIC_BYTES.every((value, index) => bytes[offset + index] === value)
+    );
+}
+
+function align(offset: number): number {
+    return Math.ceil(offset / ALIGNMENT) * ALIGNMENT;
+}
+
+/**
+ * Computes the position of a point on a Hilbert curve filling a grid of 2^16 x 2^16 cells.
+ */
+function hilbertIndex(x: number, y: number): number {
+    const n = 1 << 16;
+    let index = 0;
+    for (let s = n >> 1; s > 0; s >>= 1) {
+        const rx = (x & s) > 0 ? 1 : 0;
+        const ry = (y & s) > 0 ? 1 : 0;
+        index += s * s * ((3 * rx) ^ ry);
+        if (ry === 0) {
+            if (rx === 1) {
+                x = n - 1 - x;
+                y = n - 1 - y;
+            }
+            const t = x;
+            x = y;
+            y = t;
+        }
+    }
+    return index;
+}
+
+function getParts(geometry: FeatureGeometry): number[][][][] {
+    switch (geometry.type) {
+        case "Point":
+            return [[[geometry.coordinates]]];
+        case "MultiPoint":
+            return geometry.coordinates.map(point => [[point]]);
+        case "LineString":
+            return [[geometry.coordinates]];
+        case "MultiLineString":
+            return geometry.coordinates.map(lineString => [lineString]);
+        case "Polygon":
+            return [geometry.coordinates];
+        case "MultiPolygon":
+            return geometry.coordinates;
+    }
+}
+
+function getGeometryType(geometry: Feature["geometry"] | null): ColumnarGeometryType {
+    switch (geometry?.type) {
+        case "Point":
+        case "MultiPoint":
+            return ColumnarGeometryType.Point;
+        case "LineString":
+        case "MultiLineString":
+            return ColumnarGeometryType.Line;
+        case "Polygon":
+        case "MultiPolygon":
+            return ColumnarGeometryType.Polygon;
+        default:
+            // Geometry collections are not supported.
+            return ColumnarGeometryType.None;
+    }
+}
+
+function getBBox(parts: number[][][][]): number[] {
+    const bbox = [Infinity, Infinity, -Infinity, -Infinity];
+    for (const part of parts) {
+        for (const ring of part) {
+            for (const [longitude, latitude] of ring) {
+                bbox[0] = Math.min(bbox[0], longitude);
+                bbox[1] = Math.min(bbox[1], latitude);
+                bbox[2] = Math.max(bbox[2], longitude);
+                bbox[3] = Math.max(bbox[3], latitude);
+            }
+        }
+    }
+    return bbox;
+}
+
+function unionBBox(target: number[] | undefined, bbox: number[]): number[] {
+    return target === undefined
+        ? bbox.slice()
+        : [
+              Math.min(target[0], bbox[0]),
+              Math.min(target[1], bbox[1]),
+              Math.max(target[2], bbox[2]),
+              Math.max(target[3], bbox[3])
+          ];
+}
+
+interface EncodedFeature {
+    id: string | number;
+    type: ColumnarGeometryType;
+    parts: number[][][][];
+    bbox: number[];
+    properties: { [name: string]: unknown };
+}
+
+/**
+ * Collects the buffers of a chunk.
+ */
+class ChunkBuffers {
+    readonly buffers: Array<{ offset: number; bytes: Uint8Array }> = [];
+    byteLength = 0;
+
+    add(array: ArrayBufferView): ColumnarBufferView {
+        const view = { offset: this.byteLength, byteLength: array.byteLength };
+        this.buffers.push({
+            offset: this.byteLength,
+            bytes: new Uint8Array(array.buffer, array.byteOffset, array.byteLength)
+        });
+        this.byteLength = align(this.byteLength + array.byteLength);
+        return view;
+    }
+
+    addColumn(name: string, values: unknown[]): ColumnarColumn {
+        const defined = values.filter(value => value !== undefined && value !== null);
+        const type = defined.every(value => typeof value === "number")
+            ? "number"
+            : defined.every(value => typeof value === "boolean")
+            ? "boolean"
+            : "string";
+        const column: ColumnarColumn = { name, type, values: { offset: 0, byteLength: 0 } };
+
+        if (defined.length < values.length) {
+            column.validity = this.add(
+                Uint8Array.from(values, value => (value !== undefined && value !== null ? 1 : 0))
+            );
+        }
+        if (type === "number") {
+            column.values = this.add(Float64Array.from(values, value => Number(value ?? 0)));
+        } else if (type === "boolean") {
+            column.values = this.add(Uint8Array.from(values, value => (value === true ? 1 : 0)));
+        } else {
+            const encoder = new TextEncoder();
+            const strings = values.map(value =>
+                encoder.encode(
+                    value === undefined || value === null
+                        ? ""
+                        : typeof value === "object"
+                        ? JSON.stringify(value)
+                        : String(value)
+                )
+            );
+            const offsets = new Uint32Array(values.length + 1);
+            strings.forEach((bytes, index) => {
+                offsets[index + 1] = offsets[index] + bytes.byteLength;
+            });
+            const bytes = new Uint8Array(offsets[values.length]);
+            strings.forEach((string, index) => bytes.set(string, offsets[index]));
+            column.offsets = this.add(offsets);
+            column.values = this.add(bytes);
+        }
+        return column;
+    }
+}
+
+function encodeChunk(features: EncodedFeature[], layer: string): Uint8Array {
+    const buffers = new ChunkBuffers();
+    const geometryOffsets = [0];
+    const partOffsets = [0];
+    const ringOffsets = [0];
+    const coordinates: number[] = [];
+    let bbox: number[] | undefined;
+
+    for (const feature of features) {
+        for (const part of feature.parts) {
+            for (const ring of part) {
+                for (const [longitude, latitude] of ring) {
+                    coordinates.push(longitude, latitude);
+                }
+                ringOffsets.push(coordinates.length / 2);
+            }
+            partOffsets.push(ringOffsets.length - 1);
+        }
+        geometryOffsets.push(partOffsets.length - 1);
+        if (feature.type !== ColumnarGeometryType.None) {
+            bbox = unionBBox(bbox, feature.bbox);
+        }
+    }
+
+    const names = new Set<string>();
+    for (const feature of features) {
+        Object.keys(feature.properties).forEach(name => names.add(name));
+    }
+
+    const header: ColumnarChunkHeader = {
+        version: FORMAT_VERSION,
+        layer,
+        count: features.length,
+        bbox: bbox ?? [0, 0, 0, 0],
+        geometry: {
+            types: buffers.add(Uint8Array.from(features, feature => feature.type)),
+            geometryOffsets: buffers.add(Uint32Array.from(geometryOffsets)),
+            partOffsets: buffers.add(Uint32Array.from(partOffsets)),
+            ringOffsets: buffers.add(Uint32Array.from(ringOffsets)),
+            coordinates: buffers.add(Float64Array.from(coordinates)),
+            bboxes: buffers.add(
+                Float64Array.from(([] as number[]).concat(...features.map(f => f.bbox)))
+            )
+        },
+        ids: buffers.addColumn(
+            "$id",
+            features.map(feature => feature.id)
+        ),
+        columns: Array.from(names, name =>
+            buffers.addColumn(
+                name,
+                features.map(feature => feature.properties[name])
+            )
+        )
+    };
+
+    const headerBytes = new TextEncoder().encode(JSON.stringify(header));
+    const dataOffset = align(CHUNK_PREFIX_LENGTH + headerBytes.byteLength);
+    const chunk = new Uint8Array(dataOffset + buffers.byteLength);
+    chunk.set(MAGIC_BYTES);
+    const view = new DataView(chunk.buffer);
+    view.setUint32(4, chunk.byteLength, true);
+    view.setUint32(8, headerBytes.byteLength, true);
+    chunk.set(headerBytes, CHUNK_PREFIX_LENGTH);
+    for (const { offset, bytes } of buffers.buffers) {
+        chunk.set(bytes, dataOffset + offset);
+    }
+    return chunk;
+}
+
+/**
+ * Encodes GeoJSON features in the columnar feature format.
+ *
+ * @remarks
+ * The features are sorted along a Hilbert curve and split into chunks, so that each chunk covers
+ * a small area. Geometry collections are not supported. The values of a property are stored as
+ * strings unless they are all numbers or all booleans within a chunk, objects are stored as JSON.
+ * The ids of the features default to their indices in the collection.
+ *
+ * @param featureCollection - The features to encode, with coordinates in WGS 84.
+ * @param options - Optional encoding options.
+ * @returns The encoded features.
+ */
+export function encodeColumnarFeatures(
+    featureCollection: FeatureCollection,
+    options: ColumnarEncoderOptions = {}
+): ArrayBuffer {
+    const layer = options.layer ?? COLUMNAR_DEFAULT_LAYER;
+    const chunkSize = Math.max(1, options.chunkSize ?? 1024);
+
+    const features: EncodedFeature[] = featureCollection.features.map((feature, index) => {
+        const type = getGeometryType(feature.geometry);
+        const parts =
+            type === ColumnarGeometryType.None ? [] : getParts(feature.geometry as FeatureGeometry);
+        return {
+            id: feature.id ?? index,
+            type,
+            parts,
+            bbox: type === ColumnarGeometryType.None ? [0, 0, 0, 0] : getBBox(parts),
+            properties: feature.properties ?? {}
+        };
+    });
+
+    const hilbertIndices = new Map<EncodedFeature, number>();
+    for (const feature of features) {
+        const [west, south, east, north] = feature.bbox;
+        const x = Math.floor((((west + east) / 2 + 180) / 360) * 0xffff);
+        const y = Math.floor((((south + north) / 2 + 90) / 180) * 0xffff);
+        hilbertIndices.set(
+            feature,
+            hilbertIndex(Math.min(Math.max(x, 0), 0xffff), Math.min(Math.max(y, 0), 0xffff))
+        );
+    }
+    features.sort((a, b) => hilbertIndices.get(a)! - hilbertIndices.get(b)!);
+
+    const chunks: Uint8Array[] = [];
+    const footer: ColumnarFooter = { version: FORMAT_VERSION, layer, count: 0, chunks: [] };
+    let offset = 0;
+    for (let start = 0; start < features.length; start += chunkSize) {
+        const chunkFeatures = features.slice(start, start + chunkSize);
+        const chunk = encodeChunk(chunkFeatures, layer);
+        const bbox = readColumnarChunkHeader(chunk.buffer).bbox;
+        chunks.push(chunk);
+        footer.chunks.push({
+            offset,
+            byteLength: chunk.byteLength,
+            count: chunkFeatures.length,
+            bbox
+        });
+        footer.count += chunkFeatures.length;
+        footer.bbox = unionBBox(footer.bbox, bbox);
+        offset += chunk.byteLength;
+    }
+
+    const footerBytes = new TextEncoder().encode(JSON.stringify(footer));
+    const result = new Uint8Array(offset + footerBytes.byteLength + FOOTER_SUFFIX_LENGTH);
+    offset = 0;
+    for (const chunk of chunks) {
+        result.set(chunk, offset);
+        offset += chunk.byteLength;
+    }
+    result.set(footerBytes, offset);
+    offset += footerBytes.byteLength;
+    new DataView(result.buffer).setUint32(offset, footerBytes.byteLength, true);
+    result.set(MAGIC_BYTES, offset + 4);
+    return result.buffer;
+}
+
+/**
+ * Checks if a buffer starts with a chunk of the columnar feature format.
+ *
+ * @param buffer - The buffer to check.
+ */
+export function isColumnarFeatures(buffer: ArrayBufferLike): boolean {
+    return buffer.byteLength >= CHUNK_PREFIX_LENGTH && hasMagicBytes(new Uint8Array(buffer), 0);
+}
+
+/**
+ * Gets the byte length of the footer of a file in the columnar feature format.
+ *
+ * @param tail - The end of the file, containing at least 8 bytes.
+ * @returns The byte length of the footer including its length and the magic bytes.
+ * @throws If the buffer doesn't end with a footer.
+ */
+export function getColumnarFooterByteLength(tail: ArrayBufferLike): number {
+    const bytes = new Uint8Array(tail);
+    if (!hasMagicBytes(bytes, bytes.length - MAGIC_BYTES.length)) {
+        throw new Error("Not a columnar feature file");
+    }
+    return (
+        new DataView(tail).getUint32(bytes.length - FOOTER_SUFFIX_LENGTH, true) +
+        FOOTER_SUFFIX_LENGTH
+    );
+}
+
+/**
+ * Reads the footer of a file in the columnar feature format.
+ *
+ * @param tail - The end of the file, containing at least the complete footer.
+ * @returns The footer.
+ */
+export function readColumnarFooter(tail: ArrayBufferLike): ColumnarFooter {
+    const byteLength = getColumnarFooterByteLength(tail);
+    const start = tail.byteLength - byteLength;
+    if (start < 0) {
+        throw new Error("Incomplete footer of columnar feature file");
+    }
+    return JSON.parse(
+        new TextDecoder().decode(new Uint8Array(tail, start, byteLength - FOOTER_SUFFIX_LENGTH))
+    );
+}
+
+function readColumnarChunkHeader(buffer: ArrayBufferLike, offset = 0): ColumnarChunkHeader {
+    const headerLength = new DataView(buffer, offset).getUint32(8, true);
+    return JSON.parse(
+        new TextDecoder().decode(new Uint8Array(buffer, offset + CHUNK_PREFIX_LENGTH, headerLength))
+    );
+}
+
+interface TypedArrayConstructor<T> {
+    BYTES_PER_ELEMENT: number;
+    new (buffer: ArrayBufferLike, byteOffset?: number, length?: number): T;
+}
+
+/**
+ * A decoded chunk of features.
+ */
+export class ColumnarChunk {
+    /**
+     * The JSON header of the chunk.
+     */
+    readonly header: ColumnarChunkHeader;
+
+    private readonly m_dataOffset: number;
+    private readonly m_types: Uint8Array;
+    private readonly m_geometryOffsets: Uint32Array;
+    private readonly m_partOffsets: Uint32Array;
+    private readonly m_ringOffsets: Uint32Array;
+    private readonly m_coordinates: Float64Array;
+    private readonly m_bboxes: Float64Array;
+    private readonly m_textDecoder = new TextDecoder();
+    private readonly m_arrays = new Map<ColumnarBufferView, unknown>();
+
+    /**
+     * Creates a view of a chunk.
+     *
+     * @param buffer - The buffer containing the chunk.
+     * @param offset - The byte offset of the chunk in the buffer.
+     */
+    constructor(readonly buffer: ArrayBufferLike, readonly offset: number = 0) {
+        this.header = readColumnarChunkHeader(buffer, offset);
+        const headerLength = new DataView(buffer, offset).getUint32(8, true);
+        this.m_dataOffset = offset + align(CHUNK_PREFIX_LENGTH + headerLength);
+
+        const geometry = this.header.geometry;
+        this.m_types = this.getArray(Uint8Array, geometry.types);
+        this.m_geometryOffsets = this.getArray(Uint32Array, geometry.geometryOffsets);
+        this.m_partOffsets = this.getArray(Uint32Array, geometry.partOffsets);
+        this.m_ringOffsets = this.getArray(Uint32Array, geometry.ringOffsets);
+        this.m_coordinates = this.getArray(Float64Array, geometry.coordinates);
+        this.m_bboxes = this.getArray(Float64Array, geometry.bboxes);
+    }
+
+    /**
+     * The number of features in the chunk.
+     */
+    get count(): number {
+        return this.header.count;
+    }
+
+    /**
+     * Checks if the bounds of a feature intersect a box.
+     *
+     * @param row - The index of the feature in the chunk.
+     * @param west - The west of the box.
+     * @param south - The south of the box.
+     * @param east - The east of the box.
+     * @param north - The north of the box.
+     */
+    intersects(row: number, west: number, south: number, east: number, north: number): boolean {
+        const bboxes = this.m_bboxes;
+        const i = row * 4;
+        return !(
+            bboxes[i + 2] < west ||
+            bboxes[i] > east ||
+            bboxes[i + 3] < south ||
+            bboxes[i + 1] > north
+        );
+    }
+
+    /**
+     * Gets the geometry of a feature, the rings are views of the coordinates of the chunk.
+     *
+     * @param row - The index of the feature in the chunk.
+     * @returns The geometry, `undefined` if the feature has none.
+     */
+    getGeometry(row: number): GeoFeatureGeometry | undefined {
+        const type = geometryTypeNames[this.m_types[row]];
+        if (type === undefined) {
+            return undefined;
+        }
+        const parts: Float64Array[][] = [];
+        for (let p = this.m_geometryOffsets[row]; p < this.m_geometryOffsets[row + 1]; p++) {
+            const rings: Float64Array[] = [];
+            for (let r = this.m_partOffsets[p]; r < this.m_partOffsets[p + 1]; r++) {
+                rings.push(
+                    this.m_coordinates.subarray(
+                        this.m_ringOffsets[r] * 2,
+                        this.m_ringOffsets[r + 1] * 2
+                    )
+                );
+            }
+            parts.push(rings);
+        }
+        return { type, parts };
+    }
+
+    /**
+     * Gets the id of a feature.
+     *
+     * @param row - The index of the feature in the chunk.
+     */
+    getId(row: number): string | number | boolean | undefined {
+        return this.getValue(this.header.ids, row);
+    }
+
+    /**
+     * Gets the properties of a feature.
+     *
+     * @param row - The index of the feature in the chunk.
+     */
+    getProperties(row: number): ValueMap {
+        const properties: ValueMap = {};
+        for (const column of this.header.columns) {
+            const value = this.getValue(column, row);
+            if (value !== undefined) {
+                properties[column.name] = value;
+            }
+        }
+        return properties;
+    }
+
+    private getValue(column: ColumnarColumn, row: number): string | number | boolean | undefined {
+        if (
+            column.validity !== undefined &&
+            this.getArray(Uint8Array, column.validity)[row] === 0
+        ) {
+            return undefined;
+        }
+        switch (column.type) {
+            case "number":
+                return this.getArray(Float64Array, column.values)[row];
+            case "boolean":
+                return this.getArray(Uint8Array, column.values)[row] !== 0;
+            case "string": {
+                const offsets = this.getArray(Uint32Array, column.offsets!);
+                const bytes = this.getArray(Uint8Array, column.values);
+                return this.m_textDecoder.decode(bytes.subarray(offsets[row], offsets[row + 1]));
+            }
+        }
+    }
+
+    private getArray<T>(type: TypedArrayConstructor<T>, view: ColumnarBufferView): T {
+        let array = this.m_arrays.get(view) as T | undefined;
+        if (array === undefined) {
+            const byteOffset = this.m_dataOffset + view.offset;
+            const length = view.byteLength / type.BYTES_PER_ELEMENT;
+            // Copy buffers which are not aligned in the given buffer.
+            array =
+                byteOffset % type.BYTES_PER_ELEMENT === 0
+                    ? new type(this.buffer, byteOffset, length)
+                    : new type(
+                          this.buffer.slice(byteOffset, byteOffset + view.byteLength),
+                          0,
+                          length
+                      );
+            this.m_arrays.set(view, array);
+        }
+        return array;
+    }
+}
+
+/**
+ * Reads the consecutive chunks at the start of a buffer, e.g. of a complete file or of chunks
+ * read from a file.
+ *
+ * @param buffer - The buffer containing the chunks.
+ * @param callback - Function called with each chunk.
+ */
+export function readColumnarChunks(
+    buffer: ArrayBufferLike,
+    callback: (chunk: ColumnarChunk) => void
+) {
+    const bytes = new Uint8Array(buffer);
+    let offset = 0;
+    while (offset + CHUNK_PREFIX_LENGTH <= buffer.byteLength && hasMagicBytes(bytes, offset)) {
+        const byteLength = new DataView(buffer, offset).getUint32(4, true);
+        if (byteLength < CHUNK_PREFIX_LENGTH || offset + byteLength > buffer.byteLength) {
+            break;
+        }
+        callback(new ColumnarChunk(buffer, offset));
+        offset += byteLength;
+    }
+}
@@ -0,0 +1,604 @@
+/*
+ * Copyright (C) 2017-2020 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Value, ValueMap } from "@here/harp-datasource-protocol/lib/Env";
+
+import { GeoFeatureGeometry } from "../GeoFeatureGeometry";
+
+/**
+ * Reader of the FlatGeobuf format, see https://github.com/flatgeobuf/flatgeobuf.
+ *
+ * @remarks
+ * Only the parts needed to render the features are decoded, i.e. the header, the packed Hilbert
+ * R-tree index, the 2D geometries and the properties. Coordinates are expected as longitudes and
+ * latitudes in WGS 84.
+ */
+
+const MAGIC_BYTES = [0x66, 0x67, 0x62, 0x03, 0x66, 0x67, 0x62];
+const SIZE_PREFIX_LENGTH = 4;
+
+/**
+ * The byte length of a node of the packed Hilbert R-tree.
+ */
+export const FLATGEOBUF_NODE_ITEM_LENGTH = 40;
+
+/**
+ * The geometry types of FlatGeobuf.
+ */
+export enum FlatGeobufGeometryType {
+    Unknown = 0,
+    Point = 1,
+    LineString = 2,
+    Polygon = 3,
+    MultiPoint = 4,
+    MultiLineString = 5,
+    MultiPolygon = 6,
+    GeometryCollection = 7
+}
+
+/**
+ * The column types of FlatGeobuf.
+ */
+export enum FlatGeobufColumnType {
+    Byte = 0,
+    UByte = 1,
+    Bool = 2,
+    Short = 3,
+    UShort = 4,
+    Int = 5,
+    UInt = 6,
+    Long = 7,
+    ULong = 8,
+    Float = 9,
+    Double = 10,
+    String = 11,
+    Json = 12,
+    DateTime = 13,
+    Binary = 14
+}
+
+/**
+ * A property column of a FlatGeobuf file.
+ */
+export interface FlatGeobufColumn {
+    name: string;
+    type: FlatGeobufColumnType;
+}
+
+/**
+ * The header of a FlatGeobuf file.
+ */
+export interface FlatGeobufHeader {
+    /**
+     * The name of the dataset.
+     */
+    name?: string;
+
+    /**
+     * The bounds of the features as `[minX, minY, maxX, maxY]`.
+     */
+    envelope?: number[];
+
+    /**
+     * The type of all geometries, [[FlatGeobufGeometryType.Unknown]] if it's given per feature.
+     */
+    geometryType: FlatGeobufGeometryType;
+
+    hasZ: boolean;
+    hasM: boolean;
+    hasT: boolean;
+    hasTM: boolean;
+
+    /**
+     * The property columns of the features.
+     */
+    columns: FlatGeobufColumn[];
+
+    /**
+     * The number of features, `0` if unknown.
+     */
+    featuresCount: number;
+
+    /**
+     * The number of children per node of the index, `0` if the file has no index.
+     */
+    indexNodeSize: number;
+
+    /**
+     * The EPSG code of the coordinate reference system, if any.
+     */
+    crsCode?: number;
+
+    /**
+     * The byte length of the magic bytes and the header, i.e. the offset of the index.
+     */
+    byteLength: number;
+
+    /**
+     * The byte length of the index, the features start after the index.
+     */
+    indexByteLength: number;
+}
+
+/**
+ * A node of the packed Hilbert R-tree of a FlatGeobuf file.
+ */
+export interface FlatGeobufNode {
+    minX: number;
+    minY: number;
+    maxX: number;
+    maxY: number;
+
+    /**
+     * The byte offset of the feature relative to the first feature for leaf nodes, the index of
+     * the first child node otherwise.
+     */
+    offset: number;
+}
+
+/**
+ * A decoded FlatGeobuf feature.
+ */
+export interface FlatGeobufFeature {
+    geometry?: GeoFeatureGeometry;
+    properties: ValueMap;
+}
+
+/**
+ * The FlatGeobuf features of a tile, as decoded by the [[FlatGeobufDataAdapter]].
+ */
+export interface FlatGeobufTile {
+    /**
+     * The start of the FlatGeobuf file up to the end of its header.
+     */
+    header: ArrayBuffer;
+
+    /**
+     * The size prefixed features of the tile.
+     */
+    features: ArrayBuffer;
+
+    /**
+     * The indices of the features in the file, used as feature ids. By default the features are
+     * numbered in the order of the buffer.
+     */
+    ids?: number[];
+
+    /**
+     * The name of the layer of the features, by default the name of the dataset.
+     */
+    layer?: string;
+}
+
+/**
+ * Minimal accessor of a FlatBuffers table.
+ */
+class Table {
+    constructor(readonly view: DataView, readonly position: number) {}
+
+    uint8(field: number, defaultValue: number): number {
+        const offset = this.fieldOffset(field);
+        return offset === 0 ? defaultValue : this.view.getUint8(this.position + offset);
+    }
+
+    uint16(field: number, defaultValue: number): number {
+        const offset = this.fieldOffset(field);
+        return offset === 0 ? defaultValue : this.view.getUint16(this.position + offset, true);
+    }
+
+    int32(field: number): number | undefined {
+        const offset = this.fieldOffset(field);
+        return offset === 0 ? undefined : this.view.getInt32(this.position + offset, true);
+    }
+
+    uint64(field: number): number {
+        const offset = this.fieldOffset(field);
+        return offset === 0 ? 0 : readUint64(this.view, this.position + offset);
+    }
+
+    string(field: number): string | undefined {
+        const vector = this.vector(field);
+        return vector === undefined
+            ? undefined
+            : decodeUtf8(this.view, vector.position, vector.length);
+    }
+
+    table(field: number): Table | undefined {
+        const position = this.reference(field);
+        return position === undefined ? undefined : new Table(this.view, position);
+    }
+
+    tables(field: number): Table[] {
+        const vector = this.vector(field);
+        const tables: Table[] = [];
+        if (vector !== undefined) {
+            for (let i = 0; i < vector.length; i++) {
+                const position = vector.position + i * 4;
+                tables.push(new Table(this.view, position + this.view.getUint32(position, true)));
+            }
+        }
+        return tables;
+    }
+
+    float64s(field: number): number[] | undefined {
+        const vector = this.vector(field);
+        if (vector === undefined) {
+            return undefined;
+        }
+        const values = new Array<number>(vector.length);
+        for (let i = 0; i < vector.length; i++) {
+            values[i] = this.view.getFloat64(vector.position + i * 8, true);
+        }
+        return values;
+    }
+
+    uint32s(field: number): number[] | undefined {
+        const vector = this.vector(field);
+        if (vector === undefined) {
+            return undefined;
+        }
+        const values = new Array<number>(vector.length);
+        for (let i = 0; i < vector.length; i++) {
+            values[i] = this.view.getUint32(vector.position + i * 4, true);
+        }
+        return values;
+    }
+
+    vector(field: number): { position: number; length: number } | undefined {
+        const position = this.reference(field);
+        return position === undefined
+            ? undefined
+            : { position: position + 4, length: this.view.getUint32(position, true) };
+    }
+
+    private reference(field: number): number | undefined {
+        const offset = this.fieldOffset(field);
+        if (offset === 0) {
+            return undefined;
+        }
+        const position = this.position + offset;
+        return position + this.view.getUint32(position, true);
+    }
+
+    private fieldOffset(field: number): number {
+        const vtable = this.position - this.view.getInt32(this.position, true);
+        const vtableOffset = 4 + field * 2;
+        return vtableOffset < this.view.getUint16(vtable, true)
+            ? this.view.getUint16(vtable + vtableOffset, true)
+            : 0;
+    }
+}
+
+function readUint64(view: DataView, position: number): number {
+    return view.getUint32(position, true) + view.getUint32(position + 4, true) * 0x100000000;
+}
+
+function decodeUtf8(view: DataView, position: number, length: number): string {
+    return new TextDecoder().decode(
+        new Uint8Array(view.buffer, view.byteOffset + position, length)
+    );
+}
+
+/**
+ * Checks if a buffer starts with the magic bytes of FlatGeobuf.
+ *
+ * @param buffer - The buffer to check.
+ */
+export function isFlatGeobuf(buffer: ArrayBufferLike): boolean {
+    if (buffer.byteLength < MAGIC_BYTES.length + 1) {
+        return false;
+    }
+    const bytes = new Uint8Array(buffer, 0, MAGIC_BYTES.length);
+    return MAGIC_BYTES.every((value, index) => bytes[index] === value);
+}
+
+/**
+ * Gets the byte length of the magic bytes and the header of a FlatGeobuf file.
+ *
+ * @param buffer - The start of the file.
+ * @returns The byte length, or `undefined` if the buffer is too short to contain it.
+ */
+export function getFlatGeobufHeaderByteLength(buffer: ArrayBufferLike): number | undefined {
+    const headerOffset = MAGIC_BYTES.length + 1;
+    if (buffer.byteLength < headerOffset + SIZE_PREFIX_LENGTH) {
+        return undefined;
+    }
+    const headerSize = new DataView(buffer).getUint32(headerOffset, true);
+    return headerOffset + SIZE_PREFIX_LENGTH + headerSize;
+}
+
+/**
+ * Computes the number of nodes of each level of a packed Hilbert R-tree, starting at the leaves.
+ */
+function getLevelNodeCounts(featuresCount: number, nodeSize: number): number[] {
+    let count = featuresCount;
+    const counts = [count];
+    while (count > 1) {
+        count = Math.ceil(count / nodeSize);
+        counts.push(count);
+    }
+    return counts;
+}
+
+/**
+ * Computes the node index ranges of the levels of a packed Hilbert R-tree, starting at the
+ * leaves. The nodes are stored from the root to the leaves.
+ *
+ * @param featuresCount - The number of indexed features.
+ * @param nodeSize - The number of children per node.
+ * @returns The `[start, end)` node indices of each level.
+ */
+export function getFlatGeobufLevelBounds(
+    featuresCount: number,
+    nodeSize: number
+): Array<[number, number]> {
+    const counts = getLevelNodeCounts(featuresCount, nodeSize);
+    let end = counts.reduce((sum, count) => sum + count, 0);
+    return counts.map(count => {
+        const bounds: [number, number] = [end - count, end];
+        end -= count;
+        return bounds;
+    });
+}
+
+/**
+ * Reads the header of a FlatGeobuf file.
+ *
+ * @param buffer - The start of the file, containing at least the complete header.
+ * @returns The header, or `undefined` if the buffer doesn't contain the complete header.
+ * @throws If the buffer doesn't contain a FlatGeobuf file.
+ */
+export function readFlatGeobufHeader(buffer: ArrayBufferLike): FlatGeobufHeader | undefined {
+    if (!isFlatGeobuf(buffer)) {
+        throw new Error("Not a FlatGeobuf file");
+    }
+    const byteLength = getFlatGeobufHeaderByteLength(buffer);
+    if (byteLength === undefined || buffer.byteLength < byteLength) {
+        return undefined;
+    }
+    const view = new DataView(buffer, MAGIC_BYTES.length + 1);
+
+    const root = SIZE_PREFIX_LENGTH;
+    const header = new Table(view, root + view.getUint32(root, true));
+    const featuresCount = header.uint64(8);
+    const indexNodeSize = header.uint16(9, 16);
+    let indexByteLength = 0;
+    if (indexNodeSize > 0 && featuresCount > 0) {
+        const nodeSize = Math.min(Math.max(indexNodeSize, 2), 0xffff);
+        const nodeCount = getLevelNodeCounts(featuresCount, nodeSize).reduce((a, b) => a + b, 0);
+        indexByteLength = nodeCount * FLATGEOBUF_NODE_ITEM_LENGTH;
+    }
+
+    return {
+        name: header.string(0),
+        envelope: header.float64s(1),
+        geometryType: header.uint8(2, FlatGeobufGeometryType.Unknown),
+        hasZ: header.uint8(3, 0) !== 0,
+        hasM: header.uint8(4, 0) !== 0,
+        hasT: header.uint8(5, 0) !== 0,
+        hasTM: header.uint8(6, 0) !== 0,
+        columns: header.tables(7).map(column => ({
+            name: column.string(0) ?? "",
+            type: column.uint8(1, FlatGeobufColumnType.Byte)
+        })),
+        featuresCount,
+        indexNodeSize: featuresCount > 0 ? indexNodeSize : 0,
+        crsCode: header.table(10)?.int32(1),
+        byteLength,
+        indexByteLength
+    };
+}
+
+/**
+ * Reads the nodes of a packed Hilbert R-tree.
+ *
+ * @param buffer - The buffer containing the nodes.
+ * @returns The nodes.
+ */
+export function readFlatGeobufNodes(buffer: ArrayBufferLike): FlatGeobufNode[] {
+    const view = new DataView(buffer);
+    const nodes: FlatGeobufNode[] = [];
+    for (let i = 0; i + FLATGEOBUF_NODE_ITEM_LENGTH <= buffer.byteLength; ) {
+        nodes.push({
+            minX: view.getFloat64(i, true),
+            minY: view.getFloat64(i + 8, true),
+            maxX: view.getFloat64(i + 16, true),
+            maxY: view.getFloat64(i + 24, true),
+            offset: readUint64(view, i + 32)
+        });
+        i += FLATGEOBUF_NODE_ITEM_LENGTH;
+    }
+    return nodes;
+}
+
+function createParts(
+    xy: number[],
+    ends: number[] | undefined,
+    partType: "point" | "ring"
+): Array<Array<ArrayLike<number>>> {
+    if (partType === "point") {
+        const points: number[][][] = [];
+        for (let i = 0; i + 1 < xy.length; i += 2) {
+            points.push([[xy[i], xy[i + 1]]]);
+        }
+        return points;
+    }
+    const rings: number[][] = [];
+    let start = 0;
+    for (const end of ends ?? [xy.length / 2]) {
+        rings.push(xy.slice(start * 2, end * 2));
+        start = end;
+    }
+    return [rings];
+}
+
+function readGeometry(
+    geometry: Table,
+    type: FlatGeobufGeometryType
+): GeoFeatureGeometry | undefined {
+    if (type === FlatGeobufGeometryType.Unknown) {
+        type = geometry.uint8(6, FlatGeobufGeometryType.Unknown);
+    }
+    const xy = geometry.float64s(1) ?? [];
+    const ends = geometry.uint32s(0);
+
+    switch (type) {
+        case FlatGeobufGeometryType.Point:
+        case FlatGeobufGeometryType.MultiPoint:
+            return { type: "point", parts: createParts(xy, undefined, "point") };
+        case FlatGeobufGeometryType.LineString:
+            return { type: "line", parts: createParts(xy, undefined, "ring") };
+        case FlatGeobufGeometryType.MultiLineString:
+            return {
+                type: "line",
+                parts: createParts(xy, ends, "ring")[0].map(ring => [ring])
+            };
+        case FlatGeobufGeometryType.Polygon:
+            return { type: "polygon", parts: createParts(xy, ends, "ring") };
+        case FlatGeobufGeometryType.MultiPolygon: {
+            const parts: Array<Array<ArrayLike<number>>> = [];
+            for (const part of geometry.tables(7)) {
+                const polygon = readGeometry(part, FlatGeobufGeometryType.Polygon);
+                if (polygon !== undefined) {
+                    parts.push(...polygon.parts);
+                }
+            }
+            return { type: "polygon", parts };
+        }
+        default:
+            // Geometry collections and curves are not supported.
+            return undefined;
+    }
+}
+
+function readProperties(
+    view: DataView,
+    position: number,
+    length: number,
+    columns: FlatGeobufColumn[]
+): ValueMap {
+    const properties: ValueMap = {};
+    const end = position + length;
+    while (position + 2 <= end) {
+        const column = columns[view.getUint16(position, true)];
+        position += 2;
+        if (column === undefined) {
+            break;
+        }
+        let value: Value | undefined;
+        switch (column.type) {
+            case FlatGeobufColumnType.Byte:
+                value = view.getInt8(position);
+                position += 1;
+                break;
+            case FlatGeobufColumnType.UByte:
+                value = view.getUint8(position);
+                position += 1;
+                break;
+            case FlatGeobufColumnType.Bool:
+                value = view.getUint8(position) !== 0;
+                position += 1;
+                break;
+            case FlatGeobufColumnType.Short:
+                value = view.getInt16(position, true);
+                position += 2;
+                break;
+            case FlatGeobufColumnType.UShort:
+                value = view.getUint16(position, true);
+                position += 2;
+                break;
+            case FlatGeobufColumnType.Int:
+                value = view.getInt32(position, true);
+                position += 4;
+                break;
+            case FlatGeobufColumnType.UInt:
+                value = view.getUint32(position, true);
+                position += 4;
+                break;
+            case FlatGeobufColumnType.Long:
+                value =
+                    view.getUint32(position, true) +
+                    view.getInt32(position + 4, true) * 0x100000000;
+                position += 8;
+                break;
+            case FlatGeobufColumnType.ULong:
+                value = readUint64(view, position);
+                position += 8;
+                break;
+            case FlatGeobufColumnType.Float:
+                value = view.getFloat32(position, true);
+                position += 4;
+                break;
+            case FlatGeobufColumnType.Double:
+                value = view.getFloat64(position, true);
+                position += 8;
+                break;
+            default: {
+                // Strings, JSON, date times and binary data are prefixed by their length.
+                const byteLength = view.getUint32(position, true);
+                position += 4;
+                value =
+                    column.type === FlatGeobufColumnType.Binary
+                        ? undefined
+                        : decodeUtf8(view, position, byteLength);
+                position += byteLength;
+                break;
+            }
+        }
+        if (value !== undefined) {
+            properties[column.name] = value;
+        }
+    }
+    return properties;
+}
+
+/**
+ * Reads the size prefixed features of a FlatGeobuf file.
+ *
+ * @param header - The header of the file.
+ * @param buffer - The buffer containing the features.
+ * @param callback - Function called with each feature and its index in the buffer.
+ * @param byteOffset - The offset of the first feature in the buffer.
+ */
+export function readFlatGeobufFeatures(
+    header: FlatGeobufHeader,
+    buffer: ArrayBufferLike,
+    callback: (feature: FlatGeobufFeature, index: number) => void,
+    byteOffset = 0
+) {
+    let index = 0;
+    while (byteOffset + SIZE_PREFIX_LENGTH <= buffer.byteLength) {
+        const view = new DataView(buffer, byteOffset);
+        const size = view.getUint32(0, true);
+        if (size === 0 || byteOffset + SIZE_PREFIX_LENGTH + size > buffer.byteLength) {
+            break;
+        }
+        const root = SIZE_PREFIX_LENGTH;
+        const feature = new Table(view, root + view.getUint32(root, true));
+        const geometry = feature.table(0);
+        const properties = feature.vector(1);
+        callback(
+            {
+                geometry:
+                    geometry === undefined
+                        ? undefined
+                        : readGeometry(geometry, header.geometryType),
+                // Columns defined per feature are not supported.
+                properties:
+                    properties === undefined
+                        ? {}
+                        : readProperties(
+                              view,
+                              properties.position,
+                              properties.length,
+                              header.columns
+                          )
+            },
+            index++
+        );
+        byteOffset += SIZE_PREFIX_LENGTH + size;
+    }
+}
@@ -0,0 +1,106 @@
+/*
+ * Copyright (C) 2017-2020 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { MapEnv } from "@here/harp-datasource-protocol/index-decoder";
+import { ILogger } from "@here/harp-utils";
+
+import { DataAdapter } from "../../DataAdapter";
+import { DecodeInfo } from "../../DecodeInfo";
+import { IGeometryProcessor } from "../../IGeometryProcessor";
+import { OmvFeatureFilter } from "../../OmvDataFilter";
+import { isArrayBufferLike } from "../../OmvUtils";
+import { processGeoFeature } from "../GeoFeatureGeometry";
+import {
+    FlatGeobufTile,
+    isFlatGeobuf,
+    readFlatGeobufFeatures,
+    readFlatGeobufHeader
+} from "./FlatGeobuf";
+
+/**
+ * The layer name of FlatGeobuf features if the dataset has no name.
+ */
+export const FLATGEOBUF_DEFAULT_LAYER = "flatgeobuf";
+
+/**
+ * The class `FlatGeobufDataAdapter` converts FlatGeobuf features to geometries for the given
+ * {@link IGeometryProcessor}.
+ *
+ * @remarks
+ * It processes the [[FlatGeobufTile]]s of the [[FlatGeobufDataProvider]] as well as complete
+ * FlatGeobuf files. The features are in the layer named after the dataset and their ids are their
+ * indices in the file.
+ */
+export class FlatGeobufDataAdapter implements DataAdapter {
+    id = "FlatGeobufDataAdapter";
+
+    constructor(
+        readonly m_processor: IGeometryProcessor,
+        readonly dataFilter?: OmvFeatureFilter,
+        readonly m_logger?: ILogger
+    ) {}
+
+    canProcess(data: ArrayBufferLike | {}): boolean {
+        if (isArrayBufferLike(data)) {
+            return isFlatGeobuf(data);
+        }
+        const tile = data as Partial<FlatGeobufTile>;
+        return (
+            isArrayBufferLike(tile.header) &&
+            isArrayBufferLike(tile.features) &&
+            isFlatGeobuf(tile.header)
+        );
+    }
+
+    process(data: ArrayBufferLike | FlatGeobufTile, decodeInfo: DecodeInfo): void {
+        const tile: FlatGeobufTile | undefined = isArrayBufferLike(data)
+            ? undefined
+            : (data as FlatGeobufTile);
+        const buffer = tile?.header ?? (data as ArrayBufferLike);
+        const header = readFlatGeobufHeader(buffer);
+        if (header === undefined) {
+            this.m_logger?.warn("Incomplete FlatGeobuf header");
+            return;
+        }
+        if (header.crsCode !== undefined && header.crsCode !== 4326) {
+            this.m_logger?.warn(`Unsupported FlatGeobuf CRS EPSG:${header.crsCode}`);
+            return;
+        }
+
+        const { tileKey, time } = decodeInfo;
+        const $level = tileKey.level;
+        const $zoom = Math.max(0, tileKey.level - (this.m_processor.storageLevelOffset ?? 0));
+        const $layer =
+            tile?.layer ??
+            (header.name !== undefined && header.name.length > 0
+                ? header.name
+                : FLATGEOBUF_DEFAULT_LAYER);
+        if (this.dataFilter !== undefined && !this.dataFilter.wantsLayer($layer, $level)) {
+            return;
+        }
+
+        readFlatGeobufFeatures(
+            header,
+            tile?.features ?? buffer,
+            (feature, index) => {
+                if (feature.geometry === undefined) {
+                    return;
+                }
+                const env = new MapEnv({
+                    ...feature.properties,
+                    $layer,
+                    $level,
+                    $zoom,
+                    $geometryType: feature.geometry.type,
+                    $id: tile?.ids?.[index] ?? index,
+                    ...(time !== undefined && { $time: time })
+                });
+                processGeoFeature(this.m_processor, decodeInfo, $layer, feature.geometry, env);
+            },
+            tile === undefined ? header.byteLength + header.indexByteLength : 0
+        );
+    }
+}
@@ -66,6 +66,7 @@ interface VTJsonTileInterface {
     y: number;
     z: number;
     layer: string;
+    extent?: number;
 }
 
 const tmpPos = new Vector2();
@@ -117,13 +118,15 @@ export class GeoJsonVtDataAdapter implements DataAdapter {
     }
 
     process(tile: VTJsonTileInterface, decodeInfo: DecodeInfo) {
-        const { tileKey } = decodeInfo;
+        const { tileKey, time } = decodeInfo;
+        const extents = tile.extent ?? VT_JSON_EXTENTS;
         for (const feature of tile.features) {
             const env = new MapEnv({
                 $layer: tile.layer,
                 $geometryType: this.convertGeometryType(feature.type),
                 $level: tileKey.level,
                 $zoom: Math.max(0, tileKey.level - (this.m_processor.storageLevelOffset ?? 0)),
+                ...(time !== undefined && { $time: time }),
                 $id: feature.id,
                 ...feature.tags
             });
@@ -138,7 +141,7 @@ export class GeoJsonVtDataAdapter implements DataAdapter {
 
                         this.m_processor.processPointFeature(
                             tile.layer,
-                            VT_JSON_EXTENTS,
+                            extents,
                             [position],
                             env,
                             tileKey.level
@@ -172,7 +175,7 @@ export class GeoJsonVtDataAdapter implements DataAdapter {
 
                     lines.forEach(line => {
                         (line as any).untiledPositions = line.positions.map(tilePos => {
-                            tile2world(VT_JSON_EXTENTS, decodeInfo, tilePos, false, tmpPos);
+                            tile2world(extents, decodeInfo, tilePos, false, tmpPos);
                             worldPos.set(tmpPos.x, tmpPos.y, 0);
                             return webMercatorProjection.unprojectPoint(worldPos);
                         });
@@ -180,7 +183,7 @@ export class GeoJsonVtDataAdapter implements DataAdapter {
 
                     this.m_processor.processLineFeature(
                         tile.layer,
-                        VT_JSON_EXTENTS,
+                        extents,
                         lines,
                         env,
                         tileKey.level
@@ -201,7 +204,7 @@ export class GeoJsonVtDataAdapter implements DataAdapter {
 
                     this.m_processor.processPolygonFeature(
                         tile.layer,
-                        VT_JSON_EXTENTS,
+                        extents,
                         [polygon],
                         env,
                         tileKey.level
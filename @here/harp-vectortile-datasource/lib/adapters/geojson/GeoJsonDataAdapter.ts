@@ -179,7 +179,7 @@ export class GeoJsonDataAdapter implements DataAdapter {
             return;
         }
 
-        const { tileKey } = decodeInfo;
+        const { tileKey, time } = decodeInfo;
 
         const $level = tileKey.level;
         const $zoom = Math.max(0, tileKey.level - (this.m_processor.storageLevelOffset ?? 0));
@@ -193,7 +193,8 @@ export class GeoJsonDataAdapter implements DataAdapter {
                 $layer,
                 $level,
                 $zoom,
-                $geometryType
+                $geometryType,
+                ...(time !== undefined && { $time: time })
             });
 
             switch (feature.geometry.type) {
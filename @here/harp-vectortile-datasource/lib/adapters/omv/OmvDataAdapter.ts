@@ -208,6 +208,8 @@ export class OmvDataAdapter implements DataAdapter, OmvVisitor {
 
     private m_tileKey!: TileKey;
     private m_layer!: com.mapbox.pb.Tile.ILayer;
+    // Parent of the feature environments, holding the variables shared by the whole tile.
+    private m_tileEnv?: MapEnv;
 
     public roundUpCoordinatesIfNeeded: boolean = false;
 
@@ -252,11 +254,12 @@ export class OmvDataAdapter implements DataAdapter, OmvVisitor {
      * @param decodeInfo - The [[DecodedInfo]] of the tile to proceess.
      */
     process(data: ArrayBufferLike, decodeInfo: DecodeInfo) {
-        const { tileKey } = decodeInfo;
+        const { tileKey, time } = decodeInfo;
         const payload = new Uint8Array(data);
         const proto = com.mapbox.pb.Tile.decode(payload);
 
         this.m_tileKey = tileKey;
+        this.m_tileEnv = time !== undefined ? new MapEnv({ $time: time }) : undefined;
 
         visitOmv(proto, this);
     }
@@ -323,7 +326,8 @@ export class OmvDataAdapter implements DataAdapter, OmvVisitor {
             "point",
             storageLevel,
             this.m_processor.storageLevelOffset,
-            this.m_logger
+            this.m_logger,
+            this.m_tileEnv
         );
 
         this.m_processor.processPointFeature(layerName, layerExtents, geometry, env, storageLevel);
@@ -378,7 +382,8 @@ export class OmvDataAdapter implements DataAdapter, OmvVisitor {
             "line",
             storageLevel,
             this.m_processor.storageLevelOffset,
-            this.m_logger
+            this.m_logger,
+            this.m_tileEnv
         );
 
         this.m_processor.processLineFeature(layerName, layerExtents, geometry, env, storageLevel);
@@ -444,7 +449,8 @@ export class OmvDataAdapter implements DataAdapter, OmvVisitor {
             "polygon",
             storageLevel,
             this.m_processor.storageLevelOffset,
-            this.m_logger
+            this.m_logger,
+            this.m_tileEnv
         );
 
         this.m_processor.processPolygonFeature(
@@ -0,0 +1,265 @@
+/*
+ * Copyright (C) 2017-2020 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+//    Mocha discourages using arrow functions, see https://mochajs.org/#arrow-functions
+
+import "@here/harp-fetch";
+
+import { FeatureCollection, StyleSet } from "@here/harp-datasource-protocol";
+import { MapEnv, StyleSetEvaluator } from "@here/harp-datasource-protocol/index-decoder";
+import { mercatorProjection, TileKey } from "@here/harp-geoutils";
+import { TransferManager } from "@here/harp-transfer-manager";
+import { assert } from "chai";
+
+import {
+    ColumnarChunk,
+    ColumnarDataProvider,
+    encodeColumnarFeatures,
+    readColumnarChunks,
+    readColumnarFooter
+} from "../index";
+import { ColumnarDataAdapter } from "../lib/adapters/columnar/ColumnarDataAdapter";
+import { DecodeInfo } from "../lib/DecodeInfo";
+import { IGeometryProcessor } from "../lib/IGeometryProcessor";
+import { VectorTileDataProcessor } from "../lib/VectorTileDecoder";
+
+function point(longitude: number, latitude: number, properties: {}) {
+    return {
+        type: "Feature" as const,
+        geometry: { type: "Point" as const, coordinates: [longitude, latitude] },
+        properties
+    };
+}
+
+const FEATURES: FeatureCollection = {
+    type: "FeatureCollection",
+    features: [
+        point(10, 50, { name: "Europe", population: 100, capital: true }),
+        point(-100, 40, { name: "America", population: 200 }),
+        {
+            type: "Feature",
+            id: "road",
+            geometry: {
+                type: "LineString",
+                coordinates: [
+                    [11, 50],
+                    [12, 51]
+                ]
+            },
+            properties: { name: "Road", lanes: { forward: 2 } }
+        },
+        {
+            type: "Feature",
+            geometry: {
+                type: "MultiPolygon",
+                coordinates: [
+                    [
+                        [
+                            [120, -30],
+                            [125, -30],
+                            [125, -25],
+                            [120, -30]
+                        ]
+                    ],
+                    [
+                        [
+                            [130, -30],
+                            [135, -30],
+                            [135, -25],
+                            [130, -30]
+                        ]
+                    ]
+                ]
+            },
+            properties: { name: "Australia" }
+        }
+    ]
+};
+
+const EUROPE_TILE = new TileKey(1, 2, 2);
+
+function getChunks(buffer: ArrayBuffer): ColumnarChunk[] {
+    const chunks: ColumnarChunk[] = [];
+    readColumnarChunks(buffer, chunk => chunks.push(chunk));
+    return chunks;
+}
+
+class RangeTransferManager extends TransferManager {
+    ranges: string[] = [];
+
+    constructor(readonly file: ArrayBuffer) {
+        super();
+    }
+
+    /** @override */
+    download(url: string, init?: RequestInit): Promise<Response> {
+        const range = (init?.headers as any).Range as string;
+        this.ranges.push(range);
+        const [start, end] = range.replace("bytes=", "").split("-");
+        const buffer =
+            start === ""
+                ? this.file.slice(-Number(end))
+                : this.file.slice(Number(start), Number(end) + 1);
+        return Promise.resolve(({
+            ok: true,
+            status: 206,
+            statusText: "",
+            arrayBuffer: () => Promise.resolve(buffer)
+        } as any) as Response);
+    }
+}
+
+describe("ColumnarFeatures", function() {
+    const file = encodeColumnarFeatures(FEATURES, { layer: "places", chunkSize: 3 });
+
+    it("encodes features in spatially sorted chunks", function() {
+        const footer = readColumnarFooter(file);
+        assert.equal(footer.layer, "places");
+        assert.equal(footer.count, 4);
+        assert.deepEqual(footer.bbox, [-100, -30, 135, 51]);
+        assert.equal(footer.chunks.length, 2);
+
+        const chunks = getChunks(file);
+        assert.equal(chunks.length, 2);
+        const ids = chunks.map(chunk =>
+            Array.from({ length: chunk.count }, (_, row) => chunk.getId(row))
+        );
+        // The features in Europe are close to each other on the Hilbert curve.
+        // Ids mixing numbers and strings within a chunk are stored as strings.
+        assert.deepEqual(ids, [["1", "0", "road"], [3]]);
+        chunks.forEach((chunk, index) => {
+            assert.deepEqual(chunk.header.bbox, footer.chunks[index].bbox);
+            assert.equal(chunk.offset, footer.chunks[index].offset);
+        });
+    });
+
+    it("decodes geometries and properties", function() {
+        const features = new Map<unknown, ColumnarChunk>();
+        const rows = new Map<unknown, number>();
+        for (const chunk of getChunks(file)) {
+            for (let row = 0; row < chunk.count; row++) {
+                features.set(chunk.getId(row), chunk);
+                rows.set(chunk.getId(row), row);
+            }
+        }
+        const get = (id: string | number) => {
+            const chunk = features.get(id)!;
+            const row = rows.get(id)!;
+            return { properties: chunk.getProperties(row), geometry: chunk.getGeometry(row)! };
+        };
+
+        const europe = get("0");
+        assert.deepEqual(europe.properties, { name: "Europe", population: 100, capital: true });
+        assert.equal(europe.geometry.type, "point");
+        assert.deepEqual(Array.from(europe.geometry.parts[0][0]), [10, 50]);
+
+        const road = get("road");
+        assert.deepEqual(road.properties, { name: "Road", lanes: '{"forward":2}' });
+        assert.equal(road.geometry.type, "line");
+        assert.deepEqual(Array.from(road.geometry.parts[0][0]), [11, 50, 12, 51]);
+
+        // Missing properties are not defined.
+        assert.deepEqual(get("1").properties, { name: "America", population: 200 });
+
+        const australia = get(3);
+        assert.equal(australia.geometry.type, "polygon");
+        assert.equal(australia.geometry.parts.length, 2);
+        assert.equal(australia.geometry.parts[1][0].length, 8);
+        assert.equal(australia.geometry.parts[1][0][0], 130);
+    });
+
+    it("decodes chunks which are not aligned", function() {
+        const shifted = new Uint8Array(file.byteLength + 4);
+        shifted.set(new Uint8Array(file), 4);
+        const chunk = new ColumnarChunk(shifted.buffer, 4);
+
+        assert.equal(chunk.count, getChunks(file)[0].count);
+        assert.deepEqual(chunk.getProperties(0), getChunks(file)[0].getProperties(0));
+    });
+
+    describe("ColumnarDataAdapter", function() {
+        it("processes the features intersecting the tile", function() {
+            const features: Array<{ layer: string; env: MapEnv }> = [];
+            const processor: IGeometryProcessor = {
+                processPointFeature: (layer, extents, geometry, env) =>
+                    features.push({ layer, env }),
+                processLineFeature: (layer, extents, geometry, env) =>
+                    features.push({ layer, env }),
+                processPolygonFeature: (layer, extents, geometry, env) =>
+                    features.push({ layer, env })
+            };
+            const adapter = new ColumnarDataAdapter(processor);
+            assert.isTrue(adapter.canProcess(file));
+            assert.isFalse(adapter.canProcess(new ArrayBuffer(16)));
+
+            adapter.process(file, new DecodeInfo(adapter.id, mercatorProjection, EUROPE_TILE));
+
+            assert.sameMembers(
+                features.map(feature => feature.env.lookup("$id")),
+                ["0", "road"]
+            );
+            for (const feature of features) {
+                assert.equal(feature.layer, "places");
+                assert.equal(feature.env.lookup("$layer"), "places");
+            }
+        });
+
+        it("feeds the styled features to the decoded tile", function() {
+            const styleSet: StyleSet = [
+                {
+                    layer: "places",
+                    when: ["==", ["get", "$geometryType"], "point"],
+                    technique: "circles"
+                },
+                {
+                    layer: "places",
+                    when: ["==", ["get", "$geometryType"], "line"],
+                    technique: "solid-line",
+                    attr: { lineWidth: 1 }
+                }
+            ];
+            const processor = new VectorTileDataProcessor(
+                mercatorProjection,
+                new StyleSetEvaluator(styleSet),
+                false
+            );
+
+            const decodedTile = processor.getDecodedTile(EUROPE_TILE, file);
+
+            assert.sameMembers(
+                decodedTile.techniques.map(technique => technique.name),
+                ["circles", "solid-line"]
+            );
+            assert.isNotEmpty(decodedTile.geometries);
+        });
+    });
+
+    describe("ColumnarDataProvider", function() {
+        it("reads the chunks intersecting tiles", async function() {
+            const downloadManager = new RangeTransferManager(file);
+            const provider = new ColumnarDataProvider({ url: "places.hcol", downloadManager });
+            await provider.connect();
+            assert.isTrue(provider.ready());
+            assert.equal(provider.footer!.chunks.length, 2);
+            assert.equal(provider.getMetadata()!.bounds!.west, -100);
+
+            downloadManager.ranges = [];
+            const tile = (await provider.getTile(EUROPE_TILE)) as ArrayBuffer;
+            const chunks = getChunks(tile);
+            assert.equal(chunks.length, 1);
+            assert.equal(chunks[0].getId(2), "road");
+            assert.equal(downloadManager.ranges.length, 1);
+
+            // The tile covering the whole world reads both chunks with one request.
+            downloadManager.ranges = [];
+            const world = (await provider.getTile(new TileKey(0, 0, 0))) as ArrayBuffer;
+            assert.equal(getChunks(world).length, 2);
+            assert.equal(downloadManager.ranges.length, 1);
+
+            assert.deepEqual(await provider.getTile(new TileKey(2, 0, 2)), {});
+        });
+    });
+});
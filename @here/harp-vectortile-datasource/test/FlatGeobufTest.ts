@@ -0,0 +1,582 @@
+/*
+ * Copyright (C) 2017-2020 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+//    Mocha discourages using arrow functions, see https://mochajs.org/#arrow-functions
+
+import "@here/harp-fetch";
+
+import { MapEnv } from "@here/harp-datasource-protocol/index-decoder";
+import { mercatorProjection, TileKey } from "@here/harp-geoutils";
+import { TransferManager } from "@here/harp-transfer-manager";
+import { assert } from "chai";
+import { ShapeUtils, Vector2 } from "three";
+
+import {
+    FlatGeobufColumnType,
+    FlatGeobufDataProvider,
+    FlatGeobufGeometryType,
+    FlatGeobufTile,
+    getFlatGeobufLevelBounds,
+    readFlatGeobufHeader
+} from "../index";
+import { FlatGeobufDataAdapter } from "../lib/adapters/flatgeobuf/FlatGeobufDataAdapter";
+import { DecodeInfo } from "../lib/DecodeInfo";
+import { IGeometryProcessor, ILineGeometry, IPolygonGeometry } from "../lib/IGeometryProcessor";
+
+type Field =
+    | { type: "uint8" | "uint16" | "uint64"; value: number }
+    | { type: "string"; value: string }
+    | { type: "float64s" | "uint32s"; value: number[] }
+    | { type: "bytes"; value: number[] }
+    | { type: "table"; value: Array<Field | undefined> }
+    | { type: "tables"; value: Array<Array<Field | undefined>> };
+
+/**
+ * Minimal FlatBuffers writer placing referenced objects after the referencing ones.
+ */
+class FlatBufferWriter {
+    readonly view = new DataView(new ArrayBuffer(1 << 16));
+    position = 0;
+
+    write(fields: Array<Field | undefined>): Uint8Array {
+        this.position = 4;
+        this.view.setUint32(0, this.writeTable(fields), true);
+        return new Uint8Array(this.view.buffer, 0, this.position);
+    }
+
+    private align() {
+        this.position = Math.ceil(this.position / 4) * 4;
+    }
+
+    private writeTable(fields: Array<Field | undefined>): number {
+        const vtable = this.position;
+        this.view.setUint16(vtable, 4 + fields.length * 2, true);
+        this.view.setUint16(vtable + 2, 4 + fields.length * 8, true);
+        this.position += 4 + fields.length * 2;
+        this.align();
+        const table = this.position;
+        this.view.setInt32(table, table - vtable, true);
+        this.position += 4 + fields.length * 8;
+
+        fields.forEach((field, index) => {
+            const slot = table + 4 + index * 8;
+            this.view.setUint16(
+                vtable + 4 + index * 2,
+                field === undefined ? 0 : slot - table,
+                true
+            );
+            switch (field?.type) {
+                case "uint8":
+                    this.view.setUint8(slot, field.value);
+                    break;
+                case "uint16":
+                    this.view.setUint16(slot, field.value, true);
+                    break;
+                case "uint64":
+                    this.view.setUint32(slot, field.value, true);
+                    break;
+                case "string":
+                case "float64s":
+                case "uint32s":
+                case "bytes":
+                case "table":
+                case "tables":
+                    this.view.setUint32(slot, this.writeObject(field) - slot, true);
+                    break;
+            }
+        });
+        return table;
+    }
+
+    private writeObject(field: Field): number {
+        this.align();
+        const start = this.position;
+        switch (field.type) {
+            case "string": {
+                const bytes = new TextEncoder().encode(field.value);
+                this.writeBytes(Array.from(bytes));
+                break;
+            }
+            case "bytes":
+                this.writeBytes(field.value);
+                break;
+            case "float64s":
+                this.view.setUint32(start, field.value.length, true);
+                field.value.forEach((value, i) =>
+                    this.view.setFloat64(start + 4 + i * 8, value, true)
+                );
+                this.position += 4 + field.value.length * 8;
+                break;
+            case "uint32s":
+                this.view.setUint32(start, field.value.length, true);
+                field.value.forEach((value, i) =>
+                    this.view.setUint32(start + 4 + i * 4, value, true)
+                );
+                this.position += 4 + field.value.length * 4;
+                break;
+            case "table":
+                return this.writeTable(field.value);
+            case "tables": {
+                this.view.setUint32(start, field.value.length, true);
+                this.position += 4 + field.value.length * 4;
+                field.value.forEach((table, i) => {
+                    const element = start + 4 + i * 4;
+                    this.view.setUint32(element, this.writeTable(table) - element, true);
+                });
+                break;
+            }
+        }
+        return start;
+    }
+
+    private writeBytes(bytes: number[]) {
+        this.view.setUint32(this.position, bytes.length, true);
+        bytes.forEach((byte, i) => this.view.setUint8(this.position + 4 + i, byte));
+        this.position += 4 + bytes.length;
+    }
+}
+
+interface TestGeometry {
+    type: FlatGeobufGeometryType;
+    xy?: number[];
+    ends?: number[];
+    parts?: TestGeometry[];
+}
+
+interface TestFeature {
+    geometry: TestGeometry;
+    name: string;
+    rank: number;
+}
+
+function geometryFields(geometry: TestGeometry): Array<Field | undefined> {
+    return [
+        geometry.ends && { type: "uint32s", value: geometry.ends },
+        geometry.xy && { type: "float64s", value: geometry.xy },
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        { type: "uint8", value: geometry.type },
+        geometry.parts && { type: "tables", value: geometry.parts.map(geometryFields) }
+    ];
+}
+
+function getXY(geometry: TestGeometry): number[] {
+    return (geometry.xy ?? []).concat(...(geometry.parts ?? []).map(getXY));
+}
+
+function getBBox(geometry: TestGeometry): number[] {
+    const xy = getXY(geometry);
+    const x = xy.filter((_, i) => i % 2 === 0);
+    const y = xy.filter((_, i) => i % 2 === 1);
+    return [Math.min(...x), Math.min(...y), Math.max(...x), Math.max(...y)];
+}
+
+function encodeProperties(feature: TestFeature): number[] {
+    const view = new DataView(new ArrayBuffer(256));
+    const name = new TextEncoder().encode(feature.name);
+    view.setUint16(0, 0, true);
+    view.setUint32(2, name.length, true);
+    name.forEach((byte, i) => view.setUint8(6 + i, byte));
+    let position = 6 + name.length;
+    view.setUint16(position, 1, true);
+    view.setInt32(position + 2, feature.rank, true);
+    position += 6;
+    return Array.from(new Uint8Array(view.buffer, 0, position));
+}
+
+/**
+ * Creates a FlatGeobuf file of the features in the given order, with an index if `nodeSize` is
+ * not `0`.
+ */
+function createFlatGeobuf(features: TestFeature[], nodeSize: number): ArrayBuffer {
+    const chunks: Uint8Array[] = [new Uint8Array([0x66, 0x67, 0x62, 0x03, 0x66, 0x67, 0x62, 0x01])];
+    const sizePrefixed = (bytes: Uint8Array) => {
+        const chunk = new Uint8Array(bytes.length + 4);
+        new DataView(chunk.buffer).setUint32(0, bytes.length, true);
+        chunk.set(bytes, 4);
+        return chunk;
+    };
+
+    const bboxes = features.map(feature => getBBox(feature.geometry));
+    chunks.push(
+        sizePrefixed(
+            new FlatBufferWriter().write([
+                { type: "string", value: "places" },
+                {
+                    type: "float64s",
+                    value: [
+                        Math.min(...bboxes.map(b => b[0])),
+                        Math.min(...bboxes.map(b => b[1])),
+                        Math.max(...bboxes.map(b => b[2])),
+                        Math.max(...bboxes.map(b => b[3]))
+                    ]
+                },
+                { type: "uint8", value: FlatGeobufGeometryType.Unknown },
+                undefined,
+                undefined,
+                undefined,
+                undefined,
+                {
+                    type: "tables",
+                    value: [
+                        [
+                            { type: "string", value: "name" },
+                            { type: "uint8", value: FlatGeobufColumnType.String }
+                        ],
+                        [
+                            { type: "string", value: "rank" },
+                            { type: "uint8", value: FlatGeobufColumnType.Int }
+                        ]
+                    ]
+                },
+                { type: "uint64", value: features.length },
+                { type: "uint16", value: nodeSize }
+            ])
+        )
+    );
+
+    const featureChunks = features.map(feature =>
+        sizePrefixed(
+            new FlatBufferWriter().write([
+                { type: "table", value: geometryFields(feature.geometry) },
+                { type: "bytes", value: encodeProperties(feature) }
+            ])
+        )
+    );
+
+    if (nodeSize > 0) {
+        const levelBounds = getFlatGeobufLevelBounds(features.length, nodeSize);
+        const nodes: Array<{ bbox: number[]; offset: number }> = [];
+        let offset = 0;
+        featureChunks.forEach((chunk, i) => {
+            nodes[levelBounds[0][0] + i] = { bbox: bboxes[i], offset };
+            offset += chunk.length;
+        });
+        for (let level = 1; level < levelBounds.length; level++) {
+            const [childStart, childEnd] = levelBounds[level - 1];
+            const [start, end] = levelBounds[level];
+            for (let i = start; i < end; i++) {
+                const first = childStart + (i - start) * nodeSize;
+                const children = nodes.slice(first, Math.min(first + nodeSize, childEnd));
+                nodes[i] = {
+                    bbox: [
+                        Math.min(...children.map(node => node.bbox[0])),
+                        Math.min(...children.map(node => node.bbox[1])),
+                        Math.max(...children.map(node => node.bbox[2])),
+                        Math.max(...children.map(node => node.bbox[3]))
+                    ],
+                    offset: first
+                };
+            }
+        }
+        const index = new Uint8Array(nodes.length * 40);
+        const view = new DataView(index.buffer);
+        nodes.forEach((node, i) => {
+            node.bbox.forEach((value, j) => view.setFloat64(i * 40 + j * 8, value, true));
+            view.setUint32(i * 40 + 32, node.offset, true);
+        });
+        chunks.push(index);
+    }
+    chunks.push(...featureChunks);
+
+    const file = new Uint8Array(chunks.reduce((length, chunk) => length + chunk.length, 0));
+    let position = 0;
+    for (const chunk of chunks) {
+        file.set(chunk, position);
+        position += chunk.length;
+    }
+    return file.buffer;
+}
+
+const FEATURES: TestFeature[] = [
+    {
+        geometry: { type: FlatGeobufGeometryType.Point, xy: [10, 50] },
+        name: "Point",
+        rank: 1
+    },
+    {
+        // A clockwise outer ring and a counter-clockwise hole.
+        geometry: {
+            type: FlatGeobufGeometryType.Polygon,
+            xy: [12, 48, 12, 52, 16, 52, 16, 48, 12, 48, 13, 49, 15, 49, 15, 51, 13, 51, 13, 49],
+            ends: [5, 10]
+        },
+        name: "Polygon",
+        rank: 2
+    },
+    {
+        geometry: {
+            type: FlatGeobufGeometryType.MultiLineString,
+            xy: [-120, 40, -110, 45, -100, 40, -100, 30],
+            ends: [2, 4]
+        },
+        name: "MultiLineString",
+        rank: 3
+    },
+    {
+        geometry: { type: FlatGeobufGeometryType.Point, xy: [-100.5, 40.5] },
+        name: "Point in America",
+        rank: 4
+    },
+    {
+        geometry: {
+            type: FlatGeobufGeometryType.MultiPolygon,
+            parts: [
+                {
+                    type: FlatGeobufGeometryType.Polygon,
+                    xy: [120, -30, 125, -30, 125, -25, 120, -30]
+                },
+                {
+                    type: FlatGeobufGeometryType.Polygon,
+                    xy: [130, -30, 135, -30, 135, -25, 130, -30]
+                }
+            ]
+        },
+        name: "MultiPolygon",
+        rank: 5
+    }
+];
+
+const EUROPE_TILE = new TileKey(1, 2, 2);
+const AMERICA_TILE = new TileKey(1, 0, 2);
+
+interface ProcessedFeature {
+    type: string;
+    layer: string;
+    geometry: Vector2[] | ILineGeometry[] | IPolygonGeometry[];
+    env: MapEnv;
+}
+
+function createProcessor(features: ProcessedFeature[]): IGeometryProcessor {
+    return {
+        processPointFeature(layer, extents, geometry, env) {
+            features.push({ type: "point", layer, geometry, env });
+        },
+        processLineFeature(layer, extents, geometry, env) {
+            features.push({ type: "line", layer, geometry, env });
+        },
+        processPolygonFeature(layer, extents, geometry, env) {
+            features.push({ type: "polygon", layer, geometry, env });
+        }
+    };
+}
+
+class RangeTransferManager extends TransferManager {
+    ranges: string[] = [];
+    ignoreRanges = false;
+
+    constructor(readonly file: ArrayBuffer) {
+        super();
+    }
+
+    /** @override */
+    download(url: string, init?: RequestInit): Promise<Response> {
+        const range = (init?.headers as any).Range as string;
+        this.ranges.push(range);
+        const [start, end] = range.replace("bytes=", "").split("-");
+        const buffer = this.ignoreRanges
+            ? this.file
+            : start === ""
+            ? this.file.slice(-Number(end))
+            : this.file.slice(Number(start), end === "" ? undefined : Number(end) + 1);
+        return Promise.resolve(({
+            ok: true,
+            status: this.ignoreRanges ? 200 : 206,
+            statusText: "",
+            arrayBuffer: () => Promise.resolve(buffer)
+        } as any) as Response);
+    }
+}
+
+describe("FlatGeobuf", function() {
+    const file = createFlatGeobuf(FEATURES, 2);
+
+    it("computes the levels of the packed R-tree", function() {
+        assert.deepEqual(getFlatGeobufLevelBounds(5, 2), [
+            [6, 11],
+            [3, 6],
+            [1, 3],
+            [0, 1]
+        ]);
+        assert.deepEqual(getFlatGeobufLevelBounds(1, 16), [[0, 1]]);
+    });
+
+    it("reads the header", function() {
+        const header = readFlatGeobufHeader(file)!;
+
+        assert.equal(header.name, "places");
+        assert.deepEqual(header.envelope, [-120, -30, 135, 52]);
+        assert.equal(header.geometryType, FlatGeobufGeometryType.Unknown);
+        assert.deepEqual(header.columns, [
+            { name: "name", type: FlatGeobufColumnType.String },
+            { name: "rank", type: FlatGeobufColumnType.Int }
+        ]);
+        assert.equal(header.featuresCount, 5);
+        assert.equal(header.indexNodeSize, 2);
+        assert.equal(header.indexByteLength, 11 * 40);
+        assert.isUndefined(readFlatGeobufHeader(file.slice(0, header.byteLength - 1)));
+        assert.throws(() => readFlatGeobufHeader(new ArrayBuffer(16)));
+    });
+
+    describe("FlatGeobufDataAdapter", function() {
+        let features: ProcessedFeature[];
+        let adapter: FlatGeobufDataAdapter;
+
+        beforeEach(function() {
+            features = [];
+            adapter = new FlatGeobufDataAdapter(createProcessor(features));
+        });
+
+        it("processes complete files", function() {
+            assert.isTrue(adapter.canProcess(file));
+            assert.isFalse(adapter.canProcess(new ArrayBuffer(16)));
+            assert.isFalse(adapter.canProcess({ type: "FeatureCollection", features: [] }));
+
+            adapter.process(file, new DecodeInfo(adapter.id, mercatorProjection, EUROPE_TILE));
+
+            // The point in America is not in the tile.
+            assert.deepEqual(
+                features.map(feature => feature.env.lookup("name")),
+                ["Point", "Polygon", "MultiLineString", "MultiPolygon"]
+            );
+            assert.deepEqual(
+                features.map(feature => feature.env.lookup("$id")),
+                [0, 1, 2, 4]
+            );
+            assert.deepEqual(
+                features.map(feature => feature.type),
+                ["point", "polygon", "line", "polygon"]
+            );
+            for (const feature of features) {
+                assert.equal(feature.layer, "places");
+                assert.equal(feature.env.lookup("$layer"), "places");
+                assert.equal(feature.env.lookup("$geometryType"), feature.type);
+            }
+            assert.equal(features[0].env.lookup("rank"), 1);
+
+            const lines = features[2].geometry as ILineGeometry[];
+            assert.equal(lines.length, 2);
+            assert.equal(lines[1].untiledPositions![1].latitude, 30);
+
+            const polygons = features[3].geometry as IPolygonGeometry[];
+            assert.equal(polygons.length, 2);
+        });
+
+        it("orients outer rings and holes like OMV tiles", function() {
+            adapter.process(file, new DecodeInfo(adapter.id, mercatorProjection, EUROPE_TILE));
+
+            const [polygon] = features[1].geometry as IPolygonGeometry[];
+            assert.equal(polygon.rings.length, 2);
+            assert.isAbove(ShapeUtils.area(polygon.rings[0]), 0);
+            assert.isBelow(ShapeUtils.area(polygon.rings[1]), 0);
+        });
+
+        it("processes tiles", function() {
+            const tile: FlatGeobufTile = {
+                header: file.slice(0, readFlatGeobufHeader(file)!.byteLength),
+                features: new ArrayBuffer(0),
+                layer: "custom"
+            };
+            assert.isTrue(adapter.canProcess(tile));
+
+            adapter.process(tile, new DecodeInfo(adapter.id, mercatorProjection, EUROPE_TILE));
+            assert.equal(features.length, 0);
+        });
+    });
+
+    describe("FlatGeobufDataProvider", function() {
+        async function getFeatures(
+            provider: FlatGeobufDataProvider,
+            tileKey: TileKey
+        ): Promise<ProcessedFeature[]> {
+            const tile = await provider.getTile(tileKey);
+            const features: ProcessedFeature[] = [];
+            const adapter = new FlatGeobufDataAdapter(createProcessor(features));
+            if (adapter.canProcess(tile)) {
+                adapter.process(
+                    tile as FlatGeobufTile,
+                    new DecodeInfo(adapter.id, mercatorProjection, tileKey)
+                );
+            }
+            return features;
+        }
+
+        it("reads the features of tiles from the index", async function() {
+            const downloadManager = new RangeTransferManager(file);
+            const provider = new FlatGeobufDataProvider({ url: "places.fgb", downloadManager });
+            await provider.connect();
+            assert.isTrue(provider.ready());
+            assert.equal(provider.getMetadata()!.bounds!.north, 52);
+
+            downloadManager.ranges = [];
+            const europe = await getFeatures(provider, EUROPE_TILE);
+            assert.deepEqual(
+                europe.map(feature => feature.env.lookup("$id")),
+                [0, 1]
+            );
+            const firstRequestCount = downloadManager.ranges.length;
+
+            downloadManager.ranges = [];
+            const america = await getFeatures(provider, AMERICA_TILE);
+            assert.deepEqual(
+                america.map(feature => feature.env.lookup("name")),
+                ["MultiLineString", "Point in America"]
+            );
+            assert.deepEqual(
+                america.map(feature => feature.env.lookup("$id")),
+                [2, 3]
+            );
+            // The nodes above the leaves are cached.
+            assert.isBelow(downloadManager.ranges.length, firstRequestCount);
+
+            const australia = await getFeatures(provider, new TileKey(2, 3, 2));
+            assert.deepEqual(
+                australia.map(feature => feature.env.lookup("$id")),
+                [4]
+            );
+
+            assert.deepEqual(await provider.getTile(new TileKey(2, 0, 2)), {});
+        });
+
+        it("reads complete files if the server doesn't support range requests", async function() {
+            const downloadManager = new RangeTransferManager(file);
+            downloadManager.ignoreRanges = true;
+            const provider = new FlatGeobufDataProvider({
+                url: "places.fgb",
+                layer: "custom",
+                downloadManager
+            });
+            await provider.connect();
+
+            const features = await getFeatures(provider, AMERICA_TILE);
+
+            assert.deepEqual(
+                features.map(feature => feature.env.lookup("$id")),
+                [2, 3]
+            );
+            assert.equal(features[0].layer, "custom");
+            assert.equal(downloadManager.ranges.length, 1);
+        });
+
+        it("reads all features of files without index", async function() {
+            const downloadManager = new RangeTransferManager(createFlatGeobuf(FEATURES, 0));
+            const provider = new FlatGeobufDataProvider({ url: "places.fgb", downloadManager });
+            await provider.connect();
+
+            const features = await getFeatures(provider, AMERICA_TILE);
+            await getFeatures(provider, EUROPE_TILE);
+
+            assert.deepEqual(
+                features.map(feature => feature.env.lookup("$id")),
+                [1, 2, 3, 4]
+            );
+            // The header and the features are read once.
+            assert.equal(downloadManager.ranges.length, 2);
+        });
+    });
+});
@@ -82,6 +82,22 @@ describe("DataProviders", function() {
         );
     });
 
+    it("Creates a OmvDataSource with a REST based DataProvider from a TileJSON", function() {
+        const tileJson = { tiles: ["https://some.base.url/{z}/{x}/{y}.pbf"] };
+        const omvDataSource = new VectorTileDataSource({
+            decoder: new VectorTileDecoder(),
+            tileJson
+        });
+        const provider = omvDataSource.dataProvider();
+        assert.instanceOf(provider, OmvRestClient);
+
+        const omvRestClientProvider = provider as OmvRestClient;
+        assert.equal(omvRestClientProvider.params.tileJson, tileJson);
+        // The defaults of the HERE Vector Tile service are not applied.
+        assert.isUndefined(omvRestClientProvider.params.baseUrl);
+        assert.isUndefined(omvRestClientProvider.params.authenticationMethod);
+    });
+
     it("Creates OmvDataSource with custom DataProvider, ignoring other attributes", function() {
         const mockDataProvider = new MockDataProvider();
         const omvDataSource = new VectorTileDataSource({
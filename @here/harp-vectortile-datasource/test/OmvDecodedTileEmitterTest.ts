@@ -7,8 +7,10 @@
 // Mocha discourages using arrow functions, see https://mochajs.org/#arrow-functions
 
 import {
+    DecodedTile,
     Geometry,
     GeometryType,
+    getFeatureId,
     isStandardTechnique,
     StyleSet,
     TextureCoordinateType
@@ -39,16 +41,8 @@ class OmvDecodedTileEmitterTest extends VectorTileDataEmitter {
 }
 
 describe("OmvDecodedTileEmitter", function() {
-    function createTileEmitter(): {
-        tileEmitter: OmvDecodedTileEmitterTest;
-        styleSetEvaluator: StyleSetEvaluator;
-    } {
-        const tileKey = TileKey.fromRowColumnLevel(0, 0, 1);
-        const projection = mercatorProjection;
-
-        const decodeInfo = new DecodeInfo("test", projection, tileKey);
-
-        const styleSet: StyleSet = [
+    function createTileEmitter(
+        styleSet: StyleSet = [
             {
                 when: "1",
                 technique: "standard",
@@ -56,7 +50,15 @@ describe("OmvDecodedTileEmitter", function() {
                     textureCoordinateType: TextureCoordinateType.TileSpace
                 }
             }
-        ];
+        ],
+        tileKey: TileKey = TileKey.fromRowColumnLevel(0, 0, 1)
+    ): {
+        tileEmitter: OmvDecodedTileEmitterTest;
+        styleSetEvaluator: StyleSetEvaluator;
+    } {
+        const projection = mercatorProjection;
+
+        const decodeInfo = new DecodeInfo("test", projection, tileKey);
 
         const styleSetEvaluator = new StyleSetEvaluator(styleSet);
 
@@ -179,6 +181,223 @@ describe("OmvDecodedTileEmitter", function() {
         assert.closeTo(texCoords[7], 1, eps);
     });
 
+    it("creates weight attribute for heatmap points", function() {
+        const { tileEmitter, styleSetEvaluator } = createTileEmitter([
+            {
+                when: "1",
+                technique: "heatmap",
+                attr: {
+                    weight: ["*", ["get", "magnitude"], 2]
+                }
+            }
+        ]);
+
+        const storageLevel = 10;
+        for (const magnitude of [1, 3]) {
+            const context = {
+                env: new MapEnv({ layer: "mock-layer", magnitude }),
+                storageLevel,
+                zoomLevel: storageLevel
+            };
+            tileEmitter.processPointFeature(
+                "mock-layer",
+                4096,
+                [new Vector2(100, 100), new Vector2(200, 200)],
+                context,
+                styleSetEvaluator.getMatchingTechniques(context.env)
+            );
+        }
+
+        const { geometries } = tileEmitter.getDecodedTile();
+
+        assert.equal(geometries.length, 1);
+        assert.equal(geometries[0].type, GeometryType.Point);
+        checkVertexAttribute(geometries[0], 0, "position", 4);
+        const weights = checkVertexAttribute(geometries[0], 1, "weight", 4);
+        assert.deepEqual(Array.from(weights), [2, 2, 6, 6]);
+    });
+
+    describe("polygon labels", function() {
+        const storageLevel = 10;
+        const context = {
+            env: new MapEnv({ layer: "mock-layer", name: "Lake" }),
+            storageLevel,
+            zoomLevel: storageLevel
+        };
+
+        function processPolygon(
+            polygonLabelPlacement: "pole" | "medial-axis",
+            coordinates: number[][],
+            tileKey?: TileKey,
+            polygonContext = context
+        ): DecodedTile {
+            const { tileEmitter, styleSetEvaluator } = createTileEmitter(
+                [
+                    {
+                        when: "1",
+                        technique: "text",
+                        attr: { text: ["get", "name"], polygonLabelPlacement }
+                    }
+                ],
+                tileKey
+            );
+            const polygons: IPolygonGeometry[] = [
+                { rings: [coordinates.map(([x, y]) => new Vector2(x, y))] }
+            ];
+            tileEmitter.processPolygonFeature(
+                "mock-layer",
+                4096,
+                polygons,
+                polygonContext,
+                styleSetEvaluator.getMatchingTechniques(polygonContext.env),
+                undefined
+            );
+            return tileEmitter.getDecodedTile();
+        }
+
+        it("creates text at pole of inaccessibility", function() {
+            const decodedTile = processPolygon("pole", [
+                [100, 100],
+                [1100, 100],
+                [1100, 1100],
+                [100, 1100]
+            ]);
+
+            assert.isUndefined(decodedTile.textPathGeometries);
+            assert.lengthOf(decodedTile.textGeometries!, 1);
+            const textGeometry = decodedTile.textGeometries![0];
+            assert.deepEqual(textGeometry.stringCatalog, ["Lake"]);
+            assert.deepEqual(textGeometry.texts, [0]);
+        });
+
+        it("skips labels outside of the tile", function() {
+            // The polygon crosses the tile border, but its pole is in the neighbor tile.
+            const decodedTile = processPolygon("pole", [
+                [3900, 100],
+                [5100, 100],
+                [5100, 1100],
+                [3900, 1100]
+            ]);
+
+            assert.isUndefined(decodedTile.textGeometries);
+        });
+
+        describe("polygons clipped by neighbouring tiles", function() {
+            // The polygon spans x = [3900, 5100] in the coordinates of the left tile.
+            const leftTileKey = TileKey.fromRowColumnLevel(0, 0, 1);
+            const rightTileKey = TileKey.fromRowColumnLevel(0, 1, 1);
+            const leftPart = [
+                [3900, 100],
+                [4096, 100],
+                [4096, 1100],
+                [3900, 1100]
+            ];
+            const rightPart = [
+                [0, 100],
+                [1004, 100],
+                [1004, 1100],
+                [0, 1100]
+            ];
+
+            it("labels the parts with the feature id", function() {
+                const featureContext = {
+                    ...context,
+                    env: new MapEnv({ layer: "mock-layer", name: "Lake", $id: 42 })
+                };
+
+                const labelIds = [
+                    processPolygon("pole", leftPart, leftTileKey, featureContext),
+                    processPolygon("pole", rightPart, rightTileKey, featureContext)
+                ].map(decodedTile => {
+                    assert.lengthOf(decodedTile.textGeometries!, 1);
+                    return getFeatureId(decodedTile.textGeometries![0].objInfos![0]);
+                });
+
+                assert.deepEqual(labelIds, [42, 42]);
+            });
+
+            it("skips parts too narrow for the label", function() {
+                // Only a sliver of the polygon spanning x = [4056, 5100] is in the left tile.
+                const decodedTile = processPolygon(
+                    "pole",
+                    [
+                        [4056, 100],
+                        [4096, 100],
+                        [4096, 1100],
+                        [4056, 1100]
+                    ],
+                    leftTileKey
+                );
+
+                assert.isUndefined(decodedTile.textGeometries);
+            });
+        });
+
+        it("labels separate polygons with identical attributes without feature id", function() {
+            const { tileEmitter, styleSetEvaluator } = createTileEmitter([
+                {
+                    when: "1",
+                    technique: "text",
+                    attr: { text: ["get", "name"], polygonLabelPlacement: "pole" }
+                }
+            ]);
+            for (const x of [100, 2100]) {
+                const polygonContext = {
+                    ...context,
+                    env: new MapEnv({ layer: "mock-layer", name: "Mill Pond", kind: "water" })
+                };
+                const ring = [
+                    [x, 100],
+                    [x + 1000, 100],
+                    [x + 1000, 1100],
+                    [x, 1100]
+                ].map(([px, py]) => new Vector2(px, py));
+                tileEmitter.processPolygonFeature(
+                    "mock-layer",
+                    4096,
+                    [{ rings: [ring] }],
+                    polygonContext,
+                    styleSetEvaluator.getMatchingTechniques(polygonContext.env),
+                    undefined
+                );
+            }
+            const decodedTile = tileEmitter.getDecodedTile();
+
+            // Labels without feature id are only deduplicated if they are close to each other.
+            assert.lengthOf(decodedTile.textGeometries!, 1);
+            const objInfos = decodedTile.textGeometries![0].objInfos!;
+            assert.lengthOf(objInfos, 2);
+            assert.deepEqual(objInfos.map(getFeatureId), [0, 0]);
+        });
+
+        it("creates path label along medial axis", function() {
+            const decodedTile = processPolygon("medial-axis", [
+                [100, 1000],
+                [3000, 1000],
+                [3000, 1400],
+                [100, 1400]
+            ]);
+
+            assert.isUndefined(decodedTile.textGeometries);
+            assert.lengthOf(decodedTile.textPathGeometries!, 1);
+            const textPathGeometry = decodedTile.textPathGeometries![0];
+            assert.equal(textPathGeometry.text, "Lake");
+            assert.isAbove(textPathGeometry.path.length, 6);
+        });
+
+        it("falls back to pole if medial axis is too short", function() {
+            const decodedTile = processPolygon("medial-axis", [
+                [100, 100],
+                [150, 100],
+                [150, 150],
+                [100, 150]
+            ]);
+
+            assert.isUndefined(decodedTile.textPathGeometries);
+            assert.lengthOf(decodedTile.textGeometries!, 1);
+        });
+    });
+
     it("Test splitJaggyLines for short paths", function() {
         const { tileEmitter } = createTileEmitter();
 
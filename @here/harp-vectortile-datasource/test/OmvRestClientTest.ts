@@ -13,7 +13,14 @@ import { TransferManager } from "@here/harp-transfer-manager";
 import { assert } from "chai";
 import * as sinon from "sinon";
 
-import { APIFormat, AuthenticationMethod, AuthenticationTypeBearer, OmvRestClient } from "../index";
+import {
+    APIFormat,
+    AuthenticationMethod,
+    AuthenticationTypeAccessToken,
+    AuthenticationTypeBearer,
+    OmvRestClient,
+    TileJson
+} from "../index";
 
 function createMockDownloadResponse(tileUrl: string) {
     const mock = {
@@ -72,6 +79,18 @@ describe("OmvRestClient", function() {
         );
     });
 
+    it("supports time in url pattern", async function() {
+        const restClient = new OmvRestClient({
+            url: "https://some.base.url/{time}/{z}/{x}/{y}.mvt",
+            downloadManager: mockDownloadManager
+        });
+        await restClient.getTile(new TileKey(1, 2, 3), undefined, Date.UTC(2020, 5, 1));
+        assert.equal(
+            downloadSpy.args[0][0],
+            "https://some.base.url/2020-06-01T00%3A00%3A00.000Z/3/2/1.mvt"
+        );
+    });
+
     it("generates proper Url with HEREV1 Format", async function() {
         const restClient = new OmvRestClient({
             baseUrl: "https://some.base.url",
@@ -206,4 +225,103 @@ describe("OmvRestClient", function() {
             "https://some.base.url/3/2/1/omv?customKey=12345&first=abc&second=xyz"
         );
     });
+
+    describe("TileJSON", function() {
+        const tileJson: TileJson = {
+            tilejson: "2.2.0",
+            tiles: ["https://a.tiles.url/{z}/{x}/{y}.pbf", "https://b.tiles.url/{z}/{x}/{y}.pbf"],
+            minzoom: 2,
+            maxzoom: 14,
+            bounds: [5, 45, 15, 55],
+            attribution: '<a href="https://www.openstreetmap.org/copyright">© OpenStreetMap</a>'
+        };
+
+        it("requests tiles from the TileJSON URL templates", async function() {
+            const restClient = new OmvRestClient({
+                tileJson,
+                downloadManager: mockDownloadManager
+            });
+            assert.isFalse(restClient.ready());
+
+            await restClient.connect();
+            assert.isTrue(restClient.ready());
+            await restClient.getTile(new TileKey(1, 2, 3));
+            await restClient.getTile(new TileKey(1, 3, 3));
+
+            assert.equal(downloadSpy.args[0][0], "https://b.tiles.url/3/2/1.pbf");
+            assert.equal(downloadSpy.args[1][0], "https://a.tiles.url/3/3/1.pbf");
+        });
+
+        it("flips the rows of TMS tiles", async function() {
+            const restClient = new OmvRestClient({
+                tileJson: { ...tileJson, tiles: [tileJson.tiles[0]], scheme: "tms" },
+                downloadManager: mockDownloadManager
+            });
+            await restClient.connect();
+            await restClient.getTile(new TileKey(1, 2, 3));
+
+            assert.equal(downloadSpy.args[0][0], "https://a.tiles.url/3/2/6.pbf");
+        });
+
+        it("provides the TileJSON metadata", async function() {
+            const restClient = new OmvRestClient({
+                tileJson,
+                downloadManager: mockDownloadManager
+            });
+            assert.isUndefined(restClient.getMetadata());
+
+            await restClient.connect();
+            const metadata = restClient.getMetadata()!;
+            assert.equal(metadata.minZoom, 2);
+            assert.equal(metadata.maxZoom, 14);
+            assert.equal(metadata.bounds!.west, 5);
+            assert.equal(metadata.bounds!.north, 55);
+            assert.deepEqual(metadata.copyrightInfo, [
+                {
+                    id: "OpenStreetMap",
+                    label: "OpenStreetMap",
+                    link: "https://www.openstreetmap.org/copyright"
+                }
+            ]);
+        });
+
+        it("downloads the TileJSON with authentication", async function() {
+            const downloadJsonStub = sinon
+                .stub(mockDownloadManager, "downloadJson")
+                .resolves(tileJson);
+            try {
+                const restClient = new OmvRestClient({
+                    tileJson: "https://some.base.url/tiles.json",
+                    downloadManager: mockDownloadManager,
+                    authenticationCode: "12345",
+                    authenticationMethod: AuthenticationTypeAccessToken,
+                    urlParams: { first: "abc" }
+                });
+                await restClient.connect();
+
+                assert.equal(
+                    downloadJsonStub.args[0][0],
+                    "https://some.base.url/tiles.json?access_token=12345&first=abc"
+                );
+                assert.deepEqual(restClient.tileJson, tileJson);
+            } finally {
+                downloadJsonStub.restore();
+            }
+        });
+
+        it("rejects TileJSON without tile URLs", async function() {
+            const restClient = new OmvRestClient({
+                tileJson: { tiles: [] },
+                downloadManager: mockDownloadManager
+            });
+            let error: Error | undefined;
+            try {
+                await restClient.connect();
+            } catch (e) {
+                error = e;
+            }
+            assert.instanceOf(error, Error);
+            assert.isFalse(restClient.ready());
+        });
+    });
 });
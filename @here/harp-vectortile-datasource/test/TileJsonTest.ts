@@ -0,0 +1,89 @@
+/*
+ * Copyright (C) 2017-2020 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+//    Mocha discourages using arrow functions, see https://mochajs.org/#arrow-functions
+
+import { StyleSet } from "@here/harp-datasource-protocol";
+import { assert } from "chai";
+
+import { getTileJsonMetadata, getUnknownLayers, isTileJson } from "../lib/TileJson";
+
+describe("TileJson", function() {
+    describe("isTileJson", function() {
+        it("requires tile URL templates", function() {
+            assert.isTrue(isTileJson({ tiles: ["https://tiles.url/{z}/{x}/{y}.pbf"] }));
+            assert.isFalse(isTileJson({ tiles: [] }));
+            assert.isFalse(isTileJson({ tiles: [42] }));
+            assert.isFalse(isTileJson({ tilejson: "2.2.0" }));
+            assert.isFalse(isTileJson(null));
+        });
+    });
+
+    describe("getTileJsonMetadata", function() {
+        it("converts bounds crossing the antimeridian", function() {
+            const metadata = getTileJsonMetadata({
+                tiles: ["https://tiles.url/{z}/{x}/{y}.pbf"],
+                bounds: [170, -50, -170, -30]
+            });
+
+            assert.equal(metadata.bounds!.west, 170);
+            // GeoBox extends boxes crossing the antimeridian east of 180 degrees.
+            assert.equal(metadata.bounds!.east, 190);
+            assert.equal(metadata.bounds!.south, -50);
+            assert.equal(metadata.bounds!.north, -30);
+        });
+
+        it("ignores world bounds, invalid bounds and empty attributions", function() {
+            const tiles = ["https://tiles.url/{z}/{x}/{y}.pbf"];
+
+            assert.isUndefined(
+                getTileJsonMetadata({ tiles, bounds: [-180, -85.0511, 180, 85.0511] }).bounds
+            );
+            assert.isUndefined(getTileJsonMetadata({ tiles, bounds: [0, 0, 1] as any }).bounds);
+            assert.isUndefined(getTileJsonMetadata({ tiles, attribution: "" }).copyrightInfo);
+        });
+    });
+
+    describe("getUnknownLayers", function() {
+        const vectorLayers = [{ id: "water" }, { id: "roads" }, { id: "places" }];
+
+        it("returns the unknown layers of the styles", function() {
+            const styleSet: StyleSet = [
+                { layer: "water", technique: "fill" },
+                { layer: "landuse", technique: "fill" },
+                { when: "$layer == 'roads' && kind == 'major'", technique: "solid-line" },
+                { when: "$layer in ['buildings', 'places']", technique: "text" },
+                { when: ["==", ["get", "$layer"], "boundaries"], technique: "solid-line" },
+                { when: "kind == 'water'", technique: "fill" }
+            ];
+
+            assert.sameMembers(getUnknownLayers(styleSet, vectorLayers), [
+                "landuse",
+                "buildings",
+                "boundaries"
+            ]);
+        });
+
+        it("reads the labels of match expressions", function() {
+            const styleSet: StyleSet = [
+                {
+                    when: [
+                        "match",
+                        ["get", "$layer"],
+                        ["water", "ocean"],
+                        true,
+                        "roads",
+                        true,
+                        false
+                    ],
+                    technique: "fill"
+                }
+            ];
+
+            assert.deepEqual(getUnknownLayers(styleSet, vectorLayers), ["ocean"]);
+        });
+    });
+});
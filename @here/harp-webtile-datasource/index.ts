@@ -14,3 +14,7 @@
 
 export * from "./lib/WebTileDataSource";
 export * from "./lib/HereWebTileDataSource";
+export * from "./lib/RasterTileProvider";
+export * from "./lib/UrlTileProvider";
+export * from "./lib/WmsTileProvider";
+export * from "./lib/WmtsTileProvider";
@@ -0,0 +1,107 @@
+/*
+ * Copyright (C) 2017-2020 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { TileKey } from "@here/harp-geoutils";
+import { CopyrightInfo, RequestHeaders, TextureLoader, Tile } from "@here/harp-mapview";
+import { Texture } from "three";
+
+import { WebTileDataProvider, WebTileDataSource } from "./WebTileDataSource";
+
+/**
+ * Options of the {@link RasterTileProvider}s.
+ */
+export interface RasterTileProviderOptions {
+    /**
+     * Copyright information of the tiles.
+     */
+    copyrightInfo?: CopyrightInfo[];
+
+    /**
+     * HTTP headers sent with each tile request, e.g. for authentication.
+     */
+    requestHeaders?: RequestHeaders;
+
+    /**
+     * Formats the time of the tiles for the requests of data sources with a time dimension, see
+     * {@link @here/harp-mapview#DataSource.time}.
+     *
+     * @param time - Time in milliseconds since the Unix epoch.
+     * @defaultValue ISO 8601 format, e.g. `2020-06-01T12:00:00.000Z`.
+     */
+    formatTime?: (time: number) => string;
+}
+
+/**
+ * Base class of the [[WebTileDataProvider]]s loading the textures of raster tiles from URLs.
+ */
+export abstract class RasterTileProvider implements WebTileDataProvider {
+    private readonly m_textureLoader = new TextureLoader();
+
+    /**
+     * Creates a new `RasterTileProvider`.
+     *
+     * @param m_rasterOptions - The options of the provider.
+     */
+    constructor(private readonly m_rasterOptions: RasterTileProviderOptions) {}
+
+    /**
+     * Gets the URL of a tile image.
+     *
+     * @param tileKey - The key of the tile.
+     * @param tileSize - The size of the tile in pixels, see [[WebTileDataSource.resolution]].
+     * @param time - The time of the tile data, see {@link @here/harp-mapview#Tile.time}.
+     * @returns The URL or `undefined` if the tile has no data.
+     */
+    abstract getTileUrl(tileKey: TileKey, tileSize: number, time?: number): string | undefined;
+
+    /** @override */
+    async getTexture(
+        tile: Tile,
+        abortSignal?: AbortSignal
+    ): Promise<[Texture | undefined, CopyrightInfo[]]> {
+        const copyrightInfo = this.m_rasterOptions.copyrightInfo ?? [];
+        const url = this.getTileUrl(
+            tile.tileKey,
+            (tile.dataSource as WebTileDataSource).resolution,
+            tile.time
+        );
+        if (url === undefined) {
+            return [undefined, copyrightInfo];
+        }
+        const texture = await this.m_textureLoader.load(
+            url,
+            this.m_rasterOptions.requestHeaders,
+            abortSignal
+        );
+        return [texture, copyrightInfo];
+    }
+
+    /**
+     * Formats the time of a tile for its request, see [[RasterTileProviderOptions.formatTime]].
+     *
+     * @param time - Time in milliseconds since the Unix epoch.
+     */
+    protected formatTime(time: number): string {
+        return this.m_rasterOptions.formatTime !== undefined
+            ? this.m_rasterOptions.formatTime(time)
+            : new Date(time).toISOString();
+    }
+}
+
+/**
+ * Replaces the `{name}` placeholders of a URL template.
+ *
+ * @param template - The URL template.
+ * @param values - The values of the placeholders, missing placeholders are kept.
+ */
+export function expandUrlTemplate(
+    template: string,
+    values: { [name: string]: string | number }
+): string {
+    return template.replace(/\{([^{}]+)\}/g, (placeholder, name: string) => {
+        const value = values[name];
+        return value !== undefined ? String(value) : placeholder;
+    });
+}
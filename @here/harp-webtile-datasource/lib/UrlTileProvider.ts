@@ -0,0 +1,96 @@
+/*
+ * Copyright (C) 2017-2020 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { TileKey } from "@here/harp-geoutils";
+
+import {
+    expandUrlTemplate,
+    RasterTileProvider,
+    RasterTileProviderOptions
+} from "./RasterTileProvider";
+
+/**
+ * Options of the {@link UrlTileProvider}.
+ */
+export interface UrlTileProviderOptions extends RasterTileProviderOptions {
+    /**
+     * URL template of the tiles.
+     *
+     * @remarks
+     * The following placeholders are replaced for each tile:
+     *  - `{z}` - zoom level of the tile,
+     *  - `{x}` - column of the tile,
+     *  - `{y}` - row of the tile, counted from north to south,
+     *  - `{-y}` - row of the tile, counted from south to north as in TMS,
+     *  - `{quadkey}` - quadkey of the tile as used by Bing Maps,
+     *  - `{s}` - one of the [[subdomains]],
+     *  - `{time}` - time of the tile formatted with [[formatTime]], see
+     *    {@link @here/harp-mapview#DataSource.time}.
+     *
+     * Examples:
+     * ```
+     *   https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png
+     *   https://ecn.t{s}.tiles.virtualearth.net/tiles/a{quadkey}.jpeg?g=1
+     * ```
+     */
+    url: string;
+
+    /**
+     * Subdomains replacing the `{s}` placeholder, distributing the requests over several
+     * servers.
+     * @defaultValue `["a", "b", "c"]`
+     */
+    subdomains?: string[];
+}
+
+/**
+ * [[WebTileDataProvider]] loading raster tiles from a `{z}/{x}/{y}` or quadkey URL template.
+ *
+ * @example
+ * ```typescript
+ * const dataSource = new WebTileDataSource({
+ *     dataProvider: new UrlTileProvider({
+ *         url: "https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png",
+ *         copyrightInfo: [{
+ *             id: "openstreetmap.org",
+ *             label: "OpenStreetMap contributors",
+ *             link: "https://www.openstreetmap.org/copyright"
+ *         }]
+ *     }),
+ *     resolution: WebTileDataSource.resolutionValue.resolution256
+ * });
+ * ```
+ */
+export class UrlTileProvider extends RasterTileProvider {
+    private readonly m_subdomains: string[];
+
+    /**
+     * Creates a new `UrlTileProvider`.
+     *
+     * @param m_options - The options of the provider.
+     */
+    constructor(private readonly m_options: UrlTileProviderOptions) {
+        super(m_options);
+        this.m_subdomains =
+            m_options.subdomains !== undefined && m_options.subdomains.length > 0
+                ? m_options.subdomains
+                : ["a", "b", "c"];
+    }
+
+    /** @override */
+    getTileUrl(tileKey: TileKey, _tileSize?: number, time?: number): string {
+        const { level, column, row } = tileKey;
+        return expandUrlTemplate(this.m_options.url, {
+            ...(time !== undefined && { time: encodeURIComponent(this.formatTime(time)) }),
+            z: level,
+            x: column,
+            y: row,
+            "-y": (1 << level) - 1 - row,
+            quadkey: tileKey.toQuadKey(),
+            // Neighboring tiles are requested from different subdomains.
+            s: this.m_subdomains[(column + row) % this.m_subdomains.length]
+        });
+    }
+}
@@ -3,21 +3,53 @@
  * Licensed under Apache 2.0, see full license in LICENSE
  * SPDX-License-Identifier: Apache-2.0
  */
+import {
+    Env,
+    Expr,
+    getPropertyValue,
+    isJsonExpr,
+    JsonExpr,
+    MapEnv,
+    Value
+} from "@here/harp-datasource-protocol";
 import { TileKey, TilingScheme, webMercatorTilingScheme } from "@here/harp-geoutils";
-import { CopyrightInfo, DataSource, DataSourceOptions, Tile } from "@here/harp-mapview";
-import { getOptionValue } from "@here/harp-utils";
+import {
+    CopyrightInfo,
+    DataSource,
+    DataSourceOptions,
+    Tile,
+    TileSourceMetadata
+} from "@here/harp-mapview";
+import {
+    MapMaterialAdapter,
+    StyledProperties,
+    StylePropertyEvaluator
+} from "@here/harp-mapview/lib/MapMaterialAdapter";
+import { RasterBlendMode, RasterTileMaterial } from "@here/harp-materials";
+import { getOptionValue, PerformanceTimer } from "@here/harp-utils";
 import THREE = require("three");
 import { WebTileLoader } from "./WebTileLoader";
 
 /**
  * An interface for the rendering options that can be passed to the [[WebTileDataSource]].
+ *
+ * @remarks
+ * Numeric options may be given as expressions, which are evaluated every frame, e.g. to
+ * interpolate them by zoom level or to animate them with dynamic properties set with
+ * [[MapView.setDynamicProperty]]:
+ * ```typescript
+ * renderingOptions: {
+ *     opacity: ["interpolate", ["linear"], ["zoom"], 8, 1, 12, 0.3],
+ *     hueRotate: ["get", "weatherHue", ["dynamic-properties"]]
+ * }
+ * ```
  */
 export interface WebTileRenderingOptions {
     /**
      * Opacity of the rendered images.
      * @defaultValue 1.0
      */
-    opacity?: number;
+    opacity?: number | JsonExpr;
 
     /**
      * Force Material to use transparency from texture if available
@@ -30,8 +62,76 @@ export interface WebTileRenderingOptions {
      * @defaultValue 0
      */
     renderOrder?: number;
+
+    /**
+     * Factor the colors of the images are multiplied with, `0` turns them black.
+     * @defaultValue 1.0
+     */
+    brightness?: number | JsonExpr;
+
+    /**
+     * Factor scaling the distance of the colors to middle gray, `0` turns the images gray.
+     * @defaultValue 1.0
+     */
+    contrast?: number | JsonExpr;
+
+    /**
+     * Factor scaling the saturation of the colors, `0` removes all colors.
+     * @defaultValue 1.0
+     */
+    saturation?: number | JsonExpr;
+
+    /**
+     * Angle in degrees by which the hue of the colors is rotated.
+     * @defaultValue 0
+     */
+    hueRotate?: number | JsonExpr;
+
+    /**
+     * Gamma correction of the colors, values above `1` lighten the mid tones.
+     * @defaultValue 1.0
+     */
+    gamma?: number | JsonExpr;
+
+    /**
+     * Amount of conversion to grayscale in the range `[0, 1]`.
+     * @defaultValue 0
+     */
+    grayscale?: number | JsonExpr;
+
+    /**
+     * Mode to blend the images with the layers rendered underneath, i.e. with a lower
+     * [[renderOrder]].
+     * @defaultValue `RasterBlendMode.Normal`
+     */
+    blendMode?: RasterBlendMode;
+
+    /**
+     * Duration in milliseconds of the cross-fade from the images of the previous time to the
+     * images of the current time, when the [[DataSource.time]] changes. `0` disables the fading.
+     * @defaultValue 300
+     */
+    crossFadeDuration?: number;
 }
 
+const DEFAULT_CROSS_FADE_DURATION = 300;
+
+/**
+ * Default values of the [[RasterTileMaterial]] properties controlled by the
+ * [[WebTileRenderingOptions]].
+ */
+const MATERIAL_DEFAULTS: { [name: string]: Value } = {
+    opacity: 1,
+    brightness: 1,
+    contrast: 1,
+    saturation: 1,
+    hueRotate: 0,
+    gamma: 1,
+    grayscale: 0,
+    blendMode: RasterBlendMode.Normal,
+    textureTransparency: false
+};
+
 export interface WebTileDataProvider {
     /**
      * The method to create the Texture that will be applied to the Tile
@@ -47,6 +147,24 @@ export interface WebTileDataProvider {
         tile: Tile,
         abortSignal?: AbortSignal
     ) => Promise<[THREE.Texture | undefined, CopyrightInfo[]] | undefined>;
+
+    /**
+     * Optional method to connect to the tile source, called when the [[WebTileDataSource]] is
+     * connected.
+     */
+    connect?: () => Promise<void>;
+
+    /**
+     * Optional method to get the metadata of the tiles, like their zoom range. Called after
+     * [[connect]] to apply the metadata to the [[WebTileDataSource]].
+     */
+    getMetadata?: () => TileSourceMetadata | undefined;
+
+    /**
+     * Optional method to release the resources of the provider, called when the
+     * [[WebTileDataSource]] is disposed.
+     */
+    dispose?: () => void;
 }
 
 /**
@@ -88,9 +206,9 @@ export class WebTileDataSource extends DataSource {
     protected readonly m_resolution: WebTileDataSource.resolutionValue;
     protected dataProvider: WebTileDataProvider;
 
-    private m_opacity: number = 1;
     private readonly m_renderOrder: number = 0;
-    private m_transparent: boolean = false;
+    private m_renderingOptions: WebTileRenderingOptions;
+    private m_materialProperties: { [name: string]: Value | Expr | undefined } = {};
 
     /**
      * Constructs a new `WebTileDataSource`.
@@ -102,10 +220,9 @@ export class WebTileDataSource extends DataSource {
 
         this.dataProvider = this.m_options.dataProvider;
         this.cacheable = true;
-        this.m_opacity = this.m_options.renderingOptions?.opacity ?? 1;
-        this.m_transparent =
-            this.m_options.renderingOptions?.transparent === true || this.m_opacity < 1;
-        this.m_renderOrder = this.m_options.renderingOptions?.renderOrder ?? 0;
+        this.m_renderingOptions = { ...this.m_options.renderingOptions };
+        this.m_renderOrder = this.m_renderingOptions.renderOrder ?? 0;
+        this.updateMaterialProperties();
 
         this.m_resolution = getOptionValue(
             m_options.resolution,
@@ -114,26 +231,18 @@ export class WebTileDataSource extends DataSource {
     }
 
     /**
-     * Sets the opacity for the WebTileDataSource, will only affect not yet loaded or not cached
-     * tiles.
-     *
-     * Use WebTileDataSource:clearCache and MapView:markTilesDirty to reload all tiles with the
-     * new opacity setting.
+     * Sets the opacity for the WebTileDataSource, affecting all tiles with the next frame.
      */
     set opacity(value: number) {
-        this.m_opacity = value;
-        if (this.m_opacity < 1) {
-            this.m_transparent = true;
-        } else if (this.m_options.renderingOptions?.transparent !== true) {
-            this.m_transparent = false;
-        }
+        this.setRenderingOptions({ opacity: value });
     }
 
     /**
-     * Gets the opacity of the WebTileDataSource.
+     * Gets the opacity of the WebTileDataSource, evaluated for the current state of the
+     * [[MapView]] if it is given as expression.
      */
     get opacity(): number {
-        return this.m_opacity;
+        return this.getMaterialProperty("opacity", this.currentEnv) as number;
     }
 
     get resolution(): WebTileDataSource.resolutionValue {
@@ -151,7 +260,84 @@ export class WebTileDataSource extends DataSource {
      * Gets whether tiles of this WebTileDataSource are transparent.
      */
     get transparent(): boolean {
-        return this.m_transparent;
+        return (
+            this.m_renderingOptions.transparent === true ||
+            this.opacity < 1 ||
+            this.getMaterialProperty("blendMode", this.currentEnv) !== RasterBlendMode.Normal
+        );
+    }
+
+    /**
+     * Gets the current rendering options.
+     */
+    get renderingOptions(): WebTileRenderingOptions {
+        return { ...this.m_renderingOptions };
+    }
+
+    /**
+     * Changes the rendering options, e.g. the color adjustments or blend mode.
+     *
+     * @remarks
+     * The changes apply to all tiles, including the ones already loaded, with the next frame.
+     * Options not contained in `options` keep their current values, options set to `undefined`
+     * are reset to their defaults.
+     *
+     * @param options - The rendering options to change.
+     */
+    setRenderingOptions(options: Omit<WebTileRenderingOptions, "renderOrder">) {
+        this.m_renderingOptions = {
+            ...this.m_renderingOptions,
+            ...options,
+            renderOrder: this.m_renderOrder
+        };
+        this.updateMaterialProperties();
+        this.requestUpdate();
+    }
+
+    /**
+     * Creates the material of a tile, which is updated to the current rendering options every
+     * frame.
+     *
+     * @param texture - The texture of the tile.
+     * @param tile - The tile, required to cross-fade from the tile of the previous time.
+     * @internal
+     */
+    createTileMaterial(texture: THREE.Texture, tile?: Tile): RasterTileMaterial {
+        const material = new RasterTileMaterial({
+            map: texture,
+            depthTest: false,
+            depthWrite: false
+        });
+        const env = this.currentEnv;
+        const styledProperties: StyledProperties = {};
+        for (const name in MATERIAL_DEFAULTS) {
+            if (!MATERIAL_DEFAULTS.hasOwnProperty(name)) {
+                continue;
+            }
+            (material as any)[name] = this.getMaterialProperty(name, env);
+            styledProperties[name] = context => this.getMaterialProperty(name, context.env);
+        }
+        if (tile?.time !== undefined) {
+            styledProperties.crossFade = this.createCrossFadeEvaluator(tile, material);
+        }
+        MapMaterialAdapter.create(material, styledProperties);
+        return material;
+    }
+
+    /** @override */
+    async connect() {
+        await this.dataProvider.connect?.();
+
+        const metadata = this.dataProvider.getMetadata?.();
+        if (metadata !== undefined) {
+            this.applyTileSourceMetadata(metadata);
+        }
+    }
+
+    /** @override */
+    dispose() {
+        this.dataProvider.dispose?.();
+        super.dispose();
     }
 
     /** @override */
@@ -175,6 +361,87 @@ export class WebTileDataSource extends DataSource {
     isFullyCovering(): boolean {
         return true;
     }
+
+    private get currentEnv(): Env {
+        return this.isDetached() ? new MapEnv({}) : this.mapView.env;
+    }
+
+    // Fades in the tile whenever it starts being rendered, from the tile of the previous time.
+    private createCrossFadeEvaluator(
+        tile: Tile,
+        material: RasterTileMaterial
+    ): StylePropertyEvaluator {
+        let lastFrameNumber = -1;
+        let fadeStartTime = 0;
+        return ({ frameNumber }) => {
+            if (frameNumber !== lastFrameNumber + 1) {
+                fadeStartTime = PerformanceTimer.now();
+                material.previousMap = this.getPreviousTimeTexture(tile);
+            }
+            lastFrameNumber = frameNumber;
+            const duration =
+                this.m_renderingOptions.crossFadeDuration ?? DEFAULT_CROSS_FADE_DURATION;
+            if (material.previousMap === null || duration <= 0) {
+                return 1;
+            }
+            const crossFade = Math.min((PerformanceTimer.now() - fadeStartTime) / duration, 1);
+            if (crossFade < 1) {
+                this.requestUpdate();
+            } else {
+                material.previousMap = null;
+            }
+            return crossFade;
+        };
+    }
+
+    private getPreviousTimeTexture(tile: Tile): THREE.Texture | null {
+        const previousTime = this.previousTime;
+        if (previousTime === undefined || tile.time !== this.time || this.isDetached()) {
+            return null;
+        }
+        const previousTile = this.mapView.visibleTileSet.getCachedTile(
+            this,
+            tile.tileKey,
+            tile.offset,
+            this.mapView.frameNumber,
+            previousTime
+        );
+        if (previousTile === undefined || previousTile.disposed) {
+            return null;
+        }
+        for (const object of previousTile.objects) {
+            const previousMaterial = (object as THREE.Mesh).material;
+            if (previousMaterial instanceof RasterTileMaterial) {
+                return previousMaterial.map;
+            }
+        }
+        return null;
+    }
+
+    private getMaterialProperty(name: string, env: Env): Value {
+        return getPropertyValue(this.m_materialProperties[name], env) ?? MATERIAL_DEFAULTS[name];
+    }
+
+    private updateMaterialProperties() {
+        const {
+            transparent,
+            renderOrder: _renderOrder,
+            crossFadeDuration: _crossFadeDuration,
+            ...options
+        } = this.m_renderingOptions;
+        const properties: { [name: string]: Value | JsonExpr | undefined } = {
+            ...options,
+            textureTransparency: transparent
+        };
+        this.m_materialProperties = {};
+        for (const name in properties) {
+            if (!properties.hasOwnProperty(name)) {
+                continue;
+            }
+            const value = properties[name];
+            this.m_materialProperties[name] = isJsonExpr(value) ? Expr.fromJSON(value) : value;
+        }
+    }
 }
 /**
  * Definitions of variable values to be used with `WebTileDataSource`
@@ -6,7 +6,7 @@
 
 import { BaseTileLoader, Tile, TileLoaderState } from "@here/harp-mapview";
 import { TileGeometryCreator } from "@here/harp-mapview/lib/geometry/TileGeometryCreator";
-import { enableBlending } from "@here/harp-materials";
+import { MapObjectAdapter } from "@here/harp-mapview/lib/MapObjectAdapter";
 import * as THREE from "three";
 
 import { WebTileDataProvider, WebTileDataSource } from "./WebTileDataSource";
@@ -57,15 +57,7 @@ export class WebTileLoader extends BaseTileLoader {
                 texture.generateMipmaps = false;
                 this.tile.addOwnedTexture(texture);
 
-                const material = new THREE.MeshBasicMaterial({
-                    map: texture,
-                    opacity: this.dataSource.opacity,
-                    depthTest: false,
-                    depthWrite: false
-                });
-                if (this.dataSource.transparent) {
-                    enableBlending(material);
-                }
+                const material = this.dataSource.createTileMaterial(texture, this.tile);
                 const mesh = TileGeometryCreator.instance.createGroundPlane(
                     this.tile,
                     material,
@@ -73,6 +65,8 @@ export class WebTileLoader extends BaseTileLoader {
                 );
                 this.tile.objects.push(mesh);
                 mesh.renderOrder = this.dataSource.renderOrder;
+                // Updates the dynamic properties of the material every frame.
+                MapObjectAdapter.create(mesh, { pickable: false });
                 this.tile.invalidateResourceInfo();
                 this.dataSource.requestUpdate();
                 onDone(TileLoaderState.Ready);
@@ -0,0 +1,141 @@
+/*
+ * Copyright (C) 2017-2020 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { EarthConstants, TileKey, webMercatorTilingScheme } from "@here/harp-geoutils";
+
+import { RasterTileProvider, RasterTileProviderOptions } from "./RasterTileProvider";
+
+/**
+ * Options of the {@link WmsTileProvider}.
+ */
+export interface WmsTileProviderOptions extends RasterTileProviderOptions {
+    /**
+     * URL of the WMS service, to which the `GetMap` request parameters are appended.
+     */
+    url: string;
+
+    /**
+     * Names of the layers to request.
+     */
+    layers: string | string[];
+
+    /**
+     * Styles of the layers, empty for the default styles.
+     */
+    styles?: string | string[];
+
+    /**
+     * WMS version, which defines the name of the CRS parameter and the axis order of `EPSG:4326`.
+     * @defaultValue `"1.3.0"`
+     */
+    version?: "1.1.1" | "1.3.0";
+
+    /**
+     * Coordinate reference system in which the bounding boxes of the tiles are requested.
+     * @defaultValue `"EPSG:3857"`
+     */
+    crs?: "EPSG:3857" | "EPSG:4326" | "CRS:84";
+
+    /**
+     * Image format of the tiles.
+     * @defaultValue `"image/png"`
+     */
+    format?: string;
+
+    /**
+     * Whether the images are requested with transparent background.
+     * @defaultValue `false`
+     */
+    transparent?: boolean;
+
+    /**
+     * Additional request parameters, e.g. vendor parameters or dimensions like `TIME`.
+     *
+     * @remarks
+     * The `TIME` parameter is set to the time of the tiles if the data source has a time, see
+     * {@link @here/harp-mapview#DataSource.time}.
+     */
+    parameters?: { [name: string]: string };
+}
+
+/**
+ * [[WebTileDataProvider]] loading raster tiles with WMS `GetMap` requests.
+ *
+ * @remarks
+ * The bounding box of each request is computed from the extent of the tile in the web mercator
+ * tiling scheme of the [[WebTileDataSource]].
+ *
+ * @example
+ * ```typescript
+ * const dataSource = new WebTileDataSource({
+ *     dataProvider: new WmsTileProvider({
+ *         url: "https://example.com/wms",
+ *         layers: "elevation",
+ *         transparent: true
+ *     })
+ * });
+ * ```
+ */
+export class WmsTileProvider extends RasterTileProvider {
+    /**
+     * Creates a new `WmsTileProvider`.
+     *
+     * @param m_options - The options of the provider.
+     */
+    constructor(private readonly m_options: WmsTileProviderOptions) {
+        super(m_options);
+    }
+
+    /** @override */
+    getTileUrl(tileKey: TileKey, tileSize: number, time?: number): string {
+        const { layers, styles } = this.m_options;
+        const version = this.m_options.version ?? "1.3.0";
+        const crs = this.m_options.crs ?? "EPSG:3857";
+        const parameters: { [name: string]: string } = {
+            SERVICE: "WMS",
+            REQUEST: "GetMap",
+            VERSION: version,
+            LAYERS: Array.isArray(layers) ? layers.join(",") : layers,
+            STYLES: Array.isArray(styles) ? styles.join(",") : styles ?? "",
+            [version === "1.3.0" ? "CRS" : "SRS"]: crs,
+            BBOX: this.getBoundingBox(tileKey, crs, version).join(","),
+            WIDTH: String(tileSize),
+            HEIGHT: String(tileSize),
+            FORMAT: this.m_options.format ?? "image/png",
+            TRANSPARENT: this.m_options.transparent === true ? "TRUE" : "FALSE",
+            ...this.m_options.parameters
+        };
+        if (time !== undefined) {
+            parameters.TIME = this.formatTime(time);
+        }
+
+        const query = Object.keys(parameters)
+            .map(name => `${name}=${encodeURIComponent(parameters[name])}`)
+            .join("&");
+        const url = this.m_options.url;
+        const separator = !url.includes("?") ? "?" : /[?&]$/.test(url) ? "" : "&";
+        return url + separator + query;
+    }
+
+    private getBoundingBox(tileKey: TileKey, crs: string, version: string): number[] {
+        if (crs === "EPSG:3857") {
+            // Web mercator world coordinates range from 0 to the earth's circumference, with the
+            // y axis pointing south.
+            const worldBox = webMercatorTilingScheme.getWorldBox(tileKey);
+            const halfSize = EarthConstants.EQUATORIAL_CIRCUMFERENCE / 2;
+            return [
+                worldBox.min.x - halfSize,
+                halfSize - worldBox.max.y,
+                worldBox.max.x - halfSize,
+                halfSize - worldBox.min.y
+            ];
+        }
+        const geoBox = webMercatorTilingScheme.getGeoBox(tileKey);
+        // EPSG:4326 has latitude first in WMS 1.3.0, CRS:84 is always longitude first.
+        return crs === "EPSG:4326" && version === "1.3.0"
+            ? [geoBox.south, geoBox.west, geoBox.north, geoBox.east]
+            : [geoBox.west, geoBox.south, geoBox.east, geoBox.north];
+    }
+}
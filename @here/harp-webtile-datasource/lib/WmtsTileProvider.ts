@@ -0,0 +1,422 @@
+/*
+ * Copyright (C) 2017-2020 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { EarthConstants, GeoBox, GeoCoordinates, TileKey } from "@here/harp-geoutils";
+import { TileSourceMetadata } from "@here/harp-mapview";
+import { ITransferManager, TransferManager } from "@here/harp-transfer-manager";
+
+import {
+    expandUrlTemplate,
+    RasterTileProvider,
+    RasterTileProviderOptions
+} from "./RasterTileProvider";
+import { findChild, findChildren, getChildText, parseXml, XmlElement } from "./XmlParser";
+
+/**
+ * Style of a {@link WmtsLayer}.
+ */
+export interface WmtsStyle {
+    identifier: string;
+    isDefault: boolean;
+}
+
+/**
+ * Layer described in a WMTS capabilities document.
+ */
+export interface WmtsLayer {
+    identifier: string;
+    title?: string;
+    formats: string[];
+    styles: WmtsStyle[];
+    /**
+     * Identifiers of the tile matrix sets in which the layer is available.
+     */
+    tileMatrixSets: string[];
+    /**
+     * URL templates of the RESTful tile requests, by image format.
+     */
+    resourceUrls: { [format: string]: string };
+    /**
+     * The extent of the layer, if given as `WGS84BoundingBox`.
+     */
+    bounds?: GeoBox;
+}
+
+/**
+ * Tile matrix, i.e. the tiling of one zoom level, of a {@link WmtsTileMatrixSet}.
+ */
+export interface WmtsTileMatrix {
+    identifier: string;
+    scaleDenominator: number;
+    topLeftCorner: [number, number];
+    tileWidth: number;
+    tileHeight: number;
+    matrixWidth: number;
+    matrixHeight: number;
+}
+
+/**
+ * Tile matrix set described in a WMTS capabilities document.
+ */
+export interface WmtsTileMatrixSet {
+    identifier: string;
+    supportedCrs: string;
+    tileMatrices: WmtsTileMatrix[];
+}
+
+/**
+ * Contents of a WMTS capabilities document used by the {@link WmtsTileProvider}.
+ */
+export interface WmtsCapabilities {
+    layers: WmtsLayer[];
+    tileMatrixSets: WmtsTileMatrixSet[];
+    /**
+     * URL of the key-value-pair encoded `GetTile` requests, if supported by the service.
+     */
+    getTileUrl?: string;
+}
+
+/**
+ * Options of the {@link WmtsTileProvider}.
+ */
+export interface WmtsTileProviderOptions extends RasterTileProviderOptions {
+    /**
+     * URL of the `GetCapabilities` document of the service.
+     */
+    url?: string;
+
+    /**
+     * The `GetCapabilities` document itself, used instead of downloading it from [[url]].
+     */
+    capabilities?: string;
+
+    /**
+     * Identifier of the layer to show.
+     * @defaultValue The first layer in the capabilities.
+     */
+    layer?: string;
+
+    /**
+     * Identifier of the style of the layer.
+     * @defaultValue The default style of the layer.
+     */
+    style?: string;
+
+    /**
+     * Identifier of the tile matrix set.
+     * @defaultValue The first web mercator tile matrix set of the layer.
+     */
+    tileMatrixSet?: string;
+
+    /**
+     * Image format of the tiles.
+     * @defaultValue `"image/png"` if available, the first format of the layer otherwise.
+     */
+    format?: string;
+
+    /**
+     * Values of the dimensions of the layer, e.g. `{ Time: "2020-10-01" }`.
+     *
+     * @remarks
+     * The `Time` dimension is set to the time of the tiles if the data source has a time, see
+     * {@link @here/harp-mapview#DataSource.time}.
+     */
+    dimensions?: { [name: string]: string };
+
+    /**
+     * Transfer Manager to download the capabilities; creates an own instance if none passed.
+     */
+    downloadManager?: ITransferManager;
+}
+
+/**
+ * Parses a WMTS `GetCapabilities` document.
+ *
+ * @param xml - The capabilities document.
+ */
+export function parseWmtsCapabilities(xml: string): WmtsCapabilities {
+    const root = parseXml(xml);
+    const contents = findChild(root, "Contents");
+    if (root.name !== "Capabilities" || contents === undefined) {
+        throw new Error("Invalid WMTS capabilities");
+    }
+
+    const layers = findChildren(contents, "Layer").map(parseLayer);
+    const tileMatrixSets = findChildren(contents, "TileMatrixSet").map(element => ({
+        identifier: getChildText(element, "Identifier") ?? "",
+        supportedCrs: getChildText(element, "SupportedCRS") ?? "",
+        tileMatrices: findChildren(element, "TileMatrix").map(parseTileMatrix)
+    }));
+
+    return { layers, tileMatrixSets, getTileUrl: parseGetTileUrl(root) };
+}
+
+/**
+ * [[WebTileDataProvider]] loading raster tiles from a WMTS service, configured from its
+ * capabilities document.
+ *
+ * @remarks
+ * The layer, style and tile matrix set are picked from the capabilities when the
+ * [[WebTileDataSource]] is connected. Only tile matrix sets aligned to the web mercator tiling
+ * of the data source, like `GoogleMapsCompatible`, are supported.
+ *
+ * @example
+ * ```typescript
+ * const dataSource = new WebTileDataSource({
+ *     dataProvider: new WmtsTileProvider({
+ *         url: "https://example.com/wmts/1.0.0/WMTSCapabilities.xml",
+ *         layer: "satellite"
+ *     })
+ * });
+ * ```
+ */
+export class WmtsTileProvider extends RasterTileProvider {
+    private m_urlTemplate?: string;
+    // Whether the time is appended to key-value pair requests, which have no `{Time}` placeholder.
+    private m_appendTime = false;
+    private m_tileMatrices = new Map<number, WmtsTileMatrix>();
+    private m_metadata?: TileSourceMetadata;
+
+    /**
+     * Creates a new `WmtsTileProvider`.
+     *
+     * @param m_options - The options of the provider.
+     */
+    constructor(private readonly m_options: WmtsTileProviderOptions) {
+        super(m_options);
+    }
+
+    /** @override */
+    async connect(): Promise<void> {
+        const { url, capabilities } = this.m_options;
+        if (capabilities !== undefined) {
+            this.configure(parseWmtsCapabilities(capabilities));
+        } else if (url !== undefined) {
+            this.configure(parseWmtsCapabilities(await this.downloadCapabilities(url)));
+        } else {
+            throw new Error("WmtsTileProvider: missing url or capabilities");
+        }
+    }
+
+    /** @override */
+    getMetadata(): TileSourceMetadata | undefined {
+        return this.m_metadata;
+    }
+
+    /** @override */
+    getTileUrl(tileKey: TileKey, _tileSize?: number, time?: number): string | undefined {
+        const tileMatrix = this.m_tileMatrices.get(tileKey.level);
+        if (this.m_urlTemplate === undefined || tileMatrix === undefined) {
+            return undefined;
+        }
+        const formattedTime = time !== undefined ? this.formatTime(time) : undefined;
+        const url = expandUrlTemplate(this.m_urlTemplate, {
+            TileMatrix: tileMatrix.identifier,
+            TileRow: tileKey.row,
+            TileCol: tileKey.column,
+            ...(formattedTime !== undefined && { Time: encodeURIComponent(formattedTime) })
+        });
+        return this.m_appendTime && formattedTime !== undefined
+            ? `${url}&TIME=${encodeURIComponent(formattedTime)}`
+            : url;
+    }
+
+    private async downloadCapabilities(url: string): Promise<string> {
+        const downloadManager = this.m_options.downloadManager ?? TransferManager.instance();
+        const response = await downloadManager.download(url, {
+            headers: this.m_options.requestHeaders
+        });
+        if (!response.ok) {
+            throw new Error(`Cannot load WMTS capabilities ${url}: ${response.statusText}`);
+        }
+        return await response.text();
+    }
+
+    private configure(capabilities: WmtsCapabilities) {
+        const options = this.m_options;
+        const layer =
+            options.layer !== undefined
+                ? capabilities.layers.find(candidate => candidate.identifier === options.layer)
+                : capabilities.layers[0];
+        if (layer === undefined) {
+            throw new Error(`WMTS layer ${options.layer ?? ""} not found`);
+        }
+
+        const style =
+            options.style ??
+            (layer.styles.find(candidate => candidate.isDefault) ?? layer.styles[0])?.identifier ??
+            "default";
+        const format =
+            options.format ??
+            (layer.formats.includes("image/png") ? "image/png" : layer.formats[0]) ??
+            "image/png";
+
+        const tileMatrixSets = capabilities.tileMatrixSets.filter(
+            tileMatrixSet =>
+                layer.tileMatrixSets.includes(tileMatrixSet.identifier) &&
+                (options.tileMatrixSet === undefined ||
+                    tileMatrixSet.identifier === options.tileMatrixSet)
+        );
+        let tileMatrixSet: WmtsTileMatrixSet | undefined;
+        for (const candidate of tileMatrixSets) {
+            const tileMatrices = getWebMercatorTileMatrices(candidate);
+            if (tileMatrices.size > 0) {
+                tileMatrixSet = candidate;
+                this.m_tileMatrices = tileMatrices;
+                break;
+            }
+        }
+        if (tileMatrixSet === undefined) {
+            throw new Error(`WMTS layer ${layer.identifier} has no web mercator tile matrix set`);
+        }
+
+        const values: { [name: string]: string } = {
+            ...options.dimensions,
+            Style: style,
+            TileMatrixSet: tileMatrixSet.identifier
+        };
+        const resourceUrl = layer.resourceUrls[format];
+        this.m_appendTime =
+            resourceUrl === undefined &&
+            !Object.keys(options.dimensions ?? {}).some(name => name.toUpperCase() === "TIME");
+        if (resourceUrl !== undefined) {
+            this.m_urlTemplate = expandUrlTemplate(resourceUrl, values);
+        } else if (capabilities.getTileUrl !== undefined) {
+            const parameters: { [name: string]: string } = {
+                SERVICE: "WMTS",
+                REQUEST: "GetTile",
+                VERSION: "1.0.0",
+                LAYER: layer.identifier,
+                STYLE: style,
+                FORMAT: format,
+                TILEMATRIXSET: tileMatrixSet.identifier,
+                ...options.dimensions
+            };
+            const query = Object.keys(parameters)
+                .map(name => `${name}=${encodeURIComponent(parameters[name])}`)
+                .join("&");
+            const url = capabilities.getTileUrl;
+            const separator = !url.includes("?") ? "?" : /[?&]$/.test(url) ? "" : "&";
+            this.m_urlTemplate =
+                url +
+                separator +
+                query +
+                "&TILEMATRIX={TileMatrix}&TILEROW={TileRow}&TILECOL={TileCol}";
+        } else {
+            throw new Error(`WMTS layer ${layer.identifier} has no URL for format ${format}`);
+        }
+
+        const levels = Array.from(this.m_tileMatrices.keys());
+        this.m_metadata = {
+            minZoom: Math.min(...levels),
+            maxZoom: Math.max(...levels),
+            bounds: layer.bounds
+        };
+    }
+}
+
+function parseLayer(element: XmlElement): WmtsLayer {
+    const resourceUrls: { [format: string]: string } = {};
+    for (const resourceUrl of findChildren(element, "ResourceURL")) {
+        const { format, resourceType, template } = resourceUrl.attributes;
+        if (resourceType === "tile" && format !== undefined && template !== undefined) {
+            resourceUrls[format] = template;
+        }
+    }
+
+    let bounds: GeoBox | undefined;
+    const boundingBox = findChild(element, "WGS84BoundingBox");
+    if (boundingBox !== undefined) {
+        const [west, south] = parseNumbers(getChildText(boundingBox, "LowerCorner"));
+        const [east, north] = parseNumbers(getChildText(boundingBox, "UpperCorner"));
+        if ([west, south, east, north].every(isFinite)) {
+            bounds = GeoBox.fromCoordinates(
+                new GeoCoordinates(south, west),
+                new GeoCoordinates(north, east)
+            );
+        }
+    }
+
+    return {
+        identifier: getChildText(element, "Identifier") ?? "",
+        title: getChildText(element, "Title"),
+        formats: findChildren(element, "Format").map(format => format.text.trim()),
+        styles: findChildren(element, "Style").map(style => ({
+            identifier: getChildText(style, "Identifier") ?? "",
+            isDefault: style.attributes.isDefault === "true"
+        })),
+        tileMatrixSets: findChildren(element, "TileMatrixSetLink").map(
+            link => getChildText(link, "TileMatrixSet") ?? ""
+        ),
+        resourceUrls,
+        bounds
+    };
+}
+
+function parseTileMatrix(element: XmlElement): WmtsTileMatrix {
+    const [left, top] = parseNumbers(getChildText(element, "TopLeftCorner"));
+    return {
+        identifier: getChildText(element, "Identifier") ?? "",
+        scaleDenominator: Number(getChildText(element, "ScaleDenominator")),
+        topLeftCorner: [left, top],
+        tileWidth: Number(getChildText(element, "TileWidth")),
+        tileHeight: Number(getChildText(element, "TileHeight")),
+        matrixWidth: Number(getChildText(element, "MatrixWidth")),
+        matrixHeight: Number(getChildText(element, "MatrixHeight"))
+    };
+}
+
+function parseGetTileUrl(root: XmlElement): string | undefined {
+    const operations = findChild(root, "OperationsMetadata");
+    const getTile = operations
+        ? findChildren(operations, "Operation").find(
+              operation => operation.attributes.name === "GetTile"
+          )
+        : undefined;
+    const http = getTile ? findChild(findChild(getTile, "DCP") ?? getTile, "HTTP") : undefined;
+    for (const get of http ? findChildren(http, "Get") : []) {
+        // Without constraint, key-value-pair encoding is assumed.
+        const encodings = findChildren(get, "Constraint")
+            .filter(constraint => constraint.attributes.name === "GetEncoding")
+            .map(constraint => findChild(constraint, "AllowedValues") ?? constraint)
+            .map(values => findChildren(values, "Value").map(value => value.text.trim()))
+            .reduce((result, values) => [...result, ...values], []);
+        if (encodings.length === 0 || encodings.includes("KVP")) {
+            return get.attributes.href;
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Gets the tile matrices of a tile matrix set matching the levels of the web mercator tiling
+ * scheme, by level.
+ */
+function getWebMercatorTileMatrices(tileMatrixSet: WmtsTileMatrixSet): Map<number, WmtsTileMatrix> {
+    const tileMatrices = new Map<number, WmtsTileMatrix>();
+    if (!/(^|:)(3857|900913|102100|102113)$/.test(tileMatrixSet.supportedCrs)) {
+        return tileMatrices;
+    }
+    const halfSize = EarthConstants.EQUATORIAL_CIRCUMFERENCE / 2;
+    // Servers round the corner coordinates differently.
+    const tolerance = 1;
+    for (const tileMatrix of tileMatrixSet.tileMatrices) {
+        const level = Math.log2(tileMatrix.matrixWidth);
+        const [left, top] = tileMatrix.topLeftCorner;
+        if (
+            Number.isInteger(level) &&
+            tileMatrix.matrixHeight === tileMatrix.matrixWidth &&
+            Math.abs(left + halfSize) < tolerance &&
+            Math.abs(top - halfSize) < tolerance
+        ) {
+            tileMatrices.set(level, tileMatrix);
+        }
+    }
+    return tileMatrices;
+}
+
+function parseNumbers(text: string | undefined): number[] {
+    return (text ?? "").split(/\s+/).map(Number);
+}
@@ -0,0 +1,164 @@
+/*
+ * Copyright (C) 2017-2020 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Element of a parsed XML document.
+ *
+ * @internal
+ */
+export interface XmlElement {
+    /**
+     * Name of the element without namespace prefix.
+     */
+    name: string;
+
+    /**
+     * Attributes of the element, by their names without namespace prefix.
+     */
+    attributes: { [name: string]: string };
+
+    /**
+     * Child elements.
+     */
+    children: XmlElement[];
+
+    /**
+     * Text content of the element, without the text of the child elements.
+     */
+    text: string;
+}
+
+const TOKEN_REGEXP = new RegExp(
+    [
+        "<!--[\\s\\S]*?-->",
+        "<!\\[CDATA\\[([\\s\\S]*?)\\]\\]>",
+        "<\\?[\\s\\S]*?\\?>",
+        "<!DOCTYPE[^>]*>",
+        "<\\/\\s*([^\\s>]+)\\s*>",
+        "<([^\\s/>!?]+)((?:\\s+[^\\s=/>]+\\s*=\\s*(?:\"[^\"]*\"|'[^']*'))*)\\s*(\\/?)>",
+        "([^<]+)",
+        "(<)"
+    ].join("|"),
+    "g"
+);
+const ATTRIBUTE_REGEXP = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+/**
+ * Parses a well-formed XML document, like an OGC capabilities document.
+ *
+ * @remarks
+ * Namespace prefixes are removed from the names of elements and attributes. Unlike `DOMParser`,
+ * this also works in node and web workers.
+ *
+ * @param xml - The XML document.
+ * @returns The root element of the document.
+ * @internal
+ */
+export function parseXml(xml: string): XmlElement {
+    const stack: XmlElement[] = [];
+    let root: XmlElement | undefined;
+
+    TOKEN_REGEXP.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = TOKEN_REGEXP.exec(xml)) !== null) {
+        const [, cdata, closingName, openingName, attributes, selfClosing, text, invalid] = match;
+        const parent = stack[stack.length - 1] as XmlElement | undefined;
+        if (invalid !== undefined) {
+            throw new Error(`Invalid XML at position ${match.index}`);
+        } else if (cdata !== undefined || text !== undefined) {
+            if (parent !== undefined) {
+                parent.text += cdata ?? decodeEntities(text);
+            }
+        } else if (openingName !== undefined) {
+            const element: XmlElement = {
+                name: localName(openingName),
+                attributes: parseAttributes(attributes),
+                children: [],
+                text: ""
+            };
+            if (parent !== undefined) {
+                parent.children.push(element);
+            } else if (root === undefined) {
+                root = element;
+            } else {
+                throw new Error("Invalid XML: multiple root elements");
+            }
+            if (selfClosing !== "/") {
+                stack.push(element);
+            }
+        } else if (closingName !== undefined) {
+            if (parent === undefined || parent.name !== localName(closingName)) {
+                throw new Error(`Invalid XML: unexpected closing tag ${closingName}`);
+            }
+            stack.pop();
+        }
+    }
+    if (root === undefined || stack.length > 0) {
+        throw new Error("Invalid XML: unterminated document");
+    }
+    return root;
+}
+
+/**
+ * Gets the first child element with the given name.
+ *
+ * @internal
+ */
+export function findChild(element: XmlElement, name: string): XmlElement | undefined {
+    return element.children.find(child => child.name === name);
+}
+
+/**
+ * Gets all child elements with the given name.
+ *
+ * @internal
+ */
+export function findChildren(element: XmlElement, name: string): XmlElement[] {
+    return element.children.filter(child => child.name === name);
+}
+
+/**
+ * Gets the trimmed text of the first child element with the given name.
+ *
+ * @internal
+ */
+export function getChildText(element: XmlElement, name: string): string | undefined {
+    return findChild(element, name)?.text.trim();
+}
+
+function localName(name: string): string {
+    return name.slice(name.indexOf(":") + 1);
+}
+
+function parseAttributes(source: string): { [name: string]: string } {
+    const attributes: { [name: string]: string } = {};
+    ATTRIBUTE_REGEXP.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = ATTRIBUTE_REGEXP.exec(source)) !== null) {
+        attributes[localName(match[1])] = decodeEntities(match[2] ?? match[3]);
+    }
+    return attributes;
+}
+
+function decodeEntities(text: string): string {
+    return text.replace(/&(#x[0-9a-f]+|#[0-9]+|[a-z]+);/gi, (entity, code: string) => {
+        if (code[0] === "#") {
+            return String.fromCodePoint(
+                code[1] === "x" || code[1] === "X"
+                    ? parseInt(code.slice(2), 16)
+                    : parseInt(code.slice(1), 10)
+            );
+        }
+        const entities: { [name: string]: string } = {
+            lt: "<",
+            gt: ">",
+            amp: "&",
+            quot: '"',
+            apos: "'"
+        };
+        return entities[code] ?? entity;
+    });
+}
@@ -0,0 +1,360 @@
+/*
+ * Copyright (C) 2017-2020 HERE Europe B.V.
+ * Licensed under Apache 2.0, see full license in LICENSE
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+//    Mocha discourages using arrow functions, see https://mochajs.org/#arrow-functions
+
+import { EarthConstants, TileKey, webMercatorProjection } from "@here/harp-geoutils";
+import { MapView, TextureLoader, Tile } from "@here/harp-mapview";
+import { expect } from "chai";
+import * as sinon from "sinon";
+import * as THREE from "three";
+
+import {
+    parseWmtsCapabilities,
+    UrlTileProvider,
+    WebTileDataSource,
+    WmsTileProvider,
+    WmtsTileProvider
+} from "../index";
+
+const HALF_SIZE = EarthConstants.EQUATORIAL_CIRCUMFERENCE / 2;
+
+function parseQuery(url: string): { [name: string]: string } {
+    const query: { [name: string]: string } = {};
+    for (const parameter of url.slice(url.indexOf("?") + 1).split("&")) {
+        const [name, value] = parameter.split("=");
+        query[name] = decodeURIComponent(value);
+    }
+    return query;
+}
+
+function tileMatrix(level: number): string {
+    const size = 1 << level;
+    return `
+        <TileMatrix>
+            <ows:Identifier>EPSG:3857:${level}</ows:Identifier>
+            <ScaleDenominator>${559082264.0287178 / size}</ScaleDenominator>
+            <TopLeftCorner>-20037508.34 20037508.34</TopLeftCorner>
+            <TileWidth>256</TileWidth>
+            <TileHeight>256</TileHeight>
+            <MatrixWidth>${size}</MatrixWidth>
+            <MatrixHeight>${size}</MatrixHeight>
+        </TileMatrix>`;
+}
+
+const capabilities = `<?xml version="1.0" encoding="UTF-8"?>
+<Capabilities xmlns="http://www.opengis.net/wmts/1.0" xmlns:ows="http://www.opengis.net/ows/1.1"
+    xmlns:xlink="http://www.w3.org/1999/xlink" version="1.0.0">
+    <ows:OperationsMetadata>
+        <ows:Operation name="GetTile">
+            <ows:DCP>
+                <ows:HTTP>
+                    <ows:Get xlink:href="https://example.com/wmts?">
+                        <ows:Constraint name="GetEncoding">
+                            <ows:AllowedValues><ows:Value>KVP</ows:Value></ows:AllowedValues>
+                        </ows:Constraint>
+                    </ows:Get>
+                </ows:HTTP>
+            </ows:DCP>
+        </ows:Operation>
+    </ows:OperationsMetadata>
+    <Contents>
+        <Layer>
+            <ows:Title>Satellite &amp; Terrain</ows:Title>
+            <ows:WGS84BoundingBox>
+                <ows:LowerCorner>5.0 45.0</ows:LowerCorner>
+                <ows:UpperCorner>15.0 55.0</ows:UpperCorner>
+            </ows:WGS84BoundingBox>
+            <ows:Identifier>satellite</ows:Identifier>
+            <Style><ows:Identifier>dark</ows:Identifier></Style>
+            <Style isDefault="true"><ows:Identifier>light</ows:Identifier></Style>
+            <Format>image/jpeg</Format>
+            <TileMatrixSetLink><TileMatrixSet>WGS84</TileMatrixSet></TileMatrixSetLink>
+            <TileMatrixSetLink><TileMatrixSet>WebMercator</TileMatrixSet></TileMatrixSetLink>
+            <ResourceURL format="image/jpeg" resourceType="tile"
+                template="https://example.com/{Style}/{TileMatrixSet}/{TileMatrix}/{TileRow}/{TileCol}.jpg"/>
+        </Layer>
+        <Layer>
+            <ows:Identifier>labels</ows:Identifier>
+            <Style isDefault="true"><ows:Identifier>default</ows:Identifier></Style>
+            <Format>image/png</Format>
+            <TileMatrixSetLink><TileMatrixSet>WebMercator</TileMatrixSet></TileMatrixSetLink>
+        </Layer>
+        <TileMatrixSet>
+            <ows:Identifier>WGS84</ows:Identifier>
+            <ows:SupportedCRS>urn:ogc:def:crs:OGC:1.3:CRS84</ows:SupportedCRS>
+            <TileMatrix>
+                <ows:Identifier>0</ows:Identifier>
+                <ScaleDenominator>279541132.0143589</ScaleDenominator>
+                <TopLeftCorner>-180 90</TopLeftCorner>
+                <TileWidth>256</TileWidth>
+                <TileHeight>256</TileHeight>
+                <MatrixWidth>2</MatrixWidth>
+                <MatrixHeight>1</MatrixHeight>
+            </TileMatrix>
+        </TileMatrixSet>
+        <TileMatrixSet>
+            <ows:Identifier>WebMercator</ows:Identifier>
+            <ows:SupportedCRS>urn:ogc:def:crs:EPSG::3857</ows:SupportedCRS>
+            ${tileMatrix(2)}
+            ${tileMatrix(3)}
+            ${tileMatrix(4)}
+        </TileMatrixSet>
+    </Contents>
+</Capabilities>`;
+
+describe("RasterTileProviders", function() {
+    describe("UrlTileProvider", function() {
+        it("replaces the placeholders of the URL template", function() {
+            const provider = new UrlTileProvider({
+                url: "https://{s}.tiles.com/{z}/{x}/{y}/{-y}.png"
+            });
+
+            expect(provider.getTileUrl(TileKey.fromRowColumnLevel(1, 2, 3))).to.equal(
+                "https://a.tiles.com/3/2/1/6.png"
+            );
+        });
+
+        it("replaces quadkeys and rotates the subdomains", function() {
+            const provider = new UrlTileProvider({
+                url: "https://t{s}.tiles.com/a{quadkey}.jpeg",
+                subdomains: ["0", "1", "2", "3"]
+            });
+
+            expect(provider.getTileUrl(TileKey.fromRowColumnLevel(1, 2, 3))).to.equal(
+                "https://t3.tiles.com/a012.jpeg"
+            );
+            expect(provider.getTileUrl(TileKey.fromRowColumnLevel(1, 3, 3))).to.equal(
+                "https://t0.tiles.com/a013.jpeg"
+            );
+        });
+
+        it("replaces the time placeholder", function() {
+            const time = Date.UTC(2020, 5, 1, 12);
+            const iso = new UrlTileProvider({ url: "https://tiles.com/{time}/{z}/{x}/{y}.png" });
+            const seconds = new UrlTileProvider({
+                url: "https://tiles.com/{z}/{x}/{y}.png?t={time}",
+                formatTime: t => String(t / 1000)
+            });
+            const tileKey = TileKey.fromRowColumnLevel(1, 2, 3);
+
+            expect(iso.getTileUrl(tileKey, 256, time)).to.equal(
+                "https://tiles.com/2020-06-01T12%3A00%3A00.000Z/3/2/1.png"
+            );
+            expect(seconds.getTileUrl(tileKey, 256, time)).to.equal(
+                "https://tiles.com/3/2/1.png?t=1591012800"
+            );
+        });
+
+        it("loads the textures with the request headers", async function() {
+            const texture = new THREE.Texture();
+            const load = sinon.stub(TextureLoader.prototype, "load").resolves(texture);
+            try {
+                const copyrightInfo = [{ id: "osm", label: "OpenStreetMap" }];
+                const provider = new UrlTileProvider({
+                    url: "https://tiles.com/{z}/{x}/{y}.png",
+                    copyrightInfo,
+                    requestHeaders: { Authorization: "Bearer 123" }
+                });
+                const dataSource = new WebTileDataSource({ dataProvider: provider });
+                dataSource.attach(({ projection: webMercatorProjection } as any) as MapView);
+                const tile = new Tile(dataSource, TileKey.fromRowColumnLevel(1, 2, 3));
+
+                const result = await provider.getTexture(tile);
+
+                expect(result).to.deep.equal([texture, copyrightInfo]);
+                expect(load.calledOnce).to.be.true;
+                expect(load.firstCall.args[0]).to.equal("https://tiles.com/3/2/1.png");
+                expect(load.firstCall.args[1]).to.deep.equal({ Authorization: "Bearer 123" });
+            } finally {
+                load.restore();
+            }
+        });
+    });
+
+    describe("WmsTileProvider", function() {
+        it("requests the web mercator bounding box of the tile", function() {
+            const provider = new WmsTileProvider({
+                url: "https://example.com/wms?map=world",
+                layers: ["roads", "labels"],
+                transparent: true,
+                parameters: { TIME: "2020-10-01" }
+            });
+
+            const url = provider.getTileUrl(TileKey.fromRowColumnLevel(0, 0, 1), 512);
+
+            expect(url.startsWith("https://example.com/wms?map=world&SERVICE=WMS&")).to.be.true;
+            const query = parseQuery(url);
+            expect(query).to.deep.include({
+                REQUEST: "GetMap",
+                VERSION: "1.3.0",
+                LAYERS: "roads,labels",
+                STYLES: "",
+                CRS: "EPSG:3857",
+                WIDTH: "512",
+                HEIGHT: "512",
+                FORMAT: "image/png",
+                TRANSPARENT: "TRUE",
+                TIME: "2020-10-01"
+            });
+            const bbox = query.BBOX.split(",").map(Number);
+            // The north-western quarter of the world.
+            expect(bbox[0]).to.be.closeTo(-HALF_SIZE, 1e-6);
+            expect(bbox[1]).to.be.closeTo(0, 1e-6);
+            expect(bbox[2]).to.be.closeTo(0, 1e-6);
+            expect(bbox[3]).to.be.closeTo(HALF_SIZE, 1e-6);
+        });
+
+        it("uses the axis order of the WMS version", function() {
+            const tileKey = TileKey.fromRowColumnLevel(0, 1, 1);
+            const v130 = new WmsTileProvider({
+                url: "https://example.com/wms",
+                layers: "roads",
+                crs: "EPSG:4326"
+            });
+            const v111 = new WmsTileProvider({
+                url: "https://example.com/wms",
+                layers: "roads",
+                crs: "EPSG:4326",
+                version: "1.1.1"
+            });
+
+            const bbox130 = parseQuery(v130.getTileUrl(tileKey, 256))
+                .BBOX.split(",")
+                .map(Number);
+            const query111 = parseQuery(v111.getTileUrl(tileKey, 256));
+            const bbox111 = query111.BBOX.split(",").map(Number);
+
+            expect(query111.SRS).to.equal("EPSG:4326");
+            expect(bbox130[0]).to.equal(0);
+            expect(bbox130[1]).to.equal(0);
+            expect(bbox130[3]).to.equal(180);
+            expect(bbox111).to.deep.equal([bbox130[1], bbox130[0], bbox130[3], bbox130[2]]);
+        });
+
+        it("requests the time of the tile", function() {
+            const provider = new WmsTileProvider({
+                url: "https://example.com/wms",
+                layers: "radar",
+                parameters: { TIME: "2020-10-01" }
+            });
+
+            const url = provider.getTileUrl(
+                TileKey.fromRowColumnLevel(0, 0, 1),
+                256,
+                Date.UTC(2020, 5, 1, 12)
+            );
+
+            expect(parseQuery(url).TIME).to.equal("2020-06-01T12:00:00.000Z");
+        });
+    });
+
+    describe("WmtsTileProvider", function() {
+        it("parses the capabilities", function() {
+            const result = parseWmtsCapabilities(capabilities);
+
+            expect(result.getTileUrl).to.equal("https://example.com/wmts?");
+            expect(result.layers.map(layer => layer.identifier)).to.deep.equal([
+                "satellite",
+                "labels"
+            ]);
+            expect(result.layers[0].title).to.equal("Satellite & Terrain");
+            expect(result.layers[0].styles).to.deep.equal([
+                { identifier: "dark", isDefault: false },
+                { identifier: "light", isDefault: true }
+            ]);
+            expect(result.tileMatrixSets[1].tileMatrices).to.have.length(3);
+            expect(result.tileMatrixSets[1].tileMatrices[0]).to.deep.include({
+                identifier: "EPSG:3857:2",
+                topLeftCorner: [-20037508.34, 20037508.34],
+                matrixWidth: 4
+            });
+        });
+
+        it("uses the resource URL of the web mercator tile matrix set", async function() {
+            const provider = new WmtsTileProvider({ capabilities });
+            await provider.connect();
+
+            expect(provider.getTileUrl(TileKey.fromRowColumnLevel(1, 2, 3))).to.equal(
+                "https://example.com/light/WebMercator/EPSG:3857:3/1/2.jpg"
+            );
+            expect(provider.getTileUrl(TileKey.fromRowColumnLevel(1, 2, 5))).to.be.undefined;
+
+            const metadata = provider.getMetadata()!;
+            expect(metadata.minZoom).to.equal(2);
+            expect(metadata.maxZoom).to.equal(4);
+            expect(metadata.bounds!.west).to.equal(5);
+            expect(metadata.bounds!.north).to.equal(55);
+        });
+
+        it("uses key-value-pair requests without resource URL", async function() {
+            const provider = new WmtsTileProvider({
+                capabilities,
+                layer: "labels",
+                dimensions: { TIME: "2020" }
+            });
+            await provider.connect();
+
+            const url = provider.getTileUrl(TileKey.fromRowColumnLevel(1, 2, 3))!;
+            expect(url.startsWith("https://example.com/wmts?SERVICE=WMTS&")).to.be.true;
+            expect(parseQuery(url)).to.deep.equal({
+                SERVICE: "WMTS",
+                REQUEST: "GetTile",
+                VERSION: "1.0.0",
+                LAYER: "labels",
+                STYLE: "default",
+                FORMAT: "image/png",
+                TILEMATRIXSET: "WebMercator",
+                TIME: "2020",
+                TILEMATRIX: "EPSG:3857:3",
+                TILEROW: "1",
+                TILECOL: "2"
+            });
+        });
+
+        it("appends the time of the tile to key-value-pair requests", async function() {
+            const provider = new WmtsTileProvider({ capabilities, layer: "labels" });
+            await provider.connect();
+            const tileKey = TileKey.fromRowColumnLevel(1, 2, 3);
+
+            expect(parseQuery(provider.getTileUrl(tileKey)!).TIME).to.be.undefined;
+            expect(
+                parseQuery(provider.getTileUrl(tileKey, 256, Date.UTC(2020, 5, 1))!).TIME
+            ).to.equal("2020-06-01T00:00:00.000Z");
+        });
+
+        it("downloads the capabilities", async function() {
+            const download = sinon.stub().resolves({
+                ok: true,
+                text: () => Promise.resolve(capabilities)
+            });
+            const provider = new WmtsTileProvider({
+                url: "https://example.com/WMTSCapabilities.xml",
+                downloadManager: { download } as any
+            });
+            await provider.connect();
+
+            expect(download.calledOnceWith("https://example.com/WMTSCapabilities.xml")).to.be.true;
+            expect(provider.getTileUrl(TileKey.fromRowColumnLevel(0, 0, 2))).to.not.be.undefined;
+        });
+
+        it("rejects layers without web mercator tile matrix set", async function() {
+            const provider = new WmtsTileProvider({
+                capabilities,
+                tileMatrixSet: "WGS84"
+            });
+
+            let error: Error | undefined;
+            try {
+                await provider.connect();
+            } catch (e) {
+                error = e;
+            }
+            expect(error).to.be.instanceOf(Error);
+            expect(error!.message).to.contain("web mercator");
+        });
+    });
+});
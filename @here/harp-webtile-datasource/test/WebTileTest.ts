@@ -3,9 +3,13 @@
  * Licensed under Apache 2.0, see full license in LICENSE
  * SPDX-License-Identifier: Apache-2.0
  */
+import { MapEnv } from "@here/harp-datasource-protocol";
 import { mercatorProjection, TileKey } from "@here/harp-geoutils";
 import { CopyrightInfo, MapView, Tile } from "@here/harp-mapview";
 import { TileGeometryCreator } from "@here/harp-mapview/lib/geometry/TileGeometryCreator";
+import { MapObjectAdapter } from "@here/harp-mapview/lib/MapObjectAdapter";
+import { RasterBlendMode, RasterTileMaterial } from "@here/harp-materials";
+import { PerformanceTimer } from "@here/harp-utils";
 import { expect } from "chai";
 import * as sinon from "sinon";
 
@@ -119,4 +123,144 @@ describe("WebTileDataSource", function() {
         expect(creatorSpy.called).to.be.true;
         expect((creatorSpy.args[0][1] as THREE.MeshBasicMaterial).opacity).to.equal(0.5);
     });
+
+    describe("rendering options", function() {
+        const env = new MapEnv({ $zoom: 10 });
+        let frameNumber = 0;
+
+        async function loadTile(webTileDataSource: WebTileDataSource): Promise<THREE.Mesh> {
+            webTileDataSource.attach(({ projection: mercatorProjection, env } as any) as MapView);
+            const tile = webTileDataSource.getTile(TileKey.fromRowColumnLevel(0, 0, 0));
+            await tile.load();
+            return tile.objects[0] as THREE.Mesh;
+        }
+
+        function update(mesh: THREE.Mesh) {
+            MapObjectAdapter.ensureUpdated(mesh, { env, frameNumber: ++frameNumber });
+        }
+
+        it("applies the color adjustments to the tile materials", async function() {
+            const webTileDataSource = new WebTileDataSource({
+                dataProvider: fakeWebTileProvider,
+                renderingOptions: {
+                    brightness: 0.8,
+                    saturation: ["interpolate", ["linear"], ["zoom"], 5, 0, 15, 1],
+                    hueRotate: 45,
+                    blendMode: RasterBlendMode.Multiply
+                }
+            });
+
+            const mesh = await loadTile(webTileDataSource);
+
+            const material = mesh.material as RasterTileMaterial;
+            expect(material).to.be.instanceOf(RasterTileMaterial);
+            expect(material.brightness).to.equal(0.8);
+            expect(material.saturation).to.equal(0.5);
+            expect(material.hueRotate).to.be.closeTo(45, 1e-9);
+            expect(material.contrast).to.equal(1);
+            expect(material.blendMode).to.equal(RasterBlendMode.Multiply);
+            expect(webTileDataSource.transparent).to.be.true;
+        });
+
+        it("updates loaded tiles when the rendering options change", async function() {
+            const webTileDataSource = new WebTileDataSource({
+                dataProvider: fakeWebTileProvider,
+                renderingOptions: { contrast: 1.5, transparent: true }
+            });
+            const mesh = await loadTile(webTileDataSource);
+            const material = mesh.material as RasterTileMaterial;
+            expect(material.textureTransparency).to.be.true;
+
+            const updateSpy = sinon.spy(webTileDataSource, "requestUpdate");
+            webTileDataSource.setRenderingOptions({
+                grayscale: 1,
+                blendMode: RasterBlendMode.Screen
+            });
+            update(mesh);
+
+            expect(updateSpy.called).to.be.true;
+            expect(material.grayscale).to.equal(1);
+            expect(material.contrast).to.equal(1.5);
+            expect(material.blendMode).to.equal(RasterBlendMode.Screen);
+            expect(webTileDataSource.renderingOptions).to.deep.include({
+                contrast: 1.5,
+                grayscale: 1,
+                blendMode: RasterBlendMode.Screen
+            });
+
+            webTileDataSource.opacity = 0.25;
+            update(mesh);
+
+            expect(material.opacity).to.equal(0.25);
+        });
+
+        it("evaluates dynamic properties every frame", async function() {
+            const webTileDataSource = new WebTileDataSource({
+                dataProvider: fakeWebTileProvider,
+                renderingOptions: {
+                    opacity: ["get", "weatherOpacity", ["dynamic-properties"]]
+                }
+            });
+            const mesh = await loadTile(webTileDataSource);
+            const material = mesh.material as RasterTileMaterial;
+
+            // Falls back to the default if the dynamic property is not set.
+            expect(material.opacity).to.equal(1);
+
+            env.entries.weatherOpacity = 0.4;
+            update(mesh);
+            expect(material.opacity).to.equal(0.4);
+            expect(webTileDataSource.opacity).to.equal(0.4);
+
+            env.entries.weatherOpacity = 0.6;
+            update(mesh);
+            expect(material.opacity).to.equal(0.6);
+            delete env.entries.weatherOpacity;
+        });
+
+        it("cross-fades from the tile of the previous time", async function() {
+            const webTileDataSource = new WebTileDataSource({
+                dataProvider: fakeWebTileProvider,
+                time: 1000,
+                renderingOptions: { crossFadeDuration: 100 }
+            });
+            const previousMesh = await loadTile(webTileDataSource);
+            const previousTexture = (previousMesh.material as RasterTileMaterial).map;
+            const previousTile = { objects: [previousMesh], disposed: false };
+            const getCachedTile = sinon.stub().returns(previousTile);
+            webTileDataSource.attach(({
+                projection: mercatorProjection,
+                env,
+                frameNumber,
+                visibleTileSet: { getCachedTile }
+            } as any) as MapView);
+
+            webTileDataSource.time = 2000;
+            const tile = webTileDataSource.getTile(TileKey.fromRowColumnLevel(0, 0, 0));
+            await tile.load();
+            const mesh = tile.objects[0] as THREE.Mesh;
+            const material = mesh.material as RasterTileMaterial;
+
+            const now = sinon.stub(PerformanceTimer, "now").returns(0);
+            try {
+                update(mesh);
+                expect(getCachedTile.firstCall.args[4]).to.equal(1000);
+                expect(material.previousMap).to.equal(previousTexture);
+                expect(material.crossFade).to.equal(0);
+
+                now.returns(50);
+                const updateSpy = sinon.spy(webTileDataSource, "requestUpdate");
+                update(mesh);
+                expect(material.crossFade).to.equal(0.5);
+                expect(updateSpy.called).to.be.true;
+
+                now.returns(150);
+                update(mesh);
+                expect(material.crossFade).to.equal(1);
+                expect(material.previousMap).to.be.null;
+            } finally {
+                now.restore();
+            }
+        });
+    });
 });
@@ -12,6 +12,8 @@ if (!(self as any).THREE) {
     );
 }
 
+import { GlyphGeneratorService } from "@here/harp-mapview-decoder/index-worker";
+import { RasterDemDecoderService } from "@here/harp-terrain-datasource/index-worker";
 import {
     GeoJsonTilerService,
     VectorTileDecoderService
@@ -19,3 +21,5 @@ import {
 
 GeoJsonTilerService.start();
 VectorTileDecoderService.start();
+RasterDemDecoderService.start();
+GlyphGeneratorService.register();
@@ -21,6 +21,9 @@ export * from "@here/harp-debug-datasource";
 export * from "@here/harp-geojson-datasource";
 export * from "@here/harp-features-datasource";
 export * from "@here/harp-webtile-datasource";
+export * from "@here/harp-terrain-datasource";
+export * from "@here/harp-tile-archive";
+export * from "@here/harp-tile-cache";
 export * from "@here/harp-map-controls/lib/MapControls";
 export * from "@here/harp-map-controls/lib/MapControlsUI";
 export * from "@here/harp-datasource-protocol";